@@ -7,32 +7,172 @@ import { Loader } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import {
   Alert,
   Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
   IconButton,
+  MenuItem,
   Table,
   TableBody,
   TableCell,
   TableContainer,
   TableHead,
   TableRow,
+  TextField,
   Tooltip,
   Typography,
 } from '@mui/material';
-import React from 'react';
-import { useAccessTab } from './hooks/useAccessTab';
+import React, { useState } from 'react';
+import { UserSearchField } from '../CreateAKSProject/components/UserSearchField';
+import { AVAILABLE_ROLES, type PrincipalType, type RoleType } from '../CreateAKSProject/types';
+import { isValidObjectId } from '../CreateAKSProject/validators';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { AccessComparison } from './components/AccessComparison';
+import { type AccessChange, useAccessTab } from './hooks/useAccessTab';
+import type { AccessMember } from './members';
 
-/** Component to display table of present Azure Role Assignments */
+const PRINCIPAL_TYPES: PrincipalType[] = ['User', 'Group'];
+
+function ChangeStatus({ change }: { change: AccessChange | undefined }) {
+  const { t } = useTranslation();
+  if (!change) return null;
+  switch (change.state) {
+    case 'pending':
+      return (
+        <Chip
+          size="small"
+          icon={<CircularProgress size={12} aria-hidden="true" />}
+          label={t('Pending')}
+        />
+      );
+    case 'applied':
+      return <Chip size="small" color="success" label={t('Applied')} />;
+    case 'failed':
+      return (
+        <Tooltip title={change.message ?? ''}>
+          <Chip size="small" color="error" label={t('Failed')} />
+        </Tooltip>
+      );
+  }
+}
+
+function AddMemberForm({
+  onAdd,
+}: {
+  onAdd: (member: {
+    objectId: string;
+    role: RoleType;
+    principalType: PrincipalType;
+    displayName?: string;
+  }) => Promise<void>;
+}) {
+  const { t } = useTranslation();
+  const [objectId, setObjectId] = useState('');
+  const [displayName, setDisplayName] = useState<string | undefined>();
+  const [principalType, setPrincipalType] = useState<PrincipalType>('User');
+  const [role, setRole] = useState<RoleType>('Writer');
+  // Remounts the search field so it clears after a member is added.
+  const [formKey, setFormKey] = useState(0);
+
+  const handleAdd = () => {
+    onAdd({ objectId: objectId.trim(), role, principalType, displayName });
+    setObjectId('');
+    setDisplayName(undefined);
+    setFormKey(key => key + 1);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', flexWrap: 'wrap', mt: 2 }}>
+      <Box sx={{ flex: 1, minWidth: 280 }}>
+        <UserSearchField
+          key={formKey}
+          label={principalType === 'Group' ? t('Group object ID') : t('User')}
+          value={objectId}
+          displayName={displayName}
+          onChange={(id, name) => {
+            setObjectId(id);
+            setDisplayName(name);
+          }}
+          helperText={
+            principalType === 'Group' ? t('Groups are added by their object ID.') : undefined
+          }
+        />
+      </Box>
+      <TextField
+        select
+        label={t('Type')}
+        value={principalType}
+        onChange={e => setPrincipalType(e.target.value as PrincipalType)}
+        sx={{ minWidth: 120 }}
+      >
+        {PRINCIPAL_TYPES.map(type => (
+          <MenuItem key={type} value={type}>
+            {type === 'User' ? t('User') : t('Group')}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        label={t('Role')}
+        value={role}
+        onChange={e => setRole(e.target.value as RoleType)}
+        sx={{ minWidth: 140 }}
+      >
+        {AVAILABLE_ROLES.map(r => (
+          <MenuItem key={r} value={r}>
+            {r}
+          </MenuItem>
+        ))}
+      </TextField>
+      <Button
+        variant="contained"
+        startIcon={<Icon icon="mdi:account-plus" aria-hidden="true" />}
+        disabled={!isValidObjectId(objectId.trim())}
+        onClick={handleAdd}
+        sx={{ mt: 1 }}
+      >
+        {t('Add')}
+      </Button>
+    </Box>
+  );
+}
+
+/**
+ * Component to display and manage the Azure Role Assignments of a project.
+ * Projects spanning several clusters or namespaces get a scope selector and a
+ * side-by-side comparison of every member's role in each scope.
+ */
 export default function AccessTab({
   project,
 }: {
   project: { clusters: string[]; namespaces: string[] };
 }) {
-  const { loading, error, assignments, refresh } = useAccessTab(project);
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const { loading, error, members, changes, refresh, addMember, changeRole, revokeMember } =
+    useAccessTab(selected);
   const { t } = useTranslation();
+  const [pendingRevoke, setPendingRevoke] = useState<AccessMember | null>(null);
 
-  if (loading && assignments.length === 0) {
+  if (loading && members.length === 0) {
     return <Loader title={t('Loading role assignments…')} />;
   }
 
+  // Members added in this session that the assignment list does not show yet.
+  const addedRows = Object.entries(changes).filter(
+    ([id, change]) => change.action === 'add' && !members.some(m => m.principalId === id)
+  );
+
+  const handleConfirmRevoke = () => {
+    if (pendingRevoke) revokeMember(pendingRevoke);
+    setPendingRevoke(null);
+  };
+
   return (
     <Box sx={{ my: 3 }}>
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -50,32 +190,38 @@ export default function AccessTab({
             <Icon icon="mdi:refresh" width={20} aria-hidden="true" />
           </IconButton>
         </Tooltip>
+        <Box sx={{ ml: 'auto' }}>
+          <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+        </Box>
       </Box>
+
+      <AddMemberForm onAdd={addMember} />
+
       {error ? (
-        <Alert severity="error" role="alert" sx={{ mt: 1 }}>
+        <Alert severity="error" role="alert" sx={{ mt: 2 }}>
           {error}
         </Alert>
-      ) : assignments.length === 0 ? (
-        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+      ) : members.length === 0 && addedRows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
           {t('No role assignments found for {{ namespace }} on {{ cluster }}.', {
-            namespace: project.namespaces[0],
-            cluster: project.clusters[0],
+            namespace: selected.namespace,
+            cluster: selected.cluster,
           })}
         </Typography>
       ) : (
         <>
-          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2, mb: 2 }}>
             {t('Showing assignments for {{ namespace }} on {{ cluster }}', {
-              namespace: project.namespaces[0],
-              cluster: project.clusters[0],
+              namespace: selected.namespace,
+              cluster: selected.cluster,
             })}
           </Typography>
           <TableContainer sx={{ ml: -2 }}>
             <Table
               size="small"
               aria-label={t('Role assignments for {{ namespace }} on {{ cluster }}', {
-                namespace: project.namespaces[0],
-                cluster: project.clusters[0],
+                namespace: selected.namespace,
+                cluster: selected.cluster,
               })}
             >
               <TableHead>
@@ -83,24 +229,82 @@ export default function AccessTab({
                   <TableCell>{t('Principal')}</TableCell>
                   <TableCell>{t('Type')}</TableCell>
                   <TableCell>{t('Role')}</TableCell>
+                  <TableCell>{t('Azure roles')}</TableCell>
+                  <TableCell>{t('Status')}</TableCell>
+                  <TableCell align="right">{t('Actions')}</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
-                {assignments.map(a => (
-                  <TableRow
-                    key={`${a.principalName || 'unknown'}-${a.principalType}-${
-                      a.roleDefinitionName
-                    }-${a.scope}`}
-                  >
+                {members.map(member => {
+                  const change = changes[member.principalId];
+                  const busy = change?.state === 'pending';
+                  return (
+                    <TableRow key={member.principalId}>
+                      <TableCell>
+                        {member.principalName || (
+                          <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                            {member.principalId}
+                          </Box>
+                        )}
+                      </TableCell>
+                      <TableCell>{member.principalType}</TableCell>
+                      <TableCell>
+                        {member.role ? (
+                          <TextField
+                            select
+                            size="small"
+                            value={member.role}
+                            disabled={busy}
+                            onChange={e => changeRole(member, e.target.value as RoleType)}
+                            inputProps={{
+                              'aria-label': t('Role of {{ name }}', {
+                                name: member.principalName ?? member.principalId,
+                              }),
+                            }}
+                          >
+                            {AVAILABLE_ROLES.map(r => (
+                              <MenuItem key={r} value={r}>
+                                {r}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        ) : (
+                          '—'
+                        )}
+                      </TableCell>
+                      <TableCell>{member.azureRoles.join(', ')}</TableCell>
+                      <TableCell>
+                        <ChangeStatus change={change} />
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={t('Revoke access')}>
+                          <span>
+                            <IconButton
+                              size="small"
+                              disabled={busy}
+                              onClick={() => setPendingRevoke(member)}
+                              aria-label={t('Revoke access for {{ name }}', {
+                                name: member.principalName ?? member.principalId,
+                              })}
+                            >
+                              <Icon icon="mdi:account-remove" width={20} aria-hidden="true" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {addedRows.map(([id, change]) => (
+                  <TableRow key={id}>
+                    <TableCell>{change.displayName || id}</TableCell>
+                    <TableCell>{change.principalType}</TableCell>
+                    <TableCell>{change.role}</TableCell>
+                    <TableCell>—</TableCell>
                     <TableCell>
-                      {a.principalName || (
-                        <Box component="span" aria-label={t('Unknown principal')}>
-                          —
-                        </Box>
-                      )}
+                      <ChangeStatus change={change} />
                     </TableCell>
-                    <TableCell>{a.principalType}</TableCell>
-                    <TableCell>{a.roleDefinitionName}</TableCell>
+                    <TableCell />
                   </TableRow>
                 ))}
               </TableBody>
@@ -108,6 +312,29 @@ export default function AccessTab({
           </TableContainer>
         </>
       )}
+
+      <AccessComparison scopes={scopes} />
+
+      <Dialog open={!!pendingRevoke} onClose={() => setPendingRevoke(null)}>
+        <DialogTitle>{t('Revoke access')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t(
+              'Remove all roles of {{ name }} on {{ namespace }}? They lose access to the project.',
+              {
+                name: pendingRevoke?.principalName ?? pendingRevoke?.principalId,
+                namespace: selected.namespace,
+              }
+            )}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingRevoke(null)}>{t('Cancel')}</Button>
+          <Button color="error" onClick={handleConfirmRevoke}>
+            {t('Revoke')}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 }
@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Typography } from '@mui/material';
+import React from 'react';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
+import { ScopeComparisonTable } from '../../shared/ScopeComparisonTable';
+import { useAccessComparison } from '../hooks/useAccessComparison';
+
+/**
+ * Side-by-side view of the role each member holds in every cluster and
+ * namespace of a project, with members whose access differs marked. Renders
+ * nothing for projects with a single scope.
+ */
+export function AccessComparison({ scopes }: { scopes: ProjectScope[] }) {
+  const { t } = useTranslation();
+  const { rows, loading, errors, refresh } = useAccessComparison(scopes);
+
+  return (
+    <ScopeComparisonTable
+      title={t('Access across clusters and namespaces')}
+      scopes={scopes}
+      rows={rows}
+      loading={loading}
+      errors={errors}
+      refresh={refresh}
+      rowLabel={t('Principal')}
+      emptyText={t('No role assignments found.')}
+      missingText={t('No access')}
+      renderSnapshot={member => (
+        <>
+          <Typography variant="body2">{member.role ?? '—'}</Typography>
+          {!member.role && (
+            <Typography variant="caption" color="text.secondary">
+              {member.azureRoles.join(', ')}
+            </Typography>
+          )}
+        </>
+      )}
+    />
+  );
+}
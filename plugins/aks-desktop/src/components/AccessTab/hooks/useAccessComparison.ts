@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { listNamespaceRoleAssignments } from '../../../utils/azure/az-namespace-access';
+import { RESOURCE_GROUP_LABEL, SUBSCRIPTION_LABEL } from '../../../utils/constants/projectLabels';
+import {
+  type ProjectScope,
+  type ScopeComparisonRow,
+  scopeKey,
+} from '../../../utils/shared/projectScopes';
+import { useScopeData } from '../../shared/hooks/useScopeData';
+import { type AccessMember, buildAccessComparison, groupAssignmentsByMember } from '../members';
+
+/** Result returned by {@link useAccessComparison}. */
+export interface UseAccessComparisonResult {
+  rows: ScopeComparisonRow<AccessMember>[];
+  loading: boolean;
+  /** Scopes whose role assignments could not be read, with the reason. */
+  errors: Record<string, string>;
+  refresh: () => void;
+}
+
+/** Lists the members of one scope, using the project labels of its namespace. */
+async function fetchScopeMembers(scope: ProjectScope): Promise<AccessMember[]> {
+  const namespace = await clusterRequest(`/api/v1/namespaces/${scope.namespace}`, {
+    method: 'GET',
+    cluster: scope.cluster,
+  });
+  const labels: Record<string, string> = namespace?.metadata?.labels ?? {};
+  const resourceGroup = labels[RESOURCE_GROUP_LABEL];
+  if (!resourceGroup) {
+    throw new Error('The namespace has no project resource group label');
+  }
+  const result = await listNamespaceRoleAssignments({
+    clusterName: scope.cluster,
+    resourceGroup,
+    namespaceName: scope.namespace,
+    subscriptionId: labels[SUBSCRIPTION_LABEL],
+  });
+  if (!result.success) {
+    throw new Error(result.error ?? 'Failed to load role assignments');
+  }
+  return groupAssignmentsByMember(result.assignments);
+}
+
+/**
+ * Reads the role assignments of every scope of a project and lines up each
+ * member's roles. Nothing is fetched for fewer than two scopes.
+ *
+ * @param scopes - Scopes to compare.
+ */
+export function useAccessComparison(scopes: ProjectScope[]): UseAccessComparisonResult {
+  const { dataByScope, loading, errors, refresh } = useScopeData(scopes, fetchScopeMembers);
+  const membersByScope: Record<string, AccessMember[]> = {};
+  for (const scope of scopes) {
+    const members = dataByScope[scopeKey(scope)];
+    if (members) membersByScope[scopeKey(scope)] = members;
+  }
+  return {
+    rows: buildAccessComparison(scopes, membersByScope),
+    loading,
+    errors,
+    refresh,
+  };
+}
@@ -7,6 +7,10 @@ import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
 
 const mockUseGet = vi.hoisted(() => vi.fn());
 const mockListNamespaceRoleAssignments = vi.hoisted(() => vi.fn());
+const mockCreateNamespaceRoleAssignment = vi.hoisted(() => vi.fn());
+const mockDeleteNamespaceRoleAssignments = vi.hoisted(() => vi.fn());
+const mockVerifyNamespaceAccess = vi.hoisted(() => vi.fn());
+const mockAssignRolesToNamespace = vi.hoisted(() => vi.fn());
 const mockT = vi.hoisted(() => (key: string) => key);
 
 vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
@@ -22,6 +26,13 @@ vi.mock('@kinvolk/headlamp-plugin/lib', () => ({
 
 vi.mock('../../../utils/azure/az-namespace-access', () => ({
   listNamespaceRoleAssignments: mockListNamespaceRoleAssignments,
+  createNamespaceRoleAssignment: mockCreateNamespaceRoleAssignment,
+  deleteNamespaceRoleAssignments: mockDeleteNamespaceRoleAssignments,
+  verifyNamespaceAccess: mockVerifyNamespaceAccess,
+}));
+
+vi.mock('../../../utils/azure/roleAssignment', () => ({
+  assignRolesToNamespace: mockAssignRolesToNamespace,
 }));
 
 import { useAccessTab } from './useAccessTab';
@@ -39,10 +50,10 @@ function createNamespaceInstance(subscription = 'test-sub', resourceGroup = 'tes
   };
 }
 
-function createProject(suffix: string) {
+function createScope(suffix: string) {
   return {
-    clusters: [`cluster-${suffix}`],
-    namespaces: [`namespace-${suffix}`],
+    cluster: `cluster-${suffix}`,
+    namespace: `namespace-${suffix}`,
   };
 }
 
@@ -57,7 +68,7 @@ describe('useAccessTab', () => {
   });
 
   test('uses cache on re-mount if within TTL window', async () => {
-    const project = createProject('test-project');
+    const scope = createScope('test-project');
     const assignments = [
       {
         principalName: 'bob@example.com',
@@ -72,7 +83,7 @@ describe('useAccessTab', () => {
       assignments,
     });
 
-    const first = renderHook(() => useAccessTab(project));
+    const first = renderHook(() => useAccessTab(scope));
 
     await waitFor(() => expect(first.result.current.loading).toBe(false));
     expect(first.result.current.assignments).toEqual(assignments);
@@ -80,7 +91,7 @@ describe('useAccessTab', () => {
 
     first.unmount();
 
-    const second = renderHook(() => useAccessTab(project));
+    const second = renderHook(() => useAccessTab(scope));
 
     await waitFor(() => expect(second.result.current.loading).toBe(false));
     expect(second.result.current.assignments).toEqual(assignments);
@@ -88,7 +99,7 @@ describe('useAccessTab', () => {
   });
 
   test('refresh bypasses the cache and does a re-fetch', async () => {
-    const project = createProject('refresh');
+    const scope = createScope('refresh');
     const firstAssignments = [
       {
         principalName: 'jack@example.com',
@@ -110,7 +121,7 @@ describe('useAccessTab', () => {
       .mockResolvedValueOnce({ success: true, assignments: firstAssignments })
       .mockResolvedValueOnce({ success: true, assignments: refreshedAssignments });
 
-    const { result } = renderHook(() => useAccessTab(project));
+    const { result } = renderHook(() => useAccessTab(scope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
     expect(result.current.assignments).toEqual(firstAssignments);
@@ -125,7 +136,7 @@ describe('useAccessTab', () => {
   });
 
   test('properly surfaces errors from listNamespaceRoleAssignments', async () => {
-    const project = createProject('error');
+    const scope = createScope('error');
 
     mockListNamespaceRoleAssignments.mockResolvedValue({
       success: false,
@@ -133,11 +144,116 @@ describe('useAccessTab', () => {
       error: 'role assignment lookup failed',
     });
 
-    const { result } = renderHook(() => useAccessTab(project));
+    const { result } = renderHook(() => useAccessTab(scope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
     expect(result.current.assignments).toEqual([]);
     expect(result.current.error).toBe('Failed to load role assignments');
   });
+
+  describe('access changes', () => {
+    const writer = {
+      principalId: 'user-1',
+      principalName: 'alice@example.com',
+      principalType: 'User',
+      roleDefinitionName: 'Azure Kubernetes Service RBAC Writer',
+      scope: '/scope/ns',
+    };
+    const namespaceUser = {
+      ...writer,
+      roleDefinitionName: 'Azure Kubernetes Service Namespace User',
+    };
+
+    test('adds a member and marks the change applied once verified', async () => {
+      const scope = createScope('add');
+      mockListNamespaceRoleAssignments.mockResolvedValue({ success: true, assignments: [] });
+      mockAssignRolesToNamespace.mockResolvedValue({ success: true, results: [], errors: [] });
+
+      const { result } = renderHook(() => useAccessTab(scope));
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      await act(async () => {
+        await result.current.addMember({
+          objectId: 'group-1',
+          role: 'Reader',
+          principalType: 'Group',
+        });
+      });
+
+      expect(mockAssignRolesToNamespace).toHaveBeenCalledWith(
+        expect.objectContaining({
+          clusterName: 'cluster-add',
+          resourceGroup: 'test-rg',
+          namespaceName: 'namespace-add',
+          assignments: [{ objectId: 'group-1', role: 'Reader', principalType: 'Group' }],
+        })
+      );
+      expect(result.current.changes['group-1']).toMatchObject({ action: 'add', state: 'applied' });
+      await waitFor(() => expect(mockListNamespaceRoleAssignments).toHaveBeenCalledTimes(2));
+    });
+
+    test('changes a role by granting the new role before removing the old one', async () => {
+      const scope = createScope('change');
+      mockListNamespaceRoleAssignments.mockResolvedValue({
+        success: true,
+        assignments: [writer, namespaceUser],
+      });
+      mockCreateNamespaceRoleAssignment.mockResolvedValue({ success: true });
+      mockDeleteNamespaceRoleAssignments.mockResolvedValue({ success: true });
+      mockVerifyNamespaceAccess.mockResolvedValue({ success: true, hasAccess: true });
+
+      const { result } = renderHook(() => useAccessTab(scope));
+      await waitFor(() => expect(result.current.members).toHaveLength(1));
+
+      await act(async () => {
+        await result.current.changeRole(result.current.members[0], 'Admin');
+      });
+
+      expect(mockCreateNamespaceRoleAssignment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          assigneeObjectId: 'user-1',
+          role: 'Azure Kubernetes Service RBAC Admin',
+        })
+      );
+      expect(mockDeleteNamespaceRoleAssignments).toHaveBeenCalledTimes(1);
+      expect(mockDeleteNamespaceRoleAssignments).toHaveBeenCalledWith(
+        expect.objectContaining({ role: 'Azure Kubernetes Service RBAC Writer' })
+      );
+      expect(
+        mockCreateNamespaceRoleAssignment.mock.invocationCallOrder[0] <
+          mockDeleteNamespaceRoleAssignments.mock.invocationCallOrder[0]
+      ).toBe(true);
+      expect(result.current.changes['user-1']).toMatchObject({
+        action: 'change',
+        state: 'applied',
+      });
+    });
+
+    test('marks a revoke failed when the member still has access', async () => {
+      const scope = createScope('revoke');
+      mockListNamespaceRoleAssignments.mockResolvedValue({
+        success: true,
+        assignments: [writer],
+      });
+      mockDeleteNamespaceRoleAssignments.mockResolvedValue({ success: true });
+      mockVerifyNamespaceAccess.mockResolvedValue({ success: true, hasAccess: true });
+
+      const { result } = renderHook(() => useAccessTab(scope));
+      await waitFor(() => expect(result.current.members).toHaveLength(1));
+
+      await act(async () => {
+        await result.current.revokeMember(result.current.members[0]);
+      });
+
+      expect(mockDeleteNamespaceRoleAssignments).toHaveBeenCalledWith(
+        expect.not.objectContaining({ role: expect.anything() })
+      );
+      expect(result.current.changes['user-1']).toMatchObject({
+        action: 'revoke',
+        state: 'failed',
+        message: 'The member still has access to the namespace',
+      });
+    });
+  });
 });
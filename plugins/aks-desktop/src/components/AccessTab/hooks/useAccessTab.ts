@@ -2,38 +2,74 @@
 // Licensed under the Apache 2.0.
 
 import { K8s, useTranslation } from '@kinvolk/headlamp-plugin/lib';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
+  createNamespaceRoleAssignment,
+  deleteNamespaceRoleAssignments,
   listNamespaceRoleAssignments,
   type NamespaceRoleAssignment,
+  verifyNamespaceAccess,
 } from '../../../utils/azure/az-namespace-access';
+import { assignRolesToNamespace } from '../../../utils/azure/roleAssignment';
 import { RESOURCE_GROUP_LABEL, SUBSCRIPTION_LABEL } from '../../../utils/constants/projectLabels';
 import { ACCESS_TAB_CACHE_TTL_MS } from '../../../utils/constants/timing';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
+import {
+  mapAzureRoleToUIRole,
+  mapUIRoleToAzureRole,
+  type PrincipalType,
+  type RoleType,
+} from '../../CreateAKSProject/types';
+import { type AccessMember, groupAssignmentsByMember } from '../members';
 
 /** 1 minute cache scoped to (cluster/namespace) */
 const cache = new Map<string, { assignments: NamespaceRoleAssignment[]; ts: number }>();
 
+/** An access change made from the Access tab and its outcome. */
+export interface AccessChange {
+  action: 'add' | 'change' | 'revoke';
+  /** `pending` while the change is applied and verified. */
+  state: 'pending' | 'applied' | 'failed';
+  /** Role being granted, for `add` and `change`. */
+  role?: RoleType;
+  displayName?: string;
+  principalType?: PrincipalType;
+  /** Failure details when `state` is `failed`. */
+  message?: string;
+}
+
 export interface UseAccessTabResult {
   loading: boolean;
   error: string | null;
   assignments: NamespaceRoleAssignment[];
+  /** Assignments grouped by principal. */
+  members: AccessMember[];
+  /** Changes made in this session, keyed by principal object ID. */
+  changes: Record<string, AccessChange>;
   // Used to bypass cache
   refresh: () => void;
+  /** Grants a user or group a project role. */
+  addMember: (member: {
+    objectId: string;
+    role: RoleType;
+    principalType: PrincipalType;
+    displayName?: string;
+  }) => Promise<void>;
+  /** Replaces a member's project role. */
+  changeRole: (member: AccessMember, role: RoleType) => Promise<void>;
+  /** Removes every role a member holds on the namespace. */
+  revokeMember: (member: AccessMember) => Promise<void>;
 }
 
 /**
  *
- * Fetches Azure Role Assignments for the given project (if applicable)
- * @param clusters - List of clusters in the project (only first is used)
- * @param namespaces - List of namespaces in the project (only first is used)
+ * Fetches Azure Role Assignments for one scope of a project (if applicable)
+ * @param scope - Cluster and namespace whose access is managed; the Access tab
+ *   passes the selected scope
  */
-export function useAccessTab(project: {
-  clusters: string[];
-  namespaces: string[];
-}): UseAccessTabResult {
+export function useAccessTab(scope: ProjectScope): UseAccessTabResult {
   const { t } = useTranslation();
-  const clusterName = project.clusters[0];
-  const namespaceName = project.namespaces[0];
+  const { cluster: clusterName, namespace: namespaceName } = scope;
 
   const [namespaceInstance] = K8s.ResourceClasses.Namespace.useGet(namespaceName, undefined, {
     cluster: clusterName,
@@ -99,5 +135,135 @@ export function useAccessTab(project: {
     setFetchKey(key => key + 1);
   }, [cacheKey]);
 
-  return { loading, error, assignments, refresh };
+  const members = useMemo(() => groupAssignmentsByMember(assignments), [assignments]);
+  const [changes, setChanges] = useState<Record<string, AccessChange>>({});
+
+  // Changes belong to the scope they were made in.
+  useEffect(() => {
+    setChanges({});
+  }, [cacheKey]);
+
+  /**
+   * Runs a change for one principal, tracking it as pending until `apply`
+   * resolves. `apply` returns an error message, or null once the change is
+   * verified.
+   */
+  const runChange = async (
+    principalId: string,
+    change: Omit<AccessChange, 'state' | 'message'>,
+    apply: (target: { resourceGroup: string }) => Promise<string | null>
+  ) => {
+    if (!clusterName || !namespaceName || !resourceGroup) return;
+    setChanges(prev => ({ ...prev, [principalId]: { ...change, state: 'pending' } }));
+
+    let message: string | null;
+    try {
+      message = await apply({ resourceGroup });
+    } catch (err) {
+      message = err instanceof Error ? err.message : String(err);
+    }
+
+    setChanges(prev => ({
+      ...prev,
+      [principalId]: message
+        ? { ...change, state: 'failed', message }
+        : { ...change, state: 'applied' },
+    }));
+    refresh();
+  };
+
+  const verify = async (principalId: string, target: { resourceGroup: string }) =>
+    verifyNamespaceAccess({
+      clusterName,
+      resourceGroup: target.resourceGroup,
+      namespaceName,
+      assigneeObjectId: principalId,
+      subscriptionId: subscription,
+    });
+
+  const addMember: UseAccessTabResult['addMember'] = async ({
+    objectId,
+    role,
+    principalType,
+    displayName,
+  }) =>
+    runChange(objectId, { action: 'add', role, principalType, displayName }, async target => {
+      const result = await assignRolesToNamespace({
+        clusterName,
+        resourceGroup: target.resourceGroup,
+        namespaceName,
+        subscriptionId: subscription,
+        assignments: [{ objectId, role, principalType, displayName }],
+        t,
+      });
+      return result.success ? null : result.errors.join('\n');
+    });
+
+  const changeRole: UseAccessTabResult['changeRole'] = async (member, role) =>
+    runChange(
+      member.principalId,
+      { action: 'change', role, displayName: member.principalName ?? undefined },
+      async target => {
+        const common = {
+          clusterName,
+          resourceGroup: target.resourceGroup,
+          namespaceName,
+          assigneeObjectId: member.principalId,
+          subscriptionId: subscription,
+        };
+        // Grant the new role first so the member never loses access midway.
+        const created = await createNamespaceRoleAssignment({
+          ...common,
+          role: mapUIRoleToAzureRole(role),
+          principalType: member.principalType === 'Group' ? 'Group' : 'User',
+        });
+        if (!created.success) {
+          return created.stderr || created.error || t('Failed to create role assignment');
+        }
+        for (const azureRole of member.azureRoles) {
+          const previous = mapAzureRoleToUIRole(azureRole);
+          if (!previous || previous === role) continue;
+          const deleted = await deleteNamespaceRoleAssignments({ ...common, role: azureRole });
+          if (!deleted.success) {
+            return deleted.stderr || deleted.error || t('Failed to delete role assignment');
+          }
+        }
+        const verified = await verify(member.principalId, target);
+        if (!verified.success) return verified.error || t('Verification failed');
+        return verified.hasAccess ? null : t('The member has no access after the change');
+      }
+    );
+
+  const revokeMember: UseAccessTabResult['revokeMember'] = async member =>
+    runChange(
+      member.principalId,
+      { action: 'revoke', displayName: member.principalName ?? undefined },
+      async target => {
+        const deleted = await deleteNamespaceRoleAssignments({
+          clusterName,
+          resourceGroup: target.resourceGroup,
+          namespaceName,
+          assigneeObjectId: member.principalId,
+          subscriptionId: subscription,
+        });
+        if (!deleted.success) {
+          return deleted.stderr || deleted.error || t('Failed to delete role assignment');
+        }
+        const verified = await verify(member.principalId, target);
+        if (!verified.success) return verified.error || t('Verification failed');
+        return verified.hasAccess ? t('The member still has access to the namespace') : null;
+      }
+    );
+
+  return {
+    loading,
+    error,
+    assignments,
+    members,
+    changes,
+    refresh,
+    addMember,
+    changeRole,
+    revokeMember,
+  };
 }
@@ -0,0 +1,99 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, test } from 'vitest';
+import { buildAccessComparison, groupAssignmentsByMember } from './members';
+
+const scope = '/subscriptions/sub/resourceGroups/rg/providers/x/managedNamespaces/ns';
+
+function assignment(principalId: string | null, role: string, principalName?: string) {
+  return {
+    principalId,
+    principalName: principalName ?? null,
+    principalType: 'User',
+    roleDefinitionName: role,
+    scope,
+  };
+}
+
+describe('groupAssignmentsByMember', () => {
+  test('groups the roles of each principal and picks the project role', () => {
+    const members = groupAssignmentsByMember([
+      assignment('a', 'Azure Kubernetes Service RBAC Writer', 'alice@example.com'),
+      assignment('a', 'Azure Kubernetes Service Namespace User', 'alice@example.com'),
+      assignment('b', 'Azure Kubernetes Service Namespace User', 'bob@example.com'),
+    ]);
+
+    expect(members).toEqual([
+      {
+        principalId: 'a',
+        principalName: 'alice@example.com',
+        principalType: 'User',
+        role: 'Writer',
+        azureRoles: [
+          'Azure Kubernetes Service RBAC Writer',
+          'Azure Kubernetes Service Namespace User',
+        ],
+      },
+      {
+        principalId: 'b',
+        principalName: 'bob@example.com',
+        principalType: 'User',
+        role: null,
+        azureRoles: ['Azure Kubernetes Service Namespace User'],
+      },
+    ]);
+  });
+
+  test('shows the most privileged project role', () => {
+    const [member] = groupAssignmentsByMember([
+      assignment('a', 'Azure Kubernetes Service RBAC Reader'),
+      assignment('a', 'Azure Kubernetes Service RBAC Admin'),
+      assignment('a', 'Azure Kubernetes Service RBAC Writer'),
+    ]);
+    expect(member.role).toBe('Admin');
+  });
+
+  test('skips assignments without a principal', () => {
+    expect(groupAssignmentsByMember([assignment(null, 'Reader')])).toEqual([]);
+  });
+});
+
+describe('buildAccessComparison', () => {
+  const dev = { cluster: 'aks-dev', namespace: 'app' };
+  const prod = { cluster: 'aks-prod', namespace: 'app' };
+  const writer = 'Azure Kubernetes Service RBAC Writer';
+  const reader = 'Azure Kubernetes Service RBAC Reader';
+
+  test('lines up each principal and marks roles that differ or are missing', () => {
+    const rows = buildAccessComparison([dev, prod], {
+      'aks-dev/app': groupAssignmentsByMember([
+        assignment('a', writer, 'alice@example.com'),
+        assignment('b', writer, 'bob@example.com'),
+        assignment('c', reader, 'carol@example.com'),
+      ]),
+      'aks-prod/app': groupAssignmentsByMember([
+        assignment('a', writer, 'alice@example.com'),
+        assignment('b', reader, 'bob@example.com'),
+      ]),
+    });
+
+    expect(rows.map(row => [row.id, row.name, row.differs])).toEqual([
+      ['a', 'alice@example.com', false],
+      ['b', 'bob@example.com', true],
+      ['c', 'carol@example.com', true],
+    ]);
+    expect(rows[1].snapshots['aks-prod/app']?.role).toBe('Reader');
+    expect(rows[2].snapshots['aks-prod/app']).toBeNull();
+  });
+
+  test('does not count scopes that could not be read as missing access', () => {
+    const rows = buildAccessComparison([dev, prod], {
+      'aks-dev/app': groupAssignmentsByMember([assignment('a', writer, 'alice@example.com')]),
+    });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].differs).toBe(false);
+    expect(rows[0].snapshots['aks-prod/app']).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { NamespaceRoleAssignment } from '../../utils/azure/az-namespace-access';
+import {
+  type ProjectScope,
+  type ScopeComparisonRow,
+  scopeKey,
+} from '../../utils/shared/projectScopes';
+import { AVAILABLE_ROLES, mapAzureRoleToUIRole, type RoleType } from '../CreateAKSProject/types';
+
+/** A principal with access to a project, with all its roles on the namespace. */
+export interface AccessMember {
+  principalId: string;
+  principalName: string | null;
+  principalType: string | null;
+  /** The project role (Admin, Writer or Reader), or null if it holds none. */
+  role: RoleType | null;
+  /** Azure role names of every assignment the principal holds. */
+  azureRoles: string[];
+}
+
+/**
+ * Groups role assignments by principal. Each member added through AKS desktop
+ * holds one project role plus the namespace user and contributor roles; when
+ * a principal holds several project roles the most privileged one is shown.
+ */
+export function groupAssignmentsByMember(assignments: NamespaceRoleAssignment[]): AccessMember[] {
+  const members = new Map<string, AccessMember>();
+
+  for (const assignment of assignments) {
+    // Assignments whose principal was deleted from the directory have no usable ID.
+    const id = assignment.principalId ?? assignment.principalName;
+    if (!id) continue;
+
+    const member = members.get(id) ?? {
+      principalId: id,
+      principalName: assignment.principalName,
+      principalType: assignment.principalType,
+      role: null,
+      azureRoles: [],
+    };
+    member.azureRoles.push(assignment.roleDefinitionName);
+
+    const role = mapAzureRoleToUIRole(assignment.roleDefinitionName);
+    // AVAILABLE_ROLES is ordered from most to least privileged.
+    if (
+      role &&
+      (!member.role || AVAILABLE_ROLES.indexOf(role) < AVAILABLE_ROLES.indexOf(member.role))
+    ) {
+      member.role = role;
+    }
+    members.set(id, member);
+  }
+
+  return [...members.values()].sort((a, b) =>
+    (a.principalName ?? a.principalId).localeCompare(b.principalName ?? b.principalId)
+  );
+}
+
+/**
+ * Lines up the members of every scope of a project by principal. A row
+ * differs when the principal holds different roles in some scope, or has no
+ * access there at all.
+ *
+ * @param scopes - Scopes to compare, in column order.
+ * @param membersByScope - Members keyed by {@link scopeKey}; scopes that could not be
+ *   read are left out and not counted as missing access.
+ */
+export function buildAccessComparison(
+  scopes: ProjectScope[],
+  membersByScope: Record<string, AccessMember[]>
+): ScopeComparisonRow<AccessMember>[] {
+  const principals = new Map<string, AccessMember>();
+  for (const members of Object.values(membersByScope)) {
+    for (const member of members) {
+      if (!principals.has(member.principalId)) principals.set(member.principalId, member);
+    }
+  }
+  const signature = (member: AccessMember) =>
+    member.role ?? [...member.azureRoles].sort().join(',');
+
+  return [...principals.values()]
+    .sort((a, b) =>
+      (a.principalName ?? a.principalId).localeCompare(b.principalName ?? b.principalId)
+    )
+    .map(principal => {
+      const snapshots: Record<string, AccessMember | null> = {};
+      const signatures = new Set<string>();
+      for (const scope of scopes) {
+        const key = scopeKey(scope);
+        const members = membersByScope[key];
+        const member = members?.find(m => m.principalId === principal.principalId) ?? null;
+        snapshots[key] = member;
+        if (members) signatures.add(member ? signature(member) : 'missing');
+      }
+      return {
+        id: principal.principalId,
+        name: principal.principalName ?? principal.principalId,
+        snapshots,
+        differs: signatures.size > 1,
+      };
+    });
+}
@@ -0,0 +1,277 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { visuallyHidden } from '@mui/utils';
+import React, { useState } from 'react';
+import type { ActivityEntry, ActivityTarget } from '../../utils/shared/activityLog';
+import { downloadFile } from '../../utils/shared/download';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { useActivityLog } from './hooks/useActivityLog';
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function formatTarget(target: ActivityTarget): string {
+  return [
+    target.cluster,
+    target.namespace,
+    target.resource,
+    !target.cluster && !target.namespace ? target.resourceGroup : undefined,
+  ]
+    .filter(Boolean)
+    .join(' / ');
+}
+
+function describeUndo(entry: ActivityEntry): string {
+  if (!entry.undo) return '';
+  return entry.undo.kind === 'az'
+    ? `az ${entry.undo.args.join(' ')}`
+    : `DELETE ${entry.undo.path} (${entry.undo.cluster})`;
+}
+
+const NO_PROJECT = { clusters: [], namespaces: [] };
+
+interface ActivityLogProps {
+  /** Limits the log to one project; the whole log is shown when omitted. */
+  project?: { clusters: string[]; namespaces: string[] };
+}
+
+/**
+ * Lists the Azure, Kubernetes and GitHub changes made from the app, with
+ * filters, JSON export and undo for operations with a known inverse.
+ */
+export default function ActivityLog({ project }: ActivityLogProps) {
+  const { t } = useTranslation();
+  const { scopes, selected, selectScope } = useProjectScope(project ?? NO_PROJECT);
+  const namespace = project ? selected.namespace : undefined;
+  const { total, entries, filters, setFilters, undo, undoingId, undoError, clear } = useActivityLog(
+    project && selected.cluster && selected.namespace ? selected : undefined
+  );
+  const [confirmUndo, setConfirmUndo] = useState<ActivityEntry | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  return (
+    <Box sx={{ p: project ? 0 : 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6" component="h2" sx={{ flex: 1 }}>
+          {t('Activity')}
+        </Typography>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<Icon icon="mdi:download" aria-hidden="true" />}
+          disabled={entries.length === 0}
+          onClick={() =>
+            downloadFile(
+              `aks-desktop-activity${namespace ? `-${namespace}` : ''}.json`,
+              JSON.stringify(entries, null, 2)
+            )
+          }
+        >
+          {t('Export JSON')}
+        </Button>
+        {!project && (
+          <Button
+            size="small"
+            color="error"
+            disabled={total === 0}
+            onClick={() => setConfirmClear(true)}
+          >
+            {t('Clear')}
+          </Button>
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t(
+          'Changes made from this app to Azure, Kubernetes and GitHub. The log is kept on this device only; credentials are removed from arguments.'
+        )}
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+        <TextField
+          size="small"
+          label={t('Search')}
+          value={filters.text}
+          onChange={e => setFilters({ ...filters, text: e.target.value })}
+          sx={{ flex: 1, minWidth: 200 }}
+        />
+        <TextField
+          select
+          size="small"
+          label={t('Source')}
+          value={filters.channel}
+          onChange={e =>
+            setFilters({ ...filters, channel: e.target.value as typeof filters.channel })
+          }
+          sx={{ width: 160 }}
+        >
+          <MenuItem value="">{t('All')}</MenuItem>
+          <MenuItem value="azure">{t('Azure')}</MenuItem>
+          <MenuItem value="kubernetes">{t('Kubernetes')}</MenuItem>
+          <MenuItem value="github">{t('GitHub')}</MenuItem>
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label={t('Outcome')}
+          value={filters.outcome}
+          onChange={e =>
+            setFilters({ ...filters, outcome: e.target.value as typeof filters.outcome })
+          }
+          sx={{ width: 160 }}
+        >
+          <MenuItem value="">{t('All')}</MenuItem>
+          <MenuItem value="success">{t('Succeeded')}</MenuItem>
+          <MenuItem value="failure">{t('Failed')}</MenuItem>
+        </TextField>
+      </Box>
+
+      {undoError && (
+        <Alert severity="error" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+          {t('Undo failed: {{error}}', { error: undoError })}
+        </Alert>
+      )}
+
+      {entries.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {total === 0 ? t('No activity recorded yet.') : t('No activity matches the filters.')}
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('Time')}</TableCell>
+                <TableCell>{t('Operation')}</TableCell>
+                <TableCell>{t('Target')}</TableCell>
+                <TableCell>{t('By')}</TableCell>
+                <TableCell>{t('Outcome')}</TableCell>
+                <TableCell>{t('Duration')}</TableCell>
+                <TableCell>
+                  <Box component="span" sx={visuallyHidden}>
+                    {t('Actions')}
+                  </Box>
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                    {new Date(entry.at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={entry.args.join(' ')}>
+                      <span>{entry.operation}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>{formatTarget(entry.target)}</TableCell>
+                  <TableCell>{entry.actor ?? '—'}</TableCell>
+                  <TableCell>
+                    {entry.outcome === 'success' ? (
+                      <Chip size="small" color="success" label={t('Succeeded')} />
+                    ) : (
+                      <Tooltip title={entry.error ?? ''}>
+                        <Chip size="small" color="error" label={t('Failed')} />
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatDuration(entry.durationMs)}</TableCell>
+                  <TableCell align="right">
+                    {entry.undoneAt ? (
+                      <Typography variant="caption" color="text.secondary">
+                        {t('Undone')}
+                      </Typography>
+                    ) : (
+                      entry.undo && (
+                        <Button
+                          size="small"
+                          disabled={undoingId !== null}
+                          onClick={() => setConfirmUndo(entry)}
+                        >
+                          {undoingId === entry.id ? t('Undoing…') : t('Undo')}
+                        </Button>
+                      )
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={confirmUndo !== null} onClose={() => setConfirmUndo(null)}>
+        <DialogTitle>{t('Undo {{operation}}?', { operation: confirmUndo?.operation })}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>{t('This runs:')}</DialogContentText>
+          <Box component="pre" sx={{ whiteSpace: 'pre-wrap', fontSize: '0.8rem' }}>
+            {confirmUndo ? describeUndo(confirmUndo) : ''}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmUndo(null)}>{t('Cancel')}</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              const entry = confirmUndo;
+              setConfirmUndo(null);
+              if (entry) undo(entry);
+            }}
+          >
+            {t('Undo')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={confirmClear} onClose={() => setConfirmClear(false)}>
+        <DialogTitle>{t('Clear the activity log?')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t('All recorded activity on this device is removed. Export it first to keep it.')}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmClear(false)}>{t('Cancel')}</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              clear();
+              setConfirmClear(false);
+            }}
+          >
+            {t('Clear')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,96 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useEffect, useMemo, useState } from 'react';
+import { isAzError, runCommandAsync } from '../../../utils/azure/az-cli-core';
+import {
+  type ActivityChannel,
+  type ActivityEntry,
+  clearActivityLog,
+  getActivityLog,
+  isProjectActivity,
+  markActivityUndone,
+  subscribeActivityLog,
+} from '../../../utils/shared/activityLog';
+
+/** Filters applied to the log; empty values match everything. */
+export interface ActivityFilters {
+  channel: ActivityChannel | '';
+  outcome: ActivityEntry['outcome'] | '';
+  /** Case-insensitive match on the operation, target, actor and arguments. */
+  text: string;
+}
+
+export const EMPTY_ACTIVITY_FILTERS: ActivityFilters = { channel: '', outcome: '', text: '' };
+
+/** Whether an entry passes the filters. */
+export function matchesActivityFilters(entry: ActivityEntry, filters: ActivityFilters): boolean {
+  if (filters.channel && entry.channel !== filters.channel) return false;
+  if (filters.outcome && entry.outcome !== filters.outcome) return false;
+  const text = filters.text.trim().toLowerCase();
+  if (!text) return true;
+  return [entry.operation, entry.actor ?? '', ...Object.values(entry.target), ...entry.args]
+    .join(' ')
+    .toLowerCase()
+    .includes(text);
+}
+
+/** Runs an entry's undo. Throws with the failure reason. */
+async function runUndo(entry: ActivityEntry): Promise<void> {
+  if (!entry.undo) throw new Error('This operation cannot be undone');
+  if (entry.undo.kind === 'az') {
+    const { stderr } = await runCommandAsync('az', entry.undo.args);
+    if (isAzError(stderr)) throw new Error(stderr);
+  } else {
+    await clusterRequest(entry.undo.path, { method: 'DELETE', cluster: entry.undo.cluster });
+  }
+}
+
+/**
+ * The activity log, newest first, optionally limited to one project.
+ *
+ * @param project - Cluster and namespace of the project, or undefined for the whole log.
+ */
+export function useActivityLog(project?: { cluster: string; namespace: string }) {
+  const [entries, setEntries] = useState<ActivityEntry[]>(getActivityLog);
+  const [filters, setFilters] = useState<ActivityFilters>(EMPTY_ACTIVITY_FILTERS);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [undoError, setUndoError] = useState<string | null>(null);
+
+  useEffect(() => subscribeActivityLog(() => setEntries(getActivityLog())), []);
+
+  const scoped = useMemo(
+    () => (project ? entries.filter(e => isProjectActivity(e, project)) : entries),
+    [entries, project?.cluster, project?.namespace]
+  );
+  const filtered = useMemo(
+    () => scoped.filter(e => matchesActivityFilters(e, filters)),
+    [scoped, filters]
+  );
+
+  const undo = async (entry: ActivityEntry) => {
+    setUndoingId(entry.id);
+    setUndoError(null);
+    try {
+      await runUndo(entry);
+      markActivityUndone(entry.id);
+    } catch (err) {
+      setUndoError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  return {
+    /** Entries in scope, before filtering. */
+    total: scoped.length,
+    entries: filtered,
+    filters,
+    setFilters,
+    undo,
+    undoingId,
+    undoError,
+    clear: clearActivityLog,
+  };
+}
@@ -0,0 +1,244 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Card,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React, { useState } from 'react';
+import type { PrometheusRuleGroup } from '../../utils/azure/az-prometheus-rules';
+import { EmptyStateCard } from '../shared/EmptyStateCard';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { AlertRuleDialog } from './components/AlertRuleDialog';
+import { useAlertRules } from './hooks/useAlertRules';
+import { isoDurationToMinutes } from './utils';
+
+/** Props for the {@link AlertsTab} component. */
+export interface AlertsTabProps {
+  /** AKS Managed Project **/
+  project: {
+    /** List of clusters in the project **/
+    clusters: string[];
+    /** List of namespaces in the project **/
+    namespaces: string[];
+    /** ID/Name of project **/
+    id: string;
+  };
+}
+
+/**
+ * Top-level component for the alerts tab.
+ *
+ * Lists the Azure Managed Prometheus alert rules scoped to the project namespace
+ * and lets users create rules from templates or delete existing ones. Projects
+ * spanning several clusters or namespaces pick the one shown with a scope switcher.
+ */
+const AlertsTab: React.FC<AlertsTabProps> = ({ project }) => {
+  const { t } = useTranslation();
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const { namespace, cluster } = selected;
+
+  const { ruleGroups, loading, error, ready, refresh, createRule, deleteRuleGroup, previewQuery } =
+    useAlertRules(namespace, cluster);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<PrometheusRuleGroup | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    setDeleting(true);
+    setDeleteError(null);
+    const result = await deleteRuleGroup(pendingDelete.name);
+    setDeleting(false);
+    if (result.success) {
+      setPendingDelete(null);
+    } else {
+      setDeleteError(result.error ?? t('Failed to delete alert rule'));
+    }
+  };
+
+  if (!namespace || !cluster) {
+    return (
+      <Box p={3}>
+        <Alert severity="warning">{t('This project has no namespace to alert on.')}</Alert>
+      </Box>
+    );
+  }
+
+  const rules = ruleGroups.flatMap(group =>
+    group.rules.filter(rule => rule.alert).map(rule => ({ group, rule }))
+  );
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Typography variant="h5">{t('Alert Rules')}</Typography>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+          <Button
+            variant="outlined"
+            startIcon={<Icon icon="mdi:refresh" />}
+            onClick={() => refresh()}
+            disabled={loading || !ready}
+          >
+            {t('Refresh')}
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<Icon icon="mdi:plus" />}
+            onClick={() => setCreateOpen(true)}
+            disabled={!ready}
+          >
+            {t('Create alert rule')}
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <AlertTitle>{t('Alert rules unavailable')}</AlertTitle>
+          <Typography variant="body2">{error}</Typography>
+        </Alert>
+      )}
+
+      {loading && ruleGroups.length === 0 ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      ) : rules.length === 0 ? (
+        !error && (
+          <EmptyStateCard
+            message={t('No alert rules')}
+            subMessages={[
+              t('Create an alert rule to be notified when this project misbehaves.'),
+              t('Rules are evaluated by Azure Managed Prometheus.'),
+            ]}
+          />
+        )
+      ) : (
+        <Card>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('Name')}</TableCell>
+                <TableCell>{t('Expression')}</TableCell>
+                <TableCell>{t('For')}</TableCell>
+                <TableCell>{t('Severity')}</TableCell>
+                <TableCell>{t('Status')}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rules.map(({ group, rule }) => {
+                const forMinutes = isoDurationToMinutes(rule.for);
+                const enabled = group.enabled !== false && rule.enabled !== false;
+                return (
+                  <TableRow key={`${group.id}/${rule.alert}`}>
+                    <TableCell>{rule.alert}</TableCell>
+                    <TableCell
+                      sx={{ fontFamily: 'monospace', fontSize: '0.8rem', wordBreak: 'break-all' }}
+                    >
+                      {rule.expression}
+                    </TableCell>
+                    <TableCell>
+                      {forMinutes !== undefined ? t('{{count}} min', { count: forMinutes }) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {rule.severity !== undefined ? `Sev ${rule.severity}` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Chip
+                        size="small"
+                        label={enabled ? t('Enabled') : t('Disabled')}
+                        color={enabled ? 'success' : 'default'}
+                      />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={t('Delete')}>
+                        <IconButton
+                          aria-label={t('Delete {{name}}', { name: rule.alert })}
+                          onClick={() => {
+                            setDeleteError(null);
+                            setPendingDelete(group);
+                          }}
+                        >
+                          <Icon icon="mdi:delete" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <AlertRuleDialog
+        open={createOpen}
+        namespace={namespace}
+        onClose={() => setCreateOpen(false)}
+        onSave={async draft => {
+          const result = await createRule(draft);
+          if (result.success) setCreateOpen(false);
+          return result;
+        }}
+        onPreview={previewQuery}
+      />
+
+      <Dialog open={!!pendingDelete} onClose={() => !deleting && setPendingDelete(null)}>
+        <DialogTitle>{t('Delete alert rule')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t('Delete the rule group "{{name}}" and all of its rules?', {
+              name: pendingDelete?.name,
+            })}
+          </DialogContentText>
+          {deleteError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {deleteError}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingDelete(null)} disabled={deleting}>
+            {t('Cancel')}
+          </Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={handleDelete}
+            disabled={deleting}
+            startIcon={deleting ? <CircularProgress size={16} /> : undefined}
+          >
+            {t('Delete')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AlertsTab;
@@ -0,0 +1,283 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { MetricsChart } from '../../Metrics/components/MetricsChart';
+import type { CustomPanelData } from '../../Metrics/utils';
+import {
+  ALERT_SEVERITIES,
+  ALERT_TEMPLATES,
+  type AlertRuleDraft,
+  type AlertSeverity,
+  type AlertTemplateId,
+  buildAlertExpression,
+  createAlertRuleDraft,
+  getAlertTemplate,
+  getPreviewQuery,
+  validateAlertRuleDraft,
+} from '../utils';
+
+const SERIES_COLORS = ['#0078d4', '#107c10', '#8764b8', '#ca5010', '#038387', '#c239b3'];
+const THRESHOLD_COLOR = '#d13438';
+
+/** Props for {@link AlertRuleDialog}. */
+export interface AlertRuleDialogProps {
+  open: boolean;
+  /** Project namespace the rule is scoped to. */
+  namespace: string;
+  onClose: () => void;
+  /** Saves the rule; resolves with an error message to keep the dialog open. */
+  onSave: (draft: AlertRuleDraft) => Promise<{ success: boolean; error?: string }>;
+  /** Runs the preview query over recent data. */
+  onPreview: (query: string) => Promise<CustomPanelData>;
+}
+
+/**
+ * Dialog for creating a namespace-scoped alert rule from a template, with a
+ * preview of the rule's query over the last hour before it is saved.
+ */
+export const AlertRuleDialog: React.FC<AlertRuleDialogProps> = ({
+  open,
+  namespace,
+  onClose,
+  onSave,
+  onPreview,
+}) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<AlertRuleDraft>(() => createAlertRuleDraft('high-error-rate'));
+  const [preview, setPreview] = useState<CustomPanelData | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens.
+  useEffect(() => {
+    if (!open) return;
+    setDraft(createAlertRuleDraft('high-error-rate'));
+    setPreview(null);
+    setError(null);
+  }, [open]);
+
+  const template = getAlertTemplate(draft.templateId);
+  const validationError = validateAlertRuleDraft(draft, namespace);
+  const previewQuery = getPreviewQuery(draft, namespace);
+
+  const templateLabels: Record<AlertTemplateId, string> = {
+    'high-error-rate': t('High error rate (HTTP 5xx %)'),
+    'cpu-saturation': t('CPU saturation (% of limit)'),
+    'pod-restarts': t('Pod restarts (last 15 minutes)'),
+    custom: t('Custom PromQL expression'),
+  };
+  const severityLabels: Record<AlertSeverity, string> = {
+    0: t('Sev 0 - Critical'),
+    1: t('Sev 1 - Error'),
+    2: t('Sev 2 - Warning'),
+    3: t('Sev 3 - Informational'),
+    4: t('Sev 4 - Verbose'),
+  };
+
+  const update = (changes: Partial<AlertRuleDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const handleTemplateChange = (templateId: AlertTemplateId) => {
+    setDraft(prev => ({
+      ...createAlertRuleDraft(templateId),
+      // Keep a name the user typed rather than overwriting it with the template id.
+      name:
+        ALERT_TEMPLATES.some(tpl => tpl.id === prev.name) || !prev.name ? templateId : prev.name,
+      description: prev.description,
+    }));
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError(null);
+    try {
+      setPreview(await onPreview(previewQuery));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await onSave(draft);
+    setSaving(false);
+    if (!result.success) {
+      setError(result.error ?? t('Failed to save alert rule'));
+    }
+  };
+
+  // Draw the threshold as a flat line alongside the template's value series.
+  const showThreshold = !!template.buildValueQuery;
+  const previewData = preview
+    ? preview.data.map(point => (showThreshold ? { ...point, threshold: draft.threshold } : point))
+    : [];
+  const previewLines = [
+    ...(preview?.series ?? []).map((s, i) => ({
+      dataKey: s.key,
+      name: s.name,
+      stroke: SERIES_COLORS[i % SERIES_COLORS.length],
+    })),
+    ...(showThreshold
+      ? [{ dataKey: 'threshold', name: t('Threshold'), stroke: THRESHOLD_COLOR }]
+      : []),
+  ];
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{t('Create alert rule')}</DialogTitle>
+      <DialogContent>
+        <TextField
+          select
+          label={t('Template')}
+          fullWidth
+          value={draft.templateId}
+          onChange={e => handleTemplateChange(e.target.value as AlertTemplateId)}
+          sx={{ mt: 2, mb: 2 }}
+        >
+          {ALERT_TEMPLATES.map(tpl => (
+            <MenuItem key={tpl.id} value={tpl.id}>
+              {templateLabels[tpl.id]}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          label={t('Name')}
+          fullWidth
+          value={draft.name}
+          onChange={e => update({ name: e.target.value })}
+          sx={{ mb: 2 }}
+        />
+        {template.buildValueQuery ? (
+          <TextField
+            label={t('Threshold')}
+            type="number"
+            fullWidth
+            value={Number.isNaN(draft.threshold) ? '' : draft.threshold}
+            onChange={e => update({ threshold: parseFloat(e.target.value) })}
+            InputProps={{
+              endAdornment: template.unit ? (
+                <Typography color="text.secondary">{template.unit}</Typography>
+              ) : undefined,
+            }}
+            sx={{ mb: 2 }}
+          />
+        ) : (
+          <TextField
+            label={t('PromQL expression')}
+            fullWidth
+            multiline
+            minRows={3}
+            value={draft.customExpression}
+            onChange={e => update({ customExpression: e.target.value })}
+            placeholder={`sum(rate(http_requests_total{namespace="${namespace}"}[5m])) > 100`}
+            helperText={t('The expression must filter on the project namespace.')}
+            InputProps={{ sx: { fontFamily: 'monospace' } }}
+            sx={{ mb: 2 }}
+          />
+        )}
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          <TextField
+            label={t('For (minutes)')}
+            type="number"
+            fullWidth
+            value={Number.isNaN(draft.forMinutes) ? '' : draft.forMinutes}
+            onChange={e => update({ forMinutes: parseInt(e.target.value, 10) })}
+            inputProps={{ min: 0 }}
+            helperText={t('How long the condition must hold before the alert fires.')}
+          />
+          <TextField
+            select
+            label={t('Severity')}
+            fullWidth
+            value={draft.severity}
+            onChange={e => update({ severity: Number(e.target.value) as AlertSeverity })}
+          >
+            {ALERT_SEVERITIES.map(sev => (
+              <MenuItem key={sev} value={sev}>
+                {severityLabels[sev]}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+        <TextField
+          label={t('Description')}
+          fullWidth
+          value={draft.description}
+          onChange={e => update({ description: e.target.value })}
+          sx={{ mb: 2 }}
+        />
+
+        <Typography variant="subtitle2">{t('Expression')}</Typography>
+        <Typography
+          component="pre"
+          variant="body2"
+          sx={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-all', mb: 2 }}
+        >
+          {buildAlertExpression(draft, namespace) || '—'}
+        </Typography>
+
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Button
+            variant="outlined"
+            onClick={handlePreview}
+            disabled={!previewQuery || previewing}
+            startIcon={previewing ? <CircularProgress size={16} /> : undefined}
+          >
+            {t('Preview last hour')}
+          </Button>
+        </Box>
+        {preview && (
+          <MetricsChart
+            title={templateLabels[draft.templateId]}
+            data={previewData}
+            lines={previewLines}
+            yAxisLabel={template.unit}
+            emptyMessage={t('The query returned no data for the last hour.')}
+          />
+        )}
+
+        {(error || (validationError && draft.name)) && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error ?? validationError}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          {t('Cancel')}
+        </Button>
+        <Button
+          onClick={handleSave}
+          variant="contained"
+          disabled={!!validationError || saving}
+          startIcon={saving ? <CircularProgress size={16} /> : undefined}
+        >
+          {t('Create')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,215 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  useNamespaceLabels: vi.fn(),
+  listPrometheusRuleGroups: vi.fn(),
+  getClusterPrometheusWorkspace: vi.fn(),
+  createPrometheusRuleGroup: vi.fn(),
+  deletePrometheusRuleGroup: vi.fn(),
+  getClusterResourceIdAndGroup: vi.fn(),
+}));
+
+vi.mock('../../Metrics/hooks/useNamespaceLabels', () => ({
+  useNamespaceLabels: mocks.useNamespaceLabels,
+}));
+
+vi.mock('../../../utils/azure/az-prometheus-rules', () => ({
+  PROMETHEUS_RULE_NAMESPACE_TAG: 'aks-desktop-namespace',
+  listPrometheusRuleGroups: mocks.listPrometheusRuleGroups,
+  getClusterPrometheusWorkspace: mocks.getClusterPrometheusWorkspace,
+  createPrometheusRuleGroup: mocks.createPrometheusRuleGroup,
+  deletePrometheusRuleGroup: mocks.deletePrometheusRuleGroup,
+}));
+
+vi.mock('../../../utils/azure/az-clusters', () => ({
+  getClusterResourceIdAndGroup: mocks.getClusterResourceIdAndGroup,
+}));
+
+vi.mock('../../../utils/azure/az-extensions', () => ({
+  configureAzureCliExtensions: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+vi.mock('../../../utils/prometheus/getPrometheusEndpoint', () => ({
+  getPrometheusEndpoint: vi.fn(),
+}));
+
+vi.mock('../../../utils/prometheus/queryPrometheus', () => ({
+  queryPrometheus: vi.fn(),
+}));
+
+import { createAlertRuleDraft } from '../utils';
+import { useAlertRules } from './useAlertRules';
+
+const SUBSCRIPTION = '11111111-2222-3333-4444-555555555555';
+
+function makeGroup(name: string, namespace: string | undefined, clusterName = 'my-aks') {
+  return {
+    id: `/rg/${name}`,
+    name,
+    location: 'eastus',
+    clusterName,
+    scopes: ['/amw'],
+    rules: [{ alert: name, expression: 'up == 0' }],
+    tags: namespace ? { 'aks-desktop-namespace': namespace } : undefined,
+  };
+}
+
+describe('useAlertRules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mocks.useNamespaceLabels.mockReturnValue({
+      subscription: SUBSCRIPTION,
+      resourceGroupLabel: 'my-rg',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('lists only the rule groups tagged with the namespace on the cluster', async () => {
+    mocks.listPrometheusRuleGroups.mockResolvedValue({
+      success: true,
+      groups: [
+        makeGroup('mine', 'team-a'),
+        makeGroup('other-team', 'team-b'),
+        makeGroup('other-cluster', 'team-a', 'other-aks'),
+        makeGroup('NodeRecordingRulesRuleGroup-my-aks', undefined),
+      ],
+    });
+
+    const { result } = renderHook(() => useAlertRules('team-a', 'my-aks'));
+
+    await waitFor(() => expect(result.current.ruleGroups.map(g => g.name)).toEqual(['mine']));
+    expect(mocks.listPrometheusRuleGroups).toHaveBeenCalledWith({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'my-rg',
+    });
+    expect(mocks.getClusterResourceIdAndGroup).not.toHaveBeenCalled();
+  });
+
+  test('looks up the resource group when the namespace has no label', async () => {
+    mocks.useNamespaceLabels.mockReturnValue({ subscription: SUBSCRIPTION });
+    mocks.getClusterResourceIdAndGroup.mockResolvedValue({
+      resourceId: '/x',
+      resourceGroup: 'looked-up-rg',
+    });
+    mocks.listPrometheusRuleGroups.mockResolvedValue({ success: true, groups: [] });
+
+    const { result } = renderHook(() => useAlertRules('team-a', 'my-aks'));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(mocks.listPrometheusRuleGroups).toHaveBeenCalledWith({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'looked-up-rg',
+    });
+  });
+
+  test('surfaces list errors', async () => {
+    mocks.listPrometheusRuleGroups.mockResolvedValue({ success: false, error: 'Forbidden' });
+
+    const { result } = renderHook(() => useAlertRules('team-a', 'my-aks'));
+
+    await waitFor(() => expect(result.current.error).toBe('Forbidden'));
+  });
+
+  test('creates a rule group in the cluster workspace and reloads the list', async () => {
+    mocks.listPrometheusRuleGroups.mockResolvedValue({ success: true, groups: [] });
+    mocks.getClusterPrometheusWorkspace.mockResolvedValue({
+      success: true,
+      scope: '/amw',
+      location: 'eastus',
+    });
+    mocks.createPrometheusRuleGroup.mockResolvedValue({ success: true });
+
+    const { result } = renderHook(() => useAlertRules('team-a', 'my-aks'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let outcome: { success: boolean } | undefined;
+    await act(async () => {
+      outcome = await result.current.createRule(createAlertRuleDraft('pod-restarts'));
+    });
+
+    expect(outcome).toEqual({ success: true });
+    expect(mocks.createPrometheusRuleGroup).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'my-aks-team-a-pod-restarts',
+        location: 'eastus',
+        scope: '/amw',
+        clusterName: 'my-aks',
+        namespace: 'team-a',
+        rules: [expect.objectContaining({ alert: 'pod-restarts', for: 'PT0M' })],
+      })
+    );
+    expect(mocks.listPrometheusRuleGroups).toHaveBeenCalledTimes(2);
+  });
+
+  test('names rule groups after the cluster and namespace so projects sharing a resource group do not collide', async () => {
+    mocks.listPrometheusRuleGroups.mockResolvedValue({ success: true, groups: [] });
+    mocks.getClusterPrometheusWorkspace.mockResolvedValue({
+      success: true,
+      scope: '/amw',
+      location: 'eastus',
+    });
+    mocks.createPrometheusRuleGroup.mockResolvedValue({ success: true });
+
+    for (const [namespace, cluster] of [
+      ['team-a', 'my-aks'],
+      ['team-b', 'my-aks'],
+      ['team-a', 'other-aks'],
+    ]) {
+      const { result } = renderHook(() => useAlertRules(namespace, cluster));
+      await waitFor(() => expect(result.current.loading).toBe(false));
+      await act(async () => {
+        await result.current.createRule(createAlertRuleDraft('high-error-rate'));
+      });
+    }
+
+    const names = mocks.createPrometheusRuleGroup.mock.calls.map(([options]) => options.name);
+    expect(names).toEqual([
+      'my-aks-team-a-high-error-rate',
+      'my-aks-team-b-high-error-rate',
+      'other-aks-team-a-high-error-rate',
+    ]);
+  });
+
+  test('rejects rule names too long for the rule group name', async () => {
+    mocks.listPrometheusRuleGroups.mockResolvedValue({ success: true, groups: [] });
+
+    const { result } = renderHook(() => useAlertRules('team-a', 'my-aks'));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    let outcome: { success: boolean; error?: string } | undefined;
+    await act(async () => {
+      outcome = await result.current.createRule({
+        ...createAlertRuleDraft('custom'),
+        name: 'r'.repeat(120),
+      });
+    });
+
+    expect(outcome?.success).toBe(false);
+    expect(mocks.createPrometheusRuleGroup).not.toHaveBeenCalled();
+  });
+
+  test('removes a deleted group from the list', async () => {
+    mocks.listPrometheusRuleGroups.mockResolvedValue({
+      success: true,
+      groups: [makeGroup('a', 'team-a'), makeGroup('b', 'team-a')],
+    });
+    mocks.deletePrometheusRuleGroup.mockResolvedValue({ success: true });
+
+    const { result } = renderHook(() => useAlertRules('team-a', 'my-aks'));
+    await waitFor(() => expect(result.current.ruleGroups).toHaveLength(2));
+
+    await act(async () => {
+      await result.current.deleteRuleGroup('a');
+    });
+
+    expect(result.current.ruleGroups.map(g => g.name)).toEqual(['b']);
+  });
+});
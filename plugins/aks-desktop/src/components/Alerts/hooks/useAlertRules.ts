@@ -0,0 +1,205 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getClusterResourceIdAndGroup } from '../../../utils/azure/az-clusters';
+import { configureAzureCliExtensions } from '../../../utils/azure/az-extensions';
+import {
+  createPrometheusRuleGroup,
+  deletePrometheusRuleGroup,
+  getClusterPrometheusWorkspace,
+  listPrometheusRuleGroups,
+  PROMETHEUS_RULE_NAMESPACE_TAG,
+  type PrometheusRuleGroup,
+} from '../../../utils/azure/az-prometheus-rules';
+import { isValidAzResourceName } from '../../../utils/azure/az-validation';
+import { getPrometheusEndpoint } from '../../../utils/prometheus/getPrometheusEndpoint';
+import { queryPrometheus } from '../../../utils/prometheus/queryPrometheus';
+import { useNamespaceLabels } from '../../Metrics/hooks/useNamespaceLabels';
+import { type CustomPanelData, toCustomPanelData } from '../../Metrics/utils';
+import { type AlertRuleDraft, buildAlertRule, getAlertRuleGroupName } from '../utils';
+
+/** Window the rule preview is plotted over. */
+const PREVIEW_RANGE_SECONDS = 60 * 60;
+const PREVIEW_STEP_SECONDS = 60;
+
+/** Result returned by {@link useAlertRules}. */
+export interface UseAlertRulesResult {
+  /** Rule groups tagged with the project namespace on the cluster. */
+  ruleGroups: PrometheusRuleGroup[];
+  loading: boolean;
+  error: string | null;
+  /** True once the subscription for the namespace is known. */
+  ready: boolean;
+  refresh: () => Promise<void>;
+  /** Creates (or replaces) a rule group holding the draft's rule. */
+  createRule: (draft: AlertRuleDraft) => Promise<{ success: boolean; error?: string }>;
+  deleteRuleGroup: (name: string) => Promise<{ success: boolean; error?: string }>;
+  /** Runs a PromQL query over the last hour for the rule preview. */
+  previewQuery: (query: string) => Promise<CustomPanelData>;
+}
+
+/**
+ * Manages the Azure Managed Prometheus alert rules of a project namespace.
+ *
+ * Rule groups live in the cluster's resource group and are scoped to the project
+ * by the {@link PROMETHEUS_RULE_NAMESPACE_TAG} tag. Each rule created here gets
+ * its own group, named by {@link getAlertRuleGroupName}, so it can be deleted
+ * independently.
+ *
+ * @param namespace - Project namespace.
+ * @param cluster - Name of target cluster.
+ */
+export function useAlertRules(
+  namespace: string | undefined,
+  cluster: string | undefined
+): UseAlertRulesResult {
+  const { subscription, resourceGroupLabel } = useNamespaceLabels(namespace, cluster);
+  const [ruleGroups, setRuleGroups] = useState<PrometheusRuleGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const resourceGroupRef = useRef<string | undefined>(undefined);
+  const latestRequestIdRef = useRef(0);
+
+  useEffect(() => {
+    resourceGroupRef.current = resourceGroupLabel;
+  }, [resourceGroupLabel, cluster, subscription]);
+
+  /** Resolves the cluster's resource group from the namespace label, falling back to an ARM lookup. */
+  const resolveResourceGroup = useCallback(async (): Promise<string> => {
+    if (resourceGroupRef.current) return resourceGroupRef.current;
+    if (!cluster || !subscription) throw new Error('Project is missing Azure subscription');
+    const result = await getClusterResourceIdAndGroup(cluster, subscription);
+    if (!result?.resourceGroup) {
+      throw new Error('Could not find resource group for cluster');
+    }
+    resourceGroupRef.current = result.resourceGroup;
+    return result.resourceGroup;
+  }, [cluster, subscription]);
+
+  const refresh = useCallback(async () => {
+    if (!namespace || !cluster || !subscription) return;
+    const requestId = ++latestRequestIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      // The alerts-management commands ship in an extension that may not be installed yet.
+      await configureAzureCliExtensions();
+      const resourceGroup = await resolveResourceGroup();
+      const result = await listPrometheusRuleGroups({
+        subscriptionId: subscription,
+        resourceGroup,
+      });
+      if (requestId !== latestRequestIdRef.current) return;
+      if (!result.success) throw new Error(result.error ?? 'Failed to list alert rules');
+      setRuleGroups(
+        (result.groups ?? []).filter(
+          g => g.tags?.[PROMETHEUS_RULE_NAMESPACE_TAG] === namespace && g.clusterName === cluster
+        )
+      );
+    } catch (err) {
+      if (requestId !== latestRequestIdRef.current) return;
+      console.error('Failed to load alert rules:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (requestId === latestRequestIdRef.current) setLoading(false);
+    }
+  }, [namespace, cluster, subscription, resolveResourceGroup]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createRule = useCallback(
+    async (draft: AlertRuleDraft) => {
+      if (!namespace || !cluster || !subscription) {
+        return { success: false, error: 'Project is missing Azure subscription' };
+      }
+      const name = getAlertRuleGroupName(cluster, namespace, draft.name);
+      if (!isValidAzResourceName(name)) {
+        return {
+          success: false,
+          error: 'Rule name is too long for a rule group on this cluster and namespace',
+        };
+      }
+      try {
+        const resourceGroup = await resolveResourceGroup();
+        const workspace = await getClusterPrometheusWorkspace({
+          subscriptionId: subscription,
+          resourceGroup,
+          clusterName: cluster,
+        });
+        if (!workspace.success || !workspace.scope || !workspace.location) {
+          return { success: false, error: workspace.error };
+        }
+        const result = await createPrometheusRuleGroup({
+          subscriptionId: subscription,
+          resourceGroup,
+          name,
+          location: workspace.location,
+          clusterName: cluster,
+          scope: workspace.scope,
+          namespace,
+          rules: [buildAlertRule(draft, namespace)],
+          description: draft.description.trim() || undefined,
+        });
+        if (result.success) await refresh();
+        return result;
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+    [namespace, cluster, subscription, resolveResourceGroup, refresh]
+  );
+
+  const deleteRuleGroup = useCallback(
+    async (name: string) => {
+      if (!subscription) return { success: false, error: 'Project is missing Azure subscription' };
+      try {
+        const resourceGroup = await resolveResourceGroup();
+        const result = await deletePrometheusRuleGroup({
+          subscriptionId: subscription,
+          resourceGroup,
+          name,
+        });
+        if (result.success) {
+          setRuleGroups(prev => prev.filter(g => g.name !== name));
+        }
+        return result;
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    },
+    [subscription, resolveResourceGroup]
+  );
+
+  const previewQuery = useCallback(
+    async (query: string) => {
+      if (!cluster || !subscription) throw new Error('Project is missing Azure subscription');
+      const resourceGroup = await resolveResourceGroup();
+      const endpoint = await getPrometheusEndpoint(resourceGroup, cluster, subscription);
+      const end = Math.floor(Date.now() / 1000);
+      const results = await queryPrometheus(
+        endpoint,
+        query,
+        end - PREVIEW_RANGE_SECONDS,
+        end,
+        PREVIEW_STEP_SECONDS,
+        subscription
+      );
+      return toCustomPanelData(results, PREVIEW_RANGE_SECONDS);
+    },
+    [cluster, subscription, resolveResourceGroup]
+  );
+
+  return {
+    ruleGroups,
+    loading,
+    error,
+    ready: !!subscription,
+    refresh,
+    createRule,
+    deleteRuleGroup,
+    previewQuery,
+  };
+}
@@ -0,0 +1,128 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, test } from 'vitest';
+import {
+  ALERT_TEMPLATES,
+  buildAlertExpression,
+  buildAlertRule,
+  createAlertRuleDraft,
+  getPreviewQuery,
+  isoDurationToMinutes,
+  minutesToIsoDuration,
+  validateAlertRuleDraft,
+} from './utils';
+
+describe('alert templates', () => {
+  test.each(ALERT_TEMPLATES.filter(t => t.buildValueQuery).map(t => [t.id, t]))(
+    '%s scopes its query to the namespace',
+    (_, template) => {
+      expect(template.buildValueQuery!('team-a')).toContain('namespace="team-a"');
+    }
+  );
+
+  test('template expressions compare the value query with the threshold', () => {
+    const draft = { ...createAlertRuleDraft('pod-restarts'), threshold: 5 };
+
+    expect(getPreviewQuery(draft, 'team-a')).toBe(
+      'sum by (pod) (increase(kube_pod_container_status_restarts_total{namespace="team-a"}[15m]))'
+    );
+    expect(buildAlertExpression(draft, 'team-a')).toBe(`${getPreviewQuery(draft, 'team-a')} > 5`);
+  });
+
+  test('custom expressions are used as written', () => {
+    const draft = {
+      ...createAlertRuleDraft('custom'),
+      customExpression: '  up{namespace="team-a"} == 0 ',
+    };
+
+    expect(buildAlertExpression(draft, 'team-a')).toBe('up{namespace="team-a"} == 0');
+    expect(getPreviewQuery(draft, 'team-a')).toBe('up{namespace="team-a"} == 0');
+  });
+});
+
+describe('buildAlertRule', () => {
+  test('converts the draft into an Azure rule definition', () => {
+    const draft = {
+      ...createAlertRuleDraft('cpu-saturation'),
+      name: 'cpu-hot',
+      forMinutes: 15,
+      severity: 1 as const,
+      description: 'CPU near its limit',
+    };
+
+    expect(buildAlertRule(draft, 'team-a')).toEqual({
+      alert: 'cpu-hot',
+      expression: buildAlertExpression(draft, 'team-a'),
+      for: 'PT15M',
+      severity: 1,
+      enabled: true,
+      labels: { namespace: 'team-a' },
+      annotations: { description: 'CPU near its limit' },
+    });
+  });
+
+  test('omits annotations when there is no description', () => {
+    expect(buildAlertRule(createAlertRuleDraft('pod-restarts'), 'team-a').annotations).toBe(
+      undefined
+    );
+  });
+});
+
+describe('ISO 8601 durations', () => {
+  test('round-trips minutes', () => {
+    expect(minutesToIsoDuration(5)).toBe('PT5M');
+    expect(minutesToIsoDuration(0)).toBe('PT0M');
+    expect(isoDurationToMinutes('PT5M')).toBe(5);
+  });
+
+  test('parses hours and seconds', () => {
+    expect(isoDurationToMinutes('PT1H30M')).toBe(90);
+    expect(isoDurationToMinutes('PT30S')).toBe(0.5);
+  });
+
+  test('returns undefined for missing or unsupported values', () => {
+    expect(isoDurationToMinutes(undefined)).toBeUndefined();
+    expect(isoDurationToMinutes('PT')).toBeUndefined();
+    expect(isoDurationToMinutes('P1D')).toBeUndefined();
+  });
+});
+
+describe('validateAlertRuleDraft', () => {
+  test('accepts template defaults', () => {
+    for (const template of ALERT_TEMPLATES.filter(t => t.id !== 'custom')) {
+      expect(validateAlertRuleDraft(createAlertRuleDraft(template.id), 'team-a')).toBeNull();
+    }
+  });
+
+  test('rejects names Azure does not accept', () => {
+    const draft = { ...createAlertRuleDraft('pod-restarts'), name: 'pod restarts!' };
+    expect(validateAlertRuleDraft(draft, 'team-a')).toMatch(/Name/);
+  });
+
+  test('rejects a threshold that is not a number', () => {
+    const draft = { ...createAlertRuleDraft('pod-restarts'), threshold: NaN };
+    expect(validateAlertRuleDraft(draft, 'team-a')).toMatch(/Threshold/);
+  });
+
+  test('requires custom expressions to select the project namespace', () => {
+    const draft = { ...createAlertRuleDraft('custom'), name: 'custom-rule' };
+
+    expect(validateAlertRuleDraft(draft, 'team-a')).toMatch(/required/);
+    expect(validateAlertRuleDraft({ ...draft, customExpression: 'up == 0' }, 'team-a')).toContain(
+      'namespace="team-a"'
+    );
+    expect(
+      validateAlertRuleDraft(
+        { ...draft, customExpression: 'up{namespace="team-ab"} == 0' },
+        'team-a'
+      )
+    ).toContain('namespace="team-a"');
+    expect(
+      validateAlertRuleDraft(
+        { ...draft, customExpression: 'up{namespace = "team-a"} == 0' },
+        'team-a'
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { PrometheusAlertRule } from '../../utils/azure/az-prometheus-rules';
+import { isValidAzResourceName } from '../../utils/azure/az-validation';
+
+export type AlertTemplateId = 'high-error-rate' | 'cpu-saturation' | 'pod-restarts' | 'custom';
+
+/** A starting point for a new alert rule. */
+export interface AlertTemplate {
+  id: AlertTemplateId;
+  /** Threshold suggested when the template is picked. */
+  defaultThreshold: number;
+  /** Minutes the condition must hold before the alert fires. */
+  defaultForMinutes: number;
+  defaultSeverity: AlertSeverity;
+  /** Y-axis label for the preview chart. */
+  unit: string;
+  /**
+   * Builds the PromQL value query for the namespace. The alert expression is
+   * `<value query> > <threshold>`. Undefined for the custom template, where the
+   * user writes the full expression.
+   */
+  buildValueQuery?: (namespace: string) => string;
+}
+
+/** Azure Monitor alert severity: 0 = Critical … 4 = Verbose. */
+export type AlertSeverity = 0 | 1 | 2 | 3 | 4;
+
+export const ALERT_SEVERITIES: AlertSeverity[] = [0, 1, 2, 3, 4];
+
+export const ALERT_TEMPLATES: AlertTemplate[] = [
+  {
+    id: 'high-error-rate',
+    defaultThreshold: 5,
+    defaultForMinutes: 5,
+    defaultSeverity: 2,
+    unit: '%',
+    buildValueQuery: ns =>
+      `100 * sum(rate(http_requests_total{namespace="${ns}", status=~"5.."}[5m])) / sum(rate(http_requests_total{namespace="${ns}"}[5m]))`,
+  },
+  {
+    id: 'cpu-saturation',
+    defaultThreshold: 90,
+    defaultForMinutes: 10,
+    defaultSeverity: 3,
+    unit: '%',
+    buildValueQuery: ns =>
+      `100 * sum by (pod) (rate(container_cpu_usage_seconds_total{namespace="${ns}", container!=""}[5m])) / sum by (pod) (kube_pod_container_resource_limits{namespace="${ns}", resource="cpu"})`,
+  },
+  {
+    id: 'pod-restarts',
+    defaultThreshold: 3,
+    defaultForMinutes: 0,
+    defaultSeverity: 2,
+    unit: 'restarts',
+    buildValueQuery: ns =>
+      `sum by (pod) (increase(kube_pod_container_status_restarts_total{namespace="${ns}"}[15m]))`,
+  },
+  {
+    id: 'custom',
+    defaultThreshold: 0,
+    defaultForMinutes: 5,
+    defaultSeverity: 3,
+    unit: '',
+  },
+];
+
+export function getAlertTemplate(id: AlertTemplateId): AlertTemplate {
+  return ALERT_TEMPLATES.find(t => t.id === id) ?? ALERT_TEMPLATES[ALERT_TEMPLATES.length - 1];
+}
+
+/** Form state for a new alert rule. */
+export interface AlertRuleDraft {
+  /** Rule name; also names the rule group, see {@link getAlertRuleGroupName}. */
+  name: string;
+  templateId: AlertTemplateId;
+  threshold: number;
+  forMinutes: number;
+  severity: AlertSeverity;
+  /** Full PromQL expression, only used by the custom template. */
+  customExpression: string;
+  description: string;
+}
+
+/** Returns a draft pre-filled from the template's defaults. */
+export function createAlertRuleDraft(templateId: AlertTemplateId): AlertRuleDraft {
+  const template = getAlertTemplate(templateId);
+  return {
+    name: templateId === 'custom' ? '' : templateId,
+    templateId,
+    threshold: template.defaultThreshold,
+    forMinutes: template.defaultForMinutes,
+    severity: template.defaultSeverity,
+    customExpression: '',
+    description: '',
+  };
+}
+
+/**
+ * Returns the name of the rule group holding a rule. Rule groups share the
+ * cluster's resource group with every other project there, so the name carries
+ * the cluster and namespace to keep projects from replacing each other's groups.
+ */
+export function getAlertRuleGroupName(
+  cluster: string,
+  namespace: string,
+  ruleName: string
+): string {
+  return `${cluster}-${namespace}-${ruleName}`;
+}
+
+/**
+ * Returns the query plotted by the preview: the template's value query, so the
+ * threshold can be drawn against it, or the custom expression as written.
+ */
+export function getPreviewQuery(draft: AlertRuleDraft, namespace: string): string {
+  const template = getAlertTemplate(draft.templateId);
+  return template.buildValueQuery
+    ? template.buildValueQuery(namespace)
+    : draft.customExpression.trim();
+}
+
+/** Returns the PromQL expression the alert rule evaluates. */
+export function buildAlertExpression(draft: AlertRuleDraft, namespace: string): string {
+  const template = getAlertTemplate(draft.templateId);
+  return template.buildValueQuery
+    ? `${template.buildValueQuery(namespace)} > ${draft.threshold}`
+    : draft.customExpression.trim();
+}
+
+/** Converts whole minutes to an ISO 8601 duration, e.g. 5 → `PT5M`. */
+export function minutesToIsoDuration(minutes: number): string {
+  return `PT${Math.max(0, Math.round(minutes))}M`;
+}
+
+/** Converts an ISO 8601 duration such as `PT1H30M` to minutes, or undefined if unparseable. */
+export function isoDurationToMinutes(duration: string | undefined): number | undefined {
+  const match = duration?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/);
+  if (!match || (!match[1] && !match[2] && !match[3])) return undefined;
+  return Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0) + Number(match[3] ?? 0) / 60;
+}
+
+/** Builds the Azure rule definition for a draft. */
+export function buildAlertRule(draft: AlertRuleDraft, namespace: string): PrometheusAlertRule {
+  const rule: PrometheusAlertRule = {
+    alert: draft.name,
+    expression: buildAlertExpression(draft, namespace),
+    for: minutesToIsoDuration(draft.forMinutes),
+    severity: draft.severity,
+    enabled: true,
+    labels: { namespace },
+  };
+  if (draft.description.trim()) {
+    rule.annotations = { description: draft.description.trim() };
+  }
+  return rule;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Checks a draft before it is saved. Returns an error message, or null if valid.
+ * Custom expressions must select the project namespace so a project's alerts
+ * cannot fire on other teams' workloads.
+ */
+export function validateAlertRuleDraft(draft: AlertRuleDraft, namespace: string): string | null {
+  if (!isValidAzResourceName(draft.name)) {
+    return 'Name must start with a letter or digit and contain only letters, digits, hyphens and underscores';
+  }
+  if (!Number.isFinite(draft.forMinutes) || draft.forMinutes < 0) {
+    return 'Duration must be zero or more minutes';
+  }
+  if (draft.templateId === 'custom') {
+    const expression = draft.customExpression.trim();
+    if (!expression) return 'Expression is required';
+    const namespaceMatcher = new RegExp(`namespace\\s*=\\s*"${escapeRegExp(namespace)}"`);
+    if (!namespaceMatcher.test(expression)) {
+      return `Expression must filter on namespace="${namespace}"`;
+    }
+  } else if (!Number.isFinite(draft.threshold)) {
+    return 'Threshold must be a number';
+  }
+  return null;
+}
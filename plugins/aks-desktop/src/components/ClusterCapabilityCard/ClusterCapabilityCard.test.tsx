@@ -42,6 +42,11 @@ vi.mock('../CreateAKSProject/components/ClusterConfigurePanel', () => ({
   ),
 }));
 
+// Mock NodePoolPanel
+vi.mock('./NodePoolPanel', () => ({
+  NodePoolPanel: (props: any) => <div data-testid="node-pool-panel" data-cluster={props.cluster} />,
+}));
+
 // Mock trackClusterShape so we can assert telemetry emission
 const mockTrackClusterShape = vi.fn();
 vi.mock('../../telemetry', () => ({
@@ -121,7 +126,34 @@ describe('ClusterCapabilityCard', () => {
     expect(container.innerHTML).toBe('');
   });
 
-  test('renders nothing when all capabilities are met', () => {
+  test('renders only the node pools when all capabilities are met', () => {
+    mockUseClusterCapabilities.mockReturnValue({
+      capabilities: makeCapabilities(),
+      loading: false,
+      error: null,
+      fetchCapabilities: mockFetchCapabilities,
+    });
+
+    render(<ClusterCapabilityCard project={defaultProject} />);
+    expect(screen.queryByText('Cluster Configuration')).toBeNull();
+    expect(screen.getByTestId('node-pool-panel').getAttribute('data-cluster')).toBe('test-cluster');
+  });
+
+  test('renders the node pools below capability warnings', () => {
+    mockUseClusterCapabilities.mockReturnValue({
+      capabilities: makeCapabilities({ networkPolicy: 'none' }),
+      loading: false,
+      error: null,
+      fetchCapabilities: mockFetchCapabilities,
+    });
+
+    render(<ClusterCapabilityCard project={defaultProject} />);
+    expect(screen.getByText('Cluster Configuration')).toBeTruthy();
+    expect(screen.getByTestId('node-pool-panel')).toBeTruthy();
+  });
+
+  test('renders nothing when all capabilities are met but the project labels are missing', () => {
+    mockUseGet.mockReturnValue([{ jsonData: { metadata: { labels: {} } } }]);
     mockUseClusterCapabilities.mockReturnValue({
       capabilities: makeCapabilities(),
       loading: false,
@@ -8,6 +8,7 @@ import { trackClusterShape } from '../../telemetry';
 import type { ClusterCapabilities } from '../../types/ClusterCapabilities';
 import { ClusterConfigurePanel } from '../CreateAKSProject/components/ClusterConfigurePanel';
 import { useClusterCapabilities } from '../CreateAKSProject/hooks/useClusterCapabilities';
+import { NodePoolPanel } from './NodePoolPanel';
 
 interface ClusterCapabilityCardProps {
   project: {
@@ -88,8 +89,18 @@ function ClusterCapabilityCard({ project }: ClusterCapabilityCardProps) {
 
   if (!capabilities) return null;
 
-  // Don't show anything if the cluster has all capabilities
-  if (!hasIssues(capabilities)) return null;
+  const nodePoolPanel =
+    subscription && resourceGroup && cluster && namespace ? (
+      <NodePoolPanel
+        subscriptionId={subscription}
+        resourceGroup={resourceGroup}
+        cluster={cluster}
+        namespace={namespace}
+      />
+    ) : null;
+
+  // Only the node pools are shown if the cluster has all capabilities
+  if (!hasIssues(capabilities)) return nodePoolPanel;
 
   return (
     <Box>
@@ -135,6 +146,7 @@ function ClusterCapabilityCard({ project }: ClusterCapabilityCardProps) {
           }}
         />
       )}
+      {nodePoolPanel}
     </Box>
   );
 }
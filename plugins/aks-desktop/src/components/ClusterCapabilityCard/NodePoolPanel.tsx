@@ -0,0 +1,331 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { K8s, useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { visuallyHidden } from '@mui/utils';
+import React, { useMemo, useState } from 'react';
+import { MAX_NODE_POOL_COUNT, type NodePoolDetails } from '../../utils/azure/az-nodepools';
+import { useNodePools } from './hooks/useNodePools';
+import { formatTaint, groupPodsByPool } from './nodePools';
+
+interface NodePoolPanelProps {
+  subscriptionId: string;
+  resourceGroup: string;
+  cluster: string;
+  /** Project namespace whose pods are placed on the pools. */
+  namespace: string;
+}
+
+function parseCount(value: string): number | undefined {
+  return /^\d+$/.test(value.trim()) ? Number(value) : undefined;
+}
+
+/** Dialog for scaling one pool or changing its autoscaler bounds. */
+function EditNodePoolDialog({
+  pool,
+  saving,
+  error,
+  onClose,
+  onSave,
+}: {
+  pool: NodePoolDetails;
+  saving: boolean;
+  error: string | null;
+  onClose: () => void;
+  onSave: (
+    change:
+      | { kind: 'scale'; nodeCount: number }
+      | { kind: 'autoscaler'; enabled: boolean; minCount?: number; maxCount?: number }
+  ) => void;
+}) {
+  const { t } = useTranslation();
+  const [autoscaling, setAutoscaling] = useState(pool.autoscaling);
+  const [count, setCount] = useState(String(pool.count));
+  const [minCount, setMinCount] = useState(String(pool.minCount ?? pool.count));
+  const [maxCount, setMaxCount] = useState(String(pool.maxCount ?? pool.count));
+
+  const countError = (value: string) =>
+    parseCount(value) === undefined || Number(value) > MAX_NODE_POOL_COUNT
+      ? t('Enter a whole number from 0 to {{max}}', { max: MAX_NODE_POOL_COUNT })
+      : undefined;
+  const boundsError =
+    !countError(minCount) && !countError(maxCount) && Number(minCount) > Number(maxCount)
+      ? t('The minimum must not exceed the maximum')
+      : undefined;
+  // System pools must keep at least one node.
+  const systemError =
+    pool.mode === 'System' && Number(autoscaling ? minCount : count) < 1
+      ? t('System node pools need at least one node')
+      : undefined;
+  // Turning the autoscaler off keeps the current node count; the pool can be scaled afterwards.
+  const disablingAutoscaler = pool.autoscaling && !autoscaling;
+  const invalid = autoscaling
+    ? Boolean(countError(minCount) || countError(maxCount) || boundsError || systemError)
+    : !disablingAutoscaler && Boolean(countError(count) || systemError);
+  const unchanged = autoscaling
+    ? pool.autoscaling && Number(minCount) === pool.minCount && Number(maxCount) === pool.maxCount
+    : !pool.autoscaling && Number(count) === pool.count;
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>{t('Scale node pool {{name}}', { name: pool.name })}</DialogTitle>
+      <DialogContent>
+        <RadioGroup
+          value={autoscaling ? 'autoscaler' : 'fixed'}
+          onChange={e => setAutoscaling(e.target.value === 'autoscaler')}
+        >
+          <FormControlLabel value="fixed" control={<Radio />} label={t('Fixed node count')} />
+          <FormControlLabel
+            value="autoscaler"
+            control={<Radio />}
+            label={t('Cluster autoscaler')}
+          />
+        </RadioGroup>
+        {autoscaling ? (
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label={t('Minimum nodes')}
+              value={minCount}
+              onChange={e => setMinCount(e.target.value)}
+              error={Boolean(countError(minCount) || boundsError || systemError)}
+              helperText={countError(minCount) ?? boundsError ?? systemError}
+              inputProps={{ inputMode: 'numeric' }}
+              margin="normal"
+            />
+            <TextField
+              label={t('Maximum nodes')}
+              value={maxCount}
+              onChange={e => setMaxCount(e.target.value)}
+              error={Boolean(countError(maxCount))}
+              helperText={countError(maxCount)}
+              inputProps={{ inputMode: 'numeric' }}
+              margin="normal"
+            />
+          </Box>
+        ) : (
+          <TextField
+            label={t('Nodes')}
+            value={disablingAutoscaler ? String(pool.count) : count}
+            onChange={e => setCount(e.target.value)}
+            disabled={disablingAutoscaler}
+            error={!disablingAutoscaler && Boolean(countError(count) || systemError)}
+            helperText={disablingAutoscaler ? undefined : countError(count) ?? systemError}
+            inputProps={{ inputMode: 'numeric' }}
+            margin="normal"
+          />
+        )}
+        {disablingAutoscaler && (
+          <Alert severity="info" sx={{ mt: 1 }}>
+            {t(
+              'The cluster autoscaler is turned off and the pool keeps its {{count}} nodes. Scale it afterwards to change the count.',
+              { count: pool.count }
+            )}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2, whiteSpace: 'pre-wrap' }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('Cancel')}</Button>
+        <Button
+          variant="contained"
+          disabled={saving || invalid || unchanged}
+          onClick={() => {
+            if (autoscaling) {
+              onSave({
+                kind: 'autoscaler',
+                enabled: true,
+                minCount: Number(minCount),
+                maxCount: Number(maxCount),
+              });
+            } else if (disablingAutoscaler) {
+              onSave({ kind: 'autoscaler', enabled: false });
+            } else {
+              onSave({ kind: 'scale', nodeCount: Number(count) });
+            }
+          }}
+        >
+          {saving ? t('Applying…') : t('Apply')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+/**
+ * Lists the node pools of the project's cluster with their scheduling
+ * settings and the project pods on each, and lets users allowed to write
+ * node pools scale them.
+ */
+export function NodePoolPanel({
+  subscriptionId,
+  resourceGroup,
+  cluster,
+  namespace,
+}: NodePoolPanelProps) {
+  const { t } = useTranslation();
+  const nodePools = useNodePools(subscriptionId, resourceGroup, cluster);
+  const [editing, setEditing] = useState<NodePoolDetails | null>(null);
+  const [changeAccepted, setChangeAccepted] = useState(false);
+
+  const [pods] = K8s.ResourceClasses.Pod.useList({ cluster, namespace });
+  const [nodes] = K8s.ResourceClasses.Node.useList({ cluster });
+  const podsByPool = useMemo(
+    () =>
+      groupPodsByPool(
+        (pods ?? []).map((pod: any) => pod.jsonData ?? pod),
+        (nodes ?? []).map((node: any) => node.jsonData ?? node)
+      ),
+    [pods, nodes]
+  );
+
+  if (nodePools.loading && nodePools.pools.length === 0) return null;
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle1" component="h3" gutterBottom>
+        {t('Node Pools')}
+      </Typography>
+      {nodePools.error && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {nodePools.error}
+        </Alert>
+      )}
+      {nodePools.pools.length > 0 && (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('Pool')}</TableCell>
+                <TableCell>{t('VM size')}</TableCell>
+                <TableCell>{t('Nodes')}</TableCell>
+                <TableCell>{t('Taints')}</TableCell>
+                <TableCell>{t('Labels')}</TableCell>
+                <TableCell>{t('Zones')}</TableCell>
+                <TableCell>{t('Project pods')}</TableCell>
+                {nodePools.canManage && (
+                  <TableCell>
+                    <Box component="span" sx={visuallyHidden}>
+                      {t('Actions')}
+                    </Box>
+                  </TableCell>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {nodePools.pools.map(pool => {
+                const projectPods = podsByPool[pool.name] ?? [];
+                return (
+                  <TableRow key={pool.name}>
+                    <TableCell>
+                      {pool.name}{' '}
+                      {pool.mode === 'System' && (
+                        <Chip size="small" variant="outlined" label={t('System')} />
+                      )}
+                      {pool.provisioningState !== 'Succeeded' && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {pool.provisioningState}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{pool.vmSize}</TableCell>
+                    <TableCell>
+                      {pool.count}
+                      {pool.autoscaling && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {t('Autoscale {{min}}–{{max}}', {
+                            min: pool.minCount,
+                            max: pool.maxCount,
+                          })}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {pool.taints.length > 0 ? pool.taints.map(formatTaint).join(', ') : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {Object.keys(pool.labels).length > 0
+                        ? Object.entries(pool.labels)
+                            .map(([key, value]) => `${key}=${value}`)
+                            .join(', ')
+                        : '—'}
+                    </TableCell>
+                    <TableCell>{pool.zones.length > 0 ? pool.zones.join(', ') : '—'}</TableCell>
+                    <TableCell>
+                      {projectPods.length > 0 ? (
+                        <Tooltip title={projectPods.join(', ')}>
+                          <span>{projectPods.length}</span>
+                        </Tooltip>
+                      ) : (
+                        0
+                      )}
+                    </TableCell>
+                    {nodePools.canManage && (
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          disabled={nodePools.updatingPool !== null}
+                          aria-label={t('Scale node pool {{name}}', { name: pool.name })}
+                          onClick={() => {
+                            setChangeAccepted(false);
+                            setEditing(pool);
+                          }}
+                        >
+                          {t('Scale')}
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+      {changeAccepted && (
+        <Alert severity="info" sx={{ mt: 1 }} onClose={() => setChangeAccepted(false)}>
+          {t('The change was accepted. Node counts update as Azure adds or removes nodes.')}
+        </Alert>
+      )}
+      {editing && (
+        <EditNodePoolDialog
+          pool={editing}
+          saving={nodePools.updatingPool === editing.name}
+          error={nodePools.updateError}
+          onClose={() => setEditing(null)}
+          onSave={async change => {
+            if (await nodePools.applyChange(editing, change)) {
+              setEditing(null);
+              setChangeAccepted(true);
+            }
+          }}
+        />
+      )}
+    </Box>
+  );
+}
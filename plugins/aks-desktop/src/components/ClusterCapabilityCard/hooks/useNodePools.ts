@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  canManageNodePools,
+  listNodePoolDetails,
+  type NodePoolDetails,
+  scaleNodePool,
+  updateNodePoolAutoscaler,
+} from '../../../utils/azure/az-nodepools';
+
+/** A requested change to one pool: a fixed node count, or autoscaler settings. */
+export type NodePoolChange =
+  | { kind: 'scale'; nodeCount: number }
+  | { kind: 'autoscaler'; enabled: boolean; minCount?: number; maxCount?: number };
+
+/** Result returned by {@link useNodePools}. */
+export interface UseNodePoolsResult {
+  pools: NodePoolDetails[];
+  loading: boolean;
+  error: string | null;
+  /** Whether the user may scale pools; null until known. */
+  canManage: boolean | null;
+  /** Name of the pool a change is being submitted for, or null. */
+  updatingPool: string | null;
+  /** Error message from the last failed change, or null. */
+  updateError: string | null;
+  /** Submits a change; resolves to whether Azure accepted it. */
+  applyChange: (pool: NodePoolDetails, change: NodePoolChange) => Promise<boolean>;
+  refresh: () => void;
+}
+
+/**
+ * Node pools of a cluster and whether the signed-in user may change them.
+ * Nothing is loaded until all three identifiers are known.
+ */
+export function useNodePools(
+  subscriptionId: string | undefined,
+  resourceGroup: string | undefined,
+  clusterName: string | undefined
+): UseNodePoolsResult {
+  const [pools, setPools] = useState<NodePoolDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [canManage, setCanManage] = useState<boolean | null>(null);
+  const [updatingPool, setUpdatingPool] = useState<string | null>(null);
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    if (!subscriptionId || !resourceGroup || !clusterName) return;
+    const requestId = ++requestIdRef.current;
+    const cluster = { subscriptionId, resourceGroup, clusterName };
+    setLoading(true);
+    const [list, permission] = await Promise.all([
+      listNodePoolDetails(cluster),
+      canManageNodePools(cluster),
+    ]);
+    if (requestId !== requestIdRef.current) return;
+    setPools(list.pools ?? []);
+    setError(list.success ? null : list.error ?? 'Failed to list node pools');
+    // Without an answer the controls stay hidden; Azure would reject the change anyway.
+    setCanManage(permission.success ? permission.allowed === true : false);
+    setLoading(false);
+  }, [subscriptionId, resourceGroup, clusterName]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const applyChange = async (pool: NodePoolDetails, change: NodePoolChange) => {
+    if (!subscriptionId || !resourceGroup || !clusterName) return false;
+    const cluster = { subscriptionId, resourceGroup, clusterName, poolName: pool.name };
+    setUpdatingPool(pool.name);
+    setUpdateError(null);
+    const result =
+      change.kind === 'scale'
+        ? await scaleNodePool({ ...cluster, nodeCount: change.nodeCount })
+        : await updateNodePoolAutoscaler({
+            ...cluster,
+            wasEnabled: pool.autoscaling,
+            enabled: change.enabled,
+            minCount: change.minCount,
+            maxCount: change.maxCount,
+          });
+    setUpdatingPool(null);
+    if (!result.success) {
+      setUpdateError(result.error ?? 'Failed to update node pool');
+      return false;
+    }
+    await refresh();
+    return true;
+  };
+
+  return {
+    pools,
+    loading,
+    error,
+    canManage,
+    updatingPool,
+    updateError,
+    applyChange,
+    refresh: () => {
+      refresh();
+    },
+  };
+}
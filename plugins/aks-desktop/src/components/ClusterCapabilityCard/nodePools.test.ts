@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import { formatTaint, groupPodsByPool } from './nodePools';
+
+describe('formatTaint', () => {
+  it('formats taints with and without a value', () => {
+    expect(formatTaint({ key: 'sku', value: 'gpu', effect: 'NoSchedule' })).toBe(
+      'sku=gpu:NoSchedule'
+    );
+    expect(formatTaint({ key: 'CriticalAddonsOnly', effect: 'NoSchedule' })).toBe(
+      'CriticalAddonsOnly:NoSchedule'
+    );
+  });
+});
+
+describe('groupPodsByPool', () => {
+  it('groups pods by the pool label of their node', () => {
+    const nodes = [
+      {
+        metadata: {
+          name: 'aks-system-1',
+          labels: { 'kubernetes.azure.com/agentpool': 'system' },
+        },
+      },
+      { metadata: { name: 'aks-gpu-1', labels: { agentpool: 'gpu' } } },
+      { metadata: { name: 'unlabelled' } },
+    ];
+    const pods = [
+      { metadata: { name: 'web-2' }, spec: { nodeName: 'aks-system-1' } },
+      { metadata: { name: 'web-1' }, spec: { nodeName: 'aks-system-1' } },
+      { metadata: { name: 'train' }, spec: { nodeName: 'aks-gpu-1' } },
+      { metadata: { name: 'pending' }, spec: {} },
+      { metadata: { name: 'stray' }, spec: { nodeName: 'unlabelled' } },
+    ];
+
+    expect(groupPodsByPool(pods, nodes)).toEqual({
+      system: ['web-1', 'web-2'],
+      gpu: ['train'],
+    });
+  });
+});
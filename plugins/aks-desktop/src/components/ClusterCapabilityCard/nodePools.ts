@@ -0,0 +1,40 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { AGENT_POOL_LABEL, type NodePoolTaint } from '../../utils/azure/az-nodepools';
+
+/** Formats a taint the way `kubectl` shows it, e.g. `sku=gpu:NoSchedule`. */
+export function formatTaint(taint: NodePoolTaint): string {
+  return `${taint.key}${taint.value !== undefined ? `=${taint.value}` : ''}:${taint.effect}`;
+}
+
+/**
+ * Groups the names of pods by the node pool of the node they run on.
+ * Pods not yet scheduled, or on nodes without a pool label, are left out.
+ *
+ * @param pods - Pod objects (`spec.nodeName`, `metadata.name`).
+ * @param nodes - Node objects (`metadata.name`, `metadata.labels`).
+ * @returns Pod names keyed by pool name.
+ */
+export function groupPodsByPool(
+  pods: Array<{ metadata?: { name?: string }; spec?: { nodeName?: string } }>,
+  nodes: Array<{ metadata?: { name?: string; labels?: Record<string, string> } }>
+): Record<string, string[]> {
+  const poolOfNode = new Map<string, string>();
+  for (const node of nodes) {
+    const name = node.metadata?.name;
+    // Older clusters only carry the short `agentpool` label.
+    const pool = node.metadata?.labels?.[AGENT_POOL_LABEL] ?? node.metadata?.labels?.agentpool;
+    if (name && pool) poolOfNode.set(name, pool);
+  }
+
+  const byPool: Record<string, string[]> = {};
+  for (const pod of pods) {
+    const pool = pod.spec?.nodeName ? poolOfNode.get(pod.spec.nodeName) : undefined;
+    if (!pool || !pod.metadata?.name) continue;
+    if (!byPool[pool]) byPool[pool] = [];
+    byPool[pool].push(pod.metadata.name);
+  }
+  for (const names of Object.values(byPool)) names.sort();
+  return byPool;
+}
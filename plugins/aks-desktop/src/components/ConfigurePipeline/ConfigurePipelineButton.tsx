@@ -5,11 +5,13 @@ import { Icon } from '@iconify/react';
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Alert, Box, Button, Drawer } from '@mui/material';
 import React, { useCallback, useEffect, useState } from 'react';
+import { useHistory, useLocation } from 'react-router-dom';
 import { useAzureContext } from '../../hooks/useAzureContext';
 import { usePreviewFeatures } from '../../hooks/usePreviewFeatures';
 import type { ProjectDefinition } from '../../types/project';
+import { getProjectScopes } from '../../utils/shared/projectScopes';
 import { usePipelineStatus } from '../DeployTab/hooks/usePipelineStatus';
-import { OPEN_CONFIGURE_PIPELINE_EVENT } from '../GitHubPipeline/constants';
+import { OPEN_CONFIGURE_PIPELINE_EVENT, OPEN_PIPELINE_PARAM } from '../GitHubPipeline/constants';
 import { GitHubPipelineWizard } from '../GitHubPipeline/GitHubPipelineWizard';
 import { clearActivePipeline } from '../GitHubPipeline/utils/pipelineStorage';
 
@@ -37,6 +39,18 @@ function ConfigurePipelineButton({ project, setSelectedTab }: ConfigurePipelineB
     return () => window.removeEventListener(OPEN_CONFIGURE_PIPELINE_EVENT, handler);
   }, []);
 
+  // Deep link from the Pipelines page; the param is removed so it opens only once
+  const location = useLocation();
+  const history = useHistory();
+  useEffect(() => {
+    const searchParams = new URLSearchParams(location.search);
+    if (searchParams.get(OPEN_PIPELINE_PARAM) !== 'true') return;
+    setOpen(true);
+    searchParams.delete(OPEN_PIPELINE_PARAM);
+    const newSearch = searchParams.toString();
+    history.replace(newSearch ? `${location.pathname}?${newSearch}` : location.pathname);
+  }, [location.search, location.pathname, history]);
+
   if (!githubPipelines) return null;
 
   const handleClose = () => {
@@ -94,6 +108,7 @@ function ConfigurePipelineButton({ project, setSelectedTab }: ConfigurePipelineB
             }
             mode="configure"
             projectName={project.id}
+            scopes={getProjectScopes(project)}
           />
         ) : azureContextError ? (
           <Box sx={{ p: 3 }}>
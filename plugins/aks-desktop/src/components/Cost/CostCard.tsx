@@ -0,0 +1,189 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import { formatCpu, formatMemory } from '../../utils/shared/resourceUnits';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { formatMonthlyCost, type WorkloadCost } from './costModel';
+import { useProjectCost } from './hooks/useProjectCost';
+
+/** Props for {@link CostCard}. */
+export interface CostCardProps {
+  /** AKS Managed Project */
+  project: {
+    id: string;
+    namespaces: string[];
+    clusters: string[];
+  };
+}
+
+function UsageCell({ workload }: { workload: WorkloadCost }) {
+  const { t } = useTranslation();
+  if (!workload.usage) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        —
+      </Typography>
+    );
+  }
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Typography variant="body2">
+        {formatCpu(Math.round(workload.usage.cpuCores * 1000))} /{' '}
+        {formatMemory(workload.usage.memoryBytes)}
+      </Typography>
+      {workload.overProvisioned.length > 0 && (
+        <Tooltip
+          title={t(
+            'Average usage over the last 6 hours is below a quarter of the request for: {{resources}}',
+            { resources: workload.overProvisioned.join(', ') }
+          )}
+        >
+          <Chip label={t('Over-provisioned')} size="small" color="warning" />
+        </Tooltip>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Overview card estimating the monthly cost of a project's workloads from
+ * their resource requests and the cluster's node pool prices, and flagging
+ * workloads that request far more than they use. Projects spanning several
+ * clusters or namespaces estimate one of them at a time.
+ */
+function CostCard({ project }: CostCardProps) {
+  const { t } = useTranslation();
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const { namespace, cluster } = selected;
+  const { estimate, priceTable, loading, error, usageAvailable, refreshingPrices, refreshPrices } =
+    useProjectCost(namespace, cluster);
+
+  const format = (amount: number) => formatMonthlyCost(amount, priceTable.currency);
+
+  return (
+    <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          flexWrap: 'wrap',
+          gap: 1,
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">{t('Estimated Cost')}</Typography>
+        <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+        <Button
+          size="small"
+          startIcon={<Icon icon="mdi:refresh" aria-hidden="true" />}
+          disabled={refreshingPrices || !estimate}
+          onClick={refreshPrices}
+        >
+          {refreshingPrices ? `${t('Refreshing prices')}...` : t('Refresh prices')}
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading && !estimate && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={32} />
+        </Box>
+      )}
+
+      {estimate && (
+        <>
+          <Typography variant="h4" component="p">
+            {t('{{amount}} / month', { amount: format(estimate.totalMonthlyCost) })}
+          </Typography>
+          <Typography variant="caption" component="p" color="text.secondary" sx={{ mb: 2 }}>
+            {priceTable.source === 'bundled'
+              ? t('Based on resource requests at bundled pay-as-you-go prices from {{date}}.', {
+                  date: new Date(priceTable.updatedAt).toLocaleDateString(),
+                })
+              : t('Based on resource requests at {{region}} pay-as-you-go prices from {{date}}.', {
+                  region: priceTable.region,
+                  date: new Date(priceTable.updatedAt).toLocaleDateString(),
+                })}
+          </Typography>
+
+          {estimate.unpricedPods > 0 && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {t(
+                '{{count}} pods run on VM sizes without a known price and are not included. Refresh prices to look them up.',
+                { count: estimate.unpricedPods }
+              )}
+            </Alert>
+          )}
+
+          {!usageAvailable && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('Usage from Managed Prometheus is unavailable; over-provisioning is not checked.')}
+            </Typography>
+          )}
+
+          {estimate.workloads.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t('No running workloads in this project.')}
+            </Typography>
+          ) : (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Workload')}</TableCell>
+                  <TableCell align="right">{t('Pods')}</TableCell>
+                  <TableCell>{t('Requests')}</TableCell>
+                  <TableCell>{t('Average usage')}</TableCell>
+                  <TableCell align="right">{t('Monthly cost')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {estimate.workloads.map(workload => (
+                  <TableRow key={workload.name}>
+                    <TableCell>{workload.name}</TableCell>
+                    <TableCell align="right">{workload.pods}</TableCell>
+                    <TableCell>
+                      {formatCpu(workload.cpuRequestMillicores)} /{' '}
+                      {formatMemory(workload.memoryRequestBytes)}
+                    </TableCell>
+                    <TableCell>
+                      <UsageCell workload={workload} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {workload.monthlyCost === null ? '—' : format(workload.monthlyCost)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
+
+export default CostCard;
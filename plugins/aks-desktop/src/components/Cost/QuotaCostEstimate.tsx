@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Card, Typography } from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { getClusterNodePools } from '../../utils/azure/az-clusters';
+import { estimateQuotaCost, formatMonthlyCost } from './costModel';
+import { DEFAULT_VM_SIZE, loadPriceTable } from './priceTable';
+
+/** Props for {@link QuotaCostEstimate}. */
+export interface QuotaCostEstimateProps {
+  subscriptionId: string;
+  resourceGroup: string;
+  clusterName: string;
+  /** Azure region of the cluster. */
+  location: string | undefined;
+  /** CPU quota in millicores. */
+  cpuMillicores: number;
+  /** Memory quota in MiB. */
+  memoryMiB: number;
+}
+
+/**
+ * Shows what a new project would cost per month if its workloads requested
+ * the whole CPU and memory quota, priced at the VM size of the cluster's
+ * first user node pool.
+ */
+export function QuotaCostEstimate({
+  subscriptionId,
+  resourceGroup,
+  clusterName,
+  location,
+  cpuMillicores,
+  memoryMiB,
+}: QuotaCostEstimateProps) {
+  const { t } = useTranslation();
+  const [vmSize, setVmSize] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!subscriptionId || !resourceGroup || !clusterName) return;
+    let cancelled = false;
+    getClusterNodePools({ subscriptionId, resourceGroup, clusterName }).then(result => {
+      if (cancelled) return;
+      const pools = result.pools ?? [];
+      const pool = pools.find(p => p.mode === 'User') ?? pools[0];
+      // Without node pools the estimate falls back to a typical node size.
+      setVmSize(pool?.vmSize || DEFAULT_VM_SIZE);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [subscriptionId, resourceGroup, clusterName]);
+
+  const priceTable = loadPriceTable(location);
+  const size = vmSize ?? DEFAULT_VM_SIZE;
+  const monthlyCost = estimateQuotaCost({ cpuMillicores, memoryMiB, vmSize: size, priceTable });
+
+  return (
+    <Card variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Typography variant="h6" component="h3" gutterBottom sx={{ color: 'text.primary' }}>
+        <Icon
+          icon="mdi:currency-usd"
+          aria-hidden="true"
+          style={{ marginRight: 8, verticalAlign: 'middle' }}
+        />
+        {t('Estimated Cost')}
+      </Typography>
+      {monthlyCost === null ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('No price is known for the {{vmSize}} node size.', { vmSize: size })}
+        </Typography>
+      ) : (
+        <>
+          <Typography variant="body1">
+            {t('Up to {{amount}} / month', {
+              amount: formatMonthlyCost(monthlyCost, priceTable.currency),
+            })}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {t(
+              'If workloads request the full compute quota on {{vmSize}} nodes at pay-as-you-go prices.',
+              { vmSize: size }
+            )}
+          </Typography>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, test } from 'vitest';
+import {
+  aggregateUsage,
+  estimateProjectCost,
+  estimateQuotaCost,
+  getNodePoolName,
+  getWorkloadName,
+  HOURS_PER_MONTH,
+} from './costModel';
+import type { VmPriceTable } from './priceTable';
+
+const GIB = 1024 ** 3;
+
+const priceTable: VmPriceTable = {
+  region: 'eastus',
+  currency: 'USD',
+  updatedAt: '2026-09-01T00:00:00Z',
+  source: 'bundled',
+  prices: {
+    Standard_D4s_v5: { hourly: 0.192, vCpus: 4, memoryGiB: 16 },
+    Standard_E4s_v5: { hourly: 0.252, vCpus: 4, memoryGiB: 32 },
+  },
+};
+
+const nodePools = [
+  { name: 'system', vmSize: 'Standard_D4s_v5', count: 1, mode: 'System' },
+  { name: 'memory', vmSize: 'Standard_E4s_v5', count: 2, mode: 'User' },
+  { name: 'general', vmSize: 'Standard_D4s_v5', count: 2, mode: 'User' },
+];
+
+function makePod(
+  name: string,
+  options: { owner?: string; hash?: string; node?: string; cpu?: string; memory?: string } = {}
+) {
+  return {
+    metadata: {
+      name,
+      labels: options.hash ? { 'pod-template-hash': options.hash } : {},
+      ownerReferences: options.owner
+        ? [{ kind: 'ReplicaSet', name: options.owner, controller: true }]
+        : undefined,
+    },
+    spec: {
+      nodeName: options.node,
+      containers: [
+        { name: 'app', resources: { requests: { cpu: options.cpu, memory: options.memory } } },
+      ],
+    },
+    status: { phase: 'Running' },
+  };
+}
+
+describe('getNodePoolName', () => {
+  test('parses the pool from AKS VM scale set node names', () => {
+    expect(getNodePoolName('aks-nodepool1-12345678-vmss000002')).toBe('nodepool1');
+  });
+
+  test('returns null for other node names', () => {
+    expect(getNodePoolName('my-node')).toBeNull();
+    expect(getNodePoolName(undefined)).toBeNull();
+  });
+});
+
+describe('getWorkloadName', () => {
+  test('maps ReplicaSet pods to their Deployment', () => {
+    expect(getWorkloadName(makePod('web-7d4b9-abcde', { owner: 'web-7d4b9', hash: '7d4b9' }))).toBe(
+      'web'
+    );
+  });
+
+  test('uses the owner name for other controllers and the pod name otherwise', () => {
+    const statefulPod = {
+      metadata: {
+        name: 'db-0',
+        ownerReferences: [{ kind: 'StatefulSet', name: 'db', controller: true }],
+      },
+    };
+    expect(getWorkloadName(statefulPod)).toBe('db');
+    expect(getWorkloadName(makePod('debug'))).toBe('debug');
+  });
+});
+
+describe('estimateProjectCost', () => {
+  test('prices the full VM when a pod requests all of it', () => {
+    const estimate = estimateProjectCost({
+      pods: [makePod('big', { node: 'aks-general-1-vmss000000', cpu: '4', memory: '16Gi' })],
+      nodePools,
+      priceTable,
+    });
+    expect(estimate.totalMonthlyCost).toBeCloseTo(0.192 * HOURS_PER_MONTH);
+  });
+
+  test('groups pods by workload and prices each at its node pool', () => {
+    const estimate = estimateProjectCost({
+      pods: [
+        makePod('web-1', {
+          owner: 'web-abc',
+          hash: 'abc',
+          node: 'aks-general-1-vmss000000',
+          cpu: '500m',
+          memory: '1Gi',
+        }),
+        makePod('web-2', {
+          owner: 'web-abc',
+          hash: 'abc',
+          node: 'aks-memory-1-vmss000001',
+          cpu: '500m',
+          memory: '1Gi',
+        }),
+      ],
+      nodePools,
+      priceTable,
+    });
+
+    expect(estimate.workloads).toHaveLength(1);
+    const [web] = estimate.workloads;
+    expect(web.pods).toBe(2);
+    expect(web.cpuRequestMillicores).toBe(1000);
+    expect(web.memoryRequestBytes).toBe(2 * GIB);
+
+    const onGeneral = estimateProjectCost({
+      pods: [makePod('a', { node: 'aks-general-1-vmss000000', cpu: '500m', memory: '1Gi' })],
+      nodePools,
+      priceTable,
+    }).totalMonthlyCost;
+    const onMemory = estimateProjectCost({
+      pods: [makePod('a', { node: 'aks-memory-1-vmss000000', cpu: '500m', memory: '1Gi' })],
+      nodePools,
+      priceTable,
+    }).totalMonthlyCost;
+    expect(web.monthlyCost).toBeCloseTo(onGeneral + onMemory);
+  });
+
+  test('prices unscheduled pods at the first user pool and skips finished pods', () => {
+    const finished = { ...makePod('job', { cpu: '1' }), status: { phase: 'Succeeded' } };
+    const estimate = estimateProjectCost({
+      pods: [makePod('pending', { cpu: '1', memory: '1Gi' }), finished],
+      nodePools,
+      priceTable,
+    });
+    const onMemory = estimateProjectCost({
+      pods: [makePod('pending', { node: 'aks-memory-1-vmss000000', cpu: '1', memory: '1Gi' })],
+      nodePools,
+      priceTable,
+    });
+    expect(estimate.workloads.map(w => w.name)).toEqual(['pending']);
+    expect(estimate.totalMonthlyCost).toBeCloseTo(onMemory.totalMonthlyCost);
+  });
+
+  test('counts pods on VM sizes without a price', () => {
+    const estimate = estimateProjectCost({
+      pods: [makePod('gpu', { node: 'aks-gpu-1-vmss000000', cpu: '1' })],
+      nodePools: [{ name: 'gpu', vmSize: 'Standard_NC6s_v3', count: 1, mode: 'User' }],
+      priceTable,
+    });
+    expect(estimate.unpricedPods).toBe(1);
+    expect(estimate.workloads[0].monthlyCost).toBeNull();
+    expect(estimate.totalMonthlyCost).toBe(0);
+  });
+
+  test('flags resources whose usage is far below the request', () => {
+    const estimate = estimateProjectCost({
+      pods: [
+        makePod('idle', { cpu: '2', memory: '4Gi' }),
+        makePod('busy', { cpu: '500m', memory: '256Mi' }),
+        makePod('tiny', { cpu: '50m', memory: '64Mi' }),
+      ],
+      nodePools,
+      priceTable,
+      usage: {
+        idle: { cpuCores: 0.1, memoryBytes: 3 * GIB },
+        busy: { cpuCores: 0.4, memoryBytes: 200 * 1024 ** 2 },
+        tiny: { cpuCores: 0, memoryBytes: 0 },
+      },
+    });
+    const byName = Object.fromEntries(estimate.workloads.map(w => [w.name, w]));
+    expect(byName.idle.overProvisioned).toEqual(['cpu']);
+    expect(byName.busy.overProvisioned).toEqual([]);
+    expect(byName.tiny.overProvisioned).toEqual([]);
+  });
+});
+
+describe('aggregateUsage', () => {
+  test('sums per-pod usage into workloads and ignores pods that are gone', () => {
+    const pods = [
+      makePod('web-1', { owner: 'web-abc', hash: 'abc' }),
+      makePod('web-2', { owner: 'web-abc', hash: 'abc' }),
+    ];
+    expect(
+      aggregateUsage(pods, { 'web-1': 0.2, 'web-2': 0.3, 'old-pod': 1 }, { 'web-1': 100 })
+    ).toEqual({ web: { cpuCores: 0.5, memoryBytes: 100 } });
+  });
+});
+
+describe('estimateQuotaCost', () => {
+  test('prices a quota at the given VM size', () => {
+    expect(
+      estimateQuotaCost({
+        cpuMillicores: 4000,
+        memoryMiB: 16 * 1024,
+        vmSize: 'Standard_D4s_v5',
+        priceTable,
+      })
+    ).toBeCloseTo(0.192 * HOURS_PER_MONTH);
+  });
+
+  test('returns null for unknown VM sizes', () => {
+    expect(
+      estimateQuotaCost({ cpuMillicores: 1000, memoryMiB: 1024, vmSize: 'Standard_X', priceTable })
+    ).toBeNull();
+  });
+});
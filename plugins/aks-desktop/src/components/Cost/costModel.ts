@@ -0,0 +1,261 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { ClusterNodePool } from '../../utils/azure/az-clusters';
+import { parseCpuToMillicores, parseMemoryToBytes } from '../../utils/shared/resourceUnits';
+import type { VmPrice, VmPriceTable } from './priceTable';
+
+/** Average number of hours in a month, as used by Azure pricing. */
+export const HOURS_PER_MONTH = 730;
+
+const BYTES_PER_GIB = 1024 ** 3;
+
+/**
+ * How many GiB of memory cost as much as one vCPU. A VM's price is split
+ * between its vCPUs and memory in this ratio, the same default split
+ * OpenCost uses for Azure nodes.
+ */
+const GIB_PER_VCPU_PRICE = 7.46;
+
+/** Usage below this share of the request marks a workload as over-provisioned. */
+const OVER_PROVISIONED_USAGE_RATIO = 0.25;
+
+/** Requests too small to be worth resizing are never flagged. */
+const MIN_FLAGGED_CPU_MILLICORES = 100;
+const MIN_FLAGGED_MEMORY_BYTES = 128 * 1024 ** 2;
+
+/** Hourly price of one vCPU and one GiB of memory on a VM size. */
+interface ResourceRates {
+  cpuCoreHour: number;
+  memoryGiBHour: number;
+}
+
+/** Average resource usage of a workload's pods, summed across the pods. */
+export interface WorkloadUsage {
+  cpuCores: number;
+  memoryBytes: number;
+}
+
+/** Estimated monthly cost of one workload. */
+export interface WorkloadCost {
+  /** Deployment, StatefulSet, etc. owning the pods, or the pod name. */
+  name: string;
+  pods: number;
+  cpuRequestMillicores: number;
+  memoryRequestBytes: number;
+  /** Monthly cost of the requests, or null if no pod could be priced. */
+  monthlyCost: number | null;
+  /** Measured usage, or null when Prometheus has none for the workload. */
+  usage: WorkloadUsage | null;
+  /** Resources whose usage is far below the request. */
+  overProvisioned: Array<'cpu' | 'memory'>;
+}
+
+/** Estimated monthly cost of a project's workloads. */
+export interface ProjectCostEstimate {
+  /** Workloads, most expensive first. */
+  workloads: WorkloadCost[];
+  totalMonthlyCost: number;
+  /** Pods on nodes whose VM size is not in the price table. */
+  unpricedPods: number;
+}
+
+function getResourceRates(price: VmPrice): ResourceRates {
+  const weightedCpu = price.vCpus * GIB_PER_VCPU_PRICE;
+  const cpuShare = weightedCpu / (weightedCpu + price.memoryGiB);
+  return {
+    cpuCoreHour: (price.hourly * cpuShare) / price.vCpus,
+    memoryGiBHour: (price.hourly * (1 - cpuShare)) / price.memoryGiB,
+  };
+}
+
+/** Monthly cost of CPU and memory requests on a VM size. */
+function monthlyCostOf(cpuMillicores: number, memoryBytes: number, price: VmPrice): number {
+  const rates = getResourceRates(price);
+  const hourly =
+    (cpuMillicores / 1000) * rates.cpuCoreHour +
+    (memoryBytes / BYTES_PER_GIB) * rates.memoryGiBHour;
+  return hourly * HOURS_PER_MONTH;
+}
+
+/**
+ * Returns the node pool an AKS node belongs to. AKS names VM scale set nodes
+ * `aks-<pool>-<id>-vmss<instance>`.
+ */
+export function getNodePoolName(nodeName: string | undefined): string | null {
+  const match = nodeName?.match(/^aks-([a-z0-9]+)-\d+-vmss[0-9a-z]+$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Returns the name of the workload that owns a pod. Pods of a Deployment are
+ * owned by a ReplicaSet named `<deployment>-<pod-template-hash>`.
+ */
+export function getWorkloadName(pod: any): string {
+  const owner = pod?.metadata?.ownerReferences?.find((ref: any) => ref.controller);
+  const podName = pod?.metadata?.name ?? '';
+  if (!owner) return podName;
+  const hash = pod.metadata?.labels?.['pod-template-hash'];
+  if (owner.kind === 'ReplicaSet' && hash && owner.name.endsWith(`-${hash}`)) {
+    return owner.name.slice(0, -(hash.length + 1));
+  }
+  return owner.name;
+}
+
+function getPodRequests(pod: any): { cpuMillicores: number; memoryBytes: number } {
+  let cpuMillicores = 0;
+  let memoryBytes = 0;
+  for (const container of pod?.spec?.containers ?? []) {
+    const requests = container.resources?.requests ?? {};
+    if (requests.cpu) cpuMillicores += parseCpuToMillicores(requests.cpu);
+    if (requests.memory) memoryBytes += parseMemoryToBytes(requests.memory);
+  }
+  return { cpuMillicores, memoryBytes };
+}
+
+function isActivePod(pod: any): boolean {
+  const phase = pod?.status?.phase;
+  return phase !== 'Succeeded' && phase !== 'Failed';
+}
+
+/**
+ * Sums per-pod average usage into per-workload usage. Series of pods that no
+ * longer exist are ignored.
+ *
+ * @param pods - Current pods of the namespace.
+ * @param cpuByPod - Average CPU cores keyed by pod name.
+ * @param memoryByPod - Average working set bytes keyed by pod name.
+ */
+export function aggregateUsage(
+  pods: any[],
+  cpuByPod: Record<string, number>,
+  memoryByPod: Record<string, number>
+): Record<string, WorkloadUsage> {
+  const usage: Record<string, WorkloadUsage> = {};
+  for (const pod of pods) {
+    const podName = pod?.metadata?.name;
+    if (!(podName in cpuByPod) && !(podName in memoryByPod)) continue;
+    const workload = getWorkloadName(pod);
+    const entry = (usage[workload] ??= { cpuCores: 0, memoryBytes: 0 });
+    entry.cpuCores += cpuByPod[podName] ?? 0;
+    entry.memoryBytes += memoryByPod[podName] ?? 0;
+  }
+  return usage;
+}
+
+function getOverProvisioned(
+  cpuRequestMillicores: number,
+  memoryRequestBytes: number,
+  usage: WorkloadUsage | null
+): Array<'cpu' | 'memory'> {
+  if (!usage) return [];
+  const flagged: Array<'cpu' | 'memory'> = [];
+  if (
+    cpuRequestMillicores >= MIN_FLAGGED_CPU_MILLICORES &&
+    usage.cpuCores * 1000 < cpuRequestMillicores * OVER_PROVISIONED_USAGE_RATIO
+  ) {
+    flagged.push('cpu');
+  }
+  if (
+    memoryRequestBytes >= MIN_FLAGGED_MEMORY_BYTES &&
+    usage.memoryBytes < memoryRequestBytes * OVER_PROVISIONED_USAGE_RATIO
+  ) {
+    flagged.push('memory');
+  }
+  return flagged;
+}
+
+/**
+ * Estimates the monthly cost of a namespace's workloads from their pods'
+ * resource requests, priced at the VM size of the node pool each pod runs on.
+ * Pending pods, and pods on nodes that cannot be matched to a pool, are
+ * priced at the cluster's first user pool.
+ *
+ * @param options.pods - Pods of the namespace.
+ * @param options.nodePools - Node pools of the cluster.
+ * @param options.priceTable - VM prices to use.
+ * @param options.usage - Measured usage keyed by workload name, if available.
+ */
+export function estimateProjectCost(options: {
+  pods: any[];
+  nodePools: ClusterNodePool[];
+  priceTable: VmPriceTable;
+  usage?: Record<string, WorkloadUsage>;
+}): ProjectCostEstimate {
+  const { pods, nodePools, priceTable, usage = {} } = options;
+  const poolsByName = new Map(nodePools.map(pool => [pool.name, pool]));
+  const defaultPool = nodePools.find(pool => pool.mode === 'User') ?? nodePools[0];
+
+  const byWorkload = new Map<string, WorkloadCost>();
+  let unpricedPods = 0;
+
+  for (const pod of pods.filter(isActivePod)) {
+    const name = getWorkloadName(pod);
+    const requests = getPodRequests(pod);
+    const poolName = getNodePoolName(pod.spec?.nodeName);
+    const pool = (poolName && poolsByName.get(poolName)) || defaultPool;
+    const price = pool ? priceTable.prices[pool.vmSize] : undefined;
+    if (!price) unpricedPods++;
+
+    const entry = byWorkload.get(name) ?? {
+      name,
+      pods: 0,
+      cpuRequestMillicores: 0,
+      memoryRequestBytes: 0,
+      monthlyCost: null,
+      usage: usage[name] ?? null,
+      overProvisioned: [],
+    };
+    entry.pods++;
+    entry.cpuRequestMillicores += requests.cpuMillicores;
+    entry.memoryRequestBytes += requests.memoryBytes;
+    if (price) {
+      entry.monthlyCost =
+        (entry.monthlyCost ?? 0) +
+        monthlyCostOf(requests.cpuMillicores, requests.memoryBytes, price);
+    }
+    byWorkload.set(name, entry);
+  }
+
+  const workloads = [...byWorkload.values()]
+    .map(workload => ({
+      ...workload,
+      overProvisioned: getOverProvisioned(
+        workload.cpuRequestMillicores,
+        workload.memoryRequestBytes,
+        workload.usage
+      ),
+    }))
+    .sort((a, b) => (b.monthlyCost ?? 0) - (a.monthlyCost ?? 0));
+
+  return {
+    workloads,
+    totalMonthlyCost: workloads.reduce((sum, w) => sum + (w.monthlyCost ?? 0), 0),
+    unpricedPods,
+  };
+}
+
+/**
+ * Estimates the monthly cost of a project using its full compute quota.
+ *
+ * @param options.cpuMillicores - CPU quota in millicores.
+ * @param options.memoryMiB - Memory quota in MiB.
+ * @param options.vmSize - VM size the project's pods would run on.
+ * @param options.priceTable - VM prices to use.
+ * @returns The monthly cost, or null if the VM size has no price.
+ */
+export function estimateQuotaCost(options: {
+  cpuMillicores: number;
+  memoryMiB: number;
+  vmSize: string;
+  priceTable: VmPriceTable;
+}): number | null {
+  const price = options.priceTable.prices[options.vmSize];
+  if (!price) return null;
+  return monthlyCostOf(options.cpuMillicores, options.memoryMiB * 1024 ** 2, price);
+}
+
+/** Formats a monthly cost for display, e.g. `$12.34`. */
+export function formatMonthlyCost(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
@@ -0,0 +1,201 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { type ClusterNodePool, getClusterNodePools } from '../../../utils/azure/az-clusters';
+import { getVmRetailPrices } from '../../../utils/azure/az-pricing';
+import { getVmSizes } from '../../../utils/azure/az-subscriptions';
+import { getPrometheusEndpoint } from '../../../utils/prometheus/getPrometheusEndpoint';
+import { queryPrometheus } from '../../../utils/prometheus/queryPrometheus';
+import { useNamespaceLabels } from '../../Metrics/hooks/useNamespaceLabels';
+import { safeParseFloat } from '../../Metrics/utils';
+import {
+  aggregateUsage,
+  estimateProjectCost,
+  type ProjectCostEstimate,
+  type WorkloadUsage,
+} from '../costModel';
+import {
+  buildRefreshedPriceTable,
+  loadPriceTable,
+  savePriceTable,
+  type VmPriceTable,
+} from '../priceTable';
+
+/** Usage is averaged over this window when comparing it with requests. */
+const USAGE_WINDOW_SECONDS = 6 * 60 * 60;
+const USAGE_STEP_SECONDS = 300;
+
+/** Averages each series of a range query, keyed by its `pod` label. */
+function averageByPod(results: any[]): Record<string, number> {
+  const averages: Record<string, number> = {};
+  for (const series of results) {
+    const pod = series.metric?.pod;
+    const values: Array<[number, string]> = series.values ?? [];
+    if (!pod || values.length === 0) continue;
+    averages[pod] = values.reduce((sum, [, v]) => sum + safeParseFloat(v), 0) / values.length;
+  }
+  return averages;
+}
+
+async function fetchUsage(
+  namespace: string,
+  cluster: string,
+  subscription: string,
+  resourceGroup: string,
+  pods: any[]
+): Promise<Record<string, WorkloadUsage>> {
+  const endpoint = await getPrometheusEndpoint(resourceGroup, cluster, subscription);
+  const end = Math.floor(Date.now() / 1000);
+  const start = end - USAGE_WINDOW_SECONDS;
+  const cpuQuery = `sum by (pod) (rate(container_cpu_usage_seconds_total{namespace="${namespace}", container!=""}[5m]))`;
+  const memoryQuery = `sum by (pod) (container_memory_working_set_bytes{namespace="${namespace}", container!=""})`;
+  const [cpuResults, memoryResults] = await Promise.all([
+    queryPrometheus(endpoint, cpuQuery, start, end, USAGE_STEP_SECONDS, subscription),
+    queryPrometheus(endpoint, memoryQuery, start, end, USAGE_STEP_SECONDS, subscription),
+  ]);
+  return aggregateUsage(pods, averageByPod(cpuResults), averageByPod(memoryResults));
+}
+
+/** Result returned by {@link useProjectCost}. */
+export interface UseProjectCostResult {
+  estimate: ProjectCostEstimate | null;
+  /** Price table the estimate uses. */
+  priceTable: VmPriceTable;
+  loading: boolean;
+  error: string | null;
+  /** Whether Prometheus usage was available for over-provisioning checks. */
+  usageAvailable: boolean;
+  refreshingPrices: boolean;
+  /** Looks up current prices for the cluster's VM sizes and stores them. */
+  refreshPrices: () => Promise<void>;
+}
+
+/**
+ * Estimates the monthly cost of a project's workloads from their resource
+ * requests and the prices of the cluster's node pool VM sizes, and compares
+ * the requests with usage from Managed Prometheus.
+ *
+ * @param namespace - The project's namespace.
+ * @param cluster - Cluster the project lives on.
+ */
+export function useProjectCost(
+  namespace: string | undefined,
+  cluster: string | undefined
+): UseProjectCostResult {
+  const { subscription, resourceGroupLabel } = useNamespaceLabels(namespace, cluster);
+  const [pods, setPods] = useState<any[]>([]);
+  const [nodePools, setNodePools] = useState<ClusterNodePool[]>([]);
+  const [location, setLocation] = useState<string | undefined>();
+  const [usage, setUsage] = useState<Record<string, WorkloadUsage> | null>(null);
+  const [priceTable, setPriceTable] = useState<VmPriceTable>(() => loadPriceTable(undefined));
+  const [loaded, setLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshingPrices, setRefreshingPrices] = useState(false);
+  const latestRequestIdRef = useRef(0);
+
+  const fetchCostInputs = useCallback(async () => {
+    if (!namespace || !cluster || !subscription || !resourceGroupLabel) return;
+    const requestId = ++latestRequestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [podList, poolsResult] = await Promise.all([
+        clusterRequest(`/api/v1/namespaces/${namespace}/pods`, { method: 'GET', cluster }),
+        getClusterNodePools({
+          subscriptionId: subscription,
+          resourceGroup: resourceGroupLabel,
+          clusterName: cluster,
+        }),
+      ]);
+      if (requestId !== latestRequestIdRef.current) return;
+      if (!poolsResult.success) {
+        throw new Error(poolsResult.error ?? 'Failed to read node pools');
+      }
+      const items = podList?.items ?? [];
+      setPods(items);
+      setNodePools(poolsResult.pools ?? []);
+      setLocation(poolsResult.location);
+      setPriceTable(loadPriceTable(poolsResult.location));
+      setLoaded(true);
+
+      // Usage only adds the over-provisioning check; the estimate stands without it.
+      try {
+        const workloadUsage = await fetchUsage(
+          namespace,
+          cluster,
+          subscription,
+          resourceGroupLabel,
+          items
+        );
+        if (requestId === latestRequestIdRef.current) setUsage(workloadUsage);
+      } catch (err) {
+        console.warn('Cost: Prometheus usage unavailable:', err);
+        if (requestId === latestRequestIdRef.current) setUsage(null);
+      }
+    } catch (err) {
+      if (requestId !== latestRequestIdRef.current) return;
+      console.error('Cost: Failed to load cost inputs:', err);
+      setError(`Failed to estimate cost: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      if (requestId === latestRequestIdRef.current) setLoading(false);
+    }
+  }, [namespace, cluster, subscription, resourceGroupLabel]);
+
+  useEffect(() => {
+    fetchCostInputs();
+    return () => {
+      latestRequestIdRef.current += 1;
+    };
+  }, [fetchCostInputs]);
+
+  const refreshPrices = async () => {
+    if (!location || !subscription) return;
+    setRefreshingPrices(true);
+    setError(null);
+    try {
+      const vmSizes = [...new Set(nodePools.map(pool => pool.vmSize))];
+      const result = await getVmRetailPrices({ region: location, vmSizes });
+      if (!result.success) {
+        throw new Error(result.error ?? 'Failed to look up VM prices');
+      }
+      // Sizes missing from the bundled table need their vCPU and memory counts.
+      const sizes: Record<string, { vCpus: number; memoryGiB: number }> = {};
+      if (vmSizes.some(size => !priceTable.prices[size])) {
+        const available = await getVmSizes(subscription, location);
+        for (const size of available) {
+          sizes[size.name] = { vCpus: size.cores, memoryGiB: size.memoryInMB / 1024 };
+        }
+      }
+      const table = buildRefreshedPriceTable(priceTable, location, result.prices ?? {}, sizes);
+      savePriceTable(table);
+      setPriceTable(table);
+    } catch (err) {
+      console.error('Cost: Failed to refresh VM prices:', err);
+      setError(
+        `Failed to refresh VM prices: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    } finally {
+      setRefreshingPrices(false);
+    }
+  };
+
+  const estimate = useMemo(
+    () =>
+      loaded ? estimateProjectCost({ pods, nodePools, priceTable, usage: usage ?? {} }) : null,
+    [loaded, pods, nodePools, priceTable, usage]
+  );
+
+  return {
+    estimate,
+    priceTable,
+    loading,
+    error,
+    usageAvailable: usage !== null,
+    refreshingPrices,
+    refreshPrices,
+  };
+}
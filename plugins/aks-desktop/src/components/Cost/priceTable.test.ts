@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, test } from 'vitest';
+import { buildRefreshedPriceTable, loadPriceTable, savePriceTable } from './priceTable';
+
+describe('priceTable', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('falls back to the bundled table', () => {
+    const table = loadPriceTable('westeurope');
+    expect(table.source).toBe('bundled');
+    expect(table.prices.Standard_D4s_v5).toEqual({ hourly: 0.192, vCpus: 4, memoryGiB: 16 });
+  });
+
+  test('ignores malformed stored tables', () => {
+    localStorage.setItem('aks-desktop:vm-prices:westeurope', '{not json');
+    expect(loadPriceTable('westeurope').source).toBe('bundled');
+  });
+
+  test('stores refreshed tables per region', () => {
+    const refreshed = buildRefreshedPriceTable(loadPriceTable(undefined), 'westeurope', {
+      Standard_D4s_v5: 0.2,
+    });
+    savePriceTable(refreshed);
+
+    expect(loadPriceTable('westeurope').prices.Standard_D4s_v5.hourly).toBe(0.2);
+    expect(loadPriceTable('westeurope').source).toBe('retail-api');
+    expect(loadPriceTable('eastus').source).toBe('bundled');
+  });
+
+  test('takes sizes of new VM sizes from the size list and drops unknown ones', () => {
+    const refreshed = buildRefreshedPriceTable(
+      loadPriceTable(undefined),
+      'eastus',
+      { Standard_D32s_v5: 1.536, Standard_Unknown: 1 },
+      { Standard_D32s_v5: { vCpus: 32, memoryGiB: 128 } }
+    );
+    expect(refreshed.prices.Standard_D32s_v5).toEqual({ hourly: 1.536, vCpus: 32, memoryGiB: 128 });
+    expect(refreshed.prices.Standard_Unknown).toBeUndefined();
+  });
+});
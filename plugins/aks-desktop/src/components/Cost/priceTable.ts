@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+const STORAGE_KEY_PREFIX = 'aks-desktop:vm-prices:';
+
+/** Linux pay-as-you-go price and size of a VM. */
+export interface VmPrice {
+  /** Price per hour in the table's currency. */
+  hourly: number;
+  vCpus: number;
+  memoryGiB: number;
+}
+
+/** Hourly VM prices for one Azure region. */
+export interface VmPriceTable {
+  /** ARM region name the prices apply to. */
+  region: string;
+  currency: string;
+  /** When the prices were last looked up (ISO 8601). */
+  updatedAt: string;
+  /** `bundled` for the table that ships with the app, `retail-api` once refreshed. */
+  source: 'bundled' | 'retail-api';
+  /** Prices keyed by VM size, e.g. `Standard_D4s_v5`. */
+  prices: Record<string, VmPrice>;
+}
+
+/**
+ * Node size assumed when a cluster's node pools cannot be read, e.g. before a
+ * project exists. It is a common general-purpose AKS node size.
+ */
+export const DEFAULT_VM_SIZE = 'Standard_D4s_v5';
+
+/**
+ * Prices that ship with the app so estimates work offline. They are East US
+ * list prices; other regions differ by a few percent until refreshed.
+ */
+const BUNDLED_PRICE_TABLE: VmPriceTable = {
+  region: 'eastus',
+  currency: 'USD',
+  updatedAt: '2026-09-01T00:00:00Z',
+  source: 'bundled',
+  prices: {
+    Standard_B2s: { hourly: 0.0416, vCpus: 2, memoryGiB: 4 },
+    Standard_B2ms: { hourly: 0.0832, vCpus: 2, memoryGiB: 8 },
+    Standard_B4ms: { hourly: 0.166, vCpus: 4, memoryGiB: 16 },
+    Standard_D2s_v3: { hourly: 0.096, vCpus: 2, memoryGiB: 8 },
+    Standard_D4s_v3: { hourly: 0.192, vCpus: 4, memoryGiB: 16 },
+    Standard_D8s_v3: { hourly: 0.384, vCpus: 8, memoryGiB: 32 },
+    Standard_D2s_v5: { hourly: 0.096, vCpus: 2, memoryGiB: 8 },
+    Standard_D4s_v5: { hourly: 0.192, vCpus: 4, memoryGiB: 16 },
+    Standard_D8s_v5: { hourly: 0.384, vCpus: 8, memoryGiB: 32 },
+    Standard_D16s_v5: { hourly: 0.768, vCpus: 16, memoryGiB: 64 },
+    Standard_D2ds_v5: { hourly: 0.113, vCpus: 2, memoryGiB: 8 },
+    Standard_D4ds_v5: { hourly: 0.226, vCpus: 4, memoryGiB: 16 },
+    Standard_D8ds_v5: { hourly: 0.452, vCpus: 8, memoryGiB: 32 },
+    Standard_D2as_v5: { hourly: 0.086, vCpus: 2, memoryGiB: 8 },
+    Standard_D4as_v5: { hourly: 0.172, vCpus: 4, memoryGiB: 16 },
+    Standard_D8as_v5: { hourly: 0.344, vCpus: 8, memoryGiB: 32 },
+    Standard_DS2_v2: { hourly: 0.146, vCpus: 2, memoryGiB: 7 },
+    Standard_DS3_v2: { hourly: 0.293, vCpus: 4, memoryGiB: 14 },
+    Standard_DS4_v2: { hourly: 0.585, vCpus: 8, memoryGiB: 28 },
+    Standard_E2s_v5: { hourly: 0.126, vCpus: 2, memoryGiB: 16 },
+    Standard_E4s_v5: { hourly: 0.252, vCpus: 4, memoryGiB: 32 },
+    Standard_E8s_v5: { hourly: 0.504, vCpus: 8, memoryGiB: 64 },
+    Standard_F4s_v2: { hourly: 0.169, vCpus: 4, memoryGiB: 8 },
+    Standard_F8s_v2: { hourly: 0.338, vCpus: 8, memoryGiB: 16 },
+  },
+};
+
+function isVmPriceTable(value: unknown): value is VmPriceTable {
+  const table = value as Partial<VmPriceTable> | null;
+  return (
+    !!table &&
+    typeof table.region === 'string' &&
+    typeof table.currency === 'string' &&
+    typeof table.updatedAt === 'string' &&
+    !!table.prices &&
+    typeof table.prices === 'object'
+  );
+}
+
+/**
+ * Returns the price table for a region: the last refreshed table if there is
+ * one, otherwise the bundled table.
+ *
+ * @param region - ARM region name, e.g. `westeurope`.
+ */
+export function loadPriceTable(region: string | undefined): VmPriceTable {
+  if (!region) return BUNDLED_PRICE_TABLE;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + region);
+    if (!stored) return BUNDLED_PRICE_TABLE;
+    const parsed = JSON.parse(stored);
+    return isVmPriceTable(parsed) ? parsed : BUNDLED_PRICE_TABLE;
+  } catch (e) {
+    console.warn('Failed to parse VM price table from localStorage:', e);
+    return BUNDLED_PRICE_TABLE;
+  }
+}
+
+/** Persists a refreshed price table for its region. */
+export function savePriceTable(table: VmPriceTable): void {
+  localStorage.setItem(STORAGE_KEY_PREFIX + table.region, JSON.stringify(table));
+}
+
+/**
+ * Builds a refreshed price table for a region from looked-up hourly prices.
+ * Sizes are taken from `sizes`, falling back to the base table; a price whose
+ * size is unknown is dropped since it cannot be split into CPU and memory.
+ *
+ * @param base - The table being refreshed.
+ * @param region - Region the prices were looked up for.
+ * @param hourlyPrices - Hourly prices keyed by VM size.
+ * @param sizes - vCPU and memory of VM sizes, e.g. from `az vm list-sizes`.
+ */
+export function buildRefreshedPriceTable(
+  base: VmPriceTable,
+  region: string,
+  hourlyPrices: Record<string, number>,
+  sizes: Record<string, { vCpus: number; memoryGiB: number }> = {}
+): VmPriceTable {
+  const prices: Record<string, VmPrice> = { ...base.prices };
+  for (const [vmSize, hourly] of Object.entries(hourlyPrices)) {
+    const size = sizes[vmSize] ?? base.prices[vmSize];
+    if (!size) continue;
+    prices[vmSize] = { hourly, vCpus: size.vCpus, memoryGiB: size.memoryGiB };
+  }
+  return {
+    region,
+    currency: 'USD',
+    updatedAt: new Date().toISOString(),
+    source: 'retail-api',
+    prices,
+  };
+}
@@ -4,6 +4,10 @@
 import React from 'react';
 import { useHistory } from 'react-router-dom';
 import AzureAuthGuard from '../AzureAuth/AzureAuthGuard';
+import { QuotaCostEstimate } from '../Cost/QuotaCostEstimate';
+import { ImportBundlePanel } from '../ProjectBundle/ImportBundlePanel';
+import { SaveTemplateButton } from '../ProjectTemplates/SaveTemplateButton';
+import { TemplatePickerPanel } from '../ProjectTemplates/TemplatePickerPanel';
 import { ComputeStep } from '../shared/ComputeStep';
 import { NetworkingStep } from '../shared/NetworkingStep';
 import { AccessStep } from './components/AccessStep';
@@ -37,40 +41,56 @@ function CreateAKSProject() {
     switch (step) {
       case 0:
         return (
-          <BasicsStep
-            {...commonProps}
-            subscriptions={wizard.azureResources.subscriptions}
-            clusters={wizard.azureResources.clusters}
-            totalClusterCount={wizard.azureResources.totalClusterCount}
-            loadingClusters={wizard.azureResources.loadingClusters}
-            clusterError={wizard.azureResources.clusterError}
-            extensionStatus={wizard.extensionStatus}
-            featureStatus={wizard.featureStatus}
-            namespaceStatus={wizard.namespaceCheck}
-            clusterCapabilities={wizard.clusterCapabilities.capabilities}
-            capabilitiesLoading={wizard.clusterCapabilities.loading}
-            onInstallExtension={wizard.extensionStatus.installExtension}
-            onRegisterFeature={wizard.featureStatus.registerFeature}
-            onRetrySubscriptions={async () => {
-              await wizard.azureResources.fetchSubscriptions();
-            }}
-            onRetryClusters={async () => {
-              await wizard.azureResources.fetchClusters(wizard.formData.subscription);
-            }}
-            onRefreshCapabilities={() => {
-              if (
-                wizard.formData.cluster &&
-                wizard.formData.subscription &&
-                wizard.formData.resourceGroup
-              ) {
-                wizard.clusterCapabilities.fetchCapabilities(
-                  wizard.formData.subscription,
-                  wizard.formData.resourceGroup,
-                  wizard.formData.cluster
-                );
-              }
-            }}
-          />
+          <>
+            <TemplatePickerPanel
+              templates={wizard.projectTemplates}
+              appliedTemplate={wizard.appliedTemplate}
+              error={wizard.templateError}
+              onApply={wizard.applyTemplate}
+              onImport={wizard.importTemplate}
+              onClear={wizard.clearAppliedTemplate}
+            />
+            <ImportBundlePanel
+              bundle={wizard.importedBundle}
+              error={wizard.bundleError}
+              onImport={wizard.importBundle}
+              onClear={wizard.clearImportedBundle}
+            />
+            <BasicsStep
+              {...commonProps}
+              subscriptions={wizard.azureResources.subscriptions}
+              clusters={wizard.azureResources.clusters}
+              totalClusterCount={wizard.azureResources.totalClusterCount}
+              loadingClusters={wizard.azureResources.loadingClusters}
+              clusterError={wizard.azureResources.clusterError}
+              extensionStatus={wizard.extensionStatus}
+              featureStatus={wizard.featureStatus}
+              namespaceStatus={wizard.namespaceCheck}
+              clusterCapabilities={wizard.clusterCapabilities.capabilities}
+              capabilitiesLoading={wizard.clusterCapabilities.loading}
+              onInstallExtension={wizard.extensionStatus.installExtension}
+              onRegisterFeature={wizard.featureStatus.registerFeature}
+              onRetrySubscriptions={async () => {
+                await wizard.azureResources.fetchSubscriptions();
+              }}
+              onRetryClusters={async () => {
+                await wizard.azureResources.fetchClusters(wizard.formData.subscription);
+              }}
+              onRefreshCapabilities={() => {
+                if (
+                  wizard.formData.cluster &&
+                  wizard.formData.subscription &&
+                  wizard.formData.resourceGroup
+                ) {
+                  wizard.clusterCapabilities.fetchCapabilities(
+                    wizard.formData.subscription,
+                    wizard.formData.resourceGroup,
+                    wizard.formData.cluster
+                  );
+                }
+              }}
+            />
+          </>
         );
       case 1:
         return <NetworkingStep {...commonProps} />;
@@ -80,11 +100,30 @@ function CreateAKSProject() {
         return <AccessStep {...commonProps} />;
       case 4:
         return (
-          <ReviewStep
-            {...commonProps}
-            subscriptions={wizard.azureResources.subscriptions}
-            clusters={wizard.azureResources.clusters}
-          />
+          <>
+            <ReviewStep
+              {...commonProps}
+              subscriptions={wizard.azureResources.subscriptions}
+              clusters={wizard.azureResources.clusters}
+            />
+            <QuotaCostEstimate
+              subscriptionId={wizard.formData.subscription}
+              resourceGroup={wizard.formData.resourceGroup}
+              clusterName={wizard.formData.cluster}
+              location={
+                wizard.azureResources.clusters.find(c => c.name === wizard.formData.cluster)
+                  ?.location
+              }
+              cpuMillicores={wizard.formData.cpuRequest}
+              memoryMiB={wizard.formData.memoryRequest}
+            />
+            <SaveTemplateButton
+              templates={wizard.projectTemplates}
+              cluster={wizard.isClusterMissing ? undefined : wizard.formData.cluster || undefined}
+              starterWorkloadCount={wizard.starterWorkloads.length}
+              buildTemplate={wizard.buildTemplate}
+            />
+          </>
         );
       default:
         return null;
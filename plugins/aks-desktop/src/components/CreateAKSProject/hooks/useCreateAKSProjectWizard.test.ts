@@ -50,6 +50,24 @@ vi.mock('../../../utils/azure/checkAzureCli', () => ({
   checkAzureCliAndAksPreview: vi.fn().mockResolvedValue({ suggestions: [] }),
 }));
 
+vi.mock('../../ProjectBundle/projectBundleIO', () => ({
+  applyBundleWorkloads: vi.fn(),
+  applyWorkloads: vi.fn(),
+}));
+
+vi.mock('../../ProjectTemplates/hooks/useProjectTemplates', () => ({
+  useProjectTemplates: () => ({
+    localTemplates: [],
+    sharedTemplates: [],
+    loadingShared: false,
+    sharedError: null,
+    saving: false,
+    saveError: null,
+    saveTemplate: vi.fn(),
+    deleteTemplate: vi.fn(),
+  }),
+}));
+
 vi.mock('./useAzureResources', () => ({
   useAzureResources: () => ({
     subscriptions: [],
@@ -126,6 +144,7 @@ import {
   verifyNamespaceAccess,
 } from '../../../utils/azure/az-namespace-access';
 import { createManagedNamespace } from '../../../utils/azure/az-namespaces';
+import { applyBundleWorkloads, applyWorkloads } from '../../ProjectBundle/projectBundleIO';
 import { useCreateAKSProjectWizard } from './useCreateAKSProjectWizard';
 import { useFormData } from './useFormData';
 
@@ -144,6 +163,28 @@ const defaultFormData = {
   userAssignments: [],
 };
 
+const bundleText = JSON.stringify({
+  kind: 'AKSDesktopProjectBundle',
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  project: { name: 'imported', source: { cluster: 'source-cluster' } },
+  quota: { cpuRequest: 1000, cpuLimit: 2000, memoryRequest: 1024, memoryLimit: 2048 },
+  networkPolicy: { ingress: 'AllowAll', egress: 'AllowAll' },
+  access: [],
+  workloads: [{ apiVersion: 'v1', kind: 'ConfigMap', metadata: { name: 'settings' } }],
+  excludedSecrets: [],
+});
+
+const templateText = JSON.stringify({
+  kind: 'AKSDesktopProjectTemplate',
+  version: 1,
+  name: 'Team default',
+  quota: { cpuRequest: 500, cpuLimit: 1000, memoryRequest: 512, memoryLimit: 1024 },
+  networkPolicy: { ingress: 'DenyAll', egress: 'AllowSameNamespace' },
+  access: [{ objectId: 'group-1', principalType: 'Group', role: 'Reader' }],
+  starterWorkloads: [{ apiVersion: 'v1', kind: 'ServiceAccount', metadata: { name: 'app' } }],
+});
+
 describe('useCreateAKSProjectWizard', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -241,6 +282,123 @@ describe('useCreateAKSProjectWizard', () => {
     });
   }, 10000);
 
+  it('importBundle prefills the form and keeps the bundle', () => {
+    const updateFormData = vi.fn();
+    vi.mocked(useFormData).mockReturnValue({
+      formData: defaultFormData,
+      updateFormData,
+      resetFormData: vi.fn(),
+      setFormDataField: vi.fn(),
+    } as any);
+    const { result } = renderHook(() => useCreateAKSProjectWizard());
+
+    act(() => {
+      result.current.importBundle(bundleText);
+    });
+
+    expect(updateFormData).toHaveBeenCalledWith(
+      expect.objectContaining({ projectName: 'imported', cpuLimit: 2000, ingress: 'AllowAll' })
+    );
+    expect(result.current.importedBundle?.workloads).toHaveLength(1);
+    expect(result.current.bundleError).toBeNull();
+
+    act(() => {
+      result.current.clearImportedBundle();
+    });
+    expect(result.current.importedBundle).toBeNull();
+  });
+
+  it('importBundle reports an error for an invalid file', () => {
+    const { result } = renderHook(() => useCreateAKSProjectWizard());
+
+    act(() => {
+      result.current.importBundle('not json');
+    });
+
+    expect(result.current.importedBundle).toBeNull();
+    expect(result.current.bundleError).toMatch(/^Could not import project bundle: /);
+  });
+
+  it('handleSubmit applies imported workloads and reports failures', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: false });
+    vi.mocked(createManagedNamespace).mockResolvedValue({ success: true } as any);
+    vi.mocked(checkNamespaceExists).mockResolvedValue({ exists: true } as any);
+    vi.mocked(applyBundleWorkloads).mockResolvedValue(['ConfigMap/settings: forbidden']);
+
+    const { result } = renderHook(() => useCreateAKSProjectWizard());
+    act(() => {
+      result.current.importBundle(bundleText);
+    });
+
+    await act(async () => {
+      const submitPromise = result.current.handleSubmit();
+      await vi.advanceTimersByTimeAsync(7000);
+      await submitPromise;
+    });
+
+    expect(applyBundleWorkloads).toHaveBeenCalledWith(
+      expect.objectContaining({ namespace: 'test-project', cluster: '' })
+    );
+    expect(result.current.creationError).toContain('ConfigMap/settings: forbidden');
+    expect(result.current.showSuccessDialog).toBe(false);
+  }, 10000);
+
+  it('importTemplate prefills the form but keeps the project name', () => {
+    const updateFormData = vi.fn();
+    vi.mocked(useFormData).mockReturnValue({
+      formData: defaultFormData,
+      updateFormData,
+      resetFormData: vi.fn(),
+      setFormDataField: vi.fn(),
+    } as any);
+    const { result } = renderHook(() => useCreateAKSProjectWizard());
+
+    act(() => {
+      result.current.importTemplate(templateText);
+    });
+
+    const updates = updateFormData.mock.calls[0][0];
+    expect(updates).toMatchObject({
+      ingress: 'DenyAll',
+      cpuRequest: 500,
+      userAssignments: [{ objectId: 'group-1', principalType: 'Group', role: 'Reader' }],
+    });
+    expect(updates).not.toHaveProperty('projectName');
+    expect(result.current.appliedTemplate?.name).toBe('Team default');
+    expect(result.current.starterWorkloads).toHaveLength(1);
+
+    act(() => {
+      result.current.importTemplate('{"kind":"Other"}');
+    });
+    expect(result.current.templateError).toMatch(/^Could not import project template: /);
+  });
+
+  it('handleSubmit applies the starter workloads of the applied template', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: false });
+    vi.mocked(createManagedNamespace).mockResolvedValue({ success: true } as any);
+    vi.mocked(checkNamespaceExists).mockResolvedValue({ exists: true } as any);
+    vi.mocked(applyWorkloads).mockResolvedValue([]);
+
+    const { result } = renderHook(() => useCreateAKSProjectWizard());
+    act(() => {
+      result.current.importTemplate(templateText);
+    });
+
+    await act(async () => {
+      const submitPromise = result.current.handleSubmit();
+      await vi.advanceTimersByTimeAsync(7000);
+      await submitPromise;
+    });
+
+    expect(applyWorkloads).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workloads: [expect.objectContaining({ kind: 'ServiceAccount' })],
+        namespace: 'test-project',
+      })
+    );
+    expect(result.current.showSuccessDialog).toBe(true);
+  }, 10000);
+
   it('handleSubmit error path: sets creationError when createManagedNamespace fails', async () => {
     vi.mocked(createManagedNamespace).mockResolvedValue({
       success: false,
@@ -16,6 +16,22 @@ import {
   RESOURCE_GROUP_LABEL,
   SUBSCRIPTION_LABEL,
 } from '../../../utils/constants/projectLabels';
+import {
+  bundleToFormData,
+  parseProjectBundle,
+  type ProjectBundle,
+} from '../../ProjectBundle/bundle';
+import { applyBundleWorkloads, applyWorkloads } from '../../ProjectBundle/projectBundleIO';
+import {
+  useProjectTemplates,
+  type UseProjectTemplatesResult,
+} from '../../ProjectTemplates/hooks/useProjectTemplates';
+import {
+  formDataToTemplate,
+  parseProjectTemplate,
+  type ProjectTemplate,
+  templateToFormData,
+} from '../../ProjectTemplates/template';
 import { STEPS } from '../types';
 import { useAzureResources } from './useAzureResources';
 import { useClusterCapabilities } from './useClusterCapabilities';
@@ -117,6 +133,44 @@ export interface UseCreateAKSProjectWizardResult {
   isClusterMissing: boolean | undefined;
   /** Ref object for the step content container, used to manage focus and scroll position. */
   stepContentRef: React.RefObject<HTMLDivElement>;
+
+  // ── Bundle import ─────────────────────────────────────────────────────────
+  /**
+   * Project bundle the form was prefilled from. Its workloads are applied
+   * to the new namespace after user access has been assigned.
+   */
+  importedBundle: ProjectBundle | null;
+  /** Error message from the last rejected bundle file, or `null`. */
+  bundleError: string | null;
+  /** Parses bundle file contents and prefills the form from them. */
+  importBundle: (text: string) => void;
+  /** Forgets the imported bundle; values already copied into the form are kept. */
+  clearImportedBundle: () => void;
+
+  // ── Templates ─────────────────────────────────────────────────────────────
+  /** Templates saved on this device and shared in the selected cluster. */
+  projectTemplates: UseProjectTemplatesResult;
+  /**
+   * Template the form was prefilled from. Its starter workloads are applied
+   * to the new namespace after user access has been assigned.
+   */
+  appliedTemplate: ProjectTemplate | null;
+  /** Error message from the last rejected template file, or `null`. */
+  templateError: string | null;
+  /** Prefills networking, quota and access from a template. */
+  applyTemplate: (template: ProjectTemplate) => void;
+  /** Parses template file contents and prefills the form from them. */
+  importTemplate: (text: string) => void;
+  /** Forgets the applied template; values already copied into the form are kept. */
+  clearAppliedTemplate: () => void;
+  /** Starter workloads a template saved now would include. */
+  starterWorkloads: Array<Record<string, any>>;
+  /** Builds a template from the current form values. */
+  buildTemplate: (options: {
+    name: string;
+    description: string;
+    includeStarterWorkloads: boolean;
+  }) => ProjectTemplate;
 }
 
 /**
@@ -141,6 +195,10 @@ export function useCreateAKSProjectWizard(): UseCreateAKSProjectWizardResult {
   const [applicationName, setApplicationName] = useState('');
   const terminalTrackedRef = useRef(false);
   const [cliSuggestions, setCliSuggestions] = useState<string[]>([]);
+  const [importedBundle, setImportedBundle] = useState<ProjectBundle | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = useState<ProjectTemplate | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
   const stepContentRef = useRef<HTMLDivElement>(null);
 
   // Track the 2-second success-dialog delay timer so it can be cleared on unmount,
@@ -164,6 +222,9 @@ export function useCreateAKSProjectWizard(): UseCreateAKSProjectWizardResult {
     Object.values(clustersConf).find((it: any) => it.name === formData.cluster) === undefined
       ? true
       : undefined;
+  const projectTemplates = useProjectTemplates(
+    formData.cluster && !isClusterMissing ? formData.cluster : undefined
+  );
 
   const validation = useValidation(
     activeStep,
@@ -451,6 +512,50 @@ export function useCreateAKSProjectWizard(): UseCreateAKSProjectWizardResult {
           throw new Error(errorMessage);
         }
 
+        if (importedBundle && importedBundle.workloads.length > 0) {
+          setCreationProgress(`${t('Applying workloads from the project bundle')}...`);
+          const workloadErrors = await applyBundleWorkloads({
+            bundle: importedBundle,
+            namespace: formData.projectName,
+            cluster: formData.cluster,
+            onProgress: msg => {
+              if (!aborted) setCreationProgress(msg);
+            },
+          });
+
+          if (aborted) return;
+
+          if (workloadErrors.length > 0) {
+            throw new Error(
+              `${t(
+                'Some workloads from the project bundle could not be applied'
+              )}\n${workloadErrors.join('\n')}`
+            );
+          }
+        }
+
+        if (appliedTemplate && appliedTemplate.starterWorkloads.length > 0) {
+          setCreationProgress(`${t('Applying starter workloads from the template')}...`);
+          const workloadErrors = await applyWorkloads({
+            workloads: appliedTemplate.starterWorkloads,
+            namespace: formData.projectName,
+            cluster: formData.cluster,
+            onProgress: msg => {
+              if (!aborted) setCreationProgress(msg);
+            },
+          });
+
+          if (aborted) return;
+
+          if (workloadErrors.length > 0) {
+            throw new Error(
+              `${t(
+                'Some starter workloads from the template could not be applied'
+              )}\n${workloadErrors.join('\n')}`
+            );
+          }
+        }
+
         setCreationProgress(t('Project creation completed successfully!'));
 
         setCreationProgress(`${t('Performing final status verification')}...`);
@@ -576,6 +681,65 @@ export function useCreateAKSProjectWizard(): UseCreateAKSProjectWizardResult {
     }
   };
 
+  const importBundle = (text: string) => {
+    try {
+      const bundle = parseProjectBundle(text);
+      updateFormData(bundleToFormData(bundle));
+      setImportedBundle(bundle);
+      setBundleError(null);
+    } catch (error) {
+      setBundleError(
+        t('Could not import project bundle: {{message}}', {
+          message: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  };
+
+  const clearImportedBundle = () => {
+    setImportedBundle(null);
+    setBundleError(null);
+  };
+
+  const applyTemplate = (template: ProjectTemplate) => {
+    updateFormData(templateToFormData(template));
+    setAppliedTemplate(template);
+    setTemplateError(null);
+  };
+
+  const importTemplate = (text: string) => {
+    try {
+      applyTemplate(parseProjectTemplate(text));
+    } catch (error) {
+      setTemplateError(
+        t('Could not import project template: {{message}}', {
+          message: error instanceof Error ? error.message : String(error),
+        })
+      );
+    }
+  };
+
+  const clearAppliedTemplate = () => {
+    setAppliedTemplate(null);
+    setTemplateError(null);
+  };
+
+  const starterWorkloads = [
+    ...(appliedTemplate?.starterWorkloads ?? []),
+    ...(importedBundle?.workloads ?? []),
+  ];
+
+  const buildTemplate = (options: {
+    name: string;
+    description: string;
+    includeStarterWorkloads: boolean;
+  }) =>
+    formDataToTemplate(formData, {
+      name: options.name,
+      description: options.description,
+      starterWorkloads: options.includeStarterWorkloads ? starterWorkloads : [],
+    });
+
   const onBack = () => {
     if (!terminalTrackedRef.current) {
       terminalTrackedRef.current = true;
@@ -612,5 +776,17 @@ export function useCreateAKSProjectWizard(): UseCreateAKSProjectWizardResult {
     validation,
     isClusterMissing,
     stepContentRef,
+    importedBundle,
+    bundleError,
+    importBundle,
+    clearImportedBundle,
+    projectTemplates,
+    appliedTemplate,
+    templateError,
+    applyTemplate,
+    importTemplate,
+    clearAppliedTemplate,
+    starterWorkloads,
+    buildTemplate,
   };
 }
@@ -27,8 +27,12 @@ export interface UserAssignment {
   objectId: string;
   displayName?: string;
   role: string;
+  /** Kind of principal; assignments are made for users unless set. */
+  principalType?: PrincipalType;
 }
 
+export type PrincipalType = 'User' | 'Group';
+
 export interface FormData {
   // Basics
   projectName: string;
@@ -198,3 +202,8 @@ export function mapUIRoleToAzureRole(uiRole: string): string {
 
   return roleMap[uiRole] || uiRole; // Fallback to original if not found
 }
+
+// Map Azure RBAC role names back to UI role names; null for any other role
+export function mapAzureRoleToUIRole(azureRole: string): RoleType | null {
+  return AVAILABLE_ROLES.find(role => mapUIRoleToAzureRole(role) === azureRole) ?? null;
+}
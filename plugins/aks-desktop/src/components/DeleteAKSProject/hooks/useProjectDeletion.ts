@@ -13,6 +13,7 @@ import {
   RESOURCE_GROUP_LABEL,
   SUBSCRIPTION_LABEL,
 } from '../../../utils/constants/projectLabels';
+import { trackActivity } from '../../../utils/shared/activityLog';
 import type { ProjectDefinition } from '../AKSProjectDeleteButton';
 
 /**
@@ -50,6 +51,15 @@ export function useProjectDeletion() {
           const labels = ns.metadata?.labels || {};
           const isAKSManaged = labels[PROJECT_MANAGED_BY_LABEL] === PROJECT_MANAGED_BY_VALUE;
           const nsName = ns.metadata?.name || '';
+          const track = (operation: string, run: () => Promise<unknown>) =>
+            trackActivity(
+              {
+                channel: 'kubernetes',
+                operation,
+                target: { cluster: project.clusters[0], namespace: nsName },
+              },
+              run
+            );
 
           if (isAKSManaged) {
             const resourceGroup = labels[RESOURCE_GROUP_LABEL];
@@ -75,10 +85,12 @@ export function useProjectDeletion() {
 
             if (deleteNamespaces) {
               // Delete the Kubernetes namespace
-              await (K8s.ResourceClasses.Namespace.apiEndpoint as ApiClient<KubeNamespace>).delete(
-                nsName,
-                {},
-                project.clusters[0]
+              await track('Delete namespace', () =>
+                (K8s.ResourceClasses.Namespace.apiEndpoint as ApiClient<KubeNamespace>).delete(
+                  nsName,
+                  {},
+                  project.clusters[0]
+                )
               );
             } else {
               // Re-fetch namespace to get latest resourceVersion after ARM call modified it
@@ -100,16 +112,14 @@ export function useProjectDeletion() {
                 delete updatedData.metadata.labels[SUBSCRIPTION_LABEL];
                 delete updatedData.metadata.labels[RESOURCE_GROUP_LABEL];
               }
-              await K8s.ResourceClasses.Namespace.apiEndpoint.put(
-                updatedData,
-                {},
-                project.clusters[0]
+              await track('Remove project labels', () =>
+                K8s.ResourceClasses.Namespace.apiEndpoint.put(updatedData, {}, project.clusters[0])
               );
             }
           } else {
             // Regular namespace (not AKS managed)
             if (deleteNamespaces) {
-              await ns.delete();
+              await track('Delete namespace', () => ns.delete());
             } else {
               // Remove project labels
               const updatedData = { ...ns.jsonData };
@@ -117,10 +127,8 @@ export function useProjectDeletion() {
                 delete updatedData.metadata.labels[PROJECT_ID_LABEL];
                 delete updatedData.metadata.labels[PROJECT_MANAGED_BY_LABEL];
               }
-              await K8s.ResourceClasses.Namespace.apiEndpoint.put(
-                updatedData,
-                {},
-                project.clusters[0]
+              await track('Remove project labels', () =>
+                K8s.ResourceClasses.Namespace.apiEndpoint.put(updatedData, {}, project.clusters[0])
               );
             }
           }
@@ -35,7 +35,10 @@ import {
 } from '../hooks/useClusterDeployStatus';
 import { usePipelineStatus } from '../hooks/usePipelineStatus';
 import { extractContainerConfigFromDeployment } from '../utils/extractContainerConfig';
+import { findRollouts } from '../utils/rollouts';
 import { PipelineDeployDialog } from './PipelineDeployDialog';
+import { RevisionHistoryDialog } from './RevisionHistoryDialog';
+import { RolloutPanel } from './RolloutPanel';
 
 function getDeploymentHealth(
   t: (key: string) => string,
@@ -93,6 +96,7 @@ export function ClusterDeployCard({ cluster, namespace, pipelineEnabled }: Clust
   const [manualDeployOpen, setManualDeployOpen] = useState(false);
   const [pipelineDeployRepo, setPipelineDeployRepo] = useState<GitHubRepo | null>(null);
   const [editingDeployment, setEditingDeployment] = useState<DeploymentStatus | null>(null);
+  const [historyDeployment, setHistoryDeployment] = useState<string | null>(null);
   const { isManagedNamespace, azureRbacEnabled } = useNamespaceCapabilities({
     subscriptionId: azureContext?.subscriptionId,
     resourceGroup: azureContext?.resourceGroup,
@@ -109,6 +113,8 @@ export function ClusterDeployCard({ cluster, namespace, pipelineEnabled }: Clust
     );
   }, [editingDeployment, services]);
 
+  const rollouts = useMemo(() => findRollouts(deployments, services), [deployments, services]);
+
   const handleEditManual = (d: DeploymentStatus) => {
     setEditingDeployment(d);
     setManualDeployOpen(true);
@@ -191,6 +197,14 @@ export function ClusterDeployCard({ cluster, namespace, pipelineEnabled }: Clust
 
         {!loading && !error && (
           <>
+            {rollouts.map(rollout => (
+              <RolloutPanel
+                key={rollout.candidate.name}
+                cluster={cluster}
+                namespace={namespace}
+                rollout={rollout}
+              />
+            ))}
             {deployments.length === 0 ? (
               <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
                 {t('No deployments found in this namespace.')}
@@ -236,6 +250,11 @@ export function ClusterDeployCard({ cluster, namespace, pipelineEnabled }: Clust
                           <Chip label={health.label} size="small" color={health.color} />
                         </TableCell>
                         <TableCell align="right">
+                          <Tooltip title={t('Revision history')}>
+                            <IconButton size="small" onClick={() => setHistoryDeployment(d.name)}>
+                              <Icon icon="mdi:history" aria-hidden="true" />
+                            </IconButton>
+                          </Tooltip>
                           {d.provenance === 'manual' && (
                             <Tooltip title={t('Edit deployment')}>
                               <IconButton size="small" onClick={() => handleEditManual(d)}>
@@ -300,6 +319,16 @@ export function ClusterDeployCard({ cluster, namespace, pipelineEnabled }: Clust
         />
       </Dialog>
 
+      {historyDeployment && (
+        <RevisionHistoryDialog
+          open
+          onClose={() => setHistoryDeployment(null)}
+          cluster={cluster}
+          namespace={namespace}
+          deploymentName={historyDeployment}
+        />
+      )}
+
       {pipelineDeployRepo && azureContext && (
         <PipelineDeployDialog
           open
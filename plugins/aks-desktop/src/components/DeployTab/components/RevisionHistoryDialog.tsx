@@ -0,0 +1,267 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useMemo, useState } from 'react';
+import { openExternalUrl } from '../../../utils/shared/openExternalUrl';
+import { useDeploymentRevisions } from '../hooks/useDeploymentRevisions';
+import {
+  type DeploymentRevision,
+  diffLines,
+  getCommitUrl,
+  revisionToYaml,
+} from '../utils/revisions';
+import { TextDiff } from './TextDiff';
+
+function SpecDiff({ left, right }: { left: DeploymentRevision; right: DeploymentRevision }) {
+  const { t } = useTranslation();
+  const rows = useMemo(() => diffLines(revisionToYaml(left), revisionToYaml(right)), [left, right]);
+
+  if (rows.every(row => row.type === 'same')) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {t('The pod templates of these revisions are identical.')}
+      </Typography>
+    );
+  }
+
+  return <TextDiff rows={rows} />;
+}
+
+function RevisionSource({ revision }: { revision: DeploymentRevision }) {
+  const { t } = useTranslation();
+  const commitUrl = getCommitUrl(revision);
+
+  if (!revision.pipelineRunUrl) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        —
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column' }}>
+      <Link
+        component="button"
+        variant="body2"
+        onClick={() => openExternalUrl(revision.pipelineRunUrl ?? '')}
+      >
+        {revision.pipelineWorkflow ?? t('Workflow run')}
+      </Link>
+      {revision.pipelineCommit && (
+        <Link
+          component="button"
+          variant="body2"
+          disabled={!commitUrl}
+          onClick={() => commitUrl && openExternalUrl(commitUrl)}
+          sx={{ fontFamily: 'monospace' }}
+        >
+          {revision.pipelineCommit.slice(0, 7)}
+        </Link>
+      )}
+    </Box>
+  );
+}
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  cluster: string;
+  namespace: string;
+  deploymentName: string;
+}
+
+/**
+ * Lists the revisions of a Deployment with the image, change cause and
+ * pipeline run of each, compares the pod templates of any two revisions side
+ * by side, and rolls the Deployment back to a chosen revision.
+ */
+export function RevisionHistoryDialog({
+  open,
+  onClose,
+  cluster,
+  namespace,
+  deploymentName,
+}: RevisionHistoryDialogProps) {
+  const { t } = useTranslation();
+  const { revisions, loading, error, rollingBack, rollback } = useDeploymentRevisions(
+    cluster,
+    namespace,
+    open ? deploymentName : undefined
+  );
+  const [compareFrom, setCompareFrom] = useState<number | ''>('');
+  const [compareTo, setCompareTo] = useState<number | ''>('');
+  const [pendingRollback, setPendingRollback] = useState<DeploymentRevision | null>(null);
+
+  // Compare the previous revision with the current one by default.
+  useEffect(() => {
+    if (revisions.length === 0) return;
+    const current = revisions.find(r => r.current) ?? revisions[0];
+    const previous = revisions.find(r => r.revision < current.revision);
+    setCompareTo(current.revision);
+    setCompareFrom(previous?.revision ?? current.revision);
+  }, [revisions]);
+
+  const fromRevision = revisions.find(r => r.revision === compareFrom);
+  const toRevision = revisions.find(r => r.revision === compareTo);
+
+  const handleConfirmRollback = async () => {
+    if (!pendingRollback) return;
+    await rollback(pendingRollback);
+    setPendingRollback(null);
+  };
+
+  const revisionSelect = (label: string, value: number | '', onChange: (value: number) => void) => (
+    <TextField
+      select
+      size="small"
+      label={label}
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+      sx={{ minWidth: 160 }}
+    >
+      {revisions.map(r => (
+        <MenuItem key={r.revision} value={r.revision}>
+          {t('Revision {{revision}}', { revision: r.revision })}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>{t('Revision history: {{name}}', { name: deploymentName })}</DialogTitle>
+      <DialogContent>
+        {loading && revisions.length === 0 && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {pendingRollback && (
+          <Alert
+            severity="warning"
+            sx={{ mb: 2 }}
+            action={
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button color="inherit" size="small" onClick={() => setPendingRollback(null)}>
+                  {t('Cancel')}
+                </Button>
+                <Button
+                  color="inherit"
+                  size="small"
+                  disabled={rollingBack}
+                  onClick={handleConfirmRollback}
+                >
+                  {rollingBack ? `${t('Rolling back')}...` : t('Roll back')}
+                </Button>
+              </Box>
+            }
+          >
+            {t(
+              'Roll back {{name}} to revision {{revision}}? Pods are replaced with the pod template of that revision.',
+              { name: deploymentName, revision: pendingRollback.revision }
+            )}
+          </Alert>
+        )}
+
+        {!loading && !error && revisions.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {t('No revisions found for this deployment.')}
+          </Typography>
+        )}
+
+        {revisions.length > 0 && (
+          <>
+            <Table size="small" sx={{ mb: 3 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>{t('Revision')}</TableCell>
+                  <TableCell>{t('Created')}</TableCell>
+                  <TableCell>{t('Image')}</TableCell>
+                  <TableCell>{t('Change cause')}</TableCell>
+                  <TableCell>{t('Pipeline run')}</TableCell>
+                  <TableCell align="right">{t('Actions')}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {revisions.map(r => (
+                  <TableRow key={r.revision} selected={r.current}>
+                    <TableCell>
+                      {r.revision}
+                      {r.current && (
+                        <Chip label={t('Current')} size="small" color="primary" sx={{ ml: 1 }} />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {r.createdAt ? new Date(r.createdAt).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {r.images.join(', ')}
+                    </TableCell>
+                    <TableCell>{r.changeCause ?? '—'}</TableCell>
+                    <TableCell>
+                      <RevisionSource revision={r} />
+                    </TableCell>
+                    <TableCell align="right">
+                      {!r.current && (
+                        <Button
+                          size="small"
+                          startIcon={<Icon icon="mdi:history" aria-hidden="true" />}
+                          disabled={rollingBack}
+                          onClick={() => setPendingRollback(r)}
+                        >
+                          {t('Roll back')}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Typography variant="h6" sx={{ mb: 2 }}>
+              {t('Compare revisions')}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+              {revisionSelect(t('From'), compareFrom, setCompareFrom)}
+              {revisionSelect(t('To'), compareTo, setCompareTo)}
+            </Box>
+            {fromRevision && toRevision && <SpecDiff left={fromRevision} right={toRevision} />}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('Close')}</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
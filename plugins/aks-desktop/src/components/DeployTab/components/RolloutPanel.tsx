@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Alert, Box, Button, LinearProgress, Typography } from '@mui/material';
+import React, { useState } from 'react';
+import { useRolloutActions } from '../hooks/useRolloutActions';
+import type { Rollout } from '../utils/rollouts';
+
+interface RolloutPanelProps {
+  cluster: string;
+  namespace: string;
+  rollout: Rollout;
+}
+
+/**
+ * Shows how traffic is split in a canary or blue/green rollout and lets the
+ * user promote the new release or roll it back without waiting for the
+ * workflow's approval gate.
+ */
+export function RolloutPanel({ cluster, namespace, rollout }: RolloutPanelProps) {
+  const { t } = useTranslation();
+  const { busy, error, promote, rollback } = useRolloutActions(cluster, namespace);
+  const [pendingAction, setPendingAction] = useState<'promote' | 'rollback' | null>(null);
+
+  const handleConfirm = async () => {
+    if (pendingAction === 'promote') await promote(rollout);
+    else if (pendingAction === 'rollback') await rollback(rollout);
+    setPendingAction(null);
+  };
+
+  const percent = rollout.candidatePercent;
+
+  return (
+    <Box sx={{ mb: 2, p: 2, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Icon
+          icon={rollout.strategy === 'canary' ? 'mdi:bird' : 'mdi:swap-horizontal'}
+          aria-hidden="true"
+        />
+        <Typography variant="subtitle2" sx={{ flex: 1 }}>
+          {rollout.strategy === 'canary'
+            ? t('Canary rollout of {{name}}', { name: rollout.stable.name })
+            : t('Blue/green rollout of {{name}}', { name: rollout.stable.name })}
+        </Typography>
+        <Button
+          size="small"
+          variant="contained"
+          disabled={busy || pendingAction !== null}
+          onClick={() => setPendingAction('promote')}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('Promote')}
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          color="warning"
+          disabled={busy || pendingAction !== null}
+          onClick={() => setPendingAction('rollback')}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('Roll back')}
+        </Button>
+      </Box>
+
+      <LinearProgress
+        variant="determinate"
+        value={percent}
+        aria-label={t('Traffic on the new release')}
+        sx={{ height: 8, borderRadius: 1, mb: 0.5 }}
+      />
+      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+        <Typography variant="caption" color="text.secondary">
+          {t('{{percent}}% on {{name}}', { percent, name: rollout.candidate.name })}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('{{percent}}% on {{name}}', { percent: 100 - percent, name: rollout.stable.name })}
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {pendingAction && (
+        <Alert
+          severity="warning"
+          sx={{ mt: 2 }}
+          action={
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Button color="inherit" size="small" onClick={() => setPendingAction(null)}>
+                {t('Cancel')}
+              </Button>
+              <Button color="inherit" size="small" disabled={busy} onClick={handleConfirm}>
+                {pendingAction === 'promote'
+                  ? busy
+                    ? `${t('Promoting')}...`
+                    : t('Promote')
+                  : busy
+                  ? `${t('Rolling back')}...`
+                  : t('Roll back')}
+              </Button>
+            </Box>
+          }
+        >
+          {pendingAction === 'promote'
+            ? t(
+                'Promote {{candidate}}? {{name}} is updated to the new release and {{candidate}} is deleted. Reject the waiting workflow run on GitHub afterwards.',
+                { candidate: rollout.candidate.name, name: rollout.stable.name }
+              )
+            : t(
+                'Roll back {{candidate}}? All traffic returns to {{name}} and {{candidate}} is deleted. Reject the waiting workflow run on GitHub afterwards.',
+                { candidate: rollout.candidate.name, name: rollout.stable.name }
+              )}
+        </Alert>
+      )}
+    </Box>
+  );
+}
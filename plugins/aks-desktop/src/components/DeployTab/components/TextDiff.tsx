@@ -0,0 +1,55 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Box } from '@mui/material';
+import React from 'react';
+import type { DiffRow } from '../utils/revisions';
+
+const DIFF_ROW_COLORS: Record<DiffRow['type'], { left?: string; right?: string }> = {
+  same: {},
+  added: { right: 'success.light' },
+  removed: { left: 'error.light' },
+  changed: { left: 'error.light', right: 'success.light' },
+};
+
+/** Renders the rows of {@link diffLines} side by side, highlighting changes. */
+export function TextDiff({ rows }: { rows: DiffRow[] }) {
+  const cell = (text: string | undefined, background: string | undefined) => (
+    <Box
+      component="pre"
+      sx={{
+        m: 0,
+        px: 1,
+        minHeight: '1.4em',
+        whiteSpace: 'pre-wrap',
+        overflowWrap: 'anywhere',
+        bgcolor: background,
+        color: background ? 'common.black' : undefined,
+      }}
+    >
+      {text ?? ''}
+    </Box>
+  );
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr',
+        fontFamily: 'monospace',
+        fontSize: '0.75rem',
+        border: 1,
+        borderColor: 'divider',
+        maxHeight: 400,
+        overflowY: 'auto',
+      }}
+    >
+      {rows.map((row, index) => (
+        <React.Fragment key={index}>
+          {cell(row.left, DIFF_ROW_COLORS[row.type].left)}
+          {cell(row.right, DIFF_ROW_COLORS[row.type].right)}
+        </React.Fragment>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { trackActivity } from '../../../utils/shared/activityLog';
+import {
+  buildRevisionHistory,
+  buildRollbackPatch,
+  type DeploymentRevision,
+} from '../utils/revisions';
+
+// The rollback replaces the whole pod template, which merge patches cannot do.
+const JSON_PATCH_HEADERS = { 'Content-Type': 'application/json-patch+json' };
+
+/** Result returned by {@link useDeploymentRevisions}. */
+export interface UseDeploymentRevisionsResult {
+  /** Revisions of the Deployment, newest first. */
+  revisions: DeploymentRevision[];
+  loading: boolean;
+  /** Error message from loading or the last rollback, or null. */
+  error: string | null;
+  /** Whether a rollback request is in flight. */
+  rollingBack: boolean;
+  /** Restores the pod template of a revision. */
+  rollback: (revision: DeploymentRevision) => Promise<void>;
+}
+
+/**
+ * Reads the revision history of a Deployment from its ReplicaSets and
+ * provides the rollback action.
+ *
+ * @param cluster - Name of the target cluster.
+ * @param namespace - Namespace of the Deployment.
+ * @param deploymentName - Deployment to read; nothing is fetched while undefined.
+ */
+export function useDeploymentRevisions(
+  cluster: string,
+  namespace: string,
+  deploymentName: string | undefined
+): UseDeploymentRevisionsResult {
+  const [revisions, setRevisions] = useState<DeploymentRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const latestRequestIdRef = useRef(0);
+  const annotationsRef = useRef<Record<string, string>>({});
+
+  const deploymentPath = `/apis/apps/v1/namespaces/${namespace}/deployments/${deploymentName}`;
+
+  const fetchRevisions = useCallback(async () => {
+    if (!deploymentName) return;
+    const requestId = ++latestRequestIdRef.current;
+    setLoading(true);
+
+    try {
+      const [deployment, replicaSets] = await Promise.all([
+        clusterRequest(deploymentPath, { method: 'GET', cluster }),
+        clusterRequest(`/apis/apps/v1/namespaces/${namespace}/replicasets`, {
+          method: 'GET',
+          cluster,
+        }),
+      ]);
+      if (requestId !== latestRequestIdRef.current) return;
+      annotationsRef.current = deployment?.metadata?.annotations ?? {};
+      setRevisions(buildRevisionHistory(deployment, replicaSets?.items ?? []));
+    } catch (err) {
+      if (requestId !== latestRequestIdRef.current) return;
+      console.error('Error fetching deployment revisions:', err);
+      setError(
+        `Failed to load revision history: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    } finally {
+      if (requestId === latestRequestIdRef.current) setLoading(false);
+    }
+  }, [cluster, namespace, deploymentName, deploymentPath]);
+
+  useEffect(() => {
+    setRevisions([]);
+    setError(null);
+    fetchRevisions();
+    return () => {
+      // Invalidate any in-flight request for the previous deployment.
+      latestRequestIdRef.current += 1;
+    };
+  }, [fetchRevisions]);
+
+  const rollback = async (revision: DeploymentRevision) => {
+    if (!deploymentName) return;
+    setRollingBack(true);
+    setError(null);
+    try {
+      await trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: `Roll back to revision ${revision.revision}`,
+          target: { cluster, namespace, resource: `Deployment/${deploymentName}` },
+        },
+        () =>
+          clusterRequest(deploymentPath, {
+            method: 'PATCH',
+            body: JSON.stringify(buildRollbackPatch(revision, annotationsRef.current)),
+            headers: JSON_PATCH_HEADERS,
+            cluster,
+          })
+      );
+      await fetchRevisions();
+    } catch (err) {
+      console.error('Failed to roll back deployment:', err);
+      setError(
+        `Failed to roll back to revision ${revision.revision}: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  return { revisions, loading, error, rollingBack, rollback };
+}
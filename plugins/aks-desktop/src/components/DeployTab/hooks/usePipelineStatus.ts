@@ -7,7 +7,7 @@ import type { GitHubRepo } from '../../../types/github';
 import { ANNOTATION_PIPELINE_REPOS } from '../../GitHubPipeline/hooks/usePipelineAnnotationSync';
 import {
   findPipelineReposForCluster,
-  isValidGitHubRepo,
+  parsePipelineReposAnnotation,
 } from '../../GitHubPipeline/utils/pipelineStorage';
 
 export interface PipelineStatusResult {
@@ -31,19 +31,9 @@ export const usePipelineStatus = (cluster: string, namespace: string): PipelineS
     namespaceInstance?.jsonData?.metadata?.annotations?.[ANNOTATION_PIPELINE_REPOS];
 
   return useMemo(() => {
-    if (annotation) {
-      try {
-        const repos: unknown = JSON.parse(annotation);
-        if (
-          Array.isArray(repos) &&
-          repos.length > 0 &&
-          repos.every((r): r is GitHubRepo => isValidGitHubRepo(r))
-        ) {
-          return { isConfigured: true, repos };
-        }
-      } catch {
-        // fall through to localStorage
-      }
+    const repos = parsePipelineReposAnnotation(annotation);
+    if (repos.length > 0) {
+      return { isConfigured: true, repos };
     }
 
     const localRepos = findPipelineReposForCluster(cluster, namespace);
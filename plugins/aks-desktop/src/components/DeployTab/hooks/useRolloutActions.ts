@@ -0,0 +1,95 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useState } from 'react';
+import { trackActivity } from '../../../utils/shared/activityLog';
+import {
+  buildPromotePatch,
+  buildRouteBackPatch,
+  type JsonPatchOp,
+  type Rollout,
+} from '../utils/rollouts';
+
+const JSON_PATCH_HEADERS = { 'Content-Type': 'application/json-patch+json' };
+
+/** Result returned by {@link useRolloutActions}. */
+export interface UseRolloutActionsResult {
+  /** Whether a promote or rollback is in flight. */
+  busy: boolean;
+  /** Error message from the last action, or null. */
+  error: string | null;
+  /** Moves the candidate release onto the stable Deployment and removes the rollout workloads. */
+  promote: (rollout: Rollout) => Promise<void>;
+  /** Sends all traffic back to the stable Deployment and removes the rollout workloads. */
+  rollback: (rollout: Rollout) => Promise<void>;
+}
+
+/**
+ * Finishes canary and blue/green rollouts directly on the cluster, for when
+ * the workflow's approval gate is not used. The stable Deployment and the
+ * Service are patched before the rollout workloads are deleted, so traffic
+ * never points at pods that are going away.
+ *
+ * @param cluster - Name of the target cluster.
+ * @param namespace - Namespace of the rollout.
+ */
+export function useRolloutActions(cluster: string, namespace: string): UseRolloutActionsResult {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const deploymentPath = (name: string) =>
+    `/apis/apps/v1/namespaces/${namespace}/deployments/${name}`;
+
+  const patch = (path: string, body: JsonPatchOp[]) =>
+    clusterRequest(path, {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+      headers: JSON_PATCH_HEADERS,
+      cluster,
+    });
+
+  const finish = async (rollout: Rollout, promote: boolean) => {
+    if (promote) {
+      await patch(deploymentPath(rollout.stable.name), buildPromotePatch(rollout));
+    }
+    const routeBack = buildRouteBackPatch(rollout);
+    if (routeBack && rollout.service) {
+      await patch(`/api/v1/namespaces/${namespace}/services/${rollout.service.name}`, routeBack);
+    }
+    for (const d of [rollout.candidate, rollout.baseline]) {
+      if (d) await clusterRequest(deploymentPath(d.name), { method: 'DELETE', cluster });
+    }
+  };
+
+  const run = async (rollout: Rollout, promote: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: promote ? 'Promote rollout' : 'Roll back rollout',
+          target: { cluster, namespace, resource: `Deployment/${rollout.stable.name}` },
+        },
+        () => finish(rollout, promote)
+      );
+    } catch (err) {
+      console.error('Failed to finish rollout:', err);
+      setError(
+        `Failed to ${promote ? 'promote' : 'roll back'} ${rollout.stable.name}: ${
+          err instanceof Error ? err.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return {
+    busy,
+    error,
+    promote: rollout => run(rollout, true),
+    rollback: rollout => run(rollout, false),
+  };
+}
@@ -319,4 +319,75 @@ describe('extractContainerConfigFromDeployment', () => {
     const result = extractContainerConfigFromDeployment(deployment);
     expect(result.enableWorkloadIdentity).toBeUndefined();
   });
+
+  it('extracts extra containers as sidecars and keeps init containers', () => {
+    const deployment = {
+      metadata: { name: 'my-app' },
+      spec: {
+        template: {
+          spec: {
+            initContainers: [
+              { name: 'migrate', image: 'myapp:migrations', command: ['npm', 'run', 'migrate'] },
+            ],
+            containers: [
+              { name: 'my-app', image: 'myapp:1.0', ports: [{ containerPort: 8080 }] },
+              {
+                name: 'auth-proxy',
+                image: 'oauth2-proxy:7',
+                ports: [{ containerPort: 4180 }],
+                env: [{ name: 'COOKIE', valueFrom: { secretKeyRef: { name: 's', key: 'k' } } }],
+                resources: { requests: { cpu: '10m', memory: '32Mi' } },
+                readinessProbe: { httpGet: { path: '/ping', port: 'http' }, periodSeconds: 5 },
+              },
+            ],
+          },
+        },
+      },
+    };
+    const result = extractContainerConfigFromDeployment(deployment);
+
+    expect(result.containerImage).toBe('myapp:1.0');
+    expect(result.initContainers).toHaveLength(1);
+    expect(result.initContainers![0]).toMatchObject({
+      name: 'migrate',
+      command: 'npm run migrate',
+      enableResources: false,
+    });
+    expect(result.sidecarContainers).toHaveLength(1);
+    expect(result.sidecarContainers![0]).toMatchObject({
+      name: 'auth-proxy',
+      ports: [4180],
+      enableResources: true,
+      cpuRequest: '10m',
+      memoryRequest: '32Mi',
+      envVars: [{ key: 'COOKIE', value: '', isSecret: true }],
+      readinessProbe: { enabled: true, path: '/ping', port: 4180, period: 5 },
+      livenessProbe: { enabled: false },
+    });
+  });
+
+  it('extracts the node selector and tolerations', () => {
+    const deployment = {
+      metadata: { name: 'my-app' },
+      spec: {
+        template: {
+          spec: {
+            containers: [{ image: 'myapp:1.0' }],
+            nodeSelector: { 'kubernetes.azure.com/agentpool': 'gpu' },
+            tolerations: [
+              { key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' },
+              { operator: 'Exists' },
+            ],
+          },
+        },
+      },
+    };
+    const result = extractContainerConfigFromDeployment(deployment);
+
+    expect(result.nodeSelector).toEqual([{ key: 'kubernetes.azure.com/agentpool', value: 'gpu' }]);
+    expect(result.tolerations).toEqual([
+      { key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' },
+      { key: '', operator: 'Exists', value: '', effect: '' },
+    ]);
+  });
 });
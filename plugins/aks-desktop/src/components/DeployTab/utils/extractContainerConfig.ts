@@ -2,10 +2,16 @@
 // Licensed under the Apache 2.0.
 
 import type { KubeContainer as HeadlampKubeContainer } from '@kinvolk/headlamp-plugin/lib/lib/k8s/cluster';
-import type { ContainerConfig } from '../../DeployWizard/hooks/useContainerConfiguration';
+import {
+  type AdditionalContainerConfig,
+  type AdditionalContainerProbe,
+  type ContainerConfig,
+  createAdditionalContainer,
+  type TolerationEntry,
+} from '../../DeployWizard/hooks/useContainerConfiguration';
 
 interface KubeProbe {
-  httpGet?: { path?: string };
+  httpGet?: { path?: string; port?: number | string };
   exec?: { command?: string[] };
   tcpSocket?: { port?: number };
   initialDelaySeconds?: number;
@@ -36,10 +42,13 @@ interface KubeDeploymentInput {
       };
       spec?: {
         containers?: KubeContainer[];
+        initContainers?: KubeContainer[];
         serviceAccountName?: string;
         securityContext?: { runAsNonRoot?: boolean };
         affinity?: { podAntiAffinity?: unknown };
         topologySpreadConstraints?: unknown[];
+        nodeSelector?: Record<string, string>;
+        tolerations?: Array<{ key?: string; operator?: string; value?: string; effect?: string }>;
       };
     };
   };
@@ -57,7 +66,8 @@ interface KubeServiceInput {
  * Service) resource so the DeployWizard can be pre-populated for editing.
  *
  * Only HTTP GET probes are extracted — exec / TCP probes are ignored and the
- * corresponding enable flag is set to false.
+ * corresponding enable flag is set to false. The first container is treated as
+ * the primary container; the rest become sidecars alongside any init containers.
  */
 export function extractContainerConfigFromDeployment(
   deployment: KubeDeploymentInput | null | undefined,
@@ -123,10 +133,23 @@ export function extractContainerConfigFromDeployment(
     result.workloadIdentityServiceAccount = templateSpec.serviceAccountName;
   }
 
+  result.sidecarContainers = (templateSpec.containers ?? []).slice(1).map(extractAdditional);
+  result.initContainers = (templateSpec.initContainers ?? []).map(extractAdditional);
+
   result.enablePodAntiAffinity = !!templateSpec.affinity?.podAntiAffinity;
   result.enableTopologySpreadConstraints =
     Array.isArray(templateSpec.topologySpreadConstraints) &&
     templateSpec.topologySpreadConstraints.length > 0;
+  result.nodeSelector = Object.entries(templateSpec.nodeSelector ?? {}).map(([key, value]) => ({
+    key,
+    value,
+  }));
+  result.tolerations = (templateSpec.tolerations ?? []).map(t => ({
+    key: t.key ?? '',
+    operator: t.operator === 'Exists' ? 'Exists' : 'Equal',
+    value: t.value ?? '',
+    effect: (t.effect ?? '') as TolerationEntry['effect'],
+  }));
 
   if (service) {
     const svcSpec = service?.spec ?? {};
@@ -141,6 +164,60 @@ export function extractContainerConfigFromDeployment(
   return result;
 }
 
+function extractAdditional(container: KubeContainer): AdditionalContainerConfig {
+  const defaults = createAdditionalContainer();
+  const resources = container.resources;
+  const hasResources = !!(resources && (resources.requests || resources.limits));
+  const ports = (container.ports ?? [])
+    .map(p => p.containerPort)
+    .filter((p): p is number => typeof p === 'number');
+
+  return createAdditionalContainer({
+    name: container.name ?? '',
+    image: container.image ?? '',
+    command: (container.command ?? []).join(' '),
+    args: (container.args ?? []).join(' '),
+    ports,
+    enableResources: hasResources,
+    cpuRequest: resources?.requests?.cpu ?? defaults.cpuRequest,
+    cpuLimit: resources?.limits?.cpu ?? defaults.cpuLimit,
+    memoryRequest: resources?.requests?.memory ?? defaults.memoryRequest,
+    memoryLimit: resources?.limits?.memory ?? defaults.memoryLimit,
+    envVars: (container.env ?? [])
+      .filter(e => e.name)
+      .map(e => ({
+        key: e.name,
+        value: e.valueFrom?.secretKeyRef ? '' : e.value ?? '',
+        isSecret: !!e.valueFrom?.secretKeyRef,
+      })),
+    livenessProbe: extractAdditionalProbe(container.livenessProbe, defaults.livenessProbe, ports),
+    readinessProbe: extractAdditionalProbe(
+      container.readinessProbe,
+      defaults.readinessProbe,
+      ports
+    ),
+  });
+}
+
+function extractAdditionalProbe(
+  probe: KubeProbe | undefined,
+  defaults: AdditionalContainerProbe,
+  ports: number[]
+): AdditionalContainerProbe {
+  if (!probe?.httpGet) return defaults;
+  const port = probe.httpGet.port;
+  return {
+    enabled: true,
+    path: probe.httpGet.path ?? '/',
+    // Named ports can't be represented in the wizard; fall back to the first declared port.
+    port: typeof port === 'number' ? port : ports[0] ?? defaults.port,
+    initialDelay: probe.initialDelaySeconds ?? defaults.initialDelay,
+    period: probe.periodSeconds ?? defaults.period,
+    timeout: probe.timeoutSeconds ?? defaults.timeout,
+    failure: probe.failureThreshold ?? defaults.failure,
+  };
+}
+
 function extractProbe(
   probe: KubeProbe | undefined,
   type: 'liveness' | 'readiness' | 'startup'
@@ -0,0 +1,152 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildRevisionHistory,
+  buildRollbackPatch,
+  diffLines,
+  getCommitUrl,
+  revisionToYaml,
+} from './revisions';
+
+const deployment = {
+  metadata: {
+    name: 'web',
+    uid: 'dep-uid',
+    annotations: { 'deployment.kubernetes.io/revision': '2' },
+  },
+};
+
+function replicaSet(
+  name: string,
+  revision: string,
+  image: string,
+  extra: Record<string, string> = {}
+) {
+  return {
+    metadata: {
+      name,
+      creationTimestamp: '2026-01-01T00:00:00Z',
+      annotations: { 'deployment.kubernetes.io/revision': revision, ...extra },
+      ownerReferences: [{ kind: 'Deployment', name: 'web', uid: 'dep-uid' }],
+    },
+    spec: {
+      template: {
+        metadata: { labels: { app: 'web', 'pod-template-hash': name.slice(-5) } },
+        spec: { containers: [{ name: 'web', image }] },
+      },
+    },
+  };
+}
+
+const runUrl = 'https://github.com/contoso/shop/actions/runs/42';
+
+describe('buildRevisionHistory', () => {
+  it('lists owned ReplicaSets newest first with pipeline details', () => {
+    const revisions = buildRevisionHistory(deployment, [
+      replicaSet('web-aaaaa', '1', 'shop:v1', { 'kubernetes.io/change-cause': 'initial' }),
+      replicaSet('web-bbbbb', '2', 'shop:v2', {
+        'aks-project/pipeline-run-url': runUrl,
+        'aks-project/pipeline-workflow': 'Deploy',
+        'aks-project/pipeline-commit': 'abcdef1234567',
+      }),
+      { ...replicaSet('other-ccccc', '5', 'x'), metadata: { name: 'other-ccccc' } },
+    ]);
+
+    expect(revisions.map(r => [r.revision, r.current, r.images])).toEqual([
+      [2, true, ['shop:v2']],
+      [1, false, ['shop:v1']],
+    ]);
+    expect(revisions[0]).toMatchObject({
+      pipelineRunUrl: runUrl,
+      pipelineWorkflow: 'Deploy',
+      pipelineCommit: 'abcdef1234567',
+      changeCause: null,
+    });
+    expect(revisions[1].changeCause).toBe('initial');
+  });
+
+  it('removes the pod-template-hash label from templates', () => {
+    const [revision] = buildRevisionHistory(deployment, [replicaSet('web-aaaaa', '2', 'shop:v1')]);
+    expect(revision.template.metadata.labels).toEqual({ app: 'web' });
+  });
+});
+
+describe('getCommitUrl', () => {
+  it('derives the commit URL from the run URL', () => {
+    const [revision] = buildRevisionHistory(deployment, [
+      replicaSet('web-bbbbb', '2', 'shop:v2', {
+        'aks-project/pipeline-run-url': runUrl,
+        'aks-project/pipeline-commit': 'abc123',
+      }),
+    ]);
+    expect(getCommitUrl(revision)).toBe('https://github.com/contoso/shop/commit/abc123');
+  });
+
+  it('returns null without a commit', () => {
+    const [revision] = buildRevisionHistory(deployment, [replicaSet('web-aaaaa', '2', 'shop:v1')]);
+    expect(getCommitUrl(revision)).toBeNull();
+  });
+});
+
+describe('diffLines', () => {
+  it('pairs changed lines and keeps unchanged ones aligned', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', left: 'a', right: 'a' },
+      { type: 'changed', left: 'b', right: 'B' },
+      { type: 'same', left: 'c', right: 'c' },
+      { type: 'added', right: 'd' },
+    ]);
+  });
+
+  it('reports removed lines', () => {
+    expect(diffLines('a\nb', 'a')).toEqual([
+      { type: 'same', left: 'a', right: 'a' },
+      { type: 'removed', left: 'b' },
+    ]);
+  });
+
+  it('shows the image change between two revisions', () => {
+    const [v2, v1] = buildRevisionHistory(deployment, [
+      replicaSet('web-aaaaa', '1', 'shop:v1'),
+      replicaSet('web-bbbbb', '2', 'shop:v2'),
+    ]);
+    const changed = diffLines(revisionToYaml(v1), revisionToYaml(v2)).filter(
+      row => row.type !== 'same'
+    );
+    expect(changed).toEqual([
+      { type: 'changed', left: '    - image: shop:v1', right: '    - image: shop:v2' },
+    ]);
+  });
+});
+
+describe('buildRollbackPatch', () => {
+  it('replaces the template and restores the revision pipeline annotations', () => {
+    const [, v1] = buildRevisionHistory(deployment, [
+      replicaSet('web-aaaaa', '1', 'shop:v1', { 'aks-project/pipeline-run-url': runUrl }),
+      replicaSet('web-bbbbb', '2', 'shop:v2'),
+    ]);
+
+    const patch = buildRollbackPatch(v1, {
+      'deployment.kubernetes.io/revision': '2',
+      'aks-project/deployed-by': 'pipeline',
+      'aks-project/pipeline-run-url': 'https://github.com/contoso/shop/actions/runs/43',
+      'aks-project/pipeline-commit': 'newer',
+    });
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/spec/template', value: v1.template },
+      {
+        op: 'replace',
+        path: '/metadata/annotations',
+        value: {
+          'deployment.kubernetes.io/revision': '2',
+          'aks-project/deployed-by': 'pipeline',
+          'aks-project/pipeline-run-url': runUrl,
+          'kubernetes.io/change-cause': 'Rolled back to revision 1',
+        },
+      },
+    ]);
+  });
+});
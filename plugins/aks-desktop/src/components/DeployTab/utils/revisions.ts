@@ -0,0 +1,193 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import YAML from 'yaml';
+
+const ANNOTATION_REVISION = 'deployment.kubernetes.io/revision';
+const ANNOTATION_CHANGE_CAUSE = 'kubernetes.io/change-cause';
+const ANNOTATION_PIPELINE_RUN_URL = 'aks-project/pipeline-run-url';
+const ANNOTATION_PIPELINE_WORKFLOW = 'aks-project/pipeline-workflow';
+const ANNOTATION_PIPELINE_COMMIT = 'aks-project/pipeline-commit';
+const POD_TEMPLATE_HASH_LABEL = 'pod-template-hash';
+
+/** One rollout of a Deployment, backed by the ReplicaSet it created. */
+export interface DeploymentRevision {
+  revision: number;
+  replicaSetName: string;
+  /** Creation time of the ReplicaSet, or null if unknown. */
+  createdAt: string | null;
+  /** Container images of the revision, in container order. */
+  images: string[];
+  changeCause: string | null;
+  /** GitHub Actions run that produced the revision, when deployed by a pipeline. */
+  pipelineRunUrl: string | null;
+  pipelineWorkflow: string | null;
+  /** Commit SHA the pipeline deployed. */
+  pipelineCommit: string | null;
+  /** Whether this is the revision the Deployment currently runs. */
+  current: boolean;
+  /** The pod template of the revision, without the ReplicaSet's hash label. */
+  template: Record<string, any>;
+}
+
+/** A row of a side-by-side diff. Absent sides are rendered blank. */
+export interface DiffRow {
+  type: 'same' | 'added' | 'removed' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+function getRevisionNumber(obj: any): number {
+  const value = Number(obj?.metadata?.annotations?.[ANNOTATION_REVISION]);
+  return Number.isInteger(value) ? value : 0;
+}
+
+function isOwnedBy(replicaSet: any, deployment: any): boolean {
+  return (replicaSet?.metadata?.ownerReferences ?? []).some(
+    (ref: any) =>
+      ref.kind === 'Deployment' &&
+      (deployment?.metadata?.uid ? ref.uid === deployment.metadata.uid : true) &&
+      ref.name === deployment?.metadata?.name
+  );
+}
+
+/**
+ * Returns a pod template as the Deployment would carry it. The controller
+ * adds a `pod-template-hash` label to every ReplicaSet's template; it has to
+ * go before the template is compared with or written back to the Deployment.
+ */
+function toDeploymentTemplate(template: any): Record<string, any> {
+  const copy = JSON.parse(JSON.stringify(template ?? {}));
+  if (copy.metadata?.labels) {
+    delete copy.metadata.labels[POD_TEMPLATE_HASH_LABEL];
+  }
+  return copy;
+}
+
+/**
+ * Builds the revision history of a Deployment from its ReplicaSets, newest
+ * first. The Deployment controller copies the Deployment's annotations to
+ * the ReplicaSet of the current rollout, so each ReplicaSet keeps the
+ * pipeline run that produced it.
+ */
+export function buildRevisionHistory(deployment: any, replicaSets: any[]): DeploymentRevision[] {
+  const currentRevision = getRevisionNumber(deployment);
+
+  return replicaSets
+    .filter(rs => isOwnedBy(rs, deployment) && getRevisionNumber(rs) > 0)
+    .map(rs => {
+      const annotations = rs.metadata?.annotations ?? {};
+      const revision = getRevisionNumber(rs);
+      return {
+        revision,
+        replicaSetName: rs.metadata?.name ?? '',
+        createdAt: rs.metadata?.creationTimestamp ?? null,
+        images: (rs.spec?.template?.spec?.containers ?? []).map((c: any) => c.image ?? ''),
+        changeCause: annotations[ANNOTATION_CHANGE_CAUSE] ?? null,
+        pipelineRunUrl: annotations[ANNOTATION_PIPELINE_RUN_URL] ?? null,
+        pipelineWorkflow: annotations[ANNOTATION_PIPELINE_WORKFLOW] ?? null,
+        pipelineCommit: annotations[ANNOTATION_PIPELINE_COMMIT] ?? null,
+        current: revision === currentRevision,
+        template: toDeploymentTemplate(rs.spec?.template),
+      };
+    })
+    .sort((a, b) => b.revision - a.revision);
+}
+
+/**
+ * Returns the GitHub URL of the commit a pipeline deployed, derived from the
+ * run URL (`<server>/<owner>/<repo>/actions/runs/<id>`), or null.
+ */
+export function getCommitUrl(revision: DeploymentRevision): string | null {
+  if (!revision.pipelineCommit || !revision.pipelineRunUrl) return null;
+  const match = revision.pipelineRunUrl.match(/^(https:\/\/[^/]+\/[^/]+\/[^/]+)\/actions\/runs\//);
+  return match ? `${match[1]}/commit/${revision.pipelineCommit}` : null;
+}
+
+/** Serializes a revision's pod template for display and diffing. */
+export function revisionToYaml(revision: DeploymentRevision): string {
+  return YAML.stringify(revision.template, { sortMapEntries: true });
+}
+
+/**
+ * Computes a line-based side-by-side diff. Adjacent removed and added lines
+ * are paired into `changed` rows so edits line up next to each other.
+ */
+export function diffLines(left: string, right: string): DiffRow[] {
+  const a = left.split('\n');
+  const b = right.split('\n');
+
+  // Longest common subsequence table, filled from the end.
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', left: removed[k], right: added[k] });
+    }
+    for (const line of removed.slice(paired)) rows.push({ type: 'removed', left: line });
+    for (const line of added.slice(paired)) rows.push({ type: 'added', right: line });
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+/**
+ * Builds the JSON patch that rolls a Deployment back to a revision, the same
+ * way `kubectl rollout undo` does: the pod template is replaced as a whole so
+ * fields added since the revision are removed, and the pipeline annotations
+ * are restored from the revision so the Deployment controller does not copy
+ * the latest run onto the restored ReplicaSet.
+ *
+ * @param revision - The revision to restore.
+ * @param currentAnnotations - Annotations of the Deployment as last read.
+ */
+export function buildRollbackPatch(
+  revision: DeploymentRevision,
+  currentAnnotations: Record<string, string>
+): Array<Record<string, any>> {
+  const annotations: Record<string, string> = { ...currentAnnotations };
+  const restored: Record<string, string | null> = {
+    [ANNOTATION_PIPELINE_RUN_URL]: revision.pipelineRunUrl,
+    [ANNOTATION_PIPELINE_WORKFLOW]: revision.pipelineWorkflow,
+    [ANNOTATION_PIPELINE_COMMIT]: revision.pipelineCommit,
+  };
+  for (const [key, value] of Object.entries(restored)) {
+    if (value) annotations[key] = value;
+    else delete annotations[key];
+  }
+  annotations[ANNOTATION_CHANGE_CAUSE] = `Rolled back to revision ${revision.revision}`;
+
+  return [
+    { op: 'replace', path: '/spec/template', value: revision.template },
+    { op: 'replace', path: '/metadata/annotations', value: annotations },
+  ];
+}
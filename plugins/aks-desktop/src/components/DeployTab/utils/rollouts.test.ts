@@ -0,0 +1,101 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import type { DeploymentStatus, ServiceStatus } from '../hooks/useClusterDeployStatus';
+import { buildPromotePatch, buildRouteBackPatch, findRollouts } from './rollouts';
+
+const deployment = (
+  name: string,
+  readyReplicas: number,
+  containers: unknown[] = [{ name: 'web', image: `acr.io/web:${name}` }]
+): DeploymentStatus => ({
+  name,
+  replicas: readyReplicas,
+  readyReplicas,
+  availableReplicas: readyReplicas,
+  provenance: 'pipeline',
+  pipelineRepo: null,
+  pipelineRunUrl: null,
+  pipelineWorkflow: null,
+  rawDeployment: { spec: { template: { spec: { containers } } } },
+});
+
+const service = (name: string, selector: Record<string, string>): ServiceStatus => ({
+  name,
+  type: 'ClusterIP',
+  clusterIP: '10.0.0.1',
+  externalIP: null,
+  rawService: { spec: { selector } },
+});
+
+describe('findRollouts', () => {
+  it('should compute the canary split from ready pods', () => {
+    const [rollout] = findRollouts(
+      [deployment('web', 6), deployment('web-canary', 2), deployment('web-baseline', 2)],
+      [service('web', { app: 'web' })]
+    );
+
+    expect(rollout).toMatchObject({ strategy: 'canary', candidatePercent: 20 });
+    expect(rollout.stable.name).toBe('web');
+    expect(rollout.baseline?.name).toBe('web-baseline');
+  });
+
+  it('should report all blue/green traffic on green once the service selects it', () => {
+    const deployments = [deployment('web', 3), deployment('web-green', 3)];
+
+    expect(
+      findRollouts(deployments, [service('web', { app: 'web', 'k8s.deploy.color': 'green' })])[0]
+        .candidatePercent
+    ).toBe(100);
+    expect(findRollouts(deployments, [service('web', { app: 'web' })])[0].candidatePercent).toBe(0);
+  });
+
+  it('should ignore candidates without a stable deployment', () => {
+    expect(findRollouts([deployment('api-canary', 1), deployment('web', 2)], [])).toEqual([]);
+  });
+
+  it('should report no traffic when nothing is ready', () => {
+    expect(
+      findRollouts([deployment('web', 0), deployment('web-canary', 0)], [])[0].candidatePercent
+    ).toBe(0);
+  });
+});
+
+describe('buildPromotePatch', () => {
+  it('should copy the candidate containers onto the stable deployment', () => {
+    const [rollout] = findRollouts([deployment('web', 2), deployment('web-green', 2)], []);
+    expect(buildPromotePatch(rollout)).toEqual([
+      {
+        op: 'replace',
+        path: '/spec/template/spec/containers',
+        value: [{ name: 'web', image: 'acr.io/web:web-green' }],
+      },
+    ]);
+  });
+
+  it('should throw when the candidate has no containers', () => {
+    const [rollout] = findRollouts([deployment('web', 2), deployment('web-green', 2, [])], []);
+    expect(() => buildPromotePatch(rollout)).toThrow(/web-green/);
+  });
+});
+
+describe('buildRouteBackPatch', () => {
+  it('should drop the color from the service selector', () => {
+    const [rollout] = findRollouts(
+      [deployment('web', 2), deployment('web-green', 2)],
+      [service('web', { app: 'web', 'k8s.deploy.color': 'green' })]
+    );
+    expect(buildRouteBackPatch(rollout)).toEqual([
+      { op: 'replace', path: '/spec/selector', value: { app: 'web' } },
+    ]);
+  });
+
+  it('should return null when the service selects no color', () => {
+    const [rollout] = findRollouts(
+      [deployment('web', 2), deployment('web-canary', 1)],
+      [service('web', { app: 'web' })]
+    );
+    expect(buildRouteBackPatch(rollout)).toBeNull();
+  });
+});
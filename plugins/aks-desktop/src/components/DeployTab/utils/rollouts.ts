@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { DeploymentStatus, ServiceStatus } from '../hooks/useClusterDeployStatus';
+
+// Names and labels Azure/k8s-deploy gives the workloads of a staged rollout.
+const CANARY_SUFFIX = '-canary';
+const BASELINE_SUFFIX = '-baseline';
+const GREEN_SUFFIX = '-green';
+const COLOR_LABEL = 'k8s.deploy.color';
+const GREEN_COLOR = 'green';
+
+/** A canary or blue/green rollout waiting to be promoted or rolled back. */
+export interface Rollout {
+  strategy: 'canary' | 'blue-green';
+  /** Deployment serving the current release. */
+  stable: DeploymentStatus;
+  /** Deployment running the new release. */
+  candidate: DeploymentStatus;
+  /** Canary comparison Deployment running the current release, if any. */
+  baseline: DeploymentStatus | null;
+  /** Service switched between blue and green, if any. */
+  service: ServiceStatus | null;
+  /** Share of traffic served by the candidate, 0-100. */
+  candidatePercent: number;
+}
+
+/** One operation of the JSON patches (RFC 6902) sent to finish a rollout. */
+export interface JsonPatchOp {
+  op: 'add' | 'replace' | 'remove';
+  path: string;
+  value?: unknown;
+}
+
+/** The part of a raw Service a rollout reads. */
+interface RawService {
+  spec?: { selector?: Record<string, string> };
+}
+
+/** The part of a raw Deployment a rollout reads. */
+interface RawDeployment {
+  spec?: { template?: { spec?: { containers?: unknown } } };
+}
+
+function getSelector(service: ServiceStatus | null | undefined): Record<string, string> {
+  return (service?.rawService as RawService | undefined)?.spec?.selector ?? {};
+}
+
+/**
+ * Finds the rollouts in progress in a namespace. Canary traffic is split by
+ * pod count, so the candidate's share is its ready pods over all ready pods
+ * behind the Service. Blue/green traffic goes entirely to green once the
+ * Service selects the green color.
+ */
+export function findRollouts(
+  deployments: DeploymentStatus[],
+  services: ServiceStatus[]
+): Rollout[] {
+  const byName = new Map(deployments.map(d => [d.name, d]));
+  const rollouts: Rollout[] = [];
+
+  for (const candidate of deployments) {
+    if (candidate.name.endsWith(CANARY_SUFFIX)) {
+      const stable = byName.get(candidate.name.slice(0, -CANARY_SUFFIX.length));
+      if (!stable) continue;
+      const baseline = byName.get(`${stable.name}${BASELINE_SUFFIX}`) ?? null;
+      const total = stable.readyReplicas + candidate.readyReplicas + (baseline?.readyReplicas ?? 0);
+      rollouts.push({
+        strategy: 'canary',
+        stable,
+        candidate,
+        baseline,
+        service: services.find(s => s.name === stable.name) ?? null,
+        candidatePercent: total > 0 ? Math.round((candidate.readyReplicas / total) * 100) : 0,
+      });
+    } else if (candidate.name.endsWith(GREEN_SUFFIX)) {
+      const stable = byName.get(candidate.name.slice(0, -GREEN_SUFFIX.length));
+      if (!stable) continue;
+      const service = services.find(s => s.name === stable.name) ?? null;
+      rollouts.push({
+        strategy: 'blue-green',
+        stable,
+        candidate,
+        baseline: null,
+        service,
+        candidatePercent: getSelector(service)[COLOR_LABEL] === GREEN_COLOR ? 100 : 0,
+      });
+    }
+  }
+
+  return rollouts;
+}
+
+/**
+ * Builds the JSON patch that moves the candidate's containers onto the
+ * stable Deployment. Only the containers are copied: the candidate's pod
+ * labels carry rollout markers the stable selector must not pick up.
+ */
+export function buildPromotePatch(rollout: Rollout): JsonPatchOp[] {
+  const raw = rollout.candidate.rawDeployment as RawDeployment | undefined;
+  const containers = raw?.spec?.template?.spec?.containers;
+  if (!Array.isArray(containers) || containers.length === 0) {
+    throw new Error(`Deployment ${rollout.candidate.name} has no containers to promote`);
+  }
+  return [{ op: 'replace', path: '/spec/template/spec/containers', value: containers }];
+}
+
+/**
+ * Builds the JSON patch that stops a Service from selecting a rollout color,
+ * or null when it selects none.
+ */
+export function buildRouteBackPatch(rollout: Rollout): JsonPatchOp[] | null {
+  const selector = getSelector(rollout.service);
+  if (!(COLOR_LABEL in selector)) return null;
+  const rest = { ...selector };
+  delete rest[COLOR_LABEL];
+  return [{ op: 'replace', path: '/spec/selector', value: rest }];
+}
@@ -2,8 +2,11 @@
 // Licensed under the Apache 2.0.
 
 import React from 'react';
+import { GitHubAuthProvider } from '../GitHubPipeline/GitHubAuthContext';
 import ConfigureContainer from './components/ConfigureContainer';
 import type { DeployAzureContext } from './components/configureContainerUtils';
+import ConfigureHelm from './components/ConfigureHelm';
+import ConfigureKustomize from './components/ConfigureKustomize';
 import ConfigureYAML from './components/ConfigureYAML';
 import Deploy from './components/Deploy';
 import DeployWizardPure from './components/DeployWizardPure';
@@ -22,7 +25,7 @@ type DeployWizardProps = {
   initialContainerConfig?: Partial<ContainerConfig>;
   /** Called when the user clicks "Close" after a deploy result. */
   onClose?: () => void;
-  /** Azure context for workload identity setup */
+  /** Azure context for workload identity setup and ACR-hosted Helm charts */
   azureContext?: DeployAzureContext;
 };
 
@@ -46,6 +49,8 @@ export default function DeployWizard(props: DeployWizardProps) {
       setYamlEditorValue,
       setYamlError,
       containerConfig,
+      helmChart,
+      kustomize,
       userPreviewYaml,
       deployResult,
       deployMessage,
@@ -67,11 +72,24 @@ export default function DeployWizard(props: DeployWizardProps) {
                 onYamlChange={val => setYamlEditorValue(val)}
                 onYamlErrorChange={err => setYamlError(err)}
               />
+            ) : sourceType === 'kustomize' ? (
+              <GitHubAuthProvider>
+                <ConfigureKustomize
+                  kustomize={kustomize}
+                  yamlEditorValue={yamlEditorValue}
+                  yamlError={yamlError}
+                  onYamlChange={val => setYamlEditorValue(val)}
+                  onYamlErrorChange={err => setYamlError(err)}
+                />
+              </GitHubAuthProvider>
+            ) : sourceType === 'helm' ? (
+              <ConfigureHelm helmChart={helmChart} />
             ) : (
               <ConfigureContainer
                 containerConfig={containerConfig}
                 azureContext={props.azureContext}
                 namespace={props.namespace}
+                cluster={props.cluster}
               />
             )}
           </React.Fragment>
@@ -87,6 +105,8 @@ export default function DeployWizard(props: DeployWizardProps) {
             deployResult={deployResult}
             deployMessage={deployMessage}
             quotaWarnings={quotaWarnings}
+            helmRendering={helmChart.rendering}
+            helmRenderError={helmChart.renderError}
           />
         );
       default:
@@ -0,0 +1,425 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import {
+  type AdditionalContainerConfig,
+  type AdditionalContainerKind,
+  type AdditionalContainerProbe,
+  CONTAINER_STEPS,
+  createAdditionalContainer,
+} from '../hooks/useContainerConfiguration';
+import {
+  getAdditionalContainerNameError,
+  hasInvalidAdditionalContainers,
+} from '../utils/additionalContainers';
+import { ContainerConfigProp, ENV_VAR_KEY_PATTERN, LabelWithInfo } from './configureContainerUtils';
+import { setFromInput } from './types';
+
+interface AdditionalContainersStepProps {
+  containerConfig: ContainerConfigProp;
+}
+
+interface AdditionalContainerEditorProps {
+  containerConfig: ContainerConfigProp;
+  kind: AdditionalContainerKind;
+  index: number;
+}
+
+function AdditionalContainerEditor({
+  containerConfig,
+  kind,
+  index,
+}: AdditionalContainerEditorProps) {
+  const { t } = useTranslation();
+  const item = containerConfig.config[kind][index];
+  const isInit = kind === 'initContainers';
+  const nameError = getAdditionalContainerNameError(containerConfig.config, kind, index);
+
+  const update = (patch: Partial<AdditionalContainerConfig>) =>
+    containerConfig.setConfig(c => ({
+      ...c,
+      [kind]: c[kind].map((entry, i) => (i === index ? { ...entry, ...patch } : entry)),
+    }));
+
+  const updateProbe = (
+    probeKey: 'livenessProbe' | 'readinessProbe',
+    patch: Partial<AdditionalContainerProbe>
+  ) => update({ [probeKey]: { ...item[probeKey], ...patch } });
+
+  const nameHelperText =
+    nameError === 'invalid'
+      ? t('Use lowercase letters, numbers, and hyphens (max 63 characters).')
+      : nameError === 'duplicate'
+      ? t('Container names must be unique within the pod.')
+      : '';
+
+  const probeRows: Array<{ key: 'livenessProbe' | 'readinessProbe'; label: string }> = [
+    { key: 'livenessProbe', label: t('Enable liveness probe') },
+    { key: 'readinessProbe', label: t('Enable readiness probe') },
+  ];
+
+  return (
+    <Box
+      role="group"
+      aria-label={
+        isInit
+          ? t('Init container {{index}}', { index: index + 1 })
+          : t('Sidecar container {{index}}', { index: index + 1 })
+      }
+      sx={{ p: 2, border: '1px solid', borderColor: 'divider', borderRadius: 2 }}
+    >
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start' }}>
+        <TextField
+          label={t('Container name')}
+          value={item.name}
+          error={nameError === 'invalid' || nameError === 'duplicate'}
+          helperText={nameHelperText}
+          onChange={e => update({ name: e.target.value })}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          label={t('Container image')}
+          placeholder="registry/image:tag"
+          value={item.image}
+          onChange={e => update({ image: e.target.value })}
+          sx={{ flex: 2 }}
+        />
+        <IconButton
+          aria-label={t('Remove container {{name}}', { name: item.name || index + 1 })}
+          onClick={() =>
+            containerConfig.setConfig(c => ({
+              ...c,
+              [kind]: c[kind].filter((_, i) => i !== index),
+            }))
+          }
+        >
+          <Icon icon="mdi:delete-outline" />
+        </IconButton>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+        <TextField
+          label={
+            <LabelWithInfo
+              label={t('Command')}
+              infoText={t(
+                "Space-separated command that overrides the image's entrypoint. Leave empty to use the image default."
+              )}
+            />
+          }
+          value={item.command}
+          onChange={e => update({ command: e.target.value })}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          label={t('Arguments')}
+          value={item.args}
+          onChange={e => update({ args: e.target.value })}
+          sx={{ flex: 1 }}
+        />
+      </Box>
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {t('Ports')}
+      </Typography>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        {item.ports.map((port, portIdx) => (
+          <Box key={portIdx} sx={{ display: 'flex', alignItems: 'center' }}>
+            <TextField
+              size="small"
+              type="number"
+              label={t('Container port')}
+              inputProps={{ min: 1, max: 65535 }}
+              value={port}
+              onChange={e =>
+                update({
+                  ports: item.ports.map((p, i) =>
+                    i === portIdx ? Math.min(65535, Math.max(1, Number(e.target.value))) : p
+                  ),
+                })
+              }
+              sx={{ width: 140 }}
+            />
+            <IconButton
+              aria-label={t('Remove port {{port}}', { port })}
+              onClick={() => update({ ports: item.ports.filter((_, i) => i !== portIdx) })}
+            >
+              <Icon icon="mdi:close" />
+            </IconButton>
+          </Box>
+        ))}
+        <Button variant="text" onClick={() => update({ ports: [...item.ports, 8080] })}>
+          {t('Add port')}
+        </Button>
+      </Box>
+
+      <Box sx={{ mt: 2 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={item.enableResources}
+              onChange={e => update({ enableResources: e.target.checked })}
+            />
+          }
+          label={t('Enable resource requests and limits')}
+        />
+        {item.enableResources && (
+          <Box
+            sx={{ display: 'grid', gridTemplateColumns: 'repeat(4, minmax(120px, 1fr))', gap: 1 }}
+          >
+            <TextField
+              size="small"
+              type="number"
+              label={t('CPU request')}
+              inputProps={{ step: 50, min: 1 }}
+              value={item.cpuRequest.replace(/m$/, '')}
+              onChange={e => setFromInput(e.target.value, 'm', val => update({ cpuRequest: val }))}
+              InputProps={{ endAdornment: <InputAdornment position="end">m</InputAdornment> }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label={t('CPU limit')}
+              inputProps={{ step: 50, min: 1 }}
+              value={item.cpuLimit.replace(/m$/, '')}
+              onChange={e => setFromInput(e.target.value, 'm', val => update({ cpuLimit: val }))}
+              InputProps={{ endAdornment: <InputAdornment position="end">m</InputAdornment> }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label={t('Memory request')}
+              inputProps={{ step: 64, min: 1 }}
+              value={item.memoryRequest.replace(/Mi$/, '')}
+              onChange={e =>
+                setFromInput(e.target.value, 'Mi', val => update({ memoryRequest: val }))
+              }
+              InputProps={{ endAdornment: <InputAdornment position="end">Mi</InputAdornment> }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label={t('Memory limit')}
+              inputProps={{ step: 64, min: 1 }}
+              value={item.memoryLimit.replace(/Mi$/, '')}
+              onChange={e =>
+                setFromInput(e.target.value, 'Mi', val => update({ memoryLimit: val }))
+              }
+              InputProps={{ endAdornment: <InputAdornment position="end">Mi</InputAdornment> }}
+            />
+          </Box>
+        )}
+      </Box>
+
+      <Typography variant="subtitle2" sx={{ mt: 2 }}>
+        {t('Environment Variables')}
+      </Typography>
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {item.envVars.map((pair, envIdx) => {
+          const keyInvalid = !!pair.key.trim() && !ENV_VAR_KEY_PATTERN.test(pair.key);
+          const setEnv = (patch: Partial<typeof pair>) =>
+            update({
+              envVars: item.envVars.map((e, i) => (i === envIdx ? { ...e, ...patch } : e)),
+            });
+          return (
+            <Box key={envIdx} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                size="small"
+                label={t('Key')}
+                value={pair.key}
+                error={keyInvalid}
+                onChange={e => setEnv({ key: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                size="small"
+                label={t('Value')}
+                value={pair.value}
+                type={pair.isSecret ? 'password' : 'text'}
+                onChange={e => setEnv({ value: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <Tooltip
+                title={
+                  pair.isSecret
+                    ? t('Stored as Kubernetes Secret')
+                    : t('Mark as secret (stored as Kubernetes Secret)')
+                }
+              >
+                <IconButton
+                  aria-label={t('toggle secret')}
+                  onClick={() => setEnv({ isSecret: !pair.isSecret })}
+                >
+                  <Icon icon={pair.isSecret ? 'mdi:lock-outline' : 'mdi:lock-open-outline'} />
+                </IconButton>
+              </Tooltip>
+              <IconButton
+                aria-label={t('remove')}
+                onClick={() => update({ envVars: item.envVars.filter((_, i) => i !== envIdx) })}
+              >
+                <Icon icon="mdi:delete-outline" />
+              </IconButton>
+            </Box>
+          );
+        })}
+        <Box>
+          <Button
+            variant="text"
+            onClick={() =>
+              update({ envVars: [...item.envVars, { key: '', value: '', isSecret: false }] })
+            }
+          >
+            {t('Add variable')}
+          </Button>
+        </Box>
+      </Box>
+
+      {!isInit && (
+        <Box sx={{ mt: 1, display: 'flex', flexDirection: 'column' }}>
+          {probeRows.map(({ key, label }) => (
+            <Box key={key} sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={item[key].enabled}
+                    onChange={e => updateProbe(key, { enabled: e.target.checked })}
+                  />
+                }
+                label={label}
+              />
+              {item[key].enabled && (
+                <>
+                  <TextField
+                    size="small"
+                    label={t('Path')}
+                    value={item[key].path}
+                    onChange={e => updateProbe(key, { path: e.target.value })}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label={t('Port')}
+                    inputProps={{ min: 1, max: 65535 }}
+                    value={item[key].port}
+                    onChange={e =>
+                      updateProbe(key, {
+                        port: Math.min(65535, Math.max(1, Number(e.target.value))),
+                      })
+                    }
+                    sx={{ width: 120 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label={t('periodSeconds')}
+                    value={item[key].period}
+                    onChange={e =>
+                      updateProbe(key, { period: Math.max(1, Number(e.target.value)) })
+                    }
+                    sx={{ width: 140 }}
+                  />
+                </>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default function AdditionalContainersStep({
+  containerConfig,
+}: AdditionalContainersStepProps) {
+  const { t } = useTranslation();
+
+  const addContainer = (kind: AdditionalContainerKind) =>
+    containerConfig.setConfig(c => ({ ...c, [kind]: [...c[kind], createAdditionalContainer()] }));
+
+  const sections: Array<{
+    kind: AdditionalContainerKind;
+    title: string;
+    infoText: string;
+    addLabel: string;
+  }> = [
+    {
+      kind: 'initContainers',
+      title: t('Init containers'),
+      infoText: t(
+        'Init containers run to completion, one after another, before the application starts. Use them for database migrations or setup tasks.'
+      ),
+      addLabel: t('Add init container'),
+    },
+    {
+      kind: 'sidecarContainers',
+      title: t('Sidecar containers'),
+      infoText: t(
+        'Sidecars run next to the application container for the lifetime of the pod, for example log shippers or authentication proxies.'
+      ),
+      addLabel: t('Add sidecar'),
+    },
+  ];
+
+  return (
+    <>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t('Optionally add init containers and sidecars to the pod.')}
+      </Typography>
+      {sections.map(section => (
+        <Box key={section.kind} sx={{ mb: 3 }}>
+          <Typography variant="subtitle1" component="h3">
+            <LabelWithInfo label={section.title} infoText={section.infoText} />
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            {containerConfig.config[section.kind].map((_, idx) => (
+              <AdditionalContainerEditor
+                key={idx}
+                containerConfig={containerConfig}
+                kind={section.kind}
+                index={idx}
+              />
+            ))}
+          </Box>
+          <Button
+            variant="outlined"
+            sx={{ mt: 1 }}
+            startIcon={<Icon icon="mdi:plus" />}
+            onClick={() => addContainer(section.kind)}
+          >
+            {section.addLabel}
+          </Button>
+        </Box>
+      ))}
+      {hasInvalidAdditionalContainers(containerConfig.config) && (
+        <Typography variant="body2" color="error" role="alert">
+          {t('Every additional container needs a unique name and an image.')}
+        </Typography>
+      )}
+      <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
+        <Button
+          variant="outlined"
+          onClick={() =>
+            containerConfig.setConfig(c => ({ ...c, containerStep: CONTAINER_STEPS.ADVANCED }))
+          }
+        >
+          {t('Back')}
+        </Button>
+      </Box>
+    </>
+  );
+}
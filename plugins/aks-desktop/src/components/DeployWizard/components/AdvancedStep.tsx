@@ -5,10 +5,17 @@ import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Box, Button, FormControlLabel, Switch, Typography } from '@mui/material';
 import React from 'react';
 import { CONTAINER_STEPS, type ContainerConfig } from '../hooks/useContainerConfiguration';
-import { ContainerConfigProp, LabelWithInfo } from './configureContainerUtils';
+import {
+  ContainerConfigProp,
+  type DeployAzureContext,
+  LabelWithInfo,
+} from './configureContainerUtils';
+import NodePlacementSettings from './NodePlacementSettings';
 
 interface AdvancedStepProps {
   containerConfig: ContainerConfigProp;
+  /** Cluster whose node pools are suggested for node placement. */
+  azureContext?: DeployAzureContext;
 }
 
 function SwitchWithDescription({
@@ -37,7 +44,7 @@ function SwitchWithDescription({
   );
 }
 
-export default function AdvancedStep({ containerConfig }: AdvancedStepProps) {
+export default function AdvancedStep({ containerConfig, azureContext }: AdvancedStepProps) {
   const { t } = useTranslation();
   const set = <K extends keyof ContainerConfig>(key: K) => {
     return (val: ContainerConfig[K]) => containerConfig.setConfig(c => ({ ...c, [key]: val }));
@@ -101,6 +108,9 @@ export default function AdvancedStep({ containerConfig }: AdvancedStepProps) {
           description={t('Distributes pods evenly across nodes to improve workload distribution.')}
         />
       </Box>
+      <Box sx={{ mt: 3 }}>
+        <NodePlacementSettings containerConfig={containerConfig} azureContext={azureContext} />
+      </Box>
       <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
         <Button
           variant="outlined"
@@ -113,6 +123,17 @@ export default function AdvancedStep({ containerConfig }: AdvancedStepProps) {
         >
           {t('Back')}
         </Button>
+        <Button
+          variant="contained"
+          onClick={() =>
+            containerConfig.setConfig(c => ({
+              ...c,
+              containerStep: CONTAINER_STEPS.ADDITIONAL_CONTAINERS,
+            }))
+          }
+        >
+          {t('Continue')}
+        </Button>
       </Box>
     </>
   );
@@ -5,6 +5,7 @@ import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Step, StepContent, StepLabel, Stepper, Typography } from '@mui/material';
 import React from 'react';
 import { ContainerConfig } from '../hooks/useContainerConfiguration';
+import AdditionalContainersStep from './AdditionalContainersStep';
 import AdvancedStep from './AdvancedStep';
 import BasicsStep from './BasicsStep';
 import type { DeployAzureContext } from './configureContainerUtils';
@@ -26,6 +27,8 @@ interface ConfigureContainerProps {
   azureContext?: DeployAzureContext;
   /** Target namespace for workload identity setup */
   namespace?: string;
+  /** Target cluster; used to look up existing TLS Secrets for Ingress. */
+  cluster?: string;
 }
 
 export default function ConfigureContainer({
@@ -33,6 +36,7 @@ export default function ConfigureContainer({
   requireContainerImage = true,
   azureContext,
   namespace,
+  cluster,
 }: ConfigureContainerProps) {
   const { t } = useTranslation();
 
@@ -55,7 +59,11 @@ export default function ConfigureContainer({
         <Step>
           <StepLabel>{t('Networking')}</StepLabel>
           <StepContent>
-            <NetworkingStep containerConfig={containerConfig} />
+            <NetworkingStep
+              containerConfig={containerConfig}
+              namespace={namespace}
+              cluster={cluster}
+            />
           </StepContent>
         </Step>
 
@@ -76,7 +84,7 @@ export default function ConfigureContainer({
         <Step>
           <StepLabel>{t('Environment Variables')}</StepLabel>
           <StepContent>
-            <EnvVarsStep containerConfig={containerConfig} />
+            <EnvVarsStep containerConfig={containerConfig} azureContext={azureContext} />
           </StepContent>
         </Step>
 
@@ -101,7 +109,14 @@ export default function ConfigureContainer({
         <Step>
           <StepLabel>{t('Advanced')}</StepLabel>
           <StepContent>
-            <AdvancedStep containerConfig={containerConfig} />
+            <AdvancedStep containerConfig={containerConfig} azureContext={azureContext} />
+          </StepContent>
+        </Step>
+
+        <Step>
+          <StepLabel>{t('Sidecars and init containers')}</StepLabel>
+          <StepContent>
+            <AdditionalContainersStep containerConfig={containerConfig} />
           </StepContent>
         </Step>
       </Stepper>
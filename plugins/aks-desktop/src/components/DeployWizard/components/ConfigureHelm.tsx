@@ -0,0 +1,357 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import MonacoEditor from '@monaco-editor/react';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Link,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import { HELM_INSTALL_URL, isOciChartRef } from '../../../utils/kubernetes/helm';
+import { openExternalUrl } from '../../../utils/shared/openExternalUrl';
+import type { UseHelmChartResult } from '../hooks/useHelmChart';
+import { getValueAtPath, type HelmValueField } from '../utils/helmValues';
+
+export interface ConfigureHelmProps {
+  helmChart: UseHelmChartResult;
+}
+
+interface ValueFieldProps {
+  field: HelmValueField;
+  value: unknown;
+  defaultValue: unknown;
+  disabled: boolean;
+  onChange: (value: unknown) => void;
+}
+
+function ValueField({ field, value, defaultValue, disabled, onChange }: ValueFieldProps) {
+  const label = field.path.join('.');
+  const current = value ?? defaultValue;
+
+  if (field.type === 'boolean') {
+    return (
+      <FormControlLabel
+        control={
+          <Switch
+            checked={current === true}
+            disabled={disabled}
+            onChange={e =>
+              onChange(e.target.checked === defaultValue ? undefined : e.target.checked)
+            }
+          />
+        }
+        label={label}
+      />
+    );
+  }
+
+  const numeric = field.type === 'number' || field.type === 'integer';
+  return (
+    <TextField
+      select={!!field.enum}
+      size="small"
+      fullWidth
+      label={label}
+      type={numeric && !field.enum ? 'number' : 'text'}
+      value={value === undefined || value === null ? '' : String(value)}
+      placeholder={defaultValue === undefined || defaultValue === null ? '' : String(defaultValue)}
+      helperText={field.description}
+      disabled={disabled}
+      InputLabelProps={{ shrink: true }}
+      onChange={e => {
+        const raw = e.target.value;
+        if (raw === '') onChange(undefined);
+        else if (numeric) onChange(Number(raw));
+        else onChange(raw);
+      }}
+    >
+      {field.enum?.map(option => (
+        <MenuItem key={option} value={option}>
+          {option}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
+
+/**
+ * Configure step for the Helm chart source: picks the chart, the release
+ * name and the values, either through a form generated from the chart's
+ * values schema or directly as YAML.
+ */
+export default function ConfigureHelm({ helmChart }: ConfigureHelmProps) {
+  const { t } = useTranslation();
+  const {
+    helmInstalled,
+    config,
+    updateConfig,
+    selectChartFile,
+    chart,
+    defaults,
+    fields,
+    hasSchema,
+    loading,
+    error,
+    loadChart,
+    values,
+    valuesError,
+    setFieldValue,
+    releaseNameError,
+    releases,
+    existingRelease,
+    selectRelease,
+    registries,
+    loginToRegistry,
+    registryLoginPending,
+  } = helmChart;
+  const isOci = isOciChartRef(config.chartRef);
+
+  return (
+    <>
+      <Typography variant="h6" component="h2" gutterBottom>
+        {t('Helm Chart')}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t(
+          'Reference a chart in an OCI registry or a local .tgz archive. The chart is rendered with your values and applied like any other manifests.'
+        )}
+      </Typography>
+
+      {helmInstalled === false && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <AlertTitle>{t('Helm CLI not found')}</AlertTitle>
+          {t(
+            'Charts are read and rendered with the Helm CLI, which is not installed or not on the PATH. Install Helm 3, then restart AKS desktop.'
+          )}{' '}
+          <Link
+            component="button"
+            variant="body2"
+            onClick={() => openExternalUrl(HELM_INSTALL_URL)}
+          >
+            {t('Installing Helm')}
+          </Link>
+        </Alert>
+      )}
+
+      {releases.length > 0 && (
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label={t('Upgrade a release')}
+          value={existingRelease?.releaseName ?? ''}
+          onChange={e => selectRelease(e.target.value)}
+          sx={{ mb: 2 }}
+        >
+          {releases.map(release => (
+            <MenuItem key={release.releaseName} value={release.releaseName}>
+              {t('{{release}} ({{chart}})', {
+                release: release.releaseName,
+                chart: release.chartRef,
+              })}
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+        {registries.length > 0 && (
+          <TextField
+            select
+            size="small"
+            label={t('Container registry')}
+            value=""
+            disabled={registryLoginPending}
+            onChange={e => {
+              const registry = registries.find(r => r.name === e.target.value);
+              if (registry) loginToRegistry(registry);
+            }}
+            helperText={registryLoginPending ? t('Logging in…') : t('Log in to use its charts')}
+            sx={{ minWidth: 200 }}
+          >
+            {registries.map(registry => (
+              <MenuItem key={registry.id} value={registry.name}>
+                {registry.loginServer}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+        <TextField
+          size="small"
+          label={t('Chart')}
+          value={config.chartRef}
+          onChange={e => updateConfig({ chartRef: e.target.value })}
+          placeholder="oci://myregistry.azurecr.io/helm/app"
+          helperText={t('oci:// reference or path to a .tgz file')}
+          sx={{ flex: 1, minWidth: 280 }}
+        />
+        <TextField
+          size="small"
+          label={t('Version')}
+          value={config.version}
+          onChange={e => updateConfig({ version: e.target.value })}
+          disabled={!isOci}
+          helperText={t('Latest when empty')}
+          sx={{ width: 140 }}
+        />
+        <label>
+          <input
+            type="file"
+            accept=".tgz,.tar.gz"
+            style={{ display: 'none' }}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) void selectChartFile(file);
+              e.currentTarget.value = '';
+            }}
+          />
+          <Button component="span" variant="outlined">
+            {t('Browse')}
+          </Button>
+        </label>
+        <Button
+          variant="contained"
+          onClick={() => loadChart()}
+          disabled={!config.chartRef.trim() || loading || helmInstalled === false}
+          startIcon={loading ? <CircularProgress size={16} aria-hidden="true" /> : null}
+        >
+          {t('Load chart')}
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+          {error}
+        </Alert>
+      )}
+
+      {chart && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2, flexWrap: 'wrap' }}>
+            <Chip color="primary" size="small" label={`${chart.name} ${chart.version}`} />
+            {chart.appVersion && (
+              <Chip
+                variant="outlined"
+                size="small"
+                label={t('App version {{version}}', { version: chart.appVersion })}
+              />
+            )}
+            {chart.description && (
+              <Typography variant="body2" color="text.secondary">
+                {chart.description}
+              </Typography>
+            )}
+          </Box>
+
+          <TextField
+            size="small"
+            fullWidth
+            required
+            label={t('Release name')}
+            value={config.releaseName}
+            onChange={e => updateConfig({ releaseName: e.target.value })}
+            error={!!releaseNameError}
+            helperText={
+              releaseNameError ?? t('Prefixes the names of the resources the chart creates.')
+            }
+            sx={{ mb: 2 }}
+          />
+
+          {existingRelease && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              {t(
+                'Upgrading {{release}}, last deployed {{date}}. The values used then are loaded below.',
+                {
+                  release: existingRelease.releaseName,
+                  date: new Date(existingRelease.deployedAt).toLocaleString(),
+                }
+              )}
+            </Alert>
+          )}
+
+          <Typography variant="subtitle1" component="h3" sx={{ fontWeight: 600 }}>
+            {t('Values')}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 1.5 }}>
+            {hasSchema
+              ? t("Fields come from the chart's values schema. Empty fields keep the default.")
+              : t("Fields come from the chart's default values. Empty fields keep the default.")}
+          </Typography>
+          {fields.length > 0 ? (
+            <Box
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+                gap: 2,
+                mb: 3,
+              }}
+            >
+              {fields.map(field => (
+                <ValueField
+                  key={field.path.join('.')}
+                  field={field}
+                  value={values ? getValueAtPath(values, field.path) : undefined}
+                  defaultValue={getValueAtPath(defaults, field.path)}
+                  disabled={!values}
+                  onChange={value => setFieldValue(field.path, value)}
+                />
+              ))}
+            </Box>
+          ) : (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {t('This chart has no simple values; use the editor below.')}
+            </Typography>
+          )}
+        </>
+      )}
+
+      <Typography variant="subtitle1" component="h3" sx={{ fontWeight: 600, mb: 1 }}>
+        {t('Values YAML')}
+      </Typography>
+      <Box
+        sx={{
+          border: '1px solid',
+          borderColor: 'divider',
+          borderRadius: 1,
+          overflow: 'hidden',
+        }}
+      >
+        <MonacoEditor
+          height="30vh"
+          language="yaml"
+          value={config.valuesYaml}
+          onChange={val => updateConfig({ valuesYaml: val || '' })}
+          onMount={editor => {
+            editor.updateOptions({ tabFocusMode: true });
+          }}
+          options={{
+            minimap: { enabled: false },
+            wordWrap: 'on',
+            fontSize: 13,
+            lineNumbers: 'on',
+            scrollBeyondLastLine: false,
+            renderWhitespace: 'selection',
+            automaticLayout: true,
+            tabFocusMode: true,
+          }}
+        />
+      </Box>
+      {valuesError && (
+        <Typography role="alert" variant="body2" color="error" sx={{ mt: 1 }}>
+          {valuesError}
+        </Typography>
+      )}
+    </>
+  );
+}
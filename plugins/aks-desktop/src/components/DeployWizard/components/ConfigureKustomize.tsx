@@ -0,0 +1,187 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  MenuItem,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import React, { useState } from 'react';
+import { useGitHubAuthContext } from '../../GitHubPipeline/GitHubAuthContext';
+import type { UseKustomizeSourceResult } from '../hooks/useKustomizeSource';
+import ConfigureYAML, { type ConfigureYAMLProps } from './ConfigureYAML';
+
+export interface ConfigureKustomizeProps extends ConfigureYAMLProps {
+  kustomize: UseKustomizeSourceResult;
+}
+
+/** Parses `owner/repo` or a github.com URL into its parts. */
+function parseRepo(value: string): { owner: string; repo: string } | null {
+  const match = value
+    .trim()
+    .replace(/^https?:\/\/github\.com\//, '')
+    .replace(/\.git$/, '')
+    .match(/^([\w.-]+)\/([\w.-]+)\/?$/);
+  return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Configure step for the Kustomize source: reads a folder or a GitHub
+ * directory, picks the overlay and shows the built manifests in the same
+ * editor as plain YAML.
+ */
+export default function ConfigureKustomize({ kustomize, ...yamlProps }: ConfigureKustomizeProps) {
+  const { t } = useTranslation();
+  const { octokit, authState, startOAuth } = useGitHubAuthContext();
+  const [origin, setOrigin] = useState<'folder' | 'github'>('folder');
+  const [repoInput, setRepoInput] = useState('');
+  const [ref, setRef] = useState('');
+  const [path, setPath] = useState('');
+  const { overlays, selectedOverlay, selectOverlay, loading, error, sourceLabel } = kustomize;
+  const repo = parseRepo(repoInput);
+
+  return (
+    <>
+      <Typography variant="h6" component="h2" gutterBottom>
+        {t('Kustomize')}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t(
+          'Pick a folder or a GitHub directory holding your kustomizations, then choose the overlay to deploy. The overlay is built in the app; remote bases are not supported.'
+        )}
+      </Typography>
+
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        value={origin}
+        onChange={(_, value) => value && setOrigin(value)}
+        aria-label={t('Kustomize source')}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="folder">
+          <Icon icon="mdi:folder-outline" aria-hidden="true" style={{ marginRight: 6 }} />
+          {t('Folder')}
+        </ToggleButton>
+        <ToggleButton value="github">
+          <Icon icon="mdi:github" aria-hidden="true" style={{ marginRight: 6 }} />
+          {t('GitHub')}
+        </ToggleButton>
+      </ToggleButtonGroup>
+
+      {origin === 'folder' ? (
+        <Box sx={{ mb: 2 }}>
+          <label>
+            <input
+              type="file"
+              multiple
+              style={{ display: 'none' }}
+              // Not in React's input typings; lets the user pick a whole directory.
+              {...{ webkitdirectory: '', directory: '' }}
+              onChange={e => {
+                const files = Array.from(e.target.files || []);
+                if (files.length > 0) kustomize.loadFolder(files);
+                e.currentTarget.value = '';
+              }}
+            />
+            <Button component="span" variant="outlined" disabled={loading}>
+              {t('Choose folder')}
+            </Button>
+          </label>
+        </Box>
+      ) : !authState.isAuthenticated || !octokit ? (
+        <Box sx={{ mb: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<Icon icon="mdi:github" aria-hidden="true" />}
+            onClick={() => startOAuth()}
+            disabled={authState.isRestoring || authState.isAuthorizingBrowser}
+          >
+            {authState.isAuthorizingBrowser
+              ? t('Waiting for browser authorization...')
+              : t('Sign in to GitHub')}
+          </Button>
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+          <TextField
+            size="small"
+            label={t('Repository')}
+            value={repoInput}
+            onChange={e => setRepoInput(e.target.value)}
+            placeholder="owner/repo"
+            error={!!repoInput.trim() && !repo}
+            helperText={t('owner/repo or a github.com URL')}
+            sx={{ flex: 1, minWidth: 220 }}
+          />
+          <TextField
+            size="small"
+            label={t('Branch or tag')}
+            value={ref}
+            onChange={e => setRef(e.target.value)}
+            helperText={t('Default branch when empty')}
+            sx={{ width: 160 }}
+          />
+          <TextField
+            size="small"
+            label={t('Directory')}
+            value={path}
+            onChange={e => setPath(e.target.value)}
+            placeholder="deploy"
+            helperText={t('Must include the overlays and their bases')}
+            sx={{ flex: 1, minWidth: 200 }}
+          />
+          <Button
+            variant="contained"
+            disabled={!repo || loading}
+            onClick={() => repo && kustomize.loadFromGitHub(octokit, { ...repo, ref, path })}
+          >
+            {t('Load')}
+          </Button>
+        </Box>
+      )}
+
+      {loading && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <CircularProgress size={16} aria-hidden="true" />
+          <Typography variant="body2">{t('Reading files…')}</Typography>
+        </Box>
+      )}
+
+      {overlays.length > 0 && (
+        <TextField
+          select
+          size="small"
+          fullWidth
+          label={t('Overlay')}
+          value={selectedOverlay ?? ''}
+          onChange={e => selectOverlay(e.target.value)}
+          helperText={t('From {{source}}', { source: sourceLabel })}
+          sx={{ mb: 2 }}
+        >
+          {overlays.map(dir => (
+            <MenuItem key={dir} value={dir}>
+              {dir || t('(root)')}
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+          {error}
+        </Alert>
+      )}
+
+      {selectedOverlay !== null && !error && <ConfigureYAML {...yamlProps} />}
+    </>
+  );
+}
@@ -13,7 +13,7 @@ import DeployPure from './DeployPure';
  */
 export interface DeployProps {
   /** The selected deploy source; determines which content path is rendered. */
-  sourceType: 'container' | 'yaml' | null;
+  sourceType: 'container' | 'yaml' | 'helm' | 'kustomize' | null;
   /** Target namespace shown in the container-path subtitle. */
   namespace?: string;
   /** Generated YAML for the container-source review editor (read-only Monaco). */
@@ -31,6 +31,10 @@ export interface DeployProps {
   deployMessage: string;
   /** Advisory warnings when deployment resources would exceed namespace quota. */
   quotaWarnings: QuotaWarning[];
+  /** `true` while the Helm chart is being rendered into manifests. */
+  helmRendering?: boolean;
+  /** Why the Helm chart could not be rendered, if it could not. */
+  helmRenderError?: string | null;
 }
 
 /**
@@ -49,6 +53,8 @@ export default function Deploy({
   deployResult,
   deployMessage,
   quotaWarnings,
+  helmRendering,
+  helmRenderError,
 }: DeployProps) {
   const yamlObjects = useYamlObjects(sourceType, userPreviewYaml, yamlEditorValue);
   return (
@@ -60,6 +66,8 @@ export default function Deploy({
       deployMessage={deployMessage}
       yamlObjects={yamlObjects}
       quotaWarnings={quotaWarnings}
+      helmRendering={helmRendering}
+      helmRenderError={helmRenderError}
     />
   );
 }
@@ -3,7 +3,7 @@
 
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import MonacoEditor from '@monaco-editor/react';
-import { Box, Chip, Paper, Stack, Typography } from '@mui/material';
+import { Box, Chip, CircularProgress, Paper, Stack, Typography } from '@mui/material';
 import { alpha } from '@mui/material/styles';
 import React from 'react';
 import { K8sObject } from '../hooks/useYamlObjects';
@@ -16,7 +16,7 @@ import type { QuotaWarning } from '../utils/quotaCheck';
  */
 export interface DeployPureProps {
   /** The selected deploy source; controls which review UI is rendered. */
-  sourceType: 'container' | 'yaml' | null;
+  sourceType: 'container' | 'yaml' | 'helm' | 'kustomize' | null;
   /** Target namespace shown in the container-path subtitle. */
   namespace?: string;
   /** Generated YAML for the container-source review editor (read-only Monaco). */
@@ -32,6 +32,10 @@ export interface DeployPureProps {
   yamlObjects: K8sObject[];
   /** Advisory warnings when deployment resources would exceed namespace quota. */
   quotaWarnings?: QuotaWarning[];
+  /** `true` while the Helm chart is being rendered into manifests (Helm source path). */
+  helmRendering?: boolean;
+  /** Why the Helm chart could not be rendered, if it could not. */
+  helmRenderError?: string | null;
 }
 
 let tabFocusToggleCounter = 0;
@@ -40,7 +44,7 @@ let tabFocusToggleCounter = 0;
  * Pure presentational component for the Deploy wizard review step.
  *
  * Renders either a Monaco editor (container source) or resource-summary cards
- * (YAML source), plus an accessible status/error banner when a deploy result
+ * (YAML and Helm sources), plus an accessible status/error banner when a deploy result
  * is available. Contains no stateful hooks — all business-logic state comes from props.
  *
  * @see {@link useYamlObjects} for the YAML parsing hook that populates `yamlObjects`.
@@ -54,6 +58,8 @@ export default function DeployPure({
   deployMessage,
   yamlObjects,
   quotaWarnings = [],
+  helmRendering = false,
+  helmRenderError = null,
 }: DeployPureProps) {
   const { t } = useTranslation();
 
@@ -209,6 +215,24 @@ export default function DeployPure({
             />
           </Box>
         </>
+      ) : sourceType === 'helm' && (helmRendering || helmRenderError) ? (
+        helmRendering ? (
+          <Box role="status" sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+            <CircularProgress size={20} aria-hidden="true" />
+            <Typography variant="body2" color="text.secondary">
+              {t('Rendering chart')}...
+            </Typography>
+          </Box>
+        ) : (
+          <Typography
+            role="alert"
+            variant="body2"
+            color="error"
+            sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}
+          >
+            {helmRenderError}
+          </Typography>
+        )
       ) : (
         <>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
@@ -20,6 +20,16 @@ const containerConfigStub = {
     servicePort: 80,
     useCustomServicePort: false,
     serviceType: 'ClusterIP' as const,
+    exposureMode: 'none' as const,
+    ingressHost: '',
+    ingressPaths: [{ path: '/', pathType: 'Prefix' as const }],
+    ingressClassName: 'webapprouting.kubernetes.azure.com',
+    enableIngressTls: false,
+    ingressTlsSecretName: '',
+    enableCertManager: false,
+    certManagerClusterIssuer: 'letsencrypt',
+    gatewayName: '',
+    gatewayNamespace: '',
     enableResources: true,
     cpuRequest: '100m',
     cpuLimit: '500m',
@@ -60,6 +70,10 @@ const containerConfigStub = {
     workloadIdentityServiceAccount: '',
     enablePodAntiAffinity: true,
     enableTopologySpreadConstraints: true,
+    nodeSelector: [],
+    tolerations: [],
+    sidecarContainers: [],
+    initContainers: [],
     containerPreviewYaml: '',
   },
   setConfig: noOp as any,
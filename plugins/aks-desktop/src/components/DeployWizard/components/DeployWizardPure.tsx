@@ -25,9 +25,11 @@ export interface DeployWizardPureProps {
   /** Index of the currently active step (see {@link WizardStep}). */
   activeStep: WizardStep;
   /** Selected deploy source, or `null` while the user has not yet chosen. */
-  sourceType: 'yaml' | 'container' | null;
+  sourceType: 'yaml' | 'container' | 'helm' | 'kustomize' | null;
   /** Setter for {@link sourceType}. */
-  setSourceType: React.Dispatch<React.SetStateAction<'yaml' | 'container' | null>>;
+  setSourceType: React.Dispatch<
+    React.SetStateAction<'yaml' | 'container' | 'helm' | 'kustomize' | null>
+  >;
   /** Raw YAML text from the editor (YAML source path). */
   yamlEditorValue: string;
   /** Setter for {@link yamlEditorValue}. */
@@ -3,20 +3,40 @@
 
 import { Icon } from '@iconify/react';
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
-import { Box, Button, IconButton, TextField, Tooltip } from '@mui/material';
-import React from 'react';
-import { CONTAINER_STEPS } from '../hooks/useContainerConfiguration';
-import { ContainerConfigProp, ENV_VAR_KEY_PATTERN } from './configureContainerUtils';
+import { Alert, Box, Button, IconButton, TextField, Tooltip } from '@mui/material';
+import React, { useState } from 'react';
+import { CONTAINER_STEPS, type KeyVaultSecretRef } from '../hooks/useContainerConfiguration';
+import { useKeyVaultSecrets } from '../hooks/useKeyVaultSecrets';
+import { getKeyVaultEnvVars, KEY_VAULT_MOUNT_ROOT } from '../utils/keyVault';
+import {
+  ContainerConfigProp,
+  type DeployAzureContext,
+  ENV_VAR_KEY_PATTERN,
+} from './configureContainerUtils';
+import KeyVaultSecretDialog from './KeyVaultSecretDialog';
 
 interface EnvVarsStepProps {
   containerConfig: ContainerConfigProp;
+  /** Subscription and cluster; Key Vault references need them. */
+  azureContext?: DeployAzureContext;
 }
 
-export default function EnvVarsStep({ containerConfig }: EnvVarsStepProps) {
+export default function EnvVarsStep({ containerConfig, azureContext }: EnvVarsStepProps) {
   const { t } = useTranslation();
   const hasInvalidKeys = containerConfig.config.envVars.some(
     e => e.key.trim().length > 0 && !ENV_VAR_KEY_PATTERN.test(e.key)
   );
+  const [keyVaultRow, setKeyVaultRow] = useState<number | null>(null);
+  const usesKeyVault = getKeyVaultEnvVars(containerConfig.config.envVars).length > 0;
+  const keyVault = useKeyVaultSecrets(azureContext, usesKeyVault || keyVaultRow !== null);
+
+  const setKeyVaultRef = (idx: number, keyVaultRef: KeyVaultSecretRef | undefined) => {
+    containerConfig.setConfig(c => {
+      const v = [...c.envVars];
+      v[idx] = { ...v[idx], keyVaultRef, ...(keyVaultRef ? { value: '', isSecret: true } : {}) };
+      return { ...c, envVars: v };
+    });
+  };
 
   return (
     <>
@@ -41,38 +61,75 @@ export default function EnvVarsStep({ containerConfig }: EnvVarsStepProps) {
               }}
               sx={{ flex: 1 }}
             />
-            <TextField
-              label={t('Value')}
-              value={pair.value}
-              type={pair.isSecret ? 'password' : 'text'}
-              placeholder={
-                pair.isSecret && !pair.value ? t('(existing — enter value to overwrite)') : ''
-              }
-              onChange={e => {
-                const v = [...containerConfig.config.envVars];
-                v[idx] = { ...v[idx], value: e.target.value };
-                containerConfig.setConfig(c => ({ ...c, envVars: v }));
-              }}
-              sx={{ flex: 1 }}
-            />
+            {pair.keyVaultRef ? (
+              <TextField
+                label={t('Key Vault secret')}
+                value={`${pair.keyVaultRef.vaultName}/${pair.keyVaultRef.secretName}`}
+                InputProps={{ readOnly: true }}
+                sx={{ flex: 1 }}
+              />
+            ) : (
+              <TextField
+                label={t('Value')}
+                value={pair.value}
+                type={pair.isSecret ? 'password' : 'text'}
+                placeholder={
+                  pair.isSecret && !pair.value ? t('(existing — enter value to overwrite)') : ''
+                }
+                onChange={e => {
+                  const v = [...containerConfig.config.envVars];
+                  v[idx] = { ...v[idx], value: e.target.value };
+                  containerConfig.setConfig(c => ({ ...c, envVars: v }));
+                }}
+                sx={{ flex: 1 }}
+              />
+            )}
             <Tooltip
               title={
-                pair.isSecret
-                  ? t('Stored as Kubernetes Secret')
-                  : t('Mark as secret (stored as Kubernetes Secret)')
+                azureContext
+                  ? t('Reference a Key Vault secret')
+                  : t('Azure sign-in is required to reference Key Vault secrets.')
               }
             >
-              <IconButton
-                aria-label={t('toggle secret')}
-                onClick={() => {
-                  const v = [...containerConfig.config.envVars];
-                  v[idx] = { ...v[idx], isSecret: !v[idx].isSecret };
-                  containerConfig.setConfig(c => ({ ...c, envVars: v }));
-                }}
-              >
-                <Icon icon={pair.isSecret ? 'mdi:lock-outline' : 'mdi:lock-open-outline'} />
-              </IconButton>
+              <span>
+                <IconButton
+                  aria-label={t('Reference a Key Vault secret')}
+                  disabled={!azureContext}
+                  onClick={() => setKeyVaultRow(idx)}
+                >
+                  <Icon icon="mdi:key-chain-variant" />
+                </IconButton>
+              </span>
             </Tooltip>
+            {pair.keyVaultRef ? (
+              <Tooltip title={t('Use a value instead')}>
+                <IconButton
+                  aria-label={t('Remove Key Vault reference')}
+                  onClick={() => setKeyVaultRef(idx, undefined)}
+                >
+                  <Icon icon="mdi:link-variant-off" />
+                </IconButton>
+              </Tooltip>
+            ) : (
+              <Tooltip
+                title={
+                  pair.isSecret
+                    ? t('Stored as Kubernetes Secret')
+                    : t('Mark as secret (stored as Kubernetes Secret)')
+                }
+              >
+                <IconButton
+                  aria-label={t('toggle secret')}
+                  onClick={() => {
+                    const v = [...containerConfig.config.envVars];
+                    v[idx] = { ...v[idx], isSecret: !v[idx].isSecret };
+                    containerConfig.setConfig(c => ({ ...c, envVars: v }));
+                  }}
+                >
+                  <Icon icon={pair.isSecret ? 'mdi:lock-outline' : 'mdi:lock-open-outline'} />
+                </IconButton>
+              </Tooltip>
+            )}
             <IconButton
               aria-label={t('remove')}
               onClick={() =>
@@ -100,6 +157,47 @@ export default function EnvVarsStep({ containerConfig }: EnvVarsStepProps) {
           </Button>
         </Box>
       </Box>
+      {usesKeyVault && (
+        <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {keyVault.addonEnabled === false && azureContext && (
+            <Alert severity="warning">
+              {t(
+                'The Azure Key Vault secrets provider add-on is not enabled on this cluster, so the secrets cannot be mounted. Enable it with: az aks enable-addons --addons azure-keyvault-secrets-provider --name {{cluster}} --resource-group {{resourceGroup}}',
+                {
+                  cluster: azureContext.clusterName,
+                  resourceGroup: azureContext.resourceGroup,
+                }
+              )}
+            </Alert>
+          )}
+          {!containerConfig.config.enableWorkloadIdentity && (
+            <Alert severity="info">
+              {t(
+                'Key Vault secrets are read with the workload identity. Enable it in the Workload Identity step; a new identity is granted the Key Vault Secrets User role on the referenced vaults.'
+              )}
+            </Alert>
+          )}
+          <Alert severity="info" icon={false}>
+            {t('Referenced secrets are also mounted as files under {{path}}/<vault name>.', {
+              path: KEY_VAULT_MOUNT_ROOT,
+            })}
+          </Alert>
+        </Box>
+      )}
+      <KeyVaultSecretDialog
+        open={keyVaultRow !== null}
+        initialRef={
+          keyVaultRow !== null
+            ? containerConfig.config.envVars[keyVaultRow]?.keyVaultRef
+            : undefined
+        }
+        keyVault={keyVault}
+        onClose={() => setKeyVaultRow(null)}
+        onSelect={ref => {
+          if (keyVaultRow !== null) setKeyVaultRef(keyVaultRow, ref);
+          setKeyVaultRow(null);
+        }}
+      />
       <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
         <Button
           variant="outlined"
@@ -0,0 +1,261 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import type { ContainerConfig, IngressPathRule } from '../hooks/useContainerConfiguration';
+import { useTlsSecrets } from '../hooks/useTlsSecrets';
+import { getExposureErrors } from '../utils/exposure';
+import { ContainerConfigProp, LabelWithInfo } from './configureContainerUtils';
+
+interface ExposureSettingsProps {
+  containerConfig: ContainerConfigProp;
+  /** Namespace searched for existing TLS Secrets. */
+  namespace?: string;
+  /** Cluster searched for existing TLS Secrets. */
+  cluster?: string;
+}
+
+/**
+ * Ingress / Gateway API settings shown in the networking step. Generates an
+ * Ingress for the AKS application routing add-on or an HTTPRoute for an existing Gateway.
+ */
+export default function ExposureSettings({
+  containerConfig,
+  namespace,
+  cluster,
+}: ExposureSettingsProps) {
+  const { t } = useTranslation();
+  const { config, setConfig } = containerConfig;
+  const isIngress = config.exposureMode === 'ingress';
+  const tlsActive = isIngress && config.enableIngressTls;
+  const { secretNames, loading: loadingSecrets } = useTlsSecrets(namespace, cluster, tlsActive);
+  const errors = getExposureErrors(config);
+
+  const set = <K extends keyof ContainerConfig>(key: K, value: ContainerConfig[K]) =>
+    setConfig(c => ({ ...c, [key]: value }));
+
+  const updatePath = (index: number, patch: Partial<IngressPathRule>) =>
+    setConfig(c => ({
+      ...c,
+      ingressPaths: c.ingressPaths.map((p, i) => (i === index ? { ...p, ...patch } : p)),
+    }));
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="subtitle1" component="h3">
+        <LabelWithInfo
+          label={t('HTTP routing')}
+          infoText={t(
+            'Route HTTP traffic from a hostname and path to the service through an Ingress controller or a Gateway API gateway.'
+          )}
+        />
+      </Typography>
+      <RadioGroup
+        aria-label={t('HTTP routing')}
+        value={config.exposureMode}
+        onChange={e => set('exposureMode', e.target.value as ContainerConfig['exposureMode'])}
+      >
+        <FormControlLabel value="none" control={<Radio />} label={t('None')} />
+        <FormControlLabel
+          value="ingress"
+          control={<Radio />}
+          label={t('Ingress (application routing add-on)')}
+        />
+        <FormControlLabel value="gateway" control={<Radio />} label={t('Gateway API HTTPRoute')} />
+      </RadioGroup>
+
+      {config.exposureMode !== 'none' && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <TextField
+            label={t('Host')}
+            placeholder="app.example.com"
+            value={config.ingressHost}
+            error={errors.includes('host')}
+            helperText={
+              errors.includes('host')
+                ? tlsActive && !config.ingressHost.trim()
+                  ? t('A host is required when TLS is enabled.')
+                  : t('Enter a valid DNS hostname.')
+                : t('Leave empty to match requests for any host.')
+            }
+            onChange={e => set('ingressHost', e.target.value.toLowerCase())}
+            fullWidth
+          />
+
+          <Box>
+            <Typography variant="subtitle2">{t('Path rules')}</Typography>
+            {config.ingressPaths.map((rule, idx) => (
+              <Box key={idx} sx={{ display: 'flex', gap: 1, alignItems: 'center', mt: 1 }}>
+                <TextField
+                  size="small"
+                  label={t('Path')}
+                  value={rule.path}
+                  error={!rule.path.startsWith('/')}
+                  onChange={e => updatePath(idx, { path: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  select
+                  size="small"
+                  label={t('Match')}
+                  value={rule.pathType}
+                  onChange={e =>
+                    updatePath(idx, { pathType: e.target.value as IngressPathRule['pathType'] })
+                  }
+                  sx={{ width: 140 }}
+                >
+                  <MenuItem value="Prefix">{t('Prefix')}</MenuItem>
+                  <MenuItem value="Exact">{t('Exact')}</MenuItem>
+                </TextField>
+                <IconButton
+                  aria-label={t('Remove path {{path}}', { path: rule.path })}
+                  disabled={config.ingressPaths.length <= 1}
+                  onClick={() =>
+                    setConfig(c => ({
+                      ...c,
+                      ingressPaths: c.ingressPaths.filter((_, i) => i !== idx),
+                    }))
+                  }
+                >
+                  <Icon icon="mdi:delete-outline" />
+                </IconButton>
+              </Box>
+            ))}
+            {errors.includes('paths') && (
+              <Typography variant="caption" color="error" display="block">
+                {t('Paths must start with "/".')}
+              </Typography>
+            )}
+            <Button
+              variant="text"
+              onClick={() =>
+                setConfig(c => ({
+                  ...c,
+                  ingressPaths: [...c.ingressPaths, { path: '/', pathType: 'Prefix' }],
+                }))
+              }
+            >
+              {t('Add path')}
+            </Button>
+          </Box>
+
+          {isIngress && (
+            <>
+              <TextField
+                label={
+                  <LabelWithInfo
+                    label={t('Ingress class')}
+                    infoText={t(
+                      'The IngressClass that should serve this Ingress. The default is provided by the AKS application routing add-on.'
+                    )}
+                  />
+                }
+                value={config.ingressClassName}
+                onChange={e => set('ingressClassName', e.target.value)}
+                fullWidth
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={config.enableIngressTls}
+                    onChange={e => set('enableIngressTls', e.target.checked)}
+                  />
+                }
+                label={t('Enable TLS')}
+              />
+              {config.enableIngressTls && (
+                <>
+                  <Autocomplete
+                    freeSolo
+                    options={secretNames}
+                    loading={loadingSecrets}
+                    inputValue={config.ingressTlsSecretName}
+                    onInputChange={(_, value) => set('ingressTlsSecretName', value)}
+                    renderInput={params => (
+                      <TextField
+                        {...params}
+                        label={t('TLS secret')}
+                        error={errors.includes('tlsSecret')}
+                        helperText={
+                          config.enableCertManager
+                            ? t('cert-manager creates this Secret when it issues the certificate.')
+                            : t('Select an existing TLS Secret in the namespace.')
+                        }
+                      />
+                    )}
+                  />
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={config.enableCertManager}
+                        onChange={e => set('enableCertManager', e.target.checked)}
+                      />
+                    }
+                    label={
+                      <LabelWithInfo
+                        label={t('Issue certificate with cert-manager')}
+                        infoText={t(
+                          'Adds the cert-manager.io/cluster-issuer annotation so cert-manager requests a certificate for the host and stores it in the TLS secret.'
+                        )}
+                      />
+                    }
+                  />
+                  {config.enableCertManager && (
+                    <TextField
+                      label={t('ClusterIssuer')}
+                      value={config.certManagerClusterIssuer}
+                      error={errors.includes('issuer')}
+                      onChange={e => set('certManagerClusterIssuer', e.target.value)}
+                      fullWidth
+                    />
+                  )}
+                </>
+              )}
+            </>
+          )}
+
+          {config.exposureMode === 'gateway' && (
+            <>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <TextField
+                  label={t('Gateway name')}
+                  value={config.gatewayName}
+                  error={errors.includes('gateway')}
+                  onChange={e => set('gatewayName', e.target.value)}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  label={t('Gateway namespace')}
+                  placeholder={namespace}
+                  value={config.gatewayNamespace}
+                  onChange={e => set('gatewayNamespace', e.target.value)}
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+              <Typography variant="caption" color="text.secondary">
+                {t(
+                  'TLS for an HTTPRoute is terminated by the Gateway listener. Configure certificates on the Gateway.'
+                )}
+              </Typography>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,146 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import type { KeyVaultInfo } from '../../../utils/azure/az-keyvault';
+import type { KeyVaultSecretRef } from '../hooks/useContainerConfiguration';
+import type { UseKeyVaultSecretsResult } from '../hooks/useKeyVaultSecrets';
+
+interface KeyVaultSecretDialogProps {
+  open: boolean;
+  /** Reference being edited, if any. */
+  initialRef?: KeyVaultSecretRef;
+  keyVault: UseKeyVaultSecretsResult;
+  onClose: () => void;
+  onSelect: (ref: KeyVaultSecretRef) => void;
+}
+
+/** Picks a Key Vault and one of its secrets for an environment variable. */
+export default function KeyVaultSecretDialog({
+  open,
+  initialRef,
+  keyVault,
+  onClose,
+  onSelect,
+}: KeyVaultSecretDialogProps) {
+  const { t } = useTranslation();
+  const { vaults, vaultsLoading, vaultsError, loadVaults, loadSecrets } = keyVault;
+  const [vault, setVault] = useState<KeyVaultInfo | null>(null);
+  const [secretName, setSecretName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    loadVaults();
+    setSecretName(initialRef?.secretName ?? null);
+  }, [open]);
+
+  // Preselect the vault of the reference being edited once vaults are listed.
+  useEffect(() => {
+    if (!open) return;
+    const initial = vaults.find(v => v.name === initialRef?.vaultName) ?? null;
+    setVault(initial);
+    if (initial) loadSecrets(initial.name);
+  }, [open, vaults]);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{t('Reference a Key Vault secret')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {t(
+            'The secret is mounted with the Secrets Store CSI driver using the workload identity and exposed to the container as this variable.'
+          )}
+        </Typography>
+        {vaultsError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {vaultsError}
+          </Alert>
+        )}
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <Autocomplete
+            options={vaults}
+            loading={vaultsLoading}
+            value={vault}
+            getOptionLabel={v => v.name}
+            isOptionEqualToValue={(a, b) => a.id === b.id}
+            onChange={(_, value) => {
+              setVault(value);
+              setSecretName(null);
+              if (value) loadSecrets(value.name);
+            }}
+            renderInput={params => (
+              <TextField
+                {...params}
+                label={t('Key Vault')}
+                InputProps={{
+                  ...params.InputProps,
+                  endAdornment: (
+                    <>
+                      {vaultsLoading && <CircularProgress size={16} aria-hidden="true" />}
+                      {params.InputProps.endAdornment}
+                    </>
+                  ),
+                }}
+              />
+            )}
+          />
+          {vault && !vault.rbacAuthorization && (
+            <Alert severity="warning">
+              {t(
+                '{{vault}} uses access policies. Add a policy allowing the workload identity to get secrets; the Key Vault Secrets User role has no effect on it.',
+                { vault: vault.name }
+              )}
+            </Alert>
+          )}
+          {keyVault.secretsError && <Alert severity="error">{keyVault.secretsError}</Alert>}
+          <Autocomplete
+            options={keyVault.secrets.map(s => s.name)}
+            loading={keyVault.secretsLoading}
+            disabled={!vault}
+            value={secretName}
+            onChange={(_, value) => setSecretName(value)}
+            renderInput={params => (
+              <TextField
+                {...params}
+                label={t('Secret')}
+                helperText={t('Secret values are never read by the app.')}
+              />
+            )}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('Cancel')}</Button>
+        <Button
+          variant="contained"
+          disabled={!vault || !secretName}
+          onClick={() => {
+            if (!vault || !secretName) return;
+            onSelect({
+              vaultName: vault.name,
+              vaultId: vault.id,
+              tenantId: vault.tenantId,
+              secretName,
+            });
+          }}
+        >
+          {t('Use secret')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
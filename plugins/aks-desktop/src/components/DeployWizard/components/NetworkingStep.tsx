@@ -5,13 +5,23 @@ import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Box, Button, FormControlLabel, Switch, TextField, Typography } from '@mui/material';
 import React from 'react';
 import { CONTAINER_STEPS } from '../hooks/useContainerConfiguration';
+import { getExposureErrors } from '../utils/exposure';
 import { ContainerConfigProp, LabelWithInfo } from './configureContainerUtils';
+import ExposureSettings from './ExposureSettings';
 
 interface NetworkingStepProps {
   containerConfig: ContainerConfigProp;
+  /** Target namespace; used to look up existing TLS Secrets. */
+  namespace?: string;
+  /** Target cluster; used to look up existing TLS Secrets. */
+  cluster?: string;
 }
 
-export default function NetworkingStep({ containerConfig }: NetworkingStepProps) {
+export default function NetworkingStep({
+  containerConfig,
+  namespace,
+  cluster,
+}: NetworkingStepProps) {
   const { t } = useTranslation();
 
   return (
@@ -154,6 +164,7 @@ export default function NetworkingStep({ containerConfig }: NetworkingStepProps)
           </Typography>
         </Box>
       </Box>
+      <ExposureSettings containerConfig={containerConfig} namespace={namespace} cluster={cluster} />
       <Box sx={{ mt: 2, display: 'flex', gap: 1 }}>
         <Button
           variant="outlined"
@@ -165,6 +176,7 @@ export default function NetworkingStep({ containerConfig }: NetworkingStepProps)
         </Button>
         <Button
           variant="contained"
+          disabled={getExposureErrors(containerConfig.config).length > 0}
           onClick={() =>
             containerConfig.setConfig(c => ({ ...c, containerStep: CONTAINER_STEPS.HEALTHCHECKS }))
           }
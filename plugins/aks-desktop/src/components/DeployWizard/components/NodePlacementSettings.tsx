@@ -0,0 +1,270 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useMemo } from 'react';
+import { AGENT_POOL_LABEL } from '../../../utils/azure/az-nodepools';
+import { formatTaint } from '../../ClusterCapabilityCard/nodePools';
+import type {
+  ContainerConfig,
+  NodeSelectorEntry,
+  TolerationEntry,
+} from '../hooks/useContainerConfiguration';
+import { useNodePoolOptions } from '../hooks/useNodePoolOptions';
+import {
+  getNodePoolLabels,
+  getUntoleratedTaints,
+  placementForPool,
+  poolMatchesSelector,
+  TOLERATION_EFFECTS,
+} from '../utils/nodePlacement';
+import {
+  ContainerConfigProp,
+  type DeployAzureContext,
+  LabelWithInfo,
+} from './configureContainerUtils';
+
+interface NodePlacementSettingsProps {
+  containerConfig: ContainerConfigProp;
+  /** Cluster whose node pools supply label and taint suggestions. */
+  azureContext?: DeployAzureContext;
+}
+
+/** Text field with suggestions that still accepts any value. */
+function SuggestField({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Autocomplete
+      freeSolo
+      options={options}
+      inputValue={value}
+      onInputChange={(_, next) => onChange(next)}
+      sx={{ flex: 1 }}
+      renderInput={params => <TextField {...params} label={label} size="small" />}
+    />
+  );
+}
+
+/**
+ * Node selector and tolerations of the deployment. Keys and values are
+ * suggested from the labels and taints of the cluster's node pools, and a
+ * warning shows when no pool would accept the pods.
+ */
+export default function NodePlacementSettings({
+  containerConfig,
+  azureContext,
+}: NodePlacementSettingsProps) {
+  const { t } = useTranslation();
+  const { pools, error } = useNodePoolOptions(azureContext);
+  const { nodeSelector, tolerations } = containerConfig.config;
+
+  const poolLabels = useMemo(() => pools.map(getNodePoolLabels), [pools]);
+  const labelKeys = useMemo(
+    () => [...new Set(poolLabels.flatMap(labels => Object.keys(labels)))].sort(),
+    [poolLabels]
+  );
+  const taintKeys = useMemo(
+    () => [...new Set(pools.flatMap(pool => pool.taints.map(taint => taint.key)))].sort(),
+    [pools]
+  );
+  const labelValues = (key: string) =>
+    [...new Set(poolLabels.map(labels => labels[key]).filter(Boolean))].sort();
+
+  // The pool picker reflects a selector that pins exactly one pool.
+  const selectedPool =
+    nodeSelector.length === 1 && nodeSelector[0].key === AGENT_POOL_LABEL
+      ? nodeSelector[0].value
+      : '';
+
+  const setPlacement = (patch: Partial<Pick<ContainerConfig, 'nodeSelector' | 'tolerations'>>) =>
+    containerConfig.setConfig(c => ({ ...c, ...patch }));
+  const updateSelector = (idx: number, patch: Partial<NodeSelectorEntry>) =>
+    setPlacement({
+      nodeSelector: nodeSelector.map((e, i) => (i === idx ? { ...e, ...patch } : e)),
+    });
+  const updateToleration = (idx: number, patch: Partial<TolerationEntry>) =>
+    setPlacement({ tolerations: tolerations.map((e, i) => (i === idx ? { ...e, ...patch } : e)) });
+
+  const hasSelector = nodeSelector.some(e => e.key.trim());
+  const matchingPools = pools.filter(pool => poolMatchesSelector(pool, nodeSelector));
+  const schedulablePools = matchingPools.filter(
+    pool => getUntoleratedTaints(pool, tolerations).length === 0
+  );
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <LabelWithInfo
+        label={t('Node placement')}
+        infoText={t(
+          'Limit the pods to nodes with matching labels, and let them run on nodes whose taints would otherwise keep them off.'
+        )}
+      />
+      {error && (
+        <Alert severity="info">
+          {t('Node pool labels could not be loaded: {{error}}', { error })}
+        </Alert>
+      )}
+      {pools.length > 0 && (
+        <TextField
+          select
+          size="small"
+          label={t('Node pool')}
+          value={selectedPool}
+          onChange={e => {
+            const pool = pools.find(p => p.name === e.target.value);
+            setPlacement(pool ? placementForPool(pool) : { nodeSelector: [], tolerations: [] });
+          }}
+          helperText={t('Fills in the node selector and tolerations for one pool.')}
+        >
+          <MenuItem value="">{t('Any pool')}</MenuItem>
+          {pools.map(pool => (
+            <MenuItem key={pool.name} value={pool.name}>
+              {pool.name} ({pool.vmSize})
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+
+      <Typography variant="subtitle2">{t('Node selector')}</Typography>
+      {nodeSelector.map((entry, idx) => (
+        <Box key={idx} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <SuggestField
+            label={t('Label')}
+            value={entry.key}
+            options={labelKeys}
+            onChange={key => updateSelector(idx, { key })}
+          />
+          <SuggestField
+            label={t('Value')}
+            value={entry.value}
+            options={labelValues(entry.key)}
+            onChange={value => updateSelector(idx, { value })}
+          />
+          <IconButton
+            aria-label={t('Remove node selector {{key}}', { key: entry.key })}
+            onClick={() => setPlacement({ nodeSelector: nodeSelector.filter((_, i) => i !== idx) })}
+          >
+            <Icon icon="mdi:delete-outline" />
+          </IconButton>
+        </Box>
+      ))}
+      <Box>
+        <Button
+          variant="text"
+          onClick={() => setPlacement({ nodeSelector: [...nodeSelector, { key: '', value: '' }] })}
+        >
+          {t('Add label')}
+        </Button>
+      </Box>
+
+      <Typography variant="subtitle2">{t('Tolerations')}</Typography>
+      {tolerations.map((entry, idx) => (
+        <Box key={idx} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <SuggestField
+            label={t('Taint key')}
+            value={entry.key}
+            options={taintKeys}
+            onChange={key => updateToleration(idx, { key })}
+          />
+          <TextField
+            select
+            size="small"
+            label={t('Operator')}
+            value={entry.operator}
+            onChange={e =>
+              updateToleration(idx, { operator: e.target.value as TolerationEntry['operator'] })
+            }
+            sx={{ minWidth: 110 }}
+          >
+            <MenuItem value="Equal">Equal</MenuItem>
+            <MenuItem value="Exists">Exists</MenuItem>
+          </TextField>
+          <TextField
+            size="small"
+            label={t('Value')}
+            value={entry.operator === 'Exists' ? '' : entry.value}
+            disabled={entry.operator === 'Exists'}
+            onChange={e => updateToleration(idx, { value: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            select
+            size="small"
+            label={t('Effect')}
+            value={entry.effect}
+            onChange={e =>
+              updateToleration(idx, { effect: e.target.value as TolerationEntry['effect'] })
+            }
+            sx={{ minWidth: 160 }}
+          >
+            {TOLERATION_EFFECTS.map(effect => (
+              <MenuItem key={effect} value={effect}>
+                {effect || t('Any')}
+              </MenuItem>
+            ))}
+          </TextField>
+          <IconButton
+            aria-label={t('Remove toleration {{key}}', { key: entry.key })}
+            onClick={() => setPlacement({ tolerations: tolerations.filter((_, i) => i !== idx) })}
+          >
+            <Icon icon="mdi:delete-outline" />
+          </IconButton>
+        </Box>
+      ))}
+      <Box>
+        <Button
+          variant="text"
+          onClick={() =>
+            setPlacement({
+              tolerations: [
+                ...tolerations,
+                { key: '', operator: 'Equal', value: '', effect: 'NoSchedule' },
+              ],
+            })
+          }
+        >
+          {t('Add toleration')}
+        </Button>
+      </Box>
+
+      {pools.length > 0 && hasSelector && matchingPools.length === 0 && (
+        <Alert severity="warning">
+          {t('No node pool has these labels. The pods will stay pending.')}
+        </Alert>
+      )}
+      {matchingPools.length > 0 && schedulablePools.length === 0 && (
+        <Alert severity="warning">
+          {t('The matching node pools have taints the pods do not tolerate: {{taints}}', {
+            taints: [
+              ...new Set(
+                matchingPools.flatMap(pool =>
+                  getUntoleratedTaints(pool, tolerations).map(formatTaint)
+                )
+              ),
+            ].join(', '),
+          })}
+        </Alert>
+      )}
+    </Box>
+  );
+}
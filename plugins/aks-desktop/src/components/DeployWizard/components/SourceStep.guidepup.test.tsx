@@ -58,7 +58,7 @@ function renderStory(storyArgs: SourceStepProps) {
 async function collect(): Promise<string[]> {
   await virtual.start({ container: document.body });
 
-  for (let i = 0; i < 80; i++) {
+  for (let i = 0; i < 140; i++) {
     await virtual.next();
   }
 
@@ -22,7 +22,7 @@ const Template: StoryFn<SourceStepProps> = args => <SourceStep {...args} />;
 
 const noOp = () => {};
 
-/** No source selected — both cards show "not pressed". */
+/** No source selected — every card shows "not pressed". */
 export const NoSelection = Template.bind({});
 NoSelection.args = {
   sourceType: null,
@@ -42,3 +42,17 @@ YamlSelected.args = {
   sourceType: 'yaml',
   onSourceTypeChange: noOp,
 };
+
+/** Helm Chart source selected. */
+export const HelmSelected = Template.bind({});
+HelmSelected.args = {
+  sourceType: 'helm',
+  onSourceTypeChange: noOp,
+};
+
+/** Kustomize source selected. */
+export const KustomizeSelected = Template.bind({});
+KustomizeSelected.args = {
+  sourceType: 'kustomize',
+  onSourceTypeChange: noOp,
+};
@@ -8,16 +8,16 @@ import { useTheme } from '@mui/material/styles';
 import React from 'react';
 
 type DeploymentSource = {
-  type: 'container' | 'yaml';
+  type: 'container' | 'yaml' | 'helm' | 'kustomize';
   displayName: string;
   description: string;
-  icon: 'container' | 'yaml';
+  icon: 'container' | 'yaml' | 'helm' | 'kustomize';
   features: string[];
 };
 
 export interface SourceStepProps {
-  sourceType: 'container' | 'yaml' | null;
-  onSourceTypeChange: (type: 'container' | 'yaml') => void;
+  sourceType: 'container' | 'yaml' | 'helm' | 'kustomize' | null;
+  onSourceTypeChange: (type: 'container' | 'yaml' | 'helm' | 'kustomize') => void;
 }
 
 function getDeploymentSources(t: (key: string) => string): DeploymentSource[] {
@@ -44,6 +44,28 @@ function getDeploymentSources(t: (key: string) => string): DeploymentSource[] {
         t('Preview and basic validation before apply'),
       ],
     },
+    {
+      type: 'helm',
+      displayName: t('Helm Chart'),
+      description: t('Deploy a chart from an OCI registry, including ACR, or a local .tgz'),
+      icon: 'helm',
+      features: [
+        t('Values form generated from the chart schema'),
+        t('Raw values editor for everything else'),
+        t('Upgrades reuse the values of the previous deploy'),
+      ],
+    },
+    {
+      type: 'kustomize',
+      displayName: t('Kustomize'),
+      description: t('Build a Kustomize overlay from a folder or a GitHub repository'),
+      icon: 'kustomize',
+      features: [
+        t('Pick the overlay to deploy, such as dev or prod'),
+        t('Bases, patches, generators and image overrides'),
+        t('Review the built manifests before apply'),
+      ],
+    },
   ];
 }
 
@@ -63,7 +85,13 @@ export default function SourceStep({ sourceType, onSourceTypeChange }: SourceSte
         {deploymentSources.map(source => {
           const selected = sourceType === source.type;
           const iconName =
-            source.icon === 'container' ? 'mdi:cube-outline' : 'mdi:file-code-outline';
+            source.icon === 'container'
+              ? 'mdi:cube-outline'
+              : source.icon === 'helm'
+              ? 'mdi:ship-wheel'
+              : source.icon === 'kustomize'
+              ? 'mdi:layers-outline'
+              : 'mdi:file-code-outline';
           return (
             <Card
               key={source.type}
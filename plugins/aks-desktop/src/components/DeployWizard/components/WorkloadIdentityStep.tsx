@@ -25,6 +25,7 @@ import {
   getDeployIdentityName,
   useDeployWorkloadIdentity,
 } from '../hooks/useDeployWorkloadIdentity';
+import { getKeyVaultEnvVars, getKeyVaultResourceIds } from '../utils/keyVault';
 import {
   type ContainerConfigProp,
   type DeployAzureContext,
@@ -61,6 +62,11 @@ export default function WorkloadIdentityStep({
   const [identityLoadError, setIdentityLoadError] = useState<string | null>(null);
   const [identityValidationError, setIdentityValidationError] = useState<string | null>(null);
   const loadRequestRef = useRef(0);
+  const keyVaultNames = [
+    ...new Set(
+      getKeyVaultEnvVars(containerConfig.config.envVars).map(e => e.keyVaultRef.vaultName)
+    ),
+  ];
 
   const handleLoadExistingIdentities = async (rg?: string) => {
     if (!azureContext) return;
@@ -121,6 +127,13 @@ export default function WorkloadIdentityStep({
       )}
       {containerConfig.config.enableWorkloadIdentity && azureContext && (
         <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {identityMode === 'create' && keyVaultNames.length > 0 && (
+            <Typography variant="body2" color="text.secondary">
+              {t('The identity is granted read access to the Key Vault secrets in: {{vaults}}.', {
+                vaults: keyVaultNames.join(', '),
+              })}
+            </Typography>
+          )}
           <RadioGroup
             value={identityMode}
             onChange={e => {
@@ -198,6 +211,7 @@ export default function WorkloadIdentityStep({
                     clusterName: azureContext.clusterName,
                     namespace: namespace || 'default',
                     appName,
+                    keyVaultResourceIds: getKeyVaultResourceIds(containerConfig.config.envVars),
                     isManagedNamespace: azureContext.isManagedNamespace ?? false,
                     azureRbacEnabled: azureContext.azureRbacEnabled,
                   });
@@ -292,6 +306,15 @@ export default function WorkloadIdentityStep({
                   )}
                 </Alert>
               )}
+              {containerConfig.config.workloadIdentityClientId &&
+                identityMode === 'existing' &&
+                keyVaultNames.length > 0 && (
+                  <Alert severity="info">
+                    {t('The identity also needs the Key Vault Secrets User role on: {{vaults}}.', {
+                      vaults: keyVaultNames.join(', '),
+                    })}
+                  </Alert>
+                )}
               {identityLoadError && (
                 <Typography variant="body2" color="error">
                   {identityLoadError}
@@ -2,12 +2,122 @@
 // Licensed under the Apache 2.0.
 
 import { useEffect, useState } from 'react';
+import { APP_ROUTING_INGRESS_CLASS } from '../utils/exposure';
+
+/** A Key Vault secret read through the Secrets Store CSI driver. */
+export interface KeyVaultSecretRef {
+  vaultName: string;
+  /** Resource ID of the vault; the workload identity is granted access at this scope. */
+  vaultId: string;
+  tenantId: string;
+  secretName: string;
+}
+
+/** A single environment variable entry; secret values are stored in a Kubernetes Secret. */
+export interface EnvVarEntry {
+  key: string;
+  value: string;
+  isSecret: boolean;
+  /** When set, the value comes from this Key Vault secret and {@link value} is ignored. */
+  keyVaultRef?: KeyVaultSecretRef;
+}
+
+/** A path routed to the application by the generated Ingress or HTTPRoute. */
+export interface IngressPathRule {
+  path: string;
+  pathType: 'Prefix' | 'Exact';
+}
+
+/** A `spec.nodeSelector` entry; pods only run on nodes carrying this label. */
+export interface NodeSelectorEntry {
+  key: string;
+  value: string;
+}
+
+/** A `spec.tolerations` entry letting pods run on nodes with a matching taint. */
+export interface TolerationEntry {
+  /** Empty with `Exists` tolerates every taint. */
+  key: string;
+  operator: 'Equal' | 'Exists';
+  /** Ignored for `Exists`. */
+  value: string;
+  /** Empty tolerates every effect. */
+  effect: '' | 'NoSchedule' | 'PreferNoSchedule' | 'NoExecute';
+}
+
+/** HTTP GET probe settings for an additional (sidecar or init) container. */
+export interface AdditionalContainerProbe {
+  enabled: boolean;
+  path: string;
+  port: number;
+  initialDelay: number;
+  period: number;
+  timeout: number;
+  failure: number;
+}
+
+/**
+ * An extra container in the pod besides the primary application container:
+ * either a sidecar (log shipper, auth proxy) or an init container (migrations).
+ * Probes are only emitted for sidecars — Kubernetes rejects probes on init containers.
+ */
+export interface AdditionalContainerConfig {
+  name: string;
+  image: string;
+  /** Space-separated command override. Empty uses the image entrypoint. */
+  command: string;
+  /** Space-separated arguments passed to the command. */
+  args: string;
+  ports: number[];
+  enableResources: boolean;
+  cpuRequest: string;
+  cpuLimit: string;
+  memoryRequest: string;
+  memoryLimit: string;
+  envVars: EnvVarEntry[];
+  livenessProbe: AdditionalContainerProbe;
+  readinessProbe: AdditionalContainerProbe;
+}
+
+/** Which list of {@link ContainerConfig} an additional container belongs to. */
+export type AdditionalContainerKind = 'sidecarContainers' | 'initContainers';
+
+/** Returns an empty additional container with the same defaults as the primary container. */
+export function createAdditionalContainer(
+  overrides?: Partial<AdditionalContainerConfig>
+): AdditionalContainerConfig {
+  const probe: AdditionalContainerProbe = {
+    enabled: false,
+    path: '/',
+    port: 80,
+    initialDelay: 0,
+    period: 10,
+    timeout: 1,
+    failure: 3,
+  };
+  return {
+    name: '',
+    image: '',
+    command: '',
+    args: '',
+    ports: [],
+    enableResources: true,
+    cpuRequest: '50m',
+    cpuLimit: '200m',
+    memoryRequest: '64Mi',
+    memoryLimit: '256Mi',
+    envVars: [],
+    livenessProbe: { ...probe },
+    readinessProbe: { ...probe },
+    ...overrides,
+  };
+}
 
 /**
  * Flat configuration state for the container deployment wizard.
  * Organized by section: UI state, Basic, Networking, Resources,
  * Environment variables, Health probes, HPA, Security,
- * Workload Identity, and Scheduling.
+ * Workload Identity, Scheduling, and Additional containers.
  */
 export interface ContainerConfig {
   // -- UI state --
@@ -25,6 +135,21 @@ export interface ContainerConfig {
   servicePort: number;
   useCustomServicePort: boolean;
   serviceType: 'ClusterIP' | 'LoadBalancer';
+  /** Layer-7 exposure in front of the Service: none, an Ingress, or a Gateway API HTTPRoute. */
+  exposureMode: 'none' | 'ingress' | 'gateway';
+  /** Hostname matched by the Ingress rule / HTTPRoute. Empty matches any host. */
+  ingressHost: string;
+  ingressPaths: IngressPathRule[];
+  ingressClassName: string;
+  enableIngressTls: boolean;
+  /** Secret of type `kubernetes.io/tls` holding the certificate (created by cert-manager if enabled). */
+  ingressTlsSecretName: string;
+  enableCertManager: boolean;
+  certManagerClusterIssuer: string;
+  /** Gateway the HTTPRoute attaches to. */
+  gatewayName: string;
+  /** Namespace of the Gateway; empty means the deployment namespace. */
+  gatewayNamespace: string;
 
   // -- Resources --
   enableResources: boolean;
@@ -34,7 +159,7 @@ export interface ContainerConfig {
   memoryLimit: string;
 
   // -- Environment variables --
-  envVars: Array<{ key: string; value: string; isSecret: boolean }>;
+  envVars: EnvVarEntry[];
 
   // -- Health probes --
   enableLivenessProbe: boolean;
@@ -81,6 +206,16 @@ export interface ContainerConfig {
   // -- Scheduling --
   enablePodAntiAffinity: boolean;
   enableTopologySpreadConstraints: boolean;
+  /** Node labels the pods must run on, e.g. a node pool name. */
+  nodeSelector: NodeSelectorEntry[];
+  /** Node taints the pods accept. */
+  tolerations: TolerationEntry[];
+
+  // -- Additional containers --
+  /** Sidecars that run alongside the primary container for the lifetime of the pod. */
+  sidecarContainers: AdditionalContainerConfig[];
+  /** Init containers that run to completion, in order, before any other container starts. */
+  initContainers: AdditionalContainerConfig[];
 }
 
 /** Named indices for the container configuration stepper. */
@@ -93,6 +228,7 @@ export const CONTAINER_STEPS = {
   HPA: 5,
   WORKLOAD_IDENTITY: 6,
   ADVANCED: 7,
+  ADDITIONAL_CONTAINERS: 8,
 } as const;
 
 export function useContainerConfiguration(
@@ -109,6 +245,16 @@ export function useContainerConfiguration(
       servicePort: 80,
       useCustomServicePort: false,
       serviceType: 'ClusterIP',
+      exposureMode: 'none',
+      ingressHost: '',
+      ingressPaths: [{ path: '/', pathType: 'Prefix' }],
+      ingressClassName: APP_ROUTING_INGRESS_CLASS,
+      enableIngressTls: false,
+      ingressTlsSecretName: '',
+      enableCertManager: false,
+      certManagerClusterIssuer: 'letsencrypt',
+      gatewayName: '',
+      gatewayNamespace: '',
       enableResources: true,
       cpuRequest: '100m',
       cpuLimit: '500m',
@@ -149,6 +295,10 @@ export function useContainerConfiguration(
       workloadIdentityServiceAccount: '',
       enablePodAntiAffinity: true,
       enableTopologySpreadConstraints: true,
+      nodeSelector: [],
+      tolerations: [],
+      sidecarContainers: [],
+      initContainers: [],
       containerPreviewYaml: '',
     };
 
@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the Apache 2.0.
 
-import { act, renderHook } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
 
 const telemetryMocks = vi.hoisted(() => ({
@@ -42,14 +42,31 @@ vi.mock('../utils/dryRunApply', () => ({
   dryRunApply: vi.fn(),
 }));
 
+vi.mock('../utils/quotaCheck', () => ({
+  checkResourceQuota: vi.fn(async () => []),
+}));
+
+vi.mock('../../../utils/kubernetes/helm', () => ({
+  templateHelmChart: vi.fn(),
+  showHelmChart: vi.fn(),
+  showHelmValues: vi.fn(),
+  readHelmValuesSchema: vi.fn(),
+  readChartValuesSchema: vi.fn(async () => ({ success: true, data: null })),
+  helmRegistryLogin: vi.fn(),
+  isHelmInstalled: vi.fn(async () => true),
+}));
+
 import { apply } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { templateHelmChart } from '../../../utils/kubernetes/helm';
 import { dryRunApply } from '../utils/dryRunApply';
+import { loadHelmReleases } from '../utils/helmReleases';
 import { generateYamlForContainer } from '../utils/yamlGenerator';
 import { useDeployWizard, WizardStep } from './useDeployWizard';
 
 const mockApply = vi.mocked(apply);
 const mockDryRunApply = vi.mocked(dryRunApply);
 const mockGenerateYaml = vi.mocked(generateYamlForContainer);
+const mockTemplateHelmChart = vi.mocked(templateHelmChart);
 
 describe('useDeployWizard', () => {
   it('has correct initial state', () => {
@@ -297,4 +314,75 @@ describe('useDeployWizard', () => {
     expect(result.current.deployResult).toBe('success');
     expect(mockApply).toHaveBeenCalled();
   });
+
+  it('deploys rendered Helm manifests and records the release', async () => {
+    localStorage.clear();
+    mockTemplateHelmChart.mockResolvedValue({
+      success: true,
+      data: 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: web-config\n',
+    });
+    mockDryRunApply.mockResolvedValueOnce(undefined);
+    mockApply.mockResolvedValueOnce(undefined as any);
+
+    const { result } = renderHook(() => useDeployWizard({ cluster: 'c1', namespace: 'shop' }));
+    act(() => {
+      result.current.setSourceType('helm');
+      result.current.helmChart.updateConfig({
+        chartRef: 'oci://example.azurecr.io/helm/web',
+        releaseName: 'web',
+        valuesYaml: 'replicaCount: 2\n',
+      });
+    });
+    act(() => {
+      result.current.handleNext();
+      result.current.handleNext();
+    });
+    await waitFor(() => expect(result.current.helmChart.manifest).not.toBe(''));
+
+    await act(async () => {
+      await result.current.handleDeploy();
+    });
+
+    expect(mockTemplateHelmChart).toHaveBeenCalledWith(
+      expect.objectContaining({
+        releaseName: 'web',
+        namespace: 'shop',
+        values: { replicaCount: 2 },
+      })
+    );
+    expect(mockApply).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'ConfigMap', metadata: { name: 'web-config' } }),
+      'c1'
+    );
+    expect(result.current.deployResult).toBe('success');
+    expect(loadHelmReleases('c1', 'shop')).toEqual([
+      expect.objectContaining({ releaseName: 'web', valuesYaml: 'replicaCount: 2\n' }),
+    ]);
+  });
+
+  it('fills the YAML editor with the built Kustomize overlay', async () => {
+    const folderFile = (path: string, content: string) => {
+      const file = new File([content], path.split('/').pop()!);
+      Object.defineProperty(file, 'webkitRelativePath', { value: path });
+      return file;
+    };
+    const { result } = renderHook(() => useDeployWizard({ cluster: 'c1', namespace: 'shop' }));
+    act(() => {
+      result.current.setSourceType('kustomize');
+    });
+    expect(result.current.isStepValid(WizardStep.CONFIGURE)).toBe(false);
+
+    await act(async () => {
+      await result.current.kustomize.loadFolder([
+        folderFile('app/base/kustomization.yaml', 'resources:\n  - cm.yaml\n'),
+        folderFile('app/base/cm.yaml', 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: web\n'),
+        folderFile('app/prod/kustomization.yaml', 'resources:\n  - ../base\nnamePrefix: prod-\n'),
+      ]);
+    });
+
+    expect(result.current.kustomize.error).toBeNull();
+    expect(result.current.kustomize.overlays).toEqual(['prod', 'base']);
+    expect(result.current.yamlEditorValue).toContain('name: prod-web');
+    expect(result.current.isStepValid(WizardStep.CONFIGURE)).toBe(true);
+  });
 });
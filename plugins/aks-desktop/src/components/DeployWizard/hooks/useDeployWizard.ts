@@ -6,12 +6,18 @@ import { apply } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
 import React, { useEffect, useState } from 'react';
 import YAML from 'yaml';
 import { trackError, trackFeature } from '../../../telemetry';
+import { trackActivity } from '../../../utils/shared/activityLog';
+import { hasInvalidAdditionalContainers } from '../utils/additionalContainers';
 import { dryRunApply } from '../utils/dryRunApply';
+import { getExposureErrors } from '../utils/exposure';
+import { getKeyVaultErrors } from '../utils/keyVault';
 import { applyNamespaceOverride } from '../utils/namespaceOverride';
 import { checkResourceQuota, type QuotaWarning } from '../utils/quotaCheck';
 import { type ContainerDeploymentConfig, generateYamlForContainer } from '../utils/yamlGenerator';
 import type { ContainerConfig } from './useContainerConfiguration';
 import { useContainerConfiguration } from './useContainerConfiguration';
+import { useHelmChart } from './useHelmChart';
+import { useKustomizeSource } from './useKustomizeSource';
 
 function safelyTrackDeploy(status: 'started' | 'succeeded' | 'failed') {
   try {
@@ -63,23 +69,28 @@ function flattenListResources(docs: any[]): any[] {
 
 /** Returns the raw YAML text for the current source type. */
 function getDeployText(
-  sourceType: 'yaml' | 'container' | null,
+  sourceType: 'yaml' | 'container' | 'helm' | 'kustomize' | null,
   config: ContainerConfig,
   namespace?: string,
-  yamlEditorValue?: string
+  yamlEditorValue?: string,
+  helmManifest?: string
 ): string {
-  return sourceType === 'container'
-    ? generateYamlForContainer(toYamlConfig(config, namespace))
-    : yamlEditorValue ?? '';
+  if (sourceType === 'container') {
+    return generateYamlForContainer(toYamlConfig(config, namespace));
+  }
+  return sourceType === 'helm' ? helmManifest ?? '' : yamlEditorValue ?? '';
 }
 
-/** Parses YAML text into docs, applying namespace override for YAML-source only. */
+/**
+ * Parses YAML text into docs, applying namespace override for user-supplied
+ * YAML and rendered Helm charts.
+ */
 function parseDeployDocs(
-  sourceType: 'yaml' | 'container' | null,
+  sourceType: 'yaml' | 'container' | 'helm' | 'kustomize' | null,
   text: string,
   namespace?: string
 ): any[] {
-  return sourceType === 'yaml' ? parseAndOverride(text, namespace) : parseAndOverride(text);
+  return sourceType === 'container' ? parseAndOverride(text) : parseAndOverride(text, namespace);
 }
 
 /** Strips UI-only fields from a full ContainerConfig, returning only YAML-generation fields. */
@@ -97,9 +108,9 @@ function toYamlConfig(config: ContainerConfig, namespace?: string): ContainerDep
  * Used as numeric indices for `activeStep` comparisons.
  */
 export enum WizardStep {
-  /** Step 0 — choose between YAML upload and container-image configuration. */
+  /** Step 0 — choose between YAML upload, container-image configuration and a Helm chart. */
   SOURCE = 0,
-  /** Step 1 — edit the YAML or fill the container-image form. */
+  /** Step 1 — edit the YAML, fill the container-image form or configure the chart. */
   CONFIGURE = 1,
   /** Step 2 — review the generated manifests and trigger deployment. */
   DEPLOY = 2,
@@ -116,6 +127,8 @@ export interface UseDeployWizardOptions {
   /** Pre-fills the application name field in the container-configuration step. */
   initialApplicationName?: string;
   initialContainerConfig?: Partial<ContainerConfig>;
+  /** Azure context; its subscription's registries are offered for Helm charts. */
+  azureContext?: { subscriptionId: string };
 }
 
 /**
@@ -126,9 +139,11 @@ export interface UseDeployWizardResult {
   /** Index of the currently active wizard step (see {@link WizardStep}). */
   activeStep: WizardStep;
   /** Selected deploy source, or `null` if not yet chosen. */
-  sourceType: 'yaml' | 'container' | null;
+  sourceType: 'yaml' | 'container' | 'helm' | 'kustomize' | null;
   /** Setter for {@link sourceType}. */
-  setSourceType: React.Dispatch<React.SetStateAction<'yaml' | 'container' | null>>;
+  setSourceType: React.Dispatch<
+    React.SetStateAction<'yaml' | 'container' | 'helm' | 'kustomize' | null>
+  >;
   /** Raw YAML text in the editor. */
   yamlEditorValue: string;
   /** Setter for {@link yamlEditorValue}. */
@@ -145,10 +160,14 @@ export interface UseDeployWizardResult {
   deployMessage: string;
   /** Advisory warnings when deployment resources would exceed namespace quota. */
   quotaWarnings: QuotaWarning[];
-  /** Namespace-overridden YAML shown in the review step for the YAML source path. */
+  /** Namespace-overridden YAML shown in the review step for the YAML, Kustomize and Helm paths. */
   userPreviewYaml: string;
   /** Full container-configuration state and setter (see `useContainerConfiguration`). */
   containerConfig: ReturnType<typeof useContainerConfiguration>;
+  /** Helm chart source state (see `useHelmChart`); rendered when entering the review step. */
+  helmChart: ReturnType<typeof useHelmChart>;
+  /** Kustomize source state (see `useKustomizeSource`); its build fills {@link yamlEditorValue}. */
+  kustomize: ReturnType<typeof useKustomizeSource>;
   /** Advances `activeStep` by one (capped at {@link WizardStep.DEPLOY}). */
   handleNext: () => void;
   /** Decrements `activeStep` by one (floored at {@link WizardStep.SOURCE}). */
@@ -184,13 +203,14 @@ export function useDeployWizard({
   namespace,
   initialApplicationName,
   initialContainerConfig,
+  azureContext,
 }: UseDeployWizardOptions): UseDeployWizardResult {
   const { t } = useTranslation();
   const isEditMode = !!initialContainerConfig;
   const [activeStep, setActiveStep] = useState(
     isEditMode ? WizardStep.CONFIGURE : WizardStep.SOURCE
   );
-  const [sourceType, setSourceType] = useState<null | 'yaml' | 'container'>(
+  const [sourceType, setSourceType] = useState<null | 'yaml' | 'container' | 'helm' | 'kustomize'>(
     isEditMode ? 'container' : null
   );
 
@@ -203,6 +223,17 @@ export function useDeployWizard({
   const [userPreviewYaml, setUserPreviewYaml] = useState<string>('');
 
   const containerConfig = useContainerConfiguration(initialApplicationName, initialContainerConfig);
+  const helmChart = useHelmChart(cluster, namespace, azureContext?.subscriptionId);
+  const { render: renderHelmChart, manifest: helmManifest } = helmChart;
+  const kustomize = useKustomizeSource();
+
+  // Built overlays land in the YAML editor, so Kustomize follows the plain
+  // YAML path from here on and users can still adjust the output.
+  useEffect(() => {
+    if (sourceType === 'kustomize') {
+      setYamlEditorValue(kustomize.output);
+    }
+  }, [sourceType, kustomize.output]);
 
   useEffect(() => {
     // Generate YAML preview for the review step
@@ -217,15 +248,25 @@ export function useDeployWizard({
     }
   }, [namespace, sourceType, activeStep, containerConfig.config]);
 
+  // Render the Helm chart when entering the review step; its manifests then
+  // follow the same preview, quota check and apply path as user YAML.
   useEffect(() => {
-    if (activeStep === WizardStep.DEPLOY && sourceType === 'yaml') {
+    if (activeStep === WizardStep.DEPLOY && sourceType === 'helm') {
+      renderHelmChart();
+    }
+  }, [activeStep, sourceType]);
+
+  useEffect(() => {
+    if (
+      activeStep === WizardStep.DEPLOY &&
+      (sourceType === 'yaml' || sourceType === 'kustomize' || sourceType === 'helm')
+    ) {
+      const text = sourceType === 'helm' ? helmManifest : yamlEditorValue;
       try {
-        const processed = parseAndOverride(yamlEditorValue, namespace).map(obj =>
-          YAML.stringify(obj).trim()
-        );
+        const processed = parseAndOverride(text, namespace).map(obj => YAML.stringify(obj).trim());
         setUserPreviewYaml(processed.join('\n---\n'));
       } catch (e) {
-        setUserPreviewYaml(yamlEditorValue);
+        setUserPreviewYaml(text);
       }
     }
     if (activeStep !== WizardStep.DEPLOY) {
@@ -234,7 +275,7 @@ export function useDeployWizard({
       setDeploying(false);
       setQuotaWarnings(prev => (prev.length === 0 ? prev : []));
     }
-  }, [activeStep, sourceType, namespace, yamlEditorValue, containerConfig.config]);
+  }, [activeStep, sourceType, namespace, yamlEditorValue, helmManifest, containerConfig.config]);
 
   // Advisory quota check: runs when entering the Deploy review step.
   // Uses containerPreviewYaml (a primitive string, set by the effect above)
@@ -246,7 +287,12 @@ export function useDeployWizard({
       return;
     }
 
-    const text = sourceType === 'container' ? containerPreviewYaml ?? '' : yamlEditorValue ?? '';
+    const text =
+      sourceType === 'container'
+        ? containerPreviewYaml ?? ''
+        : sourceType === 'helm'
+        ? helmManifest
+        : yamlEditorValue ?? '';
 
     if (!text) return;
 
@@ -271,7 +317,15 @@ export function useDeployWizard({
     return () => {
       cancelled = true;
     };
-  }, [activeStep, namespace, cluster, sourceType, yamlEditorValue, containerPreviewYaml]);
+  }, [
+    activeStep,
+    namespace,
+    cluster,
+    sourceType,
+    yamlEditorValue,
+    containerPreviewYaml,
+    helmManifest,
+  ]);
 
   const isStepValid = (step: WizardStep): boolean => {
     switch (step) {
@@ -281,10 +335,24 @@ export function useDeployWizard({
         if (sourceType === 'yaml') {
           return yamlEditorValue.trim().length > 0;
         }
+        if (sourceType === 'kustomize') {
+          return !kustomize.error && yamlEditorValue.trim().length > 0;
+        }
         if (sourceType === 'container') {
           return (
             containerConfig.config.appName.trim().length > 0 &&
-            containerConfig.config.containerImage.trim().length > 0
+            containerConfig.config.containerImage.trim().length > 0 &&
+            !hasInvalidAdditionalContainers(containerConfig.config) &&
+            getExposureErrors(containerConfig.config).length === 0 &&
+            getKeyVaultErrors(containerConfig.config).length === 0
+          );
+        }
+        if (sourceType === 'helm') {
+          return (
+            !!helmChart.chart &&
+            helmChart.config.releaseName.length > 0 &&
+            !helmChart.releaseNameError &&
+            !helmChart.valuesError
           );
         }
         return false;
@@ -316,7 +384,20 @@ export function useDeployWizard({
 
       // Generate container YAML synchronously to avoid a race where
       // containerPreviewYaml may still be empty on the first render of the Deploy step.
-      const text = getDeployText(sourceType, containerConfig.config, namespace, yamlEditorValue);
+      const text = getDeployText(
+        sourceType,
+        containerConfig.config,
+        namespace,
+        yamlEditorValue,
+        helmManifest
+      );
+      if (sourceType === 'helm' && !text.trim()) {
+        const msg = helmChart.renderError ?? t('The chart has not been rendered yet.');
+        setDeployResult('error');
+        setDeployMessage(msg);
+        safelyTrackDeployError('ValidationError');
+        return;
+      }
 
       let docs;
       try {
@@ -388,7 +469,15 @@ export function useDeployWizard({
       for (const resource of flatDocs) {
         if (!resource || typeof resource !== 'object') continue;
         try {
-          await apply(resource as any, cluster);
+          const resourceName = `${resource.kind}/${resource.metadata?.name ?? 'unknown'}`;
+          await trackActivity(
+            {
+              channel: 'kubernetes',
+              operation: `Apply ${resource.kind}`,
+              target: { cluster, namespace: resource.metadata?.namespace, resource: resourceName },
+            },
+            () => apply(resource as any, cluster)
+          );
           applied++;
         } catch (e: unknown) {
           const errMsg = e instanceof Error ? e.message : String(e);
@@ -415,6 +504,9 @@ export function useDeployWizard({
       } else {
         setDeployResult('success');
         setDeployMessage(t('Applied {{count}} resource(s) successfully.', { count: applied }));
+        if (sourceType === 'helm') {
+          helmChart.recordRelease();
+        }
         safelyTrackDeploy('succeeded');
       }
     } catch (e: unknown) {
@@ -441,6 +533,8 @@ export function useDeployWizard({
     quotaWarnings,
     userPreviewYaml,
     containerConfig,
+    helmChart,
+    kustomize,
     handleNext,
     handleBack,
     handleStepClick,
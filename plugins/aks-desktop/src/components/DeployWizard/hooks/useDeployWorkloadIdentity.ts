@@ -43,6 +43,8 @@ export interface DeployWorkloadIdentityConfig {
   appName: string;
   /** Full Azure resource ID of the ACR. Omit to skip ACR roles. */
   acrResourceId?: string;
+  /** Key Vaults referenced by env vars; the identity gets Key Vault Secrets User on each. */
+  keyVaultResourceIds?: string[];
   /** Whether the target namespace is a managed namespace. Must be resolved before calling. */
   isManagedNamespace: boolean;
   /** Whether Azure RBAC for Kubernetes is enabled on the cluster. */
@@ -68,6 +70,7 @@ export const useDeployWorkloadIdentity = (): UseDeployWorkloadIdentityReturn =>
       namespace,
       appName,
       acrResourceId,
+      keyVaultResourceIds,
       isManagedNamespace,
       azureRbacEnabled,
     } = config;
@@ -86,6 +89,7 @@ export const useDeployWorkloadIdentity = (): UseDeployWorkloadIdentityReturn =>
         identityName,
         clusterName,
         acrResourceId,
+        keyVaultResourceIds,
         isManagedNamespace,
         namespaceName: namespace,
         azureRbacEnabled,
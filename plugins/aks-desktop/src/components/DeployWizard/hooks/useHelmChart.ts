@@ -0,0 +1,391 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  type AcrInfo,
+  getAcrAccessToken,
+  getContainerRegistries,
+} from '../../../utils/azure/az-acr';
+import {
+  type HelmChartMetadata,
+  type HelmChartSource,
+  helmRegistryLogin,
+  isHelmInstalled,
+  readChartValuesSchema,
+  readHelmValuesSchema,
+  showHelmChart,
+  showHelmValues,
+  templateHelmChart,
+} from '../../../utils/kubernetes/helm';
+import { K8S_DNS_LABEL_PATTERN } from '../../../utils/kubernetes/k8sNames';
+import { getLocalFilePath } from '../../../utils/shared/localFilePath';
+import { type HelmReleaseRecord, loadHelmReleases, saveHelmRelease } from '../utils/helmReleases';
+import {
+  getFieldsFromSchema,
+  getFieldsFromValues,
+  type HelmValueField,
+  parseValuesYaml,
+  setValueAtPath,
+  stringifyValues,
+} from '../utils/helmValues';
+
+/** ACR's fixed user name for token-based logins. */
+const ACR_TOKEN_USERNAME = '00000000-0000-0000-0000-000000000000';
+
+/** Helm release names are DNS labels capped at 53 characters. */
+const MAX_RELEASE_NAME_LENGTH = 53;
+
+/** What the user entered for the Helm source. */
+export interface HelmSourceConfig {
+  /** `oci://` reference or path to a local `.tgz` archive. */
+  chartRef: string;
+  /** Chart version for OCI references; empty for the latest. */
+  version: string;
+  releaseName: string;
+  /** Values YAML layered over the chart defaults. */
+  valuesYaml: string;
+}
+
+/** Result returned by {@link useHelmChart}. */
+export interface UseHelmChartResult {
+  /** Whether the Helm CLI can be run; null until checked. */
+  helmInstalled: boolean | null;
+  config: HelmSourceConfig;
+  updateConfig: (patch: Partial<HelmSourceConfig>) => void;
+  /** Uses a `.tgz` archive the user picked as the chart. */
+  selectChartFile: (file: File) => Promise<void>;
+  /** Chart.yaml of the loaded chart, or null before a chart is loaded. */
+  chart: HelmChartMetadata | null;
+  /** Default values of the loaded chart. */
+  defaults: Record<string, unknown>;
+  /** Form fields, from the values schema when the chart has one. */
+  fields: HelmValueField[];
+  /** Whether {@link fields} come from values.schema.json. */
+  hasSchema: boolean;
+  loading: boolean;
+  error: string | null;
+  /** Reads metadata, default values and schema of {@link config}'s chart, or of `source`. */
+  loadChart: (source?: HelmChartSource) => Promise<void>;
+  /** Parsed {@link HelmSourceConfig.valuesYaml}, or null while it does not parse. */
+  values: Record<string, unknown> | null;
+  valuesError: string | null;
+  /** Sets one value from the form; undefined resets it to the chart default. */
+  setFieldValue: (path: string[], value: unknown) => void;
+  releaseNameError: string | null;
+  /** Releases earlier deployed to the namespace through the wizard. */
+  releases: HelmReleaseRecord[];
+  /** The tracked release {@link config} upgrades, if any. */
+  existingRelease: HelmReleaseRecord | null;
+  /** Reuses the chart and values of a tracked release and loads the chart. */
+  selectRelease: (releaseName: string) => void;
+  /** Container registries of the subscription, for OCI charts hosted in ACR. */
+  registries: AcrInfo[];
+  /** Logs Helm in to an ACR and points the chart reference at it. */
+  loginToRegistry: (registry: AcrInfo) => Promise<void>;
+  registryLoginPending: boolean;
+  /** Rendered manifests of the last {@link render}, or '' before one succeeded. */
+  manifest: string;
+  rendering: boolean;
+  renderError: string | null;
+  /** Templates the chart with the current values. */
+  render: () => Promise<void>;
+  /** Records the current chart and values after a successful deploy. */
+  recordRelease: () => void;
+}
+
+const EMPTY_CONFIG: HelmSourceConfig = {
+  chartRef: '',
+  version: '',
+  releaseName: '',
+  valuesYaml: '',
+};
+
+/**
+ * State for the Helm chart source of the Deploy Wizard: the chart reference,
+ * its values form, rendering to manifests, and the releases deployed earlier.
+ * Form fields come from the chart's values schema, read from the archive
+ * picked with {@link UseHelmChartResult.selectChartFile} or from the chart
+ * Helm pulls; charts without a schema get them from their default values.
+ *
+ * @param cluster - Cluster the chart is deployed to.
+ * @param namespace - Namespace the chart is deployed to.
+ * @param subscriptionId - Subscription whose container registries are offered.
+ */
+export function useHelmChart(
+  cluster?: string,
+  namespace?: string,
+  subscriptionId?: string
+): UseHelmChartResult {
+  const { t } = useTranslation();
+  const [helmInstalled, setHelmInstalled] = useState<boolean | null>(null);
+  const [config, setConfig] = useState<HelmSourceConfig>(EMPTY_CONFIG);
+  const [chart, setChart] = useState<HelmChartMetadata | null>(null);
+  const [defaults, setDefaults] = useState<Record<string, unknown>>({});
+  const [schema, setSchema] = useState<Record<string, unknown> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [releases, setReleases] = useState<HelmReleaseRecord[]>([]);
+  const [registries, setRegistries] = useState<AcrInfo[]>([]);
+  const [registryLoginPending, setRegistryLoginPending] = useState(false);
+  const [manifest, setManifest] = useState('');
+  const [rendering, setRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const latestLoadIdRef = useRef(0);
+  const latestRenderIdRef = useRef(0);
+  /** Bytes of the last archive picked, with the path it was picked from. */
+  const pickedArchiveRef = useRef<{ chartRef: string; bytes: Uint8Array } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    isHelmInstalled().then(installed => {
+      if (!cancelled) setHelmInstalled(installed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    setReleases(cluster && namespace ? loadHelmReleases(cluster, namespace) : []);
+  }, [cluster, namespace]);
+
+  useEffect(() => {
+    if (!subscriptionId) return;
+    let cancelled = false;
+    getContainerRegistries(subscriptionId)
+      .then(list => {
+        if (!cancelled) setRegistries(list);
+      })
+      .catch(err => {
+        // Registries are a convenience; charts can still be referenced by hand.
+        console.warn('Failed to list container registries for Helm charts:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [subscriptionId]);
+
+  const updateConfig = useCallback((patch: Partial<HelmSourceConfig>) => {
+    setConfig(prev => ({ ...prev, ...patch }));
+    // A loaded chart no longer matches once its reference changes.
+    if (patch.chartRef !== undefined || patch.version !== undefined) setChart(null);
+    setManifest('');
+  }, []);
+
+  const { values, valuesError } = useMemo(() => {
+    try {
+      return { values: parseValuesYaml(config.valuesYaml), valuesError: null };
+    } catch (e) {
+      return { values: null, valuesError: e instanceof Error ? e.message : String(e) };
+    }
+  }, [config.valuesYaml]);
+
+  const fields = useMemo(
+    () => (schema ? getFieldsFromSchema(schema) : getFieldsFromValues(defaults)),
+    [schema, defaults]
+  );
+
+  const releaseNameError = useMemo(() => {
+    const name = config.releaseName;
+    if (!name) return null;
+    if (name.length > MAX_RELEASE_NAME_LENGTH || !K8S_DNS_LABEL_PATTERN.test(name)) {
+      return t(
+        'Release name must be lowercase letters, numbers and hyphens, at most 53 characters.'
+      );
+    }
+    return null;
+  }, [config.releaseName, t]);
+
+  const loadChart = useCallback(
+    async (override?: HelmChartSource) => {
+      const source = override ?? { chartRef: config.chartRef, version: config.version };
+      if (!source.chartRef.trim()) return;
+      const loadId = ++latestLoadIdRef.current;
+      setLoading(true);
+      setError(null);
+
+      const archive = pickedArchiveRef.current;
+      const [chartResult, valuesResult, schemaResult] = await Promise.all([
+        showHelmChart(source),
+        showHelmValues(source),
+        archive?.chartRef === source.chartRef.trim()
+          ? readHelmValuesSchema(archive.bytes)
+          : readChartValuesSchema(source),
+      ]);
+      if (loadId !== latestLoadIdRef.current) return;
+
+      if (!chartResult.success || !valuesResult.success) {
+        setChart(null);
+        setDefaults({});
+        setSchema(null);
+        setError(chartResult.error ?? valuesResult.error ?? t('Failed to load chart'));
+        setLoading(false);
+        return;
+      }
+
+      let parsedDefaults: Record<string, unknown> = {};
+      try {
+        parsedDefaults = parseValuesYaml(valuesResult.data ?? '');
+      } catch {
+        // A chart whose values.yaml does not parse still renders; the form is just empty.
+      }
+      setChart(chartResult.data!);
+      setDefaults(parsedDefaults);
+      setSchema(schemaResult.success ? schemaResult.data ?? null : null);
+      setConfig(prev =>
+        prev.releaseName
+          ? prev
+          : { ...prev, releaseName: chartResult.data!.name.slice(0, MAX_RELEASE_NAME_LENGTH) }
+      );
+      setLoading(false);
+    },
+    [config.chartRef, config.version, t]
+  );
+
+  const selectChartFile = useCallback(
+    async (file: File) => {
+      const path = getLocalFilePath(file);
+      if (!path) {
+        setError(
+          t('Could not read the location of {{file}}. Enter its path instead.', {
+            file: file.name,
+          })
+        );
+        return;
+      }
+      pickedArchiveRef.current = {
+        chartRef: path,
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      };
+      updateConfig({ chartRef: path, version: '' });
+      setError(null);
+    },
+    [updateConfig, t]
+  );
+
+  const setFieldValue = useCallback(
+    (path: string[], value: unknown) => {
+      if (!values) return;
+      updateConfig({ valuesYaml: stringifyValues(setValueAtPath(values, path, value)) });
+    },
+    [values, updateConfig]
+  );
+
+  const existingRelease = releases.find(r => r.releaseName === config.releaseName) ?? null;
+
+  const selectRelease = useCallback(
+    (releaseName: string) => {
+      const record = releases.find(r => r.releaseName === releaseName);
+      if (!record) return;
+      updateConfig({
+        chartRef: record.chartRef,
+        version: record.version ?? '',
+        releaseName: record.releaseName,
+        valuesYaml: record.valuesYaml,
+      });
+      void loadChart({ chartRef: record.chartRef, version: record.version });
+    },
+    [releases, updateConfig, loadChart]
+  );
+
+  const loginToRegistry = useCallback(
+    async (registry: AcrInfo) => {
+      if (!subscriptionId) return;
+      setRegistryLoginPending(true);
+      setError(null);
+      try {
+        const token = await getAcrAccessToken({ registryName: registry.name, subscriptionId });
+        if (!token.success || !token.accessToken) {
+          setError(token.error ?? t('Failed to get a registry access token'));
+          return;
+        }
+        const server = token.loginServer ?? registry.loginServer;
+        const login = await helmRegistryLogin({
+          server,
+          username: ACR_TOKEN_USERNAME,
+          password: token.accessToken,
+        });
+        if (!login.success) {
+          setError(login.error ?? t('Failed to log in to the registry'));
+          return;
+        }
+        if (!config.chartRef.startsWith(`oci://${server}/`)) {
+          updateConfig({ chartRef: `oci://${server}/` });
+        }
+      } finally {
+        setRegistryLoginPending(false);
+      }
+    },
+    [subscriptionId, config.chartRef, updateConfig, t]
+  );
+
+  const render = useCallback(async () => {
+    const renderId = ++latestRenderIdRef.current;
+    if (!values) {
+      setManifest('');
+      setRenderError(valuesError);
+      return;
+    }
+    setRendering(true);
+    setRenderError(null);
+    const result = await templateHelmChart({
+      chartRef: config.chartRef,
+      version: config.version,
+      releaseName: config.releaseName,
+      namespace,
+      values,
+    });
+    if (renderId !== latestRenderIdRef.current) return;
+    if (result.success) {
+      setManifest(result.data ?? '');
+    } else {
+      setManifest('');
+      setRenderError(result.error ?? t('Failed to render chart'));
+    }
+    setRendering(false);
+  }, [config.chartRef, config.version, config.releaseName, namespace, values, valuesError, t]);
+
+  const recordRelease = useCallback(() => {
+    if (!cluster || !namespace) return;
+    saveHelmRelease(cluster, namespace, {
+      releaseName: config.releaseName,
+      chartRef: config.chartRef.trim(),
+      version: config.version.trim() || undefined,
+      chartVersion: chart?.version,
+      valuesYaml: config.valuesYaml,
+      deployedAt: new Date().toISOString(),
+    });
+    setReleases(loadHelmReleases(cluster, namespace));
+  }, [cluster, namespace, config, chart]);
+
+  return {
+    helmInstalled,
+    config,
+    updateConfig,
+    selectChartFile,
+    chart,
+    defaults,
+    fields,
+    hasSchema: !!schema,
+    loading,
+    error,
+    loadChart,
+    values,
+    valuesError,
+    setFieldValue,
+    releaseNameError,
+    releases,
+    existingRelease,
+    selectRelease,
+    registries,
+    loginToRegistry,
+    registryLoginPending,
+    manifest,
+    rendering,
+    renderError,
+    render,
+    recordRelease,
+  };
+}
@@ -0,0 +1,131 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getClusterCapabilities } from '../../../utils/azure/az-clusters';
+import {
+  type KeyVaultInfo,
+  type KeyVaultSecretInfo,
+  listKeyVaults,
+  listKeyVaultSecrets,
+} from '../../../utils/azure/az-keyvault';
+import type { DeployAzureContext } from '../components/configureContainerUtils';
+
+/** Result returned by {@link useKeyVaultSecrets}. */
+export interface UseKeyVaultSecretsResult {
+  vaults: KeyVaultInfo[];
+  vaultsLoading: boolean;
+  vaultsError: string | null;
+  /** Lists the subscription's vaults; later calls reuse the first result. */
+  loadVaults: () => void;
+  /** Secrets of the vault last passed to {@link loadSecrets}. */
+  secrets: KeyVaultSecretInfo[];
+  secretsLoading: boolean;
+  secretsError: string | null;
+  loadSecrets: (vaultName: string) => void;
+  /**
+   * Whether the cluster's Key Vault secrets provider add-on is enabled;
+   * null while unknown or when the check failed.
+   */
+  addonEnabled: boolean | null;
+}
+
+/**
+ * Browses the Key Vaults and secrets of the deployment's subscription and
+ * checks that the cluster can mount them.
+ *
+ * @param azureContext - Subscription and cluster of the deployment.
+ * @param active - Whether Key Vault references are in use; the add-on check waits for it.
+ */
+export function useKeyVaultSecrets(
+  azureContext: DeployAzureContext | undefined,
+  active: boolean
+): UseKeyVaultSecretsResult {
+  const [vaults, setVaults] = useState<KeyVaultInfo[]>([]);
+  const [vaultsLoading, setVaultsLoading] = useState(false);
+  const [vaultsError, setVaultsError] = useState<string | null>(null);
+  const [secrets, setSecrets] = useState<KeyVaultSecretInfo[]>([]);
+  const [secretsLoading, setSecretsLoading] = useState(false);
+  const [secretsError, setSecretsError] = useState<string | null>(null);
+  const [addonEnabled, setAddonEnabled] = useState<boolean | null>(null);
+  const vaultsRequestedRef = useRef(false);
+  const latestSecretsRequestRef = useRef(0);
+  const subscriptionId = azureContext?.subscriptionId;
+
+  const loadVaults = useCallback(() => {
+    if (!subscriptionId || vaultsRequestedRef.current) return;
+    vaultsRequestedRef.current = true;
+    setVaultsLoading(true);
+    setVaultsError(null);
+    listKeyVaults(subscriptionId)
+      .then(result => {
+        if (result.success) {
+          setVaults(result.vaults ?? []);
+        } else {
+          vaultsRequestedRef.current = false;
+          setVaultsError(result.error ?? 'Failed to list key vaults');
+        }
+      })
+      .finally(() => setVaultsLoading(false));
+  }, [subscriptionId]);
+
+  const loadSecrets = useCallback(
+    (vaultName: string) => {
+      if (!subscriptionId) return;
+      const requestId = ++latestSecretsRequestRef.current;
+      setSecrets([]);
+      setSecretsLoading(true);
+      setSecretsError(null);
+      listKeyVaultSecrets({ vaultName, subscriptionId })
+        .then(result => {
+          if (requestId !== latestSecretsRequestRef.current) return;
+          if (result.success) {
+            setSecrets((result.secrets ?? []).filter(s => s.enabled));
+          } else {
+            setSecretsError(result.error ?? 'Failed to list secrets');
+          }
+        })
+        .finally(() => {
+          if (requestId === latestSecretsRequestRef.current) setSecretsLoading(false);
+        });
+    },
+    [subscriptionId]
+  );
+
+  useEffect(() => {
+    if (!active || !azureContext || addonEnabled !== null) return;
+    let cancelled = false;
+    getClusterCapabilities({
+      subscriptionId: azureContext.subscriptionId,
+      resourceGroup: azureContext.resourceGroup,
+      clusterName: azureContext.clusterName,
+    })
+      .then(caps => {
+        if (!cancelled) setAddonEnabled(caps.keyVaultSecretsProviderEnabled ?? null);
+      })
+      .catch(err => {
+        // The add-on warning is advisory; deployment still works once it is enabled.
+        console.warn('Failed to check the Key Vault secrets provider add-on:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    active,
+    azureContext?.subscriptionId,
+    azureContext?.resourceGroup,
+    azureContext?.clusterName,
+  ]);
+
+  return {
+    vaults,
+    vaultsLoading,
+    vaultsError,
+    loadVaults,
+    secrets,
+    secretsLoading,
+    secretsError,
+    loadSecrets,
+    addonEnabled,
+  };
+}
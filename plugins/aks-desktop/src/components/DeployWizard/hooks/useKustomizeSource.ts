@@ -0,0 +1,201 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import type { Octokit } from '@octokit/rest';
+import { useCallback, useRef, useState } from 'react';
+import { getFileContent, getRepo, listRepoFiles } from '../../../utils/github/github-api';
+import { buildKustomization, findOverlays, type KustomizeFiles } from '../utils/kustomize';
+
+/** Sources larger than this are rejected rather than read into memory. */
+const MAX_SOURCE_FILES = 500;
+/** Individual files larger than this are skipped; manifests are far smaller. */
+const MAX_FILE_BYTES = 1024 * 1024;
+/** Concurrent GitHub content requests. */
+const FETCH_CONCURRENCY = 6;
+/** Directories that never hold manifests. */
+const IGNORED_DIRS = new Set(['.git', 'node_modules']);
+
+/** A directory in a GitHub repository to read kustomizations from. */
+export interface GitHubKustomizeLocation {
+  owner: string;
+  repo: string;
+  /** Branch, tag or commit; empty for the default branch. */
+  ref: string;
+  /** Directory in the repo; empty for the repo root. */
+  path: string;
+}
+
+/** Result returned by {@link useKustomizeSource}. */
+export interface UseKustomizeSourceResult {
+  /** Folder name or `owner/repo@ref:path` of the loaded source, or null before one loaded. */
+  sourceLabel: string | null;
+  /** Directories of the loaded source holding a kustomization. */
+  overlays: string[];
+  selectedOverlay: string | null;
+  /** Builds the given overlay. */
+  selectOverlay: (dir: string) => void;
+  /** Built manifests of {@link selectedOverlay}, or '' when it did not build. */
+  output: string;
+  loading: boolean;
+  error: string | null;
+  /** Reads a folder picked with a directory `<input>`. */
+  loadFolder: (files: File[]) => Promise<void>;
+  /** Reads a directory of a GitHub repository. */
+  loadFromGitHub: (octokit: Octokit, location: GitHubKustomizeLocation) => Promise<void>;
+}
+
+function readAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result || ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+}
+
+function isIgnored(path: string): boolean {
+  return path.split('/').some(segment => IGNORED_DIRS.has(segment));
+}
+
+/**
+ * State for the Kustomize source of the Deploy Wizard: reads a folder or a
+ * GitHub directory, lists its overlays and builds the selected one in-app.
+ */
+export function useKustomizeSource(): UseKustomizeSourceResult {
+  const { t } = useTranslation();
+  const [files, setFiles] = useState<KustomizeFiles>({});
+  const [sourceLabel, setSourceLabel] = useState<string | null>(null);
+  const [overlays, setOverlays] = useState<string[]>([]);
+  const [selectedOverlay, setSelectedOverlay] = useState<string | null>(null);
+  const [output, setOutput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestLoadIdRef = useRef(0);
+
+  const build = useCallback((source: KustomizeFiles, dir: string) => {
+    setSelectedOverlay(dir);
+    try {
+      setOutput(buildKustomization(source, dir));
+      setError(null);
+    } catch (err) {
+      setOutput('');
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  const applySource = useCallback(
+    (source: KustomizeFiles, label: string) => {
+      const found = findOverlays(source);
+      setFiles(source);
+      setSourceLabel(label);
+      setOverlays(found);
+      if (found.length === 0) {
+        setSelectedOverlay(null);
+        setOutput('');
+        setError(t('No kustomization.yaml found in {{source}}.', { source: label }));
+        return;
+      }
+      build(source, found[0]);
+    },
+    [build, t]
+  );
+
+  const loadFolder = useCallback(
+    async (picked: File[]) => {
+      const loadId = ++latestLoadIdRef.current;
+      const readable = picked.filter(file => {
+        // webkitRelativePath starts with the picked folder's own name.
+        const path = file.webkitRelativePath.split('/').slice(1).join('/');
+        return path && !isIgnored(path) && file.size <= MAX_FILE_BYTES;
+      });
+      if (readable.length > MAX_SOURCE_FILES) {
+        setError(
+          t('The folder has more than {{count}} files. Pick the folder holding your overlays.', {
+            count: MAX_SOURCE_FILES,
+          })
+        );
+        return;
+      }
+      setLoading(true);
+      try {
+        const entries = await Promise.all(
+          readable.map(
+            async file =>
+              [
+                file.webkitRelativePath.split('/').slice(1).join('/'),
+                await readAsText(file),
+              ] as const
+          )
+        );
+        if (loadId !== latestLoadIdRef.current) return;
+        const label = picked[0]?.webkitRelativePath.split('/')[0] ?? '';
+        applySource(Object.fromEntries(entries), label);
+      } catch (err) {
+        if (loadId !== latestLoadIdRef.current) return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (loadId === latestLoadIdRef.current) setLoading(false);
+      }
+    },
+    [t, applySource]
+  );
+
+  const loadFromGitHub = useCallback(
+    async (octokit: Octokit, location: GitHubKustomizeLocation) => {
+      const loadId = ++latestLoadIdRef.current;
+      const { owner, repo } = location;
+      const dir = location.path.replace(/^\/+|\/+$/g, '');
+      setLoading(true);
+      setError(null);
+      try {
+        const ref = location.ref.trim() || (await getRepo(octokit, owner, repo)).defaultBranch;
+        const { paths, truncated } = await listRepoFiles(octokit, owner, repo, ref, dir);
+        const wanted = paths.filter(p => !isIgnored(p));
+        if (truncated || wanted.length > MAX_SOURCE_FILES) {
+          throw new Error(
+            t(
+              '{{path}} has more than {{count}} files. Enter the directory holding your overlays.',
+              {
+                path: dir || `${owner}/${repo}`,
+                count: MAX_SOURCE_FILES,
+              }
+            )
+          );
+        }
+        const source: KustomizeFiles = {};
+        for (let i = 0; i < wanted.length; i += FETCH_CONCURRENCY) {
+          const batch = wanted.slice(i, i + FETCH_CONCURRENCY);
+          const contents = await Promise.all(
+            batch.map(p => getFileContent(octokit, owner, repo, p, ref))
+          );
+          batch.forEach((p, index) => {
+            source[dir ? p.slice(dir.length + 1) : p] = contents[index];
+          });
+        }
+        if (loadId !== latestLoadIdRef.current) return;
+        applySource(source, `${owner}/${repo}@${ref}${dir ? `:${dir}` : ''}`);
+      } catch (err) {
+        if (loadId !== latestLoadIdRef.current) return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (loadId === latestLoadIdRef.current) setLoading(false);
+      }
+    },
+    [t, applySource]
+  );
+
+  const selectOverlay = useCallback((dir: string) => build(files, dir), [build, files]);
+
+  return {
+    sourceLabel,
+    overlays,
+    selectedOverlay,
+    selectOverlay,
+    output,
+    loading,
+    error,
+    loadFolder,
+    loadFromGitHub,
+  };
+}
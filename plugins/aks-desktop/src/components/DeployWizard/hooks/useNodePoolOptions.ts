@@ -0,0 +1,49 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useEffect, useState } from 'react';
+import { listNodePoolDetails, type NodePoolDetails } from '../../../utils/azure/az-nodepools';
+import type { DeployAzureContext } from '../components/configureContainerUtils';
+
+/** Result returned by {@link useNodePoolOptions}. */
+export interface UseNodePoolOptionsResult {
+  pools: NodePoolDetails[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Node pools of the deployment's cluster, used to offer real labels and
+ * taints for node placement. Nothing is loaded without an Azure context.
+ */
+export function useNodePoolOptions(
+  azureContext: DeployAzureContext | undefined
+): UseNodePoolOptionsResult {
+  const [pools, setPools] = useState<NodePoolDetails[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const subscriptionId = azureContext?.subscriptionId;
+  const resourceGroup = azureContext?.resourceGroup;
+  const clusterName = azureContext?.clusterName;
+
+  useEffect(() => {
+    if (!subscriptionId || !resourceGroup || !clusterName) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    listNodePoolDetails({ subscriptionId, resourceGroup, clusterName })
+      .then(result => {
+        if (cancelled) return;
+        setPools(result.pools ?? []);
+        setError(result.success ? null : result.error ?? 'Failed to list node pools');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [subscriptionId, resourceGroup, clusterName]);
+
+  return { pools, loading, error };
+}
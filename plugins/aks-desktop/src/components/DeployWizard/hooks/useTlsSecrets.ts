@@ -0,0 +1,66 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useEffect, useState } from 'react';
+
+/** Result returned by {@link useTlsSecrets}. */
+export interface UseTlsSecretsResult {
+  /** Names of `kubernetes.io/tls` Secrets in the namespace. */
+  secretNames: string[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Lists the TLS Secrets in a namespace so the networking step can offer them
+ * for Ingress TLS termination. Does nothing until `enabled` is true.
+ *
+ * @param namespace - Namespace to list Secrets from.
+ * @param cluster - Cluster context name.
+ * @param enabled - Whether TLS is turned on; avoids listing Secrets the user doesn't need.
+ */
+export function useTlsSecrets(
+  namespace: string | undefined,
+  cluster: string | undefined,
+  enabled: boolean
+): UseTlsSecretsResult {
+  const [secretNames, setSecretNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !namespace) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    const fieldSelector = encodeURIComponent('type=kubernetes.io/tls');
+    clusterRequest(`/api/v1/namespaces/${namespace}/secrets?fieldSelector=${fieldSelector}`, {
+      method: 'GET',
+      cluster,
+    })
+      .then((response: any) => {
+        if (cancelled) return;
+        const names: string[] = (response?.items ?? [])
+          .map((item: any) => item?.metadata?.name)
+          .filter((name: unknown): name is string => typeof name === 'string');
+        setSecretNames(names.sort());
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setSecretNames([]);
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [namespace, cluster, enabled]);
+
+  return { secretNames, loading, error };
+}
@@ -21,25 +21,27 @@ export interface K8sObject {
 /**
  * Parses YAML content into a list of {@link K8sObject} summaries.
  *
- * Returns an empty array when `sourceType` is not `'yaml'` or when the
+ * Returns an empty array when `sourceType` is `'container'` or when the
  * YAML cannot be parsed, so callers never need to handle thrown errors.
  *
- * @param sourceType - The selected deploy source. Only `'yaml'` triggers parsing.
+ * @param sourceType - The selected deploy source. `'yaml'`, `'kustomize'` and `'helm'` trigger parsing;
+ *   rendered Helm manifests are only read from `userPreviewYaml`.
  * @param userPreviewYaml - Namespace-overridden YAML prepared for the review step.
  *   Takes precedence over `yamlEditorValue` when non-empty.
  * @param yamlEditorValue - Raw YAML text typed by the user in the editor.
  * @returns Parsed Kubernetes resource summaries, or `[]` on any parse failure.
  */
 export function useYamlObjects(
-  sourceType: 'container' | 'yaml' | null,
+  sourceType: 'container' | 'yaml' | 'helm' | 'kustomize' | null,
   userPreviewYaml: string,
   yamlEditorValue: string
 ): K8sObject[] {
   const { t } = useTranslation();
   return useMemo(() => {
-    if (sourceType !== 'yaml') return [];
+    if (sourceType === 'container' || sourceType === null) return [];
     try {
-      const yamlContent = userPreviewYaml || yamlEditorValue;
+      const yamlContent =
+        sourceType === 'helm' ? userPreviewYaml : userPreviewYaml || yamlEditorValue;
       const docs = YAML.parseAllDocuments(yamlContent);
       return docs
         .map(doc => {
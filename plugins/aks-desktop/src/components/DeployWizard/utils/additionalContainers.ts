@@ -0,0 +1,109 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { K8S_DNS_LABEL_PATTERN, normalizeK8sName } from '../../../utils/kubernetes/k8sNames';
+import type {
+  AdditionalContainerConfig,
+  AdditionalContainerKind,
+  AdditionalContainerProbe,
+  ContainerConfig,
+} from '../hooks/useContainerConfiguration';
+
+type AdditionalContainersSource = Pick<
+  ContainerConfig,
+  'appName' | 'sidecarContainers' | 'initContainers'
+>;
+
+/** Splits a space-separated command line into argv entries, dropping empty tokens. */
+export function splitCommandLine(value: string | undefined): string[] {
+  return (value ?? '').trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Returns why the name of the additional container at `index` is unusable,
+ * or `null` when it is a valid DNS-1123 label that no other container in the pod uses.
+ */
+export function getAdditionalContainerNameError(
+  config: AdditionalContainersSource,
+  kind: AdditionalContainerKind,
+  index: number
+): 'required' | 'invalid' | 'duplicate' | null {
+  const name = config[kind][index]?.name.trim() ?? '';
+  if (!name) return 'required';
+  if (!K8S_DNS_LABEL_PATTERN.test(name)) return 'invalid';
+
+  // Container names must be unique across init and regular containers of the same pod.
+  const others = [
+    normalizeK8sName(config.appName || 'app'),
+    ...config.sidecarContainers
+      .filter((_, i) => kind !== 'sidecarContainers' || i !== index)
+      .map(c => c.name.trim()),
+    ...config.initContainers
+      .filter((_, i) => kind !== 'initContainers' || i !== index)
+      .map(c => c.name.trim()),
+  ];
+  return others.includes(name) ? 'duplicate' : null;
+}
+
+/** Returns `true` when any sidecar or init container is missing a valid name or image. */
+export function hasInvalidAdditionalContainers(config: AdditionalContainersSource): boolean {
+  const kinds: AdditionalContainerKind[] = ['sidecarContainers', 'initContainers'];
+  return kinds.some(kind =>
+    (config[kind] ?? []).some(
+      (c, i) => !c.image.trim() || getAdditionalContainerNameError(config, kind, i) !== null
+    )
+  );
+}
+
+function buildProbe(probe: AdditionalContainerProbe): object {
+  return {
+    httpGet: { path: probe.path || '/', port: probe.port },
+    initialDelaySeconds: probe.initialDelay,
+    periodSeconds: probe.period,
+    timeoutSeconds: probe.timeout,
+    failureThreshold: probe.failure,
+  };
+}
+
+/**
+ * Builds the Kubernetes container spec for a sidecar or init container.
+ * Env entries are supplied by the caller because the wizard and pipeline
+ * generators handle secret values differently.
+ */
+export function buildAdditionalContainerSpec(
+  c: AdditionalContainerConfig,
+  options: { isInit: boolean; env: object[]; securityContext: object }
+): Record<string, unknown> {
+  const container: Record<string, unknown> = {
+    name: c.name.trim(),
+    image: c.image.trim(),
+  };
+
+  const command = splitCommandLine(c.command);
+  const args = splitCommandLine(c.args);
+  if (command.length > 0) container.command = command;
+  if (args.length > 0) container.args = args;
+
+  if (c.ports.length > 0) {
+    container.ports = c.ports.map(port => ({ containerPort: port }));
+  }
+
+  if (!options.isInit) {
+    if (c.livenessProbe.enabled) container.livenessProbe = buildProbe(c.livenessProbe);
+    if (c.readinessProbe.enabled) container.readinessProbe = buildProbe(c.readinessProbe);
+  }
+
+  if (c.enableResources) {
+    container.resources = {
+      requests: { cpu: c.cpuRequest || '50m', memory: c.memoryRequest || '64Mi' },
+      limits: { cpu: c.cpuLimit || '200m', memory: c.memoryLimit || '256Mi' },
+    };
+  }
+
+  if (options.env.length > 0) {
+    container.env = options.env;
+  }
+
+  container.securityContext = options.securityContext;
+  return container;
+}
@@ -0,0 +1,92 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import { getExposureErrors } from './exposure';
+
+type ExposureConfig = Parameters<typeof getExposureErrors>[0];
+
+function makeExposure(overrides?: Partial<ExposureConfig>): ExposureConfig {
+  return {
+    exposureMode: 'ingress',
+    ingressHost: '',
+    ingressPaths: [{ path: '/', pathType: 'Prefix' }],
+    ingressClassName: 'webapprouting.kubernetes.azure.com',
+    enableIngressTls: false,
+    ingressTlsSecretName: '',
+    enableCertManager: false,
+    certManagerClusterIssuer: 'letsencrypt',
+    gatewayName: '',
+    gatewayNamespace: '',
+    ...overrides,
+  };
+}
+
+describe('getExposureErrors', () => {
+  it('returns no errors when exposure is disabled, regardless of other fields', () => {
+    expect(
+      getExposureErrors(makeExposure({ exposureMode: 'none', ingressHost: 'Not A Host!' }))
+    ).toEqual([]);
+  });
+
+  it('accepts an Ingress without a host', () => {
+    expect(getExposureErrors(makeExposure())).toEqual([]);
+  });
+
+  it('accepts wildcard hosts and rejects malformed ones', () => {
+    expect(getExposureErrors(makeExposure({ ingressHost: '*.example.com' }))).toEqual([]);
+    expect(getExposureErrors(makeExposure({ ingressHost: 'bad_host.example' }))).toEqual(['host']);
+  });
+
+  it('requires at least one path and paths starting with a slash', () => {
+    expect(getExposureErrors(makeExposure({ ingressPaths: [] }))).toEqual(['paths']);
+    expect(
+      getExposureErrors(makeExposure({ ingressPaths: [{ path: 'api', pathType: 'Prefix' }] }))
+    ).toEqual(['paths']);
+  });
+
+  it('requires a host, a valid secret name and an issuer for TLS with cert-manager', () => {
+    expect(
+      getExposureErrors(
+        makeExposure({
+          enableIngressTls: true,
+          enableCertManager: true,
+          certManagerClusterIssuer: ' ',
+        })
+      )
+    ).toEqual(['host', 'tlsSecret', 'issuer']);
+
+    expect(
+      getExposureErrors(
+        makeExposure({
+          ingressHost: 'shop.example.com',
+          enableIngressTls: true,
+          ingressTlsSecretName: 'shop-tls',
+          enableCertManager: true,
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it('accepts dotted TLS secret names up to 253 characters', () => {
+    const withSecret = (ingressTlsSecretName: string) =>
+      getExposureErrors(
+        makeExposure({ ingressHost: 'example.com', enableIngressTls: true, ingressTlsSecretName })
+      );
+
+    expect(withSecret('example.com-tls')).toEqual([]);
+    expect(withSecret(`${'a'.repeat(63)}.${'b'.repeat(189)}`)).toEqual([]);
+    expect(withSecret(`${'a'.repeat(63)}.${'b'.repeat(190)}`)).toEqual(['tlsSecret']);
+    expect(withSecret('example..com-tls')).toEqual(['tlsSecret']);
+    expect(withSecret('Example.com-tls')).toEqual(['tlsSecret']);
+  });
+
+  it('requires a gateway name for HTTPRoutes and ignores Ingress TLS settings', () => {
+    expect(
+      getExposureErrors(makeExposure({ exposureMode: 'gateway', enableIngressTls: true }))
+    ).toEqual(['gateway']);
+    expect(
+      getExposureErrors(makeExposure({ exposureMode: 'gateway', gatewayName: 'public' }))
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { isK8sDnsSubdomain } from '../../../utils/kubernetes/k8sNames';
+import type { ContainerConfig, IngressPathRule } from '../hooks/useContainerConfiguration';
+
+/** IngressClass installed by the AKS application routing add-on (managed NGINX). */
+export const APP_ROUTING_INGRESS_CLASS = 'webapprouting.kubernetes.azure.com';
+
+/** Annotation that tells cert-manager which ClusterIssuer should issue the TLS certificate. */
+const CERT_MANAGER_CLUSTER_ISSUER_ANNOTATION = 'cert-manager.io/cluster-issuer';
+
+/** RFC 1123 hostname, optionally with a leading `*.` wildcard label. */
+const HOSTNAME_PATTERN =
+  /^(\*\.)?[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+type ExposureSource = Pick<
+  ContainerConfig,
+  | 'exposureMode'
+  | 'ingressHost'
+  | 'ingressPaths'
+  | 'ingressClassName'
+  | 'enableIngressTls'
+  | 'ingressTlsSecretName'
+  | 'enableCertManager'
+  | 'certManagerClusterIssuer'
+  | 'gatewayName'
+  | 'gatewayNamespace'
+>;
+
+export type ExposureField = 'host' | 'paths' | 'tlsSecret' | 'issuer' | 'gateway';
+
+/**
+ * Returns the fields of the Ingress / HTTPRoute settings that are invalid.
+ * Always empty when the exposure mode is `'none'`.
+ */
+export function getExposureErrors(config: ExposureSource): ExposureField[] {
+  if (config.exposureMode === 'none') return [];
+
+  const errors: ExposureField[] = [];
+  const host = config.ingressHost.trim();
+  const tls = config.exposureMode === 'ingress' && config.enableIngressTls;
+
+  // TLS certificates are bound to a hostname, so TLS requires one.
+  if ((host && !HOSTNAME_PATTERN.test(host)) || (tls && !host)) {
+    errors.push('host');
+  }
+  if (config.ingressPaths.length === 0 || config.ingressPaths.some(p => !p.path.startsWith('/'))) {
+    errors.push('paths');
+  }
+  if (tls && !isK8sDnsSubdomain(config.ingressTlsSecretName.trim())) {
+    errors.push('tlsSecret');
+  }
+  if (tls && config.enableCertManager && !config.certManagerClusterIssuer.trim()) {
+    errors.push('issuer');
+  }
+  if (config.exposureMode === 'gateway' && !config.gatewayName.trim()) {
+    errors.push('gateway');
+  }
+  return errors;
+}
+
+function toGatewayPathType(pathType: IngressPathRule['pathType']): 'PathPrefix' | 'Exact' {
+  return pathType === 'Exact' ? 'Exact' : 'PathPrefix';
+}
+
+/**
+ * Builds a `networking.k8s.io/v1` Ingress routing the configured paths to the app's Service.
+ * Defaults to the application routing add-on's IngressClass.
+ */
+export function buildIngressManifest(
+  config: ExposureSource,
+  name: string,
+  namespace: string,
+  servicePort: number
+): object {
+  const host = config.ingressHost.trim();
+  const tls = config.enableIngressTls && host;
+
+  const metadata: Record<string, unknown> = { name, namespace };
+  if (tls && config.enableCertManager) {
+    metadata.annotations = {
+      [CERT_MANAGER_CLUSTER_ISSUER_ANNOTATION]: config.certManagerClusterIssuer.trim(),
+    };
+  }
+
+  const rule: Record<string, unknown> = {
+    http: {
+      paths: config.ingressPaths.map(p => ({
+        path: p.path,
+        pathType: p.pathType,
+        backend: { service: { name, port: { number: servicePort } } },
+      })),
+    },
+  };
+  if (host) rule.host = host;
+
+  const spec: Record<string, unknown> = {
+    ingressClassName: config.ingressClassName.trim() || APP_ROUTING_INGRESS_CLASS,
+  };
+  if (tls) {
+    spec.tls = [{ hosts: [host], secretName: config.ingressTlsSecretName.trim() }];
+  }
+  spec.rules = [rule];
+
+  return { apiVersion: 'networking.k8s.io/v1', kind: 'Ingress', metadata, spec };
+}
+
+/**
+ * Builds a Gateway API `HTTPRoute` attaching the app's Service to an existing Gateway.
+ * TLS is terminated by the Gateway listener, so no certificate settings are emitted here.
+ */
+export function buildHttpRouteManifest(
+  config: ExposureSource,
+  name: string,
+  namespace: string,
+  servicePort: number
+): object {
+  const host = config.ingressHost.trim();
+  const parentRef: Record<string, string> = { name: config.gatewayName.trim() };
+  if (config.gatewayNamespace.trim()) {
+    parentRef.namespace = config.gatewayNamespace.trim();
+  }
+
+  const spec: Record<string, unknown> = { parentRefs: [parentRef] };
+  if (host) spec.hostnames = [host];
+  spec.rules = [
+    {
+      matches: config.ingressPaths.map(p => ({
+        path: { type: toGatewayPathType(p.pathType), value: p.path },
+      })),
+      backendRefs: [{ name, port: servicePort }],
+    },
+  ];
+
+  return {
+    apiVersion: 'gateway.networking.k8s.io/v1',
+    kind: 'HTTPRoute',
+    metadata: { name, namespace },
+    spec,
+  };
+}
@@ -0,0 +1,61 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+const STORAGE_KEY_PREFIX = 'aks-desktop:helm-releases:';
+
+/**
+ * A chart deployed through the Deploy Wizard. Charts are rendered with
+ * `helm template` and applied directly, so Helm itself keeps no release
+ * record; this one lets a later upgrade start from the same chart and values.
+ */
+export interface HelmReleaseRecord {
+  releaseName: string;
+  chartRef: string;
+  version?: string;
+  /** Chart version that was rendered, from Chart.yaml. */
+  chartVersion?: string;
+  /** User-supplied values YAML (overrides on top of the chart defaults). */
+  valuesYaml: string;
+  /** ISO timestamp of the last successful deploy. */
+  deployedAt: string;
+}
+
+function storageKey(cluster: string, namespace: string): string {
+  return `${STORAGE_KEY_PREFIX}${cluster}/${namespace}`;
+}
+
+function isHelmReleaseRecord(value: unknown): value is HelmReleaseRecord {
+  const record = value as Partial<HelmReleaseRecord> | null;
+  return (
+    !!record &&
+    typeof record.releaseName === 'string' &&
+    typeof record.chartRef === 'string' &&
+    typeof record.valuesYaml === 'string' &&
+    typeof record.deployedAt === 'string'
+  );
+}
+
+/** Returns the releases deployed to a namespace, most recent first. */
+export function loadHelmReleases(cluster: string, namespace: string): HelmReleaseRecord[] {
+  try {
+    const stored = localStorage.getItem(storageKey(cluster, namespace));
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isHelmReleaseRecord) : [];
+  } catch (e) {
+    console.warn('Failed to parse Helm releases from localStorage:', e);
+    return [];
+  }
+}
+
+/** Records a deploy, replacing any earlier record of the same release. */
+export function saveHelmRelease(
+  cluster: string,
+  namespace: string,
+  record: HelmReleaseRecord
+): void {
+  const others = loadHelmReleases(cluster, namespace).filter(
+    r => r.releaseName !== record.releaseName
+  );
+  localStorage.setItem(storageKey(cluster, namespace), JSON.stringify([record, ...others]));
+}
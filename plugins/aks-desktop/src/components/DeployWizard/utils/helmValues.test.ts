@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import {
+  getFieldsFromSchema,
+  getFieldsFromValues,
+  getValueAtPath,
+  parseValuesYaml,
+  setValueAtPath,
+  stringifyValues,
+} from './helmValues';
+
+describe('getFieldsFromSchema', () => {
+  it('lists scalar properties, walking nested objects', () => {
+    const fields = getFieldsFromSchema({
+      type: 'object',
+      properties: {
+        replicaCount: { type: 'integer', description: 'Number of pods' },
+        image: {
+          type: 'object',
+          properties: {
+            repository: { type: 'string' },
+            pullPolicy: { type: 'string', enum: ['Always', 'IfNotPresent'] },
+          },
+        },
+        ingress: { type: ['boolean', 'null'] },
+        tolerations: { type: 'array' },
+      },
+    });
+
+    expect(fields).toEqual([
+      { path: ['replicaCount'], type: 'integer', description: 'Number of pods' },
+      { path: ['image', 'repository'], type: 'string' },
+      {
+        path: ['image', 'pullPolicy'],
+        type: 'string',
+        enum: ['Always', 'IfNotPresent'],
+      },
+      { path: ['ingress'], type: 'boolean' },
+    ]);
+  });
+});
+
+describe('getFieldsFromValues', () => {
+  it('infers field types from default values and skips arrays', () => {
+    const fields = getFieldsFromValues({
+      replicaCount: 2,
+      cpu: 0.5,
+      image: { repository: 'nginx', tag: '' },
+      debug: false,
+      extraArgs: ['--verbose'],
+    });
+
+    expect(fields.map(f => [f.path.join('.'), f.type])).toEqual([
+      ['replicaCount', 'integer'],
+      ['cpu', 'number'],
+      ['image.repository', 'string'],
+      ['image.tag', 'string'],
+      ['debug', 'boolean'],
+    ]);
+  });
+});
+
+describe('setValueAtPath', () => {
+  it('sets nested values without mutating the input', () => {
+    const values = { image: { tag: '1.0' } };
+    const next = setValueAtPath(values, ['image', 'repository'], 'nginx');
+
+    expect(next).toEqual({ image: { tag: '1.0', repository: 'nginx' } });
+    expect(values).toEqual({ image: { tag: '1.0' } });
+    expect(getValueAtPath(next, ['image', 'repository'])).toBe('nginx');
+  });
+
+  it('removes keys and empty parents when set to undefined', () => {
+    expect(setValueAtPath({ image: { tag: '1.0' }, a: 1 }, ['image', 'tag'], undefined)).toEqual({
+      a: 1,
+    });
+  });
+});
+
+describe('parseValuesYaml', () => {
+  it('treats empty text as no values', () => {
+    expect(parseValuesYaml('  ')).toEqual({});
+    expect(stringifyValues({})).toBe('');
+  });
+
+  it('rejects values that are not a mapping', () => {
+    expect(() => parseValuesYaml('- a\n- b')).toThrow('Values must be a YAML mapping');
+  });
+});
@@ -0,0 +1,135 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import YAML from 'yaml';
+
+/** A chart value editable through the Helm values form. */
+export interface HelmValueField {
+  /** Key path into the values object, e.g. `['image', 'tag']`. */
+  path: string[];
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  /** Allowed values, when the schema restricts them. */
+  enum?: string[];
+  description?: string;
+}
+
+/** Charts can have hundreds of values; the form shows the first ones only. */
+export const MAX_VALUE_FIELDS = 50;
+const MAX_DEPTH = 3;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function schemaType(schema: any): HelmValueField['type'] | 'object' | null {
+  const type = Array.isArray(schema?.type)
+    ? schema.type.find((t: string) => t !== 'null')
+    : schema?.type;
+  if (type === 'object' || (!type && isPlainObject(schema?.properties))) return 'object';
+  if (type === 'string' || type === 'number' || type === 'integer' || type === 'boolean') {
+    return type;
+  }
+  if (!type && Array.isArray(schema?.enum)) return 'string';
+  return null;
+}
+
+/**
+ * Lists the scalar values described by a chart's values.schema.json, walking
+ * nested objects a few levels deep. Arrays and free-form objects are left to
+ * the raw values editor.
+ */
+export function getFieldsFromSchema(schema: unknown): HelmValueField[] {
+  const fields: HelmValueField[] = [];
+  const walk = (node: any, path: string[]) => {
+    for (const [key, child] of Object.entries<any>(node?.properties ?? {})) {
+      if (fields.length >= MAX_VALUE_FIELDS) return;
+      const type = schemaType(child);
+      if (type === 'object') {
+        if (path.length + 1 < MAX_DEPTH) walk(child, [...path, key]);
+      } else if (type) {
+        fields.push({
+          path: [...path, key],
+          type,
+          enum: Array.isArray(child.enum) ? child.enum.map(String) : undefined,
+          description: typeof child.description === 'string' ? child.description : undefined,
+        });
+      }
+    }
+  };
+  walk(schema, []);
+  return fields;
+}
+
+/**
+ * Infers form fields from a chart's default values when it ships no schema.
+ */
+export function getFieldsFromValues(defaults: Record<string, unknown>): HelmValueField[] {
+  const fields: HelmValueField[] = [];
+  const walk = (node: Record<string, unknown>, path: string[]) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (fields.length >= MAX_VALUE_FIELDS) return;
+      if (isPlainObject(value)) {
+        if (path.length + 1 < MAX_DEPTH) walk(value, [...path, key]);
+      } else if (typeof value === 'boolean') {
+        fields.push({ path: [...path, key], type: 'boolean' });
+      } else if (typeof value === 'number') {
+        fields.push({ path: [...path, key], type: Number.isInteger(value) ? 'integer' : 'number' });
+      } else if (typeof value === 'string') {
+        fields.push({ path: [...path, key], type: 'string' });
+      }
+    }
+  };
+  walk(defaults, []);
+  return fields;
+}
+
+/** Returns the value at `path`, or undefined when any segment is missing. */
+export function getValueAtPath(values: unknown, path: string[]): unknown {
+  let current: unknown = values;
+  for (const key of path) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Returns a copy of `values` with `path` set to `value`. Setting undefined
+ * removes the key and any objects left empty by the removal.
+ */
+export function setValueAtPath(
+  values: Record<string, unknown>,
+  path: string[],
+  value: unknown
+): Record<string, unknown> {
+  const [key, ...rest] = path;
+  const next = { ...values };
+  if (rest.length === 0) {
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+    return next;
+  }
+  const child = setValueAtPath(isPlainObject(next[key]) ? next[key] : {}, rest, value);
+  if (Object.keys(child).length === 0) delete next[key];
+  else next[key] = child;
+  return next;
+}
+
+/**
+ * Parses user-supplied values YAML. Empty text is an empty object; anything
+ * that is not a mapping is rejected.
+ */
+export function parseValuesYaml(text: string): Record<string, unknown> {
+  if (!text.trim()) return {};
+  const parsed = YAML.parse(text);
+  if (parsed === null || parsed === undefined) return {};
+  if (!isPlainObject(parsed)) {
+    throw new Error('Values must be a YAML mapping');
+  }
+  return parsed;
+}
+
+/** Serialises values back to YAML for the raw values editor. */
+export function stringifyValues(values: Record<string, unknown>): string {
+  return Object.keys(values).length === 0 ? '' : YAML.stringify(values);
+}
@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+import type { EnvVarEntry } from '../hooks/useContainerConfiguration';
+import {
+  buildKeyVaultResources,
+  getKeyVaultErrors,
+  getKeyVaultResourceIds,
+  type KeyVaultSource,
+} from './keyVault';
+
+const VAULT_ID =
+  '/subscriptions/00000000-0000-0000-0000-000000000000/resourceGroups/rg/providers/Microsoft.KeyVault/vaults/app-kv';
+
+function kvEntry(key: string, secretName: string, vaultName = 'app-kv'): EnvVarEntry {
+  return {
+    key,
+    value: '',
+    isSecret: true,
+    keyVaultRef: {
+      vaultName,
+      vaultId: VAULT_ID.replace('app-kv', vaultName),
+      tenantId: 'tenant',
+      secretName,
+    },
+  };
+}
+
+function makeSource(overrides?: Partial<KeyVaultSource>): KeyVaultSource {
+  return {
+    envVars: [kvEntry('DB_PASSWORD', 'db-password'), kvEntry('API_KEY', 'api-key')],
+    enableWorkloadIdentity: true,
+    workloadIdentityClientId: 'client-id',
+    ...overrides,
+  };
+}
+
+describe('getKeyVaultErrors', () => {
+  it('requires workload identity only when references exist', () => {
+    expect(getKeyVaultErrors(makeSource({ enableWorkloadIdentity: false }))).toEqual([
+      'workloadIdentity',
+    ]);
+    expect(getKeyVaultErrors(makeSource({ envVars: [], enableWorkloadIdentity: false }))).toEqual(
+      []
+    );
+    expect(getKeyVaultErrors(makeSource())).toEqual([]);
+  });
+});
+
+describe('getKeyVaultResourceIds', () => {
+  it('lists each vault once and ignores entries without a key', () => {
+    const ids = getKeyVaultResourceIds([
+      ...makeSource().envVars,
+      kvEntry('', 'ignored', 'other-kv'),
+    ]);
+    expect(ids).toEqual([VAULT_ID]);
+  });
+});
+
+describe('buildKeyVaultResources', () => {
+  it('builds one SecretProviderClass per vault synced to a Secret', () => {
+    const result = buildKeyVaultResources(
+      makeSource({ envVars: [...makeSource().envVars, kvEntry('OTHER', 'token', 'other-kv')] }),
+      'web',
+      'apps'
+    );
+
+    expect(result.secretProviderClasses).toHaveLength(2);
+    const spc = result.secretProviderClasses[0] as any;
+    expect(spc.metadata).toEqual({ name: 'web-kv-app-kv', namespace: 'apps' });
+    expect(spc.spec.parameters.clientID).toBe('client-id');
+    const objects = YAML.parse(spc.spec.parameters.objects).array.map((o: string) => YAML.parse(o));
+    expect(objects).toEqual([
+      { objectName: 'db-password', objectType: 'secret' },
+      { objectName: 'api-key', objectType: 'secret' },
+    ]);
+    expect(spc.spec.secretObjects[0].secretName).toBe('web-kv-app-kv');
+
+    expect(result.volumeMounts).toContainEqual({
+      name: 'web-kv-other-kv',
+      mountPath: '/mnt/secrets-store/other-kv',
+      readOnly: true,
+    });
+    expect(result.env.get('DB_PASSWORD')).toEqual({
+      name: 'DB_PASSWORD',
+      valueFrom: { secretKeyRef: { name: 'web-kv-app-kv', key: 'db-password' } },
+    });
+  });
+});
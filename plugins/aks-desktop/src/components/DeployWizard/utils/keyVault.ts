@@ -0,0 +1,138 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import YAML from 'yaml';
+import { normalizeK8sName } from '../../../utils/kubernetes/k8sNames';
+import type { EnvVarEntry, KeyVaultSecretRef } from '../hooks/useContainerConfiguration';
+
+/** CSI driver of the AKS Key Vault secrets provider add-on. */
+const SECRETS_STORE_DRIVER = 'secrets-store.csi.k8s.io';
+
+/** Where each vault's secrets are mounted as files in the main container. */
+export const KEY_VAULT_MOUNT_ROOT = '/mnt/secrets-store';
+
+/** Container settings that decide the Key Vault manifests. */
+export type KeyVaultSource = {
+  envVars: EnvVarEntry[];
+  enableWorkloadIdentity: boolean;
+  workloadIdentityClientId: string;
+};
+
+export type KeyVaultField = 'workloadIdentity';
+
+/** Env vars with a key that read a Key Vault secret. */
+export function getKeyVaultEnvVars(
+  envVars: EnvVarEntry[]
+): Array<EnvVarEntry & { keyVaultRef: KeyVaultSecretRef }> {
+  return envVars.filter(
+    (e): e is EnvVarEntry & { keyVaultRef: KeyVaultSecretRef } =>
+      e.key.trim().length > 0 && !!e.keyVaultRef
+  );
+}
+
+/** Resource IDs of the vaults referenced by env vars, without duplicates. */
+export function getKeyVaultResourceIds(envVars: EnvVarEntry[]): string[] {
+  return [...new Set(getKeyVaultEnvVars(envVars).map(e => e.keyVaultRef.vaultId))];
+}
+
+/**
+ * Returns what keeps the Key Vault references from working. The CSI driver
+ * authenticates as the workload identity, so references require one.
+ */
+export function getKeyVaultErrors(config: KeyVaultSource): KeyVaultField[] {
+  if (getKeyVaultEnvVars(config.envVars).length === 0) return [];
+  return config.enableWorkloadIdentity ? [] : ['workloadIdentity'];
+}
+
+/** Name of the SecretProviderClass, synced Secret and volume for one vault. */
+function getSecretProviderClassName(appName: string, vaultName: string): string {
+  return normalizeK8sName(`${appName}-kv-${vaultName}`);
+}
+
+/** Pod and container additions that surface Key Vault secrets to the main container. */
+export interface KeyVaultResources {
+  /** One SecretProviderClass per referenced vault. */
+  secretProviderClasses: object[];
+  volumes: object[];
+  volumeMounts: object[];
+  /** `env` entries keyed by variable name. */
+  env: Map<string, object>;
+}
+
+/**
+ * Builds SecretProviderClasses for the Secrets Store CSI driver, one per
+ * vault, authenticated with the workload identity. Each class syncs its
+ * secrets into a Kubernetes Secret of the same name so env vars can use
+ * `secretKeyRef`; the CSI volume must be mounted for the sync to happen.
+ */
+export function buildKeyVaultResources(
+  config: KeyVaultSource,
+  appName: string,
+  namespace: string
+): KeyVaultResources {
+  const byVault = new Map<string, Array<EnvVarEntry & { keyVaultRef: KeyVaultSecretRef }>>();
+  for (const entry of getKeyVaultEnvVars(config.envVars)) {
+    const list = byVault.get(entry.keyVaultRef.vaultName) ?? [];
+    list.push(entry);
+    byVault.set(entry.keyVaultRef.vaultName, list);
+  }
+
+  const result: KeyVaultResources = {
+    secretProviderClasses: [],
+    volumes: [],
+    volumeMounts: [],
+    env: new Map(),
+  };
+  for (const [vaultName, entries] of byVault) {
+    const name = getSecretProviderClassName(appName, vaultName);
+    const secretNames = [...new Set(entries.map(e => e.keyVaultRef.secretName))];
+    const objects = YAML.stringify({
+      array: secretNames.map(secretName =>
+        YAML.stringify({ objectName: secretName, objectType: 'secret' })
+      ),
+    });
+
+    result.secretProviderClasses.push({
+      apiVersion: 'secrets-store.csi.x-k8s.io/v1',
+      kind: 'SecretProviderClass',
+      metadata: { name, namespace },
+      spec: {
+        provider: 'azure',
+        parameters: {
+          usePodIdentity: 'false',
+          clientID: config.workloadIdentityClientId,
+          keyvaultName: vaultName,
+          tenantId: entries[0].keyVaultRef.tenantId,
+          objects,
+        },
+        secretObjects: [
+          {
+            secretName: name,
+            type: 'Opaque',
+            data: secretNames.map(secretName => ({ objectName: secretName, key: secretName })),
+          },
+        ],
+      },
+    });
+    result.volumes.push({
+      name,
+      csi: {
+        driver: SECRETS_STORE_DRIVER,
+        readOnly: true,
+        volumeAttributes: { secretProviderClass: name },
+      },
+    });
+    result.volumeMounts.push({
+      name,
+      mountPath: `${KEY_VAULT_MOUNT_ROOT}/${vaultName}`,
+      readOnly: true,
+    });
+    for (const entry of entries) {
+      result.env.set(entry.key, {
+        name: entry.key,
+        valueFrom: { secretKeyRef: { name, key: entry.keyVaultRef.secretName } },
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,292 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+import { applyJsonPatch, buildKustomization, findOverlays, strategicMerge } from './kustomize';
+
+const BASE = {
+  'base/kustomization.yaml': 'resources:\n  - deployment.yaml\n  - service.yaml\n',
+  'base/deployment.yaml': `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  replicas: 1
+  selector:
+    matchLabels:
+      app: web
+  template:
+    metadata:
+      labels:
+        app: web
+    spec:
+      containers:
+        - name: web
+          image: nginx:1.25
+          envFrom:
+            - configMapRef:
+                name: web-config
+`,
+  'base/service.yaml': `apiVersion: v1
+kind: Service
+metadata:
+  name: web
+spec:
+  selector:
+    app: web
+  ports:
+    - port: 80
+`,
+};
+
+function build(files: Record<string, string>, dir: string) {
+  return YAML.parseAllDocuments(buildKustomization(files, dir)).map(d => d.toJSON());
+}
+
+describe('findOverlays', () => {
+  it('lists leaf overlays before the bases they include', () => {
+    const files = {
+      ...BASE,
+      'overlays/prod/kustomization.yaml': 'resources:\n  - ../../base\n',
+      'overlays/dev/kustomization.yml': 'resources:\n  - ../../base\n',
+    };
+
+    expect(findOverlays(files)).toEqual(['overlays/dev', 'overlays/prod', 'base']);
+  });
+});
+
+describe('buildKustomization', () => {
+  it('applies namespace, prefix, labels, images, replicas and patches to a base', () => {
+    const files = {
+      ...BASE,
+      'overlays/prod/kustomization.yaml': `resources:
+  - ../../base
+namespace: shop
+namePrefix: prod-
+commonLabels:
+  env: prod
+images:
+  - name: nginx
+    newTag: "1.27"
+replicas:
+  - name: web
+    count: 3
+patches:
+  - target:
+      kind: Deployment
+    patch: |-
+      - op: add
+        path: /spec/template/spec/containers/0/args
+        value: ["--prod"]
+`,
+    };
+
+    const [deployment, service] = build(files, 'overlays/prod');
+
+    expect(deployment.metadata).toEqual({
+      name: 'prod-web',
+      namespace: 'shop',
+      labels: { env: 'prod' },
+    });
+    expect(deployment.spec.replicas).toBe(3);
+    expect(deployment.spec.selector.matchLabels).toEqual({ app: 'web', env: 'prod' });
+    expect(deployment.spec.template.metadata.labels).toEqual({ app: 'web', env: 'prod' });
+    expect(deployment.spec.template.spec.containers[0].image).toBe('nginx:1.27');
+    expect(deployment.spec.template.spec.containers[0].args).toEqual(['--prod']);
+    expect(service.spec.selector).toEqual({ app: 'web', env: 'prod' });
+  });
+
+  it('generates hashed ConfigMaps and points references at them', () => {
+    const files = {
+      ...BASE,
+      'overlays/dev/kustomization.yaml': `resources:
+  - ../../base
+configMapGenerator:
+  - name: web-config
+    literals:
+      - LOG_LEVEL=debug
+    envs:
+      - app.env
+`,
+      'overlays/dev/app.env': '# comment\nFEATURE=on\n',
+    };
+
+    const docs = build(files, 'overlays/dev');
+    const configMap = docs.find(d => d.kind === 'ConfigMap');
+    const deployment = docs.find(d => d.kind === 'Deployment');
+
+    expect(configMap.data).toEqual({ LOG_LEVEL: 'debug', FEATURE: 'on' });
+    expect(configMap.metadata.name).toMatch(/^web-config-[a-z0-9]{10}$/);
+    expect(deployment.spec.template.spec.containers[0].envFrom[0].configMapRef.name).toBe(
+      configMap.metadata.name
+    );
+  });
+
+  it('hashes generated names like kustomize, over the prefixed name and data', () => {
+    const files = {
+      'base/kustomization.yaml': `configMapGenerator:
+  - name: app-config
+    literals:
+      - LOG_LEVEL=debug <&>
+  - name: empty
+secretGenerator:
+  - name: app-secret
+    literals:
+      - TOKEN=abc
+`,
+      'overlays/prod/kustomization.yaml': 'resources:\n  - ../../base\nnamePrefix: prod-\n',
+    };
+
+    expect(build(files, 'overlays/prod').map(d => d.metadata.name)).toEqual([
+      'prod-app-config-k64g6c97k4',
+      'prod-empty-48h6f77f4g',
+      'prod-app-secret-975tf2c55d',
+    ]);
+  });
+
+  const GENERATED_BASE = {
+    ...BASE,
+    'base/kustomization.yaml': `resources:
+  - deployment.yaml
+  - service.yaml
+configMapGenerator:
+  - name: web-config
+    literals:
+      - LOG_LEVEL=info
+      - REGION=eu
+  - name: web-config-extra
+    literals:
+      - EXTRA=1
+`,
+  };
+
+  it('renames base references to ConfigMaps merged by a prefixed overlay', () => {
+    const files = {
+      ...GENERATED_BASE,
+      'overlays/prod/kustomization.yaml': `resources:
+  - ../../base
+namePrefix: prod-
+configMapGenerator:
+  - name: web-config
+    behavior: merge
+    literals:
+      - LOG_LEVEL=warn
+`,
+    };
+
+    const baseConfig = build(GENERATED_BASE, 'base').find(
+      d => d.kind === 'ConfigMap' && d.data.LOG_LEVEL
+    );
+    const docs = build(files, 'overlays/prod');
+    const configMaps = docs.filter(d => d.kind === 'ConfigMap');
+    const merged = configMaps.find(d => d.data.LOG_LEVEL);
+    const deployment = docs.find(d => d.kind === 'Deployment');
+
+    expect(configMaps).toHaveLength(2);
+    expect(merged.data).toEqual({ LOG_LEVEL: 'warn', REGION: 'eu' });
+    expect(merged.metadata.name).toMatch(/^prod-web-config-[a-z0-9]{10}$/);
+    expect(merged.metadata.name).not.toBe(`prod-${baseConfig.metadata.name}`);
+    expect(merged.metadata.annotations).toBeUndefined();
+    expect(configMaps.find(d => d.data.EXTRA).data).toEqual({ EXTRA: '1' });
+    expect(deployment.spec.template.spec.containers[0].envFrom[0].configMapRef.name).toBe(
+      merged.metadata.name
+    );
+  });
+
+  it('replaces generated ConfigMaps and fails without a base object', () => {
+    const replace = (name: string) => ({
+      ...GENERATED_BASE,
+      'overlays/prod/kustomization.yaml': `resources:
+  - ../../base
+configMapGenerator:
+  - name: ${name}
+    behavior: replace
+    literals:
+      - LOG_LEVEL=warn
+`,
+    });
+
+    const docs = build(replace('web-config'), 'overlays/prod');
+    const replaced = docs.find(d => d.kind === 'ConfigMap' && d.data.LOG_LEVEL);
+    const deployment = docs.find(d => d.kind === 'Deployment');
+
+    expect(replaced.data).toEqual({ LOG_LEVEL: 'warn' });
+    expect(deployment.spec.template.spec.containers[0].envFrom[0].configMapRef.name).toBe(
+      replaced.metadata.name
+    );
+    expect(() => build(replace('web'), 'overlays/prod')).toThrow('No ConfigMap web to replace');
+  });
+
+  it('merges strategic merge patches by container name', () => {
+    const files = {
+      ...BASE,
+      'overlays/prod/kustomization.yaml':
+        'resources:\n  - ../../base\npatchesStrategicMerge:\n  - resources.yaml\n',
+      'overlays/prod/resources.yaml': `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+spec:
+  template:
+    spec:
+      containers:
+        - name: web
+          resources:
+            limits:
+              cpu: 500m
+`,
+    };
+
+    const [deployment] = build(files, 'overlays/prod');
+    const container = deployment.spec.template.spec.containers[0];
+
+    expect(container.image).toBe('nginx:1.25');
+    expect(container.resources).toEqual({ limits: { cpu: '500m' } });
+  });
+
+  it('reports missing files, remote resources and cycles', () => {
+    expect(() => buildKustomization({ 'kustomization.yaml': 'resources: [a.yaml]' }, '')).toThrow(
+      'File "a.yaml" not found'
+    );
+    expect(() =>
+      buildKustomization(
+        { 'kustomization.yaml': 'resources: [https://github.com/org/repo//base]' },
+        ''
+      )
+    ).toThrow('is not supported');
+    expect(() =>
+      buildKustomization(
+        {
+          'a/kustomization.yaml': 'resources: [../b]',
+          'b/kustomization.yaml': 'resources: [../a]',
+        },
+        'a'
+      )
+    ).toThrow('Kustomization cycle: a -> b -> a');
+  });
+});
+
+describe('strategicMerge', () => {
+  it('deletes list items and keys', () => {
+    const result = strategicMerge(
+      { ports: [{ name: 'http' }, { name: 'metrics' }], debug: true },
+      { ports: [{ name: 'metrics', $patch: 'delete' }], debug: null }
+    );
+
+    expect(result).toEqual({ ports: [{ name: 'http' }] });
+  });
+});
+
+describe('applyJsonPatch', () => {
+  it('replaces and removes values without mutating the input', () => {
+    const input = { spec: { replicas: 1, paused: true } };
+    const result = applyJsonPatch(input, [
+      { op: 'replace', path: '/spec/replicas', value: 2 },
+      { op: 'remove', path: '/spec/paused' },
+    ]);
+
+    expect(result).toEqual({ spec: { replicas: 2 } });
+    expect(input.spec.replicas).toBe(1);
+  });
+});
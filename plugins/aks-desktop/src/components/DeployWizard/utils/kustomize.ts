@@ -0,0 +1,734 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import YAML from 'yaml';
+
+/**
+ * In-app subset of `kustomize build`, so overlays deploy without the
+ * kustomize binary. Supported kustomization fields: resources (and legacy
+ * bases), namespace, namePrefix/nameSuffix, commonLabels, labels,
+ * commonAnnotations, images, replicas, configMapGenerator, secretGenerator,
+ * generatorOptions, patches, patchesStrategicMerge and patchesJson6902.
+ * Remote resources, components and plugins are not supported.
+ */
+
+/** File contents keyed by path relative to the source root, using `/` separators. */
+export type KustomizeFiles = Record<string, string>;
+
+const KUSTOMIZATION_FILENAMES = ['kustomization.yaml', 'kustomization.yml', 'Kustomization'];
+
+/** Kinds that are not namespaced and keep their names free of prefixes. */
+const CLUSTER_SCOPED_KINDS = new Set([
+  'Namespace',
+  'ClusterRole',
+  'ClusterRoleBinding',
+  'CustomResourceDefinition',
+  'PersistentVolume',
+  'StorageClass',
+  'PriorityClass',
+  'IngressClass',
+  'MutatingWebhookConfiguration',
+  'ValidatingWebhookConfiguration',
+]);
+
+/** Kinds whose pod template sits under `spec.template`. */
+const TEMPLATE_WORKLOAD_KINDS = new Set([
+  'Deployment',
+  'StatefulSet',
+  'DaemonSet',
+  'ReplicaSet',
+  'Job',
+]);
+
+type Resource = Record<string, any>;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** Resolves `rel` against directory `dir`, collapsing `.` and `..` segments. */
+function joinPath(dir: string, rel: string): string {
+  const parts: string[] = [];
+  for (const segment of [...dir.split('/'), ...rel.split('/')]) {
+    if (!segment || segment === '.') continue;
+    if (segment === '..') {
+      if (parts.length === 0) throw new Error(`Path "${rel}" leaves the source folder`);
+      parts.pop();
+    } else {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function findKustomizationFile(files: KustomizeFiles, dir: string): string | null {
+  for (const name of KUSTOMIZATION_FILENAMES) {
+    const path = dir ? `${dir}/${name}` : name;
+    if (path in files) return path;
+  }
+  return null;
+}
+
+/**
+ * Lists the directories holding a kustomization, leaf overlays first: a
+ * directory no other kustomization includes is more likely the one to deploy.
+ */
+export function findOverlays(files: KustomizeFiles): string[] {
+  const dirs = Object.keys(files)
+    .filter(path => KUSTOMIZATION_FILENAMES.includes(path.split('/').pop() ?? ''))
+    .map(dirname);
+  const referenced = new Set<string>();
+  for (const dir of dirs) {
+    try {
+      const kustomization = parseKustomization(files, dir);
+      for (const entry of [...(kustomization.resources ?? []), ...(kustomization.bases ?? [])]) {
+        referenced.add(joinPath(dir, String(entry)));
+      }
+    } catch {
+      // Broken kustomizations still show up; building them reports the error.
+    }
+  }
+  const unique = [...new Set(dirs)].sort();
+  return [...unique.filter(d => !referenced.has(d)), ...unique.filter(d => referenced.has(d))];
+}
+
+function parseKustomization(files: KustomizeFiles, dir: string): Record<string, any> {
+  const path = findKustomizationFile(files, dir);
+  if (!path) throw new Error(`No kustomization file in "${dir || '.'}"`);
+  const parsed = YAML.parse(files[path]);
+  if (!isPlainObject(parsed)) throw new Error(`${path} is not a YAML mapping`);
+  return parsed;
+}
+
+function readFile(files: KustomizeFiles, path: string): string {
+  if (!(path in files)) throw new Error(`File "${path}" not found`);
+  return files[path];
+}
+
+function parseResources(text: string, source: string): Resource[] {
+  return YAML.parseAllDocuments(text).flatMap(doc => {
+    if (doc.errors.length > 0) throw new Error(`${source}: ${doc.errors[0].message}`);
+    const obj = doc.toJSON();
+    if (!obj) return [];
+    if (obj.kind?.endsWith('List') && Array.isArray(obj.items)) return obj.items as Resource[];
+    return [obj as Resource];
+  });
+}
+
+function matchesName(pattern: string | undefined, name: string | undefined): boolean {
+  if (!pattern) return true;
+  if (pattern === name) return true;
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(name ?? '');
+  } catch {
+    return false;
+  }
+}
+
+function matchesSelector(selector: string | undefined, values: Record<string, string> = {}) {
+  if (!selector) return true;
+  return selector.split(',').every(term => {
+    const [key, value] = term.split('=').map(s => s.trim());
+    return value === undefined ? key in values : values[key] === value;
+  });
+}
+
+function matchesTarget(resource: Resource, target: Record<string, any>): boolean {
+  const [group, version] = String(resource.apiVersion ?? '').includes('/')
+    ? String(resource.apiVersion).split('/')
+    : ['', String(resource.apiVersion ?? '')];
+  return (
+    (target.kind === undefined || target.kind === resource.kind) &&
+    (target.group === undefined || target.group === group) &&
+    (target.version === undefined || target.version === version) &&
+    (target.namespace === undefined || target.namespace === resource.metadata?.namespace) &&
+    matchesName(target.name, resource.metadata?.name) &&
+    matchesSelector(target.labelSelector, resource.metadata?.labels) &&
+    matchesSelector(target.annotationSelector, resource.metadata?.annotations)
+  );
+}
+
+function mergeKeyFor(items: any[]): string | null {
+  for (const key of ['name', 'containerPort', 'port', 'mountPath']) {
+    if (items.length > 0 && items.every(item => isPlainObject(item) && key in item)) return key;
+  }
+  return null;
+}
+
+/**
+ * Strategic merge patch, approximated without OpenAPI schemas: lists of
+ * objects merge on `name` (or the port or mount path) and everything else is
+ * replaced. Supports `$patch: delete` and `$patch: replace` and null deletes.
+ */
+export function strategicMerge(target: any, patch: any): any {
+  if (!isPlainObject(patch) || !isPlainObject(target)) return clone(patch);
+  if (patch.$patch === 'replace') {
+    // eslint-disable-next-line no-unused-vars
+    const { $patch, ...rest } = patch;
+    return clone(rest);
+  }
+  const result: Record<string, any> = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === '$patch') continue;
+    const current = result[key];
+    if (value === null) {
+      delete result[key];
+    } else if (Array.isArray(value) && Array.isArray(current)) {
+      const mergeKey = mergeKeyFor(value);
+      if (mergeKey && mergeKeyFor(current) === mergeKey) {
+        const merged = [...current];
+        for (const item of value) {
+          const index = merged.findIndex(m => m[mergeKey] === item[mergeKey]);
+          if (item.$patch === 'delete') {
+            if (index !== -1) merged.splice(index, 1);
+          } else if (index !== -1) {
+            merged[index] = strategicMerge(merged[index], item);
+          } else {
+            merged.push(clone(item));
+          }
+        }
+        result[key] = merged;
+      } else {
+        result[key] = clone(value);
+      }
+    } else if (isPlainObject(value) && isPlainObject(current)) {
+      result[key] = strategicMerge(current, value);
+    } else {
+      result[key] = clone(value);
+    }
+  }
+  return result;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`Invalid JSON pointer "${pointer}"`);
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/** Applies RFC 6902 add, replace and remove operations. */
+export function applyJsonPatch(target: Resource, operations: any[]): Resource {
+  const result = clone(target);
+  for (const op of operations) {
+    const path = parsePointer(String(op?.path ?? ''));
+    if (path.length === 0) throw new Error('JSON patch cannot replace the whole resource');
+    const parentPath = path.slice(0, -1);
+    const key = path[path.length - 1];
+    let parent: any = result;
+    for (const segment of parentPath) {
+      parent = Array.isArray(parent) ? parent[Number(segment)] : parent?.[segment];
+      if (parent === undefined || parent === null) {
+        throw new Error(`JSON patch path "${op.path}" does not exist`);
+      }
+    }
+    switch (op.op) {
+      case 'add':
+        if (Array.isArray(parent)) {
+          parent.splice(key === '-' ? parent.length : Number(key), 0, clone(op.value));
+        } else {
+          parent[key] = clone(op.value);
+        }
+        break;
+      case 'replace':
+        if (!(key in parent)) throw new Error(`JSON patch path "${op.path}" does not exist`);
+        parent[key] = clone(op.value);
+        break;
+      case 'remove':
+        if (!(key in parent)) throw new Error(`JSON patch path "${op.path}" does not exist`);
+        if (Array.isArray(parent)) parent.splice(Number(key), 1);
+        else delete parent[key];
+        break;
+      default:
+        throw new Error(`Unsupported JSON patch operation "${op.op}"`);
+    }
+  }
+  return result;
+}
+
+function applyPatch(resources: Resource[], patchText: string, target?: Record<string, any>) {
+  const parsed = YAML.parse(patchText);
+  if (Array.isArray(parsed)) {
+    if (!target) throw new Error('A JSON patch needs a target');
+    return resources.map(r => (matchesTarget(r, target) ? applyJsonPatch(r, parsed) : r));
+  }
+  if (!isPlainObject(parsed)) throw new Error('Patch is not a YAML mapping or list');
+  const selector = target ?? { kind: parsed.kind, name: parsed.metadata?.name };
+  let matched = false;
+  const next = resources.flatMap(r => {
+    if (!matchesTarget(r, selector)) return [r];
+    matched = true;
+    if (parsed.$patch === 'delete') return [];
+    // A target patch keeps the resource's own identity.
+    const merged = strategicMerge(r, target ? { ...parsed, metadata: undefined } : parsed);
+    if (target) merged.metadata = strategicMerge(r.metadata, parsed.metadata ?? {});
+    return [merged];
+  });
+  if (!matched && !target) {
+    throw new Error(`Patch target ${selector.kind}/${selector.name} not found`);
+  }
+  return next;
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/** Hex SHA-256 of the UTF-8 bytes of `text`; synchronous, unlike WebCrypto. */
+function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  const blocks = Math.ceil((bytes.length + 9) / 64);
+  const padded = new Uint8Array(blocks * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        (hh +
+          (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) +
+          ((e & f) ^ (~e & g)) +
+          SHA256_K[i] +
+          w[i]) |
+        0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((value, i) => (h[i] += value));
+  }
+  return Array.from(h, value => value.toString(16).padStart(8, '0')).join('');
+}
+
+/** JSON with sorted keys and HTML-safe escapes, matching Go's `json.Marshal` of a map. */
+function goJson(value: unknown): string {
+  const sorted = (v: unknown): unknown =>
+    isPlainObject(v)
+      ? Object.fromEntries(
+          Object.keys(v)
+            .sort()
+            .map(key => [key, sorted(v[key])])
+        )
+      : v;
+  return JSON.stringify(sorted(value)).replace(
+    /[<>&\u2028\u2029]/g,
+    c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+/**
+ * The name suffix `kustomize build` gives a generated ConfigMap or Secret: the
+ * first 10 hex digits of the SHA-256 of its kind, final name, data (and type
+ * for Secrets), with vowels and easily confused digits swapped out.
+ */
+function nameSuffixHash(resource: Resource): string {
+  const hasData = (field: unknown) => isPlainObject(field) && Object.keys(field).length > 0;
+  const encoded: Record<string, unknown> = {
+    kind: resource.kind,
+    name: resource.metadata.name,
+    data: hasData(resource.data) ? resource.data : '',
+  };
+  if (resource.kind === 'Secret') encoded.type = resource.type ?? '';
+  if (resource.kind === 'ConfigMap' && hasData(resource.binaryData)) {
+    encoded.binaryData = resource.binaryData;
+  }
+  const swaps: Record<string, string> = { '0': 'g', '1': 'h', '3': 'k', a: 'm', e: 't' };
+  return sha256Hex(goJson(encoded))
+    .slice(0, 10)
+    .replace(/[013ae]/g, c => swaps[c]);
+}
+
+function parseEnvFile(text: string): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const index = trimmed.indexOf('=');
+    if (index === -1) data[trimmed] = '';
+    else data[trimmed.slice(0, index)] = trimmed.slice(index + 1);
+  }
+  return data;
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+}
+
+/**
+ * Records which generator made an object, so later levels can merge into it
+ * after its name gained a prefix. Removed from the built output.
+ */
+const GENERATOR_NAME_ANNOTATION = 'internal.config.kubernetes.io/generatorName';
+
+/**
+ * Marks generated objects whose name gets a hash suffix. As in kustomize, the
+ * hash is added once the whole build is done, over the final name and data.
+ */
+const NEEDS_HASH_ANNOTATION = 'internal.config.kubernetes.io/needsHashAnnotation';
+
+const INTERNAL_ANNOTATIONS = [GENERATOR_NAME_ANNOTATION, NEEDS_HASH_ANNOTATION];
+
+function generatorNameOf(resource: Resource): string | undefined {
+  return resource.metadata?.annotations?.[GENERATOR_NAME_ANNOTATION];
+}
+
+/**
+ * Generates a ConfigMap or Secret. `baseData` is the data of the object a
+ * `behavior: merge` generator merges into.
+ */
+function generate(
+  files: KustomizeFiles,
+  dir: string,
+  kind: 'ConfigMap' | 'Secret',
+  generator: Record<string, any>,
+  options: Record<string, any>,
+  baseData: Record<string, string> = {}
+): Resource {
+  const data: Record<string, string> = {};
+  for (const literal of generator.literals ?? []) {
+    const text = String(literal);
+    const index = text.indexOf('=');
+    if (index === -1) throw new Error(`Literal "${text}" in ${generator.name} has no "="`);
+    data[text.slice(0, index)] = text.slice(index + 1);
+  }
+  for (const entry of generator.files ?? []) {
+    const text = String(entry);
+    const index = text.indexOf('=');
+    const key = index === -1 ? text.split('/').pop()! : text.slice(0, index);
+    data[key] = readFile(files, joinPath(dir, index === -1 ? text : text.slice(index + 1)));
+  }
+  for (const envFile of [...(generator.envs ?? []), ...(generator.env ? [generator.env] : [])]) {
+    Object.assign(data, parseEnvFile(readFile(files, joinPath(dir, String(envFile)))));
+  }
+
+  const resource: Resource = {
+    apiVersion: 'v1',
+    kind,
+    metadata: {
+      name: generator.name,
+      ...(generator.namespace ? { namespace: generator.namespace } : {}),
+      ...(options.labels ? { labels: { ...options.labels } } : {}),
+      annotations: { ...options.annotations, [GENERATOR_NAME_ANNOTATION]: generator.name },
+    },
+  };
+  if (kind === 'Secret') {
+    resource.type = generator.type ?? 'Opaque';
+    resource.data = {
+      ...baseData,
+      ...Object.fromEntries(Object.entries(data).map(([k, v]) => [k, toBase64(v)])),
+    };
+  } else {
+    resource.data = { ...baseData, ...data };
+  }
+  const disableHash =
+    generator.options?.disableNameSuffixHash ?? options.disableNameSuffixHash ?? false;
+  if (!disableHash) resource.metadata.annotations[NEEDS_HASH_ANNOTATION] = 'true';
+  return resource;
+}
+
+/** Returns the pod spec of a workload, or undefined for other kinds. */
+function podSpecOf(resource: Resource): Resource | undefined {
+  if (resource.kind === 'Pod') return resource.spec;
+  if (TEMPLATE_WORKLOAD_KINDS.has(resource.kind)) return resource.spec?.template?.spec;
+  if (resource.kind === 'CronJob') return resource.spec?.jobTemplate?.spec?.template?.spec;
+  return undefined;
+}
+
+function podTemplateOf(resource: Resource): Resource | undefined {
+  if (TEMPLATE_WORKLOAD_KINDS.has(resource.kind)) return resource.spec?.template;
+  if (resource.kind === 'CronJob') return resource.spec?.jobTemplate?.spec?.template;
+  return undefined;
+}
+
+type NameMap = Record<
+  'ConfigMap' | 'Secret' | 'ServiceAccount' | 'PersistentVolumeClaim',
+  Map<string, string>
+>;
+
+/** Points ConfigMap, Secret, ServiceAccount and PVC references at renamed objects. */
+function updateReferences(resource: Resource, renamed: NameMap) {
+  const rename = (kind: keyof NameMap, name: string | undefined) =>
+    (name && renamed[kind].get(name)) ?? name;
+  const spec = podSpecOf(resource);
+  if (!spec) return;
+
+  if (spec.serviceAccountName) {
+    spec.serviceAccountName = rename('ServiceAccount', spec.serviceAccountName);
+  }
+  for (const secret of spec.imagePullSecrets ?? []) {
+    secret.name = rename('Secret', secret.name);
+  }
+  for (const volume of spec.volumes ?? []) {
+    if (volume.configMap) volume.configMap.name = rename('ConfigMap', volume.configMap.name);
+    if (volume.secret) volume.secret.secretName = rename('Secret', volume.secret.secretName);
+    if (volume.persistentVolumeClaim) {
+      volume.persistentVolumeClaim.claimName = rename(
+        'PersistentVolumeClaim',
+        volume.persistentVolumeClaim.claimName
+      );
+    }
+    for (const source of volume.projected?.sources ?? []) {
+      if (source.configMap) source.configMap.name = rename('ConfigMap', source.configMap.name);
+      if (source.secret) source.secret.name = rename('Secret', source.secret.name);
+    }
+  }
+  for (const container of [...(spec.containers ?? []), ...(spec.initContainers ?? [])]) {
+    for (const env of container.env ?? []) {
+      const ref = env.valueFrom;
+      if (ref?.configMapKeyRef) {
+        ref.configMapKeyRef.name = rename('ConfigMap', ref.configMapKeyRef.name);
+      }
+      if (ref?.secretKeyRef) ref.secretKeyRef.name = rename('Secret', ref.secretKeyRef.name);
+    }
+    for (const envFrom of container.envFrom ?? []) {
+      if (envFrom.configMapRef) {
+        envFrom.configMapRef.name = rename('ConfigMap', envFrom.configMapRef.name);
+      }
+      if (envFrom.secretRef) envFrom.secretRef.name = rename('Secret', envFrom.secretRef.name);
+    }
+  }
+}
+
+function addLabels(resource: Resource, labels: Record<string, string>, includeSelectors: boolean) {
+  resource.metadata = { ...resource.metadata, labels: { ...resource.metadata?.labels, ...labels } };
+  const template = podTemplateOf(resource);
+  if (template && includeSelectors) {
+    template.metadata = {
+      ...template.metadata,
+      labels: { ...template.metadata?.labels, ...labels },
+    };
+  }
+  if (!includeSelectors) return;
+  if (TEMPLATE_WORKLOAD_KINDS.has(resource.kind) && resource.kind !== 'Job' && resource.spec) {
+    resource.spec.selector = {
+      ...resource.spec.selector,
+      matchLabels: { ...resource.spec.selector?.matchLabels, ...labels },
+    };
+  }
+  if (resource.kind === 'Service' && resource.spec) {
+    resource.spec.selector = { ...resource.spec.selector, ...labels };
+  }
+}
+
+function setImages(resource: Resource, images: any[]) {
+  const spec = podSpecOf(resource);
+  if (!spec) return;
+  for (const container of [...(spec.containers ?? []), ...(spec.initContainers ?? [])]) {
+    const image = String(container.image ?? '');
+    const digestIndex = image.indexOf('@');
+    const withoutDigest = digestIndex === -1 ? image : image.slice(0, digestIndex);
+    const tagIndex = withoutDigest.lastIndexOf(':');
+    const name =
+      tagIndex > withoutDigest.lastIndexOf('/') ? withoutDigest.slice(0, tagIndex) : withoutDigest;
+    const rule = images.find(i => i?.name === name);
+    if (!rule) continue;
+    const tag = tagIndex > withoutDigest.lastIndexOf('/') ? withoutDigest.slice(tagIndex) : '';
+    const digest = digestIndex === -1 ? '' : image.slice(digestIndex);
+    const newName = rule.newName ?? name;
+    if (rule.digest) container.image = `${newName}@${rule.digest}`;
+    else if (rule.newTag !== undefined) container.image = `${newName}:${rule.newTag}`;
+    else container.image = `${newName}${tag}${digest}`;
+  }
+}
+
+function buildDir(files: KustomizeFiles, dir: string, stack: string[]): Resource[] {
+  if (stack.includes(dir)) {
+    throw new Error(`Kustomization cycle: ${[...stack, dir].join(' -> ')}`);
+  }
+  const k = parseKustomization(files, dir);
+  const nextStack = [...stack, dir];
+
+  let resources: Resource[] = [];
+  for (const entry of [...(k.bases ?? []), ...(k.resources ?? [])]) {
+    const ref = String(entry);
+    if (/^[a-z]+:\/\//i.test(ref) || ref.startsWith('github.com/')) {
+      throw new Error(`Remote resource "${ref}" is not supported`);
+    }
+    const path = joinPath(dir, ref);
+    if (findKustomizationFile(files, path)) {
+      resources.push(...buildDir(files, path, nextStack));
+    } else {
+      resources.push(...parseResources(readFile(files, path), path));
+    }
+  }
+
+  const generatorOptions = k.generatorOptions ?? {};
+  const generated: Resource[] = [];
+  for (const [kind, generators] of [
+    ['ConfigMap', k.configMapGenerator],
+    ['Secret', k.secretGenerator],
+  ] as const) {
+    for (const generator of generators ?? []) {
+      if (generator.behavior !== 'merge' && generator.behavior !== 'replace') {
+        generated.push(generate(files, dir, kind, generator, generatorOptions));
+        continue;
+      }
+      const existing = resources.findIndex(
+        r => r.kind === kind && (generatorNameOf(r) ?? r.metadata?.name) === generator.name
+      );
+      if (existing === -1) throw new Error(`No ${kind} ${generator.name} to ${generator.behavior}`);
+      const resource = generate(
+        files,
+        dir,
+        kind,
+        generator,
+        generatorOptions,
+        generator.behavior === 'merge' ? resources[existing].data : undefined
+      );
+      // The object keeps the name lower levels gave it, so base references still match.
+      resource.metadata.name = resources[existing].metadata.name;
+      resources[existing] = resource;
+    }
+  }
+  resources = [...resources, ...generated];
+
+  for (const entry of k.patchesStrategicMerge ?? []) {
+    const text = String(entry);
+    const inline = text.includes('\n') || text.trim().startsWith('{');
+    for (const doc of YAML.parseAllDocuments(
+      inline ? text : readFile(files, joinPath(dir, text))
+    )) {
+      const patch = doc.toJSON();
+      if (patch) resources = applyPatch(resources, YAML.stringify(patch));
+    }
+  }
+  for (const entry of [...(k.patches ?? []), ...(k.patchesJson6902 ?? [])]) {
+    const text = entry.patch ?? readFile(files, joinPath(dir, String(entry.path)));
+    resources = applyPatch(resources, text, entry.target);
+  }
+
+  // Replica overrides name resources as they were before this level's prefix.
+  for (const replica of k.replicas ?? []) {
+    for (const resource of resources) {
+      if (resource.metadata?.name === replica.name && resource.spec && podTemplateOf(resource)) {
+        resource.spec.replicas = replica.count;
+      }
+    }
+  }
+
+  const renamed: NameMap = {
+    ConfigMap: new Map(),
+    Secret: new Map(),
+    ServiceAccount: new Map(),
+    PersistentVolumeClaim: new Map(),
+  };
+  if (k.namePrefix || k.nameSuffix) {
+    for (const resource of resources) {
+      if (CLUSTER_SCOPED_KINDS.has(resource.kind) || !resource.metadata?.name) continue;
+      const newName = `${k.namePrefix ?? ''}${resource.metadata.name}${k.nameSuffix ?? ''}`;
+      if (resource.kind in renamed) {
+        renamed[resource.kind as keyof NameMap].set(resource.metadata.name, newName);
+      }
+      resource.metadata.name = newName;
+    }
+  }
+  resources.forEach(resource => updateReferences(resource, renamed));
+
+  for (const resource of resources) {
+    if (k.namespace && !CLUSTER_SCOPED_KINDS.has(resource.kind)) {
+      resource.metadata = { ...resource.metadata, namespace: k.namespace };
+    }
+    if (k.commonLabels) addLabels(resource, k.commonLabels, true);
+    for (const label of k.labels ?? []) {
+      addLabels(resource, label.pairs ?? {}, !!label.includeSelectors);
+      const template = podTemplateOf(resource);
+      if (template && label.includeTemplates && !label.includeSelectors) {
+        template.metadata = {
+          ...template.metadata,
+          labels: { ...template.metadata?.labels, ...label.pairs },
+        };
+      }
+    }
+    if (k.commonAnnotations) {
+      resource.metadata = {
+        ...resource.metadata,
+        annotations: { ...resource.metadata?.annotations, ...k.commonAnnotations },
+      };
+      const template = podTemplateOf(resource);
+      if (template) {
+        template.metadata = {
+          ...template.metadata,
+          annotations: { ...template.metadata?.annotations, ...k.commonAnnotations },
+        };
+      }
+    }
+    if (k.images) setImages(resource, k.images);
+  }
+  return resources;
+}
+
+/**
+ * Builds the kustomization in `dir` into multi-document YAML.
+ *
+ * @param files - All files of the source, keyed by relative path.
+ * @param dir - Directory of the overlay to build ('' for the root).
+ * @throws Error describing the first problem found.
+ */
+export function buildKustomization(files: KustomizeFiles, dir: string): string {
+  const resources = buildDir(files, dir, []);
+  const renamed: NameMap = {
+    ConfigMap: new Map(),
+    Secret: new Map(),
+    ServiceAccount: new Map(),
+    PersistentVolumeClaim: new Map(),
+  };
+  for (const resource of resources) {
+    if (resource.metadata?.annotations?.[NEEDS_HASH_ANNOTATION] !== 'true') continue;
+    const newName = `${resource.metadata.name}-${nameSuffixHash(resource)}`;
+    renamed[resource.kind as 'ConfigMap' | 'Secret'].set(resource.metadata.name, newName);
+    resource.metadata.name = newName;
+  }
+  resources.forEach(resource => updateReferences(resource, renamed));
+
+  return resources
+    .map(resource => {
+      const annotations = { ...resource.metadata?.annotations };
+      if (!INTERNAL_ANNOTATIONS.some(key => key in annotations)) return resource;
+      INTERNAL_ANNOTATIONS.forEach(key => delete annotations[key]);
+      const metadata = { ...resource.metadata, annotations };
+      if (Object.keys(annotations).length === 0) delete metadata.annotations;
+      return { ...resource, metadata };
+    })
+    .map(resource => YAML.stringify(resource).trim())
+    .join('\n---\n');
+}
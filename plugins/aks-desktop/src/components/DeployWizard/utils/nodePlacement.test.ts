@@ -0,0 +1,111 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import type { NodePoolDetails } from '../../../utils/azure/az-nodepools';
+import {
+  getNodePoolLabels,
+  getUntoleratedTaints,
+  placementForPool,
+  poolMatchesSelector,
+} from './nodePlacement';
+
+function makePool(overrides?: Partial<NodePoolDetails>): NodePoolDetails {
+  return {
+    name: 'gpu',
+    mode: 'User',
+    vmSize: 'Standard_NC6s_v3',
+    count: 2,
+    osType: 'Linux',
+    autoscaling: false,
+    taints: [{ key: 'sku', value: 'gpu', effect: 'NoSchedule' }],
+    labels: { workload: 'ml' },
+    zones: [],
+    provisioningState: 'Succeeded',
+    powerState: 'Running',
+    ...overrides,
+  };
+}
+
+describe('getNodePoolLabels', () => {
+  it('adds the labels AKS sets from the pool settings', () => {
+    expect(getNodePoolLabels(makePool())).toEqual({
+      workload: 'ml',
+      'kubernetes.azure.com/agentpool': 'gpu',
+      'kubernetes.azure.com/mode': 'user',
+      'kubernetes.io/os': 'linux',
+      'node.kubernetes.io/instance-type': 'Standard_NC6s_v3',
+    });
+  });
+});
+
+describe('poolMatchesSelector', () => {
+  it('matches when every selector entry is a pool label', () => {
+    const pool = makePool();
+    expect(poolMatchesSelector(pool, [])).toBe(true);
+    expect(poolMatchesSelector(pool, [{ key: 'workload', value: 'ml' }])).toBe(true);
+    expect(poolMatchesSelector(pool, [{ key: 'workload', value: 'web' }])).toBe(false);
+  });
+});
+
+describe('getUntoleratedTaints', () => {
+  const pool = makePool({
+    taints: [
+      { key: 'sku', value: 'gpu', effect: 'NoSchedule' },
+      { key: 'spot', effect: 'PreferNoSchedule' },
+    ],
+  });
+
+  it('ignores PreferNoSchedule taints', () => {
+    expect(getUntoleratedTaints(pool, [])).toEqual([
+      { key: 'sku', value: 'gpu', effect: 'NoSchedule' },
+    ]);
+  });
+
+  it('accepts Equal and Exists tolerations', () => {
+    expect(
+      getUntoleratedTaints(pool, [{ key: 'sku', operator: 'Equal', value: 'gpu', effect: '' }])
+    ).toEqual([]);
+    expect(
+      getUntoleratedTaints(pool, [
+        { key: 'sku', operator: 'Exists', value: '', effect: 'NoSchedule' },
+      ])
+    ).toEqual([]);
+    expect(
+      getUntoleratedTaints(pool, [{ key: '', operator: 'Exists', value: '', effect: '' }])
+    ).toEqual([]);
+  });
+
+  it('rejects tolerations with another value or effect', () => {
+    expect(
+      getUntoleratedTaints(pool, [{ key: 'sku', operator: 'Equal', value: 'cpu', effect: '' }])
+    ).toHaveLength(1);
+    expect(
+      getUntoleratedTaints(pool, [
+        { key: 'sku', operator: 'Exists', value: '', effect: 'NoExecute' },
+      ])
+    ).toHaveLength(1);
+  });
+});
+
+describe('placementForPool', () => {
+  it('pins the pool and tolerates its taints', () => {
+    const pool = makePool({
+      taints: [
+        { key: 'sku', value: 'gpu', effect: 'NoSchedule' },
+        { key: 'dedicated', effect: 'NoExecute' },
+      ],
+    });
+    const placement = placementForPool(pool);
+
+    expect(placement).toEqual({
+      nodeSelector: [{ key: 'kubernetes.azure.com/agentpool', value: 'gpu' }],
+      tolerations: [
+        { key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' },
+        { key: 'dedicated', operator: 'Exists', value: '', effect: 'NoExecute' },
+      ],
+    });
+    expect(poolMatchesSelector(pool, placement.nodeSelector)).toBe(true);
+    expect(getUntoleratedTaints(pool, placement.tolerations)).toEqual([]);
+  });
+});
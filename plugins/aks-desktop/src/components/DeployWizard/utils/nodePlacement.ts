@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import {
+  AGENT_POOL_LABEL,
+  type NodePoolDetails,
+  type NodePoolTaint,
+} from '../../../utils/azure/az-nodepools';
+import type { NodeSelectorEntry, TolerationEntry } from '../hooks/useContainerConfiguration';
+
+/** Taint effects a toleration can name; empty tolerates every effect. */
+export const TOLERATION_EFFECTS = ['', 'NoSchedule', 'PreferNoSchedule', 'NoExecute'] as const;
+
+/** Builds `spec.nodeSelector`, or undefined when no entry has a key. */
+export function buildNodeSelector(
+  entries: NodeSelectorEntry[] | undefined
+): Record<string, string> | undefined {
+  const filled = (entries ?? []).filter(e => e.key.trim());
+  if (filled.length === 0) return undefined;
+  return Object.fromEntries(filled.map(e => [e.key.trim(), e.value.trim()]));
+}
+
+/** Builds `spec.tolerations`, or undefined when there are none. */
+export function buildTolerations(
+  entries: TolerationEntry[] | undefined
+): Array<Record<string, string>> | undefined {
+  const filled = (entries ?? []).filter(e => e.key.trim() || e.operator === 'Exists');
+  if (filled.length === 0) return undefined;
+  return filled.map(e => ({
+    ...(e.key.trim() ? { key: e.key.trim() } : {}),
+    operator: e.operator,
+    ...(e.operator === 'Equal' ? { value: e.value.trim() } : {}),
+    ...(e.effect ? { effect: e.effect } : {}),
+  }));
+}
+
+/**
+ * Labels every node of a pool carries: the pool's own labels plus the ones
+ * AKS and Kubernetes set from the pool settings. Zone labels differ per node
+ * and are left out.
+ */
+export function getNodePoolLabels(pool: NodePoolDetails): Record<string, string> {
+  return {
+    ...pool.labels,
+    [AGENT_POOL_LABEL]: pool.name,
+    'kubernetes.azure.com/mode': pool.mode.toLowerCase(),
+    'kubernetes.io/os': pool.osType.toLowerCase(),
+    'node.kubernetes.io/instance-type': pool.vmSize,
+  };
+}
+
+/** Whether the nodes of a pool satisfy a node selector. */
+export function poolMatchesSelector(pool: NodePoolDetails, entries: NodeSelectorEntry[]): boolean {
+  const selector = buildNodeSelector(entries) ?? {};
+  const labels = getNodePoolLabels(pool);
+  return Object.entries(selector).every(([key, value]) => labels[key] === value);
+}
+
+function tolerates(toleration: TolerationEntry, taint: NodePoolTaint): boolean {
+  if (toleration.effect && toleration.effect !== taint.effect) return false;
+  const key = toleration.key.trim();
+  if (toleration.operator === 'Exists') return !key || key === taint.key;
+  return key === taint.key && toleration.value.trim() === (taint.value ?? '');
+}
+
+/** Taints of a pool that keep pods off it; `PreferNoSchedule` taints only discourage. */
+export function getUntoleratedTaints(
+  pool: NodePoolDetails,
+  tolerations: TolerationEntry[]
+): NodePoolTaint[] {
+  return pool.taints.filter(
+    taint => taint.effect !== 'PreferNoSchedule' && !tolerations.some(t => tolerates(t, taint))
+  );
+}
+
+/** Node selector and tolerations that place pods on exactly one pool. */
+export function placementForPool(pool: NodePoolDetails): {
+  nodeSelector: NodeSelectorEntry[];
+  tolerations: TolerationEntry[];
+} {
+  return {
+    nodeSelector: [{ key: AGENT_POOL_LABEL, value: pool.name }],
+    tolerations: pool.taints.map(taint => ({
+      key: taint.key,
+      operator: taint.value !== undefined ? 'Equal' : 'Exists',
+      value: taint.value ?? '',
+      effect: taint.effect as TolerationEntry['effect'],
+    })),
+  };
+}
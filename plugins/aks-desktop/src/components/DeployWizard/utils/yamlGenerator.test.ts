@@ -2,6 +2,8 @@
 // Licensed under the Apache 2.0.
 
 import { describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+import { createAdditionalContainer } from '../hooks/useContainerConfiguration';
 import { ContainerDeploymentConfig, generateYamlForContainer } from './yamlGenerator';
 
 function makeConfig(overrides?: Partial<ContainerDeploymentConfig>): ContainerDeploymentConfig {
@@ -12,6 +14,16 @@ function makeConfig(overrides?: Partial<ContainerDeploymentConfig>): ContainerDe
     targetPort: 80,
     servicePort: 80,
     serviceType: 'ClusterIP',
+    exposureMode: 'none',
+    ingressHost: '',
+    ingressPaths: [{ path: '/', pathType: 'Prefix' }],
+    ingressClassName: 'webapprouting.kubernetes.azure.com',
+    enableIngressTls: false,
+    ingressTlsSecretName: '',
+    enableCertManager: false,
+    certManagerClusterIssuer: 'letsencrypt',
+    gatewayName: '',
+    gatewayNamespace: '',
     enableResources: false,
     cpuRequest: '100m',
     cpuLimit: '500m',
@@ -51,6 +63,10 @@ function makeConfig(overrides?: Partial<ContainerDeploymentConfig>): ContainerDe
     workloadIdentityServiceAccount: '',
     enablePodAntiAffinity: false,
     enableTopologySpreadConstraints: false,
+    nodeSelector: [],
+    tolerations: [],
+    sidecarContainers: [],
+    initContainers: [],
     namespace: 'test-ns',
     ...overrides,
   };
@@ -213,4 +229,258 @@ describe('generateYamlForContainer', () => {
     expect(secretName.length).toBeLessThanOrEqual(63);
     expect(secretName).toMatch(/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/);
   });
+
+  it('emits init containers and sidecars next to the primary container', () => {
+    const yaml = generateYamlForContainer(
+      makeConfig({
+        initContainers: [
+          createAdditionalContainer({
+            name: 'migrate',
+            image: 'myapp:migrations',
+            command: 'npm run migrate',
+            readinessProbe: { ...createAdditionalContainer().readinessProbe, enabled: true },
+          }),
+        ],
+        sidecarContainers: [
+          createAdditionalContainer({
+            name: 'log-shipper',
+            image: 'fluent/fluent-bit:3.0',
+            ports: [2020],
+            enableResources: false,
+            envVars: [{ key: 'LOG_LEVEL', value: 'info', isSecret: false }],
+            livenessProbe: {
+              ...createAdditionalContainer().livenessProbe,
+              enabled: true,
+              path: '/api/v1/health',
+              port: 2020,
+            },
+          }),
+        ],
+      })
+    );
+
+    const deployment = YAML.parseAllDocuments(yaml)
+      .map(d => d.toJSON())
+      .find(d => d.kind === 'Deployment');
+    const podSpec = deployment.spec.template.spec;
+
+    expect(podSpec.initContainers).toHaveLength(1);
+    expect(podSpec.initContainers[0]).toMatchObject({
+      name: 'migrate',
+      image: 'myapp:migrations',
+      command: ['npm', 'run', 'migrate'],
+      resources: { requests: { cpu: '50m', memory: '64Mi' } },
+    });
+    // Kubernetes rejects probes on init containers
+    expect(podSpec.initContainers[0].readinessProbe).toBeUndefined();
+
+    expect(podSpec.containers.map((c: { name: string }) => c.name)).toEqual([
+      'test-app',
+      'log-shipper',
+    ]);
+    const sidecar = podSpec.containers[1];
+    expect(sidecar.ports).toEqual([{ containerPort: 2020 }]);
+    expect(sidecar.env).toEqual([{ name: 'LOG_LEVEL', value: 'info' }]);
+    expect(sidecar.livenessProbe.httpGet).toEqual({ path: '/api/v1/health', port: 2020 });
+    expect(sidecar.resources).toBeUndefined();
+    expect(sidecar.securityContext).toEqual({ allowPrivilegeEscalation: false });
+  });
+
+  it('stores additional container secrets in the shared Secret under prefixed keys', () => {
+    const yaml = generateYamlForContainer(
+      makeConfig({
+        envVars: [{ key: 'TOKEN', value: 'main-token', isSecret: true }],
+        sidecarContainers: [
+          createAdditionalContainer({
+            name: 'auth-proxy',
+            image: 'oauth2-proxy:7',
+            envVars: [{ key: 'TOKEN', value: 'proxy-token', isSecret: true }],
+          }),
+        ],
+      })
+    );
+
+    const docs = YAML.parseAllDocuments(yaml).map(d => d.toJSON());
+    const secret = docs.find(d => d.kind === 'Secret');
+    expect(secret.stringData).toEqual({ TOKEN: 'main-token', 'auth-proxy.TOKEN': 'proxy-token' });
+
+    const deployment = docs.find(d => d.kind === 'Deployment');
+    const proxyEnv = deployment.spec.template.spec.containers[1].env;
+    expect(proxyEnv[0].valueFrom.secretKeyRef).toEqual({
+      name: 'test-app-env-secrets',
+      key: 'auth-proxy.TOKEN',
+    });
+  });
+
+  it('references Key Vault secrets through a SecretProviderClass bound to the workload identity', () => {
+    const keyVaultRef = {
+      vaultName: 'kv-shop',
+      vaultId: '/subscriptions/s/resourceGroups/rg/providers/Microsoft.KeyVault/vaults/kv-shop',
+      tenantId: 'tenant-1',
+      secretName: 'db-password',
+    };
+    const yaml = generateYamlForContainer(
+      makeConfig({
+        enableWorkloadIdentity: true,
+        workloadIdentityClientId: 'client-1',
+        envVars: [
+          { key: 'DB_PASSWORD', value: 'ignored', isSecret: true, keyVaultRef },
+          { key: 'LOG_LEVEL', value: 'info', isSecret: false },
+        ],
+      })
+    );
+
+    const docs = YAML.parseAllDocuments(yaml).map(d => d.toJSON());
+    expect(docs.find(d => d.kind === 'Secret')).toBeUndefined();
+
+    const spc = docs.find(d => d.kind === 'SecretProviderClass');
+    expect(spc.metadata).toEqual({ name: 'test-app-kv-kv-shop', namespace: 'test-ns' });
+    expect(spc.spec.parameters).toMatchObject({
+      usePodIdentity: 'false',
+      clientID: 'client-1',
+      keyvaultName: 'kv-shop',
+      tenantId: 'tenant-1',
+    });
+    expect(YAML.parse(YAML.parse(spc.spec.parameters.objects).array[0])).toEqual({
+      objectName: 'db-password',
+      objectType: 'secret',
+    });
+    expect(spc.spec.secretObjects[0]).toEqual({
+      secretName: 'test-app-kv-kv-shop',
+      type: 'Opaque',
+      data: [{ objectName: 'db-password', key: 'db-password' }],
+    });
+
+    const podSpec = docs.find(d => d.kind === 'Deployment').spec.template.spec;
+    expect(podSpec.volumes).toEqual([
+      {
+        name: 'test-app-kv-kv-shop',
+        csi: {
+          driver: 'secrets-store.csi.k8s.io',
+          readOnly: true,
+          volumeAttributes: { secretProviderClass: 'test-app-kv-kv-shop' },
+        },
+      },
+    ]);
+    expect(podSpec.containers[0].volumeMounts).toEqual([
+      { name: 'test-app-kv-kv-shop', mountPath: '/mnt/secrets-store/kv-shop', readOnly: true },
+    ]);
+    expect(podSpec.containers[0].env).toEqual([
+      { name: 'LOG_LEVEL', value: 'info' },
+      {
+        name: 'DB_PASSWORD',
+        valueFrom: { secretKeyRef: { name: 'test-app-kv-kv-shop', key: 'db-password' } },
+      },
+    ]);
+  });
+
+  it('omits initContainers when none are configured', () => {
+    const yaml = generateYamlForContainer(makeConfig());
+    expect(yaml).not.toContain('initContainers');
+  });
+
+  it('emits the node selector and tolerations on the pod spec', () => {
+    const yaml = generateYamlForContainer(
+      makeConfig({
+        nodeSelector: [
+          { key: 'kubernetes.azure.com/agentpool', value: 'gpu' },
+          { key: ' ', value: 'ignored' },
+        ],
+        tolerations: [
+          { key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' },
+          { key: '', operator: 'Exists', value: 'ignored', effect: '' },
+        ],
+      })
+    );
+    const deployment = YAML.parseAllDocuments(yaml)
+      .map(d => d.toJSON())
+      .find(d => d.kind === 'Deployment');
+
+    expect(deployment.spec.template.spec.nodeSelector).toEqual({
+      'kubernetes.azure.com/agentpool': 'gpu',
+    });
+    expect(deployment.spec.template.spec.tolerations).toEqual([
+      { key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' },
+      { operator: 'Exists' },
+    ]);
+  });
+
+  it('omits nodeSelector and tolerations when none are configured', () => {
+    const yaml = generateYamlForContainer(makeConfig());
+    expect(yaml).not.toContain('nodeSelector');
+    expect(yaml).not.toContain('tolerations');
+  });
+
+  it('emits an app routing Ingress with TLS and cert-manager annotation', () => {
+    const yaml = generateYamlForContainer(
+      makeConfig({
+        servicePort: 8080,
+        exposureMode: 'ingress',
+        ingressHost: 'shop.example.com',
+        ingressPaths: [
+          { path: '/', pathType: 'Prefix' },
+          { path: '/healthz', pathType: 'Exact' },
+        ],
+        enableIngressTls: true,
+        ingressTlsSecretName: 'shop-tls',
+        enableCertManager: true,
+        certManagerClusterIssuer: 'letsencrypt-prod',
+      })
+    );
+
+    expect(yaml).toContain('# Ingress');
+    const ingress = YAML.parseAllDocuments(yaml)
+      .map(d => d.toJSON())
+      .find(d => d.kind === 'Ingress');
+    expect(ingress.apiVersion).toBe('networking.k8s.io/v1');
+    expect(ingress.metadata).toEqual({
+      name: 'test-app',
+      namespace: 'test-ns',
+      annotations: { 'cert-manager.io/cluster-issuer': 'letsencrypt-prod' },
+    });
+    expect(ingress.spec.ingressClassName).toBe('webapprouting.kubernetes.azure.com');
+    expect(ingress.spec.tls).toEqual([{ hosts: ['shop.example.com'], secretName: 'shop-tls' }]);
+    expect(ingress.spec.rules[0].host).toBe('shop.example.com');
+    expect(ingress.spec.rules[0].http.paths[1]).toEqual({
+      path: '/healthz',
+      pathType: 'Exact',
+      backend: { service: { name: 'test-app', port: { number: 8080 } } },
+    });
+  });
+
+  it('emits a Gateway API HTTPRoute attached to the selected Gateway', () => {
+    const yaml = generateYamlForContainer(
+      makeConfig({
+        exposureMode: 'gateway',
+        ingressHost: 'shop.example.com',
+        ingressPaths: [{ path: '/api', pathType: 'Prefix' }],
+        gatewayName: 'public',
+        gatewayNamespace: 'gateway-system',
+        // TLS settings apply to Ingress only; the Gateway listener terminates TLS.
+        enableIngressTls: true,
+        ingressTlsSecretName: 'ignored',
+      })
+    );
+
+    const docs = YAML.parseAllDocuments(yaml).map(d => d.toJSON());
+    expect(docs.find(d => d.kind === 'Ingress')).toBeUndefined();
+    const route = docs.find(d => d.kind === 'HTTPRoute');
+    expect(route.apiVersion).toBe('gateway.networking.k8s.io/v1');
+    expect(route.spec).toEqual({
+      parentRefs: [{ name: 'public', namespace: 'gateway-system' }],
+      hostnames: ['shop.example.com'],
+      rules: [
+        {
+          matches: [{ path: { type: 'PathPrefix', value: '/api' } }],
+          backendRefs: [{ name: 'test-app', port: 80 }],
+        },
+      ],
+    });
+  });
+
+  it('emits neither Ingress nor HTTPRoute when exposure mode is none', () => {
+    const yaml = generateYamlForContainer(makeConfig({ ingressHost: 'shop.example.com' }));
+    expect(yaml).not.toContain('kind: Ingress');
+    expect(yaml).not.toContain('kind: HTTPRoute');
+  });
 });
@@ -4,7 +4,14 @@
 import YAML from 'yaml';
 import { normalizeK8sName } from '../../../utils/kubernetes/k8sNames';
 import { getServiceAccountName } from '../../../utils/kubernetes/serviceAccountNames';
-import { ContainerConfig } from '../hooks/useContainerConfiguration';
+import type {
+  AdditionalContainerConfig,
+  ContainerConfig,
+} from '../hooks/useContainerConfiguration';
+import { buildAdditionalContainerSpec } from './additionalContainers';
+import { buildHttpRouteManifest, buildIngressManifest } from './exposure';
+import { buildKeyVaultResources } from './keyVault';
+import { buildNodeSelector, buildTolerations } from './nodePlacement';
 
 /**
  * Configuration for generating Kubernetes YAML from container settings.
@@ -24,20 +31,30 @@ function quoted(value: string): YAML.Scalar {
   return s;
 }
 
+/**
+ * Secret key for a secret env var of an additional container. Prefixed with the
+ * container name so two containers can use the same variable name with different values.
+ */
+function additionalContainerSecretKey(containerName: string, envKey: string): string {
+  return `${containerName.trim()}.${envKey}`;
+}
+
 /**
  * Generates Kubernetes YAML for a container deployment
  * @param config - Configuration object containing all deployment settings
- * @returns Multi-document YAML string containing optional Secret, optional ServiceAccount,
- * Deployment, Service, and optionally HPA
+ * @returns Multi-document YAML string containing optional Secret, optional SecretProviderClasses
+ * for Key Vault references, optional ServiceAccount, Deployment (with any init and sidecar
+ * containers), Service, optional Ingress or HTTPRoute, and optionally HPA
  */
 export function generateYamlForContainer(config: ContainerDeploymentConfig): string {
   const ns = config.namespace || 'default';
   const name = config.appName || 'app';
   const image = config.containerImage || 'nginx:latest';
 
-  const activeEnvVars = config.envVars.filter(e => e.key.trim().length > 0);
+  const activeEnvVars = config.envVars.filter(e => e.key.trim().length > 0 && !e.keyVaultRef);
   const plainEnvVars = activeEnvVars.filter(e => !e.isSecret);
   const secretEnvVars = activeEnvVars.filter(e => e.isSecret);
+  const keyVault = buildKeyVaultResources(config, name, ns);
   const secretName = normalizeK8sName(`${name}-env-secrets`);
 
   // Pod-level WI config (label + serviceAccountName) should be preserved even without
@@ -62,6 +79,7 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
         },
       },
     })),
+    ...Array.from(keyVault.env.values()),
   ];
 
   // --- Build probe objects ---
@@ -146,6 +164,9 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
   if (envEntries.length > 0) {
     container.env = envEntries;
   }
+  if (keyVault.volumeMounts.length > 0) {
+    container.volumeMounts = keyVault.volumeMounts;
+  }
 
   // Always include securityContext since we're setting allowPrivilegeEscalation explicitly
   const securityContext: Record<string, boolean> = {};
@@ -154,6 +175,24 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
   securityContext.allowPrivilegeEscalation = config.allowPrivilegeEscalation;
   container.securityContext = securityContext;
 
+  // --- Build additional containers ---
+  // Secret env vars of every container share one Secret; see additionalContainerSecretKey.
+  const secretEntries = secretEnvVars.map(e => ({ key: e.key, value: e.value }));
+  const buildAdditional = (c: AdditionalContainerConfig, isInit: boolean) => {
+    const active = c.envVars.filter(e => e.key.trim().length > 0);
+    const env = active.map(e => {
+      if (!e.isSecret) {
+        return { name: e.key, value: quoted(e.value) };
+      }
+      const key = additionalContainerSecretKey(c.name, e.key);
+      secretEntries.push({ key, value: e.value });
+      return { name: e.key, valueFrom: { secretKeyRef: { name: secretName, key: quoted(key) } } };
+    });
+    return buildAdditionalContainerSpec(c, { isInit, env, securityContext });
+  };
+  const initContainers = (config.initContainers ?? []).map(c => buildAdditional(c, true));
+  const sidecarContainers = (config.sidecarContainers ?? []).map(c => buildAdditional(c, false));
+
   // --- Build pod template labels ---
   const podLabels: Record<string, unknown> = { app: name };
   if (wiPodConfigEnabled) {
@@ -194,11 +233,26 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
     ];
   }
 
+  const nodeSelector = buildNodeSelector(config.nodeSelector);
+  if (nodeSelector) {
+    podSpec.nodeSelector = nodeSelector;
+  }
+  const tolerations = buildTolerations(config.tolerations);
+  if (tolerations) {
+    podSpec.tolerations = tolerations;
+  }
+
   if (wiPodConfigEnabled) {
     podSpec.serviceAccountName = saName;
   }
 
-  podSpec.containers = [container];
+  if (initContainers.length > 0) {
+    podSpec.initContainers = initContainers;
+  }
+  podSpec.containers = [container, ...sidecarContainers];
+  if (keyVault.volumes.length > 0) {
+    podSpec.volumes = keyVault.volumes;
+  }
 
   // --- Build Deployment ---
   const deployment = {
@@ -286,7 +340,7 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
   // secretKeyRef in the Deployment has a matching key in the Secret. For edit flows
   // where values can't be read back, blank values are emitted as empty strings so the
   // Secret still contains the key (avoiding broken references).
-  if (secretEnvVars.length > 0) {
+  if (secretEntries.length > 0) {
     const secret = {
       apiVersion: 'v1',
       kind: 'Secret',
@@ -300,13 +354,17 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
     const doc = new YAML.Document(secret);
     // Replace the stringData node with a YAMLMap that has double-quoted keys and values
     const sdMap = new YAML.YAMLMap();
-    for (const e of secretEnvVars) {
+    for (const e of secretEntries) {
       sdMap.add(new YAML.Pair(quoted(e.key), quoted(e.value)));
     }
     doc.setIn(['stringData'], sdMap);
     sections.push(`# Secret\n${doc.toString().trim()}`);
   }
 
+  for (const spc of keyVault.secretProviderClasses) {
+    sections.push(`# SecretProviderClass\n${stringify(spc)}`);
+  }
+
   if (wiFullEnabled) {
     const serviceAccount = {
       apiVersion: 'v1',
@@ -323,6 +381,13 @@ export function generateYamlForContainer(config: ContainerDeploymentConfig): str
   }
 
   sections.push(`# Deployment\n${stringify(deployment)}`, `# Service\n${stringify(service)}`);
+  if (config.exposureMode === 'ingress') {
+    const ingress = buildIngressManifest(config, name, ns, config.servicePort);
+    sections.push(`# Ingress\n${stringify(ingress)}`);
+  } else if (config.exposureMode === 'gateway') {
+    const route = buildHttpRouteManifest(config, name, ns, config.servicePort);
+    sections.push(`# HTTPRoute\n${stringify(route)}`);
+  }
   if (hpa) sections.push(`# HPA\n${stringify(hpa)}`);
   return sections.join('\n---\n');
 }
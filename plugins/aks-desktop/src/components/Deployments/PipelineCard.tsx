@@ -13,7 +13,7 @@ import {
   Typography,
 } from '@mui/material';
 import { visuallyHidden } from '@mui/utils';
-import React from 'react';
+import React, { useState } from 'react';
 import { usePreviewFeatures } from '../../hooks/usePreviewFeatures';
 import type { ProjectDefinition } from '../../types/project';
 import { openExternalUrl } from '../../utils/shared/openExternalUrl';
@@ -21,7 +21,11 @@ import { usePipelineStatus } from '../DeployTab/hooks/usePipelineStatus';
 import { OPEN_CONFIGURE_PIPELINE_EVENT } from '../GitHubPipeline/constants';
 import { useGitHubAuthContext } from '../GitHubPipeline/GitHubAuthContext';
 import { getRunStatusIcon, getRunStatusLabel } from '../GitHubPipeline/utils/statusDisplay';
-import { usePipelineRuns } from './hooks/usePipelineRuns';
+import { PipelineDriftDialog } from './components/PipelineDriftDialog';
+import { WorkflowRunDialog } from './components/WorkflowRunDialog';
+import { useEnvironmentDeployments } from './hooks/useEnvironmentDeployments';
+import { usePipelineDrift } from './hooks/usePipelineDrift';
+import { type PipelineRun, usePipelineRuns } from './hooks/usePipelineRuns';
 
 interface PipelineCardProps {
   project: ProjectDefinition;
@@ -35,6 +39,12 @@ function PipelineCard({ project }: PipelineCardProps) {
   const { octokit, authState, startOAuth } = useGitHubAuthContext();
   const pipelineStatus = usePipelineStatus(cluster, namespace);
   const { runs, loading, error } = usePipelineRuns(octokit, pipelineStatus.repos);
+  const environments = useEnvironmentDeployments(octokit, pipelineStatus.repos);
+  const [selectedRun, setSelectedRun] = useState<PipelineRun | null>(null);
+  const drift = usePipelineDrift(octokit, pipelineStatus.repos);
+  const [driftRepo, setDriftRepo] = useState<string | null>(null);
+  const selectedDrift =
+    drift.drifts.find(d => `${d.repo.owner}/${d.repo.repo}` === driftRepo) ?? null;
 
   if (!githubPipelines) return null;
 
@@ -124,6 +134,126 @@ function PipelineCard({ project }: PipelineCardProps) {
             </Typography>
           ))}
 
+          {environments.length > 0 && (
+            <Box sx={{ mb: 1.5 }}>
+              <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+                {t('Environments')}
+              </Typography>
+              {environments.map(env => (
+                <Box
+                  key={`${env.repoFullName}/${env.environment}`}
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}
+                >
+                  <Chip label={env.environment} size="small" />
+                  {env.sha ? (
+                    <Tooltip
+                      title={t('Deployed {{date}}', {
+                        date: env.deployedAt ? new Date(env.deployedAt).toLocaleString() : '',
+                      })}
+                    >
+                      <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                        {env.sha.slice(0, 7)}
+                      </Typography>
+                    </Tooltip>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      {t('Not deployed')}
+                    </Typography>
+                  )}
+                  {pipelineStatus.repos.length > 1 && (
+                    <Typography variant="caption" color="text.secondary" noWrap>
+                      {env.repoFullName}
+                    </Typography>
+                  )}
+                </Box>
+              ))}
+            </Box>
+          )}
+
+          {(drift.drifts.length > 0 || drift.unknownRepos.length > 0 || drift.error) && (
+            <Box sx={{ mb: 1.5 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 0.5 }}>
+                <Typography variant="subtitle2" sx={{ flex: 1 }}>
+                  {t('Pipeline files')}
+                </Typography>
+                <Tooltip title={t('Check again')}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      aria-label={t('Check pipeline files again')}
+                      disabled={drift.checking}
+                      onClick={drift.refresh}
+                    >
+                      <Box component={Icon} icon="mdi:refresh" sx={{ fontSize: 16 }} aria-hidden />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+              {drift.drifts.map(d => {
+                const fullName = `${d.repo.owner}/${d.repo.repo}`;
+                const changedCount = d.files.filter(file => file.status !== 'current').length;
+                return (
+                  <Box
+                    key={fullName}
+                    sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}
+                  >
+                    {changedCount === 0 ? (
+                      <Chip label={t('Up to date')} size="small" color="success" />
+                    ) : (
+                      <Chip
+                        label={
+                          d.inputsGuessed
+                            ? t('{{count}} files may differ', { count: changedCount })
+                            : t('{{count}} files differ', { count: changedCount })
+                        }
+                        size="small"
+                        color="warning"
+                      />
+                    )}
+                    {pipelineStatus.repos.length > 1 && (
+                      <Typography variant="caption" color="text.secondary" noWrap>
+                        {fullName}
+                      </Typography>
+                    )}
+                    {changedCount > 0 && (
+                      <Button
+                        size="small"
+                        onClick={() => setDriftRepo(fullName)}
+                        sx={{ textTransform: 'none', ml: 'auto' }}
+                      >
+                        {d.updatePr ? t('View update') : t('Review')}
+                      </Button>
+                    )}
+                  </Box>
+                );
+              })}
+              {drift.unknownRepos.map(repo => {
+                const fullName = `${repo.owner}/${repo.repo}`;
+                return (
+                  <Box
+                    key={fullName}
+                    sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}
+                  >
+                    <Chip label={t('Inputs unknown')} size="small" />
+                    {pipelineStatus.repos.length > 1 && (
+                      <Typography variant="caption" color="text.secondary" noWrap>
+                        {fullName}
+                      </Typography>
+                    )}
+                    <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+                      {t('Re-run pipeline setup to check these files')}
+                    </Typography>
+                  </Box>
+                );
+              })}
+              {drift.error && !selectedDrift && (
+                <Typography variant="body2" color="error">
+                  {drift.error}
+                </Typography>
+              )}
+            </Box>
+          )}
+
           {loading && runs.length === 0 && (
             <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
               <CircularProgress size={20} />
@@ -173,6 +303,20 @@ function PipelineCard({ project }: PipelineCardProps) {
                     sx={{ textTransform: 'capitalize' }}
                   />
                 </Box>
+                <Tooltip title={t('View logs')}>
+                  <IconButton
+                    size="small"
+                    aria-label={t('View run logs')}
+                    onClick={() => setSelectedRun(run)}
+                  >
+                    <Box
+                      component={Icon}
+                      icon="mdi:text-box-search-outline"
+                      sx={{ fontSize: 16 }}
+                      aria-hidden
+                    />
+                  </IconButton>
+                </Tooltip>
                 <Tooltip title={t('View on GitHub')}>
                   <IconButton
                     size="small"
@@ -190,6 +334,21 @@ function PipelineCard({ project }: PipelineCardProps) {
               </Box>
             );
           })}
+
+          <WorkflowRunDialog
+            open={selectedRun !== null}
+            onClose={() => setSelectedRun(null)}
+            octokit={octokit}
+            run={selectedRun}
+          />
+          <PipelineDriftDialog
+            open={selectedDrift !== null}
+            onClose={() => setDriftRepo(null)}
+            drift={selectedDrift}
+            updating={drift.updating}
+            error={drift.error}
+            onOpenUpdatePR={drift.openUpdatePR}
+          />
         </>
       )}
     </Box>
@@ -0,0 +1,149 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import React, { useMemo } from 'react';
+import { openExternalUrl } from '../../../utils/shared/openExternalUrl';
+import { TextDiff } from '../../DeployTab/components/TextDiff';
+import { diffLines } from '../../DeployTab/utils/revisions';
+import type { FileDrift } from '../../GitHubPipeline/utils/fastPathOrchestration';
+import type { PipelineDrift } from '../hooks/usePipelineDrift';
+
+function FileDiff({ file }: { file: FileDrift }) {
+  const { t } = useTranslation();
+  const rows = useMemo(() => diffLines(file.actual ?? '', file.content), [file]);
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
+          {file.path}
+        </Typography>
+        <Chip
+          size="small"
+          color="warning"
+          label={file.status === 'missing' ? t('Missing') : t('Modified')}
+        />
+      </Box>
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', mb: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">
+          {t('Default branch')}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          {t('Generated')}
+        </Typography>
+      </Box>
+      <TextDiff rows={rows} />
+    </Box>
+  );
+}
+
+interface PipelineDriftDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Repo to show; the dialog renders nothing without one. */
+  drift: PipelineDrift | null;
+  updating: boolean;
+  error: string | null;
+  onOpenUpdatePR: (drift: PipelineDrift) => void;
+}
+
+/**
+ * Shows how a repo's pipeline files differ from what AKS Desktop generates
+ * for the pipeline, and opens a PR that regenerates them. No PR is offered
+ * when the generation inputs were guessed.
+ */
+export function PipelineDriftDialog({
+  open,
+  onClose,
+  drift,
+  updating,
+  error,
+  onOpenUpdatePR,
+}: PipelineDriftDialogProps) {
+  const { t } = useTranslation();
+  const changed = drift?.files.filter(file => file.status !== 'current') ?? [];
+
+  return (
+    <Dialog open={open && !!drift} onClose={onClose} maxWidth="lg" fullWidth>
+      {drift && (
+        <>
+          <DialogTitle>
+            {t('Pipeline drift: {{repo}}', { repo: `${drift.repo.owner}/${drift.repo.repo}` })}
+          </DialogTitle>
+          <DialogContent>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            {changed.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {t('The pipeline files on {{branch}} match the generated files.', {
+                  branch: drift.repo.defaultBranch,
+                })}
+              </Typography>
+            ) : (
+              <>
+                {drift.inputsGuessed && (
+                  <Alert severity="warning" sx={{ mb: 2 }}>
+                    {t(
+                      'This pipeline was set up before AKS Desktop saved its inputs, so the Dockerfile and build context are assumed and these differences may be wrong. Re-run pipeline setup to update the files.'
+                    )}
+                  </Alert>
+                )}
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  {t(
+                    'These files on {{branch}} differ from what AKS Desktop generates for this pipeline, because the templates were updated or the files were edited. An update PR replaces them with the generated files.',
+                    { branch: drift.repo.defaultBranch }
+                  )}
+                </Typography>
+                {changed.map(file => (
+                  <FileDiff key={file.path} file={file} />
+                ))}
+              </>
+            )}
+          </DialogContent>
+          <DialogActions>
+            {drift.updatePr?.url ? (
+              <Button
+                onClick={() => openExternalUrl(drift.updatePr?.url ?? '')}
+                startIcon={<Icon icon="mdi:open-in-new" aria-hidden="true" />}
+                sx={{ textTransform: 'none' }}
+              >
+                {t('View update PR #{{number}}', { number: drift.updatePr.number })}
+              </Button>
+            ) : (
+              changed.length > 0 &&
+              !drift.inputsGuessed && (
+                <Button
+                  onClick={() => onOpenUpdatePR(drift)}
+                  disabled={updating}
+                  startIcon={<Icon icon="mdi:source-pull" aria-hidden="true" />}
+                  sx={{ textTransform: 'none' }}
+                >
+                  {updating ? `${t('Opening PR')}...` : t('Open update PR')}
+                </Button>
+              )
+            )}
+            <Button onClick={onClose} variant="contained" sx={{ textTransform: 'none' }}>
+              {t('Close')}
+            </Button>
+          </DialogActions>
+        </>
+      )}
+    </Dialog>
+  );
+}
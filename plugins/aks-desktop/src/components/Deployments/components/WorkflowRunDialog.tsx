@@ -0,0 +1,363 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Tab,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import type { Octokit } from '@octokit/rest';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { WorkflowJob } from '../../../utils/github/github-api';
+import { openExternalUrl } from '../../../utils/shared/openExternalUrl';
+import {
+  getCheckColor,
+  getCheckIcon,
+  getRunStatusIcon,
+  getRunStatusLabel,
+} from '../../GitHubPipeline/utils/statusDisplay';
+import type { PipelineRun } from '../hooks/usePipelineRuns';
+import { useWorkflowRunLogs } from '../hooks/useWorkflowRunLogs';
+import { type LogLine, splitLogBySteps, type StepLog } from '../utils/workflowLogs';
+
+const FAILED_CONCLUSIONS = ['failure', 'cancelled', 'timed_out'];
+
+function LogLines({ lines }: { lines: LogLine[] }) {
+  const { t } = useTranslation();
+
+  if (lines.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {t('No output.')}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box
+      sx={{
+        fontFamily: 'monospace',
+        fontSize: '0.75rem',
+        maxHeight: 400,
+        overflowY: 'auto',
+        border: 1,
+        borderColor: 'divider',
+      }}
+    >
+      {lines.map((line, index) => (
+        <Box
+          key={index}
+          component="pre"
+          sx={{
+            m: 0,
+            px: 1,
+            minHeight: '1.4em',
+            whiteSpace: 'pre-wrap',
+            overflowWrap: 'anywhere',
+            borderLeft: 3,
+            borderLeftColor:
+              line.severity === 'error'
+                ? 'error.main'
+                : line.severity === 'warning'
+                ? 'warning.main'
+                : 'transparent',
+            color:
+              line.severity === 'error'
+                ? 'error.main'
+                : line.severity === 'warning'
+                ? 'warning.main'
+                : line.kind === 'command'
+                ? 'info.main'
+                : line.kind === 'debug'
+                ? 'text.secondary'
+                : undefined,
+            fontWeight: line.kind === 'group' ? 'bold' : undefined,
+          }}
+        >
+          {line.source && (
+            <Box
+              component="span"
+              sx={{
+                mr: 1,
+                px: 0.5,
+                borderRadius: 0.5,
+                bgcolor: 'error.main',
+                color: 'error.contrastText',
+              }}
+            >
+              {line.source}
+            </Box>
+          )}
+          {line.text}
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+function StepSection({ section }: { section: StepLog }) {
+  const { t } = useTranslation();
+  const { step } = section;
+  const [expanded, setExpanded] = useState(
+    section.errorCount > 0 || step?.conclusion === 'failure' || step?.status === 'in_progress'
+  );
+
+  // Open a step when it starts failing while the log is being followed.
+  useEffect(() => {
+    if (section.errorCount > 0) setExpanded(true);
+  }, [section.errorCount]);
+
+  return (
+    <Accordion
+      expanded={expanded}
+      onChange={(_, isExpanded) => setExpanded(isExpanded)}
+      disableGutters
+      TransitionProps={{ unmountOnExit: true }}
+    >
+      <AccordionSummary expandIcon={<Icon icon="mdi:chevron-down" aria-hidden="true" />}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 0, flex: 1 }}>
+          {step && (
+            <Box
+              component={Icon}
+              icon={getCheckIcon(step.conclusion, step.status)}
+              sx={{ color: getCheckColor(step.conclusion, step.status), flexShrink: 0 }}
+              aria-hidden
+            />
+          )}
+          <Typography variant="body2" noWrap sx={{ flex: 1, minWidth: 0 }}>
+            {step ? step.name : t('Job log')}
+          </Typography>
+          {section.errorCount > 0 && (
+            <Chip
+              size="small"
+              color="error"
+              label={t('{{count}} errors', { count: section.errorCount })}
+            />
+          )}
+        </Box>
+      </AccordionSummary>
+      <AccordionDetails>
+        <LogLines lines={section.lines} />
+      </AccordionDetails>
+    </Accordion>
+  );
+}
+
+function JobLog({ job, log }: { job: WorkflowJob; log: string | undefined }) {
+  const { t } = useTranslation();
+  const sections = useMemo(
+    () => (log === undefined ? [] : splitLogBySteps(log, job.steps)),
+    [log, job.steps]
+  );
+
+  if (job.status === 'queued') {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {t('This job is waiting to start.')}
+      </Typography>
+    );
+  }
+  if (log === undefined) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {t('Logs will appear here once GitHub makes them available.')}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {sections.map(section => (
+        <StepSection key={section.step?.number ?? 0} section={section} />
+      ))}
+    </Box>
+  );
+}
+
+interface WorkflowRunDetailProps {
+  octokit: Octokit | null;
+  run: PipelineRun;
+  onClose: () => void;
+  onRerun: () => void;
+}
+
+function WorkflowRunDetail({ octokit, run, onClose, onRerun }: WorkflowRunDetailProps) {
+  const { t } = useTranslation();
+  const { data, error, isLive, rerunning, rerunError, rerun } = useWorkflowRunLogs(
+    octokit,
+    run.owner,
+    run.repo,
+    run.id
+  );
+  const [selectedJobId, setSelectedJobId] = useState<number | null>(null);
+
+  const jobs = data?.jobs ?? [];
+  const failedJobs = jobs.filter(job => FAILED_CONCLUSIONS.includes(job.conclusion ?? ''));
+  const selectedJob = jobs.find(job => job.id === selectedJobId) ?? failedJobs[0] ?? jobs[0];
+  const status = data?.status ?? run.status;
+  const conclusion = data ? data.conclusion : run.conclusion;
+  const { icon, color } = getRunStatusIcon(status, conclusion);
+  const canRerun = status === 'completed' && !rerunning;
+
+  const handleRerun = async (enableDebugLogging: boolean) => {
+    const started = await rerun({ failedJobsOnly: failedJobs.length > 0, enableDebugLogging });
+    if (started) onRerun();
+  };
+
+  return (
+    <>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box component={Icon} icon={icon} sx={{ color, flexShrink: 0 }} aria-hidden />
+        <Box component="span" sx={{ flex: 1, minWidth: 0 }}>
+          {run.name || t('Run #{{id}}', { id: run.id })}
+        </Box>
+        <Chip
+          label={getRunStatusLabel(status, conclusion)}
+          size="small"
+          variant="outlined"
+          sx={{ textTransform: 'capitalize' }}
+        />
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+          {run.owner}/{run.repo}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {rerunError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {rerunError}
+          </Alert>
+        )}
+
+        {isLive && (
+          <Box role="status" sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <CircularProgress size={14} />
+            <Typography variant="body2" color="text.secondary">
+              {t('Following live logs...')}
+            </Typography>
+          </Box>
+        )}
+
+        {!data && !error && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {data && jobs.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {t('This run has no jobs yet.')}
+          </Typography>
+        )}
+
+        {selectedJob && (
+          <>
+            <Tabs
+              value={selectedJob.id}
+              onChange={(_, value: number) => setSelectedJobId(value)}
+              variant="scrollable"
+              scrollButtons="auto"
+              sx={{ mb: 2, borderBottom: 1, borderColor: 'divider' }}
+            >
+              {jobs.map(job => (
+                <Tab
+                  key={job.id}
+                  value={job.id}
+                  label={job.name}
+                  icon={
+                    <Box
+                      component={Icon}
+                      icon={getCheckIcon(job.conclusion, job.status)}
+                      sx={{ color: getCheckColor(job.conclusion, job.status) }}
+                      aria-hidden
+                    />
+                  }
+                  iconPosition="start"
+                  sx={{ textTransform: 'none', minHeight: 48 }}
+                />
+              ))}
+            </Tabs>
+            <JobLog job={selectedJob} log={data?.logs[selectedJob.id]} />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() => handleRerun(false)}
+          disabled={!canRerun || failedJobs.length === 0}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('Re-run failed jobs')}
+        </Button>
+        <Button
+          onClick={() => handleRerun(true)}
+          disabled={!canRerun}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('Re-run with debug logging')}
+        </Button>
+        <Button
+          onClick={() => openExternalUrl(run.url)}
+          startIcon={<Icon icon="mdi:open-in-new" aria-hidden="true" />}
+          sx={{ textTransform: 'none' }}
+        >
+          {t('View on GitHub')}
+        </Button>
+        <Button onClick={onClose} variant="contained" sx={{ textTransform: 'none' }}>
+          {t('Close')}
+        </Button>
+      </DialogActions>
+    </>
+  );
+}
+
+interface WorkflowRunDialogProps {
+  open: boolean;
+  onClose: () => void;
+  octokit: Octokit | null;
+  /** Run to show; the dialog renders nothing without one. */
+  run: PipelineRun | null;
+}
+
+/**
+ * Shows a workflow run's jobs with their logs split by step, highlighting
+ * errors and `az`/`kubectl` failures. Follows the logs while the run is in
+ * progress, and re-runs failed jobs, optionally with debug logging.
+ */
+export function WorkflowRunDialog({ open, onClose, octokit, run }: WorkflowRunDialogProps) {
+  // Bumped after a re-run so the viewer remounts and follows the new attempt.
+  const [attempt, setAttempt] = useState(0);
+
+  return (
+    <Dialog open={open && !!run} onClose={onClose} maxWidth="lg" fullWidth>
+      {run && (
+        <WorkflowRunDetail
+          key={`${run.id}-${attempt}`}
+          octokit={octokit}
+          run={run}
+          onClose={onClose}
+          onRerun={() => setAttempt(a => a + 1)}
+        />
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { Octokit } from '@octokit/rest';
+import { useEffect, useMemo, useState } from 'react';
+import type { GitHubRepo } from '../../../types/github';
+import { getFileContent, getLiveEnvironmentDeployment } from '../../../utils/github/github-api';
+import { PIPELINE_WORKFLOW_FILENAME } from '../../GitHubPipeline/constants';
+import { parsePromotionEnvironments } from '../../GitHubPipeline/utils/fastPathTemplates';
+
+export interface EnvironmentStatus {
+  /** `owner/repo` the environment belongs to. */
+  repoFullName: string;
+  /** GitHub environment name, in promotion order. */
+  environment: string;
+  /** Commit live in the environment, or null if nothing has deployed there yet. */
+  sha: string | null;
+  /** When the live commit was deployed. */
+  deployedAt: string | null;
+}
+
+/**
+ * Resolves which commit is live in each promotion stage of the configured
+ * pipeline repos. Stage order is read from the workflow on the default branch;
+ * repos whose workflow deploys to a single target contribute no entries.
+ */
+export const useEnvironmentDeployments = (
+  octokit: Octokit | null,
+  repos: GitHubRepo[]
+): EnvironmentStatus[] => {
+  const [environments, setEnvironments] = useState<EnvironmentStatus[]>([]);
+
+  // Stable repos reference — only changes when the repo list actually changes
+  const repoKey = JSON.stringify(repos.map(r => [r.owner, r.repo, r.defaultBranch]));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const stableRepos = useMemo(() => repos, [repoKey]);
+
+  useEffect(() => {
+    if (!octokit || stableRepos.length === 0) {
+      setEnvironments([]);
+      return;
+    }
+    let cancelled = false;
+
+    const loadRepo = async (repo: GitHubRepo): Promise<EnvironmentStatus[]> => {
+      const workflow = await getFileContent(
+        octokit,
+        repo.owner,
+        repo.repo,
+        `.github/workflows/${PIPELINE_WORKFLOW_FILENAME}`,
+        repo.defaultBranch
+      );
+      const names = parsePromotionEnvironments(workflow);
+      return Promise.all(
+        names.map(async environment => {
+          const live = await getLiveEnvironmentDeployment(
+            octokit,
+            repo.owner,
+            repo.repo,
+            environment
+          );
+          return {
+            repoFullName: `${repo.owner}/${repo.repo}`,
+            environment,
+            sha: live?.sha ?? null,
+            deployedAt: live?.createdAt ?? null,
+          };
+        })
+      );
+    };
+
+    Promise.allSettled(stableRepos.map(loadRepo)).then(results => {
+      if (cancelled) return;
+      const next: EnvironmentStatus[] = [];
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          next.push(...result.value);
+        } else {
+          console.warn('Pipeline environments: failed to load', result.reason);
+        }
+      }
+      setEnvironments(next);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [octokit, stableRepos]);
+
+  return environments;
+};
@@ -0,0 +1,161 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { Octokit } from '@octokit/rest';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { GitHubRepo } from '../../../types/github';
+import type { PRTracking } from '../../GitHubPipeline/types';
+import {
+  checkPipelineDrift,
+  createPipelineUpdatePR,
+  type FileDrift,
+  inputsFromConfiguredPipeline,
+  type PipelineFileInputs,
+} from '../../GitHubPipeline/utils/fastPathOrchestration';
+import {
+  loadConfiguredPipeline,
+  loadGeneratedPipelineInputs,
+} from '../../GitHubPipeline/utils/pipelineStorage';
+
+export interface PipelineDrift {
+  repo: GitHubRepo;
+  /** Every generated file with its state on the default branch. */
+  files: FileDrift[];
+  /** Update PR opened from this view, if any. */
+  updatePr: PRTracking | null;
+  /**
+   * Whether the inputs were rebuilt from the wizard state rather than saved at
+   * setup. The build context and Dockerfile are then assumed, so the drift may
+   * be false and no update PR is offered.
+   */
+  inputsGuessed: boolean;
+}
+
+export interface UsePipelineDriftResult {
+  /** Drift of each repo whose generation inputs are known. */
+  drifts: PipelineDrift[];
+  /** Repos whose generation inputs are unknown, so their drift cannot be checked. */
+  unknownRepos: GitHubRepo[];
+  checking: boolean;
+  /** Error from the last check or update, or null. */
+  error: string | null;
+  updating: boolean;
+  /** Re-reads the files from the default branches. */
+  refresh: () => void;
+  /** Opens a PR that regenerates the drifted files of a repo whose inputs were saved. */
+  openUpdatePR: (drift: PipelineDrift) => Promise<void>;
+}
+
+const repoFullName = (repo: GitHubRepo) => `${repo.owner}/${repo.repo}`;
+
+interface LoadedPipelineInputs {
+  inputs: PipelineFileInputs;
+  /** True when rebuilt from the wizard state instead of saved at setup. */
+  guessed: boolean;
+}
+
+/** The inputs saved at setup, or else those the repo's wizard state records. */
+function loadPipelineInputs(repo: GitHubRepo): LoadedPipelineInputs | null {
+  const saved = loadGeneratedPipelineInputs(repo.owner, repo.repo);
+  if (saved) return { inputs: saved, guessed: false };
+  const configured = loadConfiguredPipeline(repo.owner, repo.repo);
+  const inputs = configured ? inputsFromConfiguredPipeline(configured) : null;
+  return inputs ? { inputs, guessed: true } : null;
+}
+
+/**
+ * Compares the pipeline files on each repo's default branch with what the
+ * fast path generates from the inputs used at setup. Repos whose inputs are
+ * unknown are listed in `unknownRepos` instead; those whose inputs had to be
+ * rebuilt are marked `inputsGuessed` and cannot be updated from here.
+ */
+export const usePipelineDrift = (
+  octokit: Octokit | null,
+  repos: GitHubRepo[]
+): UsePipelineDriftResult => {
+  const [drifts, setDrifts] = useState<PipelineDrift[]>([]);
+  const [unknownRepos, setUnknownRepos] = useState<GitHubRepo[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Stable repos reference — only changes when the repo list actually changes
+  const repoKey = JSON.stringify(repos.map(r => [r.owner, r.repo, r.defaultBranch]));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const stableRepos = useMemo(() => repos, [repoKey]);
+
+  useEffect(() => {
+    const targets: ({ repo: GitHubRepo } & LoadedPipelineInputs)[] = [];
+    const unknown: GitHubRepo[] = [];
+    for (const repo of stableRepos) {
+      const loaded = loadPipelineInputs(repo);
+      if (loaded) targets.push({ repo, ...loaded });
+      else unknown.push(repo);
+    }
+    setUnknownRepos(unknown);
+    if (!octokit || targets.length === 0) {
+      setDrifts([]);
+      // A check of the previous inputs may still be running; its result is dropped.
+      setChecking(false);
+      return;
+    }
+    let cancelled = false;
+    setChecking(true);
+    setError(null);
+
+    Promise.allSettled(targets.map(({ inputs }) => checkPipelineDrift(octokit, inputs))).then(
+      results => {
+        if (cancelled) return;
+        const next: PipelineDrift[] = [];
+        results.forEach((result, i) => {
+          if (result.status === 'fulfilled') {
+            next.push({
+              repo: targets[i].repo,
+              files: result.value,
+              updatePr: null,
+              inputsGuessed: targets[i].guessed,
+            });
+          } else {
+            console.warn('Pipeline drift: failed to check', result.reason);
+            setError(
+              result.reason instanceof Error ? result.reason.message : String(result.reason)
+            );
+          }
+        });
+        setDrifts(next);
+        setChecking(false);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [octokit, stableRepos, refreshKey]);
+
+  const refresh = useCallback(() => setRefreshKey(k => k + 1), []);
+
+  const openUpdatePR = useCallback(
+    async (drift: PipelineDrift) => {
+      const loaded = loadPipelineInputs(drift.repo);
+      if (!octokit || !loaded || loaded.guessed) return;
+      setUpdating(true);
+      setError(null);
+      try {
+        const pr = await createPipelineUpdatePR(octokit, loaded.inputs, drift.files);
+        setDrifts(prev =>
+          prev.map(d =>
+            repoFullName(d.repo) === repoFullName(drift.repo) ? { ...d, updatePr: pr } : d
+          )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setUpdating(false);
+      }
+    },
+    [octokit]
+  );
+
+  return { drifts, unknownRepos, checking, error, updating, refresh, openUpdatePR };
+};
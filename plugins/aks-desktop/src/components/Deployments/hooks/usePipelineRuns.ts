@@ -15,6 +15,9 @@ export interface PipelineRun {
   conclusion: WorkflowRunConclusion;
   url: string;
   createdAt: string;
+  /** Repository the run belongs to. */
+  owner: string;
+  repo: string;
 }
 
 export interface UsePipelineRunsResult {
@@ -57,11 +60,12 @@ export const usePipelineRuns = (
       );
       if (signal.cancelled) return;
       const allRuns: PipelineRun[] = [];
-      for (const result of results) {
+      results.forEach((result, i) => {
         if (result.status === 'fulfilled') {
-          allRuns.push(...result.value);
+          const { owner, repo } = stableRepos[i];
+          allRuns.push(...result.value.map(run => ({ ...run, owner, repo })));
         }
-      }
+      });
       const failures = results.filter(r => r.status === 'rejected');
       if (failures.length === results.length && results.length > 0) {
         setError(t('Failed to load pipeline runs'));
@@ -0,0 +1,130 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { Octokit } from '@octokit/rest';
+import { useCallback, useRef, useState } from 'react';
+import type { WorkflowRunConclusion, WorkflowRunStatus } from '../../../types/github';
+import {
+  downloadWorkflowJobLogs,
+  getWorkflowRun,
+  listWorkflowRunJobs,
+  rerunWorkflowRun,
+  type WorkflowJob,
+} from '../../../utils/github/github-api';
+import { POLLING_INTERVAL_MS, WORKFLOW_POLLING_MAX_POLLS } from '../../GitHubPipeline/constants';
+import { usePolling } from '../../GitHubPipeline/hooks/usePolling';
+
+/** Seconds to wait for a re-run to leave the completed state. */
+const RERUN_SETTLE_POLLS = 10;
+
+export interface WorkflowRunLogsData {
+  status: WorkflowRunStatus | null;
+  conclusion: WorkflowRunConclusion;
+  jobs: WorkflowJob[];
+  /** Raw log text by job id. Missing while GitHub has no log for the job yet. */
+  logs: Record<number, string>;
+}
+
+export interface UseWorkflowRunLogsResult {
+  data: WorkflowRunLogsData | null;
+  error: string | null;
+  /** True while the run is still in progress and its logs are being followed. */
+  isLive: boolean;
+  rerunning: boolean;
+  rerunError: string | null;
+  /**
+   * Starts a new attempt of the run. Resolves true on success; the caller
+   * should then remount the viewer to follow the new attempt.
+   */
+  rerun: (options: { failedJobsOnly: boolean; enableDebugLogging: boolean }) => Promise<boolean>;
+}
+
+/**
+ * Loads a workflow run's jobs and job logs, polling until the run completes so
+ * in-progress logs are followed. Logs of completed jobs are downloaded once.
+ */
+export const useWorkflowRunLogs = (
+  octokit: Octokit | null,
+  owner: string,
+  repo: string,
+  runId: number | null
+): UseWorkflowRunLogsResult => {
+  const finishedLogsRef = useRef<Record<number, string>>({});
+  const [rerunning, setRerunning] = useState(false);
+  const [rerunError, setRerunError] = useState<string | null>(null);
+
+  const pollFn = useCallback(async (): Promise<WorkflowRunLogsData | null> => {
+    if (!octokit || runId === null) return null;
+
+    const [run, jobs] = await Promise.all([
+      getWorkflowRun(octokit, owner, repo, runId),
+      listWorkflowRunJobs(octokit, owner, repo, runId),
+    ]);
+
+    const logs: Record<number, string> = {};
+    await Promise.all(
+      jobs
+        .filter(job => job.status !== 'queued')
+        .map(async job => {
+          const cached = finishedLogsRef.current[job.id];
+          if (cached !== undefined) {
+            logs[job.id] = cached;
+            return;
+          }
+          try {
+            logs[job.id] = await downloadWorkflowJobLogs(octokit, owner, repo, job.id);
+            if (job.status === 'completed') {
+              finishedLogsRef.current[job.id] = logs[job.id];
+            }
+          } catch (err) {
+            // Running jobs have no downloadable log until GitHub flushes one.
+            if (job.status === 'completed') throw err;
+          }
+        })
+    );
+
+    return { status: run.status, conclusion: run.conclusion, jobs, logs };
+  }, [octokit, owner, repo, runId]);
+
+  const { data, error } = usePolling<WorkflowRunLogsData>({
+    enabled: !!octokit && runId !== null,
+    intervalMs: POLLING_INTERVAL_MS,
+    maxPolls: WORKFLOW_POLLING_MAX_POLLS,
+    pollFn,
+    shouldStop: result => result.status === 'completed',
+  });
+
+  const rerun = useCallback(
+    async (options: { failedJobsOnly: boolean; enableDebugLogging: boolean }) => {
+      if (!octokit || runId === null) return false;
+      setRerunning(true);
+      setRerunError(null);
+      try {
+        await rerunWorkflowRun(octokit, owner, repo, runId, options);
+        // GitHub moves the run back to queued shortly after accepting a re-run;
+        // wait for that so the remounted viewer doesn't stop on the old attempt.
+        for (let i = 0; i < RERUN_SETTLE_POLLS; i++) {
+          const run = await getWorkflowRun(octokit, owner, repo, runId);
+          if (run.status !== 'completed') break;
+          await new Promise(resolve => setTimeout(resolve, 1_000));
+        }
+        return true;
+      } catch (err) {
+        setRerunError(err instanceof Error ? err.message : String(err));
+        return false;
+      } finally {
+        setRerunning(false);
+      }
+    },
+    [octokit, owner, repo, runId]
+  );
+
+  return {
+    data,
+    error,
+    isLive: !!data && data.status !== 'completed',
+    rerunning,
+    rerunError,
+    rerun,
+  };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkflowJobStep } from '../../../utils/github/github-api';
+import { parseJobLog, parseLogLine, splitLogBySteps } from './workflowLogs';
+
+const step = (number: number, name: string, started_at: string | null): WorkflowJobStep => ({
+  number,
+  name,
+  status: 'completed',
+  conclusion: 'success',
+  started_at,
+  completed_at: null,
+});
+
+describe('parseLogLine', () => {
+  it('should strip the timestamp prefix', () => {
+    expect(parseLogLine('2026-01-01T10:00:00.1234567Z Hello')).toEqual({
+      timestamp: '2026-01-01T10:00:00.1234567Z',
+      text: 'Hello',
+      kind: 'output',
+      severity: null,
+      source: null,
+    });
+  });
+
+  it('should interpret workflow command markers', () => {
+    expect(parseLogLine('##[group]Run azure/login@v2')).toMatchObject({
+      text: 'Run azure/login@v2',
+      kind: 'group',
+    });
+    expect(parseLogLine('##[command]/usr/bin/az account show')).toMatchObject({
+      kind: 'command',
+      severity: null,
+    });
+    expect(parseLogLine('##[error]Process completed with exit code 1.')).toMatchObject({
+      text: 'Process completed with exit code 1.',
+      severity: 'error',
+      source: null,
+    });
+    expect(parseLogLine('##[warning]Deprecated input')).toMatchObject({ severity: 'warning' });
+  });
+
+  it('should recognize az failures', () => {
+    expect(
+      parseLogLine('ERROR: (AuthorizationFailed) The client does not have access')
+    ).toMatchObject({ severity: 'error', source: 'az' });
+    expect(parseLogLine('az aks: error: argument --name: expected one argument')).toMatchObject({
+      severity: 'error',
+      source: 'az',
+    });
+  });
+
+  it('should recognize kubectl failures', () => {
+    expect(
+      parseLogLine('Error from server (Forbidden): deployments.apps "web" is forbidden')
+    ).toMatchObject({ severity: 'error', source: 'kubectl' });
+    expect(parseLogLine('error: the server does not have a resource type "foo"')).toMatchObject({
+      severity: 'error',
+      source: 'kubectl',
+    });
+  });
+
+  it('should not flag lines that merely mention errors', () => {
+    expect(parseLogLine('Found 0 errors').severity).toBeNull();
+  });
+});
+
+describe('parseJobLog', () => {
+  it('should drop the byte order mark, endgroup markers and the trailing newline', () => {
+    const lines = parseJobLog(
+      '\uFEFF2026-01-01T10:00:00Z a\n2026-01-01T10:00:00Z ##[endgroup]\nb\n'
+    );
+    expect(lines.map(l => l.text)).toEqual(['a', 'b']);
+  });
+});
+
+describe('splitLogBySteps', () => {
+  const steps = [
+    step(1, 'Set up job', '2026-01-01T10:00:00Z'),
+    step(2, 'Checkout', '2026-01-01T10:00:02Z'),
+    step(3, 'Deploy', '2026-01-01T10:00:05Z'),
+    { ...step(4, 'Skipped', null), conclusion: 'skipped' },
+  ];
+
+  it('should assign lines to steps by start time', () => {
+    const log = [
+      '2026-01-01T10:00:00.5Z Current runner version',
+      '2026-01-01T10:00:02.1Z ##[group]Run actions/checkout@v4',
+      '2026-01-01T10:00:03.0Z Fetching',
+      '2026-01-01T10:00:06.0Z ##[group]Run Azure/k8s-deploy',
+      '2026-01-01T10:00:07.0Z Error from server (Forbidden): nope',
+    ].join('\n');
+
+    const sections = splitLogBySteps(log, steps);
+
+    expect(sections.map(s => s.step?.name)).toEqual(['Set up job', 'Checkout', 'Deploy']);
+    expect(sections.map(s => s.lines.length)).toEqual([1, 2, 2]);
+    expect(sections.map(s => s.errorCount)).toEqual([0, 0, 1]);
+  });
+
+  it('should keep lines from the start second with the previous step until its Run header', () => {
+    const log = [
+      '2026-01-01T10:00:02.1Z ##[group]Run actions/checkout@v4',
+      '2026-01-01T10:00:05.2Z Checkout done',
+      '2026-01-01T10:00:05.4Z ##[group]Run Azure/k8s-deploy',
+    ].join('\n');
+
+    const sections = splitLogBySteps(log, steps);
+
+    expect(sections[1].lines.map(l => l.text)).toEqual([
+      'Run actions/checkout@v4',
+      'Checkout done',
+    ]);
+    expect(sections[2].lines.map(l => l.text)).toEqual(['Run Azure/k8s-deploy']);
+  });
+
+  it('should return a single section when steps have no timing', () => {
+    const sections = splitLogBySteps('a\nERROR: boom', [step(1, 'Build', null)]);
+    expect(sections).toEqual([{ step: null, lines: expect.any(Array), errorCount: 1 }]);
+  });
+});
@@ -0,0 +1,129 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { WorkflowJobStep } from '../../../utils/github/github-api';
+
+/** How a log line should be presented. */
+export type LogLineKind = 'output' | 'group' | 'command' | 'debug';
+
+/** CLI a failure line was recognized as coming from. */
+export type LogFailureSource = 'az' | 'kubectl';
+
+export interface LogLine {
+  /** ISO timestamp the runner prefixed the line with, if any. */
+  timestamp: string | null;
+  /** Line text with the timestamp and workflow command marker removed. */
+  text: string;
+  kind: LogLineKind;
+  severity: 'error' | 'warning' | null;
+  /** Set when the line is a recognized `az` or `kubectl` error message. */
+  source: LogFailureSource | null;
+}
+
+/** Lines of a job log attributed to one step. `step` is null when the job has no step timing. */
+export interface StepLog {
+  step: WorkflowJobStep | null;
+  lines: LogLine[];
+  errorCount: number;
+}
+
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?/;
+const MARKER_PATTERN = /^##\[(error|warning|group|endgroup|command|debug)\]/;
+
+/** `az` prints failures as `ERROR: ...`; argument errors as `az <group>: error: ...`. */
+const AZ_ERROR_PATTERN = /^(ERROR: |az(?: [\w-]+)*: error: )/;
+/** `kubectl` prints `error: ...` and relays API errors as `Error from server (...)`. */
+const KUBECTL_ERROR_PATTERN =
+  /^(error: |Error from server\b|Unable to connect to the server\b|The connection to the server .* was refused)/;
+const GENERIC_ERROR_PATTERN = /^(Error|ERROR|fatal|FATAL)\b[:\s]/;
+
+/** Parses one line of a GitHub Actions job log. */
+export function parseLogLine(raw: string): LogLine {
+  const timestampMatch = raw.match(TIMESTAMP_PATTERN);
+  const timestamp = timestampMatch?.[1] ?? null;
+  let text = timestampMatch ? raw.slice(timestampMatch[0].length) : raw;
+
+  let kind: LogLineKind = 'output';
+  let severity: LogLine['severity'] = null;
+  const marker = text.match(MARKER_PATTERN)?.[1];
+  if (marker) {
+    text = text.slice(marker.length + 4);
+    if (marker === 'error' || marker === 'warning') severity = marker;
+    else if (marker === 'group' || marker === 'command' || marker === 'debug') kind = marker;
+  }
+
+  let source: LogFailureSource | null = null;
+  if (AZ_ERROR_PATTERN.test(text)) {
+    source = 'az';
+  } else if (KUBECTL_ERROR_PATTERN.test(text)) {
+    source = 'kubectl';
+  }
+  if (source || (kind === 'output' && GENERIC_ERROR_PATTERN.test(text))) {
+    severity = 'error';
+  }
+
+  return { timestamp, text, kind, severity, source };
+}
+
+/**
+ * Parses a job log into lines, dropping `##[endgroup]` markers and the byte
+ * order mark GitHub prepends to log files.
+ */
+export function parseJobLog(log: string): LogLine[] {
+  return log
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((raw, i, all) => raw !== '' || i < all.length - 1)
+    .filter(raw => !raw.replace(TIMESTAMP_PATTERN, '').startsWith('##[endgroup]'))
+    .map(parseLogLine);
+}
+
+const toMs = (iso: string) => new Date(iso).getTime();
+
+/**
+ * Splits a job log into its steps using the steps' start times.
+ *
+ * Step start times only have second precision, so a line in the second a step
+ * starts stays with the previous step until that step's first `Run` group
+ * header, or until the timestamps move past that second.
+ */
+export function splitLogBySteps(log: string, steps: WorkflowJobStep[]): StepLog[] {
+  const lines = parseJobLog(log);
+  const timed = steps
+    .filter((step): step is WorkflowJobStep & { started_at: string } => !!step.started_at)
+    .sort((a, b) => a.number - b.number);
+
+  if (timed.length === 0) {
+    return [{ step: null, lines, errorCount: countErrors(lines) }];
+  }
+
+  const sections: StepLog[] = timed.map(step => ({ step, lines: [], errorCount: 0 }));
+  let current = 0;
+  for (const line of lines) {
+    if (line.timestamp) {
+      const ms = toMs(line.timestamp);
+      const nextStart = () => toMs(timed[current + 1].started_at);
+      while (current + 1 < timed.length && ms >= nextStart() + 1000) {
+        current++;
+      }
+      if (
+        current + 1 < timed.length &&
+        ms >= nextStart() &&
+        line.kind === 'group' &&
+        line.text.startsWith('Run ')
+      ) {
+        current++;
+      }
+    }
+    sections[current].lines.push(line);
+  }
+
+  for (const section of sections) {
+    section.errorCount = countErrors(section.lines);
+  }
+  return sections;
+}
+
+function countErrors(lines: LogLine[]): number {
+  return lines.filter(line => line.severity === 'error').length;
+}
@@ -4,6 +4,7 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useNamespaceCapabilities } from '../../hooks/useNamespaceCapabilities';
 import type { GitHubRepo } from '../../types/github';
+import type { ProjectScope } from '../../utils/shared/projectScopes';
 import type { ContainerConfig } from '../DeployWizard/hooks/useContainerConfiguration';
 import { useContainerConfiguration } from '../DeployWizard/hooks/useContainerConfiguration';
 import { GitHubPipelineWizardPure } from './components/GitHubPipelineWizardPure';
@@ -11,6 +12,8 @@ import type { DeployPathChoice } from './components/PathSelectionStep';
 import { useDockerfileDiscovery } from './hooks/useDockerfileDiscovery';
 import { useFastPathOrchestration } from './hooks/useFastPathOrchestration';
 import { useGitHubPipelineOrchestration } from './hooks/useGitHubPipelineOrchestration';
+import type { DeploymentStrategy, PipelineEnvironment } from './types';
+import { ROLLING_STRATEGY } from './utils/deploymentStrategy';
 
 interface GitHubPipelineWizardProps {
   /** Cluster name — used for both K8s operations and PipelineConfig. */
@@ -39,6 +42,11 @@ interface GitHubPipelineWizardProps {
   mode?: 'configure' | 'deploy';
   /** Project name — used for identity naming and resource group defaults. */
   projectName?: string;
+  /**
+   * Project (cluster, namespace) pairs promotion stages can target.
+   * Defaults to `clusterName`/`namespace` only.
+   */
+  scopes?: ProjectScope[];
 }
 
 /**
@@ -67,6 +75,7 @@ export function GitHubPipelineWizard({
   containerConfig,
   mode = 'deploy',
   projectName,
+  scopes,
 }: GitHubPipelineWizardProps) {
   const localContainerConfig = useContainerConfiguration(appName);
   const { isManagedNamespace, azureRbacEnabled } = useNamespaceCapabilities({
@@ -78,7 +87,8 @@ export function GitHubPipelineWizard({
 
   useEffect(() => {
     if (containerConfig) {
-      localContainerConfig.setConfig(containerConfig);
+      // Merge over the defaults so configs saved before newer fields existed stay complete.
+      localContainerConfig.setConfig(c => ({ ...c, ...containerConfig }));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -107,6 +117,8 @@ export function GitHubPipelineWizard({
   ]);
 
   const [pathChoice, setPathChoice] = useState<DeployPathChoice | null>(null);
+  const [environments, setEnvironments] = useState<PipelineEnvironment[]>([]);
+  const [strategy, setStrategy] = useState<DeploymentStrategy>(ROLLING_STRATEGY);
   const dockerfilePaths = orchestration.pipeline.state.repoReadiness?.dockerfilePaths ?? [];
   const dockerfileDiscovery = useDockerfileDiscovery(dockerfilePaths);
 
@@ -120,6 +132,8 @@ export function GitHubPipelineWizard({
     selectedRepo: orchestration.selectedRepo,
     containerConfig: localContainerConfig.config,
     identityId: orchestration.identityId,
+    pipelineIdentity: orchestration.identitySetup.result,
+    azureRbacEnabled,
   });
 
   const handleFastPathDeploy = useCallback(() => {
@@ -127,8 +141,11 @@ export function GitHubPipelineWizard({
     fastPath.handleDeploy({
       selection: dockerfileDiscovery.selection,
       withAsyncAgent: pathChoice === 'fast-with-ai',
+      environments,
+      // Promotion stages always roll out in place.
+      strategy: environments.length > 0 ? ROLLING_STRATEGY : strategy,
     });
-  }, [dockerfileDiscovery.selection, fastPath.handleDeploy, pathChoice]);
+  }, [dockerfileDiscovery.selection, fastPath.handleDeploy, pathChoice, environments, strategy]);
 
   // Latch first successful auth to avoid cross-tree flicker regression.
   const authAdvancedRef = useRef(false);
@@ -168,6 +185,11 @@ export function GitHubPipelineWizard({
       pathChoice={pathChoice}
       onPathChoiceChange={setPathChoice}
       onFastPathDeploy={handleFastPathDeploy}
+      scopes={scopes ?? [{ cluster: clusterName, namespace }]}
+      environments={environments}
+      onEnvironmentsChange={setEnvironments}
+      strategy={strategy}
+      onStrategyChange={setStrategy}
     />
   );
 }
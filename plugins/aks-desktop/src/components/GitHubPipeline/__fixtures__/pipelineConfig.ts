@@ -29,6 +29,16 @@ export function createContainerConfig(overrides?: Partial<ContainerConfig>): Con
     servicePort: 80,
     useCustomServicePort: false,
     serviceType: 'LoadBalancer',
+    exposureMode: 'none',
+    ingressHost: '',
+    ingressPaths: [{ path: '/', pathType: 'Prefix' }],
+    ingressClassName: 'webapprouting.kubernetes.azure.com',
+    enableIngressTls: false,
+    ingressTlsSecretName: '',
+    enableCertManager: false,
+    certManagerClusterIssuer: 'letsencrypt',
+    gatewayName: '',
+    gatewayNamespace: '',
     enableResources: true,
     cpuRequest: '200m',
     cpuLimit: '1',
@@ -69,6 +79,10 @@ export function createContainerConfig(overrides?: Partial<ContainerConfig>): Con
     workloadIdentityServiceAccount: '',
     enablePodAntiAffinity: true,
     enableTopologySpreadConstraints: true,
+    nodeSelector: [],
+    tolerations: [],
+    sidecarContainers: [],
+    initContainers: [],
     containerPreviewYaml: '',
     ...overrides,
   };
@@ -0,0 +1,152 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useState } from 'react';
+import { ROLLOUT_APPROVAL_ENVIRONMENT } from '../constants';
+import type { DeploymentStrategy, DeploymentStrategyType } from '../types';
+import {
+  defaultDeploymentStrategy,
+  getStrategyErrors,
+  MAX_CANARY_STEPS,
+  parseCanarySteps,
+} from '../utils/deploymentStrategy';
+import { MAX_ENVIRONMENT_REVIEWERS, parseReviewers } from '../utils/promotionEnvironments';
+
+interface DeploymentStrategySelectorProps {
+  strategy: DeploymentStrategy;
+  onChange: (strategy: DeploymentStrategy) => void;
+  /** Signed-in GitHub login, suggested as the approver of gated strategies. */
+  currentUser?: string | null;
+  /** Set when promotion environments are in use, which only support rolling updates. */
+  disabled?: boolean;
+}
+
+/**
+ * Chooses how the generated workflow rolls out a new image: a rolling update,
+ * a canary in percentage steps, or a blue/green switch. Canary steps and the
+ * final promotion wait for the approvers in a GitHub environment.
+ */
+export function DeploymentStrategySelector({
+  strategy,
+  onChange,
+  currentUser,
+  disabled,
+}: DeploymentStrategySelectorProps) {
+  const { t } = useTranslation();
+  // Free text is kept locally so separators survive while typing.
+  const [stepsText, setStepsText] = useState(strategy.canarySteps.join(', '));
+  const [approversText, setApproversText] = useState(strategy.approvers.join(', '));
+  const errors = getStrategyErrors(strategy);
+
+  const options: Array<{ value: DeploymentStrategyType; label: string; description: string }> = [
+    {
+      value: 'rolling',
+      label: t('Rolling update'),
+      description: t('Replace pods gradually on every push.'),
+    },
+    {
+      value: 'canary',
+      label: t('Canary'),
+      description: t(
+        'Send a share of traffic to the new version, raise it step by step, then promote or reject it.'
+      ),
+    },
+    {
+      value: 'blue-green',
+      label: t('Blue/green'),
+      description: t(
+        'Start the new version next to the current one, switch traffic to it, then promote or reject it.'
+      ),
+    },
+  ];
+
+  const handleTypeChange = (type: DeploymentStrategyType) => {
+    const next = defaultDeploymentStrategy(type, currentUser ?? undefined);
+    setStepsText(next.canarySteps.join(', '));
+    setApproversText(next.approvers.join(', '));
+    onChange(next);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <FormControl disabled={disabled}>
+        <FormLabel>{t('Rollout strategy')}</FormLabel>
+        <RadioGroup
+          value={strategy.type}
+          onChange={e => handleTypeChange(e.target.value as DeploymentStrategyType)}
+        >
+          {options.map(option => (
+            <FormControlLabel
+              key={option.value}
+              value={option.value}
+              control={<Radio size="small" />}
+              label={
+                <Box>
+                  <Typography variant="body2">{option.label}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {option.description}
+                  </Typography>
+                </Box>
+              }
+              sx={{ alignItems: 'flex-start', '& .MuiRadio-root': { pt: 0.5 } }}
+            />
+          ))}
+        </RadioGroup>
+      </FormControl>
+      {disabled && (
+        <Typography variant="body2" color="text.secondary">
+          {t('Promotion environments always use rolling updates.')}
+        </Typography>
+      )}
+      {!disabled && strategy.type === 'canary' && (
+        <TextField
+          size="small"
+          label={t('Canary steps (%)')}
+          value={stepsText}
+          onChange={e => {
+            setStepsText(e.target.value);
+            onChange({ ...strategy, canarySteps: parseCanarySteps(e.target.value) });
+          }}
+          error={errors.includes('canarySteps')}
+          helperText={
+            errors.includes('canarySteps')
+              ? t('Enter up to {{max}} ascending percentages between 1 and 99.', {
+                  max: MAX_CANARY_STEPS,
+                })
+              : t('Traffic follows the share of pods, so small percentages need enough replicas.')
+          }
+        />
+      )}
+      {!disabled && strategy.type !== 'rolling' && (
+        <TextField
+          size="small"
+          label={t('Approvers')}
+          value={approversText}
+          onChange={e => {
+            setApproversText(e.target.value);
+            onChange({ ...strategy, approvers: parseReviewers(e.target.value) });
+          }}
+          error={errors.includes('approvers')}
+          helperText={
+            errors.includes('approvers')
+              ? t('Enter 1 to {{max}} valid GitHub usernames.', { max: MAX_ENVIRONMENT_REVIEWERS })
+              : t('Approvals happen in the "{{environment}}" GitHub environment.', {
+                  environment: ROLLOUT_APPROVAL_ENVIRONMENT,
+                })
+          }
+        />
+      )}
+    </Box>
+  );
+}
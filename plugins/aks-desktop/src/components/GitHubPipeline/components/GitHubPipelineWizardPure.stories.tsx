@@ -9,6 +9,7 @@ import type { UseFastPathOrchestrationResult } from '../hooks/useFastPathOrchest
 import type { FastPathState } from '../hooks/useFastPathPipelineState';
 import type { UseGitHubPipelineOrchestrationResult } from '../hooks/useGitHubPipelineOrchestration';
 import type { PipelineState } from '../types';
+import { ROLLING_STRATEGY } from '../utils/deploymentStrategy';
 import {
   GitHubPipelineWizardPure,
   type GitHubPipelineWizardPureProps,
@@ -133,6 +134,7 @@ function makeOrchestration(
       runStatus: null,
       runConclusion: null,
       runUrl: null,
+      jobs: [],
       error: null,
       stopPolling: noop,
     },
@@ -185,6 +187,7 @@ function makeFastPath(state: FastPathState = makeFastPathState()): UseFastPathOr
       runStatus: null,
       runConclusion: null,
       runUrl: null,
+      jobs: [],
       error: null,
       stopPolling: noop,
     },
@@ -218,6 +221,16 @@ function makeContainerConfig(): ReturnType<typeof useContainerConfiguration> {
       servicePort: 80,
       useCustomServicePort: false,
       serviceType: 'LoadBalancer',
+      exposureMode: 'none',
+      ingressHost: '',
+      ingressPaths: [{ path: '/', pathType: 'Prefix' }],
+      ingressClassName: 'webapprouting.kubernetes.azure.com',
+      enableIngressTls: false,
+      ingressTlsSecretName: '',
+      enableCertManager: false,
+      certManagerClusterIssuer: 'letsencrypt',
+      gatewayName: '',
+      gatewayNamespace: '',
       enableResources: true,
       cpuRequest: '200m',
       cpuLimit: '1',
@@ -258,6 +271,10 @@ function makeContainerConfig(): ReturnType<typeof useContainerConfiguration> {
       workloadIdentityServiceAccount: '',
       enablePodAntiAffinity: false,
       enableTopologySpreadConstraints: false,
+      nodeSelector: [],
+      tolerations: [],
+      sidecarContainers: [],
+      initContainers: [],
       containerPreviewYaml: '',
     },
     setConfig: noop,
@@ -284,6 +301,11 @@ function baseProps(
     pathChoice: null,
     onPathChoiceChange: noop,
     onFastPathDeploy: noop,
+    scopes: [{ cluster: 'my-cluster', namespace: 'my-namespace' }],
+    environments: [],
+    onEnvironmentsChange: noop,
+    strategy: ROLLING_STRATEGY,
+    onStrategyChange: noop,
     ...overrides,
   };
 }
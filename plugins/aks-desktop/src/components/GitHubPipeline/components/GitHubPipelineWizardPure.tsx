@@ -6,16 +6,22 @@ import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Alert, Box, Button, CircularProgress, Typography } from '@mui/material';
 import React from 'react';
 import { openExternalUrl } from '../../../utils/shared/openExternalUrl';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
 import type { useContainerConfiguration } from '../../DeployWizard/hooks/useContainerConfiguration';
 import type { UseDockerfileDiscoveryReturn } from '../hooks/useDockerfileDiscovery';
 import type { UseFastPathOrchestrationResult } from '../hooks/useFastPathOrchestration';
 import type { UseGitHubPipelineOrchestrationResult } from '../hooks/useGitHubPipelineOrchestration';
+import type { DeploymentStrategy, PipelineEnvironment } from '../types';
+import { getStrategyErrors } from '../utils/deploymentStrategy';
 import { getWizardStep } from '../utils/getWizardStep';
+import { getEnvironmentErrors } from '../utils/promotionEnvironments';
 import { type AcrSelection, AcrSelector } from './AcrSelector';
 import { AgentSetupReview } from './AgentSetupReview';
 import { ConnectSourceStep } from './ConnectSourceStep';
+import { DeploymentStrategySelector } from './DeploymentStrategySelector';
 import { DockerfileConfirmation } from './DockerfileConfirmation';
 import { type DeployPathChoice, PathSelectionStep } from './PathSelectionStep';
+import { PromotionEnvironmentsEditor } from './PromotionEnvironmentsEditor';
 import { ReviewAndMergeStep } from './ReviewAndMergeStep';
 import { AGENT_PATH_STEPS, FAST_PATH_STEPS, WizardShell } from './WizardShell';
 import { WorkloadIdentitySetup } from './WorkloadIdentitySetup';
@@ -131,6 +137,17 @@ export interface GitHubPipelineWizardPureProps {
 
   /** Kicks off the fast-path deploy using the currently selected Dockerfile. */
   onFastPathDeploy: () => void;
+
+  /** Project (cluster, namespace) pairs promotion stages can target. */
+  scopes: ProjectScope[];
+  /** Ordered promotion stages for the fast path; empty for a single target. */
+  environments: PipelineEnvironment[];
+  /** Replaces the promotion stages. */
+  onEnvironmentsChange: (environments: PipelineEnvironment[]) => void;
+  /** Rollout strategy for single-target fast-path pipelines. */
+  strategy: DeploymentStrategy;
+  /** Replaces the rollout strategy. */
+  onStrategyChange: (strategy: DeploymentStrategy) => void;
 }
 
 /**
@@ -157,6 +174,11 @@ export function GitHubPipelineWizardPure({
   pathChoice,
   onPathChoiceChange,
   onFastPathDeploy,
+  scopes,
+  environments,
+  onEnvironmentsChange,
+  strategy,
+  onStrategyChange,
 }: GitHubPipelineWizardPureProps) {
   const { t } = useTranslation();
 
@@ -185,6 +207,8 @@ export function GitHubPipelineWizardPure({
   const deploymentState = pipeline.state.deploymentState;
   const fastPathDeploymentState = fastPath.pipeline.state.deploymentState;
   const isFastPathActive = isFastPath && fastPathDeploymentState !== 'Configured';
+  const hasEnvironmentErrors = getEnvironmentErrors(environments).some(e => e.length > 0);
+  const hasStrategyErrors = environments.length === 0 && getStrategyErrors(strategy).length > 0;
 
   const activeStep = (() => {
     if (!isFastPathActive) {
@@ -393,10 +417,24 @@ export function GitHubPipelineWizardPure({
             return renderFastPathContent();
           }
           return (
-            <DockerfileConfirmation
-              dockerfilePaths={dockerfilePaths}
-              discovery={dockerfileDiscovery}
-            />
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+              <DockerfileConfirmation
+                dockerfilePaths={dockerfilePaths}
+                discovery={dockerfileDiscovery}
+              />
+              <PromotionEnvironmentsEditor
+                scopes={scopes}
+                environments={environments}
+                onChange={onEnvironmentsChange}
+                currentUser={gitHubAuth.authState.username}
+              />
+              <DeploymentStrategySelector
+                strategy={strategy}
+                onChange={onStrategyChange}
+                currentUser={gitHubAuth.authState.username}
+                disabled={environments.length > 0}
+              />
+            </Box>
           );
         }
 
@@ -559,7 +597,9 @@ export function GitHubPipelineWizardPure({
               </Button>
               <Button
                 variant="contained"
-                disabled={!dockerfileDiscovery.selection}
+                disabled={
+                  !dockerfileDiscovery.selection || hasEnvironmentErrors || hasStrategyErrors
+                }
                 onClick={onFastPathDeploy}
                 startIcon={<Icon icon="mdi:rocket-launch-outline" aria-hidden="true" />}
                 sx={{ textTransform: 'none' }}
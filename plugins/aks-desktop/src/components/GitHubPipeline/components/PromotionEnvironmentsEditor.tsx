@@ -0,0 +1,262 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import { type ProjectScope, scopeKey } from '../../../utils/shared/projectScopes';
+import type { PipelineEnvironment } from '../types';
+import {
+  type EnvironmentField,
+  getEnvironmentErrors,
+  MAX_ENVIRONMENT_REVIEWERS,
+  parseReviewers,
+  suggestPromotionEnvironments,
+} from '../utils/promotionEnvironments';
+
+interface PromotionEnvironmentsEditorProps {
+  /** Project (cluster, namespace) pairs a stage can deploy to. */
+  scopes: ProjectScope[];
+  /** Ordered stages; empty when the pipeline deploys to a single target. */
+  environments: PipelineEnvironment[];
+  onChange: (environments: PipelineEnvironment[]) => void;
+  /** Signed-in GitHub login, suggested as the reviewer of the last stage. */
+  currentUser?: string | null;
+}
+
+interface EnvironmentRowProps {
+  index: number;
+  count: number;
+  environment: PipelineEnvironment;
+  errors: EnvironmentField[];
+  scopes: ProjectScope[];
+  onChange: (patch: Partial<PipelineEnvironment>) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+/**
+ * One stage. Keeps the reviewer text locally so separators survive while typing,
+ * and resets it when the stage's reviewers change from outside (e.g. a reorder).
+ */
+function EnvironmentRow({
+  index,
+  count,
+  environment,
+  errors,
+  scopes,
+  onChange,
+  onMove,
+  onRemove,
+}: EnvironmentRowProps) {
+  const { t } = useTranslation();
+  const [reviewersText, setReviewersText] = useState(environment.reviewers.join(', '));
+  const reviewersKey = environment.reviewers.join(',');
+
+  useEffect(() => {
+    if (parseReviewers(reviewersText).join(',') !== reviewersKey) {
+      setReviewersText(environment.reviewers.join(', '));
+    }
+    // Only outside changes matter; local edits already keep the two in step.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [reviewersKey]);
+  const label = environment.name || t('Stage {{number}}', { number: index + 1 });
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1.5,
+        p: 1.5,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 1,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="subtitle2" sx={{ flex: 1 }}>
+          {index + 1}. {label}
+        </Typography>
+        <IconButton
+          size="small"
+          aria-label={t('Move {{name}} earlier', { name: label })}
+          disabled={index === 0}
+          onClick={() => onMove(-1)}
+        >
+          <Icon icon="mdi:arrow-up" aria-hidden="true" />
+        </IconButton>
+        <IconButton
+          size="small"
+          aria-label={t('Move {{name}} later', { name: label })}
+          disabled={index === count - 1}
+          onClick={() => onMove(1)}
+        >
+          <Icon icon="mdi:arrow-down" aria-hidden="true" />
+        </IconButton>
+        <IconButton
+          size="small"
+          aria-label={t('Remove environment {{name}}', { name: label })}
+          onClick={onRemove}
+        >
+          <Icon icon="mdi:delete-outline" aria-hidden="true" />
+        </IconButton>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          size="small"
+          label={t('Environment name')}
+          value={environment.name}
+          onChange={e => onChange({ name: e.target.value.trim() })}
+          error={errors.includes('name')}
+          helperText={
+            errors.includes('name')
+              ? t('Use a unique name of letters, digits, ".", "_" or "-".')
+              : undefined
+          }
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          select
+          size="small"
+          label={t('Cluster / namespace')}
+          value={
+            environment.clusterName
+              ? scopeKey({ cluster: environment.clusterName, namespace: environment.namespace })
+              : ''
+          }
+          onChange={e => {
+            const scope = scopes.find(s => scopeKey(s) === e.target.value);
+            if (scope) onChange({ clusterName: scope.cluster, namespace: scope.namespace });
+          }}
+          error={errors.includes('scope')}
+          helperText={errors.includes('scope') ? t('Pick a cluster and namespace.') : undefined}
+          sx={{ flex: 1 }}
+        >
+          {scopes.map(scope => (
+            <MenuItem key={scopeKey(scope)} value={scopeKey(scope)}>
+              {scope.cluster} / {scope.namespace}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      <TextField
+        size="small"
+        label={t('Required reviewers')}
+        value={reviewersText}
+        onChange={e => {
+          setReviewersText(e.target.value);
+          onChange({ reviewers: parseReviewers(e.target.value) });
+        }}
+        error={errors.includes('reviewers')}
+        helperText={
+          errors.includes('reviewers')
+            ? t('Enter up to {{max}} valid GitHub usernames.', { max: MAX_ENVIRONMENT_REVIEWERS })
+            : t('GitHub usernames, comma separated. Leave empty to deploy without approval.')
+        }
+      />
+    </Box>
+  );
+}
+
+/**
+ * Ordered promotion stages of a fast-path pipeline. Each stage is a GitHub
+ * environment mapped to one of the project's cluster/namespace pairs; the same
+ * image is deployed to them in order, pausing for the stage's reviewers.
+ */
+export function PromotionEnvironmentsEditor({
+  scopes,
+  environments,
+  onChange,
+  currentUser,
+}: PromotionEnvironmentsEditorProps) {
+  const { t } = useTranslation();
+  const enabled = environments.length > 0;
+  const errors = getEnvironmentErrors(environments);
+
+  const update = (idx: number, patch: Partial<PipelineEnvironment>) =>
+    onChange(environments.map((env, i) => (i === idx ? { ...env, ...patch } : env)));
+  const move = (idx: number, offset: -1 | 1) => {
+    const next = [...environments];
+    [next[idx], next[idx + offset]] = [next[idx + offset], next[idx]];
+    onChange(next);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={enabled}
+            onChange={e =>
+              onChange(
+                e.target.checked
+                  ? suggestPromotionEnvironments(scopes, currentUser ?? undefined)
+                  : []
+              )
+            }
+          />
+        }
+        label={t('Promote through environments')}
+      />
+      {!enabled && (
+        <Typography variant="body2" color="text.secondary">
+          {t('Deploy the same image to a sequence of environments, such as dev, staging and prod.')}
+        </Typography>
+      )}
+      {enabled && (
+        <>
+          <Alert severity="info">
+            {t(
+              "Each environment is created on GitHub with its required reviewers. The pipeline identity is granted access to each environment's cluster and namespace."
+            )}
+          </Alert>
+          {environments.map((env, idx) => (
+            <EnvironmentRow
+              key={idx}
+              index={idx}
+              count={environments.length}
+              environment={env}
+              errors={errors[idx]}
+              scopes={scopes}
+              onChange={patch => update(idx, patch)}
+              onMove={offset => move(idx, offset)}
+              onRemove={() => onChange(environments.filter((_, i) => i !== idx))}
+            />
+          ))}
+          <Box>
+            <Button
+              variant="text"
+              startIcon={<Icon icon="mdi:plus" aria-hidden="true" />}
+              onClick={() =>
+                onChange([
+                  ...environments,
+                  {
+                    name: '',
+                    clusterName: scopes[0]?.cluster ?? '',
+                    namespace: scopes[0]?.namespace ?? '',
+                    reviewers: [],
+                  },
+                ])
+              }
+              sx={{ textTransform: 'none' }}
+            >
+              {t('Add environment')}
+            </Button>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -99,6 +99,7 @@ export const DoneWithWarnings: StoryFn = () => (
         tenantId: 'tenant-id',
         principalId: 'principal-id',
         identityName: 'id-my-project-github',
+        identityResourceGroup: 'rg-my-project',
         isExisting: false,
         warnings: [
           'Failed to assign AcrPull to kubelet identity: Forbidden',
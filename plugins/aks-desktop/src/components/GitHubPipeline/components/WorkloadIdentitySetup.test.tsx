@@ -212,6 +212,7 @@ describe('WorkloadIdentitySetup', () => {
             tenantId: 'tenant-id',
             principalId: 'principal-id',
             identityName: 'id-my-project-github',
+            identityResourceGroup: 'rg-my-project',
             isExisting: false,
             warnings: ['Failed to assign AcrPull to kubelet identity: Forbidden'],
           },
@@ -19,9 +19,15 @@ export const AGENT_CONFIG_PATH = '.github/agents/containerization.agent.md';
 /** Default image tag mandated in agent instructions. */
 export const DEFAULT_IMAGE_TAG = '1.0';
 
+/** GitHub environment whose reviewers approve canary steps and blue/green promotions. */
+export const ROLLOUT_APPROVAL_ENVIRONMENT = 'rollout-approval';
+
 /** Custom DOM event used to open the pipeline drawer from a separate React tree. */
 export const OPEN_CONFIGURE_PIPELINE_EVENT = 'open-configure-pipeline';
 
+/** Project URL query parameter that opens the pipeline drawer, e.g. `?openPipeline=true`. */
+export const OPEN_PIPELINE_PARAM = 'openPipeline';
+
 /** Prefix for localStorage keys that store pipeline state per repo. */
 export const STORAGE_KEY_PREFIX = 'aks-desktop:pipeline-state:';
 
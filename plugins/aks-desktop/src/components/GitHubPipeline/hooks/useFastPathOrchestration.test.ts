@@ -30,6 +30,7 @@ const mockCreateFastPathPR = vi.fn().mockResolvedValue({
 });
 vi.mock('../utils/fastPathOrchestration', () => ({
   createFastPathPR: (...args: unknown[]) => mockCreateFastPathPR(...args),
+  setupRolloutApproval: () => Promise.resolve(),
 }));
 
 const mockDispatchWorkflow = vi.fn().mockResolvedValue(undefined);
@@ -48,10 +49,14 @@ vi.mock('./usePRPolling', () => ({
 
 // Workflow polling mock
 let workflowConclusion: string | null = null;
+let workflowStatus: string | null = null;
+let workflowJobs: Array<{ name: string; status: string; conclusion: string | null }> = [];
 vi.mock('./useWorkflowPolling', () => ({
   useWorkflowPolling: () => ({
+    runStatus: workflowStatus,
     runConclusion: workflowConclusion,
     runUrl: null,
+    jobs: workflowJobs,
     error: null,
   }),
 }));
@@ -79,6 +84,7 @@ const defaultProps = {
   selectedRepo,
   containerConfig,
   identityId: 'id-1',
+  pipelineIdentity: null,
 };
 
 const dockerfileSelection = { path: 'Dockerfile', buildContext: '.' };
@@ -88,6 +94,8 @@ describe('useFastPathOrchestration', () => {
     vi.clearAllMocks();
     prPollingMerged = false;
     workflowConclusion = null;
+    workflowStatus = null;
+    workflowJobs = [];
     localStorage.clear();
   });
 
@@ -172,5 +180,28 @@ describe('useFastPathOrchestration', () => {
       // The effect should fire and transition to PipelineRunning
       expect(result.current.pipeline.state.deploymentState).toBe('PipelineRunning');
     });
+
+    it('should treat a waiting rollout as deployed only once its first deploy job succeeded', async () => {
+      const { result, rerender } = renderHook(() => useFastPathOrchestration(defaultProps));
+
+      await act(async () => {
+        await result.current.handleDeploy({
+          selection: dockerfileSelection,
+          strategy: { type: 'blue-green', canarySteps: [], approvers: ['alice'] },
+        });
+      });
+      prPollingMerged = true;
+      rerender();
+      expect(result.current.pipeline.state.deploymentState).toBe('PipelineRunning');
+
+      workflowStatus = 'waiting';
+      workflowJobs = [{ name: 'Deploy green', status: 'in_progress', conclusion: null }];
+      rerender();
+      expect(result.current.pipeline.state.deploymentState).toBe('PipelineRunning');
+
+      workflowJobs = [{ name: 'Deploy green', status: 'completed', conclusion: 'success' }];
+      rerender();
+      expect(result.current.pipeline.state.deploymentState).toBe('Deployed');
+    });
   });
 });
@@ -8,13 +8,20 @@ import { dispatchWorkflow } from '../../../utils/github/github-api';
 import type { ContainerConfig } from '../../DeployWizard/hooks/useContainerConfiguration';
 import { DEFAULT_DOCKERFILE_PATH, MANIFESTS_DIR, PIPELINE_WORKFLOW_FILENAME } from '../constants';
 import { useGitHubAuthContext } from '../GitHubAuthContext';
-import type { PipelineConfig } from '../types';
+import type { DeploymentStrategy, PipelineConfig, PipelineEnvironment } from '../types';
 import {
   createFastPathPR,
   type FastPathPRConfig,
+  type PipelineFileInputs,
+  type PipelineIdentity,
+  resolveWorkflowEnvironments,
+  setupPromotionEnvironments,
+  setupRolloutApproval,
   triggerAsyncAgentReview,
 } from '../utils/fastPathOrchestration';
+import { firstDeployJobName, type WorkflowEnvironment } from '../utils/fastPathTemplates';
 import { createPipelineSecrets } from '../utils/pipelineOrchestration';
+import { saveGeneratedPipelineInputs } from '../utils/pipelineStorage';
 import type { UseDeploymentHealthResult } from './useDeploymentHealth';
 import { useDeploymentHealth } from './useDeploymentHealth';
 import type { DockerfileSelection } from './useDockerfileDiscovery';
@@ -55,12 +62,24 @@ export interface UseFastPathOrchestrationProps {
   containerConfig: ContainerConfig;
   /** Azure managed identity client ID used by the workflow for workload-identity auth. */
   identityId: string;
+  /**
+   * Name, resource group and principal of that identity, from the workload identity step.
+   * Required to deploy with promotion environments; `null` when the step did not run in
+   * this session.
+   */
+  pipelineIdentity: PipelineIdentity | null;
+  /** Whether Azure RBAC for Kubernetes is enabled on the cluster. */
+  azureRbacEnabled?: boolean;
 }
 
 export interface HandleDeployOptions {
   selection: DockerfileSelection;
   /** When true, includes agent config files and triggers async review after deploy. */
   withAsyncAgent?: boolean;
+  /** Ordered promotion stages. Omit or pass an empty list for a single-target pipeline. */
+  environments?: PipelineEnvironment[];
+  /** Rollout strategy. Omit for a rolling update. */
+  strategy?: DeploymentStrategy;
 }
 
 export interface UseFastPathOrchestrationResult {
@@ -89,6 +108,8 @@ export const useFastPathOrchestration = ({
   selectedRepo,
   containerConfig,
   identityId,
+  pipelineIdentity,
+  azureRbacEnabled,
 }: UseFastPathOrchestrationProps): UseFastPathOrchestrationResult => {
   const deployInFlightRef = useRef(false);
   const dispatchInFlightRef = useRef(false);
@@ -132,7 +153,7 @@ export const useFastPathOrchestration = ({
    * and transitions through the fast-path states.
    */
   const handleDeploy = useCallback(
-    async ({ selection, withAsyncAgent }: HandleDeployOptions) => {
+    async ({ selection, withAsyncAgent, environments = [], strategy }: HandleDeployOptions) => {
       if (!gitHubAuth.octokit || !selectedRepo) return;
       if (deployInFlightRef.current) return;
       deployInFlightRef.current = true;
@@ -148,6 +169,8 @@ export const useFastPathOrchestration = ({
         serviceType: containerConfig.serviceType,
         containerConfig,
         repo: selectedRepo,
+        ...(environments.length > 0 ? { environments } : {}),
+        ...(strategy && strategy.type !== 'rolling' ? { strategy } : {}),
       };
 
       pipeline.setConfig(config, withAsyncAgent);
@@ -161,13 +184,35 @@ export const useFastPathOrchestration = ({
         await createPipelineSecrets(gitHubAuth.octokit, config);
         if (currentState(deploymentStateRef) !== 'FastPathGenerating') return;
 
-        const fastPathConfig: FastPathPRConfig = {
+        let workflowEnvironments: WorkflowEnvironment[] = [];
+        if (environments.length > 0) {
+          if (!pipelineIdentity) {
+            throw new Error(
+              'Workload identity details are unavailable. Run the workload identity step again to set up promotion environments.'
+            );
+          }
+          workflowEnvironments = await resolveWorkflowEnvironments(config);
+          if (currentState(deploymentStateRef) !== 'FastPathGenerating') return;
+          await setupPromotionEnvironments(
+            gitHubAuth.octokit,
+            config,
+            pipelineIdentity,
+            workflowEnvironments,
+            azureRbacEnabled
+          );
+          if (currentState(deploymentStateRef) !== 'FastPathGenerating') return;
+        }
+        await setupRolloutApproval(gitHubAuth.octokit, config);
+        if (currentState(deploymentStateRef) !== 'FastPathGenerating') return;
+
+        const fileInputs: PipelineFileInputs = {
           pipelineConfig: config,
           dockerfilePath: selection.path,
           buildContextPath: selection.buildContext,
           containerConfig,
-          withAsyncAgent,
+          environments: workflowEnvironments,
         };
+        const fastPathConfig: FastPathPRConfig = { ...fileInputs, withAsyncAgent };
 
         pipeline.setPRCreating();
         deploymentStateRef.current = 'FastPathPRCreating';
@@ -175,6 +220,7 @@ export const useFastPathOrchestration = ({
         if (currentState(deploymentStateRef) !== 'FastPathPRCreating') return;
 
         pipeline.setPRCreated(pr);
+        saveGeneratedPipelineInputs(fileInputs);
       } catch (err) {
         if (currentState(deploymentStateRef) === 'Failed') return;
         pipeline.setFailed(errorMessage(err, 'Failed to create fast-path PR'));
@@ -187,6 +233,8 @@ export const useFastPathOrchestration = ({
       selectedRepo,
       tenantId,
       identityId,
+      pipelineIdentity,
+      azureRbacEnabled,
       subscriptionId,
       clusterName,
       resourceGroup,
@@ -202,6 +250,13 @@ export const useFastPathOrchestration = ({
     ]
   );
 
+  const pipelineConfig = pipeline.state.config;
+  const firstDeployJob = pipelineConfig
+    ? workflowPolling.jobs.find(job => job.name === firstDeployJobName(pipelineConfig))
+    : undefined;
+  const firstDeploySucceeded =
+    firstDeployJob?.status === 'completed' && firstDeployJob.conclusion === 'success';
+
   useEffect(() => {
     switch (pipeline.state.deploymentState) {
       case 'FastPathPRAwaitingMerge':
@@ -213,6 +268,16 @@ export const useFastPathOrchestration = ({
       case 'PipelineRunning':
         if (workflowPolling.runConclusion === 'success') {
           pipeline.setDeployed(deploymentHealth.serviceEndpoint ?? undefined);
+        } else if (
+          workflowPolling.runStatus === 'waiting' &&
+          (pipeline.state.config?.environments?.length || pipeline.state.config?.strategy) &&
+          firstDeploySucceeded
+        ) {
+          // Promotion and canary/blue-green runs wait for reviewers once the first
+          // deploy is live; approving the rest happens on GitHub (or from the Deploy
+          // tab) and need not keep the wizard open. A run can also wait before its
+          // first deploy (e.g. a reviewed first stage), so check that job finished.
+          pipeline.setDeployed(deploymentHealth.serviceEndpoint ?? undefined);
         } else if (workflowPolling.runConclusion === 'failure') {
           pipeline.setFailed('GitHub Actions workflow failed');
         }
@@ -222,6 +287,10 @@ export const useFastPathOrchestration = ({
     pipeline.state.deploymentState,
     fastPathPrPolling.isMerged,
     workflowPolling.runConclusion,
+    workflowPolling.runStatus,
+    pipeline.state.config?.environments,
+    pipeline.state.config?.strategy,
+    firstDeploySucceeded,
     deploymentHealth.serviceEndpoint,
     pipeline.setPRMerged,
     pipeline.setDeployed,
@@ -4,6 +4,7 @@
 import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
 import { useEffect, useRef, useState } from 'react';
 import type { GitHubRepo } from '../../../types/github';
+import { trackActivity } from '../../../utils/shared/activityLog';
 import type { PipelineDeploymentState } from '../types';
 
 export const ANNOTATION_PIPELINE_REPOS = 'aks-project/pipeline-repos';
@@ -106,12 +107,20 @@ export const usePipelineAnnotationSync = ({
           annotations[ANNOTATION_WORKLOAD_TENANT] = tenantId;
         }
 
-        await clusterRequest(`/api/v1/namespaces/${namespace}`, {
-          method: 'PATCH',
-          body: JSON.stringify({ metadata: { annotations } }),
-          headers: MERGE_PATCH_HEADERS,
-          cluster: clusterName,
-        });
+        await trackActivity(
+          {
+            channel: 'kubernetes',
+            operation: 'Annotate namespace with pipeline',
+            target: { cluster: clusterName, namespace },
+          },
+          () =>
+            clusterRequest(`/api/v1/namespaces/${namespace}`, {
+              method: 'PATCH',
+              body: JSON.stringify({ metadata: { annotations } }),
+              headers: MERGE_PATCH_HEADERS,
+              cluster: clusterName,
+            })
+        );
         if (cancelled) return;
         lastWrittenRepoKeyRef.current = repoKey;
         errorCountRef.current = 0;
@@ -4,7 +4,12 @@
 import type { Octokit } from '@octokit/rest';
 import { useCallback, useEffect, useRef } from 'react';
 import type { WorkflowRunConclusion, WorkflowRunStatus } from '../../../types/github';
-import { getWorkflowRun, listWorkflowRuns } from '../../../utils/github/github-api';
+import {
+  getWorkflowRun,
+  listWorkflowRunJobs,
+  listWorkflowRuns,
+  type WorkflowJob,
+} from '../../../utils/github/github-api';
 import {
   PIPELINE_WORKFLOW_FILENAME,
   POLLING_INTERVAL_MS,
@@ -16,6 +21,8 @@ export interface UseWorkflowPollingResult {
   runStatus: WorkflowRunStatus | null;
   runConclusion: WorkflowRunConclusion;
   runUrl: string | null;
+  /** Jobs of the run, fetched only while it is waiting for approval. */
+  jobs: WorkflowJob[];
   error: string | null;
   stopPolling: () => void;
 }
@@ -25,11 +32,16 @@ interface WorkflowPollData {
   runStatus: WorkflowRunStatus | null;
   runConclusion: WorkflowRunConclusion;
   runUrl: string | null;
+  jobs: WorkflowJob[];
 }
 
+const NO_JOBS: WorkflowJob[] = [];
+
 /**
  * Polls GitHub Actions for a workflow run triggered by a branch push (PR merge).
  * First discovers the run via listWorkflowRuns, then polls getWorkflowRun for status.
+ * While the run waits for approval, its jobs are listed too, so callers can tell
+ * which jobs finished before the gate.
  * Stops automatically when the workflow completes or polling times out.
  *
  * @param octokit - Authenticated Octokit client. Pass null to disable.
@@ -57,6 +69,9 @@ export const useWorkflowPolling = (
   const pollFn = useCallback(async (): Promise<WorkflowPollData | null> => {
     if (!octokit || !branchName) return null;
 
+    const jobsWhileWaiting = (runId: number, status: WorkflowRunStatus | null) =>
+      status === 'waiting' ? listWorkflowRunJobs(octokit, owner, repo, runId) : [];
+
     if (runIdRef.current === null) {
       const runs = await listWorkflowRuns(octokit, owner, repo, {
         branch: branchName,
@@ -70,6 +85,7 @@ export const useWorkflowPolling = (
           runStatus: latestRun.status,
           runConclusion: latestRun.conclusion,
           runUrl: latestRun.url,
+          jobs: await jobsWhileWaiting(latestRun.id, latestRun.status),
         };
       }
       return null;
@@ -80,6 +96,7 @@ export const useWorkflowPolling = (
       runStatus: run.status,
       runConclusion: run.conclusion,
       runUrl: run.url,
+      jobs: await jobsWhileWaiting(run.id, run.status),
     };
   }, [octokit, owner, repo, branchName]);
 
@@ -104,7 +121,8 @@ export const useWorkflowPolling = (
   const runStatus = data?.runStatus ?? null;
   const runConclusion = data?.runConclusion ?? null;
   const runUrl = data?.runUrl ?? null;
+  const jobs = data?.jobs ?? NO_JOBS;
   const error = pollingError ?? (isTimedOut ? 'Workflow polling timed out after 30 minutes' : null);
 
-  return { runStatus, runConclusion, runUrl, error, stopPolling };
+  return { runStatus, runConclusion, runUrl, jobs, error, stopPolling };
 };
@@ -236,6 +236,7 @@ describe('useWorkloadIdentitySetup', () => {
         clientId: 'existing-cid',
         isExisting: true,
         identityName: 'id-my-project-github',
+        identityResourceGroup: 'rg-my-project',
       })
     );
   });
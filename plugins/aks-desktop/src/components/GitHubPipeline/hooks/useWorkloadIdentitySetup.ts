@@ -9,6 +9,7 @@ import {
   type EnsureIdentityWithRolesResult,
 } from '../../../utils/azure/identityWithRoles';
 import { sanitizeDnsName } from '../../../utils/kubernetes/k8sNames';
+import { trackActivity } from '../../../utils/shared/activityLog';
 
 export type WorkloadIdentitySetupStatus =
   | 'idle'
@@ -23,6 +24,8 @@ export type WorkloadIdentitySetupStatus =
 
 export interface WorkloadIdentitySetupResult extends EnsureIdentityWithRolesResult {
   identityName: string;
+  /** Resource group the identity lives in; federated credentials are created there. */
+  identityResourceGroup: string;
 }
 
 export interface UseWorkloadIdentitySetupReturn {
@@ -168,6 +171,7 @@ export const useWorkloadIdentitySetup = (): UseWorkloadIdentitySetupReturn => {
       const setupResult: WorkloadIdentitySetupResult = {
         ...identityResult,
         identityName,
+        identityResourceGroup,
         warnings,
       };
       setResult(setupResult);
@@ -192,7 +196,7 @@ export const useWorkloadIdentitySetup = (): UseWorkloadIdentitySetupReturn => {
  * The subject uses the identity's principalId (Azure AD object ID), which is the username
  * that kubelogin presents to the K8s API server.
  */
-async function ensurePipelineRoleBinding(params: {
+export async function ensurePipelineRoleBinding(params: {
   clusterName: string;
   namespace: string;
   principalId: string;
@@ -229,25 +233,41 @@ async function ensurePipelineRoleBinding(params: {
   const path = `/apis/rbac.authorization.k8s.io/v1/namespaces/${namespace}/rolebindings`;
 
   try {
-    await clusterRequest(path, {
-      method: 'POST',
-      body: JSON.stringify(roleBinding),
-      headers: { 'Content-Type': 'application/json' },
-      cluster: clusterName,
-    });
+    await trackActivity(
+      {
+        channel: 'kubernetes',
+        operation: 'Create RoleBinding',
+        target: { cluster: clusterName, namespace, resource: `RoleBinding/${bindingName}` },
+      },
+      () =>
+        clusterRequest(path, {
+          method: 'POST',
+          body: JSON.stringify(roleBinding),
+          headers: { 'Content-Type': 'application/json' },
+          cluster: clusterName,
+        })
+    );
   } catch (err: any) {
     const status = err?.status ?? err?.response?.status;
     if (status === 409) {
       // RoleBinding already exists — use server-side apply to update without requiring
       // a prior GET for the current resourceVersion (avoids 422 on plain PUT).
-      await clusterRequest(`${path}/${bindingName}?fieldManager=aks-desktop&force=true`, {
-        method: 'PATCH',
-        body: JSON.stringify(roleBinding),
-        // Body is JSON-encoded, so use the JSON server-side-apply content type.
-        // Mismatched content type (yaml header + JSON body) silently 415s on some clusters.
-        headers: { 'Content-Type': 'application/apply-patch+json' },
-        cluster: clusterName,
-      });
+      await trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: 'Apply RoleBinding',
+          target: { cluster: clusterName, namespace, resource: `RoleBinding/${bindingName}` },
+        },
+        () =>
+          clusterRequest(`${path}/${bindingName}?fieldManager=aks-desktop&force=true`, {
+            method: 'PATCH',
+            body: JSON.stringify(roleBinding),
+            // Body is JSON-encoded, so use the JSON server-side-apply content type.
+            // Mismatched content type (yaml header + JSON body) silently 415s on some clusters.
+            headers: { 'Content-Type': 'application/apply-patch+json' },
+            cluster: clusterName,
+          })
+      );
     } else {
       throw err;
     }
@@ -44,6 +44,37 @@ export interface GitHubAuthState {
   error: string | null;
 }
 
+/**
+ * One stage of a promotion pipeline. Stages deploy in list order, each gated by
+ * a GitHub environment of the same name.
+ */
+export interface PipelineEnvironment {
+  /** GitHub environment name, e.g. `staging`. */
+  name: string;
+  /** Project cluster the stage deploys to. */
+  clusterName: string;
+  /** Project namespace the stage deploys to. */
+  namespace: string;
+  /** GitHub logins that must approve a deployment to this stage. Empty for no approval. */
+  reviewers: string[];
+}
+
+/** How the generated deploy workflow rolls out a new image. */
+export type DeploymentStrategyType = 'rolling' | 'canary' | 'blue-green';
+
+/**
+ * Rollout strategy of a fast-path pipeline. Canary and blue/green rollouts
+ * pause for approval in a GitHub environment before the new version replaces
+ * the stable one.
+ */
+export interface DeploymentStrategy {
+  type: DeploymentStrategyType;
+  /** Canary traffic percentages, ascending; each step after the first waits for approval. */
+  canarySteps: number[];
+  /** GitHub logins that can approve the next step or the promotion. */
+  approvers: string[];
+}
+
 /**
  * Pipeline deployment configuration — collected from the existing deploy wizard.
  * Serialized into the agent task issue body per PRD Section 6.3.
@@ -67,6 +98,10 @@ export interface PipelineConfig {
   acrResourceId?: string;
   /** Login server of the selected ACR (e.g., "myregistry.azurecr.io"). */
   acrLoginServer?: string;
+  /** Ordered promotion stages. Absent or empty for a single-target pipeline. */
+  environments?: PipelineEnvironment[];
+  /** Rollout strategy. Absent means a rolling update. */
+  strategy?: DeploymentStrategy;
 }
 
 export interface PRTracking {
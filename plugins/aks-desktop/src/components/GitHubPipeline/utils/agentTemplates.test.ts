@@ -74,6 +74,7 @@ describe('agentTemplates', () => {
       const result = generateAgentConfig(validConfig);
       expect(result).toContain('aks-project/pipeline-run-url=');
       expect(result).toContain('aks-project/pipeline-workflow=${{ github.workflow }}');
+      expect(result).toContain('aks-project/pipeline-commit=${{ github.sha }}');
       expect(result).toContain('kubectl annotate deployment --all');
     });
 
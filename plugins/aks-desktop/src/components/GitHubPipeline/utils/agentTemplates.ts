@@ -4,6 +4,7 @@
 import type { Octokit } from '@octokit/rest';
 import { createOrUpdateFile } from '../../../utils/github/github-api';
 import { getServiceAccountName } from '../../../utils/kubernetes/serviceAccountNames';
+import { buildNodeSelector, buildTolerations } from '../../DeployWizard/utils/nodePlacement';
 import {
   AGENT_CONFIG_PATH,
   CONTAINERIZATION_MCP_VERSION,
@@ -170,6 +171,18 @@ export const generateAgentConfig = (config: PipelineConfig): string => {
     if (cc.enablePodAntiAffinity) optionalLines.push(`- Pod Anti-Affinity: enabled`);
     if (cc.enableTopologySpreadConstraints)
       optionalLines.push(`- Topology Spread Constraints: enabled`);
+    const nodeSelector = buildNodeSelector(cc.nodeSelector);
+    if (nodeSelector) {
+      optionalLines.push(
+        `- Node Selector: ${Object.entries(nodeSelector)
+          .map(([key, value]) => `${key}=${value}`)
+          .join(', ')}`
+      );
+    }
+    const tolerations = buildTolerations(cc.tolerations);
+    if (tolerations) {
+      optionalLines.push(`- Tolerations: ${tolerations.map(t => JSON.stringify(t)).join(', ')}`);
+    }
     if (cc.enableWorkloadIdentity && cc.workloadIdentityClientId) {
       const saName = cc.workloadIdentityServiceAccount || getServiceAccountName(config.appName);
       optionalLines.push(
@@ -254,8 +267,8 @@ Generate \`.github/workflows/${PIPELINE_WORKFLOW_FILENAME}\`:
   }${generateEnvVarWorkflowInstructions(config)}${generateWorkloadIdentityWorkflowInstructions(
     config
   )}- Apply manifests: \`kubectl apply -f deploy/kubernetes/ -n \${{ inputs.namespace }}\`
-- After apply, annotate each Deployment with the run URL and workflow name:
-  \`kubectl annotate deployment --all -n \${{ inputs.namespace }} aks-project/pipeline-run-url=\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }} "aks-project/pipeline-workflow=\${{ github.workflow }}" --overwrite\`
+- After apply, annotate each Deployment with the run URL, workflow name and commit:
+  \`kubectl annotate deployment --all -n \${{ inputs.namespace }} aks-project/pipeline-run-url=\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }} "aks-project/pipeline-workflow=\${{ github.workflow }}" aks-project/pipeline-commit=\${{ github.sha }} --overwrite\`
 
 ## Naming Conventions
 - PR title: "[AKS Desktop] Add deployment pipeline for ${config.appName}"
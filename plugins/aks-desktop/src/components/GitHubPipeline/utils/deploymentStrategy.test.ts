@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  defaultDeploymentStrategy,
+  getStrategyErrors,
+  isValidCanarySchedule,
+  parseCanarySteps,
+} from './deploymentStrategy';
+
+describe('defaultDeploymentStrategy', () => {
+  it('should seed canary steps and the approver', () => {
+    expect(defaultDeploymentStrategy('canary', 'alice')).toEqual({
+      type: 'canary',
+      canarySteps: [20, 50],
+      approvers: ['alice'],
+    });
+    expect(defaultDeploymentStrategy('blue-green').approvers).toEqual([]);
+  });
+
+  it('should ignore the approver for rolling updates', () => {
+    expect(defaultDeploymentStrategy('rolling', 'alice').approvers).toEqual([]);
+  });
+});
+
+describe('parseCanarySteps', () => {
+  it('should split on commas and whitespace and strip percent signs', () => {
+    expect(parseCanarySteps('10%, 25 50')).toEqual([10, 25, 50]);
+  });
+
+  it('should turn non-numbers into NaN', () => {
+    expect(parseCanarySteps('10, half')).toEqual([10, NaN]);
+  });
+});
+
+describe('isValidCanarySchedule', () => {
+  it('should accept ascending whole percentages', () => {
+    expect(isValidCanarySchedule([10])).toBe(true);
+    expect(isValidCanarySchedule([10, 25, 50, 75])).toBe(true);
+  });
+
+  it('should reject empty, unordered, out-of-range or too long schedules', () => {
+    expect(isValidCanarySchedule([])).toBe(false);
+    expect(isValidCanarySchedule([50, 20])).toBe(false);
+    expect(isValidCanarySchedule([20, 20])).toBe(false);
+    expect(isValidCanarySchedule([0])).toBe(false);
+    expect(isValidCanarySchedule([100])).toBe(false);
+    expect(isValidCanarySchedule([12.5])).toBe(false);
+    expect(isValidCanarySchedule([NaN])).toBe(false);
+    expect(isValidCanarySchedule([10, 20, 30, 40, 50])).toBe(false);
+  });
+});
+
+describe('getStrategyErrors', () => {
+  it('should accept rolling updates without settings', () => {
+    expect(getStrategyErrors({ type: 'rolling', canarySteps: [], approvers: [] })).toEqual([]);
+  });
+
+  it('should flag a bad schedule and missing approvers', () => {
+    expect(getStrategyErrors({ type: 'canary', canarySteps: [90, 10], approvers: [] })).toEqual([
+      'canarySteps',
+      'approvers',
+    ]);
+  });
+
+  it('should flag invalid approver logins', () => {
+    expect(
+      getStrategyErrors({ type: 'blue-green', canarySteps: [], approvers: ['not a login'] })
+    ).toEqual(['approvers']);
+  });
+});
@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { DeploymentStrategy, DeploymentStrategyType } from '../types';
+import { isValidGitHubLogin, MAX_ENVIRONMENT_REVIEWERS } from './promotionEnvironments';
+
+/** Canary percentages offered when the canary strategy is first chosen. */
+export const DEFAULT_CANARY_STEPS = [20, 50];
+
+/** Most canary steps a pipeline may define; each one is a separate approval. */
+export const MAX_CANARY_STEPS = 4;
+
+export type StrategyField = 'canarySteps' | 'approvers';
+
+/** Strategy used when the wizard is left untouched. */
+export const ROLLING_STRATEGY: DeploymentStrategy = {
+  type: 'rolling',
+  canarySteps: [],
+  approvers: [],
+};
+
+/**
+ * Returns the default settings for `type`, with `approver` (usually the
+ * signed-in user) as the only approver of gated strategies.
+ */
+export function defaultDeploymentStrategy(
+  type: DeploymentStrategyType,
+  approver?: string
+): DeploymentStrategy {
+  if (type === 'rolling') return ROLLING_STRATEGY;
+  return {
+    type,
+    canarySteps: type === 'canary' ? DEFAULT_CANARY_STEPS : [],
+    approvers: approver ? [approver] : [],
+  };
+}
+
+/**
+ * Parses a free-text list of canary percentages (commas or whitespace, optional
+ * `%`). Entries that are not numbers become NaN so validation can flag them.
+ */
+export function parseCanarySteps(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(entry => Number(entry.replace(/%$/, '')));
+}
+
+/**
+ * Whether `steps` is a usable canary schedule: one to {@link MAX_CANARY_STEPS}
+ * whole percentages between 1 and 99, strictly ascending.
+ */
+export function isValidCanarySchedule(steps: number[]): boolean {
+  return (
+    steps.length > 0 &&
+    steps.length <= MAX_CANARY_STEPS &&
+    steps.every(
+      (step, i) =>
+        Number.isInteger(step) && step >= 1 && step <= 99 && (i === 0 || step > steps[i - 1])
+    )
+  );
+}
+
+/** Returns the invalid fields of a strategy. Rolling updates have none. */
+export function getStrategyErrors(strategy: DeploymentStrategy): StrategyField[] {
+  if (strategy.type === 'rolling') return [];
+  const errors: StrategyField[] = [];
+  if (strategy.type === 'canary' && !isValidCanarySchedule(strategy.canarySteps)) {
+    errors.push('canarySteps');
+  }
+  if (
+    strategy.approvers.length === 0 ||
+    strategy.approvers.length > MAX_ENVIRONMENT_REVIEWERS ||
+    !strategy.approvers.every(isValidGitHubLogin)
+  ) {
+    errors.push('approvers');
+  }
+  return errors;
+}
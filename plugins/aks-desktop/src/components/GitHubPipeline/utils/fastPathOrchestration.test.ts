@@ -11,12 +11,16 @@ const {
   mockCreateOrUpdateFile,
   mockCreatePullRequest,
   mockDeleteBranch,
+  mockCreateOrUpdateEnvironment,
+  mockGetFileWithSha,
 } = vi.hoisted(() => ({
   mockGetDefaultBranchSha: vi.fn(),
   mockCreateBranch: vi.fn(),
   mockCreateOrUpdateFile: vi.fn(),
   mockCreatePullRequest: vi.fn(),
   mockDeleteBranch: vi.fn(),
+  mockCreateOrUpdateEnvironment: vi.fn(),
+  mockGetFileWithSha: vi.fn(),
 }));
 
 vi.mock('../../../utils/github/github-api', () => ({
@@ -25,6 +29,46 @@ vi.mock('../../../utils/github/github-api', () => ({
   createOrUpdateFile: mockCreateOrUpdateFile,
   createPullRequest: mockCreatePullRequest,
   deleteBranch: mockDeleteBranch,
+  createOrUpdateEnvironment: mockCreateOrUpdateEnvironment,
+  getFileWithSha: mockGetFileWithSha,
+}));
+
+const { mockGetClusterInfo, mockGetClusterCapabilities, mockCreateEnvironmentFederatedCredential } =
+  vi.hoisted(() => ({
+    mockGetClusterInfo: vi.fn(),
+    mockGetClusterCapabilities: vi.fn(),
+    mockCreateEnvironmentFederatedCredential: vi.fn(),
+  }));
+
+vi.mock('../../../utils/azure/az-clusters', () => ({
+  getClusterInfo: mockGetClusterInfo,
+  getClusterCapabilities: mockGetClusterCapabilities,
+}));
+
+vi.mock('../../../utils/azure/az-federation', () => ({
+  createEnvironmentFederatedCredential: mockCreateEnvironmentFederatedCredential,
+}));
+
+const {
+  mockGetManagedNamespaceResourceId,
+  mockAssignRolesToIdentity,
+  mockEnsurePipelineRoleBinding,
+} = vi.hoisted(() => ({
+  mockGetManagedNamespaceResourceId: vi.fn(),
+  mockAssignRolesToIdentity: vi.fn(),
+  mockEnsurePipelineRoleBinding: vi.fn(),
+}));
+
+vi.mock('../../../utils/azure/az-identity', async () => ({
+  ...(await vi.importActual<typeof import('../../../utils/azure/az-identity')>(
+    '../../../utils/azure/az-identity'
+  )),
+  getManagedNamespaceResourceId: mockGetManagedNamespaceResourceId,
+  assignRolesToIdentity: mockAssignRolesToIdentity,
+}));
+
+vi.mock('../hooks/useWorkloadIdentitySetup', () => ({
+  ensurePipelineRoleBinding: mockEnsurePipelineRoleBinding,
 }));
 
 const { mockGenerateDeployWorkflow, mockGenerateDeploymentManifest, mockGenerateServiceManifest } =
@@ -54,7 +98,16 @@ vi.mock('./agentTemplates', () => ({
       .replace(/^-|-$/g, '') || 'app',
 }));
 
-import { createFastPathPR, type FastPathPRConfig } from './fastPathOrchestration';
+import {
+  checkPipelineDrift,
+  createFastPathPR,
+  createPipelineUpdatePR,
+  type FastPathPRConfig,
+  inputsFromConfiguredPipeline,
+  resolveWorkflowEnvironments,
+  setupPromotionEnvironments,
+  setupRolloutApproval,
+} from './fastPathOrchestration';
 
 const mockOctokit = {} as unknown as Octokit;
 
@@ -294,4 +347,419 @@ describe('fastPathOrchestration', () => {
       expect(mockCreateBranch).not.toHaveBeenCalled();
     });
   });
+
+  describe('with promotion environments', () => {
+    const promotionConfig = createValidConfig({
+      acrLoginServer: 'acrprod.azurecr.io',
+      environments: [
+        { name: 'dev', clusterName: 'my-cluster', namespace: 'app-dev', reviewers: [] },
+        { name: 'prod', clusterName: 'my-cluster', namespace: 'app', reviewers: ['alice'] },
+      ],
+    });
+    const promotionStages = [
+      { name: 'dev', clusterName: 'my-cluster', resourceGroup: 'my-rg', namespace: 'app-dev' },
+      { name: 'prod', clusterName: 'my-cluster', resourceGroup: 'my-rg', namespace: 'app' },
+    ];
+    const identity = {
+      identityName: 'id-my-app',
+      identityResourceGroup: 'rg-identity',
+      principalId: 'principal-1',
+    };
+
+    beforeEach(() => {
+      mockGetManagedNamespaceResourceId.mockImplementation(async ({ namespaceName }) => ({
+        success: true,
+        resourceId: `/mns/${namespaceName}`,
+      }));
+      mockAssignRolesToIdentity.mockResolvedValue({ success: true, results: [] });
+      mockEnsurePipelineRoleBinding.mockResolvedValue(undefined);
+    });
+
+    it('resolves resource groups, looking up clusters other than the pipeline cluster', async () => {
+      mockGetClusterInfo.mockResolvedValue({ resourceGroup: 'rg-dev', subscriptionId: 'sub' });
+      const config = createValidConfig({
+        environments: [
+          { name: 'dev', clusterName: 'aks-dev', namespace: 'app', reviewers: [] },
+          { name: 'prod', clusterName: 'my-cluster', namespace: 'app', reviewers: ['alice'] },
+        ],
+      });
+
+      await expect(resolveWorkflowEnvironments(config)).resolves.toEqual([
+        { name: 'dev', clusterName: 'aks-dev', resourceGroup: 'rg-dev', namespace: 'app' },
+        { name: 'prod', clusterName: 'my-cluster', resourceGroup: 'my-rg', namespace: 'app' },
+      ]);
+      expect(mockGetClusterInfo).toHaveBeenCalledTimes(1);
+      expect(mockGetClusterInfo).toHaveBeenCalledWith('aks-dev');
+    });
+
+    it('throws when a cluster resource group cannot be found', async () => {
+      mockGetClusterInfo.mockResolvedValue({});
+      const config = createValidConfig({
+        environments: [{ name: 'dev', clusterName: 'aks-dev', namespace: 'app', reviewers: [] }],
+      });
+      await expect(resolveWorkflowEnvironments(config)).rejects.toThrow(/aks-dev/);
+    });
+
+    it('creates each environment and its federated credential', async () => {
+      mockCreateOrUpdateEnvironment.mockResolvedValue(undefined);
+      mockCreateEnvironmentFederatedCredential.mockResolvedValue({ success: true });
+
+      await setupPromotionEnvironments(mockOctokit, promotionConfig, identity, promotionStages);
+
+      expect(mockCreateOrUpdateEnvironment).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        'prod',
+        ['alice']
+      );
+      expect(mockCreateEnvironmentFederatedCredential).toHaveBeenCalledWith({
+        identityName: 'id-my-app',
+        resourceGroup: 'rg-identity',
+        subscriptionId: 'sub-789',
+        repoOwner: 'testuser',
+        repoName: 'my-repo',
+        environment: 'dev',
+      });
+      expect(mockCreateEnvironmentFederatedCredential).toHaveBeenCalledTimes(2);
+    });
+
+    it('grants the pipeline identity access to each stage namespace', async () => {
+      mockCreateOrUpdateEnvironment.mockResolvedValue(undefined);
+      mockCreateEnvironmentFederatedCredential.mockResolvedValue({ success: true });
+      const config = createValidConfig({
+        environments: [
+          { name: 'dev', clusterName: 'my-cluster', namespace: 'app-dev', reviewers: [] },
+          { name: 'staging', clusterName: 'my-cluster', namespace: 'app-staging', reviewers: [] },
+          { name: 'prod', clusterName: 'my-cluster', namespace: 'production', reviewers: [] },
+        ],
+      });
+
+      const stages = config.environments!.map(({ name, clusterName, namespace }) => ({
+        name,
+        clusterName,
+        resourceGroup: 'my-rg',
+        namespace,
+      }));
+
+      await setupPromotionEnvironments(mockOctokit, config, identity, stages, false);
+
+      // The pipeline namespace was granted by the workload identity step.
+      expect(mockGetManagedNamespaceResourceId).toHaveBeenCalledTimes(2);
+      for (const namespace of ['app-dev', 'app-staging']) {
+        expect(mockAssignRolesToIdentity).toHaveBeenCalledWith({
+          principalId: 'principal-1',
+          subscriptionId: 'sub-789',
+          roles: [
+            { role: 'Azure Kubernetes Service RBAC Writer', scope: `/mns/${namespace}` },
+            { role: 'Azure Kubernetes Service Namespace User', scope: `/mns/${namespace}` },
+          ],
+        });
+        expect(mockEnsurePipelineRoleBinding).toHaveBeenCalledWith({
+          clusterName: 'my-cluster',
+          namespace,
+          principalId: 'principal-1',
+          identityName: 'id-my-app',
+        });
+      }
+      expect(mockEnsurePipelineRoleBinding).toHaveBeenCalledTimes(2);
+    });
+
+    it('grants access on stage clusters other than the pipeline cluster', async () => {
+      mockCreateOrUpdateEnvironment.mockResolvedValue(undefined);
+      mockCreateEnvironmentFederatedCredential.mockResolvedValue({ success: true });
+      mockGetClusterCapabilities.mockResolvedValue({ azureRbacEnabled: false });
+      const config = createValidConfig({
+        environments: [
+          { name: 'dev', clusterName: 'aks-dev', namespace: 'production', reviewers: [] },
+          { name: 'prod', clusterName: 'my-cluster', namespace: 'production', reviewers: [] },
+        ],
+      });
+      const stages = [
+        { name: 'dev', clusterName: 'aks-dev', resourceGroup: 'rg-dev', namespace: 'production' },
+        {
+          name: 'prod',
+          clusterName: 'my-cluster',
+          resourceGroup: 'my-rg',
+          namespace: 'production',
+        },
+      ];
+
+      await setupPromotionEnvironments(mockOctokit, config, identity, stages, true);
+
+      expect(mockGetClusterCapabilities).toHaveBeenCalledTimes(1);
+      expect(mockGetClusterCapabilities).toHaveBeenCalledWith({
+        subscriptionId: 'sub-789',
+        resourceGroup: 'rg-dev',
+        clusterName: 'aks-dev',
+      });
+      expect(mockGetManagedNamespaceResourceId).toHaveBeenCalledTimes(1);
+      expect(mockGetManagedNamespaceResourceId).toHaveBeenCalledWith({
+        clusterName: 'aks-dev',
+        resourceGroup: 'rg-dev',
+        namespaceName: 'production',
+        subscriptionId: 'sub-789',
+      });
+      expect(mockAssignRolesToIdentity).toHaveBeenCalledTimes(1);
+      expect(mockEnsurePipelineRoleBinding).toHaveBeenCalledWith({
+        clusterName: 'aks-dev',
+        namespace: 'production',
+        principalId: 'principal-1',
+        identityName: 'id-my-app',
+      });
+    });
+
+    it('skips the RoleBinding when the cluster uses Azure RBAC', async () => {
+      mockCreateOrUpdateEnvironment.mockResolvedValue(undefined);
+      mockCreateEnvironmentFederatedCredential.mockResolvedValue({ success: true });
+
+      await setupPromotionEnvironments(
+        mockOctokit,
+        promotionConfig,
+        identity,
+        promotionStages,
+        true
+      );
+
+      expect(mockAssignRolesToIdentity).toHaveBeenCalledTimes(2);
+      expect(mockEnsurePipelineRoleBinding).not.toHaveBeenCalled();
+    });
+
+    it('throws before creating environments when a stage role assignment fails', async () => {
+      mockAssignRolesToIdentity.mockResolvedValue({
+        success: false,
+        results: [
+          { role: 'Azure Kubernetes Service RBAC Writer', success: false, error: 'denied' },
+        ],
+      });
+
+      await expect(
+        setupPromotionEnvironments(mockOctokit, promotionConfig, identity, promotionStages)
+      ).rejects.toThrow(/app-dev.*denied/);
+      expect(mockCreateOrUpdateEnvironment).not.toHaveBeenCalled();
+    });
+
+    it('throws when a federated credential fails', async () => {
+      mockCreateOrUpdateEnvironment.mockResolvedValue(undefined);
+      mockCreateEnvironmentFederatedCredential.mockResolvedValue({
+        success: false,
+        error: 'denied',
+      });
+
+      await expect(
+        setupPromotionEnvironments(mockOctokit, promotionConfig, identity, promotionStages)
+      ).rejects.toThrow('denied');
+      expect(mockCreateOrUpdateEnvironment).toHaveBeenCalledTimes(1);
+    });
+
+    it('passes environments to the workflow and leaves manifests unpinned', async () => {
+      const environments = [
+        { name: 'dev', clusterName: 'aks-dev', resourceGroup: 'rg-dev', namespace: 'app' },
+      ];
+      await createFastPathPR(mockOctokit, {
+        ...baseFastPathConfig,
+        pipelineConfig: promotionConfig,
+        environments,
+      });
+
+      expect(mockGenerateDeployWorkflow).toHaveBeenCalledWith(
+        expect.objectContaining({ environments })
+      );
+      expect(mockGenerateDeploymentManifest).toHaveBeenCalledWith(
+        expect.objectContaining({ namespace: undefined }),
+        baseFastPathConfig.containerConfig
+      );
+    });
+  });
+
+  describe('with a rollout strategy', () => {
+    const canaryConfig = createValidConfig({
+      acrLoginServer: 'acrprod.azurecr.io',
+      strategy: { type: 'canary', canarySteps: [20, 50], approvers: ['alice'] },
+    });
+
+    it('creates the approval environment with the approvers', async () => {
+      mockCreateOrUpdateEnvironment.mockResolvedValue(undefined);
+
+      await setupRolloutApproval(mockOctokit, canaryConfig);
+
+      expect(mockCreateOrUpdateEnvironment).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        'rollout-approval',
+        ['alice']
+      );
+    });
+
+    it('does nothing for rolling updates', async () => {
+      await setupRolloutApproval(mockOctokit, validConfig);
+      expect(mockCreateOrUpdateEnvironment).not.toHaveBeenCalled();
+    });
+
+    it('passes the strategy to the workflow and manifests', async () => {
+      await createFastPathPR(mockOctokit, { ...baseFastPathConfig, pipelineConfig: canaryConfig });
+
+      expect(mockGenerateDeployWorkflow).toHaveBeenCalledWith(
+        expect.objectContaining({ strategy: canaryConfig.strategy })
+      );
+      expect(mockGenerateServiceManifest).toHaveBeenCalledWith(
+        expect.objectContaining({ strategy: 'canary' }),
+        baseFastPathConfig.containerConfig
+      );
+    });
+  });
+
+  describe('inputsFromConfiguredPipeline', () => {
+    const containerConfig = createContainerConfig();
+
+    it('should rebuild the inputs from the config and its only Dockerfile', () => {
+      const config = createValidConfig({
+        containerConfig,
+        environments: [
+          { name: 'staging', clusterName: 'my-cluster', namespace: 'staging', reviewers: [] },
+        ],
+      });
+
+      expect(
+        inputsFromConfiguredPipeline({ config, dockerfilePaths: ['src/web/Dockerfile'] })
+      ).toEqual({
+        pipelineConfig: config,
+        dockerfilePath: 'src/web/Dockerfile',
+        buildContextPath: './src/web',
+        containerConfig,
+        environments: [
+          {
+            name: 'staging',
+            clusterName: 'my-cluster',
+            resourceGroup: 'my-rg',
+            namespace: 'staging',
+          },
+        ],
+      });
+    });
+
+    it('should return null without a container config', () => {
+      expect(
+        inputsFromConfiguredPipeline({ config: validConfig, dockerfilePaths: ['Dockerfile'] })
+      ).toBeNull();
+    });
+
+    it('should return null when a stage is on another cluster', () => {
+      const config = createValidConfig({
+        containerConfig,
+        environments: [{ name: 'dev', clusterName: 'aks-dev', namespace: 'app', reviewers: [] }],
+      });
+
+      expect(inputsFromConfiguredPipeline({ config, dockerfilePaths: ['Dockerfile'] })).toBeNull();
+    });
+
+    it('should return null unless exactly one Dockerfile was found', () => {
+      const config = createValidConfig({ containerConfig });
+
+      expect(inputsFromConfiguredPipeline({ config, dockerfilePaths: [] })).toBeNull();
+      expect(
+        inputsFromConfiguredPipeline({ config, dockerfilePaths: ['Dockerfile', 'api/Dockerfile'] })
+      ).toBeNull();
+    });
+  });
+
+  describe('pipeline drift', () => {
+    const remoteFiles: Record<string, { content: string; sha: string } | null> = {
+      '.github/workflows/deploy-to-aks.yml': { content: 'workflow-yaml\r\n', sha: 'w1' },
+      'deploy/kubernetes/deployment.yaml': { content: 'edited-yaml', sha: 'd1' },
+      'deploy/kubernetes/service.yaml': null,
+    };
+
+    beforeEach(() => {
+      mockGetFileWithSha.mockImplementation(
+        (_octokit: unknown, _owner: string, _repo: string, path: string) =>
+          Promise.resolve(remoteFiles[path])
+      );
+    });
+
+    it('compares regenerated files with the default branch', async () => {
+      const drift = await checkPipelineDrift(mockOctokit, baseFastPathConfig);
+
+      expect(drift.map(f => [f.path, f.status, f.sha])).toEqual([
+        ['.github/workflows/deploy-to-aks.yml', 'current', 'w1'],
+        ['deploy/kubernetes/deployment.yaml', 'modified', 'd1'],
+        ['deploy/kubernetes/service.yaml', 'missing', null],
+      ]);
+      expect(mockGetFileWithSha).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        'deploy/kubernetes/service.yaml',
+        'main'
+      );
+    });
+
+    it('opens an update PR with only the drifted files', async () => {
+      const drift = await checkPipelineDrift(mockOctokit, baseFastPathConfig);
+
+      const pr = await createPipelineUpdatePR(mockOctokit, baseFastPathConfig, drift);
+
+      expect(pr).toEqual({
+        url: 'https://github.com/testuser/my-repo/pull/10',
+        number: 10,
+        merged: false,
+      });
+      expect(mockCreateBranch).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        expect.stringContaining('aks-project/pipeline-update-my-app-'),
+        'sha123'
+      );
+      expect(mockCreateOrUpdateFile).toHaveBeenCalledTimes(2);
+      expect(mockCreateOrUpdateFile).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        'deploy/kubernetes/deployment.yaml',
+        'deployment-yaml',
+        expect.stringContaining('Update'),
+        expect.any(String),
+        'd1'
+      );
+      expect(mockCreateOrUpdateFile).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        'deploy/kubernetes/service.yaml',
+        'service-yaml',
+        expect.stringContaining('Restore'),
+        expect.any(String),
+        undefined
+      );
+    });
+
+    it('refuses to open a PR when nothing drifted', async () => {
+      const drift = (await checkPipelineDrift(mockOctokit, baseFastPathConfig)).map(f => ({
+        ...f,
+        status: 'current' as const,
+      }));
+
+      await expect(createPipelineUpdatePR(mockOctokit, baseFastPathConfig, drift)).rejects.toThrow(
+        /up to date/
+      );
+      expect(mockCreateBranch).not.toHaveBeenCalled();
+    });
+
+    it('deletes the branch when the update fails', async () => {
+      const drift = await checkPipelineDrift(mockOctokit, baseFastPathConfig);
+      mockCreatePullRequest.mockRejectedValue(new Error('boom'));
+
+      await expect(createPipelineUpdatePR(mockOctokit, baseFastPathConfig, drift)).rejects.toThrow(
+        'boom'
+      );
+      expect(mockDeleteBranch).toHaveBeenCalledWith(
+        mockOctokit,
+        'testuser',
+        'my-repo',
+        expect.stringContaining('aks-project/pipeline-update-')
+      );
+    });
+  });
 });
@@ -2,13 +2,22 @@
 // Licensed under the Apache 2.0.
 
 import type { Octokit } from '@octokit/rest';
+import { getClusterCapabilities, getClusterInfo } from '../../../utils/azure/az-clusters';
+import { createEnvironmentFederatedCredential } from '../../../utils/azure/az-federation';
+import {
+  assignRolesToIdentity,
+  getManagedNamespaceResourceId,
+} from '../../../utils/azure/az-identity';
+import { computeRequiredRoles } from '../../../utils/azure/identityRoles';
 import {
   createBranch,
   createCopilotAssignedIssue,
+  createOrUpdateEnvironment,
   createOrUpdateFile,
   createPullRequest,
   deleteBranch,
   getDefaultBranchSha,
+  getFileWithSha,
 } from '../../../utils/github/github-api';
 import type { ContainerConfig } from '../../DeployWizard/hooks/useContainerConfiguration';
 import {
@@ -16,7 +25,10 @@ import {
   COPILOT_SETUP_STEPS_PATH,
   MANIFESTS_DIR,
   PIPELINE_WORKFLOW_FILENAME,
+  ROLLOUT_APPROVAL_ENVIRONMENT,
 } from '../constants';
+import { deriveBuildContext } from '../hooks/useDockerfileDiscovery';
+import { ensurePipelineRoleBinding } from '../hooks/useWorkloadIdentitySetup';
 import type { PipelineConfig, PRTracking } from '../types';
 import { pushAgentConfigFiles, sanitizeAppNameForBranch } from './agentTemplates';
 import { deriveAcrName } from './deriveAcrName';
@@ -25,7 +37,9 @@ import {
   generateDeployWorkflow,
   generateServiceManifest,
   type ManifestConfig,
+  type WorkflowEnvironment,
 } from './fastPathTemplates';
+import type { ConfiguredPipeline } from './pipelineStorage';
 
 const GH_OWNER_REPO_RE = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
 const GH_BRANCH_RE = /^[A-Za-z0-9][A-Za-z0-9._/-]*$/;
@@ -47,7 +61,8 @@ function assertSafeRepoRef(owner: string, repo: string, defaultBranch: string):
   }
 }
 
-export interface FastPathPRConfig {
+/** Everything the generated workflow and manifests are derived from. */
+export interface PipelineFileInputs {
   /** Validated cluster, namespace, ACR, and GitHub repo metadata for the target app. */
   pipelineConfig: PipelineConfig;
   /** Repo-relative path to the selected Dockerfile (e.g. `src/web/Dockerfile`). */
@@ -56,10 +71,80 @@ export interface FastPathPRConfig {
   buildContextPath: string;
   /** Container-level resource/probe/security settings the generated manifests inherit. */
   containerConfig: ContainerConfig;
+  /** Ordered promotion stages, from {@link resolveWorkflowEnvironments}. Omit for a single target. */
+  environments?: WorkflowEnvironment[];
+}
+
+export interface FastPathPRConfig extends PipelineFileInputs {
   /** When true, also pushes Copilot agent config files for async review. */
   withAsyncAgent?: boolean;
 }
 
+/** A file the fast path writes to the repo. */
+export interface GeneratedFile {
+  /** Repo-relative path. */
+  path: string;
+  /** What the file is, for commit messages (e.g. `AKS deploy workflow`). */
+  description: string;
+  content: string;
+}
+
+/**
+ * Generates the deploy workflow and Kubernetes manifests for a pipeline.
+ * Deterministic, so regenerating from the same inputs reproduces the files
+ * of the original setup PR.
+ */
+export function generatePipelineFiles(inputs: PipelineFileInputs): GeneratedFile[] {
+  const {
+    pipelineConfig,
+    dockerfilePath,
+    buildContextPath,
+    containerConfig,
+    environments = [],
+  } = inputs;
+  const { owner, repo, defaultBranch } = pipelineConfig.repo;
+  const acrName = deriveAcrName(pipelineConfig);
+
+  const workflowYaml = generateDeployWorkflow({
+    appName: pipelineConfig.appName,
+    clusterName: pipelineConfig.clusterName,
+    resourceGroup: pipelineConfig.resourceGroup,
+    namespace: pipelineConfig.namespace,
+    acrName,
+    dockerfilePath,
+    buildContextPath,
+    defaultBranch,
+    environments,
+    strategy: pipelineConfig.strategy,
+  });
+
+  const manifestConfig: ManifestConfig = {
+    appName: pipelineConfig.appName,
+    namespace: environments.length > 0 ? undefined : pipelineConfig.namespace,
+    acrName,
+    repo: { owner, name: repo },
+    strategy: pipelineConfig.strategy?.type,
+  };
+
+  return [
+    {
+      path: `.github/workflows/${PIPELINE_WORKFLOW_FILENAME}`,
+      description: 'AKS deploy workflow',
+      content: workflowYaml,
+    },
+    {
+      path: `${MANIFESTS_DIR}/deployment.yaml`,
+      description: 'Kubernetes deployment manifest',
+      content: generateDeploymentManifest(manifestConfig, containerConfig),
+    },
+    {
+      path: `${MANIFESTS_DIR}/service.yaml`,
+      description: 'Kubernetes service manifest',
+      content: generateServiceManifest(manifestConfig, containerConfig),
+    },
+  ];
+}
+
 /**
  * Creates a single PR containing the deploy workflow + K8s manifests.
  * On failure, attempts to clean up the created branch.
@@ -68,74 +153,49 @@ export async function createFastPathPR(
   octokit: Octokit,
   config: FastPathPRConfig
 ): Promise<PRTracking> {
-  const { pipelineConfig, dockerfilePath, buildContextPath, containerConfig, withAsyncAgent } =
-    config;
+  const { pipelineConfig, dockerfilePath, withAsyncAgent, environments = [] } = config;
   const { owner, repo, defaultBranch } = pipelineConfig.repo;
   assertSafeRepoRef(owner, repo, defaultBranch);
   const branchName = `aks-project/fast-path-${sanitizeAppNameForBranch(
     pipelineConfig.appName
   )}-${Date.now()}`;
-  const acrName = deriveAcrName(pipelineConfig);
 
   const sha = await getDefaultBranchSha(octokit, owner, repo, defaultBranch);
   await createBranch(octokit, owner, repo, branchName, sha);
 
   try {
-    const workflowYaml = generateDeployWorkflow({
-      appName: pipelineConfig.appName,
-      clusterName: pipelineConfig.clusterName,
-      resourceGroup: pipelineConfig.resourceGroup,
-      namespace: pipelineConfig.namespace,
-      acrName,
-      dockerfilePath,
-      buildContextPath,
-      defaultBranch,
-    });
+    const files = generatePipelineFiles(config);
 
-    const manifestConfig: ManifestConfig = {
-      appName: pipelineConfig.appName,
-      namespace: pipelineConfig.namespace,
-      acrName,
-      repo: { owner, name: repo },
-    };
-
-    const deploymentYaml = generateDeploymentManifest(manifestConfig, containerConfig);
-    const serviceYaml = generateServiceManifest(manifestConfig, containerConfig);
-
-    await Promise.all([
-      createOrUpdateFile(
-        octokit,
-        owner,
-        repo,
-        `.github/workflows/${PIPELINE_WORKFLOW_FILENAME}`,
-        workflowYaml,
-        `Add AKS deploy workflow for ${pipelineConfig.appName}`,
-        branchName
-      ),
-      createOrUpdateFile(
-        octokit,
-        owner,
-        repo,
-        `${MANIFESTS_DIR}/deployment.yaml`,
-        deploymentYaml,
-        `Add Kubernetes deployment manifest for ${pipelineConfig.appName}`,
-        branchName
-      ),
-      createOrUpdateFile(
-        octokit,
-        owner,
-        repo,
-        `${MANIFESTS_DIR}/service.yaml`,
-        serviceYaml,
-        `Add Kubernetes service manifest for ${pipelineConfig.appName}`,
-        branchName
-      ),
-    ]);
+    await Promise.all(
+      files.map(file =>
+        createOrUpdateFile(
+          octokit,
+          owner,
+          repo,
+          file.path,
+          file.content,
+          `Add ${file.description} for ${pipelineConfig.appName}`,
+          branchName
+        )
+      )
+    );
 
     if (withAsyncAgent) {
       await pushAgentConfigFiles(octokit, owner, repo, branchName, pipelineConfig);
     }
 
+    const strategy = pipelineConfig.strategy;
+    const strategyDescription =
+      strategy?.type === 'canary'
+        ? `canary at ${strategy.canarySteps
+            .map(step => `${step}%`)
+            .join(
+              ' → '
+            )}, then promote; later steps and the promotion are approved in the \`${ROLLOUT_APPROVAL_ENVIRONMENT}\` environment`
+        : strategy?.type === 'blue-green'
+        ? `blue/green; promotion is approved in the \`${ROLLOUT_APPROVAL_ENVIRONMENT}\` environment`
+        : null;
+
     const pr = await createPullRequest(
       octokit,
       owner,
@@ -158,10 +218,21 @@ export async function createFastPathPR(
           : []),
         '',
         '### AKS Configuration',
-        `- **Cluster**: ${pipelineConfig.clusterName}`,
-        `- **Resource Group**: ${pipelineConfig.resourceGroup}`,
-        `- **Namespace**: ${pipelineConfig.namespace}`,
+        ...(environments.length > 0
+          ? [
+              '- **Environments** (promoted in order):',
+              ...environments.map(
+                ({ name, clusterName, namespace, resourceGroup }, i) =>
+                  `  ${i + 1}. **${name}** — ${clusterName} / ${namespace} (${resourceGroup})`
+              ),
+            ]
+          : [
+              `- **Cluster**: ${pipelineConfig.clusterName}`,
+              `- **Resource Group**: ${pipelineConfig.resourceGroup}`,
+              `- **Namespace**: ${pipelineConfig.namespace}`,
+            ]),
         `- **Dockerfile**: ${dockerfilePath}`,
+        ...(strategyDescription ? [`- **Rollout**: ${strategyDescription}`] : []),
         '',
         '---',
         '_Created by AKS Desktop (Fast Path)_',
@@ -181,6 +252,340 @@ export async function createFastPathPR(
   }
 }
 
+/** How a generated file on the default branch compares with a fresh generation. */
+export type FileDriftStatus = 'current' | 'modified' | 'missing';
+
+export interface FileDrift extends GeneratedFile {
+  status: FileDriftStatus;
+  /** Content on the default branch, or null when the file is missing. */
+  actual: string | null;
+  /** Blob SHA on the default branch, needed to replace the file. */
+  sha: string | null;
+}
+
+/** Line endings and trailing whitespace don't count as drift. */
+function normalizeFileContent(text: string): string {
+  return text.replace(/\r\n/g, '\n').trimEnd();
+}
+
+/**
+ * Regenerates the pipeline files and compares them with the repo's default
+ * branch. Files differ when the templates changed since setup (e.g. new
+ * pinned action SHAs) or when someone edited them in the repo.
+ */
+export async function checkPipelineDrift(
+  octokit: Octokit,
+  inputs: PipelineFileInputs
+): Promise<FileDrift[]> {
+  const { owner, repo, defaultBranch } = inputs.pipelineConfig.repo;
+  assertSafeRepoRef(owner, repo, defaultBranch);
+
+  return Promise.all(
+    generatePipelineFiles(inputs).map(async file => {
+      const existing = await getFileWithSha(octokit, owner, repo, file.path, defaultBranch);
+      const status: FileDriftStatus = !existing
+        ? 'missing'
+        : normalizeFileContent(existing.content) === normalizeFileContent(file.content)
+        ? 'current'
+        : 'modified';
+      return { ...file, status, actual: existing?.content ?? null, sha: existing?.sha ?? null };
+    })
+  );
+}
+
+/**
+ * Opens a PR that brings drifted pipeline files back to their generated
+ * content. Files that are current are left out. On failure, attempts to
+ * clean up the created branch.
+ */
+export async function createPipelineUpdatePR(
+  octokit: Octokit,
+  inputs: PipelineFileInputs,
+  drift: FileDrift[]
+): Promise<PRTracking> {
+  const { pipelineConfig } = inputs;
+  const { owner, repo, defaultBranch } = pipelineConfig.repo;
+  assertSafeRepoRef(owner, repo, defaultBranch);
+  const changed = drift.filter(file => file.status !== 'current');
+  if (changed.length === 0) {
+    throw new Error('The pipeline files are already up to date.');
+  }
+  const branchName = `aks-project/pipeline-update-${sanitizeAppNameForBranch(
+    pipelineConfig.appName
+  )}-${Date.now()}`;
+
+  const sha = await getDefaultBranchSha(octokit, owner, repo, defaultBranch);
+  await createBranch(octokit, owner, repo, branchName, sha);
+
+  try {
+    await Promise.all(
+      changed.map(file =>
+        createOrUpdateFile(
+          octokit,
+          owner,
+          repo,
+          file.path,
+          file.content,
+          `${file.status === 'missing' ? 'Restore' : 'Update'} ${file.description} for ${
+            pipelineConfig.appName
+          }`,
+          branchName,
+          file.sha ?? undefined
+        )
+      )
+    );
+
+    const pr = await createPullRequest(
+      octokit,
+      owner,
+      repo,
+      `Update AKS pipeline files for ${pipelineConfig.appName}`,
+      [
+        '## AKS Desktop — Pipeline Update',
+        '',
+        'These files no longer match what AKS Desktop generates for this pipeline.',
+        'Merging this PR regenerates them; edits made to them in the repo are replaced.',
+        '',
+        '### Files',
+        ...changed.map(
+          file => `- \`${file.path}\` — ${file.status === 'missing' ? 'restored' : 'updated'}`
+        ),
+        '',
+        '---',
+        '_Created by AKS Desktop_',
+      ].join('\n'),
+      branchName,
+      defaultBranch
+    );
+
+    return { url: pr.url, number: pr.number, merged: false };
+  } catch (err) {
+    try {
+      await deleteBranch(octokit, owner, repo, branchName);
+    } catch (cleanupErr) {
+      console.warn(`Failed to clean up branch ${branchName}:`, cleanupErr);
+    }
+    throw err;
+  }
+}
+
+/**
+ * Resolves the resource group of each promotion stage's cluster. Stages on the
+ * pipeline's own cluster reuse its resource group; other clusters are looked up.
+ */
+export async function resolveWorkflowEnvironments(
+  pipelineConfig: PipelineConfig
+): Promise<WorkflowEnvironment[]> {
+  const resourceGroups = new Map<string, string>([
+    [pipelineConfig.clusterName, pipelineConfig.resourceGroup],
+  ]);
+  const resolved: WorkflowEnvironment[] = [];
+  for (const env of pipelineConfig.environments ?? []) {
+    let resourceGroup = resourceGroups.get(env.clusterName);
+    if (!resourceGroup) {
+      resourceGroup = (await getClusterInfo(env.clusterName)).resourceGroup;
+      if (!resourceGroup) {
+        throw new Error(`Could not find the resource group of cluster ${env.clusterName}`);
+      }
+      resourceGroups.set(env.clusterName, resourceGroup);
+    }
+    resolved.push({
+      name: env.name,
+      clusterName: env.clusterName,
+      resourceGroup,
+      namespace: env.namespace,
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Rebuilds the generation inputs of a pipeline from the config its wizard
+ * state recorded, for pipelines set up before the inputs were saved. Returns
+ * null when the config cannot tell them: no container config, not exactly
+ * one Dockerfile to have built from, or a stage on another cluster, whose
+ * resource group is not recorded. A build context edited in the wizard is
+ * not recorded, so the one derived from the Dockerfile path is assumed.
+ */
+export function inputsFromConfiguredPipeline({
+  config,
+  dockerfilePaths,
+}: ConfiguredPipeline): PipelineFileInputs | null {
+  if (!config.containerConfig || dockerfilePaths.length !== 1) return null;
+  const stages = config.environments ?? [];
+  if (stages.some(env => env.clusterName !== config.clusterName)) return null;
+  return {
+    pipelineConfig: config,
+    dockerfilePath: dockerfilePaths[0],
+    buildContextPath: deriveBuildContext(dockerfilePaths[0]),
+    containerConfig: config.containerConfig,
+    environments: stages.map(env => ({
+      name: env.name,
+      clusterName: env.clusterName,
+      resourceGroup: config.resourceGroup,
+      namespace: env.namespace,
+    })),
+  };
+}
+
+/** Managed identity the generated workflow logs in as. */
+export interface PipelineIdentity {
+  identityName: string;
+  identityResourceGroup: string;
+  /** Object ID of the identity, the principal roles and RoleBindings are granted to. */
+  principalId: string;
+}
+
+/**
+ * Grants the pipeline identity the access to a stage's namespace that workload
+ * identity setup grants it to the pipeline namespace: the Azure roles for the
+ * namespace, plus the `edit` RoleBinding on managed namespaces of clusters
+ * without Azure RBAC.
+ */
+async function grantStageNamespaceAccess(
+  subscriptionId: string,
+  identity: PipelineIdentity,
+  stage: WorkflowEnvironment,
+  azureRbacEnabled: boolean | undefined
+): Promise<void> {
+  const { clusterName, resourceGroup, namespace } = stage;
+  const nsResult = await getManagedNamespaceResourceId({
+    clusterName,
+    resourceGroup,
+    namespaceName: namespace,
+    subscriptionId,
+  });
+  if (!nsResult.success) {
+    throw new Error(
+      nsResult.error ?? `Failed to check whether ${namespace} is a managed namespace`
+    );
+  }
+  const managedNamespaceResourceId = nsResult.resourceId;
+  const roles = managedNamespaceResourceId
+    ? computeRequiredRoles({
+        subscriptionId,
+        resourceGroup,
+        clusterName,
+        isManagedNamespace: true,
+        managedNamespaceResourceId,
+      })
+    : computeRequiredRoles({
+        subscriptionId,
+        resourceGroup,
+        clusterName,
+        isManagedNamespace: false,
+        azureRbacEnabled,
+      });
+  const roleResult = await assignRolesToIdentity({
+    principalId: identity.principalId,
+    subscriptionId,
+    roles,
+  });
+  if (!roleResult.success) {
+    const detail =
+      roleResult.error ??
+      roleResult.results
+        .filter(r => !r.success)
+        .map(r => `${r.role}: ${r.error}`)
+        .join('; ');
+    throw new Error(
+      `Failed to grant the pipeline identity access to ${clusterName}/${namespace}: ${detail}`
+    );
+  }
+  if (managedNamespaceResourceId && azureRbacEnabled === false) {
+    await ensurePipelineRoleBinding({
+      clusterName,
+      namespace,
+      principalId: identity.principalId,
+      identityName: identity.identityName,
+    });
+  }
+}
+
+/**
+ * Creates the GitHub environments of a promotion pipeline with their required
+ * reviewers, and lets jobs running in each environment log in as the pipeline
+ * identity. Workload identity setup only grants the identity access to the
+ * pipeline's own namespace, so every other stage cluster and namespace is
+ * granted the same access.
+ *
+ * @param stages - The config's environments with their cluster resource groups,
+ *   from {@link resolveWorkflowEnvironments}.
+ * @param azureRbacEnabled - Whether Azure RBAC for Kubernetes is enabled on the
+ *   pipeline cluster. Other stage clusters are looked up.
+ */
+export async function setupPromotionEnvironments(
+  octokit: Octokit,
+  pipelineConfig: PipelineConfig,
+  identity: PipelineIdentity,
+  stages: WorkflowEnvironment[],
+  azureRbacEnabled?: boolean
+): Promise<void> {
+  const { owner, repo } = pipelineConfig.repo;
+  const { subscriptionId } = pipelineConfig;
+  const rbacByCluster = new Map<string, boolean | undefined>([
+    [pipelineConfig.clusterName, azureRbacEnabled],
+  ]);
+  const granted = new Set([`${pipelineConfig.clusterName}/${pipelineConfig.namespace}`]);
+  for (const stage of stages) {
+    const key = `${stage.clusterName}/${stage.namespace}`;
+    if (granted.has(key)) continue;
+    granted.add(key);
+    if (!rbacByCluster.has(stage.clusterName)) {
+      const caps = await getClusterCapabilities({
+        subscriptionId,
+        resourceGroup: stage.resourceGroup,
+        clusterName: stage.clusterName,
+      });
+      rbacByCluster.set(stage.clusterName, caps.azureRbacEnabled ?? undefined);
+    }
+    await grantStageNamespaceAccess(
+      subscriptionId,
+      identity,
+      stage,
+      rbacByCluster.get(stage.clusterName)
+    );
+  }
+  for (const env of pipelineConfig.environments ?? []) {
+    await createOrUpdateEnvironment(octokit, owner, repo, env.name, env.reviewers);
+    const credResult = await createEnvironmentFederatedCredential({
+      identityName: identity.identityName,
+      resourceGroup: identity.identityResourceGroup,
+      subscriptionId,
+      repoOwner: owner,
+      repoName: repo,
+      environment: env.name,
+    });
+    if (!credResult.success) {
+      throw new Error(
+        credResult.error ?? `Failed to create federated credential for environment ${env.name}`
+      );
+    }
+  }
+}
+
+/**
+ * Creates the GitHub environment canary and blue/green rollouts pause in, with
+ * the strategy's approvers as required reviewers. Does nothing for rolling updates.
+ * The gate jobs in this environment never log in to Azure, so no federated
+ * credential is needed for it.
+ */
+export async function setupRolloutApproval(
+  octokit: Octokit,
+  pipelineConfig: PipelineConfig
+): Promise<void> {
+  const strategy = pipelineConfig.strategy;
+  if (!strategy || strategy.type === 'rolling') return;
+  const { owner, repo } = pipelineConfig.repo;
+  await createOrUpdateEnvironment(
+    octokit,
+    owner,
+    repo,
+    ROLLOUT_APPROVAL_ENVIRONMENT,
+    strategy.approvers
+  );
+}
+
 export interface AsyncAgentReviewConfig {
   /** GitHub repo owner. */
   owner: string;
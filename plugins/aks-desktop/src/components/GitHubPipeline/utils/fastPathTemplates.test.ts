@@ -1,10 +1,13 @@
 import { describe, expect, it } from 'vitest';
 import YAML from 'yaml';
+import { createAdditionalContainer } from '../../DeployWizard/hooks/useContainerConfiguration';
 import { createContainerConfig } from '../__fixtures__/pipelineConfig';
 import {
+  firstDeployJobName,
   generateDeploymentManifest,
   generateDeployWorkflow,
   generateServiceManifest,
+  parsePromotionEnvironments,
 } from './fastPathTemplates';
 
 const baseConfig = {
@@ -127,6 +130,11 @@ describe('generateDeployWorkflow', () => {
     expect(output).not.toContain('deployment --all');
   });
 
+  it('should record the deployed commit on the deployment', () => {
+    const output = generateDeployWorkflow(baseConfig);
+    expect(output).toContain('aks-project/pipeline-commit=${{ github.sha }}');
+  });
+
   it('should normalize appName to DNS-1123 for CONTAINER_NAME', () => {
     const output = generateDeployWorkflow({ ...baseConfig, appName: 'My_App_v2' });
     const parsed = YAML.parse(output);
@@ -155,6 +163,189 @@ describe('generateDeployWorkflow', () => {
       /no alphanumeric characters/
     );
   });
+
+  describe('with promotion environments', () => {
+    const environments = [
+      { name: 'dev', clusterName: 'aks-dev', resourceGroup: 'rg-dev', namespace: 'demo-dev' },
+      { name: 'prod', clusterName: 'aks-prod', resourceGroup: 'rg-prod', namespace: 'demo' },
+    ];
+
+    it('should deploy the built digest to each environment in order', () => {
+      const parsed = YAML.parse(generateDeployWorkflow({ ...baseConfig, environments }));
+
+      expect(Object.keys(parsed.jobs)).toEqual(['buildImage', 'deploy-dev', 'deploy-prod']);
+      expect(parsed.jobs.buildImage.outputs.imageDigest).toBe('${{ steps.digest.outputs.digest }}');
+      expect(parsed.jobs['deploy-dev'].needs).toEqual(['buildImage']);
+      expect(parsed.jobs['deploy-prod'].needs).toEqual(['buildImage', 'deploy-dev']);
+      expect(parsed.jobs['deploy-prod'].environment).toBe('prod');
+      expect(parsed.jobs['deploy-dev'].env).toEqual({
+        CLUSTER_NAME: 'aks-dev',
+        CLUSTER_RESOURCE_GROUP: 'rg-dev',
+        NAMESPACE: 'demo-dev',
+      });
+
+      const deployStep = parsed.jobs['deploy-prod'].steps.find((s: { uses?: string }) =>
+        s.uses?.startsWith('Azure/k8s-deploy')
+      );
+      expect(deployStep.with.images).toContain('@${{ needs.buildImage.outputs.imageDigest }}');
+    });
+
+    it('should keep cluster settings out of the workflow-level env', () => {
+      const parsed = YAML.parse(generateDeployWorkflow({ ...baseConfig, environments }));
+      expect(parsed.env.CLUSTER_NAME).toBeUndefined();
+      expect(parsed.env.NAMESPACE).toBeUndefined();
+    });
+
+    it('should not emit YAML aliases for shared steps', () => {
+      const output = generateDeployWorkflow({ ...baseConfig, environments });
+      expect(output).not.toMatch(/[&*]a\d+/);
+    });
+
+    it('should throw on environment names that collide as job ids', () => {
+      expect(() =>
+        generateDeployWorkflow({
+          ...baseConfig,
+          environments: [environments[0], { ...environments[1], name: 'Dev' }],
+        })
+      ).toThrow();
+    });
+  });
+});
+
+describe('generateDeployWorkflow with a rollout strategy', () => {
+  const canary = { type: 'canary' as const, canarySteps: [20, 50], approvers: ['alice'] };
+  const blueGreen = { type: 'blue-green' as const, canarySteps: [], approvers: ['alice'] };
+  const deployStep = (job: { steps: Array<{ uses?: string; with?: any }> }) =>
+    job.steps.find(s => s.uses?.startsWith('Azure/k8s-deploy'));
+
+  it('should gate each canary step and the promotion on approval', () => {
+    const parsed = YAML.parse(generateDeployWorkflow({ ...baseConfig, strategy: canary }));
+
+    expect(Object.keys(parsed.jobs)).toEqual([
+      'buildImage',
+      'deploy',
+      'approve-canary-50',
+      'canary-50',
+      'approve-promote',
+      'promote',
+      'reject',
+    ]);
+    expect(deployStep(parsed.jobs.deploy).with).toMatchObject({
+      strategy: 'canary',
+      'traffic-split-method': 'pod',
+      percentage: 20,
+      action: 'deploy',
+    });
+    expect(deployStep(parsed.jobs['canary-50']).with.percentage).toBe(50);
+    expect(parsed.jobs['approve-promote'].environment).toBe('rollout-approval');
+    expect(parsed.jobs['approve-promote'].needs).toEqual(['canary-50']);
+    expect(deployStep(parsed.jobs.promote).with.action).toBe('promote');
+    expect(deployStep(parsed.jobs.reject).with.action).toBe('reject');
+    expect(parsed.jobs.reject.if).toContain('failure()');
+  });
+
+  it('should only annotate the deployment on promotion', () => {
+    const parsed = YAML.parse(generateDeployWorkflow({ ...baseConfig, strategy: canary }));
+    const annotates = (job: string) =>
+      parsed.jobs[job].steps.some((s: { name?: string }) => s.name === 'Annotate deployment');
+
+    expect(annotates('deploy')).toBe(false);
+    expect(annotates('reject')).toBe(false);
+    expect(annotates('promote')).toBe(true);
+  });
+
+  it('should switch blue/green traffic through the service', () => {
+    const parsed = YAML.parse(generateDeployWorkflow({ ...baseConfig, strategy: blueGreen }));
+
+    expect(Object.keys(parsed.jobs)).toEqual([
+      'buildImage',
+      'deploy',
+      'approve-promote',
+      'promote',
+      'reject',
+    ]);
+    expect(deployStep(parsed.jobs.deploy).with).toMatchObject({
+      strategy: 'blue-green',
+      'route-method': 'service',
+    });
+  });
+
+  it('should leave rolling workflows unchanged', () => {
+    expect(
+      generateDeployWorkflow({
+        ...baseConfig,
+        strategy: { type: 'rolling', canarySteps: [], approvers: [] },
+      })
+    ).toBe(generateDeployWorkflow(baseConfig));
+  });
+
+  it('should not emit YAML aliases for shared steps', () => {
+    expect(generateDeployWorkflow({ ...baseConfig, strategy: canary })).not.toMatch(/[&*]a\d+/);
+  });
+
+  it('should throw on an invalid canary schedule', () => {
+    expect(() =>
+      generateDeployWorkflow({ ...baseConfig, strategy: { ...canary, canarySteps: [50, 20] } })
+    ).toThrow();
+  });
+
+  it('should throw when combined with promotion environments', () => {
+    expect(() =>
+      generateDeployWorkflow({
+        ...baseConfig,
+        strategy: canary,
+        environments: [{ name: 'dev', clusterName: 'a', resourceGroup: 'rg', namespace: 'ns' }],
+      })
+    ).toThrow();
+  });
+});
+
+describe('firstDeployJobName', () => {
+  it('should match the name of the first deploy job in the generated workflow', () => {
+    const environments = [
+      { name: 'dev', clusterName: 'aks-prod', resourceGroup: 'rg-prod', namespace: 'dev' },
+      { name: 'prod', clusterName: 'aks-prod', resourceGroup: 'rg-prod', namespace: 'prod' },
+    ];
+    const canary = { type: 'canary' as const, canarySteps: [20, 50], approvers: [] };
+    const blueGreen = { type: 'blue-green' as const, canarySteps: [], approvers: [] };
+
+    const promotion = YAML.parse(generateDeployWorkflow({ ...baseConfig, environments }));
+    expect(firstDeployJobName({ environments })).toBe(promotion.jobs['deploy-dev'].name);
+    for (const strategy of [canary, blueGreen]) {
+      const parsed = YAML.parse(generateDeployWorkflow({ ...baseConfig, strategy }));
+      expect(firstDeployJobName({ strategy })).toBe(parsed.jobs.deploy.name);
+    }
+    expect(firstDeployJobName({})).toBe('deploy');
+  });
+});
+
+describe('parsePromotionEnvironments', () => {
+  it('should return environment names in job order', () => {
+    const output = generateDeployWorkflow({
+      ...baseConfig,
+      environments: [
+        { name: 'staging', clusterName: 'a', resourceGroup: 'rg', namespace: 'ns' },
+        { name: 'prod', clusterName: 'b', resourceGroup: 'rg', namespace: 'ns' },
+      ],
+    });
+    expect(parsePromotionEnvironments(output)).toEqual(['staging', 'prod']);
+  });
+
+  it('should return an empty list for a single-target workflow', () => {
+    expect(parsePromotionEnvironments(generateDeployWorkflow(baseConfig))).toEqual([]);
+  });
+
+  it('should ignore the rollout approval gate', () => {
+    const output = generateDeployWorkflow({
+      ...baseConfig,
+      strategy: { type: 'blue-green', canarySteps: [], approvers: ['alice'] },
+    });
+    expect(parsePromotionEnvironments(output)).toEqual([]);
+  });
+
+  it('should return an empty list for invalid YAML', () => {
+    expect(parsePromotionEnvironments('jobs: [')).toEqual([]);
+  });
 });
 
 const baseManifestConfig = {
@@ -205,6 +396,14 @@ describe('generateDeploymentManifest', () => {
     expect(parsed.spec.template.spec.containers[0].ports).toEqual([{ containerPort: 3000 }]);
   });
 
+  it('should omit the namespace when none is given', () => {
+    const output = generateDeploymentManifest(
+      { ...baseManifestConfig, namespace: undefined },
+      baseContainerConfig
+    );
+    expect(YAML.parse(output).metadata).not.toHaveProperty('namespace');
+  });
+
   it('should include pipeline annotations', () => {
     const output = generateDeploymentManifest(baseManifestConfig, baseContainerConfig);
     const parsed = YAML.parse(output);
@@ -370,6 +569,45 @@ describe('generateDeploymentManifest', () => {
       generateDeploymentManifest({ ...baseManifestConfig, appName: '___###' }, baseContainerConfig)
     ).toThrow(/no alphanumeric characters/);
   });
+
+  it('should emit init containers and sidecars with their own images', () => {
+    const output = generateDeploymentManifest(baseManifestConfig, {
+      ...baseContainerConfig,
+      initContainers: [createAdditionalContainer({ name: 'migrate', image: 'flyway/flyway:10' })],
+      sidecarContainers: [
+        createAdditionalContainer({
+          name: 'log-shipper',
+          image: 'fluent/fluent-bit:3.0',
+          envVars: [
+            { key: 'LOG_LEVEL', value: 'info', isSecret: false },
+            { key: 'API_KEY', value: 'do-not-commit', isSecret: true },
+          ],
+        }),
+      ],
+    });
+    const podSpec = YAML.parse(output).spec.template.spec;
+
+    expect(podSpec.initContainers).toHaveLength(1);
+    expect(podSpec.initContainers[0].image).toBe('flyway/flyway:10');
+    expect(podSpec.containers).toHaveLength(2);
+    expect(podSpec.containers[0].image).toBe('acrprod.azurecr.io/contoso-air:latest');
+    expect(podSpec.containers[1].image).toBe('fluent/fluent-bit:3.0');
+    expect(podSpec.containers[1].env).toEqual([{ name: 'LOG_LEVEL', value: 'info' }]);
+    expect(output).not.toContain('do-not-commit');
+  });
+
+  it('should tolerate container configs persisted without additional containers', () => {
+    const legacy = { ...baseContainerConfig } as Partial<typeof baseContainerConfig>;
+    delete legacy.sidecarContainers;
+    delete legacy.initContainers;
+    const output = generateDeploymentManifest(
+      baseManifestConfig,
+      legacy as typeof baseContainerConfig
+    );
+    const podSpec = YAML.parse(output).spec.template.spec;
+    expect(podSpec.containers).toHaveLength(1);
+    expect(podSpec.initContainers).toBeUndefined();
+  });
 });
 
 describe('generateServiceManifest', () => {
@@ -389,6 +627,27 @@ describe('generateServiceManifest', () => {
     expect(parsed.spec.selector.app).toBe('contoso-air');
   });
 
+  it('should mark staged rollouts with the strategy annotation', () => {
+    const service = YAML.parse(
+      generateServiceManifest(
+        { ...baseManifestConfig, strategy: 'blue-green' },
+        baseContainerConfig
+      )
+    );
+    const deployment = YAML.parse(
+      generateDeploymentManifest({ ...baseManifestConfig, strategy: 'canary' }, baseContainerConfig)
+    );
+    expect(service.metadata.annotations['aks-project/deployment-strategy']).toBe('blue-green');
+    expect(deployment.metadata.annotations['aks-project/deployment-strategy']).toBe('canary');
+  });
+
+  it('should not annotate rolling updates', () => {
+    const service = YAML.parse(
+      generateServiceManifest({ ...baseManifestConfig, strategy: 'rolling' }, baseContainerConfig)
+    );
+    expect(service.metadata.annotations).toBeUndefined();
+  });
+
   it('should support LoadBalancer service type', () => {
     const output = generateServiceManifest(baseManifestConfig, {
       ...baseContainerConfig,
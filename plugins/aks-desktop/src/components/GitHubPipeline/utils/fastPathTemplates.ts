@@ -3,8 +3,28 @@
 
 import YAML, { Scalar } from 'yaml';
 import { normalizeK8sName } from '../../../utils/kubernetes/k8sNames';
-import type { ContainerConfig } from '../../DeployWizard/hooks/useContainerConfiguration';
+import type {
+  AdditionalContainerConfig,
+  ContainerConfig,
+} from '../../DeployWizard/hooks/useContainerConfiguration';
+import { buildAdditionalContainerSpec } from '../../DeployWizard/utils/additionalContainers';
+import { buildNodeSelector, buildTolerations } from '../../DeployWizard/utils/nodePlacement';
+import { ROLLOUT_APPROVAL_ENVIRONMENT } from '../constants';
+import type { DeploymentStrategy, DeploymentStrategyType } from '../types';
+import { isValidCanarySchedule } from './deploymentStrategy';
 import { getProbeConfigs, probeFieldName } from './probeHelpers';
+import { isValidEnvironmentName } from './promotionEnvironments';
+
+export interface WorkflowEnvironment {
+  /** GitHub environment name; the deploy job for this stage runs in it. */
+  name: string;
+  /** AKS cluster name for this stage. */
+  clusterName: string;
+  /** Resource group containing the stage's cluster. */
+  resourceGroup: string;
+  /** Kubernetes namespace for this stage. */
+  namespace: string;
+}
 
 export interface WorkflowConfig {
   /** App name used for the ACR image name and the `CONTAINER_NAME` env var. Must be a valid DNS-1123 label. */
@@ -28,8 +48,24 @@ export interface WorkflowConfig {
   buildContextPath: string;
   /** Default branch name used as the push trigger (e.g., `main`). */
   defaultBranch: string;
+  /**
+   * Ordered promotion stages. When non-empty, the cluster/namespace fields above are
+   * ignored and one deploy job per stage is emitted instead of the single `deploy` job.
+   */
+  environments?: WorkflowEnvironment[];
+  /**
+   * Rollout strategy. Canary and blue/green are only supported for single-target
+   * pipelines; omit for a rolling update.
+   */
+  strategy?: DeploymentStrategy;
 }
 
+/** Annotation recording the rollout strategy on generated Deployments and Services. */
+export const ANNOTATION_DEPLOYMENT_STRATEGY = 'aks-project/deployment-strategy';
+
+/** Job id of the build job; deploy jobs read the image digest from its outputs. */
+const BUILD_JOB_ID = 'buildImage';
+
 /**
  * Creates a YAML scalar with single-quote style.
  */
@@ -39,10 +75,242 @@ function singleQuoted(value: string): Scalar {
   return scalar;
 }
 
+/**
+ * Returns the workflow job id for a promotion stage, e.g. `deploy-staging`.
+ */
+export function promotionJobId(environmentName: string): string {
+  return `deploy-${normalizeK8sName(environmentName)}`;
+}
+
+/** Name of the job deploying a promotion stage, e.g. `Deploy to staging`. */
+function promotionJobName(environmentName: string): string {
+  return `Deploy to ${environmentName}`;
+}
+
+/** Name of the first deploy job of a canary or blue/green rollout. */
+function rolloutDeployJobName(strategy: DeploymentStrategy): string {
+  return strategy.type === 'canary'
+    ? `Deploy canary (${strategy.canarySteps[0]}%)`
+    : 'Deploy green';
+}
+
+/**
+ * Returns the name GitHub shows for the job that first deploys the image: the
+ * first promotion stage, the first canary or green deploy of a rollout, or the
+ * single deploy job of a rolling update.
+ */
+export function firstDeployJobName(config: {
+  environments?: { name: string }[];
+  strategy?: DeploymentStrategy;
+}): string {
+  const [firstEnvironment] = config.environments ?? [];
+  if (firstEnvironment) return promotionJobName(firstEnvironment.name);
+  if (config.strategy && config.strategy.type !== 'rolling') {
+    return rolloutDeployJobName(config.strategy);
+  }
+  return 'deploy';
+}
+
+// Step and permission objects are built fresh per use: YAML.stringify turns a
+// shared object reference into an anchor/alias pair, which is legal but unreadable.
+function checkoutStep(): Record<string, unknown> {
+  return { uses: 'actions/checkout@34e114876b0b11c390a56381ad16ebd13914f8d5 # v4.3.1' };
+}
+
+function azureLoginStep(): Record<string, unknown> {
+  return {
+    name: 'Azure login',
+    uses: 'azure/login@eec3c95657c1536435858eda1f3ff5437fee8474 # v2.3.0',
+    with: {
+      'client-id': '${{ secrets.AZURE_CLIENT_ID }}',
+      'tenant-id': '${{ secrets.AZURE_TENANT_ID }}',
+      'subscription-id': '${{ secrets.AZURE_SUBSCRIPTION_ID }}',
+    },
+  };
+}
+
+function deployPermissions(): Record<string, string> {
+  return {
+    actions: 'read',
+    contents: 'read',
+    'id-token': 'write',
+  };
+}
+
+interface DeployStepsOptions {
+  /** Extra deployment annotations (`key=value`, already shell-safe) for the annotate step. */
+  extraAnnotations?: string[];
+  /** Extra Azure/k8s-deploy inputs, e.g. the strategy and action of a rollout step. */
+  deployInputs?: Record<string, unknown>;
+  /**
+   * Whether to record the run on the stable Deployment. Off for steps that only
+   * touch canary or green copies, which would otherwise claim a commit that is
+   * not serving yet.
+   */
+  annotateDeployment?: boolean;
+}
+
+/**
+ * Steps shared by every deploy job: log in, get cluster credentials, deploy
+ * `image`, then annotate the namespace and deployment.
+ */
+function buildDeploySteps(
+  image: string,
+  { extraAnnotations = [], deployInputs = {}, annotateDeployment = true }: DeployStepsOptions = {}
+): unknown[] {
+  const annotations = [
+    'aks-project/pipeline-run-url=${{ github.server_url }}/${{ github.repository }}/actions/runs/${{ github.run_id }}',
+    '"aks-project/pipeline-workflow=${{ github.workflow }}"',
+    'aks-project/pipeline-commit=${{ github.sha }}',
+    ...extraAnnotations,
+  ];
+  const steps: unknown[] = [
+    checkoutStep(),
+    azureLoginStep(),
+    {
+      name: 'Set up kubelogin',
+      uses: 'azure/use-kubelogin@0ce7c36141aa27d4934872cf00b0120804c98a29 # v1.3',
+      with: {
+        'kubelogin-version': singleQuoted('v0.1.6'),
+      },
+    },
+    {
+      name: 'Get K8s context',
+      uses: 'azure/aks-set-context@c7eb093e5a5d47caa333f64974d5fd1cd4bf069d # v4.0.3',
+      with: {
+        'resource-group': '${{ env.CLUSTER_RESOURCE_GROUP }}',
+        'cluster-name': '${{ env.CLUSTER_NAME }}',
+        admin: singleQuoted('false'),
+        'use-kubelogin': singleQuoted('true'),
+      },
+    },
+    {
+      name: 'Deploy application',
+      uses: 'Azure/k8s-deploy@c8cfec839dc09896b3b8cc40cd13d04792680771 # v5.1.0',
+      with: {
+        action: 'deploy',
+        manifests: '${{ env.DEPLOYMENT_MANIFEST_PATH }}',
+        images: `${image}\n`,
+        namespace: '${{ env.NAMESPACE }}',
+        ...deployInputs,
+      },
+    },
+    {
+      name: 'Annotate namespace',
+      'continue-on-error': true,
+      run: 'kubectl annotate namespace "${{ env.NAMESPACE }}" \\\n  "aks-project/pipeline-repo=${{ github.repository }}" \\\n  --overwrite\n',
+    },
+  ];
+  if (annotateDeployment) {
+    steps.push({
+      name: 'Annotate deployment',
+      'continue-on-error': true,
+      run:
+        [
+          'kubectl annotate deployment "${{ env.CONTAINER_NAME }}"',
+          '-n "${{ env.NAMESPACE }}"',
+          ...annotations,
+          '--overwrite',
+        ].join(' \\\n  ') + '\n',
+    });
+  }
+  return steps;
+}
+
+/** A job that does nothing but wait for approval in the rollout approval environment. */
+function approvalJob(name: string, needs: string): Record<string, unknown> {
+  return {
+    name,
+    permissions: {},
+    'runs-on': 'ubuntu-latest',
+    needs: [needs],
+    environment: ROLLOUT_APPROVAL_ENVIRONMENT,
+    steps: [{ run: 'echo "Approved"' }],
+  };
+}
+
+/**
+ * Deploy jobs of a canary or blue/green rollout. The first job starts the new
+ * version next to the stable one: canary pods at the first percentage, or a
+ * green copy the Service is switched to. Each further canary step and the final
+ * promotion wait for approval. If a step fails or an approval is rejected, the
+ * reject job removes the canary or green copy and restores the stable version.
+ */
+function buildRolloutJobs(strategy: DeploymentStrategy, image: string): Record<string, unknown> {
+  const strategyInputs =
+    strategy.type === 'canary'
+      ? { strategy: 'canary', 'traffic-split-method': 'pod' }
+      : { strategy: 'blue-green', 'route-method': 'service' };
+  const rolloutJob = (name: string, needs: string, deployInputs: Record<string, unknown>) => ({
+    name,
+    permissions: deployPermissions(),
+    'runs-on': 'ubuntu-latest',
+    needs: [needs],
+    steps: buildDeploySteps(image, {
+      deployInputs: { ...strategyInputs, ...deployInputs },
+      annotateDeployment: deployInputs.action === 'promote',
+    }),
+  });
+
+  const jobs: Record<string, unknown> = {};
+  if (strategy.type === 'canary') {
+    const [firstStep, ...laterSteps] = strategy.canarySteps;
+    jobs.deploy = rolloutJob(rolloutDeployJobName(strategy), BUILD_JOB_ID, {
+      action: 'deploy',
+      percentage: firstStep,
+    });
+    let previousJobId = 'deploy';
+    for (const step of laterSteps) {
+      jobs[`approve-canary-${step}`] = approvalJob(`Approve canary at ${step}%`, previousJobId);
+      jobs[`canary-${step}`] = rolloutJob(`Canary ${step}%`, `approve-canary-${step}`, {
+        action: 'deploy',
+        percentage: step,
+      });
+      previousJobId = `canary-${step}`;
+    }
+    jobs['approve-promote'] = approvalJob('Approve promotion', previousJobId);
+  } else {
+    jobs.deploy = rolloutJob(rolloutDeployJobName(strategy), BUILD_JOB_ID, { action: 'deploy' });
+    jobs['approve-promote'] = approvalJob('Approve promotion', 'deploy');
+  }
+  jobs.promote = rolloutJob('Promote', 'approve-promote', { action: 'promote' });
+
+  const reject = rolloutJob('Reject', 'promote', { action: 'reject' });
+  reject.needs = Object.keys(jobs);
+  jobs.reject = {
+    ...reject,
+    // Nothing to clean up when the first deploy never ran (e.g. the build failed).
+    if: "${{ failure() && needs.deploy.result != 'skipped' }}",
+  };
+  return jobs;
+}
+
+/**
+ * Rejects stage lists GitHub or the generated workflow cannot represent:
+ * invalid or duplicate environment names, and names that map to the same job id.
+ */
+function assertValidEnvironments(environments: WorkflowEnvironment[]): void {
+  const jobIds = new Set<string>();
+  for (const env of environments) {
+    if (!isValidEnvironmentName(env.name)) {
+      throw new Error(`Environment name "${env.name}" is not a valid GitHub environment name.`);
+    }
+    const jobId = promotionJobId(env.name);
+    if (jobIds.has(jobId)) {
+      throw new Error(`Environment "${env.name}" duplicates an earlier environment.`);
+    }
+    jobIds.add(jobId);
+  }
+}
+
 /**
  * Generates a deterministic deploy-to-aks.yml workflow.
  * Builds a plain JS object and serializes via YAML.stringify.
  * Based on the proven aks-devhub workflow with all known bug fixes applied.
+ *
+ * With `config.environments`, the image is built once and the same digest is
+ * deployed to each stage in order. Every stage job runs in the GitHub environment
+ * of the same name, so its protection rules (e.g. required reviewers) gate promotion.
  */
 export function generateDeployWorkflow(config: WorkflowConfig): string {
   // Normalize to a valid DNS-1123 label so CONTAINER_NAME matches the K8s resource name
@@ -55,6 +323,86 @@ export function generateDeployWorkflow(config: WorkflowConfig): string {
       `appName "${config.appName}" contains no alphanumeric characters and cannot produce a valid K8s resource name.`
     );
   }
+  const environments = config.environments ?? [];
+  assertValidEnvironments(environments);
+  const isPromotion = environments.length > 0;
+  const strategy = config.strategy ?? { type: 'rolling', canarySteps: [], approvers: [] };
+  if (strategy.type !== 'rolling' && isPromotion) {
+    throw new Error(
+      'Canary and blue/green rollouts are not supported with promotion environments.'
+    );
+  }
+  if (strategy.type === 'canary' && !isValidCanarySchedule(strategy.canarySteps)) {
+    throw new Error(
+      `Canary steps ${strategy.canarySteps.join(
+        ', '
+      )} must be ascending whole percentages between 1 and 99.`
+    );
+  }
+
+  const buildImage: Record<string, unknown> = {
+    permissions: {
+      contents: 'read',
+      'id-token': 'write',
+    },
+    'runs-on': 'ubuntu-latest',
+    steps: [
+      checkoutStep(),
+      azureLoginStep(),
+      {
+        name: 'Build and push image to ACR',
+        run: 'az acr build \\\n  --registry "${{ env.AZURE_CONTAINER_REGISTRY }}" \\\n  -f "${{ env.DOCKER_FILE }}" \\\n  --image "${{ env.CONTAINER_NAME }}:${{ github.sha }}" \\\n  "${{ env.BUILD_CONTEXT_PATH }}"\n',
+      },
+    ],
+  };
+
+  const jobs: Record<string, unknown> = { [BUILD_JOB_ID]: buildImage };
+  if (isPromotion) {
+    // Deploy by digest so every stage runs exactly the bytes the first stage ran,
+    // even if the tag is later overwritten.
+    buildImage.outputs = { imageDigest: '${{ steps.digest.outputs.digest }}' };
+    (buildImage.steps as unknown[]).push({
+      name: 'Resolve image digest',
+      id: 'digest',
+      run: 'digest=$(az acr repository show \\\n  --name "${{ env.AZURE_CONTAINER_REGISTRY }}" \\\n  --image "${{ env.CONTAINER_NAME }}:${{ github.sha }}" \\\n  --query digest -o tsv)\necho "digest=$digest" >> "$GITHUB_OUTPUT"\n',
+    });
+
+    const image = `\${{ env.AZURE_CONTAINER_REGISTRY }}.azurecr.io/\${{ env.CONTAINER_NAME }}@\${{ needs.${BUILD_JOB_ID}.outputs.imageDigest }}`;
+    let previousJobId: string | null = null;
+    for (const env of environments) {
+      const jobId = promotionJobId(env.name);
+      jobs[jobId] = {
+        name: promotionJobName(env.name),
+        permissions: deployPermissions(),
+        'runs-on': 'ubuntu-latest',
+        // The build job stays a direct dependency so its outputs remain readable.
+        needs: previousJobId ? [BUILD_JOB_ID, previousJobId] : [BUILD_JOB_ID],
+        environment: env.name,
+        env: {
+          CLUSTER_NAME: env.clusterName,
+          CLUSTER_RESOURCE_GROUP: env.resourceGroup,
+          NAMESPACE: env.namespace,
+        },
+        steps: buildDeploySteps(image, {
+          extraAnnotations: [`"aks-project/pipeline-environment=${env.name}"`],
+        }),
+      };
+      previousJobId = jobId;
+    }
+  } else {
+    const image =
+      '${{ env.AZURE_CONTAINER_REGISTRY }}.azurecr.io/${{ env.CONTAINER_NAME }}:${{ github.sha }}';
+    if (strategy.type === 'rolling') {
+      jobs.deploy = {
+        permissions: deployPermissions(),
+        'runs-on': 'ubuntu-latest',
+        needs: [BUILD_JOB_ID],
+        steps: buildDeploySteps(image),
+      };
+    } else {
+      Object.assign(jobs, buildRolloutJobs(strategy, image));
+    }
+  }
 
   const workflow: Record<string, unknown> = {
     name: 'Deploy to AKS',
@@ -71,111 +419,68 @@ export function generateDeployWorkflow(config: WorkflowConfig): string {
     env: {
       AZURE_CONTAINER_REGISTRY: config.acrName,
       CONTAINER_NAME: appName,
-      CLUSTER_NAME: config.clusterName,
-      CLUSTER_RESOURCE_GROUP: config.resourceGroup,
+      // Promotion pipelines set the target per stage job instead.
+      ...(isPromotion
+        ? {}
+        : {
+            CLUSTER_NAME: config.clusterName,
+            CLUSTER_RESOURCE_GROUP: config.resourceGroup,
+          }),
       DEPLOYMENT_MANIFEST_PATH: './deploy/kubernetes',
       DOCKER_FILE: config.dockerfilePath,
       BUILD_CONTEXT_PATH: config.buildContextPath,
-      NAMESPACE: config.namespace,
-    },
-    jobs: {
-      buildImage: {
-        permissions: {
-          contents: 'read',
-          'id-token': 'write',
-        },
-        'runs-on': 'ubuntu-latest',
-        steps: [
-          {
-            uses: 'actions/checkout@34e114876b0b11c390a56381ad16ebd13914f8d5 # v4.3.1',
-          },
-          {
-            name: 'Azure login',
-            uses: 'azure/login@eec3c95657c1536435858eda1f3ff5437fee8474 # v2.3.0',
-            with: {
-              'client-id': '${{ secrets.AZURE_CLIENT_ID }}',
-              'tenant-id': '${{ secrets.AZURE_TENANT_ID }}',
-              'subscription-id': '${{ secrets.AZURE_SUBSCRIPTION_ID }}',
-            },
-          },
-          {
-            name: 'Build and push image to ACR',
-            run: 'az acr build \\\n  --registry "${{ env.AZURE_CONTAINER_REGISTRY }}" \\\n  -f "${{ env.DOCKER_FILE }}" \\\n  --image "${{ env.CONTAINER_NAME }}:${{ github.sha }}" \\\n  "${{ env.BUILD_CONTEXT_PATH }}"\n',
-          },
-        ],
-      },
-      deploy: {
-        permissions: {
-          actions: 'read',
-          contents: 'read',
-          'id-token': 'write',
-        },
-        'runs-on': 'ubuntu-latest',
-        needs: ['buildImage'],
-        steps: [
-          {
-            uses: 'actions/checkout@34e114876b0b11c390a56381ad16ebd13914f8d5 # v4.3.1',
-          },
-          {
-            name: 'Azure login',
-            uses: 'azure/login@eec3c95657c1536435858eda1f3ff5437fee8474 # v2.3.0',
-            with: {
-              'client-id': '${{ secrets.AZURE_CLIENT_ID }}',
-              'tenant-id': '${{ secrets.AZURE_TENANT_ID }}',
-              'subscription-id': '${{ secrets.AZURE_SUBSCRIPTION_ID }}',
-            },
-          },
-          {
-            name: 'Set up kubelogin',
-            uses: 'azure/use-kubelogin@0ce7c36141aa27d4934872cf00b0120804c98a29 # v1.3',
-            with: {
-              'kubelogin-version': singleQuoted('v0.1.6'),
-            },
-          },
-          {
-            name: 'Get K8s context',
-            uses: 'azure/aks-set-context@c7eb093e5a5d47caa333f64974d5fd1cd4bf069d # v4.0.3',
-            with: {
-              'resource-group': '${{ env.CLUSTER_RESOURCE_GROUP }}',
-              'cluster-name': '${{ env.CLUSTER_NAME }}',
-              admin: singleQuoted('false'),
-              'use-kubelogin': singleQuoted('true'),
-            },
-          },
-          {
-            name: 'Deploy application',
-            uses: 'Azure/k8s-deploy@c8cfec839dc09896b3b8cc40cd13d04792680771 # v5.1.0',
-            with: {
-              action: 'deploy',
-              manifests: '${{ env.DEPLOYMENT_MANIFEST_PATH }}',
-              images:
-                '${{ env.AZURE_CONTAINER_REGISTRY }}.azurecr.io/${{ env.CONTAINER_NAME }}:${{ github.sha }}\n',
-              namespace: '${{ env.NAMESPACE }}',
-            },
-          },
-          {
-            name: 'Annotate namespace',
-            'continue-on-error': true,
-            run: 'kubectl annotate namespace "${{ env.NAMESPACE }}" \\\n  "aks-project/pipeline-repo=${{ github.repository }}" \\\n  --overwrite\n',
-          },
-          {
-            name: 'Annotate deployment',
-            'continue-on-error': true,
-            run: 'kubectl annotate deployment "${{ env.CONTAINER_NAME }}" \\\n  -n "${{ env.NAMESPACE }}" \\\n  aks-project/pipeline-run-url=${{ github.server_url }}/${{ github.repository }}/actions/runs/${{ github.run_id }} \\\n  "aks-project/pipeline-workflow=${{ github.workflow }}" \\\n  --overwrite\n',
-          },
-        ],
-      },
+      ...(isPromotion ? {} : { NAMESPACE: config.namespace }),
     },
+    jobs,
   };
 
   return YAML.stringify(workflow, { lineWidth: 0 });
 }
 
+/**
+ * Reads the promotion stage names, in deploy order, from a workflow produced by
+ * {@link generateDeployWorkflow}. Returns an empty list for single-target
+ * workflows and for content that is not a workflow.
+ */
+export function parsePromotionEnvironments(workflowYaml: string): string[] {
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(workflowYaml);
+  } catch {
+    return [];
+  }
+  const jobs = (parsed as { jobs?: unknown } | null)?.jobs;
+  if (typeof jobs !== 'object' || jobs === null) return [];
+
+  const names: string[] = [];
+  for (const job of Object.values(jobs as Record<string, unknown>)) {
+    const environment = (job as { environment?: unknown } | null)?.environment;
+    const name =
+      typeof environment === 'string'
+        ? environment
+        : (environment as { name?: unknown } | null)?.name;
+    // The rollout approval gate is an environment too, but not a promotion stage.
+    if (
+      typeof name === 'string' &&
+      name &&
+      name !== ROLLOUT_APPROVAL_ENVIRONMENT &&
+      !names.includes(name)
+    ) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
 export interface ManifestConfig {
   /** App name used as the K8s resource name (Deployment, Service, container) and selector label. Must be a valid DNS-1123 label. */
   appName: string;
-  /** Kubernetes namespace for the generated Deployment and Service manifests. */
-  namespace: string;
+  /**
+   * Kubernetes namespace for the generated Deployment and Service manifests. Omit for
+   * promotion pipelines: each stage's deploy job supplies its own namespace, and
+   * kubectl rejects manifests whose namespace differs from it.
+   */
+  namespace?: string;
   /**
    * Azure Container Registry name (without `.azurecr.io`) used to construct the container image reference.
    * **Must match `WorkflowConfig.acrName` exactly** — Azure/k8s-deploy substitutes the manifest
@@ -185,6 +490,16 @@ export interface ManifestConfig {
   acrName: string;
   /** GitHub repository owner and name, used in the `aks-project/pipeline-repo` annotation. */
   repo: { owner: string; name: string };
+  /** Rollout strategy of the workflow deploying these manifests. Defaults to `rolling`. */
+  strategy?: DeploymentStrategyType;
+}
+
+/**
+ * Metadata annotations for a manifest deployed by a canary or blue/green rollout,
+ * so the Deploy tab can recognize the stable copy of a rollout. Rolling updates add none.
+ */
+function strategyAnnotations(strategy: DeploymentStrategyType | undefined): Record<string, string> {
+  return strategy && strategy !== 'rolling' ? { [ANNOTATION_DEPLOYMENT_STRATEGY]: strategy } : {};
 }
 
 /**
@@ -257,6 +572,19 @@ export function generateDeploymentManifest(config: ManifestConfig, cc: Container
   if (cc.readOnlyRootFilesystem) securityContext.readOnlyRootFilesystem = true;
   container.securityContext = securityContext;
 
+  // Additional containers keep their own images (no k8s-deploy substitution). Only plain env
+  // vars are emitted: this file is committed to the repo, so secret values never belong in it.
+  const buildAdditional = (c: AdditionalContainerConfig, isInit: boolean) =>
+    buildAdditionalContainerSpec(c, {
+      isInit,
+      env: c.envVars
+        .filter(e => e.key.trim() && !e.isSecret)
+        .map(e => ({ name: e.key, value: e.value })),
+      securityContext,
+    });
+  const initContainers = (cc.initContainers ?? []).map(c => buildAdditional(c, true));
+  const sidecarContainers = (cc.sidecarContainers ?? []).map(c => buildAdditional(c, false));
+
   const podSpec: Record<string, unknown> = {};
 
   if (cc.enablePodAntiAffinity) {
@@ -286,17 +614,26 @@ export function generateDeploymentManifest(config: ManifestConfig, cc: Container
     ];
   }
 
-  podSpec.containers = [container];
+  const nodeSelector = buildNodeSelector(cc.nodeSelector);
+  if (nodeSelector) podSpec.nodeSelector = nodeSelector;
+  const tolerations = buildTolerations(cc.tolerations);
+  if (tolerations) podSpec.tolerations = tolerations;
+
+  if (initContainers.length > 0) {
+    podSpec.initContainers = initContainers;
+  }
+  podSpec.containers = [container, ...sidecarContainers];
 
   const deployment = {
     apiVersion: 'apps/v1',
     kind: 'Deployment',
     metadata: {
       name: appName,
-      namespace: config.namespace,
+      ...(config.namespace ? { namespace: config.namespace } : {}),
       annotations: {
         'aks-project/deployed-by': 'pipeline',
         'aks-project/pipeline-repo': `${config.repo.owner}/${config.repo.name}`,
+        ...strategyAnnotations(config.strategy),
       },
     },
     spec: {
@@ -332,7 +669,10 @@ export function generateServiceManifest(config: ManifestConfig, cc: ContainerCon
     kind: 'Service',
     metadata: {
       name: appName,
-      namespace: config.namespace,
+      ...(config.namespace ? { namespace: config.namespace } : {}),
+      ...(config.strategy && config.strategy !== 'rolling'
+        ? { annotations: strategyAnnotations(config.strategy) }
+        : {}),
     },
     spec: {
       type: cc.serviceType,
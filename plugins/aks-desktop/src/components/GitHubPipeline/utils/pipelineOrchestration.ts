@@ -10,6 +10,7 @@ import {
   getDefaultBranchSha,
   setRepoSecrets,
 } from '../../../utils/github/github-api';
+import { buildNodeSelector, buildTolerations } from '../../DeployWizard/utils/nodePlacement';
 import {
   AGENT_CONFIG_PATH,
   COPILOT_SETUP_STEPS_PATH,
@@ -156,6 +157,8 @@ export const triggerCopilotAgent = async (
   // Sensitive values are NOT included — they are stored as GitHub secrets.
   const cc = config.containerConfig;
   const envVars = getActiveEnvVars(config);
+  const nodeSelector = buildNodeSelector(cc?.nodeSelector);
+  const tolerations = buildTolerations(cc?.tolerations);
 
   const issueBody = [
     '```yaml',
@@ -239,6 +242,16 @@ export const triggerCopilotAgent = async (
           `topologySpreadConstraints: ${cc.enableTopologySpreadConstraints}`,
         ].join('\n')
       : null,
+    nodeSelector || tolerations
+      ? [
+          '',
+          '# Node Placement',
+          nodeSelector ? `nodeSelector: ${JSON.stringify(nodeSelector)}` : null,
+          tolerations ? `tolerations: ${JSON.stringify(tolerations)}` : null,
+        ]
+          .filter(line => line !== null)
+          .join('\n')
+      : null,
     '```',
   ]
     .filter(line => line !== null)
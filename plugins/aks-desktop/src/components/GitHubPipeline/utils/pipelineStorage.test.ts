@@ -2,11 +2,21 @@
 // Licensed under the Apache 2.0.
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createContainerConfig, createValidConfig } from '../__fixtures__/pipelineConfig';
 import { SCHEMA_VERSION, STORAGE_KEY_PREFIX } from '../constants';
 import {
   ACTIVE_PIPELINE_KEY_PREFIX,
   clearActivePipeline,
+  clearStoredPipeline,
+  clearSyncedPipeline,
+  GENERATED_PIPELINE_KEY_PREFIX,
   getActivePipeline,
+  listStoredPipelines,
+  loadConfiguredPipeline,
+  loadGeneratedPipelineInputs,
+  parsePipelineReposAnnotation,
+  resetStoredPipeline,
+  saveGeneratedPipelineInputs,
   setActivePipeline,
 } from './pipelineStorage';
 
@@ -167,4 +177,248 @@ describe('pipelineStorage', () => {
       expect(localStorage.getItem(stateKey)).not.toBeNull();
     });
   });
+
+  describe('generated pipeline inputs', () => {
+    const inputs = {
+      pipelineConfig: createValidConfig(),
+      dockerfilePath: './Dockerfile',
+      buildContextPath: '.',
+      containerConfig: createContainerConfig(),
+      environments: [],
+    };
+    const key = `${GENERATED_PIPELINE_KEY_PREFIX}testuser/my-repo`;
+
+    it('should round-trip the saved inputs', () => {
+      saveGeneratedPipelineInputs(inputs);
+      expect(loadGeneratedPipelineInputs('testuser', 'my-repo')).toEqual(inputs);
+    });
+
+    it('should return null when nothing was saved', () => {
+      expect(loadGeneratedPipelineInputs('testuser', 'my-repo')).toBeNull();
+    });
+
+    it('should not save the values of secret env vars', () => {
+      const containerConfig = createContainerConfig({
+        envVars: [
+          { key: 'NODE_ENV', value: 'production', isSecret: false },
+          { key: 'API_KEY', value: 'hunter2', isSecret: true },
+        ],
+      });
+      saveGeneratedPipelineInputs({
+        ...inputs,
+        pipelineConfig: createValidConfig({ containerConfig }),
+        containerConfig,
+      });
+
+      expect(localStorage.getItem(key)).not.toContain('hunter2');
+      expect(loadGeneratedPipelineInputs('testuser', 'my-repo')?.containerConfig.envVars).toEqual([
+        { key: 'NODE_ENV', value: 'production', isSecret: false },
+        { key: 'API_KEY', value: '', isSecret: true },
+      ]);
+    });
+
+    it('should return null for a record of another repo or schema', () => {
+      saveGeneratedPipelineInputs(inputs);
+      localStorage.setItem(
+        `${GENERATED_PIPELINE_KEY_PREFIX}testuser/other`,
+        localStorage.getItem(key) ?? ''
+      );
+      expect(loadGeneratedPipelineInputs('testuser', 'other')).toBeNull();
+
+      localStorage.setItem(key, JSON.stringify({ ...inputs, __schemaVersion: -1 }));
+      expect(loadGeneratedPipelineInputs('testuser', 'my-repo')).toBeNull();
+    });
+
+    it('should return null for malformed records', () => {
+      localStorage.setItem(key, JSON.stringify({ __schemaVersion: SCHEMA_VERSION }));
+      expect(loadGeneratedPipelineInputs('testuser', 'my-repo')).toBeNull();
+      localStorage.setItem(key, '{');
+      expect(loadGeneratedPipelineInputs('testuser', 'my-repo')).toBeNull();
+    });
+  });
+
+  describe('parsePipelineReposAnnotation', () => {
+    it('should return the repos of a valid annotation', () => {
+      const repos = [{ owner: 'o', repo: 'r', defaultBranch: 'main' }];
+      expect(parsePipelineReposAnnotation(JSON.stringify(repos))).toEqual(repos);
+    });
+
+    it('should return an empty list for missing or malformed annotations', () => {
+      expect(parsePipelineReposAnnotation(undefined)).toEqual([]);
+      expect(parsePipelineReposAnnotation('{')).toEqual([]);
+      expect(parsePipelineReposAnnotation(JSON.stringify([{ owner: 'o' }]))).toEqual([]);
+    });
+  });
+
+  describe('stored pipelines', () => {
+    const repo = { owner: 'testuser', repo: 'my-repo', defaultBranch: 'main' };
+    const stateKey = `${STORAGE_KEY_PREFIX}testuser/my-repo`;
+    const writeState = (state: Record<string, unknown>) =>
+      localStorage.setItem(
+        stateKey,
+        JSON.stringify({
+          __schemaVersion: SCHEMA_VERSION,
+          config: { repo, clusterName: 'cluster', namespace: 'ns' },
+          ...state,
+        })
+      );
+
+    it('should list saved state with its target and pointer', () => {
+      writeState({
+        deploymentState: 'Failed',
+        lastSuccessfulState: 'SetupPRAwaitingMerge',
+        error: 'boom',
+        updatedAt: '2026-01-01T00:00:00Z',
+      });
+      setActivePipeline('cluster', 'ns', repo);
+
+      expect(listStoredPipelines()).toEqual([
+        {
+          repoKey: 'testuser/my-repo',
+          repo,
+          clusterName: 'cluster',
+          namespace: 'ns',
+          deploymentState: 'Failed',
+          lastSuccessfulState: 'SetupPRAwaitingMerge',
+          error: 'boom',
+          updatedAt: '2026-01-01T00:00:00Z',
+          active: true,
+        },
+      ]);
+    });
+
+    it('should list orphaned pointers and unreadable state without a deployment state', () => {
+      writeState({ __schemaVersion: -1, deploymentState: 'AgentRunning' });
+      setActivePipeline('my:cluster', 'ns', { ...repo, repo: 'other' });
+
+      const pipelines = listStoredPipelines();
+      expect(pipelines).toHaveLength(2);
+      expect(pipelines.find(p => p.repoKey === 'testuser/my-repo')?.deploymentState).toBeNull();
+      expect(pipelines.find(p => p.repoKey === 'testuser/other')).toMatchObject({
+        clusterName: 'my:cluster',
+        namespace: 'ns',
+        deploymentState: null,
+        active: true,
+      });
+    });
+
+    it('should reset to the last successful state and clear the error', () => {
+      writeState({
+        deploymentState: 'Failed',
+        lastSuccessfulState: 'AgentRunning',
+        error: 'boom',
+      });
+
+      expect(resetStoredPipeline('testuser/my-repo')).toBe(true);
+
+      const saved = JSON.parse(localStorage.getItem(stateKey) ?? '{}');
+      expect(saved.deploymentState).toBe('AgentRunning');
+      expect(saved.error).toBeNull();
+      expect(saved.config.repo).toEqual(repo);
+    });
+
+    it('should reset to Configured without a last successful state', () => {
+      writeState({ deploymentState: 'CheckingRepo', lastSuccessfulState: null });
+
+      expect(resetStoredPipeline('testuser/my-repo')).toBe(true);
+      expect(JSON.parse(localStorage.getItem(stateKey) ?? '{}').deploymentState).toBe('Configured');
+    });
+
+    it('should not reset missing or unreadable state', () => {
+      expect(resetStoredPipeline('testuser/my-repo')).toBe(false);
+      writeState({ deploymentState: 'NotAState' });
+      expect(resetStoredPipeline('testuser/my-repo')).toBe(false);
+    });
+
+    it('should clear the state and every pointer to the repo', () => {
+      writeState({ deploymentState: 'AgentRunning' });
+      setActivePipeline('cluster', 'ns', repo);
+      setActivePipeline('other-cluster', 'ns', repo);
+      setActivePipeline('cluster', 'other-ns', { ...repo, repo: 'other' });
+
+      clearStoredPipeline('testuser/my-repo');
+
+      expect(localStorage.getItem(stateKey)).toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}cluster:ns`)).toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}other-cluster:ns`)).toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}cluster:other-ns`)).not.toBeNull();
+    });
+
+    it('should clear only the synced pointer and keep the configured state', () => {
+      writeState({ deploymentState: 'Deployed' });
+      setActivePipeline('cluster', 'ns', repo);
+      setActivePipeline('other-cluster', 'ns', repo);
+
+      clearSyncedPipeline('testuser/my-repo', 'cluster', 'ns');
+
+      expect(loadConfiguredPipeline('testuser', 'my-repo')).not.toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}cluster:ns`)).toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}other-cluster:ns`)).not.toBeNull();
+    });
+
+    it('should keep wizard state that is not configured', () => {
+      writeState({ deploymentState: 'AgentRunning' });
+      setActivePipeline('cluster', 'ns', repo);
+
+      clearSyncedPipeline('testuser/my-repo', 'cluster', 'ns');
+
+      expect(localStorage.getItem(stateKey)).not.toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}cluster:ns`)).not.toBeNull();
+    });
+
+    it('should keep wizard state that targets another namespace', () => {
+      writeState({
+        deploymentState: 'AgentRunning',
+        config: { repo, clusterName: 'c2', namespace: 'n2' },
+      });
+      setActivePipeline('cluster', 'ns', repo);
+
+      clearSyncedPipeline('testuser/my-repo', 'cluster', 'ns');
+
+      expect(localStorage.getItem(stateKey)).not.toBeNull();
+      expect(localStorage.getItem(`${ACTIVE_PIPELINE_KEY_PREFIX}cluster:ns`)).toBeNull();
+    });
+  });
+
+  describe('loadConfiguredPipeline', () => {
+    const key = `${STORAGE_KEY_PREFIX}testuser/my-repo`;
+    const config = createValidConfig({ containerConfig: createContainerConfig() });
+    const store = (overrides: Record<string, unknown>) =>
+      localStorage.setItem(
+        key,
+        JSON.stringify({
+          __schemaVersion: SCHEMA_VERSION,
+          deploymentState: 'Deployed',
+          config,
+          repoReadiness: { dockerfilePaths: ['Dockerfile'] },
+          ...overrides,
+        })
+      );
+
+    it('should return the config and Dockerfiles of a configured pipeline', () => {
+      store({});
+      expect(loadConfiguredPipeline('testuser', 'my-repo')).toEqual({
+        config,
+        dockerfilePaths: ['Dockerfile'],
+      });
+    });
+
+    it('should return null while setup is unfinished', () => {
+      store({ deploymentState: 'SetupPRAwaitingMerge' });
+      expect(loadConfiguredPipeline('testuser', 'my-repo')).toBeNull();
+    });
+
+    it('should return null for state of another repo or schema', () => {
+      store({ config: createValidConfig({ repo: { ...config.repo, repo: 'other' } }) });
+      expect(loadConfiguredPipeline('testuser', 'my-repo')).toBeNull();
+
+      store({ __schemaVersion: -1 });
+      expect(loadConfiguredPipeline('testuser', 'my-repo')).toBeNull();
+    });
+
+    it('should default to no Dockerfiles when readiness was not recorded', () => {
+      store({ repoReadiness: null });
+      expect(loadConfiguredPipeline('testuser', 'my-repo')?.dockerfilePaths).toEqual([]);
+    });
+  });
 });
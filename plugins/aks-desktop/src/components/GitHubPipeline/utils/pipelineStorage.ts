@@ -2,8 +2,13 @@
 // Licensed under the Apache 2.0.
 
 import type { GitHubRepo } from '../../../types/github';
+import type {
+  ContainerConfig,
+  EnvVarEntry,
+} from '../../DeployWizard/hooks/useContainerConfiguration';
 import { SCHEMA_VERSION, STORAGE_KEY_PREFIX } from '../constants';
-import type { PipelineDeploymentState } from '../types';
+import { DEPLOYMENT_STATES, type PipelineConfig, type PipelineDeploymentState } from '../types';
+import type { PipelineFileInputs } from './fastPathOrchestration';
 import { safeRecord } from './safeRecord';
 
 export const ACTIVE_PIPELINE_KEY_PREFIX = 'aks-desktop:active-pipeline:';
@@ -38,6 +43,20 @@ export function isValidGitHubRepo(value: unknown): value is GitHubRepo {
   );
 }
 
+/**
+ * Parses the `aks-project/pipeline-repos` namespace annotation. Returns an
+ * empty list when the annotation is missing or malformed.
+ */
+export function parsePipelineReposAnnotation(annotation: string | undefined): GitHubRepo[] {
+  if (!annotation) return [];
+  try {
+    const repos: unknown = JSON.parse(annotation);
+    return Array.isArray(repos) && repos.every(r => isValidGitHubRepo(r)) ? repos : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Reads the active pipeline reference for a given cluster+namespace.
  * Used by DeployButton to detect in-progress pipelines.
@@ -129,6 +148,155 @@ export function clearActivePipeline(cluster: string, ns: string): void {
   }
 }
 
+const VALID_DEPLOYMENT_STATES: ReadonlySet<string> = new Set<string>(DEPLOYMENT_STATES);
+
+function asDeploymentState(value: unknown): PipelineDeploymentState | null {
+  return typeof value === 'string' && VALID_DEPLOYMENT_STATES.has(value)
+    ? (value as PipelineDeploymentState)
+    : null;
+}
+
+/** A pipeline found in localStorage, as listed on the pipelines page. */
+export interface StoredPipeline {
+  /** `owner/repo` the pipeline state is stored under. */
+  repoKey: string;
+  /** Null when neither the saved config nor an active pointer records the repo. */
+  repo: GitHubRepo | null;
+  clusterName: string | null;
+  namespace: string | null;
+  /**
+   * Null when the repo has no readable state: a schema from another version,
+   * an unknown state, or an active pointer left behind without any state.
+   */
+  deploymentState: PipelineDeploymentState | null;
+  lastSuccessfulState: PipelineDeploymentState | null;
+  error: string | null;
+  /** ISO timestamp of the last state change. */
+  updatedAt: string | null;
+  /** Whether an active-pipeline pointer references the repo. */
+  active: boolean;
+}
+
+/** Iterates the active-pipeline pointers that parse to a repo. */
+function scanActivePointers(
+  visitor: (key: string, cluster: string, ns: string, repo: GitHubRepo) => void
+): void {
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(ACTIVE_PIPELINE_KEY_PREFIX)) continue;
+    // Namespace names cannot contain ':', so the last one separates the cluster.
+    const scope = key.slice(ACTIVE_PIPELINE_KEY_PREFIX.length);
+    const separator = scope.lastIndexOf(':');
+    if (separator < 0) continue;
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+      if (!isValidGitHubRepo(parsed)) continue;
+      visitor(key, scope.slice(0, separator), scope.slice(separator + 1), parsed);
+    } catch {
+      // skip malformed entries
+    }
+  }
+}
+
+/**
+ * Lists every pipeline with wizard state or an active pointer in
+ * localStorage, across all clusters and repos. Pipelines that finished setup
+ * have no local state left; only their namespace annotation records them.
+ */
+export function listStoredPipelines(): StoredPipeline[] {
+  const pipelines = new Map<string, StoredPipeline>();
+  try {
+    scanPipelineEntries((key, parsed) => {
+      const repoKey = key.slice(STORAGE_KEY_PREFIX.length);
+      const config = safeRecord(parsed.config);
+      const repo = config?.repo;
+      const current = parsed.__schemaVersion === SCHEMA_VERSION;
+      pipelines.set(repoKey, {
+        repoKey,
+        repo: isValidGitHubRepo(repo) ? repo : null,
+        clusterName: typeof config?.clusterName === 'string' ? config.clusterName : null,
+        namespace: typeof config?.namespace === 'string' ? config.namespace : null,
+        deploymentState: current ? asDeploymentState(parsed.deploymentState) : null,
+        lastSuccessfulState: current ? asDeploymentState(parsed.lastSuccessfulState) : null,
+        error: typeof parsed.error === 'string' ? parsed.error : null,
+        updatedAt: typeof parsed.updatedAt === 'string' ? parsed.updatedAt : null,
+        active: false,
+      });
+    });
+    scanActivePointers((_key, cluster, ns, repo) => {
+      const repoKey = `${repo.owner}/${repo.repo}`;
+      const existing = pipelines.get(repoKey);
+      if (existing) {
+        existing.active = true;
+        existing.repo ??= repo;
+        existing.clusterName ??= cluster;
+        existing.namespace ??= ns;
+        return;
+      }
+      pipelines.set(repoKey, {
+        repoKey,
+        repo,
+        clusterName: cluster,
+        namespace: ns,
+        deploymentState: null,
+        lastSuccessfulState: null,
+        error: null,
+        updatedAt: null,
+        active: true,
+      });
+    });
+  } catch (err) {
+    console.warn('Failed to list stored pipelines:', err);
+  }
+  return [...pipelines.values()];
+}
+
+/**
+ * Moves a repo's pipeline back to its last successful state and clears the
+ * error, as the wizard's retry does. Returns false when there is no readable
+ * state to reset.
+ */
+export function resetStoredPipeline(repoKey: string): boolean {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_KEY_PREFIX}${repoKey}`);
+    if (!raw) return false;
+    const parsed = safeRecord(JSON.parse(raw));
+    if (!parsed || parsed.__schemaVersion !== SCHEMA_VERSION) return false;
+    if (!asDeploymentState(parsed.deploymentState)) return false;
+    localStorage.setItem(
+      `${STORAGE_KEY_PREFIX}${repoKey}`,
+      JSON.stringify({
+        ...parsed,
+        deploymentState: asDeploymentState(parsed.lastSuccessfulState) ?? 'Configured',
+        error: null,
+        updatedAt: new Date().toISOString(),
+      })
+    );
+    return true;
+  } catch (err) {
+    console.warn('Failed to reset pipeline state:', err);
+    return false;
+  }
+}
+
+/**
+ * Removes a repo's pipeline state and every active pointer that references
+ * the repo, in any cluster+namespace.
+ */
+export function clearStoredPipeline(repoKey: string): void {
+  try {
+    const keysToRemove = [`${STORAGE_KEY_PREFIX}${repoKey}`];
+    scanActivePointers((key, _cluster, _ns, repo) => {
+      if (`${repo.owner}/${repo.repo}` === repoKey) keysToRemove.push(key);
+    });
+    for (const key of keysToRemove) {
+      localStorage.removeItem(key);
+    }
+  } catch (err) {
+    console.warn('Failed to clear pipeline state:', err);
+  }
+}
+
 const CONFIGURED_STATES: ReadonlySet<string> = new Set([
   'PipelineConfigured',
   'Deployed',
@@ -161,3 +329,162 @@ export function findPipelineReposForCluster(cluster: string, namespace: string):
   });
   return repos;
 }
+
+/**
+ * Drops a namespace's active pointer to a repo once that namespace's
+ * annotation lists the repo, unless the repo's setup there is still in
+ * progress. The wizard state is kept: {@link loadConfiguredPipeline} reads
+ * it for pipelines set up before their generated inputs were saved.
+ */
+export function clearSyncedPipeline(repoKey: string, cluster: string, ns: string): void {
+  try {
+    const state = safeRecord(
+      JSON.parse(localStorage.getItem(`${STORAGE_KEY_PREFIX}${repoKey}`) ?? 'null')
+    );
+    const config = safeRecord(state?.config);
+    if (
+      state &&
+      config?.clusterName === cluster &&
+      config?.namespace === ns &&
+      !CONFIGURED_STATES.has(state.deploymentState as string)
+    ) {
+      return;
+    }
+    const pointerKey = `${ACTIVE_PIPELINE_KEY_PREFIX}${cluster}:${ns}`;
+    const pointer: unknown = JSON.parse(localStorage.getItem(pointerKey) ?? 'null');
+    if (isValidGitHubRepo(pointer) && `${pointer.owner}/${pointer.repo}` === repoKey) {
+      localStorage.removeItem(pointerKey);
+    }
+  } catch (err) {
+    console.warn('Failed to clear synced pipeline state:', err);
+  }
+}
+
+export const GENERATED_PIPELINE_KEY_PREFIX = 'aks-desktop:generated-pipeline:';
+
+/**
+ * Blanks the values of secret env vars. The generated files never contain
+ * them, so regenerating from the saved inputs does not need them.
+ */
+function withoutSecretValues(config: ContainerConfig): ContainerConfig {
+  const blank = (envVars: EnvVarEntry[]) =>
+    envVars.map(e => (e.isSecret ? { ...e, value: '' } : e));
+  return {
+    ...config,
+    envVars: blank(config.envVars),
+    sidecarContainers: config.sidecarContainers.map(c => ({ ...c, envVars: blank(c.envVars) })),
+    initContainers: config.initContainers.map(c => ({ ...c, envVars: blank(c.envVars) })),
+  };
+}
+
+/**
+ * Remembers the inputs a repo's pipeline files were generated from, so they
+ * can be regenerated later to detect drift. Unlike the wizard state, this
+ * record outlives the setup flow. Secret env var values are not saved.
+ */
+export function saveGeneratedPipelineInputs(inputs: PipelineFileInputs): void {
+  const { owner, repo } = inputs.pipelineConfig.repo;
+  const { pipelineConfig, containerConfig } = inputs;
+  try {
+    localStorage.setItem(
+      `${GENERATED_PIPELINE_KEY_PREFIX}${owner}/${repo}`,
+      JSON.stringify({
+        __schemaVersion: SCHEMA_VERSION,
+        ...inputs,
+        pipelineConfig: {
+          ...pipelineConfig,
+          ...(pipelineConfig.containerConfig
+            ? { containerConfig: withoutSecretValues(pipelineConfig.containerConfig) }
+            : {}),
+        },
+        containerConfig: withoutSecretValues(containerConfig),
+      })
+    );
+  } catch (err) {
+    console.warn('Failed to save generated pipeline inputs:', err);
+  }
+}
+
+/**
+ * Reads the inputs saved by {@link saveGeneratedPipelineInputs} for a repo.
+ * Returns null when none were saved (e.g. the pipeline was set up by the
+ * agent path or before drift detection existed) or the record is invalid.
+ */
+export function loadGeneratedPipelineInputs(
+  owner: string,
+  repo: string
+): PipelineFileInputs | null {
+  try {
+    const raw = localStorage.getItem(`${GENERATED_PIPELINE_KEY_PREFIX}${owner}/${repo}`);
+    if (!raw) return null;
+    const parsed = safeRecord(JSON.parse(raw));
+    if (!parsed || parsed.__schemaVersion !== SCHEMA_VERSION) return null;
+    const pipelineConfig = safeRecord(parsed.pipelineConfig);
+    if (
+      !pipelineConfig ||
+      !isValidGitHubRepo(pipelineConfig.repo) ||
+      pipelineConfig.repo.owner !== owner ||
+      pipelineConfig.repo.repo !== repo ||
+      typeof parsed.dockerfilePath !== 'string' ||
+      typeof parsed.buildContextPath !== 'string' ||
+      !safeRecord(parsed.containerConfig) ||
+      (parsed.environments !== undefined && !Array.isArray(parsed.environments))
+    ) {
+      return null;
+    }
+    return {
+      pipelineConfig: pipelineConfig as unknown as PipelineConfig,
+      dockerfilePath: parsed.dockerfilePath,
+      buildContextPath: parsed.buildContextPath,
+      containerConfig: parsed.containerConfig as PipelineFileInputs['containerConfig'],
+      ...(parsed.environments
+        ? { environments: parsed.environments as PipelineFileInputs['environments'] }
+        : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** What the wizard state of a configured pipeline records about its setup. */
+export interface ConfiguredPipeline {
+  config: PipelineConfig;
+  /** Dockerfiles found in the repo during setup. */
+  dockerfilePaths: string[];
+}
+
+/**
+ * Reads the config a repo's pipeline was set up with from its wizard state,
+ * for pipelines set up before {@link saveGeneratedPipelineInputs} existed.
+ * Returns null unless the state finished setup and records the repo.
+ */
+export function loadConfiguredPipeline(owner: string, repo: string): ConfiguredPipeline | null {
+  try {
+    const raw = localStorage.getItem(`${STORAGE_KEY_PREFIX}${owner}/${repo}`);
+    if (!raw) return null;
+    const parsed = safeRecord(JSON.parse(raw));
+    if (
+      !parsed ||
+      parsed.__schemaVersion !== SCHEMA_VERSION ||
+      !CONFIGURED_STATES.has(parsed.deploymentState as string)
+    ) {
+      return null;
+    }
+    const config = safeRecord(parsed.config);
+    if (
+      !config ||
+      !isValidGitHubRepo(config.repo) ||
+      config.repo.owner !== owner ||
+      config.repo.repo !== repo
+    ) {
+      return null;
+    }
+    const readiness = safeRecord(parsed.repoReadiness);
+    const dockerfilePaths = Array.isArray(readiness?.dockerfilePaths)
+      ? readiness.dockerfilePaths.filter((p): p is string => typeof p === 'string')
+      : [];
+    return { config: config as unknown as PipelineConfig, dockerfilePaths };
+  } catch {
+    return null;
+  }
+}
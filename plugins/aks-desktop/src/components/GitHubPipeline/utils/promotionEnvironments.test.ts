@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getEnvironmentErrors,
+  isValidEnvironmentName,
+  parseReviewers,
+  suggestPromotionEnvironments,
+} from './promotionEnvironments';
+
+const env = (name: string, reviewers: string[] = []) => ({
+  name,
+  clusterName: 'aks-dev',
+  namespace: 'demo',
+  reviewers,
+});
+
+describe('isValidEnvironmentName', () => {
+  it('should accept letters, digits, dots, underscores and hyphens', () => {
+    expect(isValidEnvironmentName('prod')).toBe(true);
+    expect(isValidEnvironmentName('pre_prod-2.eu')).toBe(true);
+  });
+
+  it('should reject empty, punctuation-only or spaced names', () => {
+    expect(isValidEnvironmentName('')).toBe(false);
+    expect(isValidEnvironmentName('--')).toBe(false);
+    expect(isValidEnvironmentName('my env')).toBe(false);
+  });
+});
+
+describe('parseReviewers', () => {
+  it('should split on commas and whitespace and strip leading @', () => {
+    expect(parseReviewers('@alice, bob\n  carol,,')).toEqual(['alice', 'bob', 'carol']);
+  });
+
+  it('should return an empty list for blank input', () => {
+    expect(parseReviewers('  ')).toEqual([]);
+  });
+});
+
+describe('getEnvironmentErrors', () => {
+  it('should report no errors for valid stages', () => {
+    expect(getEnvironmentErrors([env('dev'), env('prod', ['alice'])])).toEqual([[], []]);
+  });
+
+  it('should flag names that collide once normalized', () => {
+    expect(getEnvironmentErrors([env('dev'), env('Dev')])).toEqual([[], ['name']]);
+  });
+
+  it('should flag a missing cluster or namespace', () => {
+    expect(getEnvironmentErrors([{ ...env('dev'), namespace: '' }])).toEqual([['scope']]);
+    expect(getEnvironmentErrors([{ ...env('dev'), clusterName: '' }])).toEqual([['scope']]);
+  });
+
+  it('should flag invalid or too many reviewers', () => {
+    expect(getEnvironmentErrors([env('dev', ['-alice'])])).toEqual([['reviewers']]);
+    expect(getEnvironmentErrors([env('dev', ['a', 'b', 'c', 'd', 'e', 'f', 'g'])])).toEqual([
+      ['reviewers'],
+    ]);
+  });
+});
+
+describe('suggestPromotionEnvironments', () => {
+  const scopes = [
+    { cluster: 'aks-dev', namespace: 'app' },
+    { cluster: 'aks-stage', namespace: 'app' },
+    { cluster: 'aks-prod', namespace: 'app' },
+    { cluster: 'aks-extra', namespace: 'app' },
+  ];
+
+  it('should suggest dev, staging and prod over the first three scopes', () => {
+    const result = suggestPromotionEnvironments(scopes, 'alice');
+    expect(result.map(e => [e.name, e.clusterName])).toEqual([
+      ['dev', 'aks-dev'],
+      ['staging', 'aks-stage'],
+      ['prod', 'aks-prod'],
+    ]);
+    expect(result.map(e => e.reviewers)).toEqual([[], [], ['alice']]);
+  });
+
+  it('should end with prod when there are fewer scopes', () => {
+    expect(suggestPromotionEnvironments(scopes.slice(0, 2)).map(e => e.name)).toEqual([
+      'dev',
+      'prod',
+    ]);
+    expect(suggestPromotionEnvironments(scopes.slice(0, 1)).map(e => e.name)).toEqual(['prod']);
+  });
+});
@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { normalizeK8sName } from '../../../utils/kubernetes/k8sNames';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
+import type { PipelineEnvironment } from '../types';
+
+/** Characters the generated workflow and the federated credential name both accept. */
+const ENVIRONMENT_NAME_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+
+/** GitHub login: alphanumerics and single hyphens, not leading. */
+const GITHUB_LOGIN_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/;
+
+/** GitHub allows at most six required reviewers per environment. */
+export const MAX_ENVIRONMENT_REVIEWERS = 6;
+
+/** Stage names offered when promotion is first turned on, in order. */
+const DEFAULT_STAGE_NAMES = ['dev', 'staging', 'prod'];
+
+export type EnvironmentField = 'name' | 'scope' | 'reviewers';
+
+/** Whether `name` can be used as a promotion stage (GitHub environment) name. */
+export function isValidEnvironmentName(name: string): boolean {
+  return ENVIRONMENT_NAME_PATTERN.test(name) && /[a-z0-9]/i.test(name);
+}
+
+/** Whether `login` is a syntactically valid GitHub username. */
+export function isValidGitHubLogin(login: string): boolean {
+  return GITHUB_LOGIN_PATTERN.test(login);
+}
+
+/**
+ * Splits a free-text reviewer list (commas or whitespace, optional leading `@`)
+ * into GitHub logins.
+ */
+export function parseReviewers(text: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map(login => login.replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Returns the invalid fields of each stage, indexed like `environments`.
+ * A name is also invalid when it matches an earlier stage's name once
+ * normalized, since both would produce the same workflow job.
+ */
+export function getEnvironmentErrors(environments: PipelineEnvironment[]): EnvironmentField[][] {
+  const seen = new Set<string>();
+  return environments.map(env => {
+    const errors: EnvironmentField[] = [];
+    const key = normalizeK8sName(env.name);
+    if (!isValidEnvironmentName(env.name) || seen.has(key)) {
+      errors.push('name');
+    }
+    seen.add(key);
+    if (!env.clusterName || !env.namespace) {
+      errors.push('scope');
+    }
+    if (
+      env.reviewers.length > MAX_ENVIRONMENT_REVIEWERS ||
+      !env.reviewers.every(isValidGitHubLogin)
+    ) {
+      errors.push('reviewers');
+    }
+    return errors;
+  });
+}
+
+/**
+ * Suggests a dev → staging → prod promotion over the project's scopes, one stage
+ * per scope (at most three). Only the last stage requires approval, by `reviewer`
+ * when given.
+ */
+export function suggestPromotionEnvironments(
+  scopes: ProjectScope[],
+  reviewer?: string
+): PipelineEnvironment[] {
+  const count = Math.min(DEFAULT_STAGE_NAMES.length, Math.max(1, scopes.length));
+  const names =
+    count === DEFAULT_STAGE_NAMES.length
+      ? DEFAULT_STAGE_NAMES
+      : [...DEFAULT_STAGE_NAMES.slice(0, count - 1), 'prod'];
+  return names.map((name, i) => ({
+    name,
+    clusterName: scopes[i]?.cluster ?? '',
+    namespace: scopes[i]?.namespace ?? '',
+    reviewers: i === names.length - 1 && reviewer ? [reviewer] : [],
+  }));
+}
@@ -4,8 +4,11 @@
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Box, Button, CircularProgress, Divider, Typography } from '@mui/material';
 import React from 'react';
+import { ExportProjectButton } from '../ProjectBundle/ExportProjectButton';
 import { ComputeStep } from '../shared/ComputeStep';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
 import { NetworkingStep } from '../shared/NetworkingStep';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
 import { useInfoTab } from './hooks/useInfoTab';
 
 /**
@@ -14,9 +17,9 @@ import { useInfoTab } from './hooks/useInfoTab';
 interface InfoTabProps {
   /** The project whose networking and compute quota settings are displayed and edited. */
   project: {
-    /** Cluster names associated with the project; the first entry is used for API calls. */
+    /** Cluster names associated with the project. */
     clusters: string[];
-    /** Kubernetes namespace names associated with the project; the first entry is used. */
+    /** Kubernetes namespace names associated with the project. */
     namespaces: string[];
     /** The managed namespace name used as the project identifier. */
     id: string;
@@ -25,6 +28,7 @@ interface InfoTabProps {
 
 /**
  * Displays and allows editing of the networking policies and compute quota for a managed namespace.
+ * Projects spanning several clusters or namespaces pick the managed namespace with a scope switcher.
  *
  * Fetches current settings from the Azure CLI and pre-populates the form. Provides a save
  * button that is enabled only when there are valid, unsaved changes.
@@ -33,6 +37,7 @@ interface InfoTabProps {
  */
 const InfoTab: React.FC<InfoTabProps> = ({ project }) => {
   const { t } = useTranslation();
+  const { scopes, selected, selectScope } = useProjectScope(project);
   const {
     loading,
     updating,
@@ -43,10 +48,15 @@ const InfoTab: React.FC<InfoTabProps> = ({ project }) => {
     hasChanges,
     handleFormDataChange,
     handleSave,
-  } = useInfoTab(project);
+  } = useInfoTab(selected);
 
   return (
     <Box sx={{ minHeight: loading ? '100vh' : 'auto', p: 3 }}>
+      {scopes.length > 1 && (
+        <Box sx={{ mb: 3 }}>
+          <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+        </Box>
+      )}
       {loading && (
         <Box
           sx={{
@@ -61,6 +71,17 @@ const InfoTab: React.FC<InfoTabProps> = ({ project }) => {
         </Box>
       )}
       {!loading && error && <Typography color="error">{error}</Typography>}
+      {!loading && !error && !namespaceDetails && selected.namespace && (
+        <Typography color="text.secondary">
+          {t(
+            '{{namespace}} is not a managed namespace on {{cluster}}, so it has no settings here.',
+            {
+              namespace: selected.namespace,
+              cluster: selected.cluster,
+            }
+          )}
+        </Typography>
+      )}
 
       {!loading && !error && namespaceDetails && (
         <Box>
@@ -79,11 +100,12 @@ const InfoTab: React.FC<InfoTabProps> = ({ project }) => {
               validation={validation}
             />
           </Box>
-          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 3 }}>
+            <ExportProjectButton cluster={selected.cluster} namespace={selected.namespace} />
             <Button
               variant="contained"
               color="primary"
-              disabled={!project.id || !hasChanges || !validation.isValid || updating}
+              disabled={!selected.namespace || !hasChanges || !validation.isValid || updating}
               onClick={handleSave}
             >
               {updating ? `${t('Updating')}...` : t('Update')}
@@ -39,11 +39,10 @@ vi.mock('../../../utils/azure/az-namespaces', () => ({
 
 import { useInfoTab } from './useInfoTab';
 
-/** A minimal project fixture used across tests. */
-const defaultProject = {
-  clusters: ['my-cluster'],
-  namespaces: ['my-namespace'],
-  id: 'my-project',
+/** A minimal project scope fixture used across tests. */
+const defaultScope = {
+  cluster: 'my-cluster',
+  namespace: 'my-project',
 };
 
 /** A namespace instance returned by Headlamp with subscription and resource group labels. */
@@ -110,7 +109,7 @@ describe('useInfoTab', () => {
   // --- Initial loading state ---
 
   test('starts in loading state and resolves after fetch completes', async () => {
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     expect(result.current.loading).toBe(true);
 
@@ -123,9 +122,9 @@ describe('useInfoTab', () => {
   // --- Missing cluster or resource group ---
 
   test('sets namespaceDetails to null and skips fetch when cluster is missing', async () => {
-    const project = { ...defaultProject, clusters: [] };
+    const scope = { ...defaultScope, cluster: '' };
 
-    const { result } = renderHook(() => useInfoTab(project));
+    const { result } = renderHook(() => useInfoTab(scope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -136,7 +135,7 @@ describe('useInfoTab', () => {
   test('sets namespaceDetails to null and skips fetch when resourceGroup label is absent', async () => {
     mockUseGet.mockReturnValue([{ jsonData: { metadata: { labels: {} } } }]);
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -149,7 +148,18 @@ describe('useInfoTab', () => {
   test('sets namespaceDetails to null when no managed namespaces exist for the cluster', async () => {
     mockGetManagedNamespaces.mockResolvedValue([]);
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(mockGetManagedNamespaceDetails).not.toHaveBeenCalled();
+    expect(result.current.namespaceDetails).toBeNull();
+  });
+
+  test('sets namespaceDetails to null when the namespace is not a managed namespace', async () => {
+    mockGetManagedNamespaces.mockResolvedValue(['other-namespace']);
+
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -162,7 +172,7 @@ describe('useInfoTab', () => {
   test('sets error and clears namespaceDetails when getManagedNamespaces throws', async () => {
     mockGetManagedNamespaces.mockRejectedValue(new Error('network error'));
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -173,7 +183,7 @@ describe('useInfoTab', () => {
   test('sets error and clears namespaceDetails when getManagedNamespaceDetails throws', async () => {
     mockGetManagedNamespaceDetails.mockRejectedValue(new Error('details error'));
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -195,7 +205,7 @@ describe('useInfoTab', () => {
       })
     );
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -212,7 +222,7 @@ describe('useInfoTab', () => {
       createNamespaceDetails({ ingress: 'InvalidPolicy' })
     );
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -227,7 +237,7 @@ describe('useInfoTab', () => {
       })
     );
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -238,7 +248,7 @@ describe('useInfoTab', () => {
   // --- hasChanges ---
 
   test('hasChanges is false initially after fetch', async () => {
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -246,7 +256,7 @@ describe('useInfoTab', () => {
   });
 
   test('hasChanges becomes true after a form field is changed', async () => {
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -262,7 +272,7 @@ describe('useInfoTab', () => {
       createNamespaceDetails({ ingress: 'AllowSameNamespace' })
     );
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -280,7 +290,7 @@ describe('useInfoTab', () => {
   // --- Validation ---
 
   test('validation is valid on initial form population', async () => {
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -288,7 +298,7 @@ describe('useInfoTab', () => {
   });
 
   test('validation becomes invalid when cpuRequest exceeds cpuLimit', async () => {
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -303,7 +313,7 @@ describe('useInfoTab', () => {
   });
 
   test('validation becomes invalid when memoryRequest exceeds memoryLimit', async () => {
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -319,7 +329,7 @@ describe('useInfoTab', () => {
   test('handleSave calls updateManagedNamespace with correct arguments and advances baseline', async () => {
     mockUpdateManagedNamespace.mockResolvedValue(undefined);
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -349,7 +359,7 @@ describe('useInfoTab', () => {
   test('handleSave leaves updating as false when updateManagedNamespace throws', async () => {
     mockUpdateManagedNamespace.mockRejectedValue(new Error('update failed'));
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -368,7 +378,7 @@ describe('useInfoTab', () => {
   test('handleSave is a no-op when resourceGroup label is absent', async () => {
     mockUseGet.mockReturnValue([{ jsonData: { metadata: { labels: {} } } }]);
 
-    const { result } = renderHook(() => useInfoTab(defaultProject));
+    const { result } = renderHook(() => useInfoTab(defaultScope));
 
     await waitFor(() => expect(result.current.loading).toBe(false));
 
@@ -9,6 +9,7 @@ import {
   updateManagedNamespace,
 } from '../../../utils/azure/az-namespaces';
 import { RESOURCE_GROUP_LABEL, SUBSCRIPTION_LABEL } from '../../../utils/constants/projectLabels';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
 import {
   DEFAULT_FORM_DATA,
   type FormData,
@@ -90,26 +91,22 @@ export interface UseInfoTabResult {
  * Fetches managed namespace details from the Azure CLI and pre-populates the networking
  * and compute quota form fields. Provides handlers for form changes and persisting updates.
  *
- * @param project - The project whose first cluster and namespace are used for Azure CLI calls.
+ * Namespaces that are not managed namespaces of the cluster have no details.
+ *
+ * @param scope - Cluster and namespace of the project used for Azure CLI calls; the
+ *   InfoTab passes the selected scope.
  * @returns State and handlers for the InfoTab component to render.
  */
-export const useInfoTab = (project: {
-  clusters: string[];
-  namespaces: string[];
-  id: string;
-}): UseInfoTabResult => {
+export const useInfoTab = (scope: ProjectScope): UseInfoTabResult => {
   const { t } = useTranslation();
 
   // Destructure stable primitives so the effects below don't re-run on
-  // every render when the caller passes a new project object reference.
-  const clusterName = project.clusters[0];
-  const projectId = project.id;
+  // every render when the caller passes a new scope object reference.
+  const { cluster: clusterName, namespace: namespaceName } = scope;
 
-  const [namespaceInstance] = K8s.ResourceClasses.Namespace.useGet(
-    project.namespaces[0],
-    undefined,
-    { cluster: clusterName }
-  );
+  const [namespaceInstance] = K8s.ResourceClasses.Namespace.useGet(namespaceName, undefined, {
+    cluster: clusterName,
+  });
   const subscription = namespaceInstance?.jsonData?.metadata?.labels?.[SUBSCRIPTION_LABEL];
   const resourceGroup = namespaceInstance?.jsonData?.metadata?.labels?.[RESOURCE_GROUP_LABEL];
 
@@ -159,7 +156,7 @@ export const useInfoTab = (project: {
           return;
         }
 
-        if (nsList.length === 0) {
+        if (!nsList.includes(namespaceName)) {
           if (isMounted) setNamespaceDetails(null);
           return;
         }
@@ -168,7 +165,7 @@ export const useInfoTab = (project: {
           const details = await getManagedNamespaceDetails({
             clusterName,
             resourceGroup,
-            namespaceName: projectId,
+            namespaceName: namespaceName,
             subscriptionId: subscription,
           });
           if (isMounted) setNamespaceDetails(details);
@@ -187,7 +184,7 @@ export const useInfoTab = (project: {
     return () => {
       isMounted = false;
     };
-  }, [clusterName, projectId, subscription, resourceGroup]);
+  }, [clusterName, namespaceName, subscription, resourceGroup]);
 
   // Pre-populate form when namespace details are fetched
   useEffect(() => {
@@ -254,7 +251,7 @@ export const useInfoTab = (project: {
   }, [baselineFormData, formData]);
 
   const handleSave = useCallback(() => {
-    if (!resourceGroup || !clusterName || !projectId) return;
+    if (!resourceGroup || !clusterName || !namespaceName) return;
 
     setUpdating(true);
     clusterAction(
@@ -263,7 +260,7 @@ export const useInfoTab = (project: {
           await updateManagedNamespace({
             clusterName,
             resourceGroup,
-            namespaceName: projectId,
+            namespaceName: namespaceName,
             ingressPolicy: formData.ingress,
             egressPolicy: formData.egress,
             cpuRequest: formData.cpuRequest,
@@ -282,14 +279,14 @@ export const useInfoTab = (project: {
         }
       },
       {
-        startMessage: t('Updating namespace {{ name }}…', { name: projectId }),
-        cancelledMessage: t('Cancelled update of namespace {{ name }}.', { name: projectId }),
-        successMessage: t('Updated namespace {{ name }}.', { name: projectId }),
-        errorMessage: t('Failed to update namespace {{ name }}.', { name: projectId }),
+        startMessage: t('Updating namespace {{ name }}…', { name: namespaceName }),
+        cancelledMessage: t('Cancelled update of namespace {{ name }}.', { name: namespaceName }),
+        successMessage: t('Updated namespace {{ name }}.', { name: namespaceName }),
+        errorMessage: t('Failed to update namespace {{ name }}.', { name: namespaceName }),
         startOptions: { autoHideDuration: null },
       }
     );
-  }, [resourceGroup, clusterName, projectId, subscription, formData, t]);
+  }, [resourceGroup, clusterName, namespaceName, subscription, formData, t]);
 
   return {
     loading,
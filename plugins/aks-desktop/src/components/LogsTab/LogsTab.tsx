@@ -5,39 +5,63 @@ import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 // @ts-ignore todo: LogsViewer is not importing
 import { LogsViewer } from '@kinvolk/headlamp-plugin/lib/CommonComponents';
 import { type KubeObject } from '@kinvolk/headlamp-plugin/lib/lib/k8s/cluster';
-import { Box } from '@mui/material';
+import { Box, ToggleButton, ToggleButtonGroup } from '@mui/material';
 import { visuallyHidden } from '@mui/utils';
-import React from 'react';
+import React, { useMemo } from 'react';
+import type { ProjectDefinition } from '../../types/project';
 import { DeploymentSelector } from '../shared/DeploymentSelector';
 import { EmptyStateCard } from '../shared/EmptyStateCard';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { LogExplorer } from './components/LogExplorer';
 import { useLogsTab } from './hooks/useLogsTab';
 
 /**
  * Props for the {@link LogsTab} component.
  */
 interface LogsTabProps {
+  /** The project whose clusters and namespaces the scope switcher offers. */
+  project: ProjectDefinition;
   /** All Kubernetes resources for the project; Deployments are filtered from this list. */
   projectResources: KubeObject[];
 }
 
 /**
- * Displays live logs for a deployment in the project namespace.
+ * Displays logs for the deployments in the project namespace.
  *
- * Shows an empty state when no deployments exist. When multiple deployments are present,
- * renders a selector so the user can switch between them. Uses a visually-hidden live
- * region to announce the empty state to screen readers.
+ * Shows an empty state when no deployments exist. Otherwise offers two views: live logs
+ * for a single deployment (with a selector when multiple deployments are present), and
+ * a log explorer that merges logs across deployments. Uses a visually-hidden live
+ * region to announce the empty state to screen readers. Projects spanning several
+ * clusters or namespaces pick the one shown with a scope switcher.
  *
+ * @param props.project - The project whose scopes are offered.
  * @param props.projectResources - All project resources; Deployments are extracted internally.
  */
-const LogsTab = ({ projectResources }: LogsTabProps) => {
+const LogsTab = ({ project, projectResources }: LogsTabProps) => {
   const { t } = useTranslation();
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const scopedResources = useMemo(
+    () =>
+      projectResources.filter(
+        it =>
+          it.cluster === selected.cluster && it.jsonData.metadata.namespace === selected.namespace
+      ),
+    [projectResources, selected.cluster, selected.namespace]
+  );
   const {
     deployments,
     selectedDeployment,
     selectedDeploymentName,
     liveReady,
+    view,
+    setView,
     setSelectedDeploymentName,
-  } = useLogsTab(projectResources);
+  } = useLogsTab(scopedResources);
+
+  const scopeSelector = (
+    <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+  );
 
   return (
     <>
@@ -48,6 +72,7 @@ const LogsTab = ({ projectResources }: LogsTabProps) => {
 
       {!deployments.length ? (
         <Box sx={{ mt: 2 }}>
+          {scopes.length > 1 && <Box sx={{ px: 1, mb: 2 }}>{scopeSelector}</Box>}
           <EmptyStateCard
             message={t('No Deployments Found')}
             subMessages={[
@@ -58,18 +83,38 @@ const LogsTab = ({ projectResources }: LogsTabProps) => {
         </Box>
       ) : (
         <>
-          {deployments.length > 1 && (
-            <Box sx={{ p: 2, px: 1 }}>
+          <Box
+            sx={{ p: 2, px: 1, display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}
+          >
+            {scopeSelector}
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={view}
+              onChange={(_, value) => value && setView(value)}
+              aria-label={t('Log view')}
+            >
+              <ToggleButton value="live">{t('Live logs')}</ToggleButton>
+              <ToggleButton value="explorer">{t('Log explorer')}</ToggleButton>
+            </ToggleButtonGroup>
+            {view === 'live' && deployments.length > 1 && (
               <DeploymentSelector
                 selectedDeployment={selectedDeploymentName}
                 deployments={deployments.map(d => ({ name: d.jsonData.metadata.name as string }))}
                 onDeploymentChange={setSelectedDeploymentName}
                 suppressLiveRegion
               />
-            </Box>
-          )}
-          {selectedDeployment && (
-            <LogsViewer item={selectedDeployment} key={selectedDeployment.jsonData.metadata.uid} />
+            )}
+          </Box>
+          {view === 'explorer' ? (
+            <LogExplorer deployments={deployments} />
+          ) : (
+            selectedDeployment && (
+              <LogsViewer
+                item={selectedDeployment}
+                key={selectedDeployment.jsonData.metadata.uid}
+              />
+            )
           )}
         </>
       )}
@@ -0,0 +1,292 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { type KubeObject } from '@kinvolk/headlamp-plugin/lib/lib/k8s/cluster';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  LinearProgress,
+  MenuItem,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React, { useMemo, useState } from 'react';
+import { downloadFile } from '../../../utils/shared/download';
+import { useProjectLogs } from '../hooks/useProjectLogs';
+import {
+  assignSourceColors,
+  filterLogLines,
+  formatLogsForExport,
+  getLogSourceKey,
+  LOG_SEVERITIES,
+  type LogSeverity,
+} from '../utils/logLines';
+
+/** Colours for the severity badge shown in front of structured log lines. */
+const SEVERITY_COLORS: Record<LogSeverity, 'default' | 'info' | 'warning' | 'error'> = {
+  trace: 'default',
+  debug: 'default',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  fatal: 'error',
+};
+
+/** Props for the {@link LogExplorer} component. */
+interface LogExplorerProps {
+  /** Deployments in the project; all of them are selected initially. */
+  deployments: KubeObject[];
+}
+
+/**
+ * Project-wide log explorer.
+ *
+ * Merges the logs of every pod of the selected Deployments into one timeline
+ * with a colour tag per pod/container, and supports text or regex filtering,
+ * a minimum severity for JSON and logfmt logs, reading the previous instance
+ * of restarted containers, and exporting the filtered lines.
+ *
+ * @param props.deployments - Deployments whose pods can be included.
+ */
+export const LogExplorer: React.FC<LogExplorerProps> = ({ deployments }) => {
+  const { t } = useTranslation();
+  const names = useMemo(
+    () => deployments.map(d => d.jsonData.metadata.name as string),
+    [deployments]
+  );
+  const [selectedNames, setSelectedNames] = useState<string[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [minSeverity, setMinSeverity] = useState<LogSeverity | null>(null);
+  const [previous, setPrevious] = useState(false);
+  const [follow, setFollow] = useState(false);
+
+  // `null` means "everything", so newly created Deployments are picked up automatically.
+  const activeNames = useMemo(
+    () => (selectedNames ?? names).filter(name => names.includes(name)),
+    [selectedNames, names]
+  );
+  const workloads = useMemo(
+    () => deployments.filter(d => activeNames.includes(d.jsonData.metadata.name as string)),
+    [deployments, activeNames]
+  );
+
+  const { lines, sources, failedSources, loading, error, refresh } = useProjectLogs(workloads, {
+    previous,
+    follow,
+  });
+
+  const filtered = useMemo(
+    () => filterLogLines(lines, { query, regex, caseSensitive, minSeverity }),
+    [lines, query, regex, caseSensitive, minSeverity]
+  );
+
+  const colors = useMemo(() => assignSourceColors(sources.map(getLogSourceKey)), [sources]);
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadFile(
+      `${activeNames.join('_') || 'logs'}-${stamp}.log`,
+      formatLogsForExport(filtered.lines),
+      'text/plain;charset=utf-8'
+    );
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, p: 1 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+        <Autocomplete
+          multiple
+          size="small"
+          options={names}
+          value={activeNames}
+          onChange={(_, value) => setSelectedNames(value)}
+          renderInput={params => <TextField {...params} label={t('Workloads')} />}
+          sx={{ minWidth: 260, flex: 1 }}
+        />
+        <TextField
+          size="small"
+          label={regex ? t('Regular expression') : t('Filter')}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          error={!!filtered.error}
+          helperText={filtered.error ? t('Invalid regular expression') : undefined}
+          sx={{ minWidth: 260, flex: 1 }}
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">
+                <Tooltip title={t('Match case')}>
+                  <IconButton
+                    size="small"
+                    aria-label={t('Match case')}
+                    aria-pressed={caseSensitive}
+                    color={caseSensitive ? 'primary' : 'default'}
+                    onClick={() => setCaseSensitive(v => !v)}
+                  >
+                    <Icon icon="mdi:format-letter-case" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={t('Use regular expression')}>
+                  <IconButton
+                    size="small"
+                    aria-label={t('Use regular expression')}
+                    aria-pressed={regex}
+                    color={regex ? 'primary' : 'default'}
+                    onClick={() => setRegex(v => !v)}
+                  >
+                    <Icon icon="mdi:regex" />
+                  </IconButton>
+                </Tooltip>
+              </InputAdornment>
+            ),
+          }}
+        />
+        <TextField
+          select
+          size="small"
+          label={t('Minimum severity')}
+          value={minSeverity ?? 'all'}
+          onChange={e =>
+            setMinSeverity(e.target.value === 'all' ? null : (e.target.value as LogSeverity))
+          }
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="all">{t('All lines')}</MenuItem>
+          {LOG_SEVERITIES.map(severity => (
+            <MenuItem key={severity} value={severity}>
+              {severity.toUpperCase()}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+        <FormControlLabel
+          control={<Switch checked={previous} onChange={e => setPrevious(e.target.checked)} />}
+          label={
+            <Tooltip
+              title={t(
+                'Show logs from the last terminated instance of containers that have restarted, such as crash-looping pods.'
+              )}
+            >
+              <span>{t('Previous container')}</span>
+            </Tooltip>
+          }
+        />
+        <FormControlLabel
+          control={<Switch checked={follow} onChange={e => setFollow(e.target.checked)} />}
+          label={t('Follow')}
+        />
+        <Box sx={{ flex: 1 }} />
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Icon icon="mdi:refresh" />}
+          onClick={refresh}
+          disabled={loading}
+        >
+          {t('Refresh')}
+        </Button>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Icon icon="mdi:download" />}
+          onClick={handleExport}
+          disabled={filtered.lines.length === 0}
+        >
+          {t('Export')}
+        </Button>
+      </Box>
+
+      {error && <Alert severity="error">{t('Failed to list pods: {{error}}', { error })}</Alert>}
+      {failedSources.length > 0 && (
+        <Alert severity="warning">
+          {t('Could not read logs from: {{sources}}', { sources: failedSources.join(', ') })}
+        </Alert>
+      )}
+
+      {sources.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {[...colors.entries()].map(([key, color]) => (
+            <Chip
+              key={key}
+              size="small"
+              variant="outlined"
+              label={key}
+              sx={{ borderColor: color, color }}
+            />
+          ))}
+        </Box>
+      )}
+
+      <Typography variant="body2" color="text.secondary" role="status" aria-live="polite">
+        {loading
+          ? t('Loading logs')
+          : previous && sources.length === 0 && workloads.length > 0
+          ? t('No containers have restarted, so there are no previous logs.')
+          : t('Showing {{shown}} of {{total}} lines', {
+              shown: filtered.lines.length,
+              total: lines.length,
+            })}
+      </Typography>
+
+      <Box sx={{ height: 4 }}>{loading && <LinearProgress />}</Box>
+
+      <Box
+        role="log"
+        aria-label={t('Merged logs')}
+        tabIndex={0}
+        sx={{
+          fontFamily: 'monospace',
+          fontSize: '0.8rem',
+          maxHeight: 600,
+          overflow: 'auto',
+          bgcolor: 'background.default',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          p: 1,
+        }}
+      >
+        {filtered.lines.map((line, idx) => {
+          const key = getLogSourceKey(line);
+          return (
+            <Box
+              key={`${key}-${line.timestamp}-${idx}`}
+              sx={{ display: 'flex', gap: 1, alignItems: 'baseline', whiteSpace: 'pre-wrap' }}
+            >
+              <Box component="span" sx={{ color: 'text.secondary', flexShrink: 0 }}>
+                {line.timestamp}
+              </Box>
+              <Box component="span" sx={{ color: colors.get(key), flexShrink: 0 }}>
+                [{key}]
+              </Box>
+              {line.severity && (
+                <Chip
+                  size="small"
+                  label={line.severity.toUpperCase()}
+                  color={SEVERITY_COLORS[line.severity]}
+                  sx={{ height: 18, fontSize: '0.7rem', flexShrink: 0 }}
+                />
+              )}
+              <Box component="span" sx={{ wordBreak: 'break-all' }}>
+                {line.message}
+              </Box>
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
@@ -96,4 +96,14 @@ describe('useLogsTab', () => {
     expect(result.current.selectedDeploymentName).toBe('app-1');
     expect(result.current.selectedDeployment?.jsonData.metadata.name).toBe('app-1');
   });
+
+  test('starts in the live view and can switch to the explorer', () => {
+    const { result } = renderHook(() => useLogsTab([makeResource('Deployment', 'app-1')]));
+
+    expect(result.current.view).toBe('live');
+
+    act(() => result.current.setView('explorer'));
+
+    expect(result.current.view).toBe('explorer');
+  });
 });
@@ -4,6 +4,9 @@
 import { type KubeObject } from '@kinvolk/headlamp-plugin/lib/lib/k8s/cluster';
 import { useEffect, useMemo, useState } from 'react';
 
+/** Which log view the tab shows: Headlamp's live viewer for one Deployment or the project-wide explorer. */
+export type LogsTabView = 'live' | 'explorer';
+
 /**
  * Return type for the {@link useLogsTab} hook.
  */
@@ -19,6 +22,10 @@ export interface UseLogsTabResult {
    * then flips to true after the first paint so empty-state text changes are announced.
    */
   liveReady: boolean;
+  /** The active log view. Defaults to `'live'`. */
+  view: LogsTabView;
+  /** Switches between the live viewer and the log explorer. */
+  setView: (view: LogsTabView) => void;
   /** Updates the selected deployment by name. */
   setSelectedDeploymentName: (name: string) => void;
 }
@@ -41,6 +48,7 @@ export const useLogsTab = (projectResources: KubeObject[]): UseLogsTabResult =>
 
   const [selectedDeploymentName, setSelectedDeploymentName] = useState<string>('');
   const [liveReady, setLiveReady] = useState(false);
+  const [view, setView] = useState<LogsTabView>('live');
 
   useEffect(() => {
     setLiveReady(true);
@@ -65,6 +73,8 @@ export const useLogsTab = (projectResources: KubeObject[]): UseLogsTabResult =>
     selectedDeployment,
     selectedDeploymentName,
     liveReady,
+    view,
+    setView,
     setSelectedDeploymentName,
   };
 };
@@ -0,0 +1,158 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+const mockClusterRequest = vi.hoisted(() => vi.fn());
+
+vi.mock('@kinvolk/headlamp-plugin/lib/ApiProxy', () => ({
+  clusterRequest: mockClusterRequest,
+}));
+
+import { useProjectLogs } from './useProjectLogs';
+
+/** Helper to create a minimal Deployment-shaped KubeObject. */
+function makeDeployment(name: string) {
+  return {
+    kind: 'Deployment',
+    cluster: 'test-cluster',
+    jsonData: {
+      metadata: { name, namespace: 'test-ns', uid: `uid-${name}` },
+      spec: { selector: { matchLabels: { app: name } } },
+    },
+  } as any;
+}
+
+/** Helper to create a pod with the given containers and restart counts. */
+function makePod(name: string, containers: Record<string, number>) {
+  return {
+    metadata: { name },
+    spec: { containers: Object.keys(containers).map(c => ({ name: c })) },
+    status: {
+      containerStatuses: Object.entries(containers).map(([c, restartCount]) => ({
+        name: c,
+        restartCount,
+      })),
+    },
+  };
+}
+
+/** Routes pod list and log requests to canned responses. */
+function mockCluster(pods: Record<string, object[]>, logs: Record<string, string | Error>) {
+  mockClusterRequest.mockImplementation(async (path: string) => {
+    const url = new URL(path, 'http://localhost');
+    if (url.pathname.endsWith('/pods')) {
+      const app = url.searchParams.get('labelSelector')!.replace('app=', '');
+      return { items: pods[app] ?? [] };
+    }
+    const pod = url.pathname.split('/')[6];
+    const log = logs[`${pod}/${url.searchParams.get('container')}`];
+    if (log instanceof Error) throw log;
+    return { text: async () => log ?? '' };
+  });
+}
+
+describe('useProjectLogs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('does nothing when no workloads are selected', () => {
+    const { result } = renderHook(() => useProjectLogs([], { previous: false, follow: false }));
+
+    expect(result.current.lines).toEqual([]);
+    expect(result.current.loading).toBe(false);
+    expect(mockClusterRequest).not.toHaveBeenCalled();
+  });
+
+  test('merges logs from every container of every selected workload', async () => {
+    mockCluster(
+      {
+        web: [makePod('web-1', { app: 0, proxy: 0 })],
+        worker: [makePod('worker-1', { worker: 0 })],
+      },
+      {
+        'web-1/app': '2024-05-01T10:00:00Z web start\n2024-05-01T10:00:03Z web ready',
+        'web-1/proxy': '2024-05-01T10:00:01Z proxy start',
+        'worker-1/worker': '2024-05-01T10:00:02Z level=error msg=boom',
+      }
+    );
+
+    const workloads = [makeDeployment('web'), makeDeployment('worker')];
+    const { result } = renderHook(() =>
+      useProjectLogs(workloads, { previous: false, follow: false })
+    );
+
+    await waitFor(() => expect(result.current.lines).toHaveLength(4));
+
+    expect(result.current.lines.map(l => `${l.pod}/${l.container}: ${l.message}`)).toEqual([
+      'web-1/app: web start',
+      'web-1/proxy: proxy start',
+      'worker-1/worker: level=error msg=boom',
+      'web-1/app: web ready',
+    ]);
+    expect(result.current.lines[2].severity).toBe('error');
+    expect(result.current.sources).toHaveLength(3);
+    expect(result.current.loading).toBe(false);
+    expect(mockClusterRequest).toHaveBeenCalledWith(
+      '/api/v1/namespaces/test-ns/pods/web-1/log?container=app&timestamps=true&tailLines=500',
+      { method: 'GET', cluster: 'test-cluster', isJSON: false }
+    );
+  });
+
+  test('only reads previous logs of containers that have restarted', async () => {
+    mockCluster(
+      { web: [makePod('web-1', { app: 3, proxy: 0 })] },
+      { 'web-1/app': '2024-05-01T10:00:00Z panic: nil map' }
+    );
+
+    const workloads = [makeDeployment('web')];
+    const { result } = renderHook(() =>
+      useProjectLogs(workloads, { previous: true, follow: false })
+    );
+
+    await waitFor(() => expect(result.current.lines).toHaveLength(1));
+
+    const logCalls = mockClusterRequest.mock.calls.filter(([path]) => path.includes('/log?'));
+    expect(logCalls).toHaveLength(1);
+    expect(logCalls[0][0]).toContain('container=app');
+    expect(logCalls[0][0]).toContain('previous=true');
+  });
+
+  test('reports containers whose logs fail without dropping the others', async () => {
+    mockCluster(
+      { web: [makePod('web-1', { app: 0, proxy: 0 })] },
+      {
+        'web-1/app': '2024-05-01T10:00:00Z ok',
+        'web-1/proxy': new Error('container is waiting to start'),
+      }
+    );
+
+    const workloads = [makeDeployment('web')];
+    const { result } = renderHook(() =>
+      useProjectLogs(workloads, { previous: false, follow: false })
+    );
+
+    await waitFor(() => expect(result.current.failedSources).toEqual(['web-1/proxy']));
+    expect(result.current.lines.map(l => l.message)).toEqual(['ok']);
+    expect(result.current.error).toBeNull();
+  });
+
+  test('surfaces errors listing pods', async () => {
+    mockClusterRequest.mockRejectedValue(new Error('forbidden'));
+
+    const workloads = [makeDeployment('web')];
+    const { result } = renderHook(() =>
+      useProjectLogs(workloads, { previous: false, follow: false })
+    );
+
+    await waitFor(() => expect(result.current.error).toBe('forbidden'));
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -0,0 +1,207 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { type KubeObject } from '@kinvolk/headlamp-plugin/lib/lib/k8s/cluster';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LOG_EXPLORER_REFRESH_INTERVAL_MS } from '../../../utils/constants/timing';
+import {
+  getLogSourceKey,
+  type LogLine,
+  type LogSource,
+  mergeLogStreams,
+  parseLogText,
+} from '../utils/logLines';
+
+/** Number of lines requested from each container. */
+export const LOG_EXPLORER_TAIL_LINES = 500;
+
+/** Options for {@link useProjectLogs}. */
+export interface UseProjectLogsOptions {
+  /** Read logs from the previous (terminated) instance of each container. */
+  previous: boolean;
+  /** Re-fetch periodically while enabled. */
+  follow: boolean;
+}
+
+/** Result returned by {@link useProjectLogs}. */
+export interface UseProjectLogsResult {
+  /** Lines from every container of every selected workload, ordered by timestamp. */
+  lines: LogLine[];
+  /** Every pod/container that was read, including those that returned no lines. */
+  sources: LogSource[];
+  /** Containers whose logs could not be read, as `pod/container` keys. */
+  failedSources: string[];
+  loading: boolean;
+  /** Set when the pods of the selected workloads could not be listed. */
+  error: string | null;
+  /** Re-fetches logs immediately. */
+  refresh: () => void;
+}
+
+interface PodContainerStatus {
+  name: string;
+  restartCount?: number;
+}
+
+interface PodResource {
+  metadata?: { name?: string };
+  spec?: { containers?: { name: string }[]; initContainers?: { name: string }[] };
+  status?: {
+    containerStatuses?: PodContainerStatus[];
+    initContainerStatuses?: PodContainerStatus[];
+  };
+}
+
+/**
+ * Lists the containers of a pod whose logs can be read. With `previous`,
+ * only containers that have restarted have a previous instance; asking the
+ * API server for any other container fails with a 400.
+ */
+function getLogContainers(pod: PodResource, previous: boolean): string[] {
+  const containers = [...(pod.spec?.initContainers ?? []), ...(pod.spec?.containers ?? [])].map(
+    c => c.name
+  );
+  if (!previous) return containers;
+
+  const restarted = new Set(
+    [...(pod.status?.initContainerStatuses ?? []), ...(pod.status?.containerStatuses ?? [])]
+      .filter(s => (s.restartCount ?? 0) > 0)
+      .map(s => s.name)
+  );
+  return containers.filter(name => restarted.has(name));
+}
+
+function toLabelSelector(matchLabels: Record<string, string>): string {
+  return Object.entries(matchLabels)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+}
+
+/**
+ * Fetches and merges logs from all pods of the given workloads.
+ *
+ * Pods are resolved from each Deployment's `spec.selector.matchLabels`, then
+ * the tail of every container's log is read with kubelet timestamps so the
+ * streams can be merged into one timeline. A container whose logs can't be
+ * read is reported in `failedSources` without failing the others.
+ *
+ * @param workloads - Deployments whose pods should be read.
+ * @param options - Whether to read previous container instances and whether to keep polling.
+ */
+export function useProjectLogs(
+  workloads: KubeObject[],
+  { previous, follow }: UseProjectLogsOptions
+): UseProjectLogsResult {
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [sources, setSources] = useState<LogSource[]>([]);
+  const [failedSources, setFailedSources] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
+  // Incremented per fetch so results from an outdated fetch are discarded.
+  const generationRef = useRef(0);
+
+  const refresh = useCallback(() => setRefreshToken(n => n + 1), []);
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    const isStale = () => generation !== generationRef.current;
+
+    if (workloads.length === 0) {
+      // Keep existing empty arrays so callers passing a fresh `[]` don't re-render forever.
+      setLines(prev => (prev.length ? [] : prev));
+      setSources(prev => (prev.length ? [] : prev));
+      setFailedSources(prev => (prev.length ? [] : prev));
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    (async () => {
+      const targets: { source: LogSource; namespace: string; cluster?: string }[] = [];
+      const listErrors: string[] = [];
+
+      await Promise.all(
+        workloads.map(async workload => {
+          const workloadName = workload.jsonData.metadata.name as string;
+          const namespace = workload.jsonData.metadata.namespace as string;
+          const matchLabels = workload.jsonData.spec?.selector?.matchLabels;
+          if (!matchLabels) return;
+
+          try {
+            const response = await clusterRequest(
+              `/api/v1/namespaces/${namespace}/pods?labelSelector=${encodeURIComponent(
+                toLabelSelector(matchLabels)
+              )}`,
+              { method: 'GET', cluster: workload.cluster }
+            );
+            for (const pod of (response?.items ?? []) as PodResource[]) {
+              const podName = pod.metadata?.name;
+              if (!podName) continue;
+              for (const container of getLogContainers(pod, previous)) {
+                targets.push({
+                  source: { workload: workloadName, pod: podName, container },
+                  namespace,
+                  cluster: workload.cluster,
+                });
+              }
+            }
+          } catch (err) {
+            console.error(`LogsTab: Error listing pods for ${workloadName}:`, err);
+            listErrors.push(err instanceof Error ? err.message : String(err));
+          }
+        })
+      );
+
+      const failed: string[] = [];
+      const streams = await Promise.all(
+        targets.map(async ({ source, namespace, cluster }) => {
+          const params = new URLSearchParams({
+            container: source.container,
+            timestamps: 'true',
+            tailLines: String(LOG_EXPLORER_TAIL_LINES),
+          });
+          if (previous) params.set('previous', 'true');
+
+          try {
+            const response: Response = await clusterRequest(
+              `/api/v1/namespaces/${namespace}/pods/${source.pod}/log?${params.toString()}`,
+              { method: 'GET', cluster, isJSON: false }
+            );
+            return parseLogText(await response.text(), source);
+          } catch (err) {
+            console.error(`LogsTab: Error reading logs for ${getLogSourceKey(source)}:`, err);
+            failed.push(getLogSourceKey(source));
+            return [];
+          }
+        })
+      );
+
+      if (isStale()) return;
+      setLines(mergeLogStreams(streams));
+      setSources(targets.map(t => t.source));
+      setFailedSources(failed.sort());
+      setError(listErrors.length > 0 ? listErrors.join('; ') : null);
+      setLoading(false);
+    })();
+  }, [workloads, previous, refreshToken]);
+
+  useEffect(() => {
+    if (!follow) return;
+    const interval = setInterval(refresh, LOG_EXPLORER_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [follow, refresh]);
+
+  // Invalidate in-flight fetches on unmount.
+  useEffect(
+    () => () => {
+      generationRef.current++;
+    },
+    []
+  );
+
+  return { lines, sources, failedSources, loading, error, refresh };
+}
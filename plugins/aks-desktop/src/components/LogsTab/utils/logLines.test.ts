@@ -0,0 +1,151 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, test } from 'vitest';
+import {
+  assignSourceColors,
+  detectSeverity,
+  filterLogLines,
+  formatLogsForExport,
+  type LogFilterOptions,
+  mergeLogStreams,
+  parseLogText,
+} from './logLines';
+
+const web = { workload: 'web', pod: 'web-abc', container: 'app' };
+const proxy = { workload: 'web', pod: 'web-abc', container: 'proxy' };
+
+const noFilter: LogFilterOptions = {
+  query: '',
+  regex: false,
+  caseSensitive: false,
+  minSeverity: null,
+};
+
+describe('detectSeverity', () => {
+  test.each([
+    ['{"level":"info","msg":"started"}', 'info'],
+    ['{"severity":"WARNING","message":"slow"}', 'warn'],
+    ['{"level":50,"msg":"pino error"}', 'error'],
+    ['{"log":{"level":"critical"},"message":"ecs"}', 'fatal'],
+    ['time=2024-01-01T00:00:00Z level=debug msg="cache miss"', 'debug'],
+    ['ts=1 lvl="error" msg=boom', 'error'],
+    ['severity=TRACE msg=x', 'trace'],
+  ])('detects severity in %s', (message, expected) => {
+    expect(detectSeverity(message)).toBe(expected);
+  });
+
+  test('returns null for plain text, unknown levels and malformed JSON', () => {
+    expect(detectSeverity('ERROR something bad happened')).toBeNull();
+    expect(detectSeverity('{"level":"chatty"}')).toBeNull();
+    expect(detectSeverity('{"level": "info"')).toBeNull();
+    expect(detectSeverity('mylevel=error')).toBeNull();
+  });
+});
+
+describe('parseLogText', () => {
+  test('splits kubelet timestamps from messages and detects severity', () => {
+    const lines = parseLogText(
+      '2024-05-01T10:00:00.123456789Z {"level":"warn","msg":"slow"}\n' +
+        '2024-05-01T10:00:01Z plain text\n',
+      web
+    );
+
+    expect(lines).toEqual([
+      {
+        ...web,
+        timestamp: '2024-05-01T10:00:00.123456789Z',
+        time: Date.parse('2024-05-01T10:00:00.123Z'),
+        message: '{"level":"warn","msg":"slow"}',
+        severity: 'warn',
+      },
+      {
+        ...web,
+        timestamp: '2024-05-01T10:00:01Z',
+        time: Date.parse('2024-05-01T10:00:01Z'),
+        message: 'plain text',
+        severity: null,
+      },
+    ]);
+  });
+
+  test('lines without a timestamp inherit the previous line time', () => {
+    const [first, second] = parseLogText('2024-05-01T10:00:05Z Error:\n    at main.js:1', web);
+
+    expect(second.timestamp).toBe('');
+    expect(second.time).toBe(first.time);
+    expect(second.message).toBe('    at main.js:1');
+  });
+});
+
+describe('mergeLogStreams', () => {
+  test('orders lines from all containers by time, keeping ties in stream order', () => {
+    const a = parseLogText('2024-05-01T10:00:00Z a1\n2024-05-01T10:00:02Z a2', web);
+    const b = parseLogText('2024-05-01T10:00:01Z b1\n2024-05-01T10:00:02Z b2', proxy);
+
+    expect(mergeLogStreams([a, b]).map(l => l.message)).toEqual(['a1', 'b1', 'a2', 'b2']);
+  });
+});
+
+describe('filterLogLines', () => {
+  const lines = parseLogText(
+    [
+      '2024-05-01T10:00:00Z level=info msg="GET /health"',
+      '2024-05-01T10:00:01Z level=error msg="GET /orders failed"',
+      '2024-05-01T10:00:02Z unstructured Orders line',
+    ].join('\n'),
+    web
+  );
+
+  test('matches plain text case-insensitively by default', () => {
+    const result = filterLogLines(lines, { ...noFilter, query: 'orders' });
+    expect(result.lines).toHaveLength(2);
+    expect(result.error).toBeNull();
+  });
+
+  test('honours case sensitivity', () => {
+    const result = filterLogLines(lines, { ...noFilter, query: 'Orders', caseSensitive: true });
+    expect(result.lines.map(l => l.message)).toEqual(['unstructured Orders line']);
+  });
+
+  test('supports regular expressions', () => {
+    const result = filterLogLines(lines, {
+      ...noFilter,
+      query: 'GET /(health|orders)',
+      regex: true,
+    });
+    expect(result.lines).toHaveLength(2);
+  });
+
+  test('reports an invalid regular expression and skips the text filter', () => {
+    const result = filterLogLines(lines, { ...noFilter, query: '(', regex: true });
+    expect(result.error).not.toBeNull();
+    expect(result.lines).toHaveLength(3);
+  });
+
+  test('hides lines below the minimum severity and lines without one', () => {
+    const result = filterLogLines(lines, { ...noFilter, minSeverity: 'warn' });
+    expect(result.lines.map(l => l.severity)).toEqual(['error']);
+  });
+});
+
+describe('assignSourceColors', () => {
+  test('gives each source a stable colour regardless of input order', () => {
+    const first = assignSourceColors(['web-b/app', 'web-a/app']);
+    const second = assignSourceColors(['web-a/app', 'web-b/app', 'web-a/app']);
+
+    expect(first.size).toBe(2);
+    expect(second.get('web-a/app')).toBe(first.get('web-a/app'));
+    expect(first.get('web-a/app')).not.toBe(first.get('web-b/app'));
+  });
+});
+
+describe('formatLogsForExport', () => {
+  test('prefixes each line with its timestamp and source', () => {
+    const lines = parseLogText('2024-05-01T10:00:00Z hello\nno timestamp', proxy);
+
+    expect(formatLogsForExport(lines)).toBe(
+      '2024-05-01T10:00:00Z [web-abc/proxy] hello\n[web-abc/proxy] no timestamp'
+    );
+  });
+});
@@ -0,0 +1,231 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/** Normalized severity levels, ordered from least to most severe. */
+export const LOG_SEVERITIES = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'] as const;
+
+export type LogSeverity = (typeof LOG_SEVERITIES)[number];
+
+/** Identifies the container a log line was read from. */
+export interface LogSource {
+  /** Name of the Deployment that owns the pod. */
+  workload: string;
+  pod: string;
+  container: string;
+}
+
+/** A single log line parsed from `kubectl logs --timestamps` style output. */
+export interface LogLine extends LogSource {
+  /** RFC 3339 timestamp written by the kubelet, or an empty string if absent. */
+  timestamp: string;
+  /** Timestamp in epoch milliseconds; used for ordering merged streams. */
+  time: number;
+  message: string;
+  /** Severity detected from a JSON or logfmt payload, or `null` for plain text. */
+  severity: LogSeverity | null;
+}
+
+/** Options controlling {@link filterLogLines}. */
+export interface LogFilterOptions {
+  /** Text or regular expression to match against the message. Empty matches everything. */
+  query: string;
+  /** Treat `query` as a regular expression instead of plain text. */
+  regex: boolean;
+  caseSensitive: boolean;
+  /**
+   * Hide lines below this severity. Lines without a detectable severity are
+   * hidden too, since they can't be ranked. `null` disables the severity filter.
+   */
+  minSeverity: LogSeverity | null;
+}
+
+/** Result of {@link filterLogLines}. */
+export interface LogFilterResult {
+  lines: LogLine[];
+  /** Message describing why the regular expression is invalid; the text filter is skipped. */
+  error: string | null;
+}
+
+/** Keys that commonly hold the level in structured JSON logs (zap, pino, bunyan, Serilog, ECS…). */
+const JSON_SEVERITY_KEYS = ['level', 'severity', 'lvl', 'loglevel', 'log.level', '@l'];
+
+/** Matches `level=warn`, `lvl="error"` or `severity=INFO` anywhere in a logfmt line. */
+const LOGFMT_SEVERITY_PATTERN = /(?:^|\s)(?:level|lvl|severity)=("?)([A-Za-z]+)\1(?=\s|$)/i;
+
+const SEVERITY_ALIASES: Record<string, LogSeverity> = {
+  trace: 'trace',
+  trc: 'trace',
+  verbose: 'trace',
+  debug: 'debug',
+  dbg: 'debug',
+  info: 'info',
+  information: 'info',
+  notice: 'info',
+  inf: 'info',
+  warn: 'warn',
+  warning: 'warn',
+  wrn: 'warn',
+  error: 'error',
+  err: 'error',
+  eror: 'error',
+  fatal: 'fatal',
+  critical: 'fatal',
+  crit: 'fatal',
+  panic: 'fatal',
+  emerg: 'fatal',
+  alert: 'fatal',
+};
+
+/** Maps bunyan/pino numeric levels (10, 20, … 60) to a severity. */
+function numericSeverity(level: number): LogSeverity | null {
+  if (!Number.isFinite(level) || level < 10) return null;
+  const index = Math.min(Math.floor(level / 10) - 1, LOG_SEVERITIES.length - 1);
+  return LOG_SEVERITIES[index];
+}
+
+function normalizeSeverity(value: unknown): LogSeverity | null {
+  if (typeof value === 'number') return numericSeverity(value);
+  if (typeof value !== 'string') return null;
+  return SEVERITY_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Detects the severity of a structured log message.
+ *
+ * Supports single-line JSON objects and logfmt (`key=value`) lines. Plain
+ * text returns `null` rather than guessing from keywords in the message.
+ */
+export function detectSeverity(message: string): LogSeverity | null {
+  const trimmed = message.trim();
+
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    try {
+      const payload = JSON.parse(trimmed);
+      if (payload && typeof payload === 'object') {
+        for (const key of JSON_SEVERITY_KEYS) {
+          const severity = normalizeSeverity(payload[key]);
+          if (severity) return severity;
+        }
+        // ECS nests the level under `log`.
+        const nested = normalizeSeverity(payload.log?.level);
+        if (nested) return nested;
+      }
+    } catch {
+      // Not JSON after all; fall through to logfmt.
+    }
+  }
+
+  const match = LOGFMT_SEVERITY_PATTERN.exec(trimmed);
+  return match ? normalizeSeverity(match[2]) : null;
+}
+
+/**
+ * Splits raw log text fetched with `timestamps=true` into parsed lines.
+ * Lines without a leading timestamp inherit the time of the previous line
+ * so that continuation lines stay next to the entry they belong to.
+ */
+export function parseLogText(text: string, source: LogSource): LogLine[] {
+  const lines: LogLine[] = [];
+  let lastTime = 0;
+
+  for (const raw of text.split('\n')) {
+    if (!raw) continue;
+    const spaceIndex = raw.indexOf(' ');
+    const candidate = spaceIndex > 0 ? raw.slice(0, spaceIndex) : '';
+    const parsed = candidate ? Date.parse(candidate) : NaN;
+    const hasTimestamp = !Number.isNaN(parsed);
+    const message = hasTimestamp ? raw.slice(spaceIndex + 1) : raw;
+    if (hasTimestamp) lastTime = parsed;
+
+    lines.push({
+      ...source,
+      timestamp: hasTimestamp ? candidate : '',
+      time: lastTime,
+      message,
+      severity: detectSeverity(message),
+    });
+  }
+  return lines;
+}
+
+/**
+ * Merges per-container log streams into one stream ordered by timestamp.
+ * The sort is stable, so lines with equal timestamps keep their original order.
+ */
+export function mergeLogStreams(streams: LogLine[][]): LogLine[] {
+  return streams.flat().sort((a, b) => a.time - b.time);
+}
+
+/** Filters merged log lines by text or regular expression and minimum severity. */
+export function filterLogLines(lines: LogLine[], options: LogFilterOptions): LogFilterResult {
+  let matches: ((message: string) => boolean) | null = null;
+  let error: string | null = null;
+
+  if (options.query) {
+    if (options.regex) {
+      try {
+        const pattern = new RegExp(options.query, options.caseSensitive ? '' : 'i');
+        matches = message => pattern.test(message);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    } else if (options.caseSensitive) {
+      matches = message => message.includes(options.query);
+    } else {
+      const needle = options.query.toLowerCase();
+      matches = message => message.toLowerCase().includes(needle);
+    }
+  }
+
+  const minRank = options.minSeverity ? LOG_SEVERITIES.indexOf(options.minSeverity) : -1;
+
+  const filtered = lines.filter(line => {
+    if (minRank >= 0 && (!line.severity || LOG_SEVERITIES.indexOf(line.severity) < minRank)) {
+      return false;
+    }
+    return matches ? matches(line.message) : true;
+  });
+
+  return { lines: filtered, error };
+}
+
+/** Stable key identifying a pod/container pair. */
+export function getLogSourceKey(source: Pick<LogSource, 'pod' | 'container'>): string {
+  return `${source.pod}/${source.container}`;
+}
+
+/** Colours assigned to pod/container tags, chosen to stay readable in light and dark themes. */
+const SOURCE_COLORS = [
+  '#1976d2',
+  '#2e7d32',
+  '#ed6c02',
+  '#9c27b0',
+  '#0097a7',
+  '#c2185b',
+  '#5d4037',
+  '#689f38',
+  '#3949ab',
+  '#f57c00',
+];
+
+/**
+ * Assigns a colour to every pod/container pair. Keys are sorted first so a
+ * given source keeps its colour when other streams are added or removed.
+ */
+export function assignSourceColors(keys: string[]): Map<string, string> {
+  const colors = new Map<string, string>();
+  [...new Set(keys)].sort().forEach((key, index) => {
+    colors.set(key, SOURCE_COLORS[index % SOURCE_COLORS.length]);
+  });
+  return colors;
+}
+
+/** Renders log lines as plain text, one `timestamp [pod/container] message` entry per line. */
+export function formatLogsForExport(lines: LogLine[]): string {
+  return lines
+    .map(line => {
+      const prefix = line.timestamp ? `${line.timestamp} ` : '';
+      return `${prefix}[${getLogSourceKey(line)}] ${line.message}`;
+    })
+    .join('\n');
+}
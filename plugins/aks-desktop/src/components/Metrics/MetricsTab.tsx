@@ -4,17 +4,26 @@
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { Alert, AlertTitle, Box, CircularProgress, Typography } from '@mui/material';
 import { visuallyHidden } from '@mui/utils';
-import React from 'react';
+import React, { useState } from 'react';
 import { DeploymentSelector } from '../shared/DeploymentSelector';
 import { EmptyStateCard } from '../shared/EmptyStateCard';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { CustomPanelDialog } from './components/CustomPanelDialog';
 import { MetricsChartsGrid } from './components/MetricsChartsGrid';
 import { MetricsLoadingSkeleton } from './components/MetricsLoadingSkeleton';
 import { MetricsSummaryBar } from './components/MetricsSummaryBar';
+import { MetricsTimeRangePicker } from './components/MetricsTimeRangePicker';
 import { PodDetailsTable } from './components/PodDetailsTable';
+import { RightSizingPanel } from './components/RightSizingPanel';
+import { UsageComparison } from './components/UsageComparison';
+import { useCustomMetricPanels } from './hooks/useCustomMetricPanels';
 import { useDeployments } from './hooks/useDeployments';
 import { useNamespaceLabels } from './hooks/useNamespaceLabels';
 import { usePods } from './hooks/usePods';
 import { usePrometheusMetrics } from './hooks/usePrometheusMetrics';
+import { useVpaRecommendation } from './hooks/useVpaRecommendation';
+import { type CustomMetricPanel, DEFAULT_METRICS_TIME_RANGE, type MetricsTimeRange } from './utils';
 
 /** Props for the {@link MetricsTab} component. */
 export interface MetricsTabProps {
@@ -33,23 +42,32 @@ export interface MetricsTabProps {
  * Top-level component for the metrics tab.
  *
  * Composes necessary hooks and components to display metrics
- * for the selected deployment
+ * for the selected deployment over the chosen time range, including
+ * the custom PromQL panels saved for the project and VPA right-sizing
+ * recommendations. Projects spanning several clusters or namespaces get a
+ * selector for which one to show, and the current usage of every one of them
+ * side by side.
  */
 const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
   const { t } = useTranslation();
-  const namespace = project.namespaces?.[0];
-  const cluster = project.clusters?.[0];
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const { namespace, cluster } = selected;
 
   const { subscription, resourceGroupLabel } = useNamespaceLabels(namespace, cluster);
   const { deployments, selectedDeployment, loading, error, setSelectedDeployment } = useDeployments(
     namespace,
     cluster
   );
+  const [timeRange, setTimeRange] = useState<MetricsTimeRange>(DEFAULT_METRICS_TIME_RANGE);
+  const { panels: customPanels, savePanel, removePanel } = useCustomMetricPanels(project.id);
+  const [panelDialogOpen, setPanelDialogOpen] = useState(false);
+  const [editingPanel, setEditingPanel] = useState<CustomMetricPanel | null>(null);
   const { pods, setPods, totalPods, projectStatus } = usePods(
     selectedDeployment,
     namespace,
     cluster
   );
+  const rightSizing = useVpaRecommendation(selectedDeployment, namespace, cluster);
   const {
     summary: metricsSummary,
     cpuData,
@@ -58,6 +76,7 @@ const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
     responseTimeData,
     networkData,
     memoryUnit,
+    customPanelData,
     metricsLoading,
     hasFetchedMetrics,
     error: metricsError,
@@ -67,7 +86,9 @@ const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
     selectedDeployment,
     subscription,
     resourceGroupLabel,
-    setPods
+    setPods,
+    timeRange,
+    customPanels
   );
 
   // Merge pod-level status with the metrics summary
@@ -81,6 +102,11 @@ const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
     setSelectedDeployment(deploymentName);
   };
 
+  const openPanelDialog = (panel: CustomMetricPanel | null) => {
+    setEditingPanel(panel);
+    setPanelDialogOpen(true);
+  };
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -92,6 +118,11 @@ const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
   if ((error || metricsError) && deployments.length === 0) {
     return (
       <Box p={3}>
+        {scopes.length > 1 && (
+          <Box sx={{ mb: 2 }}>
+            <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+          </Box>
+        )}
         <Alert severity="warning">
           <AlertTitle>{t('Metrics Unavailable')}</AlertTitle>
           <Typography variant="body2">{error ?? metricsError}</Typography>
@@ -104,11 +135,15 @@ const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
     <Box sx={{ p: 3 }}>
       <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Typography variant="h5">{t('Application Metrics')}</Typography>
-        <DeploymentSelector
-          selectedDeployment={selectedDeployment}
-          deployments={deployments}
-          onDeploymentChange={handleDeploymentChange}
-        />
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+          <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+          <MetricsTimeRangePicker value={timeRange} onChange={setTimeRange} />
+          <DeploymentSelector
+            selectedDeployment={selectedDeployment}
+            deployments={deployments}
+            onDeploymentChange={handleDeploymentChange}
+          />
+        </Box>
       </Box>
 
       {/* Always-mounted consolidated live region for empty chart announcements */}
@@ -159,12 +194,31 @@ const MetricsTab: React.FC<MetricsTabProps> = ({ project }) => {
               responseTimeData={responseTimeData}
               networkData={networkData}
               memoryUnit={memoryUnit}
+              customPanels={customPanels}
+              customPanelData={customPanelData}
+              onAddPanel={() => openPanelDialog(null)}
+              onEditPanel={openPanelDialog}
+              onRemovePanel={panel => removePanel(panel.id)}
             />
           )}
 
           <PodDetailsTable pods={pods} selectedDeployment={selectedDeployment} />
+
+          <RightSizingPanel selectedDeployment={selectedDeployment} rightSizing={rightSizing} />
+
+          <CustomPanelDialog
+            open={panelDialogOpen}
+            panel={editingPanel}
+            onClose={() => setPanelDialogOpen(false)}
+            onSave={panel => {
+              savePanel(panel);
+              setPanelDialogOpen(false);
+            }}
+          />
         </>
       )}
+
+      <UsageComparison scopes={scopes} />
     </Box>
   );
 };
@@ -0,0 +1,100 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import React, { useEffect, useState } from 'react';
+import type { CustomMetricPanel } from '../utils';
+
+/** Props for {@link CustomPanelDialog}. */
+export interface CustomPanelDialogProps {
+  open: boolean;
+  /** Panel being edited, or null when adding a new panel. */
+  panel: CustomMetricPanel | null;
+  onClose: () => void;
+  /** Called with the saved panel; new panels get a fresh id. */
+  onSave: (panel: CustomMetricPanel) => void;
+}
+
+/** Dialog for adding or editing a custom PromQL panel. */
+export const CustomPanelDialog: React.FC<CustomPanelDialogProps> = ({
+  open,
+  panel,
+  onClose,
+  onSave,
+}) => {
+  const { t } = useTranslation();
+  const [title, setTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [unit, setUnit] = useState('');
+
+  // Reset the form each time the dialog opens.
+  useEffect(() => {
+    if (!open) return;
+    setTitle(panel?.title ?? '');
+    setQuery(panel?.query ?? '');
+    setUnit(panel?.unit ?? '');
+  }, [open, panel]);
+
+  const canSave = title.trim() !== '' && query.trim() !== '';
+
+  const handleSave = () => {
+    onSave({
+      id: panel?.id ?? `panel-${Date.now().toString(36)}`,
+      title: title.trim(),
+      query: query.trim(),
+      unit: unit.trim(),
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{panel ? t('Edit panel') : t('Add PromQL panel')}</DialogTitle>
+      <DialogContent>
+        <TextField
+          label={t('Title')}
+          fullWidth
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          sx={{ mt: 2, mb: 2 }}
+        />
+        <TextField
+          label={t('PromQL query')}
+          fullWidth
+          multiline
+          minRows={3}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={
+            'sum by (pod) (rate(http_requests_total{namespace="$namespace", pod=~"$deployment-.*"}[5m]))'
+          }
+          helperText={t(
+            '$namespace and $deployment are replaced with the project namespace and the selected deployment.'
+          )}
+          InputProps={{ sx: { fontFamily: 'monospace' } }}
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          label={t('Y-axis label')}
+          fullWidth
+          value={unit}
+          onChange={e => setUnit(e.target.value)}
+          placeholder="req/s"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{t('Cancel')}</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!canSave}>
+          {t('Save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -2,7 +2,7 @@
 // Licensed under the Apache 2.0.
 
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
-import { Card, Typography } from '@mui/material';
+import { Box, Card, Typography } from '@mui/material';
 import React from 'react';
 import {
   CartesianGrid,
@@ -16,6 +16,7 @@ import {
 } from 'recharts';
 import {
   ChartDataPoint,
+  CustomChartDataPoint,
   NetworkDataPoint,
   RequestErrorDataPoint,
   ResponseTimeDataPoint,
@@ -25,7 +26,8 @@ type MetricsDataPoint =
   | ChartDataPoint
   | ResponseTimeDataPoint
   | RequestErrorDataPoint
-  | NetworkDataPoint;
+  | NetworkDataPoint
+  | CustomChartDataPoint;
 
 /**
  * Configuration for a line in a {@link MetricsChart}.
@@ -54,6 +56,8 @@ export interface MetricsChartProps {
   yAxisLabel: string;
   /** Message to display when there is no data available. */
   emptyMessage?: string;
+  /** Optional controls rendered next to the title, e.g. edit and remove buttons. */
+  actions?: React.ReactNode;
 }
 
 /** General chart component with configurable title, lines, and optional empty-state message. */
@@ -63,14 +67,16 @@ export const MetricsChart: React.FC<MetricsChartProps> = ({
   lines,
   yAxisLabel,
   emptyMessage,
+  actions,
 }) => {
   const { t } = useTranslation();
   const resolvedEmptyMessage = emptyMessage ?? t('No data available');
   return (
     <Card sx={{ p: 2 }}>
-      <Typography variant="subtitle1" sx={{ mb: 1 }}>
-        {title}
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1">{title}</Typography>
+        {actions}
+      </Box>
       {data.length > 0 ? (
         <ResponsiveContainer width="100%" height={200}>
           <LineChart data={data}>
@@ -1,11 +1,14 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the Apache 2.0.
 
+import { Icon } from '@iconify/react';
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
-import { Grid, Typography } from '@mui/material';
+import { Box, Button, Grid, IconButton, Typography } from '@mui/material';
 import React from 'react';
 import type {
   ChartDataPoint,
+  CustomMetricPanel,
+  CustomPanelData,
   MemoryUnit,
   NetworkDataPoint,
   RequestErrorDataPoint,
@@ -27,9 +30,34 @@ export interface MetricsChartsGridProps {
   networkData: NetworkDataPoint[];
   /** Unit for memory usage data. */
   memoryUnit: MemoryUnit;
+  /** User-defined PromQL panels saved for the project. */
+  customPanels?: CustomMetricPanel[];
+  /** Chart data for each custom panel, keyed by panel id. */
+  customPanelData?: Record<string, CustomPanelData>;
+  /** Opens the editor for a new custom panel. The custom section is hidden when omitted. */
+  onAddPanel?: () => void;
+  onEditPanel?: (panel: CustomMetricPanel) => void;
+  onRemovePanel?: (panel: CustomMetricPanel) => void;
 }
 
-/** Grid of five metric charts with corresponding section headings. */
+/** Line colours for custom panel series, reused when a query returns more series. */
+const CUSTOM_SERIES_COLORS = [
+  '#2196f3',
+  '#ff9800',
+  '#4caf50',
+  '#9c27b0',
+  '#f44336',
+  '#00bcd4',
+  '#795548',
+  '#e91e63',
+  '#8bc34a',
+  '#3f51b5',
+];
+
+/**
+ * Grid of the five built-in metric charts with corresponding section headings,
+ * followed by any custom PromQL panels.
+ */
 export const MetricsChartsGrid: React.FC<MetricsChartsGridProps> = ({
   cpuData,
   memoryData,
@@ -37,6 +65,11 @@ export const MetricsChartsGrid: React.FC<MetricsChartsGridProps> = ({
   responseTimeData,
   networkData,
   memoryUnit,
+  customPanels = [],
+  customPanelData = {},
+  onAddPanel,
+  onEditPanel,
+  onRemovePanel,
 }) => {
   const { t } = useTranslation();
 
@@ -104,6 +137,65 @@ export const MetricsChartsGrid: React.FC<MetricsChartsGridProps> = ({
           />
         </Grid>
       </Grid>
+
+      {onAddPanel && (
+        <>
+          <Box
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              mb: 2,
+              mt: 3,
+            }}
+          >
+            <Typography variant="h6">{t('Custom panels')}</Typography>
+            <Button size="small" startIcon={<Icon icon="mdi:plus" />} onClick={onAddPanel}>
+              {t('Add PromQL panel')}
+            </Button>
+          </Box>
+          {customPanels.length > 0 && (
+            <Grid container spacing={2} sx={{ mb: 3 }}>
+              {customPanels.map(panel => {
+                const panelData = customPanelData[panel.id];
+                return (
+                  <Grid item xs={12} md={6} key={panel.id}>
+                    <MetricsChart
+                      title={panel.title}
+                      data={panelData?.data ?? []}
+                      yAxisLabel={panel.unit}
+                      lines={(panelData?.series ?? []).map((series, idx) => ({
+                        dataKey: series.key,
+                        stroke: CUSTOM_SERIES_COLORS[idx % CUSTOM_SERIES_COLORS.length],
+                        name: series.name,
+                      }))}
+                      emptyMessage={t('No data returned by this query')}
+                      actions={
+                        <Box>
+                          <IconButton
+                            size="small"
+                            aria-label={t('Edit panel {{title}}', { title: panel.title })}
+                            onClick={() => onEditPanel?.(panel)}
+                          >
+                            <Icon icon="mdi:pencil" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            aria-label={t('Remove panel {{title}}', { title: panel.title })}
+                            onClick={() => onRemovePanel?.(panel)}
+                          >
+                            <Icon icon="mdi:delete-outline" />
+                          </IconButton>
+                        </Box>
+                      }
+                    />
+                  </Grid>
+                );
+              })}
+            </Grid>
+          )}
+        </>
+      )}
     </>
   );
 };
@@ -0,0 +1,120 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Box, Button, TextField, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import React, { useState } from 'react';
+import {
+  METRICS_TIME_RANGE_SECONDS,
+  type MetricsTimeRange,
+  type MetricsTimeRangePreset,
+} from '../utils';
+
+/** Props for {@link MetricsTimeRangePicker}. */
+export interface MetricsTimeRangePickerProps {
+  value: MetricsTimeRange;
+  onChange: (range: MetricsTimeRange) => void;
+}
+
+/** Formats epoch seconds for a `datetime-local` input (local time, minute precision). */
+function toLocalInputValue(epochSeconds: number): string {
+  const date = new Date(epochSeconds * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
+/** Parses a `datetime-local` value into epoch seconds, or NaN if empty or invalid. */
+function fromLocalInputValue(value: string): number {
+  return value ? Math.floor(new Date(value).getTime() / 1000) : NaN;
+}
+
+/**
+ * Time range selector for the metrics charts: relative presets from 15 minutes
+ * to 7 days, or a custom start/end window applied explicitly.
+ */
+export const MetricsTimeRangePicker: React.FC<MetricsTimeRangePickerProps> = ({
+  value,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+  const [showCustom, setShowCustom] = useState(value.preset === 'custom');
+  const [customStart, setCustomStart] = useState(() =>
+    toLocalInputValue(
+      value.preset === 'custom' ? value.start : Date.now() / 1000 - METRICS_TIME_RANGE_SECONDS['6h']
+    )
+  );
+  const [customEnd, setCustomEnd] = useState(() =>
+    toLocalInputValue(value.preset === 'custom' ? value.end : Date.now() / 1000)
+  );
+
+  const start = fromLocalInputValue(customStart);
+  const end = fromLocalInputValue(customEnd);
+  const customInvalid = !Number.isFinite(start) || !Number.isFinite(end) || start >= end;
+
+  const presets: { value: MetricsTimeRangePreset; label: string }[] = [
+    { value: '15m', label: t('15m') },
+    { value: '1h', label: t('1h') },
+    { value: '6h', label: t('6h') },
+    { value: '24h', label: t('24h') },
+    { value: '7d', label: t('7d') },
+  ];
+
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+      <ToggleButtonGroup
+        exclusive
+        size="small"
+        aria-label={t('Time range')}
+        value={showCustom ? 'custom' : value.preset}
+        onChange={(_, selected: MetricsTimeRangePreset | 'custom' | null) => {
+          if (!selected) return;
+          if (selected === 'custom') {
+            setShowCustom(true);
+            return;
+          }
+          setShowCustom(false);
+          onChange({ preset: selected });
+        }}
+      >
+        {presets.map(preset => (
+          <ToggleButton key={preset.value} value={preset.value}>
+            {preset.label}
+          </ToggleButton>
+        ))}
+        <ToggleButton value="custom">{t('Custom')}</ToggleButton>
+      </ToggleButtonGroup>
+
+      {showCustom && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <TextField
+            type="datetime-local"
+            size="small"
+            label={t('From')}
+            value={customStart}
+            onChange={e => setCustomStart(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            type="datetime-local"
+            size="small"
+            label={t('To')}
+            value={customEnd}
+            onChange={e => setCustomEnd(e.target.value)}
+            error={Number.isFinite(start) && Number.isFinite(end) && start >= end}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button
+            variant="contained"
+            size="small"
+            disabled={customInvalid}
+            onClick={() => onChange({ preset: 'custom', start, end })}
+          >
+            {t('Apply')}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
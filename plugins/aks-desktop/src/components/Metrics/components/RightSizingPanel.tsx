@@ -0,0 +1,194 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import type { UseVpaRecommendationResult } from '../hooks/useVpaRecommendation';
+import { formatCpuForDisplay, formatMemoryForDisplay, type ResourceQuantities } from '../vpa';
+
+/** Props for {@link RightSizingPanel}. */
+export interface RightSizingPanelProps {
+  /** The name of the selected deployment. */
+  selectedDeployment: string;
+  /** VPA state and actions for the selected deployment. */
+  rightSizing: UseVpaRecommendationResult;
+}
+
+const RESOURCE_ROWS: Array<{
+  key: keyof ResourceQuantities;
+  label: string;
+  format: (value: string | undefined) => string;
+}> = [
+  { key: 'cpu', label: 'CPU', format: formatCpuForDisplay },
+  { key: 'memory', label: 'Memory', format: formatMemoryForDisplay },
+];
+
+/**
+ * Shows Vertical Pod Autoscaler recommendations for the selected deployment
+ * next to its current container requests and limits, and lets the user apply
+ * them or hand resource management over to the VPA.
+ */
+export const RightSizingPanel: React.FC<RightSizingPanelProps> = ({
+  selectedDeployment,
+  rightSizing,
+}) => {
+  const { t } = useTranslation();
+  const {
+    vpa,
+    vpaAvailable,
+    resources,
+    saving,
+    error,
+    createVpa,
+    setUpdateMode,
+    applyRecommendation,
+  } = rightSizing;
+
+  if (vpaAvailable === null) return null;
+
+  const recommendations = vpa?.recommendations ?? [];
+
+  return (
+    <>
+      <Typography variant="h6" sx={{ mb: 2, mt: 3 }}>
+        {t('Right-sizing')} - {selectedDeployment}
+      </Typography>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      {vpaAvailable === false ? (
+        <Alert severity="info">
+          {t(
+            'Vertical Pod Autoscaler is not enabled on this cluster. Enable the VPA add-on to get CPU and memory recommendations.'
+          )}
+        </Alert>
+      ) : !vpa ? (
+        <Card sx={{ p: 3 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t(
+              'Create a Vertical Pod Autoscaler in recommendation-only mode to see CPU and memory recommendations based on observed usage. Pods are not changed.'
+            )}
+          </Typography>
+          <Button
+            variant="outlined"
+            onClick={() => createVpa('Off')}
+            disabled={saving}
+            startIcon={saving ? <CircularProgress size={20} /> : <Icon icon="mdi:tape-measure" />}
+          >
+            {t('Get Recommendations')}
+          </Button>
+        </Card>
+      ) : (
+        <Card sx={{ p: 2 }}>
+          <Box
+            sx={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: 2,
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              mb: 2,
+            }}
+          >
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={vpa.updateMode}
+              disabled={saving}
+              onChange={(_, mode) => mode && mode !== vpa.updateMode && setUpdateMode(mode)}
+              aria-label={t('VPA update mode')}
+            >
+              <ToggleButton value="Off">{t('Recommend only')}</ToggleButton>
+              <ToggleButton value="Auto">{t('Auto')}</ToggleButton>
+            </ToggleButtonGroup>
+            <Button
+              variant="contained"
+              onClick={applyRecommendation}
+              disabled={saving || recommendations.length === 0 || vpa.updateMode === 'Auto'}
+              startIcon={
+                saving ? <CircularProgress size={20} /> : <Icon icon="mdi:check-decagram" />
+              }
+            >
+              {t('Apply Recommendation')}
+            </Button>
+          </Box>
+
+          {vpa.updateMode === 'Auto' && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {t(
+                'The VPA evicts pods to apply its recommendations. Avoid combining Auto mode with an HPA that scales on CPU or memory.'
+              )}
+            </Alert>
+          )}
+
+          {recommendations.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              {t(
+                'Waiting for recommendations. The VPA needs a few minutes of usage data before it publishes them.'
+              )}
+            </Typography>
+          ) : (
+            <>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>{t('Container')}</TableCell>
+                    <TableCell>{t('Resource')}</TableCell>
+                    <TableCell>{t('Request')}</TableCell>
+                    <TableCell>{t('Limit')}</TableCell>
+                    <TableCell>{t('Recommended')}</TableCell>
+                    <TableCell>{t('Range')}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {recommendations.flatMap(rec =>
+                    RESOURCE_ROWS.map(({ key, label, format }) => {
+                      const current = resources[rec.containerName];
+                      return (
+                        <TableRow key={`${rec.containerName}-${key}`}>
+                          <TableCell>{key === 'cpu' ? rec.containerName : ''}</TableCell>
+                          <TableCell>{t(label)}</TableCell>
+                          <TableCell>{format(current?.requests[key])}</TableCell>
+                          <TableCell>{format(current?.limits[key])}</TableCell>
+                          <TableCell sx={{ fontWeight: 'bold' }}>
+                            {format(rec.target[key])}
+                          </TableCell>
+                          <TableCell>
+                            {format(rec.lowerBound[key])} – {format(rec.upperBound[key])}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                {t(
+                  'Applying sets the requests to the recommended values and scales limits by the same ratio. The deployment rolls out new pods.'
+                )}
+              </Typography>
+            </>
+          )}
+        </Card>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,64 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Typography } from '@mui/material';
+import React from 'react';
+import type { ProjectScope, UsageSnapshot } from '../../../utils/shared/projectScopes';
+import { formatCpu, formatMemory } from '../../../utils/shared/resourceUnits';
+import { ScopeComparisonTable } from '../../shared/ScopeComparisonTable';
+import { useUsageComparison } from '../hooks/useUsageComparison';
+
+/**
+ * Current CPU and memory usage of a project's Deployments in every cluster
+ * and namespace, with totals per scope and across all of them. Renders
+ * nothing for projects with a single scope.
+ */
+export function UsageComparison({ scopes }: { scopes: ProjectScope[] }) {
+  const { t } = useTranslation();
+  const { rows, totals, total, loading, errors, refresh } = useUsageComparison(scopes);
+
+  const renderUsage = (usage: UsageSnapshot) => (
+    <>
+      <Typography variant="body2">
+        {t('{{cpu}} CPU, {{memory}} memory', {
+          cpu: formatCpu(usage.cpuMillicores),
+          memory: formatMemory(usage.memoryBytes),
+        })}
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        {t('{{count}} pods', { count: usage.pods })}
+      </Typography>
+    </>
+  );
+
+  return (
+    <ScopeComparisonTable
+      title={t('Usage across clusters and namespaces')}
+      scopes={scopes}
+      rows={rows}
+      loading={loading}
+      errors={errors}
+      refresh={refresh}
+      renderSnapshot={renderUsage}
+      summaryRow={{
+        label: t('All pods'),
+        cells: Object.fromEntries(
+          Object.entries(totals).map(([key, usage]) => [key, renderUsage(usage)])
+        ),
+      }}
+      caption={
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {t(
+            'Across all clusters and namespaces: {{cpu}} CPU, {{memory}} memory in {{count}} pods',
+            {
+              cpu: formatCpu(total.cpuMillicores),
+              memory: formatMemory(total.memoryBytes),
+              count: total.pods,
+            }
+          )}
+        </Typography>
+      }
+    />
+  );
+}
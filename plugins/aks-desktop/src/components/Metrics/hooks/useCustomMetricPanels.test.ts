@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { useCustomMetricPanels } from './useCustomMetricPanels';
+
+const panel = {
+  id: 'panel-1',
+  title: 'Queue depth',
+  query: 'queue_depth{namespace="$namespace"}',
+  unit: 'msgs',
+};
+
+describe('useCustomMetricPanels', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('starts empty for a project without saved panels', () => {
+    const { result } = renderHook(() => useCustomMetricPanels('project-a'));
+    expect(result.current.panels).toEqual([]);
+  });
+
+  test('persists added panels per project', () => {
+    const { result } = renderHook(() => useCustomMetricPanels('project-a'));
+
+    act(() => result.current.savePanel(panel));
+
+    expect(result.current.panels).toEqual([panel]);
+    expect(renderHook(() => useCustomMetricPanels('project-a')).result.current.panels).toEqual([
+      panel,
+    ]);
+    expect(renderHook(() => useCustomMetricPanels('project-b')).result.current.panels).toEqual([]);
+  });
+
+  test('replaces a panel with the same id and removes panels', () => {
+    const { result } = renderHook(() => useCustomMetricPanels('project-a'));
+
+    act(() => result.current.savePanel(panel));
+    act(() => result.current.savePanel({ ...panel, title: 'Renamed' }));
+    expect(result.current.panels).toEqual([{ ...panel, title: 'Renamed' }]);
+
+    act(() => result.current.removePanel('panel-1'));
+    expect(result.current.panels).toEqual([]);
+  });
+
+  test('reloads panels when the project changes', () => {
+    localStorage.setItem('aks-desktop:metrics-panels:project-b', JSON.stringify([panel]));
+    const { result, rerender } = renderHook(({ id }) => useCustomMetricPanels(id), {
+      initialProps: { id: 'project-a' },
+    });
+
+    rerender({ id: 'project-b' });
+
+    expect(result.current.panels).toEqual([panel]);
+  });
+
+  test('ignores malformed stored data', () => {
+    localStorage.setItem(
+      'aks-desktop:metrics-panels:project-a',
+      JSON.stringify([panel, { id: 'broken' }])
+    );
+    expect(renderHook(() => useCustomMetricPanels('project-a')).result.current.panels).toEqual([
+      panel,
+    ]);
+
+    localStorage.setItem('aks-desktop:metrics-panels:project-a', '{not json');
+    expect(renderHook(() => useCustomMetricPanels('project-a')).result.current.panels).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CustomMetricPanel } from '../utils';
+
+const STORAGE_KEY_PREFIX = 'aks-desktop:metrics-panels:';
+
+function isCustomMetricPanel(value: unknown): value is CustomMetricPanel {
+  const panel = value as Partial<CustomMetricPanel> | null;
+  return (
+    !!panel &&
+    typeof panel.id === 'string' &&
+    typeof panel.title === 'string' &&
+    typeof panel.query === 'string' &&
+    typeof panel.unit === 'string'
+  );
+}
+
+function loadPanels(projectId: string): CustomMetricPanel[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_PREFIX + projectId);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isCustomMetricPanel) : [];
+  } catch (e) {
+    console.warn('Failed to parse custom metric panels from localStorage:', e);
+    return [];
+  }
+}
+
+/** Result returned by {@link useCustomMetricPanels}. */
+export interface UseCustomMetricPanelsResult {
+  /** Saved panels for the project, in display order. */
+  panels: CustomMetricPanel[];
+  /** Adds a panel, or replaces the panel with the same id. */
+  savePanel: (panel: CustomMetricPanel) => void;
+  removePanel: (id: string) => void;
+}
+
+/**
+ * Custom PromQL panels for a project, persisted in localStorage so they
+ * survive restarts. Each project keeps its own list.
+ *
+ * @param projectId - ID of the project the panels belong to.
+ */
+export function useCustomMetricPanels(projectId: string): UseCustomMetricPanelsResult {
+  const [panels, setPanels] = useState<CustomMetricPanel[]>(() => loadPanels(projectId));
+
+  useEffect(() => {
+    setPanels(loadPanels(projectId));
+  }, [projectId]);
+
+  const update = useCallback(
+    (fn: (prev: CustomMetricPanel[]) => CustomMetricPanel[]) => {
+      setPanels(prev => {
+        const next = fn(prev);
+        localStorage.setItem(STORAGE_KEY_PREFIX + projectId, JSON.stringify(next));
+        return next;
+      });
+    },
+    [projectId]
+  );
+
+  const savePanel = useCallback(
+    (panel: CustomMetricPanel) =>
+      update(prev =>
+        prev.some(p => p.id === panel.id)
+          ? prev.map(p => (p.id === panel.id ? panel : p))
+          : [...prev, panel]
+      ),
+    [update]
+  );
+
+  const removePanel = useCallback(
+    (id: string) => update(prev => prev.filter(p => p.id !== id)),
+    [update]
+  );
+
+  return { panels, savePanel, removePanel };
+}
@@ -62,8 +62,11 @@ export function useDeployments(
 
           setDeployments(deploymentData);
 
-          // Auto-select first deployment (If no deployment is currently selected)
-          if (deploymentData.length > 0 && !selectedDeployment) {
+          // Auto-select first deployment (If no deployment, or one missing from this namespace, is selected)
+          if (
+            deploymentData.length > 0 &&
+            !deploymentData.some(d => d.name === selectedDeployment)
+          ) {
             setSelectedDeployment(deploymentData[0].name);
           }
 
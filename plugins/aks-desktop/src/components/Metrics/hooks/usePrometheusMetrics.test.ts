@@ -303,4 +303,74 @@ describe('usePrometheusMetrics', () => {
       'sub-123'
     );
   });
+
+  test('queries the selected time range with a matching step', async () => {
+    mockQueryResults();
+    // Defined outside the render callback so the range keeps its identity across renders.
+    const timeRange = { preset: 'custom' as const, start: 1_000_000, end: 1_000_000 + 7 * 86400 };
+
+    renderHook(() =>
+      usePrometheusMetrics(
+        DEFAULT_ARGS.namespace,
+        DEFAULT_ARGS.cluster,
+        DEFAULT_ARGS.selectedDeployment,
+        DEFAULT_ARGS.subscription,
+        DEFAULT_ARGS.resourceGroupLabel,
+        mockSetPods,
+        timeRange
+      )
+    );
+
+    await waitFor(() => {
+      expect(mockQueryPrometheus).toHaveBeenCalledTimes(9);
+    });
+
+    for (const [, query, start, end, step] of mockQueryPrometheus.mock.calls) {
+      expect(start).toBe(1_000_000);
+      expect(end).toBe(1_000_000 + 7 * 86400);
+      expect(step).toBe(3600);
+      if (query.includes('rate(')) expect(query).toContain('[3600s]');
+    }
+  });
+
+  test('queries custom panels with placeholders expanded', async () => {
+    mockQueryResults();
+    mockQueryPrometheus.mockResolvedValueOnce([
+      { metric: { pod: 'my-app-1' }, values: [[NOW, '42']] },
+    ]);
+    const panels = [
+      {
+        id: 'panel-1',
+        title: 'Queue depth',
+        query: 'queue_depth{namespace="$namespace", deployment="$deployment"}',
+        unit: 'msgs',
+      },
+    ];
+    const timeRange = { preset: '1h' as const };
+
+    const { result } = renderHook(() =>
+      usePrometheusMetrics(
+        DEFAULT_ARGS.namespace,
+        DEFAULT_ARGS.cluster,
+        DEFAULT_ARGS.selectedDeployment,
+        DEFAULT_ARGS.subscription,
+        DEFAULT_ARGS.resourceGroupLabel,
+        mockSetPods,
+        timeRange,
+        panels
+      )
+    );
+
+    await waitFor(() => {
+      expect(result.current.customPanelData['panel-1']).toBeDefined();
+    });
+
+    expect(mockQueryPrometheus.mock.calls[9][1]).toBe(
+      'queue_depth{namespace="test-namespace", deployment="my-app"}'
+    );
+    expect(result.current.customPanelData['panel-1'].series).toEqual([
+      { key: 's0', name: '{pod="my-app-1"}' },
+    ]);
+    expect(result.current.customPanelData['panel-1'].data[0].s0).toBe(42);
+  });
 });
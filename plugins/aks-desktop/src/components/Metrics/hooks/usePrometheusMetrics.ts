@@ -4,25 +4,31 @@
 import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { getClusterResourceIdAndGroup } from '../../../utils/azure/az-clusters';
-import {
-  METRICS_REFRESH_INTERVAL_MS,
-  PROMETHEUS_CHART_RANGE_SECONDS,
-  PROMETHEUS_STEP_SECONDS,
-} from '../../../utils/constants/timing';
+import { METRICS_REFRESH_INTERVAL_MS } from '../../../utils/constants/timing';
 import { getPrometheusEndpoint } from '../../../utils/prometheus/getPrometheusEndpoint';
 import { queryPrometheus } from '../../../utils/prometheus/queryPrometheus';
 import {
   type ChartDataPoint,
   convertBytesToUnit,
+  type CustomMetricPanel,
+  type CustomPanelData,
+  DEFAULT_METRICS_TIME_RANGE,
   defaultMetricSummary,
+  expandCustomPanelQuery,
+  formatChartTimestamp,
   formatMemoryBrief,
+  getRateWindow,
+  getTimeRangeKey,
   type MemoryUnit,
+  type MetricsTimeRange,
   type MetricSummary,
   type NetworkDataPoint,
   pickMemoryUnit,
   type RequestErrorDataPoint,
+  resolveTimeRange,
   type ResponseTimeDataPoint,
   safeParseFloat,
+  toCustomPanelData,
 } from '../utils';
 import type { PodInfo } from './usePods';
 
@@ -35,6 +41,7 @@ interface MetricsSnapshot {
   responseTimeData: ResponseTimeDataPoint[];
   networkData: NetworkDataPoint[];
   memoryUnit: MemoryUnit;
+  customPanelData: Record<string, CustomPanelData>;
 }
 
 const metricsTabCache = new Map<string, { data: MetricsSnapshot; timestamp: number }>();
@@ -43,6 +50,21 @@ const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 /** Prometheus endpoint cache. */
 const promEndpointCache = new Map<string, string>();
 
+/** Shared empty panel list so the default argument keeps a stable identity across renders. */
+const NO_CUSTOM_PANELS: CustomMetricPanel[] = [];
+
+function getMetricsCacheKey(
+  selectedDeployment: string,
+  namespace: string | undefined,
+  cluster: string | undefined,
+  subscription: string | undefined,
+  timeRange: MetricsTimeRange
+): string {
+  return `${selectedDeployment}:${namespace}:${cluster}:${subscription}:${getTimeRangeKey(
+    timeRange
+  )}`;
+}
+
 /** Clears all metric tab caches. */
 export function clearMetricsTabCaches(): void {
   metricsTabCache.clear();
@@ -65,6 +87,8 @@ export interface UsePrometheusMetricsResult {
   networkData: NetworkDataPoint[];
   /** Memory unit used for displaying memory metrics. */
   memoryUnit: MemoryUnit;
+  /** Chart data for each custom panel, keyed by panel id. */
+  customPanelData: Record<string, CustomPanelData>;
   /** Indicates if metrics are currently being loaded. */
   metricsLoading: boolean;
   /** Indicates if metrics have been successfully fetched at least once. */
@@ -77,8 +101,10 @@ export interface UsePrometheusMetricsResult {
  * Fetches and processes Prometheus metrics for the selected deployment.
  *
  * Runs 9 PromQL queries in parallel (CPU, memory, request rate, error rate,
- * response time, network I/O, and per-pod breakdowns), then transforms the
- * results into data for the charts & aggregated summaries. Polls every 30 seconds.
+ * response time, network I/O, and per-pod breakdowns) plus one query per custom
+ * panel over the selected time range, then transforms the results into data for
+ * the charts & aggregated summaries. Relative ranges poll every 30 seconds; custom
+ * (fixed) ranges are fetched once.
  *
  * @param namespace - Managed namespace for the selected deployment.
  * @param cluster - Name of target cluster.
@@ -86,6 +112,9 @@ export interface UsePrometheusMetricsResult {
  * @param subscription - Azure subscription ID.
  * @param resourceGroupLabel - Resource group label from namespace metadata, if available.
  * @param setPods - Setter used to enrich pod rows with per-pod CPU/memory data.
+ * @param timeRange - Window to chart; the query step is derived from its length.
+ * @param customPanels - User-defined PromQL panels to query alongside the built-in charts.
+ * Both are effect dependencies, so pass referentially stable values (e.g. from state).
  */
 export function usePrometheusMetrics(
   namespace: string | undefined,
@@ -93,7 +122,9 @@ export function usePrometheusMetrics(
   selectedDeployment: string,
   subscription: string | undefined,
   resourceGroupLabel: string | undefined,
-  setPods: React.Dispatch<React.SetStateAction<PodInfo[]>>
+  setPods: React.Dispatch<React.SetStateAction<PodInfo[]>>,
+  timeRange: MetricsTimeRange = DEFAULT_METRICS_TIME_RANGE,
+  customPanels: CustomMetricPanel[] = NO_CUSTOM_PANELS
 ): UsePrometheusMetricsResult {
   const { t } = useTranslation();
   const [summary, setSummary] = useState<MetricSummary>(defaultMetricSummary);
@@ -105,6 +136,7 @@ export function usePrometheusMetrics(
   const [metricsLoading, setMetricsLoading] = useState<boolean>(false);
   const [hasFetchedMetrics, setHasFetchedMetrics] = useState<boolean>(false);
   const [memoryUnit, setMemoryUnit] = useState<MemoryUnit>('MB');
+  const [customPanelData, setCustomPanelData] = useState<Record<string, CustomPanelData>>({});
   const [error, setError] = useState<string | null>(null);
   const prevDeploymentRef = useRef<string>(selectedDeployment);
   const latestRequestIdRef = useRef<number>(0);
@@ -118,12 +150,19 @@ export function usePrometheusMetrics(
     setResponseTimeData(snapshot.responseTimeData);
     setNetworkData(snapshot.networkData);
     setMemoryUnit(snapshot.memoryUnit);
+    setCustomPanelData(snapshot.customPanelData);
   }, []);
 
   // Handle deployment switching; Restore from cache if within window, or show loading
   useEffect(() => {
     if (selectedDeployment && selectedDeployment !== prevDeploymentRef.current) {
-      const cacheKey = `${selectedDeployment}:${namespace}:${cluster}:${subscription}`;
+      const cacheKey = getMetricsCacheKey(
+        selectedDeployment,
+        namespace,
+        cluster,
+        subscription,
+        timeRange
+      );
       const cached = metricsTabCache.get(cacheKey);
       if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
         restoreFromCache(cached.data);
@@ -136,16 +175,23 @@ export function usePrometheusMetrics(
         setRequestErrorData([]);
         setResponseTimeData([]);
         setNetworkData([]);
+        setCustomPanelData({});
         setMetricsLoading(true);
       }
       prevDeploymentRef.current = selectedDeployment;
     }
-  }, [selectedDeployment, namespace, cluster, subscription, restoreFromCache]);
+  }, [selectedDeployment, namespace, cluster, subscription, timeRange, restoreFromCache]);
 
   const fetchMetrics = useCallback(async () => {
     if (!namespace || !selectedDeployment || !subscription || !cluster) return;
 
-    const cacheKey = `${selectedDeployment}:${namespace}:${cluster}:${subscription}`;
+    const cacheKey = getMetricsCacheKey(
+      selectedDeployment,
+      namespace,
+      cluster,
+      subscription,
+      timeRange
+    );
     const requestId = ++latestRequestIdRef.current;
     setError(null);
 
@@ -169,16 +215,16 @@ export function usePrometheusMetrics(
         promEndpointCache.set(promEndpointKey, promEndpoint);
       }
 
-      const end = Math.floor(Date.now() / 1000);
-      const start = end - PROMETHEUS_CHART_RANGE_SECONDS;
-      const step = PROMETHEUS_STEP_SECONDS;
+      const { start, end, step } = resolveTimeRange(timeRange, Math.floor(Date.now() / 1000));
+      const rangeSeconds = end - start;
+      const rateWindow = getRateWindow(step);
 
       // Escape regex metacharacters in deployment name for PromQL pod matcher
       const escapedDeployment = selectedDeployment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
       const podPattern = `${escapedDeployment}-[a-z0-9]+-[a-z0-9]+`;
 
       // Query CPU usage
-      const cpuQuery = `sum by (namespace) (rate(container_cpu_usage_seconds_total{namespace="${namespace}", pod=~"${podPattern}", container!=""}[5m]))`;
+      const cpuQuery = `sum by (namespace) (rate(container_cpu_usage_seconds_total{namespace="${namespace}", pod=~"${podPattern}", container!=""}[${rateWindow}]))`;
       const cpuResultsPromise = queryPrometheus(
         promEndpoint,
         cpuQuery,
@@ -187,7 +233,7 @@ export function usePrometheusMetrics(
         step,
         subscription
       );
-      const cpuByPodQuery = `sum by (pod) (rate(container_cpu_usage_seconds_total{namespace="${namespace}", pod=~"${podPattern}", container!=""}[5m]))`;
+      const cpuByPodQuery = `sum by (pod) (rate(container_cpu_usage_seconds_total{namespace="${namespace}", pod=~"${podPattern}", container!=""}[${rateWindow}]))`;
       const cpuByPodResultsPromise = queryPrometheus(
         promEndpoint,
         cpuByPodQuery,
@@ -218,7 +264,7 @@ export function usePrometheusMetrics(
       );
 
       // Query HTTP request rate
-      const requestQuery = `sum by (namespace) (rate(http_requests_total{namespace="${namespace}"}[5m]))`;
+      const requestQuery = `sum by (namespace) (rate(http_requests_total{namespace="${namespace}"}[${rateWindow}]))`;
       const requestResultsPromise = queryPrometheus(
         promEndpoint,
         requestQuery,
@@ -229,7 +275,7 @@ export function usePrometheusMetrics(
       );
 
       // Query error rate
-      const errorQuery = `100 * (sum by (namespace) (rate(http_requests_total{namespace="${namespace}", status=~"4..|5.."}[5m])) / sum by (namespace) (rate(http_requests_total{namespace="${namespace}"}[5m])))`;
+      const errorQuery = `100 * (sum by (namespace) (rate(http_requests_total{namespace="${namespace}", status=~"4..|5.."}[${rateWindow}])) / sum by (namespace) (rate(http_requests_total{namespace="${namespace}"}[${rateWindow}])))`;
       const errorResultsPromise = queryPrometheus(
         promEndpoint,
         errorQuery,
@@ -240,7 +286,7 @@ export function usePrometheusMetrics(
       );
 
       // Query response time (average)
-      const responseTimeQuery = `sum by (namespace) (rate(http_request_duration_seconds_sum{namespace="${namespace}"}[5m])) / sum by (namespace) (rate(http_request_duration_seconds_count{namespace="${namespace}"}[5m]))`;
+      const responseTimeQuery = `sum by (namespace) (rate(http_request_duration_seconds_sum{namespace="${namespace}"}[${rateWindow}])) / sum by (namespace) (rate(http_request_duration_seconds_count{namespace="${namespace}"}[${rateWindow}]))`;
       const responseTimeResultsPromise = queryPrometheus(
         promEndpoint,
         responseTimeQuery,
@@ -251,8 +297,8 @@ export function usePrometheusMetrics(
       );
 
       // Query network in/out
-      const networkInQuery = `sum by (namespace) (rate(container_network_receive_bytes_total{namespace="${namespace}", pod=~"${podPattern}"}[5m]))`;
-      const networkOutQuery = `sum by (namespace) (rate(container_network_transmit_bytes_total{namespace="${namespace}", pod=~"${podPattern}"}[5m]))`;
+      const networkInQuery = `sum by (namespace) (rate(container_network_receive_bytes_total{namespace="${namespace}", pod=~"${podPattern}"}[${rateWindow}]))`;
+      const networkOutQuery = `sum by (namespace) (rate(container_network_transmit_bytes_total{namespace="${namespace}", pod=~"${podPattern}"}[${rateWindow}]))`;
       const networkInResultsPromise = queryPrometheus(
         promEndpoint,
         networkInQuery,
@@ -270,6 +316,19 @@ export function usePrometheusMetrics(
         subscription
       );
 
+      const customPanelResultsPromise = Promise.all(
+        customPanels.map(panel =>
+          queryPrometheus(
+            promEndpoint,
+            expandCustomPanelQuery(panel.query, namespace, selectedDeployment),
+            start,
+            end,
+            step,
+            subscription
+          )
+        )
+      );
+
       const [
         cpuResults,
         cpuByPodResults,
@@ -280,6 +339,7 @@ export function usePrometheusMetrics(
         responseTimeResults,
         networkInResults,
         networkOutResults,
+        customPanelResults,
       ] = await Promise.all([
         cpuResultsPromise,
         cpuByPodResultsPromise,
@@ -290,6 +350,7 @@ export function usePrometheusMetrics(
         responseTimeResultsPromise,
         networkInResultsPromise,
         networkOutResultsPromise,
+        customPanelResultsPromise,
       ]);
 
       // Discard results if a newer request has been issued
@@ -304,6 +365,7 @@ export function usePrometheusMetrics(
         responseTimeData: [],
         networkData: [],
         memoryUnit: 'MB',
+        customPanelData: {},
       };
 
       // Process CPU data
@@ -311,7 +373,7 @@ export function usePrometheusMetrics(
         snapshot.cpuData = cpuResults[0].values.map((v: [number, string]) => {
           const cores = safeParseFloat(v[1]);
           return {
-            timestamp: new Date(v[0] * 1000).toLocaleTimeString(),
+            timestamp: formatChartTimestamp(v[0], rangeSeconds),
             value: parseFloat(cores.toFixed(4)),
           };
         });
@@ -338,7 +400,7 @@ export function usePrometheusMetrics(
           const bytes = safeParseFloat(v[1]);
           const converted = convertBytesToUnit(bytes, unit);
           return {
-            timestamp: new Date(v[0] * 1000).toLocaleTimeString(),
+            timestamp: formatChartTimestamp(v[0], rangeSeconds),
             value: parseFloat(converted.toFixed(decimals)),
           };
         });
@@ -408,7 +470,7 @@ export function usePrometheusMetrics(
           });
         }
         requestResults[0].values.forEach((v: [number, string]) => {
-          const timestamp = new Date(v[0] * 1000).toLocaleTimeString();
+          const timestamp = formatChartTimestamp(v[0], rangeSeconds);
           const requestRate = safeParseFloat(v[1]);
           const errorRate = errorByTimestamp.get(v[0]) ?? 0;
 
@@ -431,7 +493,7 @@ export function usePrometheusMetrics(
       // Process Network data (combined in/out)
       if (networkInResults.length > 0 && networkInResults[0].values) {
         networkInResults[0].values.forEach((v: [number, string], idx: number) => {
-          const timestamp = new Date(v[0] * 1000).toLocaleTimeString();
+          const timestamp = formatChartTimestamp(v[0], rangeSeconds);
           const networkIn = safeParseFloat(v[1]) / 1024; // Convert to KB/s
           const networkOut =
             networkOutResults.length > 0 && networkOutResults[0].values[idx]
@@ -450,12 +512,21 @@ export function usePrometheusMetrics(
       // Process Response Time data
       if (responseTimeResults.length > 0 && responseTimeResults[0].values) {
         snapshot.responseTimeData = responseTimeResults[0].values.map((v: [number, string]) => ({
-          timestamp: new Date(v[0] * 1000).toLocaleTimeString(),
+          timestamp: formatChartTimestamp(v[0], rangeSeconds),
           responseTime: parseFloat((safeParseFloat(v[1]) * 1000).toFixed(2)), // Convert to milliseconds
         }));
         setResponseTimeData(snapshot.responseTimeData);
       }
 
+      // Process custom panels
+      customPanels.forEach((panel, idx) => {
+        snapshot.customPanelData[panel.id] = toCustomPanelData(
+          customPanelResults[idx],
+          rangeSeconds
+        );
+      });
+      setCustomPanelData(snapshot.customPanelData);
+
       setSummary(snapshot.summary);
       metricsTabCache.set(cacheKey, { data: snapshot, timestamp: Date.now() });
     } catch (error) {
@@ -470,14 +541,29 @@ export function usePrometheusMetrics(
         setHasFetchedMetrics(true);
       }
     }
-  }, [namespace, cluster, selectedDeployment, subscription, resourceGroupLabel, setPods]);
+  }, [
+    namespace,
+    cluster,
+    selectedDeployment,
+    subscription,
+    resourceGroupLabel,
+    setPods,
+    timeRange,
+    customPanels,
+  ]);
 
   // Load metrics when deployment is selected
   useEffect(() => {
     if (!selectedDeployment || !namespace || !subscription || !cluster) return;
 
     // Restore from cache immediately if fresh (e.g. returning from another tab), otherwise show loading
-    const cacheKey = `${selectedDeployment}:${namespace}:${cluster}:${subscription}`;
+    const cacheKey = getMetricsCacheKey(
+      selectedDeployment,
+      namespace,
+      cluster,
+      subscription,
+      timeRange
+    );
     const cached = metricsTabCache.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
       restoreFromCache(cached.data);
@@ -488,9 +574,11 @@ export function usePrometheusMetrics(
 
     fetchMetrics();
 
+    // A custom range is a fixed window, so polling would return the same data.
+    if (timeRange.preset === 'custom') return;
     const interval = setInterval(fetchMetrics, METRICS_REFRESH_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [fetchMetrics, selectedDeployment, namespace, subscription, cluster]);
+  }, [fetchMetrics, selectedDeployment, namespace, subscription, cluster, timeRange]);
 
   return {
     summary,
@@ -500,6 +588,7 @@ export function usePrometheusMetrics(
     responseTimeData,
     networkData,
     memoryUnit,
+    customPanelData,
     metricsLoading,
     hasFetchedMetrics,
     error,
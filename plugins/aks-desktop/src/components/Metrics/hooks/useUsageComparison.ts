@@ -0,0 +1,61 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import {
+  buildUsageComparison,
+  type ProjectScope,
+  scopeKey,
+  type UsageComparison,
+} from '../../../utils/shared/projectScopes';
+import { fetchScopeDeployments } from '../../shared/hooks/useDeploymentComparison';
+import { useScopeData } from '../../shared/hooks/useScopeData';
+
+/** Result returned by {@link useUsageComparison}. */
+export interface UseUsageComparisonResult extends UsageComparison {
+  loading: boolean;
+  /** Scopes whose pods or pod metrics could not be read, with the reason. */
+  errors: Record<string, string>;
+  refresh: () => void;
+}
+
+async function listItems(path: string, cluster: string): Promise<any[]> {
+  const list = await clusterRequest(path, { method: 'GET', cluster });
+  return list?.items ?? [];
+}
+
+async function fetchScopeUsage(scope: ProjectScope) {
+  const [deployments, pods, podMetrics] = await Promise.all([
+    fetchScopeDeployments(scope),
+    listItems(`/api/v1/namespaces/${scope.namespace}/pods`, scope.cluster),
+    listItems(`/apis/metrics.k8s.io/v1beta1/namespaces/${scope.namespace}/pods`, scope.cluster),
+  ]);
+  return { deployments, pods, podMetrics };
+}
+
+/**
+ * Reads the current CPU and memory usage of the pods in every scope of a
+ * project from the Kubernetes metrics API, per Deployment and in total.
+ * Nothing is fetched for fewer than two scopes.
+ *
+ * @param scopes - Scopes to aggregate.
+ */
+export function useUsageComparison(scopes: ProjectScope[]): UseUsageComparisonResult {
+  const { dataByScope, loading, errors, refresh } = useScopeData(scopes, fetchScopeUsage);
+  const deploymentsByScope: Record<string, any[]> = {};
+  const podsByScope: Record<string, any[]> = {};
+  const podMetricsByScope: Record<string, any[]> = {};
+  for (const scope of scopes) {
+    const data = dataByScope[scopeKey(scope)];
+    if (!data) continue;
+    deploymentsByScope[scopeKey(scope)] = data.deployments;
+    podsByScope[scopeKey(scope)] = data.pods;
+    podMetricsByScope[scopeKey(scope)] = data.podMetrics;
+  }
+  return {
+    ...buildUsageComparison(scopes, deploymentsByScope, podsByScope, podMetricsByScope),
+    loading,
+    errors,
+    refresh,
+  };
+}
@@ -0,0 +1,158 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+const mockClusterRequest = vi.hoisted(() => vi.fn());
+
+vi.mock('@kinvolk/headlamp-plugin/lib/ApiProxy', () => ({
+  clusterRequest: mockClusterRequest,
+}));
+
+import { useVpaRecommendation } from './useVpaRecommendation';
+
+const DEPLOYMENT_PATH = '/apis/apps/v1/namespaces/test-ns/deployments/my-deploy';
+const VPA_PATH = '/apis/autoscaling.k8s.io/v1/namespaces/test-ns/verticalpodautoscalers';
+
+const deployment = {
+  spec: {
+    template: {
+      spec: {
+        containers: [
+          {
+            name: 'app',
+            resources: { requests: { cpu: '100m', memory: '128Mi' }, limits: { cpu: '200m' } },
+          },
+        ],
+      },
+    },
+  },
+};
+
+const vpaObject = {
+  metadata: { name: 'my-deploy-vpa' },
+  spec: {
+    targetRef: { kind: 'Deployment', name: 'my-deploy' },
+    updatePolicy: { updateMode: 'Off' },
+  },
+  status: {
+    recommendation: {
+      containerRecommendations: [
+        {
+          containerName: 'app',
+          target: { cpu: '50m', memory: '64Mi' },
+          lowerBound: { cpu: '25m', memory: '32Mi' },
+          upperBound: { cpu: '100m', memory: '128Mi' },
+        },
+      ],
+    },
+  },
+};
+
+function mockCluster(vpaList: any) {
+  mockClusterRequest.mockImplementation((path: string, opts: any) => {
+    if (opts.method !== 'GET') return Promise.resolve({});
+    if (path === DEPLOYMENT_PATH) return Promise.resolve(deployment);
+    if (path === VPA_PATH) {
+      return vpaList instanceof Error || vpaList?.status
+        ? Promise.reject(vpaList)
+        : Promise.resolve(vpaList);
+    }
+    return Promise.reject(new Error(`unexpected ${path}`));
+  });
+}
+
+describe('useVpaRecommendation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('skips fetch when deployment is not selected', () => {
+    const { result } = renderHook(() => useVpaRecommendation('', 'test-ns', 'test-cluster'));
+
+    expect(result.current.vpa).toBeNull();
+    expect(result.current.vpaAvailable).toBeNull();
+    expect(mockClusterRequest).not.toHaveBeenCalled();
+  });
+
+  test('reads the VPA and current container resources', async () => {
+    mockCluster({ items: [vpaObject] });
+
+    const { result } = renderHook(() =>
+      useVpaRecommendation('my-deploy', 'test-ns', 'test-cluster')
+    );
+
+    await waitFor(() => expect(result.current.vpa?.name).toBe('my-deploy-vpa'));
+    expect(result.current.vpaAvailable).toBe(true);
+    expect(result.current.resources.app.requests).toEqual({ cpu: '100m', memory: '128Mi' });
+  });
+
+  test('reports the VPA as unavailable when the CRD is not installed', async () => {
+    mockCluster({ status: 404 });
+
+    const { result } = renderHook(() =>
+      useVpaRecommendation('my-deploy', 'test-ns', 'test-cluster')
+    );
+
+    await waitFor(() => expect(result.current.vpaAvailable).toBe(false));
+    expect(result.current.vpa).toBeNull();
+  });
+
+  test('createVpa applies a recommendation-only VPA', async () => {
+    mockCluster({ items: [] });
+    const { result } = renderHook(() =>
+      useVpaRecommendation('my-deploy', 'test-ns', 'test-cluster')
+    );
+    await waitFor(() => expect(result.current.vpaAvailable).toBe(true));
+
+    await act(() => result.current.createVpa('Off'));
+
+    const patch = mockClusterRequest.mock.calls.find(([, opts]) => opts.method === 'PATCH');
+    expect(patch?.[0]).toBe(`${VPA_PATH}/my-deploy-vpa?fieldManager=aks-desktop&force=true`);
+    expect(patch?.[1].headers).toEqual({ 'Content-Type': 'application/apply-patch+json' });
+    expect(JSON.parse(patch?.[1].body).spec.updatePolicy).toEqual({ updateMode: 'Off' });
+  });
+
+  test('applyRecommendation patches the deployment resources by container name', async () => {
+    mockCluster({ items: [vpaObject] });
+    const { result } = renderHook(() =>
+      useVpaRecommendation('my-deploy', 'test-ns', 'test-cluster')
+    );
+    await waitFor(() => expect(result.current.vpa).not.toBeNull());
+
+    await act(() => result.current.applyRecommendation());
+
+    const patch = mockClusterRequest.mock.calls.find(([, opts]) => opts.method === 'PATCH');
+    expect(patch?.[0]).toBe(DEPLOYMENT_PATH);
+    expect(patch?.[1].headers).toEqual({
+      'Content-Type': 'application/strategic-merge-patch+json',
+    });
+    expect(JSON.parse(patch?.[1].body).spec.template.spec.containers).toEqual([
+      {
+        name: 'app',
+        resources: { requests: { cpu: '50m', memory: '64Mi' }, limits: { cpu: '100m' } },
+      },
+    ]);
+    expect(result.current.error).toBeNull();
+  });
+
+  test('setUpdateMode surfaces API errors', async () => {
+    mockCluster({ items: [vpaObject] });
+    const { result } = renderHook(() =>
+      useVpaRecommendation('my-deploy', 'test-ns', 'test-cluster')
+    );
+    await waitFor(() => expect(result.current.vpa).not.toBeNull());
+    mockClusterRequest.mockRejectedValueOnce(new Error('forbidden'));
+
+    await act(() => result.current.setUpdateMode('Auto'));
+
+    expect(result.current.error).toBe('Failed to update Vertical Pod Autoscaler mode: forbidden');
+    expect(result.current.saving).toBe(false);
+  });
+});
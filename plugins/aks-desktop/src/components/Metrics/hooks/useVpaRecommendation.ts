@@ -0,0 +1,189 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VPA_REFRESH_INTERVAL_MS } from '../../../utils/constants/timing';
+import { trackActivity } from '../../../utils/shared/activityLog';
+import {
+  buildResourcesPatch,
+  buildVpa,
+  type ContainerResources,
+  findVpaForDeployment,
+  getContainerResources,
+  parseVpa,
+  VPA_API_VERSION,
+  type VpaInfo,
+  type VpaUpdateMode,
+} from '../vpa';
+
+// Server-side apply creates the VPA or updates the fields AKS desktop owns.
+const APPLY_PATCH_HEADERS = { 'Content-Type': 'application/apply-patch+json' };
+const APPLY_QUERY = '?fieldManager=aks-desktop&force=true';
+// A JSON merge patch would replace the whole containers list; strategic merge
+// matches containers by name.
+const STRATEGIC_MERGE_PATCH_HEADERS = { 'Content-Type': 'application/strategic-merge-patch+json' };
+
+/** Result returned by {@link useVpaRecommendation}. */
+export interface UseVpaRecommendationResult {
+  /** The VPA targeting the deployment, or null if there is none. */
+  vpa: VpaInfo | null;
+  /**
+   * Whether the VPA CRD is installed on the cluster. Null until the first
+   * request completes.
+   */
+  vpaAvailable: boolean | null;
+  /** Current requests and limits of each container, keyed by container name. */
+  resources: Record<string, ContainerResources>;
+  /** Whether a create, mode change or apply request is in flight. */
+  saving: boolean;
+  /** Error message from the last failed action, or null. */
+  error: string | null;
+  /** Creates a VPA for the deployment in the given mode. */
+  createVpa: (mode: VpaUpdateMode) => Promise<void>;
+  /** Changes the update mode of the existing VPA. */
+  setUpdateMode: (mode: VpaUpdateMode) => Promise<void>;
+  /** Patches the deployment's container resources to the VPA target. */
+  applyRecommendation: () => Promise<void>;
+}
+
+/**
+ * Reads the VerticalPodAutoscaler targeting a deployment together with the
+ * deployment's current container resources, and provides the actions of the
+ * right-sizing view. Recommendations are re-read periodically since the VPA
+ * recommender needs a few minutes of usage data before it publishes any.
+ *
+ * @param deploymentName - Name of the selected deployment.
+ * @param namespace - Namespace of the deployment.
+ * @param cluster - Name of the target cluster.
+ */
+export function useVpaRecommendation(
+  deploymentName: string | undefined,
+  namespace: string | undefined,
+  cluster: string | undefined
+): UseVpaRecommendationResult {
+  const [vpa, setVpa] = useState<VpaInfo | null>(null);
+  const [vpaAvailable, setVpaAvailable] = useState<boolean | null>(null);
+  const [resources, setResources] = useState<Record<string, ContainerResources>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequestIdRef = useRef(0);
+
+  const vpaPrefix = `/apis/${VPA_API_VERSION}/namespaces/${namespace}/verticalpodautoscalers`;
+  const deploymentPath = `/apis/apps/v1/namespaces/${namespace}/deployments/${deploymentName}`;
+
+  const fetchVpa = useCallback(async () => {
+    if (!deploymentName || !namespace) return;
+    const requestId = ++latestRequestIdRef.current;
+
+    try {
+      const deployment = await clusterRequest(deploymentPath, { method: 'GET', cluster });
+      if (requestId !== latestRequestIdRef.current) return;
+      setResources(getContainerResources(deployment));
+    } catch (err) {
+      if (requestId !== latestRequestIdRef.current) return;
+      console.error('Error fetching deployment resources:', err);
+    }
+
+    try {
+      const list = await clusterRequest(vpaPrefix, { method: 'GET', cluster });
+      if (requestId !== latestRequestIdRef.current) return;
+      const match = findVpaForDeployment(list?.items ?? [], deploymentName);
+      setVpaAvailable(true);
+      setVpa(match ? parseVpa(match) : null);
+    } catch (err: any) {
+      if (requestId !== latestRequestIdRef.current) return;
+      const status = err?.status ?? err?.response?.status;
+      if (status === 404) {
+        setVpaAvailable(false);
+      } else {
+        console.error('Error fetching VerticalPodAutoscalers:', err);
+      }
+      setVpa(null);
+    }
+  }, [deploymentName, namespace, cluster, vpaPrefix, deploymentPath]);
+
+  useEffect(() => {
+    setVpa(null);
+    setResources({});
+    setError(null);
+    fetchVpa();
+    const interval = setInterval(fetchVpa, VPA_REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      // Invalidate any in-flight request for the previous deployment.
+      latestRequestIdRef.current += 1;
+    };
+  }, [fetchVpa]);
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    if (!deploymentName || !namespace || !cluster) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      await fetchVpa();
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(`${failure}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const applyVpa = async (mode: VpaUpdateMode, name?: string) => {
+    const body = buildVpa(deploymentName!, namespace!, mode, name);
+    await trackActivity(
+      {
+        channel: 'kubernetes',
+        operation: 'Apply VerticalPodAutoscaler',
+        target: { cluster, namespace, resource: `VerticalPodAutoscaler/${body.metadata.name}` },
+      },
+      () =>
+        clusterRequest(`${vpaPrefix}/${body.metadata.name}${APPLY_QUERY}`, {
+          method: 'PATCH',
+          body: JSON.stringify(body),
+          headers: APPLY_PATCH_HEADERS,
+          cluster,
+        })
+    );
+  };
+
+  const createVpa = (mode: VpaUpdateMode) =>
+    runAction(() => applyVpa(mode), 'Failed to create Vertical Pod Autoscaler');
+
+  const setUpdateMode = (mode: VpaUpdateMode) =>
+    runAction(() => applyVpa(mode, vpa?.name), 'Failed to update Vertical Pod Autoscaler mode');
+
+  const applyRecommendation = () =>
+    runAction(async () => {
+      if (!vpa || vpa.recommendations.length === 0) {
+        throw new Error('No recommendation available yet');
+      }
+      await trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: 'Apply resource recommendation',
+          target: { cluster, namespace, resource: `Deployment/${deploymentName}` },
+        },
+        () =>
+          clusterRequest(deploymentPath, {
+            method: 'PATCH',
+            body: JSON.stringify(buildResourcesPatch(resources, vpa.recommendations)),
+            headers: STRATEGIC_MERGE_PATCH_HEADERS,
+            cluster,
+          })
+      );
+    }, 'Failed to apply recommendation');
+
+  return {
+    vpa,
+    vpaAvailable,
+    resources,
+    saving,
+    error,
+    createVpa,
+    setUpdateMode,
+    applyRecommendation,
+  };
+}
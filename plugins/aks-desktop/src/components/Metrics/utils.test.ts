@@ -9,9 +9,15 @@ import { describe, expect, test } from 'vitest';
 import {
   convertBytesToUnit,
   defaultMetricSummary,
+  expandCustomPanelQuery,
+  formatChartTimestamp,
   formatMemoryBrief,
+  getRateWindow,
+  getStepForRange,
   pickMemoryUnit,
+  resolveTimeRange,
   safeParseFloat,
+  toCustomPanelData,
 } from './utils';
 
 const ONE_MB = 1024 * 1024;
@@ -132,3 +138,111 @@ describe('defaultMetricSummary', () => {
     });
   });
 });
+
+describe('getStepForRange', () => {
+  test.each([
+    [15 * 60, 15],
+    [60 * 60, 30],
+    [6 * 60 * 60, 120],
+    [24 * 60 * 60, 600],
+    [7 * 24 * 60 * 60, 3600],
+  ])('range of %i seconds uses a %i second step', (range, step) => {
+    expect(getStepForRange(range)).toBe(step);
+  });
+
+  test('caps the step for very long ranges', () => {
+    expect(getStepForRange(10 * 365 * 24 * 60 * 60)).toBe(86400);
+  });
+});
+
+describe('getRateWindow', () => {
+  test('keeps the 5m window for steps up to five minutes', () => {
+    expect(getRateWindow(15)).toBe('5m');
+    expect(getRateWindow(300)).toBe('5m');
+  });
+
+  test('widens the window to the step for longer steps', () => {
+    expect(getRateWindow(3600)).toBe('3600s');
+  });
+});
+
+describe('resolveTimeRange', () => {
+  test('relative presets end now', () => {
+    expect(resolveTimeRange({ preset: '6h' }, 100_000)).toEqual({
+      start: 100_000 - 21_600,
+      end: 100_000,
+      step: 120,
+    });
+  });
+
+  test('custom ranges use their own window and a matching step', () => {
+    expect(resolveTimeRange({ preset: 'custom', start: 1000, end: 1000 + 7200 }, 999_999)).toEqual({
+      start: 1000,
+      end: 8200,
+      step: 60,
+    });
+  });
+});
+
+describe('formatChartTimestamp', () => {
+  test('uses the time only for ranges under a day', () => {
+    const ts = 1_700_000_000;
+    expect(formatChartTimestamp(ts, 3600)).toBe(new Date(ts * 1000).toLocaleTimeString());
+  });
+
+  test('includes the date for ranges of a day or more', () => {
+    const ts = 1_700_000_000;
+    expect(formatChartTimestamp(ts, 7 * 86400)).not.toBe(new Date(ts * 1000).toLocaleTimeString());
+  });
+});
+
+describe('expandCustomPanelQuery', () => {
+  test('replaces namespace and deployment placeholders', () => {
+    expect(
+      expandCustomPanelQuery(
+        'sum(rate(x{namespace="$namespace", pod=~"$deployment-.*"}[5m])) / $namespaces',
+        'team-a',
+        'web'
+      )
+    ).toBe('sum(rate(x{namespace="team-a", pod=~"web-.*"}[5m])) / $namespaces');
+  });
+});
+
+describe('toCustomPanelData', () => {
+  test('creates one line per series aligned by timestamp', () => {
+    const result = toCustomPanelData(
+      [
+        {
+          metric: { pod: 'web-1' },
+          values: [
+            [100, '1'],
+            [160, '2'],
+          ],
+        },
+        { metric: { __name__: 'up', pod: 'web-2' }, values: [[160, '3']] },
+      ],
+      3600
+    );
+
+    expect(result.series).toEqual([
+      { key: 's0', name: '{pod="web-1"}' },
+      { key: 's1', name: 'up{pod="web-2"}' },
+    ]);
+    expect(result.data).toHaveLength(2);
+    expect(result.data[0]).toMatchObject({ s0: 1 });
+    expect(result.data[0]).not.toHaveProperty('s1');
+    expect(result.data[1]).toMatchObject({ s0: 2, s1: 3 });
+  });
+
+  test('names unlabelled aggregates "value" and limits the number of series', () => {
+    const many = Array.from({ length: 12 }, (_, i) => ({
+      metric: i === 0 ? {} : { pod: `p${i}` },
+      values: [[100, '1']],
+    }));
+
+    const result = toCustomPanelData(many, 3600);
+
+    expect(result.series).toHaveLength(10);
+    expect(result.series[0].name).toBe('value');
+  });
+});
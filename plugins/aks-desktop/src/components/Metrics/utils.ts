@@ -30,6 +30,35 @@ export interface NetworkDataPoint {
   networkOut: number;
 }
 
+/**
+ * Single data point for a custom PromQL panel. Each series returned by the
+ * query is stored under its own key, as listed in {@link CustomPanelData.series}.
+ */
+export interface CustomChartDataPoint {
+  timestamp: string;
+  [seriesKey: string]: number | string;
+}
+
+/** A user-defined PromQL panel saved for a project. */
+export interface CustomMetricPanel {
+  id: string;
+  title: string;
+  /**
+   * PromQL expression. `$namespace` and `$deployment` are replaced with the
+   * project namespace and the selected deployment before querying.
+   */
+  query: string;
+  /** Y-axis label, e.g. a unit such as "req/s". */
+  unit: string;
+}
+
+/** Chart-ready result of a custom panel query. */
+export interface CustomPanelData {
+  /** One entry per returned series; `key` indexes into each data point. */
+  series: { key: string; name: string }[];
+  data: CustomChartDataPoint[];
+}
+
 /** Key metrics that are displayed in the summary bar. */
 export interface MetricSummary {
   totalPods: number;
@@ -107,3 +136,148 @@ export const defaultMetricSummary: MetricSummary = {
   memoryUsage: 'N/A',
   projectStatus: 'Unknown',
 };
+
+/** Relative time ranges offered by the metrics time range picker. */
+export type MetricsTimeRangePreset = '15m' | '1h' | '6h' | '24h' | '7d';
+
+/** Time range for the metrics charts: a range ending now, or a fixed window in epoch seconds. */
+export type MetricsTimeRange =
+  | { preset: MetricsTimeRangePreset }
+  | { preset: 'custom'; start: number; end: number };
+
+/** Duration in seconds of each relative time range. */
+export const METRICS_TIME_RANGE_SECONDS: Record<MetricsTimeRangePreset, number> = {
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+  '6h': 6 * 60 * 60,
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+};
+
+/** Time range shown when the metrics tab opens. */
+export const DEFAULT_METRICS_TIME_RANGE: MetricsTimeRange = { preset: '1h' };
+
+/** Query steps (seconds) that keep chart timestamps on round boundaries. */
+const STEP_CANDIDATES_SECONDS = [15, 30, 60, 120, 300, 600, 1800, 3600, 7200, 21600, 86400];
+
+/** Upper bound on points per series, keeping charts readable and queries cheap. */
+const MAX_POINTS_PER_SERIES = 200;
+
+/**
+ * Picks a query step for a range so each series has at most ~200 points.
+ *
+ * @param rangeSeconds - Length of the queried window.
+ * @returns The smallest candidate step that satisfies the point budget.
+ */
+export function getStepForRange(rangeSeconds: number): number {
+  const minStep = rangeSeconds / MAX_POINTS_PER_SERIES;
+  return (
+    STEP_CANDIDATES_SECONDS.find(step => step >= minStep) ??
+    STEP_CANDIDATES_SECONDS[STEP_CANDIDATES_SECONDS.length - 1]
+  );
+}
+
+/**
+ * Returns the `rate()` window for a query step. Steps longer than the default
+ * 5m window would skip samples between points, so the window grows with the step.
+ */
+export function getRateWindow(step: number): string {
+  return step <= 300 ? '5m' : `${step}s`;
+}
+
+/**
+ * Resolves a time range to Prometheus `query_range` parameters.
+ *
+ * @param range - Selected time range.
+ * @param nowSeconds - Current time in epoch seconds; relative ranges end here.
+ * @returns Start and end in epoch seconds and the matching step.
+ */
+export function resolveTimeRange(
+  range: MetricsTimeRange,
+  nowSeconds: number
+): { start: number; end: number; step: number } {
+  if (range.preset === 'custom') {
+    return { start: range.start, end: range.end, step: getStepForRange(range.end - range.start) };
+  }
+  const duration = METRICS_TIME_RANGE_SECONDS[range.preset];
+  return { start: nowSeconds - duration, end: nowSeconds, step: getStepForRange(duration) };
+}
+
+/** Stable string identifying a time range, used in cache keys. */
+export function getTimeRangeKey(range: MetricsTimeRange): string {
+  return range.preset === 'custom' ? `custom:${range.start}-${range.end}` : range.preset;
+}
+
+/**
+ * Formats a sample timestamp for a chart axis. Ranges of a day or more
+ * include the date, since times alone would repeat.
+ *
+ * @param epochSeconds - Sample timestamp from Prometheus.
+ * @param rangeSeconds - Length of the charted window.
+ */
+export function formatChartTimestamp(epochSeconds: number, rangeSeconds: number): string {
+  const date = new Date(epochSeconds * 1000);
+  if (rangeSeconds >= METRICS_TIME_RANGE_SECONDS['24h']) {
+    return date.toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+  return date.toLocaleTimeString();
+}
+
+/** Maximum series drawn per custom panel; further series are dropped. */
+export const MAX_CUSTOM_PANEL_SERIES = 10;
+
+/** Replaces the `$namespace` and `$deployment` placeholders in a custom panel query. */
+export function expandCustomPanelQuery(
+  query: string,
+  namespace: string,
+  deployment: string
+): string {
+  return query.replace(/\$namespace\b/g, namespace).replace(/\$deployment\b/g, deployment);
+}
+
+/**
+ * Labels a Prometheus series by its metric labels, e.g. `{pod="web-1"}`.
+ * Falls back to the metric name, or "value" for unlabelled aggregates.
+ */
+function getSeriesName(metric: Record<string, string> | undefined): string {
+  const { __name__: name, ...labels } = metric ?? {};
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return name ?? 'value';
+  return `${name ?? ''}{${entries.map(([k, v]) => `${k}="${v}"`).join(', ')}}`;
+}
+
+/**
+ * Converts a Prometheus range query result into chart data with one line per series.
+ *
+ * @param results - `data.result` from a `query_range` response.
+ * @param rangeSeconds - Length of the queried window, used to format timestamps.
+ */
+export function toCustomPanelData(results: any[], rangeSeconds: number): CustomPanelData {
+  const series = results.slice(0, MAX_CUSTOM_PANEL_SERIES).map((result, index) => ({
+    key: `s${index}`,
+    name: getSeriesName(result.metric),
+    values: (result.values ?? []) as [number, string][],
+  }));
+
+  const byTimestamp = new Map<number, CustomChartDataPoint>();
+  for (const s of series) {
+    for (const [time, value] of s.values) {
+      let point = byTimestamp.get(time);
+      if (!point) {
+        point = { timestamp: formatChartTimestamp(time, rangeSeconds) };
+        byTimestamp.set(time, point);
+      }
+      point[s.key] = parseFloat(safeParseFloat(value).toFixed(4));
+    }
+  }
+
+  return {
+    series: series.map(({ key, name }) => ({ key, name })),
+    data: [...byTimestamp.entries()].sort(([a], [b]) => a - b).map(([, point]) => point),
+  };
+}
@@ -0,0 +1,155 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, test } from 'vitest';
+import {
+  applyRecommendation,
+  buildResourcesPatch,
+  buildVpa,
+  findVpaForDeployment,
+  formatCpuForDisplay,
+  formatMemoryForDisplay,
+  getContainerResources,
+  parseVpa,
+} from './vpa';
+
+describe('buildVpa', () => {
+  test('targets the deployment with the given update mode', () => {
+    expect(buildVpa('web', 'team-a', 'Off')).toEqual({
+      apiVersion: 'autoscaling.k8s.io/v1',
+      kind: 'VerticalPodAutoscaler',
+      metadata: {
+        name: 'web-vpa',
+        namespace: 'team-a',
+        labels: { 'app.kubernetes.io/managed-by': 'aks-desktop' },
+      },
+      spec: {
+        targetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: 'web' },
+        updatePolicy: { updateMode: 'Off' },
+      },
+    });
+    expect(buildVpa('web', 'team-a', 'Auto', 'existing').metadata.name).toBe('existing');
+  });
+});
+
+describe('parseVpa', () => {
+  test('reads container recommendations', () => {
+    const vpa = parseVpa({
+      metadata: { name: 'web-vpa' },
+      spec: { updatePolicy: { updateMode: 'Off' } },
+      status: {
+        recommendation: {
+          containerRecommendations: [
+            {
+              containerName: 'app',
+              target: { cpu: '25m', memory: '262144k' },
+              lowerBound: { cpu: '10m', memory: '131072k' },
+              upperBound: { cpu: '100m', memory: '524288k' },
+              uncappedTarget: { cpu: '25m', memory: '262144k' },
+            },
+          ],
+        },
+      },
+    });
+
+    expect(vpa).toEqual({
+      name: 'web-vpa',
+      updateMode: 'Off',
+      recommendations: [
+        {
+          containerName: 'app',
+          target: { cpu: '25m', memory: '262144k' },
+          lowerBound: { cpu: '10m', memory: '131072k' },
+          upperBound: { cpu: '100m', memory: '524288k' },
+        },
+      ],
+    });
+  });
+
+  test('defaults to Auto mode and no recommendations', () => {
+    expect(parseVpa({ metadata: { name: 'v' }, spec: {} })).toEqual({
+      name: 'v',
+      updateMode: 'Auto',
+      recommendations: [],
+    });
+  });
+});
+
+describe('findVpaForDeployment', () => {
+  test('matches on the deployment target', () => {
+    const statefulSetVpa = { spec: { targetRef: { kind: 'StatefulSet', name: 'web' } } };
+    const deploymentVpa = { spec: { targetRef: { kind: 'Deployment', name: 'web' } } };
+    expect(findVpaForDeployment([statefulSetVpa, deploymentVpa], 'web')).toBe(deploymentVpa);
+    expect(findVpaForDeployment([statefulSetVpa], 'web')).toBeUndefined();
+  });
+});
+
+describe('applyRecommendation', () => {
+  test('sets requests to the target and keeps the limit ratio', () => {
+    expect(
+      applyRecommendation(
+        { requests: { cpu: '100m', memory: '128Mi' }, limits: { cpu: '200m', memory: '256Mi' } },
+        { cpu: '250m', memory: '262144k' }
+      )
+    ).toEqual({
+      requests: { cpu: '250m', memory: '250Mi' },
+      limits: { cpu: '500m', memory: '500Mi' },
+    });
+  });
+
+  test('does not add limits and raises a limit set without a request', () => {
+    expect(applyRecommendation({ requests: {}, limits: {} }, { cpu: '1500m' })).toEqual({
+      requests: { cpu: '1.5' },
+      limits: {},
+    });
+    expect(
+      applyRecommendation({ requests: {}, limits: { memory: '64Mi' } }, { memory: '100Mi' })
+    ).toEqual({ requests: { memory: '100Mi' }, limits: { memory: '100Mi' } });
+    expect(
+      applyRecommendation({ requests: {}, limits: { memory: '1Gi' } }, { memory: '100Mi' })
+    ).toEqual({ requests: { memory: '100Mi' }, limits: { memory: '1Gi' } });
+  });
+});
+
+describe('buildResourcesPatch', () => {
+  test('patches only containers with a recommendation, by name', () => {
+    const resources = getContainerResources({
+      spec: {
+        template: {
+          spec: {
+            containers: [
+              { name: 'app', resources: { requests: { cpu: '100m' }, limits: { cpu: '1' } } },
+              { name: 'sidecar', resources: {} },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(
+      buildResourcesPatch(resources, [
+        { containerName: 'app', target: { cpu: '50m' }, lowerBound: {}, upperBound: {} },
+        { containerName: 'removed', target: { cpu: '50m' }, lowerBound: {}, upperBound: {} },
+      ])
+    ).toEqual({
+      spec: {
+        template: {
+          spec: {
+            containers: [
+              { name: 'app', resources: { requests: { cpu: '50m' }, limits: { cpu: '500m' } } },
+            ],
+          },
+        },
+      },
+    });
+  });
+});
+
+describe('display formatting', () => {
+  test('normalises quantities', () => {
+    expect(formatCpuForDisplay('0.25')).toBe('250m');
+    expect(formatCpuForDisplay(undefined)).toBe('—');
+    expect(formatMemoryForDisplay('262144k')).toBe('250Mi');
+    expect(formatMemoryForDisplay('1Gi')).toBe('1024Mi');
+  });
+});
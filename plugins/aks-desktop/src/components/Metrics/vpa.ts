@@ -0,0 +1,234 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import {
+  formatCpu,
+  parseCpuToMillicores,
+  parseMemoryToBytes,
+} from '../../utils/shared/resourceUnits';
+
+/** API group/version of the VerticalPodAutoscaler custom resource. */
+export const VPA_API_VERSION = 'autoscaling.k8s.io/v1';
+
+const MEBIBYTE = 1024 * 1024;
+
+/**
+ * How the VPA acts on its recommendations. `Off` only computes
+ * recommendations; `Auto` evicts pods to apply them.
+ */
+export type VpaUpdateMode = 'Off' | 'Auto' | 'Initial' | 'Recreate' | 'InPlaceOrRecreate';
+
+/** CPU and memory quantities as Kubernetes quantity strings. */
+export interface ResourceQuantities {
+  cpu?: string;
+  memory?: string;
+}
+
+/** Requests and limits of a container. */
+export interface ContainerResources {
+  requests: ResourceQuantities;
+  limits: ResourceQuantities;
+}
+
+/** VPA recommendation for one container. */
+export interface ContainerRecommendation {
+  containerName: string;
+  target: ResourceQuantities;
+  lowerBound: ResourceQuantities;
+  upperBound: ResourceQuantities;
+}
+
+/** The VPA targeting a deployment, reduced to what the right-sizing view shows. */
+export interface VpaInfo {
+  name: string;
+  updateMode: VpaUpdateMode;
+  recommendations: ContainerRecommendation[];
+}
+
+/** Returns the VPA name AKS desktop uses for a deployment. */
+function getVpaName(deployment: string): string {
+  return `${deployment}-vpa`;
+}
+
+/**
+ * Builds a VerticalPodAutoscaler for a deployment.
+ *
+ * @param deployment - Deployment the VPA targets.
+ * @param namespace - Namespace of the deployment.
+ * @param updateMode - `Off` for recommendations only, `Auto` to apply them.
+ * @param name - Name of the VPA; defaults to {@link getVpaName}.
+ */
+export function buildVpa(
+  deployment: string,
+  namespace: string,
+  updateMode: VpaUpdateMode,
+  name = getVpaName(deployment)
+): Record<string, any> {
+  return {
+    apiVersion: VPA_API_VERSION,
+    kind: 'VerticalPodAutoscaler',
+    metadata: {
+      name,
+      namespace,
+      labels: { 'app.kubernetes.io/managed-by': 'aks-desktop' },
+    },
+    spec: {
+      targetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: deployment },
+      updatePolicy: { updateMode },
+    },
+  };
+}
+
+function pickQuantities(source: any): ResourceQuantities {
+  const quantities: ResourceQuantities = {};
+  if (source?.cpu !== undefined) quantities.cpu = String(source.cpu);
+  if (source?.memory !== undefined) quantities.memory = String(source.memory);
+  return quantities;
+}
+
+/**
+ * Reads a VerticalPodAutoscaler object. A VPA without an update policy uses
+ * the VPA default mode, `Auto`.
+ */
+export function parseVpa(vpa: any): VpaInfo {
+  return {
+    name: vpa?.metadata?.name ?? '',
+    updateMode: vpa?.spec?.updatePolicy?.updateMode ?? 'Auto',
+    recommendations: (vpa?.status?.recommendation?.containerRecommendations ?? []).map(
+      (rec: any) => ({
+        containerName: rec.containerName ?? '',
+        target: pickQuantities(rec.target),
+        lowerBound: pickQuantities(rec.lowerBound),
+        upperBound: pickQuantities(rec.upperBound),
+      })
+    ),
+  };
+}
+
+/** Finds the VPA that targets a deployment in a list of VPA objects. */
+export function findVpaForDeployment(vpas: any[], deployment: string): any | undefined {
+  return vpas.find(
+    vpa =>
+      vpa?.spec?.targetRef?.name === deployment &&
+      (vpa?.spec?.targetRef?.kind ?? 'Deployment') === 'Deployment'
+  );
+}
+
+/** Reads the requests and limits of each container in a Deployment object. */
+export function getContainerResources(deployment: any): Record<string, ContainerResources> {
+  const result: Record<string, ContainerResources> = {};
+  for (const container of deployment?.spec?.template?.spec?.containers ?? []) {
+    result[container.name] = {
+      requests: pickQuantities(container.resources?.requests),
+      limits: pickQuantities(container.resources?.limits),
+    };
+  }
+  return result;
+}
+
+function formatCpuQuantity(millicores: number): string {
+  return formatCpu(Math.max(1, Math.ceil(millicores)));
+}
+
+function formatMemoryQuantity(bytes: number): string {
+  return `${Math.max(1, Math.ceil(bytes / MEBIBYTE))}Mi`;
+}
+
+/**
+ * Computes the resources for one resource kind after applying a recommended
+ * request. Limits keep their ratio to the request, as the VPA does itself; a
+ * limit without a request is raised only if it would fall below the request.
+ */
+function scaleResource(
+  target: string,
+  request: string | undefined,
+  limit: string | undefined,
+  parse: (value: string) => number,
+  format: (value: number) => string
+): { request: string; limit?: string } {
+  const newRequest = parse(target);
+  const formattedRequest = format(newRequest);
+  if (!limit) return { request: formattedRequest };
+
+  const oldLimit = parse(limit);
+  const oldRequest = request ? parse(request) : 0;
+  if (oldRequest > 0) {
+    return { request: formattedRequest, limit: format((oldLimit * newRequest) / oldRequest) };
+  }
+  return { request: formattedRequest, limit: oldLimit < newRequest ? formattedRequest : limit };
+}
+
+/**
+ * Returns the container resources that result from applying a VPA target
+ * recommendation. Resources without a target are left unchanged.
+ */
+export function applyRecommendation(
+  current: ContainerResources,
+  target: ResourceQuantities
+): ContainerResources {
+  const next: ContainerResources = {
+    requests: { ...current.requests },
+    limits: { ...current.limits },
+  };
+
+  if (target.cpu) {
+    const cpu = scaleResource(
+      target.cpu,
+      current.requests.cpu,
+      current.limits.cpu,
+      parseCpuToMillicores,
+      formatCpuQuantity
+    );
+    next.requests.cpu = cpu.request;
+    if (cpu.limit) next.limits.cpu = cpu.limit;
+  }
+
+  if (target.memory) {
+    const memory = scaleResource(
+      target.memory,
+      current.requests.memory,
+      current.limits.memory,
+      parseMemoryToBytes,
+      formatMemoryQuantity
+    );
+    next.requests.memory = memory.request;
+    if (memory.limit) next.limits.memory = memory.limit;
+  }
+
+  return next;
+}
+
+/**
+ * Builds a strategic merge patch that sets the resources of the recommended
+ * containers. Strategic merge matches containers by name, so containers
+ * without a recommendation are left untouched.
+ */
+export function buildResourcesPatch(
+  currentResources: Record<string, ContainerResources>,
+  recommendations: ContainerRecommendation[]
+): Record<string, any> {
+  const containers = recommendations
+    .filter(rec => currentResources[rec.containerName])
+    .map(rec => {
+      const resources = applyRecommendation(currentResources[rec.containerName], rec.target);
+      return {
+        name: rec.containerName,
+        resources: {
+          requests: resources.requests,
+          ...(Object.keys(resources.limits).length > 0 ? { limits: resources.limits } : {}),
+        },
+      };
+    });
+
+  return { spec: { template: { spec: { containers } } } };
+}
+
+/** Formats a CPU quantity for display, e.g. `250m` or `1.5`. */
+export function formatCpuForDisplay(value: string | undefined): string {
+  return value ? formatCpu(parseCpuToMillicores(value)) : '—';
+}
+
+/** Formats a memory quantity for display in MiB. */
+export function formatMemoryForDisplay(value: string | undefined): string {
+  return value ? `${Math.round(parseMemoryToBytes(value) / MEBIBYTE)}Mi` : '—';
+}
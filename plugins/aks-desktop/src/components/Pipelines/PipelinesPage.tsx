@@ -0,0 +1,278 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { visuallyHidden } from '@mui/utils';
+import React, { useState } from 'react';
+import { openExternalUrl } from '../../utils/shared/openExternalUrl';
+import { useGitHubAuthContext } from '../GitHubPipeline/GitHubAuthContext';
+import { getRunStatusIcon, getRunStatusLabel } from '../GitHubPipeline/utils/statusDisplay';
+import { usePipelinesDashboard } from './hooks/usePipelinesDashboard';
+import {
+  canResetPipeline,
+  canResumePipeline,
+  getPipelineRowStatus,
+  type PipelineRow,
+} from './utils/pipelineRows';
+
+function StatusChip({ row }: { row: PipelineRow }) {
+  const { t } = useTranslation();
+  const status = getPipelineRowStatus(row);
+
+  if (status.kind === 'configured') {
+    return <Chip size="small" color="success" label={t('Configured')} />;
+  }
+  if (status.kind === 'stale') {
+    return (
+      <Tooltip
+        title={t(
+          'The saved state could not be read. It was written by another version of the app or only an active-pipeline pointer is left.'
+        )}
+      >
+        <Chip size="small" color="warning" label={t('Stale')} />
+      </Tooltip>
+    );
+  }
+  const color =
+    status.state === 'Failed'
+      ? 'error'
+      : status.state === 'PipelineConfigured' || status.state === 'Deployed'
+      ? 'success'
+      : 'info';
+  return <Chip size="small" color={color} variant="outlined" label={status.state} />;
+}
+
+/**
+ * Lists the pipelines set up or in progress across all clusters and repos,
+ * with actions to resume, reset, clear or re-sync each one.
+ */
+export default function PipelinesPage() {
+  const { t } = useTranslation();
+  const { octokit, authState, startOAuth } = useGitHubAuthContext();
+  const {
+    rows,
+    lastRuns,
+    loading,
+    unreachableClusters,
+    busyId,
+    notice,
+    refresh,
+    resume,
+    reset,
+    clear,
+    resync,
+  } = usePipelinesDashboard(octokit);
+  const [confirmClear, setConfirmClear] = useState<PipelineRow | null>(null);
+
+  return (
+    <Box sx={{ p: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6" component="h2" sx={{ flex: 1 }}>
+          {t('Pipelines')}
+        </Typography>
+        {loading && <CircularProgress size={16} aria-label={t('Loading pipelines')} />}
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<Icon icon="mdi:refresh" aria-hidden="true" />}
+          onClick={refresh}
+        >
+          {t('Refresh')}
+        </Button>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t(
+          'Pipelines configured in project namespaces and pipeline setups saved on this device. Setup state is kept on this device only.'
+        )}
+      </Typography>
+
+      {!authState.isAuthenticated && !authState.isRestoring && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            !authState.isAuthorizingBrowser && (
+              <Button color="inherit" size="small" onClick={startOAuth}>
+                {t('Sign in')}
+              </Button>
+            )
+          }
+        >
+          {authState.isAuthorizingBrowser
+            ? t('Waiting for browser authorization...')
+            : t('Sign in to GitHub to view the last run of each pipeline.')}
+        </Alert>
+      )}
+
+      {unreachableClusters.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('Could not read the namespaces of {{clusters}}.', {
+            clusters: unreachableClusters.join(', '),
+          })}
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert severity={notice.severity} sx={{ mb: 2 }}>
+          {notice.message}
+        </Alert>
+      )}
+
+      {rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {loading ? t('Loading pipelines...') : t('No pipelines found.')}
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{t('State')}</TableCell>
+                <TableCell>{t('Repository')}</TableCell>
+                <TableCell>{t('Target')}</TableCell>
+                <TableCell>{t('Last run')}</TableCell>
+                <TableCell>{t('Last error')}</TableCell>
+                <TableCell>
+                  <Box component="span" sx={visuallyHidden}>
+                    {t('Actions')}
+                  </Box>
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => {
+                const run = lastRuns[row.repoKey];
+                const runIcon = run ? getRunStatusIcon(run.status, run.conclusion) : null;
+                return (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <StatusChip row={row} />
+                    </TableCell>
+                    <TableCell>
+                      <Link
+                        component="button"
+                        variant="body2"
+                        onClick={() => openExternalUrl(`https://github.com/${row.repoKey}`)}
+                      >
+                        {row.repoKey}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      {row.clusterName && row.namespace
+                        ? `${row.clusterName} / ${row.namespace}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      {run && runIcon ? (
+                        <Link
+                          component="button"
+                          variant="body2"
+                          onClick={() => openExternalUrl(run.url)}
+                          sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}
+                        >
+                          <Box
+                            component={Icon}
+                            icon={runIcon.icon}
+                            sx={{ color: runIcon.color }}
+                            aria-hidden
+                          />
+                          <span>
+                            {getRunStatusLabel(run.status, run.conclusion)} ·{' '}
+                            {new Date(run.createdAt).toLocaleString()}
+                          </span>
+                        </Link>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell sx={{ maxWidth: 320 }}>
+                      {row.stored?.error ? (
+                        <Tooltip title={row.stored.error}>
+                          <Typography variant="body2" color="error" noWrap>
+                            {row.stored.error}
+                          </Typography>
+                        </Tooltip>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {canResumePipeline(row) && (
+                        <Button size="small" onClick={() => resume(row)}>
+                          {t('Resume')}
+                        </Button>
+                      )}
+                      {canResetPipeline(row) && (
+                        <Button size="small" onClick={() => reset(row)}>
+                          {t('Reset')}
+                        </Button>
+                      )}
+                      {row.stored && (
+                        <Button size="small" color="error" onClick={() => setConfirmClear(row)}>
+                          {t('Clear')}
+                        </Button>
+                      )}
+                      {row.clusterName && row.namespace && (
+                        <Button size="small" disabled={busyId !== null} onClick={() => resync(row)}>
+                          {busyId === row.id ? t('Syncing…') : t('Re-sync')}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={confirmClear !== null} onClose={() => setConfirmClear(null)}>
+        <DialogTitle>
+          {t('Clear the saved state of {{repo}}?', { repo: confirmClear?.repoKey })}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t(
+              'The pipeline setup progress saved on this device is removed. Nothing changes in the repository or the cluster.'
+            )}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmClear(null)}>{t('Cancel')}</Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              if (confirmClear) clear(confirmClear);
+              setConfirmClear(null);
+            }}
+          >
+            {t('Clear')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,279 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { K8s, useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import type { Octokit } from '@octokit/rest';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useHistory } from 'react-router-dom';
+import {
+  PROJECT_ID_LABEL,
+  PROJECT_MANAGED_BY_LABEL,
+  PROJECT_MANAGED_BY_VALUE,
+} from '../../../utils/constants/projectLabels';
+import { listWorkflowRuns } from '../../../utils/github/github-api';
+import type { PipelineRun } from '../../Deployments/hooks/usePipelineRuns';
+import { OPEN_PIPELINE_PARAM, PIPELINE_WORKFLOW_FILENAME } from '../../GitHubPipeline/constants';
+import { ANNOTATION_PIPELINE_REPOS } from '../../GitHubPipeline/hooks/usePipelineAnnotationSync';
+import {
+  clearStoredPipeline,
+  clearSyncedPipeline,
+  listStoredPipelines,
+  parsePipelineReposAnnotation,
+  resetStoredPipeline,
+  setActivePipeline,
+} from '../../GitHubPipeline/utils/pipelineStorage';
+import {
+  type AnnotatedNamespace,
+  buildPipelineRows,
+  type PipelineRow,
+} from '../utils/pipelineRows';
+
+export interface PipelineNotice {
+  severity: 'success' | 'info' | 'error';
+  message: string;
+}
+
+export interface UsePipelinesDashboardResult {
+  rows: PipelineRow[];
+  /** Latest deploy workflow run of each repo, keyed by `owner/repo`. */
+  lastRuns: Record<string, PipelineRun>;
+  loading: boolean;
+  /** Clusters whose namespaces could not be read. */
+  unreachableClusters: string[];
+  /** Row an action is running on, or null. */
+  busyId: string | null;
+  /** Outcome of the last action, or null. */
+  notice: PipelineNotice | null;
+  refresh: () => void;
+  /** Opens the row's project with the pipeline wizard resuming it. */
+  resume: (row: PipelineRow) => void;
+  reset: (row: PipelineRow) => void;
+  clear: (row: PipelineRow) => void;
+  /** Re-reads the namespace annotation and drops the active pointer it supersedes. */
+  resync: (row: PipelineRow) => Promise<void>;
+}
+
+const PROJECT_SELECTOR = `${PROJECT_MANAGED_BY_LABEL}=${PROJECT_MANAGED_BY_VALUE}`;
+
+/**
+ * Collects every pipeline known to the app: the wizard state saved on this
+ * device, plus the pipeline-repos annotations of the project namespaces in
+ * each registered cluster.
+ */
+export const usePipelinesDashboard = (octokit: Octokit | null): UsePipelinesDashboardResult => {
+  const { t } = useTranslation();
+  const history = useHistory();
+  const clustersConf = K8s.useClustersConf();
+  const [storedVersion, setStoredVersion] = useState(0);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [annotated, setAnnotated] = useState<AnnotatedNamespace[]>([]);
+  const [unreachableClusters, setUnreachableClusters] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [lastRuns, setLastRuns] = useState<Record<string, PipelineRun>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<PipelineNotice | null>(null);
+
+  const clusterKey = JSON.stringify(Object.keys(clustersConf ?? {}).sort());
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const clusters = useMemo<string[]>(() => JSON.parse(clusterKey), [clusterKey]);
+
+  useEffect(() => {
+    if (clusters.length === 0) {
+      setAnnotated([]);
+      setUnreachableClusters([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.allSettled(
+      clusters.map(cluster =>
+        clusterRequest(`/api/v1/namespaces?labelSelector=${encodeURIComponent(PROJECT_SELECTOR)}`, {
+          method: 'GET',
+          cluster,
+        })
+      )
+    ).then(results => {
+      if (cancelled) return;
+      const next: AnnotatedNamespace[] = [];
+      const failed: string[] = [];
+      results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+          console.warn(`Pipelines: failed to list namespaces in ${clusters[i]}`, result.reason);
+          failed.push(clusters[i]);
+          return;
+        }
+        for (const ns of result.value?.items ?? []) {
+          next.push({
+            clusterName: clusters[i],
+            namespace: ns.metadata.name,
+            projectId: ns?.metadata?.labels?.[PROJECT_ID_LABEL] ?? null,
+            repos: parsePipelineReposAnnotation(
+              ns?.metadata?.annotations?.[ANNOTATION_PIPELINE_REPOS]
+            ),
+          });
+        }
+      });
+      setAnnotated(next);
+      setUnreachableClusters(failed);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clusters, refreshKey]);
+
+  const rows = useMemo(
+    () => buildPipelineRows(listStoredPipelines(), annotated),
+    // storedVersion re-reads localStorage after an action changes it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [annotated, storedVersion, refreshKey]
+  );
+
+  const repoKeys = JSON.stringify([...new Set(rows.map(row => row.repoKey))].sort());
+
+  useEffect(() => {
+    const keys: string[] = JSON.parse(repoKeys);
+    if (!octokit || keys.length === 0) {
+      setLastRuns({});
+      return;
+    }
+    let cancelled = false;
+
+    Promise.allSettled(
+      keys.map(key => {
+        const [owner, repo] = key.split('/');
+        return listWorkflowRuns(octokit, owner, repo, {
+          workflowFileName: PIPELINE_WORKFLOW_FILENAME,
+          per_page: 1,
+        });
+      })
+    ).then(results => {
+      if (cancelled) return;
+      const next: Record<string, PipelineRun> = {};
+      results.forEach((result, i) => {
+        const run = result.status === 'fulfilled' ? result.value[0] : undefined;
+        if (run) {
+          const [owner, repo] = keys[i].split('/');
+          next[keys[i]] = { ...run, owner, repo };
+        }
+      });
+      setLastRuns(next);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [octokit, repoKeys, refreshKey]);
+
+  const refresh = useCallback(() => {
+    setNotice(null);
+    setRefreshKey(k => k + 1);
+  }, []);
+
+  const resume = useCallback(
+    (row: PipelineRow) => {
+      if (!row.repo || !row.clusterName || !row.namespace || !row.projectId) return;
+      setActivePipeline(row.clusterName, row.namespace, row.repo);
+      history.push(`/project/${encodeURIComponent(row.projectId)}?${OPEN_PIPELINE_PARAM}=true`);
+    },
+    [history]
+  );
+
+  const reset = useCallback(
+    (row: PipelineRow) => {
+      setNotice(
+        resetStoredPipeline(row.repoKey)
+          ? {
+              severity: 'success',
+              message: t('{{repo}} was reset to its last successful step.', { repo: row.repoKey }),
+            }
+          : {
+              severity: 'error',
+              message: t('{{repo}} has no readable state to reset.', { repo: row.repoKey }),
+            }
+      );
+      setStoredVersion(v => v + 1);
+    },
+    [t]
+  );
+
+  const clear = useCallback(
+    (row: PipelineRow) => {
+      clearStoredPipeline(row.repoKey);
+      setNotice({
+        severity: 'success',
+        message: t('Cleared the saved state of {{repo}}.', { repo: row.repoKey }),
+      });
+      setStoredVersion(v => v + 1);
+    },
+    [t]
+  );
+
+  const resync = useCallback(
+    async (row: PipelineRow) => {
+      const { clusterName, namespace } = row;
+      if (!clusterName || !namespace) return;
+      setBusyId(row.id);
+      setNotice(null);
+      try {
+        const ns = await clusterRequest(`/api/v1/namespaces/${namespace}`, {
+          method: 'GET',
+          cluster: clusterName,
+        });
+        const repos = parsePipelineReposAnnotation(
+          ns?.metadata?.annotations?.[ANNOTATION_PIPELINE_REPOS]
+        );
+        setAnnotated(prev => [
+          ...prev.filter(a => a.clusterName !== clusterName || a.namespace !== namespace),
+          {
+            clusterName,
+            namespace,
+            projectId: ns?.metadata?.labels?.[PROJECT_ID_LABEL] ?? null,
+            repos,
+          },
+        ]);
+        if (repos.some(repo => `${repo.owner}/${repo.repo}` === row.repoKey)) {
+          clearSyncedPipeline(row.repoKey, clusterName, namespace);
+          setNotice({
+            severity: 'success',
+            message: t('{{namespace}} has a configured pipeline from {{repo}}.', {
+              namespace,
+              repo: row.repoKey,
+            }),
+          });
+        } else {
+          setNotice({
+            severity: 'info',
+            message: t(
+              '{{namespace}} has no pipeline from {{repo}}; the state saved on this device was kept.',
+              { namespace, repo: row.repoKey }
+            ),
+          });
+        }
+        setStoredVersion(v => v + 1);
+      } catch (err) {
+        setNotice({ severity: 'error', message: err instanceof Error ? err.message : String(err) });
+      } finally {
+        setBusyId(null);
+      }
+    },
+    [t]
+  );
+
+  return {
+    rows,
+    lastRuns,
+    loading,
+    unreachableClusters,
+    busyId,
+    notice,
+    refresh,
+    resume,
+    reset,
+    clear,
+    resync,
+  };
+};
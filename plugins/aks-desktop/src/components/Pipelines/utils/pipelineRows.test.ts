@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import type { StoredPipeline } from '../../GitHubPipeline/utils/pipelineStorage';
+import {
+  buildPipelineRows,
+  canResetPipeline,
+  canResumePipeline,
+  getPipelineRowStatus,
+} from './pipelineRows';
+
+const repo = { owner: 'testuser', repo: 'my-repo', defaultBranch: 'main' };
+
+function stored(overrides: Partial<StoredPipeline> = {}): StoredPipeline {
+  return {
+    repoKey: 'testuser/my-repo',
+    repo,
+    clusterName: 'cluster',
+    namespace: 'ns',
+    deploymentState: 'AgentRunning',
+    lastSuccessfulState: 'AgentRunning',
+    error: null,
+    updatedAt: null,
+    active: true,
+    ...overrides,
+  };
+}
+
+describe('buildPipelineRows', () => {
+  it('should merge saved state into the annotated row of the same target', () => {
+    const rows = buildPipelineRows(
+      [stored()],
+      [{ clusterName: 'cluster', namespace: 'ns', projectId: 'shop', repos: [repo] }]
+    );
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      annotated: true,
+      projectId: 'shop',
+      stored: { deploymentState: 'AgentRunning' },
+    });
+  });
+
+  it('should take the project of saved state from its listed namespace', () => {
+    const rows = buildPipelineRows(
+      [stored(), stored({ repoKey: 'testuser/other', namespace: 'unlisted' })],
+      [{ clusterName: 'cluster', namespace: 'ns', projectId: 'shop', repos: [] }]
+    );
+
+    expect(rows.map(row => [row.namespace, row.projectId, row.annotated])).toEqual([
+      ['ns', 'shop', false],
+      ['unlisted', null, false],
+    ]);
+  });
+
+  it('should keep saved state for other targets and without a target apart', () => {
+    const rows = buildPipelineRows(
+      [
+        stored({ namespace: 'other-ns' }),
+        stored({ repoKey: 'testuser/orphan', repo: null, clusterName: null, namespace: null }),
+      ],
+      [{ clusterName: 'cluster', namespace: 'ns', projectId: 'shop', repos: [repo] }]
+    );
+
+    expect(rows.map(row => row.id)).toEqual([
+      'testuser/orphan',
+      'cluster/ns/testuser/my-repo',
+      'cluster/other-ns/testuser/my-repo',
+    ]);
+    expect(rows[1].stored).toBeNull();
+    expect(rows[2].annotated).toBe(false);
+  });
+});
+
+describe('getPipelineRowStatus', () => {
+  it('should prefer saved state over the annotation', () => {
+    const [row] = buildPipelineRows(
+      [stored({ deploymentState: 'Failed' })],
+      [{ clusterName: 'cluster', namespace: 'ns', projectId: 'shop', repos: [repo] }]
+    );
+    expect(getPipelineRowStatus(row)).toEqual({ kind: 'state', state: 'Failed' });
+  });
+
+  it('should report annotated pipelines as configured and unreadable state as stale', () => {
+    const [annotated] = buildPipelineRows(
+      [],
+      [{ clusterName: 'cluster', namespace: 'ns', projectId: 'shop', repos: [repo] }]
+    );
+    const [stale] = buildPipelineRows([stored({ deploymentState: null })], []);
+
+    expect(getPipelineRowStatus(annotated)).toEqual({ kind: 'configured' });
+    expect(getPipelineRowStatus(stale)).toEqual({ kind: 'stale' });
+  });
+});
+
+describe('pipeline row actions', () => {
+  it('should resume resumable state with a known target and project', () => {
+    const projects = [{ clusterName: 'cluster', namespace: 'ns', projectId: 'shop', repos: [] }];
+
+    expect(canResumePipeline(buildPipelineRows([stored()], projects)[0])).toBe(true);
+    expect(
+      canResumePipeline(buildPipelineRows([stored({ deploymentState: 'Configured' })], projects)[0])
+    ).toBe(false);
+    expect(canResumePipeline(buildPipelineRows([stored({ namespace: null })], projects)[0])).toBe(
+      false
+    );
+    expect(canResumePipeline(buildPipelineRows([stored()], [])[0])).toBe(false);
+  });
+
+  it('should reset only state that would change', () => {
+    expect(canResetPipeline(buildPipelineRows([stored()], [])[0])).toBe(false);
+    expect(
+      canResetPipeline(buildPipelineRows([stored({ deploymentState: 'Failed' })], [])[0])
+    ).toBe(true);
+    expect(canResetPipeline(buildPipelineRows([stored({ error: 'boom' })], [])[0])).toBe(true);
+    expect(canResetPipeline(buildPipelineRows([stored({ deploymentState: null })], [])[0])).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,131 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import type { GitHubRepo } from '../../../types/github';
+import type { PipelineDeploymentState } from '../../GitHubPipeline/types';
+import { RESUMABLE_STATES, type StoredPipeline } from '../../GitHubPipeline/utils/pipelineStorage';
+
+/** A project namespace and the repos its pipeline-repos annotation lists. */
+export interface AnnotatedNamespace {
+  clusterName: string;
+  namespace: string;
+  /** Project the namespace belongs to, from its project-id label. */
+  projectId: string | null;
+  repos: GitHubRepo[];
+}
+
+/** One pipeline on the pipelines page. */
+export interface PipelineRow {
+  id: string;
+  /** `owner/repo`. */
+  repoKey: string;
+  repo: GitHubRepo | null;
+  clusterName: string | null;
+  namespace: string | null;
+  /** Project of the target namespace, or null when the namespace was not listed. */
+  projectId: string | null;
+  /** Wizard state saved on this device, or null when only the namespace records the pipeline. */
+  stored: StoredPipeline | null;
+  /** Whether the target namespace's annotation lists the repo. */
+  annotated: boolean;
+}
+
+/** What the state column shows for a row. */
+export type PipelineRowStatus =
+  | { kind: 'state'; state: PipelineDeploymentState }
+  | { kind: 'configured' }
+  | { kind: 'stale' };
+
+const scopeKey = (clusterName: string, namespace: string) => `${clusterName}/${namespace}`;
+
+const rowId = (clusterName: string, namespace: string, repoKey: string) =>
+  `${scopeKey(clusterName, namespace)}/${repoKey}`;
+
+/**
+ * Merges the pipelines saved on this device with those recorded in namespace
+ * annotations. A saved pipeline whose target namespace lists its repo becomes
+ * one row; everything else gets a row of its own.
+ */
+export function buildPipelineRows(
+  stored: StoredPipeline[],
+  annotated: AnnotatedNamespace[]
+): PipelineRow[] {
+  const rows = new Map<string, PipelineRow>();
+  const projectIds = new Map<string, string | null>();
+
+  for (const { clusterName, namespace, projectId, repos } of annotated) {
+    projectIds.set(scopeKey(clusterName, namespace), projectId);
+    for (const repo of repos) {
+      const repoKey = `${repo.owner}/${repo.repo}`;
+      const id = rowId(clusterName, namespace, repoKey);
+      rows.set(id, {
+        id,
+        repoKey,
+        repo,
+        clusterName,
+        namespace,
+        projectId,
+        stored: null,
+        annotated: true,
+      });
+    }
+  }
+
+  for (const pipeline of stored) {
+    const { clusterName, namespace, repoKey } = pipeline;
+    const id = clusterName && namespace ? rowId(clusterName, namespace, repoKey) : repoKey;
+    const existing = rows.get(id);
+    rows.set(id, {
+      id,
+      repoKey,
+      repo: pipeline.repo ?? existing?.repo ?? null,
+      clusterName,
+      namespace,
+      projectId:
+        clusterName && namespace ? projectIds.get(scopeKey(clusterName, namespace)) ?? null : null,
+      stored: pipeline,
+      annotated: existing?.annotated ?? false,
+    });
+  }
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      (a.clusterName ?? '').localeCompare(b.clusterName ?? '') ||
+      (a.namespace ?? '').localeCompare(b.namespace ?? '') ||
+      a.repoKey.localeCompare(b.repoKey)
+  );
+}
+
+/**
+ * Picks what the state column shows. Saved state wins over the annotation
+ * because it is newer: a repo being set up again is both annotated and in
+ * progress.
+ */
+export function getPipelineRowStatus(row: PipelineRow): PipelineRowStatus {
+  if (row.stored?.deploymentState) return { kind: 'state', state: row.stored.deploymentState };
+  if (row.annotated) return { kind: 'configured' };
+  return { kind: 'stale' };
+}
+
+/**
+ * Whether the wizard can pick the row up where it stopped. It opens from the
+ * project page, so the target namespace must belong to a known project.
+ */
+export function canResumePipeline(row: PipelineRow): boolean {
+  const state = row.stored?.deploymentState;
+  return (
+    !!state &&
+    RESUMABLE_STATES.has(state) &&
+    !!row.repo &&
+    !!row.clusterName &&
+    !!row.namespace &&
+    !!row.projectId
+  );
+}
+
+/** Whether resetting would move the row's saved state back to an earlier step. */
+export function canResetPipeline(row: PipelineRow): boolean {
+  const stored = row.stored;
+  if (!stored?.deploymentState) return false;
+  return stored.deploymentState !== (stored.lastSuccessfulState ?? 'Configured') || !!stored.error;
+}
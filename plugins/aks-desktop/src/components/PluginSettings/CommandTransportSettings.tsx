@@ -0,0 +1,139 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Alert, Box, Button, FormControlLabel, Radio, RadioGroup, Typography } from '@mui/material';
+import React, { useEffect, useReducer, useState } from 'react';
+import {
+  type CommandTransportMode,
+  getCommandTransportMode,
+  getDryRunLog,
+  getRecordedFixture,
+  parseCommandFixture,
+  setCommandTransportMode,
+  subscribeCommandTransport,
+} from '../../utils/shared/commandTransport';
+import { downloadFile } from '../../utils/shared/download';
+
+/**
+ * Developer settings for the Azure CLI transport: record commands to a
+ * fixture, replay a fixture offline, or dry-run mutating commands. The mode
+ * lasts until the app is reloaded.
+ */
+export default function CommandTransportSettings() {
+  const { t } = useTranslation();
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  const [fixtureError, setFixtureError] = useState<string | null>(null);
+  const [fixtureName, setFixtureName] = useState<string | null>(null);
+
+  useEffect(() => subscribeCommandTransport(rerender), []);
+
+  const mode = getCommandTransportMode();
+  const recorded = mode === 'record' ? getRecordedFixture().commands.length : 0;
+  const dryRunLog = mode === 'dry' ? getDryRunLog() : [];
+
+  const handleModeChange = (next: CommandTransportMode) => {
+    // Replay starts once a fixture is loaded.
+    if (next === 'replay') return;
+    setFixtureError(null);
+    setFixtureName(null);
+    setCommandTransportMode(next);
+  };
+
+  const handleFixture = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setCommandTransportMode('replay', parseCommandFixture(String(reader.result)));
+        setFixtureName(file.name);
+        setFixtureError(null);
+      } catch (err) {
+        setFixtureError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    reader.onerror = () => setFixtureError(t('Could not read {{file}}', { file: file.name }));
+    reader.readAsText(file);
+  };
+
+  return (
+    <Box sx={{ maxWidth: 600, mt: 4 }}>
+      <Typography variant="h6">{t('Azure CLI Commands')}</Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t(
+          'For demos and testing. Record captures Azure CLI commands and their output, with credentials removed. Replay answers commands from a recording without running them. Dry run skips commands that change resources and lists them instead. Reloading the app returns to running commands.'
+        )}
+      </Typography>
+      <RadioGroup
+        value={mode}
+        onChange={e => handleModeChange(e.target.value as CommandTransportMode)}
+        aria-label={t('Azure CLI command mode')}
+      >
+        <FormControlLabel value="live" control={<Radio />} label={t('Run commands')} />
+        <FormControlLabel value="record" control={<Radio />} label={t('Record')} />
+        <FormControlLabel
+          value="replay"
+          control={<Radio />}
+          label={t('Replay a recording')}
+          disabled={mode !== 'replay'}
+        />
+        <FormControlLabel value="dry" control={<Radio />} label={t('Dry run')} />
+      </RadioGroup>
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 1, flexWrap: 'wrap', alignItems: 'center' }}>
+        {mode === 'record' && (
+          <Button
+            variant="outlined"
+            disabled={recorded === 0}
+            onClick={() =>
+              downloadFile(
+                'aks-desktop-commands.json',
+                JSON.stringify(getRecordedFixture(), null, 2)
+              )
+            }
+          >
+            {t('Download recording ({{count}} commands)', { count: recorded })}
+          </Button>
+        )}
+        <label>
+          <input
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFixture(file);
+              e.currentTarget.value = '';
+            }}
+          />
+          <Button component="span" variant="outlined">
+            {t('Load recording to replay')}
+          </Button>
+        </label>
+      </Box>
+
+      {fixtureName && mode === 'replay' && (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          {t('Replaying {{file}}. Commands missing from it fail.', { file: fixtureName })}
+        </Alert>
+      )}
+      {fixtureError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {fixtureError}
+        </Alert>
+      )}
+      {mode === 'dry' && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2">
+            {t('Skipped commands ({{count}})', { count: dryRunLog.length })}
+          </Typography>
+          <Box
+            component="pre"
+            sx={{ fontSize: '0.75rem', whiteSpace: 'pre-wrap', maxHeight: 240, overflow: 'auto' }}
+          >
+            {dryRunLog.map(entry => `${entry.command} ${entry.args.join(' ')}`).join('\n')}
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+}
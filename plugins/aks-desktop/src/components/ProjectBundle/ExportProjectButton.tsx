@@ -0,0 +1,52 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Box, Button, Typography } from '@mui/material';
+import React from 'react';
+import { downloadFile } from '../../utils/shared/download';
+import { getBundleFileName, serializeProjectBundle } from './bundle';
+import { useProjectExport } from './hooks/useProjectExport';
+
+/** Props for the {@link ExportProjectButton} component. */
+interface ExportProjectButtonProps {
+  /** Cluster the project lives on. */
+  cluster: string | undefined;
+  /** The project's namespace. */
+  namespace: string | undefined;
+}
+
+/**
+ * Button that downloads the project as a bundle file, which can be imported
+ * into another cluster from the create-project wizard.
+ */
+export function ExportProjectButton({ cluster, namespace }: ExportProjectButtonProps) {
+  const { t } = useTranslation();
+  const { exporting, error, exportProject } = useProjectExport(cluster, namespace);
+
+  const handleExport = async () => {
+    const bundle = await exportProject();
+    if (bundle) {
+      downloadFile(getBundleFileName(bundle), serializeProjectBundle(bundle));
+    }
+  };
+
+  return (
+    <Box>
+      <Button
+        variant="outlined"
+        startIcon={<Icon icon="mdi:export" />}
+        disabled={!cluster || !namespace || exporting}
+        onClick={handleExport}
+      >
+        {exporting ? `${t('Exporting')}...` : t('Export Project')}
+      </Button>
+      {error && (
+        <Typography color="error" variant="body2" sx={{ mt: 1 }}>
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+}
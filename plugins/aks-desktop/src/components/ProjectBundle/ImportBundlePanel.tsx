@@ -0,0 +1,85 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Alert, Box, Button } from '@mui/material';
+import React from 'react';
+import { type ProjectBundle } from './bundle';
+
+/** Props for the {@link ImportBundlePanel} component. */
+interface ImportBundlePanelProps {
+  /** The bundle the form was prefilled from, or null. */
+  bundle: ProjectBundle | null;
+  /** Error message from the last rejected bundle file, or null. */
+  error: string | null;
+  /** Called with the text of the chosen bundle file. */
+  onImport: (text: string) => void;
+  /** Forgets the imported bundle. */
+  onClear: () => void;
+}
+
+/**
+ * Lets the user prefill the create-project wizard from a project bundle
+ * file, and summarises what the imported bundle will create.
+ */
+export function ImportBundlePanel({ bundle, error, onImport, onClear }: ImportBundlePanelProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <label>
+        <input
+          type="file"
+          accept=".json"
+          style={{ display: 'none' }}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            const reader = new FileReader();
+            reader.onload = () => onImport(String(reader.result || ''));
+            reader.readAsText(file);
+            e.currentTarget.value = '';
+          }}
+        />
+        <Button component="span" variant="outlined" startIcon={<Icon icon="mdi:import" />}>
+          {t('Import from bundle')}
+        </Button>
+      </label>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {bundle && (
+        <Alert
+          severity="info"
+          sx={{ mt: 2 }}
+          action={
+            <Button color="inherit" size="small" onClick={onClear}>
+              {t('Remove')}
+            </Button>
+          }
+        >
+          {t(
+            'Settings were prefilled from project "{{name}}" on cluster {{cluster}}. {{count}} workload manifests will be applied after the project is created.',
+            {
+              name: bundle.project.name,
+              cluster: bundle.project.source.cluster,
+              count: bundle.workloads.length,
+            }
+          )}
+          {bundle.excludedSecrets.length > 0 && (
+            <Box component="span" sx={{ display: 'block', mt: 1 }}>
+              {t('Secrets are not exported. Recreate these secrets in the new project: {{names}}', {
+                names: bundle.excludedSecrets.join(', '),
+              })}
+            </Box>
+          )}
+        </Alert>
+      )}
+    </Box>
+  );
+}
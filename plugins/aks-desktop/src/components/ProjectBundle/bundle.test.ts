@@ -0,0 +1,243 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import {
+  bundleToFormData,
+  getBundleFileName,
+  isExportableWorkload,
+  parseProjectBundle,
+  type ProjectBundle,
+  readNamespaceSettings,
+  sanitizeManifest,
+  serializeProjectBundle,
+  sortWorkloadsForApply,
+  toBundleAccess,
+} from './bundle';
+
+const bundle: ProjectBundle = {
+  kind: 'AKSDesktopProjectBundle',
+  version: 1,
+  exportedAt: '2026-03-04T10:00:00.000Z',
+  project: { name: 'shop', source: { cluster: 'prod', resourceGroup: 'rg' } },
+  quota: { cpuRequest: 2000, cpuLimit: 4000, memoryRequest: 4096, memoryLimit: 8192 },
+  networkPolicy: { ingress: 'AllowSameNamespace', egress: 'AllowAll' },
+  access: [{ objectId: 'u1', principalName: 'dev@contoso.com', role: 'Writer' }],
+  workloads: [{ apiVersion: 'apps/v1', kind: 'Deployment', metadata: { name: 'web' } }],
+  excludedSecrets: ['db-password'],
+};
+
+describe('isExportableWorkload', () => {
+  it('excludes secrets, owned objects and namespace defaults', () => {
+    expect(isExportableWorkload({ kind: 'Secret', metadata: { name: 's' } })).toBe(false);
+    expect(
+      isExportableWorkload({
+        kind: 'HorizontalPodAutoscaler',
+        metadata: { name: 'keda-hpa-web', ownerReferences: [{ kind: 'ScaledObject' }] },
+      })
+    ).toBe(false);
+    expect(
+      isExportableWorkload({ kind: 'ConfigMap', metadata: { name: 'kube-root-ca.crt' } })
+    ).toBe(false);
+    expect(isExportableWorkload({ kind: 'ServiceAccount', metadata: { name: 'default' } })).toBe(
+      false
+    );
+    expect(isExportableWorkload({ kind: 'ConfigMap', metadata: { name: 'settings' } })).toBe(true);
+  });
+});
+
+describe('sanitizeManifest', () => {
+  it('removes server-assigned metadata and status', () => {
+    const result = sanitizeManifest({
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata: {
+        name: 'web',
+        namespace: 'shop',
+        uid: 'abc',
+        resourceVersion: '12',
+        managedFields: [],
+        labels: { app: 'web' },
+        annotations: {
+          'deployment.kubernetes.io/revision': '3',
+          'kubectl.kubernetes.io/last-applied-configuration': '{}',
+          team: 'store',
+        },
+      },
+      spec: { replicas: 2 },
+      status: { readyReplicas: 2 },
+    });
+
+    expect(result).toEqual({
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata: { name: 'web', labels: { app: 'web' }, annotations: { team: 'store' } },
+      spec: { replicas: 2 },
+    });
+  });
+
+  it('removes cluster IPs and node ports from services', () => {
+    const result = sanitizeManifest({
+      kind: 'Service',
+      metadata: { name: 'web' },
+      spec: {
+        type: 'NodePort',
+        clusterIP: '10.0.0.1',
+        clusterIPs: ['10.0.0.1'],
+        ports: [{ port: 80, nodePort: 30080 }],
+      },
+    });
+    expect(result.spec).toEqual({ type: 'NodePort', ports: [{ port: 80 }] });
+  });
+
+  it('removes the bound volume and binding annotations from claims', () => {
+    const result = sanitizeManifest({
+      kind: 'PersistentVolumeClaim',
+      metadata: {
+        name: 'data',
+        annotations: { 'pv.kubernetes.io/bind-completed': 'yes' },
+      },
+      spec: { volumeName: 'pvc-123', storageClassName: 'managed-csi' },
+    });
+    expect(result.metadata).toEqual({ name: 'data' });
+    expect(result.spec).toEqual({ storageClassName: 'managed-csi' });
+  });
+
+  it('does not modify the input', () => {
+    const input = { kind: 'ConfigMap', metadata: { name: 'c', uid: 'x' } };
+    sanitizeManifest(input);
+    expect(input.metadata.uid).toBe('x');
+  });
+});
+
+describe('sortWorkloadsForApply', () => {
+  it('orders dependencies first and unknown kinds last', () => {
+    const sorted = sortWorkloadsForApply([
+      { kind: 'HorizontalPodAutoscaler' },
+      { kind: 'Widget' },
+      { kind: 'Deployment' },
+      { kind: 'ConfigMap' },
+    ]);
+    expect(sorted.map(w => w.kind)).toEqual([
+      'ConfigMap',
+      'Deployment',
+      'HorizontalPodAutoscaler',
+      'Widget',
+    ]);
+  });
+});
+
+describe('toBundleAccess', () => {
+  it('keeps the most privileged RBAC role per principal', () => {
+    const access = toBundleAccess([
+      {
+        principalId: 'u1',
+        principalName: 'a@contoso.com',
+        roleDefinitionName: 'Azure Kubernetes Service RBAC Reader',
+      },
+      {
+        principalId: 'u1',
+        principalName: 'a@contoso.com',
+        roleDefinitionName: 'Azure Kubernetes Service RBAC Admin',
+      },
+      { principalId: 'u1', roleDefinitionName: 'Azure Kubernetes Service Namespace User' },
+      {
+        principalId: 'g1',
+        principalType: 'Group',
+        roleDefinitionName: 'Azure Kubernetes Service RBAC Writer',
+      },
+      { principalId: null, roleDefinitionName: 'Azure Kubernetes Service RBAC Writer' },
+    ]);
+
+    expect(access).toEqual([
+      { objectId: 'u1', principalName: 'a@contoso.com', role: 'Admin' },
+      { objectId: 'g1', principalType: 'Group', role: 'Writer' },
+    ]);
+  });
+});
+
+describe('readNamespaceSettings', () => {
+  it('converts the namespace quota to millicores and MiB', () => {
+    const settings = readNamespaceSettings({
+      properties: {
+        defaultResourceQuota: {
+          cpuRequest: '500m',
+          cpuLimit: '2',
+          memoryRequest: '512Mi',
+          memoryLimit: '2Gi',
+        },
+        defaultNetworkPolicy: { ingress: 'DenyAll', egress: 'Unknown' },
+      },
+    });
+
+    expect(settings).toEqual({
+      quota: { cpuRequest: 500, cpuLimit: 2000, memoryRequest: 512, memoryLimit: 2048 },
+      networkPolicy: { ingress: 'DenyAll', egress: 'AllowAll' },
+    });
+  });
+});
+
+describe('parseProjectBundle', () => {
+  it('round-trips a serialized bundle', () => {
+    expect(parseProjectBundle(serializeProjectBundle(bundle))).toEqual(bundle);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseProjectBundle('{')).toThrow('not valid JSON');
+    expect(() => parseProjectBundle('{"kind":"Deployment"}')).toThrow('not an AKS desktop');
+  });
+
+  it('rejects newer format versions', () => {
+    expect(() => parseProjectBundle(JSON.stringify({ ...bundle, version: 2 }))).toThrow(
+      'format version 2'
+    );
+  });
+
+  it('rejects invalid quota values', () => {
+    const text = JSON.stringify({ ...bundle, quota: { ...bundle.quota, cpuLimit: '4' } });
+    expect(() => parseProjectBundle(text)).toThrow('"cpuLimit"');
+  });
+
+  it('rejects secrets in workloads', () => {
+    const text = JSON.stringify({
+      ...bundle,
+      workloads: [{ apiVersion: 'v1', kind: 'Secret', metadata: { name: 's' } }],
+    });
+    expect(() => parseProjectBundle(text)).toThrow('must not contain Secrets');
+  });
+
+  it('drops access entries with unknown roles', () => {
+    const text = JSON.stringify({
+      ...bundle,
+      access: [...bundle.access, { objectId: 'u2', role: 'Owner' }],
+    });
+    expect(parseProjectBundle(text).access).toEqual(bundle.access);
+  });
+});
+
+describe('getBundleFileName', () => {
+  it('uses the project name and export date', () => {
+    expect(getBundleFileName(bundle)).toBe('shop-2026-03-04.aksproject.json');
+  });
+});
+
+describe('bundleToFormData', () => {
+  it('maps quota, policy and access onto the form', () => {
+    expect(bundleToFormData(bundle)).toEqual({
+      projectName: 'shop',
+      ingress: 'AllowSameNamespace',
+      egress: 'AllowAll',
+      cpuRequest: 2000,
+      cpuLimit: 4000,
+      memoryRequest: 4096,
+      memoryLimit: 8192,
+      userAssignments: [{ objectId: 'u1', displayName: 'dev@contoso.com', role: 'Writer' }],
+    });
+  });
+
+  it('falls back to one empty assignment when the bundle has no access', () => {
+    expect(bundleToFormData({ ...bundle, access: [] }).userAssignments).toEqual([
+      { objectId: '', role: 'Writer' },
+    ]);
+  });
+});
@@ -0,0 +1,379 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { parseCpuToMillicores, parseMemoryToBytes } from '../../utils/shared/resourceUnits';
+import {
+  AVAILABLE_ROLES,
+  type FormData,
+  mapAzureRoleToUIRole,
+  type RoleType,
+} from '../CreateAKSProject/types';
+
+/** Value of the `kind` field that identifies a project bundle file. */
+export const PROJECT_BUNDLE_KIND = 'AKSDesktopProjectBundle';
+
+/** Bundle format version written by this build; older versions stay readable. */
+export const PROJECT_BUNDLE_VERSION = 1;
+
+type NetworkPolicyRule = FormData['ingress'];
+
+/** A user or group with access to the project. */
+export interface BundleAccessEntry {
+  /** Entra object ID of the principal. */
+  objectId: string;
+  /** Display name (UPN or group name) at export time, for the reviewer's benefit. */
+  principalName?: string;
+  principalType?: string;
+  role: RoleType;
+}
+
+/** A portable snapshot of an AKS desktop project. */
+export interface ProjectBundle {
+  kind: typeof PROJECT_BUNDLE_KIND;
+  version: number;
+  /** ISO timestamp of the export. */
+  exportedAt: string;
+  project: {
+    name: string;
+    /** Where the project was exported from. Not used on import. */
+    source: { cluster: string; subscription?: string; resourceGroup?: string };
+  };
+  /** Managed namespace resource quota, in millicores and MiB. */
+  quota: {
+    cpuRequest: number;
+    cpuLimit: number;
+    memoryRequest: number;
+    memoryLimit: number;
+  };
+  networkPolicy: { ingress: NetworkPolicyRule; egress: NetworkPolicyRule };
+  access: BundleAccessEntry[];
+  /** Namespaced manifests with cluster-assigned fields removed. */
+  workloads: Array<Record<string, any>>;
+  /** Names of Secrets in the namespace; their contents are never exported. */
+  excludedSecrets: string[];
+}
+
+/**
+ * Namespaced resource types included in a bundle, in the order they are
+ * applied on import: identities and configuration before the workloads that
+ * use them, autoscalers last. `optional` types come from add-ons whose CRDs
+ * may be missing on the source cluster.
+ */
+export const WORKLOAD_SOURCES: Array<{
+  apiVersion: string;
+  kind: string;
+  plural: string;
+  optional?: boolean;
+}> = [
+  { apiVersion: 'v1', kind: 'ServiceAccount', plural: 'serviceaccounts' },
+  { apiVersion: 'v1', kind: 'ConfigMap', plural: 'configmaps' },
+  { apiVersion: 'v1', kind: 'PersistentVolumeClaim', plural: 'persistentvolumeclaims' },
+  { apiVersion: 'v1', kind: 'Service', plural: 'services' },
+  { apiVersion: 'apps/v1', kind: 'Deployment', plural: 'deployments' },
+  { apiVersion: 'apps/v1', kind: 'StatefulSet', plural: 'statefulsets' },
+  { apiVersion: 'apps/v1', kind: 'DaemonSet', plural: 'daemonsets' },
+  { apiVersion: 'batch/v1', kind: 'CronJob', plural: 'cronjobs' },
+  { apiVersion: 'networking.k8s.io/v1', kind: 'Ingress', plural: 'ingresses' },
+  {
+    apiVersion: 'gateway.networking.k8s.io/v1',
+    kind: 'HTTPRoute',
+    plural: 'httproutes',
+    optional: true,
+  },
+  {
+    apiVersion: 'autoscaling/v2',
+    kind: 'HorizontalPodAutoscaler',
+    plural: 'horizontalpodautoscalers',
+  },
+  {
+    apiVersion: 'keda.sh/v1alpha1',
+    kind: 'TriggerAuthentication',
+    plural: 'triggerauthentications',
+    optional: true,
+  },
+  { apiVersion: 'keda.sh/v1alpha1', kind: 'ScaledObject', plural: 'scaledobjects', optional: true },
+  {
+    apiVersion: 'autoscaling.k8s.io/v1',
+    kind: 'VerticalPodAutoscaler',
+    plural: 'verticalpodautoscalers',
+    optional: true,
+  },
+];
+
+/** Orders manifests so dependencies are applied before the objects using them. */
+export function sortWorkloadsForApply(
+  workloads: Array<Record<string, any>>
+): Array<Record<string, any>> {
+  const rank = (obj: Record<string, any>) => {
+    const index = WORKLOAD_SOURCES.findIndex(source => source.kind === obj.kind);
+    return index === -1 ? WORKLOAD_SOURCES.length : index;
+  };
+  return [...workloads].sort((a, b) => rank(a) - rank(b));
+}
+
+const POLICY_RULES: NetworkPolicyRule[] = ['AllowSameNamespace', 'AllowAll', 'DenyAll'];
+
+const STRIPPED_METADATA_FIELDS = [
+  'uid',
+  'resourceVersion',
+  'generation',
+  'creationTimestamp',
+  'deletionTimestamp',
+  'deletionGracePeriodSeconds',
+  'managedFields',
+  'selfLink',
+  'ownerReferences',
+  'namespace',
+];
+
+const STRIPPED_ANNOTATIONS = [
+  'kubectl.kubernetes.io/last-applied-configuration',
+  'deployment.kubernetes.io/revision',
+];
+
+// Annotations the storage provisioner adds when binding a volume.
+const STRIPPED_ANNOTATION_PREFIXES = [
+  'pv.kubernetes.io/',
+  'volume.kubernetes.io/',
+  'volume.beta.kubernetes.io/',
+];
+
+/** Objects every namespace has, which must not be re-created on import. */
+function isNamespaceDefault(obj: Record<string, any>): boolean {
+  const name = obj.metadata?.name;
+  return (
+    (obj.kind === 'ConfigMap' && name === 'kube-root-ca.crt') ||
+    (obj.kind === 'ServiceAccount' && name === 'default')
+  );
+}
+
+/**
+ * Returns whether a listed object belongs in a bundle. Objects owned by
+ * another object (e.g. the HPA KEDA creates) are re-created by their owner.
+ */
+export function isExportableWorkload(obj: Record<string, any>): boolean {
+  if (obj.kind === 'Secret') return false;
+  if ((obj.metadata?.ownerReferences ?? []).length > 0) return false;
+  return !isNamespaceDefault(obj);
+}
+
+/**
+ * Removes the fields the API server assigns (UID, status, cluster IPs, bound
+ * volume names, ...) so the manifest can be applied to another cluster.
+ */
+export function sanitizeManifest(obj: Record<string, any>): Record<string, any> {
+  const manifest = JSON.parse(JSON.stringify(obj));
+  delete manifest.status;
+
+  const metadata = manifest.metadata ?? {};
+  for (const field of STRIPPED_METADATA_FIELDS) delete metadata[field];
+  if (metadata.annotations) {
+    for (const key of Object.keys(metadata.annotations)) {
+      if (
+        STRIPPED_ANNOTATIONS.includes(key) ||
+        STRIPPED_ANNOTATION_PREFIXES.some(prefix => key.startsWith(prefix))
+      ) {
+        delete metadata.annotations[key];
+      }
+    }
+    if (Object.keys(metadata.annotations).length === 0) delete metadata.annotations;
+  }
+
+  if (manifest.kind === 'Service' && manifest.spec) {
+    delete manifest.spec.clusterIP;
+    delete manifest.spec.clusterIPs;
+    delete manifest.spec.healthCheckNodePort;
+    for (const port of manifest.spec.ports ?? []) delete port.nodePort;
+  }
+  if (manifest.kind === 'PersistentVolumeClaim' && manifest.spec) {
+    delete manifest.spec.volumeName;
+  }
+
+  return manifest;
+}
+
+/**
+ * Reduces the Azure role assignments on a managed namespace to one UI role per
+ * principal. The namespace user/contributor roles AKS desktop adds alongside
+ * every assignment are implied and therefore skipped.
+ */
+export function toBundleAccess(
+  assignments: Array<{
+    principalId?: string | null;
+    principalName?: string | null;
+    principalType?: string | null;
+    roleDefinitionName: string;
+  }>
+): BundleAccessEntry[] {
+  const byPrincipal = new Map<string, BundleAccessEntry>();
+  for (const assignment of assignments) {
+    const role = mapAzureRoleToUIRole(assignment.roleDefinitionName);
+    if (!role || !assignment.principalId) continue;
+
+    const existing = byPrincipal.get(assignment.principalId);
+    // AVAILABLE_ROLES is ordered from most to least privileged.
+    if (existing && AVAILABLE_ROLES.indexOf(existing.role) <= AVAILABLE_ROLES.indexOf(role)) {
+      continue;
+    }
+    byPrincipal.set(assignment.principalId, {
+      objectId: assignment.principalId,
+      ...(assignment.principalName ? { principalName: assignment.principalName } : {}),
+      ...(assignment.principalType ? { principalType: assignment.principalType } : {}),
+      role,
+    });
+  }
+  return [...byPrincipal.values()];
+}
+
+/** Returns `value` if it is a known network policy rule, otherwise `fallback`. */
+export function normalizePolicy(value: unknown, fallback: NetworkPolicyRule): NetworkPolicyRule {
+  return POLICY_RULES.includes(value as NetworkPolicyRule)
+    ? (value as NetworkPolicyRule)
+    : fallback;
+}
+
+/**
+ * Reads the quota and network policy from `az aks namespace show` output.
+ */
+export function readNamespaceSettings(details: any): {
+  quota: ProjectBundle['quota'];
+  networkPolicy: ProjectBundle['networkPolicy'];
+} {
+  const quota = details?.properties?.defaultResourceQuota ?? {};
+  const policy = details?.properties?.defaultNetworkPolicy ?? {};
+  const mebibytes = (value?: string) =>
+    value ? Math.round(parseMemoryToBytes(value) / (1024 * 1024)) : 0;
+
+  return {
+    quota: {
+      cpuRequest: quota.cpuRequest ? parseCpuToMillicores(quota.cpuRequest) : 0,
+      cpuLimit: quota.cpuLimit ? parseCpuToMillicores(quota.cpuLimit) : 0,
+      memoryRequest: mebibytes(quota.memoryRequest),
+      memoryLimit: mebibytes(quota.memoryLimit),
+    },
+    networkPolicy: {
+      ingress: normalizePolicy(policy.ingress, 'AllowSameNamespace'),
+      egress: normalizePolicy(policy.egress, 'AllowAll'),
+    },
+  };
+}
+
+/** Serializes a bundle for saving to disk. */
+export function serializeProjectBundle(bundle: ProjectBundle): string {
+  return `${JSON.stringify(bundle, null, 2)}\n`;
+}
+
+/** Returns the suggested file name for a project's bundle. */
+export function getBundleFileName(bundle: ProjectBundle): string {
+  const date = bundle.exportedAt.slice(0, 10);
+  return `${bundle.project.name}-${date}.aksproject.json`;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Parses and validates the text of a bundle file.
+ *
+ * @throws Error describing why the file is not a usable bundle.
+ */
+export function parseProjectBundle(text: string): ProjectBundle {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (data?.kind !== PROJECT_BUNDLE_KIND) {
+    throw new Error('The file is not an AKS desktop project bundle');
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The bundle has no valid version');
+  }
+  if (data.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(
+      `The bundle uses format version ${data.version}, but this version of AKS desktop supports up to ${PROJECT_BUNDLE_VERSION}. Update AKS desktop to import it.`
+    );
+  }
+  if (typeof data.project?.name !== 'string' || !data.project.name) {
+    throw new Error('The bundle has no project name');
+  }
+
+  const quota = data.quota ?? {};
+  for (const field of ['cpuRequest', 'cpuLimit', 'memoryRequest', 'memoryLimit']) {
+    if (!isNonNegativeNumber(quota[field])) {
+      throw new Error(`The bundle quota field "${field}" must be a non-negative number`);
+    }
+  }
+
+  const workloads = Array.isArray(data.workloads) ? data.workloads : [];
+  for (const workload of workloads) {
+    if (!workload?.apiVersion || !workload?.kind || !workload?.metadata?.name) {
+      throw new Error('Every bundle workload needs apiVersion, kind and metadata.name');
+    }
+    if (workload.kind === 'Secret') {
+      throw new Error('Bundles must not contain Secrets');
+    }
+  }
+
+  const access: BundleAccessEntry[] = (Array.isArray(data.access) ? data.access : []).filter(
+    (entry: any) =>
+      typeof entry?.objectId === 'string' && entry.objectId && AVAILABLE_ROLES.includes(entry.role)
+  );
+
+  return {
+    kind: PROJECT_BUNDLE_KIND,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    project: {
+      name: data.project.name,
+      source: {
+        cluster: data.project.source?.cluster ?? '',
+        subscription: data.project.source?.subscription,
+        resourceGroup: data.project.source?.resourceGroup,
+      },
+    },
+    quota: {
+      cpuRequest: quota.cpuRequest,
+      cpuLimit: quota.cpuLimit,
+      memoryRequest: quota.memoryRequest,
+      memoryLimit: quota.memoryLimit,
+    },
+    networkPolicy: {
+      ingress: normalizePolicy(data.networkPolicy?.ingress, 'AllowSameNamespace'),
+      egress: normalizePolicy(data.networkPolicy?.egress, 'AllowAll'),
+    },
+    access,
+    workloads,
+    excludedSecrets: Array.isArray(data.excludedSecrets)
+      ? data.excludedSecrets.filter((name: unknown) => typeof name === 'string')
+      : [],
+  };
+}
+
+/**
+ * Maps a bundle onto the create-project form. Subscription, cluster and
+ * resource group are left for the user to choose, since the bundle is
+ * usually imported into a different cluster.
+ */
+export function bundleToFormData(bundle: ProjectBundle): Partial<FormData> {
+  return {
+    projectName: bundle.project.name,
+    ingress: bundle.networkPolicy.ingress,
+    egress: bundle.networkPolicy.egress,
+    cpuRequest: bundle.quota.cpuRequest,
+    cpuLimit: bundle.quota.cpuLimit,
+    memoryRequest: bundle.quota.memoryRequest,
+    memoryLimit: bundle.quota.memoryLimit,
+    userAssignments:
+      bundle.access.length > 0
+        ? bundle.access.map(entry => ({
+            objectId: entry.objectId,
+            displayName: entry.principalName,
+            role: entry.role,
+          }))
+        : [{ objectId: '', role: 'Writer' }],
+  };
+}
@@ -0,0 +1,47 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useState } from 'react';
+import { type ProjectBundle } from '../bundle';
+import { exportProjectBundle } from '../projectBundleIO';
+
+/** Result returned by {@link useProjectExport}. */
+export interface UseProjectExportResult {
+  /** Whether the project is being read. */
+  exporting: boolean;
+  /** Error message from the last failed export, or null. */
+  error: string | null;
+  /** Reads the project into a bundle; resolves to null on failure. */
+  exportProject: () => Promise<ProjectBundle | null>;
+}
+
+/**
+ * Exports a project as a portable bundle.
+ *
+ * @param cluster - Cluster the project lives on.
+ * @param namespace - The project's namespace.
+ */
+export function useProjectExport(
+  cluster: string | undefined,
+  namespace: string | undefined
+): UseProjectExportResult {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportProject = useCallback(async () => {
+    if (!cluster || !namespace) return null;
+    setExporting(true);
+    setError(null);
+    try {
+      return await exportProjectBundle({ cluster, namespace });
+    } catch (err) {
+      console.error('Failed to export project:', err);
+      setError(`Failed to export project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return null;
+    } finally {
+      setExporting(false);
+    }
+  }, [cluster, namespace]);
+
+  return { exporting, error, exportProject };
+}
@@ -0,0 +1,190 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockApply, mockClusterRequest, mockGetDetails, mockListRoles } = vi.hoisted(() => ({
+  mockApply: vi.fn(),
+  mockClusterRequest: vi.fn(),
+  mockGetDetails: vi.fn(),
+  mockListRoles: vi.fn(),
+}));
+
+vi.mock('@kinvolk/headlamp-plugin/lib/ApiProxy', () => ({
+  apply: mockApply,
+  clusterRequest: mockClusterRequest,
+}));
+
+vi.mock('../../utils/azure/az-namespaces', () => ({
+  getManagedNamespaceDetails: mockGetDetails,
+}));
+
+vi.mock('../../utils/azure/az-namespace-access', () => ({
+  listNamespaceRoleAssignments: mockListRoles,
+}));
+
+import type { ProjectBundle } from './bundle';
+import { applyBundleWorkloads, exportProjectBundle } from './projectBundleIO';
+
+const namespaceObject = {
+  metadata: {
+    name: 'shop',
+    labels: {
+      'aks-desktop/project-subscription': 'sub-1',
+      'aks-desktop/project-resource-group': 'rg-1',
+    },
+  },
+};
+
+function respond(responses: Record<string, any>) {
+  mockClusterRequest.mockImplementation(async (path: string) => {
+    if (path in responses) {
+      const response = responses[path];
+      if (response instanceof Error) throw response;
+      return response;
+    }
+    return { items: [] };
+  });
+}
+
+function notFound() {
+  return Object.assign(new Error('not found'), { status: 404 });
+}
+
+describe('exportProjectBundle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetDetails.mockResolvedValue({
+      properties: {
+        defaultResourceQuota: {
+          cpuRequest: '1',
+          cpuLimit: '2',
+          memoryRequest: '1Gi',
+          memoryLimit: '2Gi',
+        },
+        defaultNetworkPolicy: { ingress: 'AllowSameNamespace', egress: 'AllowAll' },
+      },
+    });
+    mockListRoles.mockResolvedValue({
+      success: true,
+      assignments: [
+        {
+          principalId: 'u1',
+          principalName: 'dev@contoso.com',
+          principalType: 'User',
+          roleDefinitionName: 'Azure Kubernetes Service RBAC Writer',
+          scope: '/x',
+        },
+      ],
+    });
+  });
+
+  it('collects settings, access, workloads and secret names', async () => {
+    respond({
+      '/api/v1/namespaces/shop': namespaceObject,
+      '/api/v1/namespaces/shop/configmaps': {
+        items: [
+          { metadata: { name: 'kube-root-ca.crt' } },
+          { metadata: { name: 'settings', uid: 'x' }, data: { a: '1' } },
+        ],
+      },
+      '/apis/apps/v1/namespaces/shop/deployments': {
+        items: [{ metadata: { name: 'web' }, spec: {}, status: { replicas: 1 } }],
+      },
+      '/apis/keda.sh/v1alpha1/namespaces/shop/scaledobjects': notFound(),
+      '/api/v1/namespaces/shop/secrets': {
+        items: [
+          { type: 'Opaque', metadata: { name: 'db-password' } },
+          { type: 'helm.sh/release.v1', metadata: { name: 'sh.helm.release.v1.web.v1' } },
+        ],
+      },
+    });
+
+    const bundle = await exportProjectBundle({ cluster: 'prod', namespace: 'shop' });
+
+    expect(mockGetDetails).toHaveBeenCalledWith({
+      clusterName: 'prod',
+      resourceGroup: 'rg-1',
+      namespaceName: 'shop',
+      subscriptionId: 'sub-1',
+    });
+    expect(bundle.project).toEqual({
+      name: 'shop',
+      source: { cluster: 'prod', subscription: 'sub-1', resourceGroup: 'rg-1' },
+    });
+    expect(bundle.quota).toEqual({
+      cpuRequest: 1000,
+      cpuLimit: 2000,
+      memoryRequest: 1024,
+      memoryLimit: 2048,
+    });
+    expect(bundle.access).toEqual([
+      { objectId: 'u1', principalName: 'dev@contoso.com', principalType: 'User', role: 'Writer' },
+    ]);
+    expect(bundle.workloads).toEqual([
+      { apiVersion: 'v1', kind: 'ConfigMap', metadata: { name: 'settings' }, data: { a: '1' } },
+      { apiVersion: 'apps/v1', kind: 'Deployment', metadata: { name: 'web' }, spec: {} },
+    ]);
+    expect(bundle.excludedSecrets).toEqual(['db-password']);
+  });
+
+  it('fails when a built-in resource type cannot be listed', async () => {
+    respond({
+      '/api/v1/namespaces/shop': namespaceObject,
+      '/apis/apps/v1/namespaces/shop/deployments': notFound(),
+    });
+
+    await expect(exportProjectBundle({ cluster: 'prod', namespace: 'shop' })).rejects.toThrow(
+      'not found'
+    );
+  });
+
+  it('fails when access cannot be read', async () => {
+    respond({ '/api/v1/namespaces/shop': namespaceObject });
+    mockListRoles.mockResolvedValue({ success: false, assignments: [], error: 'denied' });
+
+    await expect(exportProjectBundle({ cluster: 'prod', namespace: 'shop' })).rejects.toThrow(
+      'Failed to read project access: denied'
+    );
+  });
+});
+
+describe('applyBundleWorkloads', () => {
+  const bundle = {
+    workloads: [
+      { apiVersion: 'apps/v1', kind: 'Deployment', metadata: { name: 'web' } },
+      { apiVersion: 'v1', kind: 'ConfigMap', metadata: { name: 'settings' } },
+    ],
+  } as unknown as ProjectBundle;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('applies dependencies first into the target namespace', async () => {
+    mockApply.mockResolvedValue({});
+
+    const errors = await applyBundleWorkloads({ bundle, namespace: 'shop-dev', cluster: 'dev' });
+
+    expect(errors).toEqual([]);
+    expect(
+      mockApply.mock.calls.map(([resource, cluster]) => [
+        resource.kind,
+        resource.metadata.namespace,
+        cluster,
+      ])
+    ).toEqual([
+      ['ConfigMap', 'shop-dev', 'dev'],
+      ['Deployment', 'shop-dev', 'dev'],
+    ]);
+  });
+
+  it('continues past failures and reports them', async () => {
+    mockApply.mockRejectedValueOnce(new Error('forbidden')).mockResolvedValueOnce({});
+
+    const errors = await applyBundleWorkloads({ bundle, namespace: 'shop-dev', cluster: 'dev' });
+
+    expect(errors).toEqual(['ConfigMap/settings: forbidden']);
+    expect(mockApply).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,169 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { apply, clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { listNamespaceRoleAssignments } from '../../utils/azure/az-namespace-access';
+import { getManagedNamespaceDetails } from '../../utils/azure/az-namespaces';
+import { RESOURCE_GROUP_LABEL, SUBSCRIPTION_LABEL } from '../../utils/constants/projectLabels';
+import { trackActivity } from '../../utils/shared/activityLog';
+import {
+  isExportableWorkload,
+  PROJECT_BUNDLE_KIND,
+  PROJECT_BUNDLE_VERSION,
+  type ProjectBundle,
+  readNamespaceSettings,
+  sanitizeManifest,
+  sortWorkloadsForApply,
+  toBundleAccess,
+  WORKLOAD_SOURCES,
+} from './bundle';
+
+// Secrets Kubernetes or Helm generate; they are not worth listing as excluded.
+const GENERATED_SECRET_TYPES = ['kubernetes.io/service-account-token', 'helm.sh/release.v1'];
+
+function getStatus(err: any): number | undefined {
+  return err?.status ?? err?.response?.status;
+}
+
+async function listWorkloads(namespace: string, cluster: string) {
+  const workloads: Array<Record<string, any>> = [];
+  for (const source of WORKLOAD_SOURCES) {
+    const base = source.apiVersion === 'v1' ? '/api/v1' : `/apis/${source.apiVersion}`;
+    let list: any;
+    try {
+      list = await clusterRequest(`${base}/namespaces/${namespace}/${source.plural}`, {
+        method: 'GET',
+        cluster,
+      });
+    } catch (err) {
+      // The add-on providing this CRD is not installed on the cluster.
+      if (source.optional && getStatus(err) === 404) continue;
+      throw err;
+    }
+    for (const item of list?.items ?? []) {
+      // List responses omit apiVersion and kind on their items.
+      const obj = { apiVersion: source.apiVersion, kind: source.kind, ...item };
+      if (isExportableWorkload(obj)) workloads.push(sanitizeManifest(obj));
+    }
+  }
+  return workloads;
+}
+
+async function listSecretNames(namespace: string, cluster: string): Promise<string[]> {
+  const list = await clusterRequest(`/api/v1/namespaces/${namespace}/secrets`, {
+    method: 'GET',
+    cluster,
+  });
+  return (list?.items ?? [])
+    .filter((secret: any) => !GENERATED_SECRET_TYPES.includes(secret.type))
+    .map((secret: any) => secret.metadata?.name)
+    .filter(Boolean);
+}
+
+/**
+ * Exports a managed-namespace project as a {@link ProjectBundle}: the quota
+ * and network policy and role assignments from Azure, and the namespace's
+ * workload manifests from the cluster. Secret contents are never read into
+ * the bundle; only their names are listed so they can be recreated.
+ *
+ * @param options.cluster - Cluster the project lives on.
+ * @param options.namespace - The project's namespace.
+ * @throws Error if any part of the project cannot be read.
+ */
+export async function exportProjectBundle(options: {
+  cluster: string;
+  namespace: string;
+}): Promise<ProjectBundle> {
+  const { cluster, namespace } = options;
+
+  const ns = await clusterRequest(`/api/v1/namespaces/${namespace}`, { method: 'GET', cluster });
+  const subscription: string | undefined = ns?.metadata?.labels?.[SUBSCRIPTION_LABEL];
+  const resourceGroup: string | undefined = ns?.metadata?.labels?.[RESOURCE_GROUP_LABEL];
+  if (!resourceGroup) {
+    throw new Error('The project namespace has no resource group label');
+  }
+
+  const details = await getManagedNamespaceDetails({
+    clusterName: cluster,
+    resourceGroup,
+    namespaceName: namespace,
+    subscriptionId: subscription,
+  });
+  const roles = await listNamespaceRoleAssignments({
+    clusterName: cluster,
+    resourceGroup,
+    namespaceName: namespace,
+    subscriptionId: subscription,
+  });
+  if (!roles.success) {
+    throw new Error(`Failed to read project access: ${roles.error ?? 'Unknown error'}`);
+  }
+
+  const workloads = await listWorkloads(namespace, cluster);
+  const excludedSecrets = await listSecretNames(namespace, cluster);
+
+  return {
+    kind: PROJECT_BUNDLE_KIND,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name: namespace, source: { cluster, subscription, resourceGroup } },
+    ...readNamespaceSettings(details),
+    access: toBundleAccess(roles.assignments),
+    workloads,
+    excludedSecrets,
+  };
+}
+
+/**
+ * Applies workload manifests to a namespace, dependencies first. Each
+ * manifest is applied independently so one failure does not stop the rest.
+ *
+ * @returns Per-manifest error messages; empty when everything applied.
+ */
+export async function applyWorkloads(options: {
+  workloads: Array<Record<string, any>>;
+  namespace: string;
+  cluster: string;
+  onProgress?: (message: string) => void;
+}): Promise<string[]> {
+  const { workloads, namespace, cluster, onProgress } = options;
+  const errors: string[] = [];
+
+  for (const workload of sortWorkloadsForApply(workloads)) {
+    const resource: Record<string, any> = {
+      ...workload,
+      metadata: { ...workload.metadata, namespace },
+    };
+    const label = `${resource.kind}/${resource.metadata.name}`;
+    onProgress?.(`Applying ${label}...`);
+    try {
+      await trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: `Apply ${resource.kind}`,
+          target: { cluster, namespace, resource: label },
+        },
+        () => apply(resource as any, cluster)
+      );
+    } catch (err) {
+      errors.push(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Applies the workload manifests of a bundle to a namespace.
+ *
+ * @returns Per-manifest error messages; empty when everything applied.
+ */
+export async function applyBundleWorkloads(options: {
+  bundle: ProjectBundle;
+  namespace: string;
+  cluster: string;
+  onProgress?: (message: string) => void;
+}): Promise<string[]> {
+  const { bundle, ...rest } = options;
+  return applyWorkloads({ workloads: bundle.workloads, ...rest });
+}
@@ -0,0 +1,167 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+} from '@mui/material';
+import React, { useState } from 'react';
+import { downloadFile } from '../../utils/shared/download';
+import { type UseProjectTemplatesResult } from './hooks/useProjectTemplates';
+import {
+  getTemplateFileName,
+  getTemplateSlug,
+  type ProjectTemplate,
+  serializeProjectTemplate,
+} from './template';
+import { PLATFORM_NAMESPACE } from './templateStorage';
+
+type Destination = 'local' | 'shared' | 'file';
+
+/** Props for the {@link SaveTemplateButton} component. */
+interface SaveTemplateButtonProps {
+  /** Local and shared templates, from {@link useProjectTemplates}. */
+  templates: UseProjectTemplatesResult;
+  /** Cluster whose platform namespace shared templates are saved to, if any. */
+  cluster?: string;
+  /** Number of starter workloads the template can include. */
+  starterWorkloadCount: number;
+  /** Builds the template from the wizard's current settings. */
+  buildTemplate: (options: {
+    name: string;
+    description: string;
+    includeStarterWorkloads: boolean;
+  }) => ProjectTemplate;
+}
+
+/**
+ * Saves the create-project wizard's settings as a template on this device,
+ * in the cluster's platform namespace for the team, or as a file.
+ */
+export function SaveTemplateButton({
+  templates,
+  cluster,
+  starterWorkloadCount,
+  buildTemplate,
+}: SaveTemplateButtonProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [destination, setDestination] = useState<Destination>('local');
+  const [includeStarterWorkloads, setIncludeStarterWorkloads] = useState(true);
+  const [saved, setSaved] = useState<string | null>(null);
+
+  const existing = (
+    destination === 'shared' ? templates.sharedTemplates : templates.localTemplates
+  ).some(template => name.trim() && getTemplateSlug(template) === getTemplateSlug({ name }));
+
+  const save = async () => {
+    const template = buildTemplate({ name, description, includeStarterWorkloads });
+    if (destination === 'file') {
+      downloadFile(getTemplateFileName(template), serializeProjectTemplate(template));
+    } else if (!(await templates.saveTemplate(template, destination))) {
+      return;
+    }
+    setSaved(template.name);
+    setOpen(false);
+  };
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Button
+        variant="outlined"
+        startIcon={<Icon icon="mdi:content-save-cog-outline" aria-hidden="true" />}
+        onClick={() => {
+          setSaved(null);
+          setOpen(true);
+        }}
+      >
+        {t('Save as template')}
+      </Button>
+      {saved && (
+        <Alert severity="success" sx={{ mt: 2 }} onClose={() => setSaved(null)}>
+          {t('Template "{{name}}" saved.', { name: saved })}
+        </Alert>
+      )}
+
+      <Dialog open={open} onClose={() => setOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle>{t('Save as template')}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label={t('Template name')}
+            value={name}
+            onChange={e => setName(e.target.value)}
+            required
+            fullWidth
+            margin="normal"
+            helperText={existing ? t('A template with this name will be replaced.') : undefined}
+          />
+          <TextField
+            label={t('Description')}
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            fullWidth
+            multiline
+            minRows={2}
+            margin="normal"
+          />
+          {starterWorkloadCount > 0 && (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={includeStarterWorkloads}
+                  onChange={e => setIncludeStarterWorkloads(e.target.checked)}
+                />
+              }
+              label={t('Include {{count}} starter workloads', { count: starterWorkloadCount })}
+            />
+          )}
+          <Box component="fieldset" sx={{ border: 0, p: 0, m: 0, mt: 2 }}>
+            <FormLabel component="legend">{t('Save to')}</FormLabel>
+            <RadioGroup
+              value={destination}
+              onChange={e => setDestination(e.target.value as Destination)}
+            >
+              <FormControlLabel value="local" control={<Radio />} label={t('This device')} />
+              <FormControlLabel
+                value="shared"
+                control={<Radio />}
+                disabled={!cluster}
+                label={t('Shared with the team in namespace {{namespace}} on {{cluster}}', {
+                  namespace: PLATFORM_NAMESPACE,
+                  cluster: cluster || t('the selected cluster'),
+                })}
+              />
+              <FormControlLabel value="file" control={<Radio />} label={t('Download file')} />
+            </RadioGroup>
+          </Box>
+          {templates.saveError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {t('Failed to save template: {{error}}', { error: templates.saveError })}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>{t('Cancel')}</Button>
+          <Button variant="contained" disabled={!name.trim() || templates.saving} onClick={save}>
+            {templates.saving ? t('Saving…') : t('Save')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,182 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  ListSubheader,
+  MenuItem,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import React, { useState } from 'react';
+import { type TemplateSource, type UseProjectTemplatesResult } from './hooks/useProjectTemplates';
+import { type ProjectTemplate } from './template';
+import { PLATFORM_NAMESPACE } from './templateStorage';
+
+/** Props for the {@link TemplatePickerPanel} component. */
+interface TemplatePickerPanelProps {
+  /** Local and shared templates, from {@link useProjectTemplates}. */
+  templates: UseProjectTemplatesResult;
+  /** The template the form was prefilled from, or null. */
+  appliedTemplate: ProjectTemplate | null;
+  /** Error message from the last rejected template file, or null. */
+  error: string | null;
+  /** Prefills the form from a template. */
+  onApply: (template: ProjectTemplate) => void;
+  /** Called with the text of the chosen template file. */
+  onImport: (text: string) => void;
+  /** Forgets the applied template. */
+  onClear: () => void;
+}
+
+/**
+ * Lets the user start the create-project wizard from a saved template, a
+ * template shared in the cluster's platform namespace, or a template file.
+ */
+export function TemplatePickerPanel({
+  templates,
+  appliedTemplate,
+  error,
+  onApply,
+  onImport,
+  onClear,
+}: TemplatePickerPanelProps) {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState('');
+  const { localTemplates, sharedTemplates } = templates;
+
+  const [selectedSource, selectedName] = selected.split(/:(.*)/) as [TemplateSource, string];
+  const findTemplate = (value: string) => {
+    const [source, name] = value.split(/:(.*)/);
+    return (source === 'local' ? localTemplates : sharedTemplates).find(tpl => tpl.name === name);
+  };
+
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <TextField
+          select
+          size="small"
+          label={t('Start from template')}
+          value={findTemplate(selected) ? selected : ''}
+          onChange={e => {
+            const template = findTemplate(e.target.value);
+            setSelected(e.target.value);
+            if (template) onApply(template);
+          }}
+          sx={{ minWidth: 280 }}
+          disabled={localTemplates.length === 0 && sharedTemplates.length === 0}
+          helperText={
+            templates.loadingShared
+              ? t('Loading shared templates…')
+              : localTemplates.length === 0 && sharedTemplates.length === 0
+              ? t('No saved templates yet')
+              : undefined
+          }
+        >
+          {localTemplates.length > 0 && <ListSubheader>{t('Saved on this device')}</ListSubheader>}
+          {localTemplates.map(template => (
+            <MenuItem key={`local:${template.name}`} value={`local:${template.name}`}>
+              {template.name}
+            </MenuItem>
+          ))}
+          {sharedTemplates.length > 0 && (
+            <ListSubheader>
+              {t('Shared in namespace {{namespace}}', { namespace: PLATFORM_NAMESPACE })}
+            </ListSubheader>
+          )}
+          {sharedTemplates.map(template => (
+            <MenuItem key={`shared:${template.name}`} value={`shared:${template.name}`}>
+              {template.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        {findTemplate(selected) && (
+          <Tooltip title={t('Delete template')}>
+            <IconButton
+              aria-label={t('Delete template {{name}}', { name: selectedName })}
+              disabled={templates.saving}
+              onClick={async () => {
+                if (await templates.deleteTemplate(selectedName, selectedSource)) {
+                  setSelected('');
+                }
+              }}
+            >
+              <Icon icon="mdi:delete-outline" aria-hidden="true" />
+            </IconButton>
+          </Tooltip>
+        )}
+        <label>
+          <input
+            type="file"
+            accept=".json"
+            style={{ display: 'none' }}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (!file) return;
+              const reader = new FileReader();
+              reader.onload = () => onImport(String(reader.result || ''));
+              reader.readAsText(file);
+              e.currentTarget.value = '';
+            }}
+          />
+          <Button component="span" variant="outlined" startIcon={<Icon icon="mdi:file-import" />}>
+            {t('Import template file')}
+          </Button>
+        </label>
+      </Box>
+
+      {templates.sharedError && (
+        <Alert severity="warning" sx={{ mt: 2 }}>
+          {templates.sharedError}
+        </Alert>
+      )}
+
+      {templates.saveError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {templates.saveError}
+        </Alert>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {appliedTemplate && (
+        <Alert
+          severity="info"
+          sx={{ mt: 2 }}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => {
+                setSelected('');
+                onClear();
+              }}
+            >
+              {t('Remove')}
+            </Button>
+          }
+        >
+          {t(
+            'Networking, quota and access were prefilled from template "{{name}}". {{count}} starter workloads will be applied after the project is created.',
+            { name: appliedTemplate.name, count: appliedTemplate.starterWorkloads.length }
+          )}
+          {appliedTemplate.description && (
+            <Box component="span" sx={{ display: 'block', mt: 1 }}>
+              {appliedTemplate.description}
+            </Box>
+          )}
+        </Alert>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,125 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useEffect, useState } from 'react';
+import { type ProjectTemplate } from '../template';
+import {
+  deleteLocalTemplate,
+  deleteSharedTemplate,
+  getLocalTemplates,
+  listSharedTemplates,
+  saveLocalTemplate,
+  saveSharedTemplate,
+} from '../templateStorage';
+
+/** Where a template is kept: on this device or in the cluster's platform namespace. */
+export type TemplateSource = 'local' | 'shared';
+
+/** Result returned by {@link useProjectTemplates}. */
+export interface UseProjectTemplatesResult {
+  /** Templates saved on this device. */
+  localTemplates: ProjectTemplate[];
+  /** Templates shared through the platform namespace of the cluster. */
+  sharedTemplates: ProjectTemplate[];
+  /** Whether the shared templates are being read. */
+  loadingShared: boolean;
+  /** Error message from reading the shared templates, or null. */
+  sharedError: string | null;
+  /** Whether a template is being saved or deleted. */
+  saving: boolean;
+  /** Error message from the last failed save or delete, or null. */
+  saveError: string | null;
+  /** Saves a template; resolves to whether it was saved. */
+  saveTemplate: (template: ProjectTemplate, source: TemplateSource) => Promise<boolean>;
+  /** Deletes a template; resolves to whether it was deleted. */
+  deleteTemplate: (name: string, source: TemplateSource) => Promise<boolean>;
+}
+
+/**
+ * Lists and manages project templates saved on this device and shared in
+ * a cluster's platform namespace.
+ *
+ * @param cluster - Cluster to read shared templates from; only local templates
+ *   are available while undefined.
+ */
+export function useProjectTemplates(cluster: string | undefined): UseProjectTemplatesResult {
+  const [localTemplates, setLocalTemplates] = useState<ProjectTemplate[]>(getLocalTemplates);
+  const [sharedTemplates, setSharedTemplates] = useState<ProjectTemplate[]>([]);
+  const [loadingShared, setLoadingShared] = useState(false);
+  const [sharedError, setSharedError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const loadShared = useCallback(async () => {
+    if (!cluster) {
+      setSharedTemplates([]);
+      setSharedError(null);
+      return;
+    }
+    setLoadingShared(true);
+    try {
+      setSharedTemplates(await listSharedTemplates(cluster));
+      setSharedError(null);
+    } catch (err) {
+      setSharedTemplates([]);
+      setSharedError(
+        `Failed to read shared templates: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    } finally {
+      setLoadingShared(false);
+    }
+  }, [cluster]);
+
+  useEffect(() => {
+    loadShared();
+  }, [loadShared]);
+
+  const runChange = async (source: TemplateSource, change: (cluster: string) => Promise<void>) => {
+    if (source === 'shared' && !cluster) return false;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await change(cluster ?? '');
+      if (source === 'shared') {
+        await loadShared();
+      } else {
+        setLocalTemplates(getLocalTemplates());
+      }
+      return true;
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveTemplate = (template: ProjectTemplate, source: TemplateSource) =>
+    runChange(source, async target => {
+      if (source === 'shared') {
+        await saveSharedTemplate(target, template);
+      } else {
+        saveLocalTemplate(template);
+      }
+    });
+
+  const deleteTemplate = (name: string, source: TemplateSource) =>
+    runChange(source, async target => {
+      if (source === 'shared') {
+        await deleteSharedTemplate(target, name);
+      } else {
+        deleteLocalTemplate(name);
+      }
+    });
+
+  return {
+    localTemplates,
+    sharedTemplates,
+    loadingShared,
+    sharedError,
+    saving,
+    saveError,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FORM_DATA } from '../CreateAKSProject/types';
+import {
+  formDataToTemplate,
+  getTemplateFileName,
+  parseProjectTemplate,
+  PROJECT_TEMPLATE_VERSION,
+  serializeProjectTemplate,
+  templateToFormData,
+} from './template';
+
+const formData = {
+  ...DEFAULT_FORM_DATA,
+  projectName: 'checkout',
+  subscription: 'sub-1',
+  cluster: 'aks-1',
+  resourceGroup: 'rg-1',
+  ingress: 'DenyAll' as const,
+  cpuRequest: 500,
+  userAssignments: [
+    { objectId: 'u1', displayName: 'dev@contoso.com', role: 'Writer' },
+    { objectId: 'g1', role: 'Reader', principalType: 'Group' as const },
+    { objectId: '', role: 'Writer' },
+  ],
+};
+
+describe('formDataToTemplate', () => {
+  it('captures policy, quota and filled-in access but not the project location', () => {
+    const template = formDataToTemplate(formData, {
+      name: ' Team default ',
+      description: '',
+      starterWorkloads: [
+        {
+          apiVersion: 'v1',
+          kind: 'ConfigMap',
+          metadata: { name: 'settings', namespace: 'checkout', uid: 'abc' },
+        },
+      ],
+    });
+
+    expect(template).toEqual({
+      kind: 'AKSDesktopProjectTemplate',
+      version: PROJECT_TEMPLATE_VERSION,
+      name: 'Team default',
+      networkPolicy: { ingress: 'DenyAll', egress: 'AllowAll' },
+      quota: { cpuRequest: 500, cpuLimit: 2000, memoryRequest: 4096, memoryLimit: 4096 },
+      access: [
+        { objectId: 'u1', principalName: 'dev@contoso.com', role: 'Writer' },
+        { objectId: 'g1', principalType: 'Group', role: 'Reader' },
+      ],
+      starterWorkloads: [{ apiVersion: 'v1', kind: 'ConfigMap', metadata: { name: 'settings' } }],
+    });
+  });
+
+  it('round-trips through a file and back onto the form', () => {
+    const template = formDataToTemplate(formData, { name: 'Team default' });
+    const parsed = parseProjectTemplate(serializeProjectTemplate(template));
+
+    expect(parsed).toEqual(template);
+    expect(templateToFormData(parsed)).toEqual({
+      ingress: 'DenyAll',
+      egress: 'AllowAll',
+      cpuRequest: 500,
+      cpuLimit: 2000,
+      memoryRequest: 4096,
+      memoryLimit: 4096,
+      userAssignments: [
+        { objectId: 'u1', displayName: 'dev@contoso.com', role: 'Writer' },
+        { objectId: 'g1', displayName: undefined, principalType: 'Group', role: 'Reader' },
+      ],
+    });
+    expect(getTemplateFileName(parsed)).toBe('team-default.aksprojecttemplate.json');
+  });
+});
+
+describe('parseProjectTemplate', () => {
+  const valid = formDataToTemplate(formData, { name: 'Team default' });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseProjectTemplate('nope')).toThrow('not valid JSON');
+    expect(() =>
+      parseProjectTemplate(JSON.stringify({ ...valid, kind: 'AKSDesktopProjectBundle' }))
+    ).toThrow('not an AKS desktop project template');
+    expect(() => parseProjectTemplate(JSON.stringify({ ...valid, version: 99 }))).toThrow(
+      'format version 99'
+    );
+  });
+
+  it('rejects invalid quotas and Secrets', () => {
+    expect(() =>
+      parseProjectTemplate(JSON.stringify({ ...valid, quota: { ...valid.quota, cpuLimit: -1 } }))
+    ).toThrow('"cpuLimit"');
+    expect(() =>
+      parseProjectTemplate(
+        JSON.stringify({
+          ...valid,
+          starterWorkloads: [{ apiVersion: 'v1', kind: 'Secret', metadata: { name: 's' } }],
+        })
+      )
+    ).toThrow('must not contain Secrets');
+  });
+
+  it('defaults unknown policies and drops unknown roles', () => {
+    const parsed = parseProjectTemplate(
+      JSON.stringify({
+        ...valid,
+        networkPolicy: { ingress: 'Sometimes' },
+        access: [{ objectId: 'u1', role: 'Owner' }],
+      })
+    );
+    expect(parsed.networkPolicy).toEqual({ ingress: 'AllowSameNamespace', egress: 'AllowAll' });
+    expect(parsed.access).toEqual([]);
+    expect(templateToFormData(parsed).userAssignments).toEqual([{ objectId: '', role: 'Writer' }]);
+  });
+});
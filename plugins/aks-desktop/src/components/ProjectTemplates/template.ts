@@ -0,0 +1,197 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import {
+  AVAILABLE_ROLES,
+  type FormData,
+  type PrincipalType,
+  type RoleType,
+} from '../CreateAKSProject/types';
+import {
+  type BundleAccessEntry,
+  normalizePolicy,
+  type ProjectBundle,
+  sanitizeManifest,
+} from '../ProjectBundle/bundle';
+
+/** Value of the `kind` field that identifies a project template file. */
+export const PROJECT_TEMPLATE_KIND = 'AKSDesktopProjectTemplate';
+
+/** Template format version written by this build; older versions stay readable. */
+export const PROJECT_TEMPLATE_VERSION = 1;
+
+/**
+ * Reusable settings for new projects: everything the create-project wizard
+ * asks for except where the project goes and what it is called.
+ */
+export interface ProjectTemplate {
+  kind: typeof PROJECT_TEMPLATE_KIND;
+  version: number;
+  name: string;
+  description?: string;
+  networkPolicy: ProjectBundle['networkPolicy'];
+  /** Managed namespace resource quota, in millicores and MiB. */
+  quota: ProjectBundle['quota'];
+  /** Users and groups given access to every project created from the template. */
+  access: BundleAccessEntry[];
+  /** Manifests applied to the new namespace once it is ready. */
+  starterWorkloads: Array<Record<string, any>>;
+}
+
+/**
+ * Builds a template from the wizard's current settings.
+ *
+ * @param options.starterWorkloads - Manifests to include; cluster-assigned fields are removed.
+ */
+export function formDataToTemplate(
+  formData: FormData,
+  options: { name: string; description?: string; starterWorkloads?: Array<Record<string, any>> }
+): ProjectTemplate {
+  const description = options.description?.trim();
+  return {
+    kind: PROJECT_TEMPLATE_KIND,
+    version: PROJECT_TEMPLATE_VERSION,
+    name: options.name.trim(),
+    ...(description ? { description } : {}),
+    networkPolicy: { ingress: formData.ingress, egress: formData.egress },
+    quota: {
+      cpuRequest: formData.cpuRequest,
+      cpuLimit: formData.cpuLimit,
+      memoryRequest: formData.memoryRequest,
+      memoryLimit: formData.memoryLimit,
+    },
+    access: formData.userAssignments
+      .filter(a => a.objectId.trim() && AVAILABLE_ROLES.includes(a.role as RoleType))
+      .map(a => ({
+        objectId: a.objectId.trim(),
+        ...(a.displayName ? { principalName: a.displayName } : {}),
+        ...(a.principalType ? { principalType: a.principalType } : {}),
+        role: a.role as RoleType,
+      })),
+    starterWorkloads: (options.starterWorkloads ?? []).map(sanitizeManifest),
+  };
+}
+
+/**
+ * Maps a template onto the create-project form. The project name and its
+ * location are left for the user to fill in.
+ */
+export function templateToFormData(template: ProjectTemplate): Partial<FormData> {
+  return {
+    ingress: template.networkPolicy.ingress,
+    egress: template.networkPolicy.egress,
+    cpuRequest: template.quota.cpuRequest,
+    cpuLimit: template.quota.cpuLimit,
+    memoryRequest: template.quota.memoryRequest,
+    memoryLimit: template.quota.memoryLimit,
+    userAssignments:
+      template.access.length > 0
+        ? template.access.map(entry => ({
+            objectId: entry.objectId,
+            displayName: entry.principalName,
+            role: entry.role,
+            ...(entry.principalType === 'User' || entry.principalType === 'Group'
+              ? { principalType: entry.principalType as PrincipalType }
+              : {}),
+          }))
+        : [{ objectId: '', role: 'Writer' }],
+  };
+}
+
+/** Serializes a template for saving to disk or to a ConfigMap. */
+export function serializeProjectTemplate(template: ProjectTemplate): string {
+  return `${JSON.stringify(template, null, 2)}\n`;
+}
+
+/**
+ * Returns a file and ConfigMap key safe form of the template name, e.g.
+ * `Team A (prod)` becomes `team-a-prod`.
+ */
+export function getTemplateSlug(template: Pick<ProjectTemplate, 'name'>): string {
+  const slug = template.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'template';
+}
+
+/** Returns the suggested file name for a template. */
+export function getTemplateFileName(template: ProjectTemplate): string {
+  return `${getTemplateSlug(template)}.aksprojecttemplate.json`;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Parses and validates the text of a template file or ConfigMap entry.
+ *
+ * @throws Error describing why the text is not a usable template.
+ */
+export function parseProjectTemplate(text: string): ProjectTemplate {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (data?.kind !== PROJECT_TEMPLATE_KIND) {
+    throw new Error('The file is not an AKS desktop project template');
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new Error('The template has no valid version');
+  }
+  if (data.version > PROJECT_TEMPLATE_VERSION) {
+    throw new Error(
+      `The template uses format version ${data.version}, but this version of AKS desktop supports up to ${PROJECT_TEMPLATE_VERSION}. Update AKS desktop to use it.`
+    );
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    throw new Error('The template has no name');
+  }
+
+  const quota = data.quota ?? {};
+  for (const field of ['cpuRequest', 'cpuLimit', 'memoryRequest', 'memoryLimit']) {
+    if (!isNonNegativeNumber(quota[field])) {
+      throw new Error(`The template quota field "${field}" must be a non-negative number`);
+    }
+  }
+
+  const starterWorkloads = Array.isArray(data.starterWorkloads) ? data.starterWorkloads : [];
+  for (const workload of starterWorkloads) {
+    if (!workload?.apiVersion || !workload?.kind || !workload?.metadata?.name) {
+      throw new Error('Every starter workload needs apiVersion, kind and metadata.name');
+    }
+    if (workload.kind === 'Secret') {
+      throw new Error('Templates must not contain Secrets');
+    }
+  }
+
+  const access: BundleAccessEntry[] = (Array.isArray(data.access) ? data.access : []).filter(
+    (entry: any) =>
+      typeof entry?.objectId === 'string' && entry.objectId && AVAILABLE_ROLES.includes(entry.role)
+  );
+
+  return {
+    kind: PROJECT_TEMPLATE_KIND,
+    version: data.version,
+    name: data.name.trim(),
+    ...(typeof data.description === 'string' && data.description
+      ? { description: data.description }
+      : {}),
+    networkPolicy: {
+      ingress: normalizePolicy(data.networkPolicy?.ingress, 'AllowSameNamespace'),
+      egress: normalizePolicy(data.networkPolicy?.egress, 'AllowAll'),
+    },
+    quota: {
+      cpuRequest: quota.cpuRequest,
+      cpuLimit: quota.cpuLimit,
+      memoryRequest: quota.memoryRequest,
+      memoryLimit: quota.memoryLimit,
+    },
+    access,
+    starterWorkloads,
+  };
+}
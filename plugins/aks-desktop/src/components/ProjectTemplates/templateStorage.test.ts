@@ -0,0 +1,131 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockClusterRequest } = vi.hoisted(() => ({ mockClusterRequest: vi.fn() }));
+
+vi.mock('@kinvolk/headlamp-plugin/lib/ApiProxy', () => ({
+  clusterRequest: mockClusterRequest,
+}));
+
+import { type ProjectTemplate, serializeProjectTemplate } from './template';
+import {
+  deleteLocalTemplate,
+  getLocalTemplates,
+  listSharedTemplates,
+  LOCAL_TEMPLATES_STORAGE_KEY,
+  saveLocalTemplate,
+  saveSharedTemplate,
+} from './templateStorage';
+
+function makeTemplate(name: string): ProjectTemplate {
+  return {
+    kind: 'AKSDesktopProjectTemplate',
+    version: 1,
+    name,
+    networkPolicy: { ingress: 'AllowSameNamespace', egress: 'AllowAll' },
+    quota: { cpuRequest: 1000, cpuLimit: 2000, memoryRequest: 1024, memoryLimit: 2048 },
+    access: [],
+    starterWorkloads: [],
+  };
+}
+
+function notFound() {
+  return Object.assign(new Error('not found'), { status: 404 });
+}
+
+const CONFIGMAP_PATH = '/api/v1/namespaces/platform/configmaps/aks-desktop-project-templates';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  localStorage.clear();
+});
+
+describe('local templates', () => {
+  it('saves, replaces by name and deletes templates', () => {
+    saveLocalTemplate(makeTemplate('Web'));
+    saveLocalTemplate(makeTemplate('API'));
+    saveLocalTemplate({ ...makeTemplate('web'), description: 'replaced' });
+
+    expect(getLocalTemplates().map(t => [t.name, t.description])).toEqual([
+      ['API', undefined],
+      ['web', 'replaced'],
+    ]);
+
+    deleteLocalTemplate('API');
+    expect(getLocalTemplates().map(t => t.name)).toEqual(['web']);
+  });
+
+  it('skips invalid stored entries', () => {
+    localStorage.setItem(
+      LOCAL_TEMPLATES_STORAGE_KEY,
+      JSON.stringify([{ kind: 'Other' }, makeTemplate('Web')])
+    );
+    expect(getLocalTemplates().map(t => t.name)).toEqual(['Web']);
+
+    localStorage.setItem(LOCAL_TEMPLATES_STORAGE_KEY, '{not json');
+    expect(getLocalTemplates()).toEqual([]);
+  });
+});
+
+describe('listSharedTemplates', () => {
+  it('reads valid templates from the platform ConfigMap', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockClusterRequest.mockResolvedValue({
+      data: {
+        'web.json': serializeProjectTemplate(makeTemplate('Web')),
+        'broken.json': '{',
+      },
+    });
+
+    const templates = await listSharedTemplates('aks-1');
+
+    expect(mockClusterRequest).toHaveBeenCalledWith(CONFIGMAP_PATH, {
+      method: 'GET',
+      cluster: 'aks-1',
+    });
+    expect(templates.map(t => t.name)).toEqual(['Web']);
+  });
+
+  it('returns no templates when the ConfigMap does not exist', async () => {
+    mockClusterRequest.mockRejectedValue(notFound());
+    await expect(listSharedTemplates('aks-1')).resolves.toEqual([]);
+  });
+
+  it('surfaces other errors', async () => {
+    mockClusterRequest.mockRejectedValue(Object.assign(new Error('forbidden'), { status: 403 }));
+    await expect(listSharedTemplates('aks-1')).rejects.toThrow('forbidden');
+  });
+});
+
+describe('saveSharedTemplate', () => {
+  it('creates the ConfigMap on first save', async () => {
+    mockClusterRequest.mockRejectedValueOnce(notFound()).mockResolvedValueOnce({});
+
+    await saveSharedTemplate('aks-1', makeTemplate('Team default'));
+
+    const [path, request] = mockClusterRequest.mock.calls[1];
+    expect(path).toBe('/api/v1/namespaces/platform/configmaps');
+    expect(request.method).toBe('POST');
+    expect(Object.keys(JSON.parse(request.body).data)).toEqual(['team-default.json']);
+  });
+
+  it('updates the existing ConfigMap, keeping other templates', async () => {
+    mockClusterRequest
+      .mockResolvedValueOnce({
+        metadata: { name: 'aks-desktop-project-templates', resourceVersion: '7' },
+        data: { 'api.json': serializeProjectTemplate(makeTemplate('API')) },
+      })
+      .mockResolvedValueOnce({});
+
+    await saveSharedTemplate('aks-1', makeTemplate('Web'));
+
+    const [path, request] = mockClusterRequest.mock.calls[1];
+    expect(path).toBe(CONFIGMAP_PATH);
+    expect(request.method).toBe('PUT');
+    const body = JSON.parse(request.body);
+    expect(body.metadata.resourceVersion).toBe('7');
+    expect(Object.keys(body.data).sort()).toEqual(['api.json', 'web.json']);
+  });
+});
@@ -0,0 +1,183 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { trackActivity } from '../../utils/shared/activityLog';
+import {
+  getTemplateSlug,
+  parseProjectTemplate,
+  type ProjectTemplate,
+  serializeProjectTemplate,
+} from './template';
+
+/** localStorage key holding the templates saved on this device. */
+export const LOCAL_TEMPLATES_STORAGE_KEY = 'aks-desktop:project-templates';
+
+/** Namespace platform teams keep shared templates in. */
+export const PLATFORM_NAMESPACE = 'platform';
+
+/** ConfigMap in {@link PLATFORM_NAMESPACE} holding one template per data key. */
+export const TEMPLATES_CONFIGMAP_NAME = 'aks-desktop-project-templates';
+
+const CONFIGMAP_PATH = `/api/v1/namespaces/${PLATFORM_NAMESPACE}/configmaps`;
+
+function getStatus(err: any): number | undefined {
+  return err?.status ?? err?.response?.status;
+}
+
+/** Returns the ConfigMap data key a template is stored under. */
+export function getTemplateConfigMapKey(template: Pick<ProjectTemplate, 'name'>): string {
+  return `${getTemplateSlug(template)}.json`;
+}
+
+/** Templates saved on this device, sorted by name. Invalid entries are skipped. */
+export function getLocalTemplates(): ProjectTemplate[] {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(LOCAL_TEMPLATES_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+
+  const templates: ProjectTemplate[] = [];
+  for (const item of stored) {
+    try {
+      templates.push(parseProjectTemplate(JSON.stringify(item)));
+    } catch {
+      // Skip templates written by a newer build or edited by hand.
+    }
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function setLocalTemplates(templates: ProjectTemplate[]): void {
+  localStorage.setItem(LOCAL_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+}
+
+/** Saves a template on this device, replacing any template with the same name. */
+export function saveLocalTemplate(template: ProjectTemplate): void {
+  const slug = getTemplateSlug(template);
+  setLocalTemplates([
+    ...getLocalTemplates().filter(existing => getTemplateSlug(existing) !== slug),
+    template,
+  ]);
+}
+
+/** Removes a template saved on this device. */
+export function deleteLocalTemplate(name: string): void {
+  const slug = getTemplateSlug({ name });
+  setLocalTemplates(getLocalTemplates().filter(existing => getTemplateSlug(existing) !== slug));
+}
+
+/**
+ * Reads the shared templates from the platform namespace of a cluster.
+ * Returns no templates when the namespace or ConfigMap does not exist.
+ * Entries that are not valid templates are skipped with a warning.
+ *
+ * @throws Error if the ConfigMap cannot be read, e.g. for lack of permission.
+ */
+export async function listSharedTemplates(cluster: string): Promise<ProjectTemplate[]> {
+  let configMap: any;
+  try {
+    configMap = await clusterRequest(`${CONFIGMAP_PATH}/${TEMPLATES_CONFIGMAP_NAME}`, {
+      method: 'GET',
+      cluster,
+    });
+  } catch (err) {
+    if (getStatus(err) === 404) return [];
+    throw err;
+  }
+
+  const templates: ProjectTemplate[] = [];
+  for (const [key, text] of Object.entries<string>(configMap?.data ?? {})) {
+    try {
+      templates.push(parseProjectTemplate(text));
+    } catch (err) {
+      console.warn(`Skipping shared project template "${key}":`, err);
+    }
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Adds or removes one key of the shared templates ConfigMap, creating the
+ * ConfigMap on first save. The platform namespace itself must exist.
+ */
+async function updateSharedTemplates(
+  cluster: string,
+  operation: string,
+  update: (data: Record<string, string>) => void
+): Promise<void> {
+  const path = `${CONFIGMAP_PATH}/${TEMPLATES_CONFIGMAP_NAME}`;
+  await trackActivity(
+    {
+      channel: 'kubernetes',
+      operation,
+      target: {
+        cluster,
+        namespace: PLATFORM_NAMESPACE,
+        resource: `ConfigMap/${TEMPLATES_CONFIGMAP_NAME}`,
+      },
+    },
+    async () => {
+      let existing: any = null;
+      try {
+        existing = await clusterRequest(path, { method: 'GET', cluster });
+      } catch (err) {
+        if (getStatus(err) !== 404) throw err;
+      }
+
+      const data: Record<string, string> = { ...(existing?.data ?? {}) };
+      update(data);
+
+      if (existing) {
+        // The resourceVersion from the GET makes a concurrent edit fail instead of being lost.
+        await clusterRequest(path, {
+          method: 'PUT',
+          cluster,
+          body: JSON.stringify({ ...existing, data }),
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } else {
+        await clusterRequest(CONFIGMAP_PATH, {
+          method: 'POST',
+          cluster,
+          body: JSON.stringify({
+            apiVersion: 'v1',
+            kind: 'ConfigMap',
+            metadata: { name: TEMPLATES_CONFIGMAP_NAME, namespace: PLATFORM_NAMESPACE },
+            data,
+          }),
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+  );
+}
+
+/**
+ * Shares a template through the platform namespace of a cluster, replacing
+ * any shared template with the same name.
+ *
+ * @throws Error if the ConfigMap cannot be written.
+ */
+export async function saveSharedTemplate(
+  cluster: string,
+  template: ProjectTemplate
+): Promise<void> {
+  await updateSharedTemplates(cluster, 'Save project template', data => {
+    data[getTemplateConfigMapKey(template)] = serializeProjectTemplate(template);
+  });
+}
+
+/**
+ * Removes a shared template from the platform namespace of a cluster.
+ *
+ * @throws Error if the ConfigMap cannot be written.
+ */
+export async function deleteSharedTemplate(cluster: string, name: string): Promise<void> {
+  await updateSharedTemplates(cluster, 'Delete project template', data => {
+    delete data[getTemplateConfigMapKey({ name })];
+  });
+}
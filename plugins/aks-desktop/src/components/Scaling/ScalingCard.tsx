@@ -12,6 +12,7 @@ import { ScalingMetrics } from './components/ScalingMetrics';
 import { useChartData } from './hooks/useChartData';
 import { useDeployments } from './hooks/useDeployments';
 import { useHPAInfo } from './hooks/useHPAInfo';
+import { useKedaInfo } from './hooks/useKedaInfo';
 
 /**
  * Defines the structure of a project for scaling operations.
@@ -64,6 +65,8 @@ function ScalingCard({ project }: ScalingCardProps) {
   );
   // Find HPA that targets the selected deployment
   const { hpaInfo } = useHPAInfo(selectedDeployment, namespace, cluster);
+  // Find a KEDA ScaledObject that drives the selected deployment
+  const { kedaInfo } = useKedaInfo(selectedDeployment, namespace, cluster);
   // Fetch real chart data from Prometheus
   const {
     chartData,
@@ -113,6 +116,7 @@ function ScalingCard({ project }: ScalingCardProps) {
           {/* Metrics Overview */}
           <ScalingMetrics
             hpaInfo={hpaInfo}
+            kedaInfo={kedaInfo}
             selectedDeployment={selectedDeployment}
             deployments={deployments}
           />
@@ -3,22 +3,29 @@
 
 import { Icon } from '@iconify/react';
 import { K8s, useTranslation } from '@kinvolk/headlamp-plugin/lib';
-import { Alert, Box, Button, Card, CircularProgress, Typography } from '@mui/material';
+import { Alert, Box, Button, Card, CircularProgress, Tooltip, Typography } from '@mui/material';
 import React from 'react';
+import { DeploymentComparison } from '../shared/DeploymentComparison';
 import { DeploymentSelector } from '../shared/DeploymentSelector';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { KedaEditDialog } from './components/KedaEditDialog';
 import { ScalingChart } from './components/ScalingChart';
+import { ScalingComparison } from './components/ScalingComparison';
 import { ScalingEditDialog } from './components/ScalingEditDialog';
 import { ScalingMetrics } from './components/ScalingMetrics';
 import { useChartData } from './hooks/useChartData';
 import { useDeployments } from './hooks/useDeployments';
 import { useEditDialog } from './hooks/useEditDialog';
 import { useHPAInfo } from './hooks/useHPAInfo';
+import { useKedaEditDialog } from './hooks/useKedaEditDialog';
+import { useKedaInfo } from './hooks/useKedaInfo';
 
 /**
  * Props for the {@link ScalingTab} component.
  */
 interface ScalingTabProps {
-  /** The project whose first cluster and namespace are used to fetch deployments. */
+  /** The project whose clusters and namespaces are used to fetch deployments. */
   project: {
     clusters: string[];
     namespaces: string[];
@@ -33,16 +40,19 @@ const STEP_SECS = 3600;
 /**
  * Full-page tab for viewing and editing scaling configuration for a deployment.
  *
- * Displays a deployment selector, scaling overview with an edit dialog (HPA or manual),
- * and a Prometheus-backed scaling history chart for the last 24 hours.
+ * Displays a deployment selector, scaling overview with an edit dialog (HPA, manual,
+ * or KEDA event-driven), and a Prometheus-backed scaling history chart for the last 24 hours.
+ * Projects spanning several clusters or namespaces get a scope selector and
+ * side-by-side comparisons of how their deployments scale and what they run
+ * in every scope.
  *
- * @param props.project - The project whose first cluster and namespace are used.
+ * @param props.project - The project whose clusters and namespaces are used.
  */
 const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
   const { t } = useTranslation();
 
-  const namespace = project.namespaces?.[0];
-  const cluster = project.clusters?.[0];
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const { namespace, cluster } = selected;
 
   const [namespaceInstance] = K8s.ResourceClasses.Namespace.useGet(namespace, undefined, {
     cluster,
@@ -58,6 +68,11 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
   );
 
   const { hpaInfo } = useHPAInfo(selectedDeployment, namespace, cluster);
+  const {
+    kedaInfo,
+    kedaAvailable,
+    refresh: refreshKeda,
+  } = useKedaInfo(selectedDeployment, namespace, cluster);
 
   const {
     chartData,
@@ -86,6 +101,16 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
     // Data refreshes automatically via the live K8s watchers in useDeployments and useHPAInfo
   });
 
+  const keda = useKedaEditDialog(
+    selectedDeployment,
+    deployments,
+    hpaInfo,
+    kedaInfo,
+    namespace,
+    cluster,
+    refreshKeda
+  );
+
   if (loading && deployments.length === 0) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
@@ -99,12 +124,15 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
       {/* Header */}
       <Box sx={{ mb: 3, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
         <Typography variant="h5">{t('Scaling')}</Typography>
-        <DeploymentSelector
-          selectedDeployment={selectedDeployment}
-          deployments={deployments}
-          loading={loading}
-          onDeploymentChange={setSelectedDeployment}
-        />
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center' }}>
+          <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+          <DeploymentSelector
+            selectedDeployment={selectedDeployment}
+            deployments={deployments}
+            loading={loading}
+            onDeploymentChange={setSelectedDeployment}
+          />
+        </Box>
       </Box>
 
       {(error || saveError) && (
@@ -113,6 +141,14 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
         </Alert>
       )}
 
+      {kedaInfo && !kedaInfo.ready && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          {t(
+            'KEDA has not reported this ScaledObject as ready yet. Check its trigger settings and authentication.'
+          )}
+        </Alert>
+      )}
+
       {!selectedDeployment ? (
         <Box
           display="flex"
@@ -139,17 +175,37 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
               }}
             >
               <Typography variant="h6">{t('Scaling Overview')}</Typography>
-              <Button
-                variant="contained"
-                size="small"
-                startIcon={<Icon icon="mdi:pencil" />}
-                onClick={handleEditClick}
-              >
-                {t('Edit Configuration')}
-              </Button>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                {!kedaInfo && (
+                  <Tooltip
+                    title={kedaAvailable === false ? t('KEDA is not enabled on this cluster') : ''}
+                  >
+                    <span>
+                      <Button
+                        variant="outlined"
+                        size="small"
+                        startIcon={<Icon icon="mdi:lightning-bolt" />}
+                        onClick={keda.handleOpen}
+                        disabled={!kedaAvailable}
+                      >
+                        {t('Use KEDA')}
+                      </Button>
+                    </span>
+                  </Tooltip>
+                )}
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<Icon icon="mdi:pencil" />}
+                  onClick={kedaInfo ? keda.handleOpen : handleEditClick}
+                >
+                  {t('Edit Configuration')}
+                </Button>
+              </Box>
             </Box>
             <ScalingMetrics
               hpaInfo={hpaInfo}
+              kedaInfo={kedaInfo}
               selectedDeployment={selectedDeployment}
               deployments={deployments}
             />
@@ -167,6 +223,9 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
         </>
       )}
 
+      <ScalingComparison scopes={scopes} />
+      <DeploymentComparison scopes={scopes} />
+
       {/* Edit Dialog */}
       <ScalingEditDialog
         open={editDialogOpen}
@@ -177,6 +236,20 @@ const ScalingTab: React.FC<ScalingTabProps> = ({ project }) => {
         onClose={handleClose}
         onSave={handleSave}
       />
+
+      <KedaEditDialog
+        open={keda.kedaDialogOpen}
+        existing={!!kedaInfo}
+        config={keda.kedaConfig}
+        validationErrors={keda.validationErrors}
+        saving={keda.saving}
+        saveError={keda.saveError}
+        replacesHpa={keda.replacesHpa}
+        onConfigChange={keda.setKedaConfig}
+        onClose={keda.handleClose}
+        onSave={keda.handleSave}
+        onRemove={keda.handleRemove}
+      />
     </Box>
   );
 };
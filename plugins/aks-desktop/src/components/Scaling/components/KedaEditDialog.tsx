@@ -0,0 +1,448 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  Menu,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React, { useState } from 'react';
+import {
+  createDefaultTrigger,
+  type KedaScalingConfig,
+  type KedaTrigger,
+  type KedaTriggerType,
+  triggerUsesAzureAuth,
+} from '../utils/keda';
+
+const PROMETHEUS_PLACEHOLDER = 'https://<workspace>.<region>.prometheus.monitor.azure.com';
+
+/**
+ * Props for the {@link KedaEditDialog} component.
+ */
+interface KedaEditDialogProps {
+  /** Whether the dialog is open. */
+  open: boolean;
+  /** Whether a ScaledObject already exists for the deployment. */
+  existing: boolean;
+  /** Current form values. */
+  config: KedaScalingConfig;
+  /** Validation errors for the current form values. */
+  validationErrors: string[];
+  /** Whether a save or remove request is in flight. */
+  saving: boolean;
+  /** Error message from the last failed request, or null. */
+  saveError: string | null;
+  /** Whether saving replaces a standalone HPA that targets the deployment. */
+  replacesHpa: boolean;
+  /** Callback to update form values. */
+  onConfigChange: React.Dispatch<React.SetStateAction<KedaScalingConfig>>;
+  /** Callback to close the dialog without saving. */
+  onClose: () => void;
+  /** Callback to persist the current form values. */
+  onSave: () => Promise<void>;
+  /** Callback to remove KEDA scaling from the deployment. */
+  onRemove: () => Promise<void>;
+}
+
+/** Parses a number input, keeping the previous value while the field is being edited. */
+function parseNumber(value: string, previous: number): number {
+  const n = Number(value);
+  return value.trim() === '' || !Number.isFinite(n) ? previous : n;
+}
+
+/** Type-specific fields for a single trigger. */
+const TriggerFields: React.FC<{
+  trigger: KedaTrigger;
+  onChange: (trigger: KedaTrigger) => void;
+}> = ({ trigger, onChange }) => {
+  const { t } = useTranslation();
+  const fieldSx = { flex: '1 1 12rem' };
+
+  switch (trigger.type) {
+    case 'azure-servicebus':
+      return (
+        <>
+          <TextField
+            size="small"
+            label={t('Service Bus namespace')}
+            value={trigger.namespace}
+            onChange={e => onChange({ ...trigger, namespace: e.target.value })}
+            sx={fieldSx}
+          />
+          <TextField
+            size="small"
+            label={t('Queue name')}
+            value={trigger.queueName}
+            onChange={e => onChange({ ...trigger, queueName: e.target.value })}
+            sx={fieldSx}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label={t('Messages per replica')}
+            value={trigger.messageCount}
+            onChange={e =>
+              onChange({
+                ...trigger,
+                messageCount: parseNumber(e.target.value, trigger.messageCount),
+              })
+            }
+            inputProps={{ min: 1 }}
+            sx={fieldSx}
+          />
+        </>
+      );
+    case 'cron':
+      return (
+        <>
+          <TextField
+            size="small"
+            label={t('Time zone')}
+            value={trigger.timezone}
+            onChange={e => onChange({ ...trigger, timezone: e.target.value })}
+            sx={fieldSx}
+          />
+          <TextField
+            size="small"
+            label={t('Start (cron)')}
+            value={trigger.start}
+            onChange={e => onChange({ ...trigger, start: e.target.value })}
+            InputProps={{ sx: { fontFamily: 'monospace' } }}
+            sx={fieldSx}
+          />
+          <TextField
+            size="small"
+            label={t('End (cron)')}
+            value={trigger.end}
+            onChange={e => onChange({ ...trigger, end: e.target.value })}
+            InputProps={{ sx: { fontFamily: 'monospace' } }}
+            sx={fieldSx}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label={t('Replicas during window')}
+            value={trigger.desiredReplicas}
+            onChange={e =>
+              onChange({
+                ...trigger,
+                desiredReplicas: parseNumber(e.target.value, trigger.desiredReplicas),
+              })
+            }
+            inputProps={{ min: 1 }}
+            sx={fieldSx}
+          />
+        </>
+      );
+    case 'prometheus':
+      return (
+        <>
+          <TextField
+            size="small"
+            label={t('Prometheus server address')}
+            value={trigger.serverAddress}
+            placeholder={PROMETHEUS_PLACEHOLDER}
+            onChange={e => onChange({ ...trigger, serverAddress: e.target.value })}
+            sx={{ flex: '1 1 100%' }}
+          />
+          <TextField
+            size="small"
+            label={t('PromQL query')}
+            value={trigger.query}
+            onChange={e => onChange({ ...trigger, query: e.target.value })}
+            InputProps={{ sx: { fontFamily: 'monospace' } }}
+            sx={{ flex: '3 1 20rem' }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label={t('Target value per replica')}
+            value={trigger.threshold}
+            onChange={e =>
+              onChange({ ...trigger, threshold: parseNumber(e.target.value, trigger.threshold) })
+            }
+            sx={fieldSx}
+          />
+        </>
+      );
+    case 'http':
+      return (
+        <>
+          <TextField
+            size="small"
+            label={t('Prometheus server address')}
+            value={trigger.serverAddress}
+            placeholder={PROMETHEUS_PLACEHOLDER}
+            onChange={e => onChange({ ...trigger, serverAddress: e.target.value })}
+            helperText={t('Request rate is read from http_requests_total for this deployment.')}
+            sx={{ flex: '3 1 20rem' }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label={t('Requests per second per replica')}
+            value={trigger.requestsPerSecond}
+            onChange={e =>
+              onChange({
+                ...trigger,
+                requestsPerSecond: parseNumber(e.target.value, trigger.requestsPerSecond),
+              })
+            }
+            inputProps={{ min: 1 }}
+            sx={fieldSx}
+          />
+        </>
+      );
+    case 'unsupported':
+      return (
+        <Typography variant="body2" color="text.secondary">
+          {t('This {{type}} trigger is not editable here and will be kept unchanged.', {
+            type: trigger.raw.type ?? t('unknown'),
+          })}
+        </Typography>
+      );
+  }
+};
+
+/**
+ * Modal dialog for creating or editing a KEDA ScaledObject for a deployment.
+ *
+ * Covers replica bounds, polling and cooldown, a list of triggers (Azure Service
+ * Bus queue, cron window, Prometheus query, HTTP request rate) and Azure workload
+ * identity authentication for the Azure-backed triggers.
+ */
+export const KedaEditDialog: React.FC<KedaEditDialogProps> = ({
+  open,
+  existing,
+  config,
+  validationErrors,
+  saving,
+  saveError,
+  replacesHpa,
+  onConfigChange,
+  onClose,
+  onSave,
+  onRemove,
+}) => {
+  const { t } = useTranslation();
+  const [addMenuAnchor, setAddMenuAnchor] = useState<HTMLElement | null>(null);
+
+  const triggerLabels: Record<KedaTriggerType | 'unsupported', string> = {
+    'azure-servicebus': t('Azure Service Bus queue'),
+    cron: t('Cron schedule'),
+    prometheus: t('Prometheus query'),
+    http: t('HTTP request rate'),
+    unsupported: t('Other trigger'),
+  };
+
+  const updateTrigger = (index: number, trigger: KedaTrigger) =>
+    onConfigChange(c => ({
+      ...c,
+      triggers: c.triggers.map((existingTrigger, i) => (i === index ? trigger : existingTrigger)),
+    }));
+
+  const removeTrigger = (index: number) =>
+    onConfigChange(c => ({ ...c, triggers: c.triggers.filter((_, i) => i !== index) }));
+
+  const addTrigger = (type: KedaTriggerType) => {
+    onConfigChange(c => ({ ...c, triggers: [...c.triggers, createDefaultTrigger(type)] }));
+    setAddMenuAnchor(null);
+  };
+
+  const needsAuth = config.triggers.some(triggerUsesAzureAuth);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {existing ? t('Edit KEDA Configuration') : t('Configure KEDA Scaling')}
+      </DialogTitle>
+      <DialogContent>
+        {replacesHpa && (
+          <Alert severity="warning" sx={{ mt: 1, mb: 2 }}>
+            {t(
+              'The existing Horizontal Pod Autoscaler for this deployment will be deleted. KEDA manages its own autoscaler.'
+            )}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, mt: 2, mb: 3 }}>
+          <TextField
+            label={t('Minimum Replicas')}
+            type="number"
+            value={config.minReplicas}
+            onChange={e =>
+              onConfigChange(c => ({
+                ...c,
+                minReplicas: parseNumber(e.target.value, c.minReplicas),
+              }))
+            }
+            inputProps={{ min: 0 }}
+            helperText={t('0 lets KEDA scale the deployment to zero when idle.')}
+            sx={{ flex: '1 1 10rem' }}
+          />
+          <TextField
+            label={t('Maximum Replicas')}
+            type="number"
+            value={config.maxReplicas}
+            onChange={e =>
+              onConfigChange(c => ({
+                ...c,
+                maxReplicas: parseNumber(e.target.value, c.maxReplicas),
+              }))
+            }
+            inputProps={{ min: 1 }}
+            sx={{ flex: '1 1 10rem' }}
+          />
+          <TextField
+            label={t('Polling interval (s)')}
+            type="number"
+            value={config.pollingInterval}
+            onChange={e =>
+              onConfigChange(c => ({
+                ...c,
+                pollingInterval: parseNumber(e.target.value, c.pollingInterval),
+              }))
+            }
+            inputProps={{ min: 1 }}
+            sx={{ flex: '1 1 10rem' }}
+          />
+          <TextField
+            label={t('Cooldown period (s)')}
+            type="number"
+            value={config.cooldownPeriod}
+            onChange={e =>
+              onConfigChange(c => ({
+                ...c,
+                cooldownPeriod: parseNumber(e.target.value, c.cooldownPeriod),
+              }))
+            }
+            inputProps={{ min: 0 }}
+            sx={{ flex: '1 1 10rem' }}
+          />
+        </Box>
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="subtitle1">{t('Triggers')}</Typography>
+          <Button
+            size="small"
+            startIcon={<Icon icon="mdi:plus" />}
+            onClick={e => setAddMenuAnchor(e.currentTarget)}
+          >
+            {t('Add trigger')}
+          </Button>
+          <Menu
+            anchorEl={addMenuAnchor}
+            open={!!addMenuAnchor}
+            onClose={() => setAddMenuAnchor(null)}
+          >
+            {(['azure-servicebus', 'cron', 'prometheus', 'http'] as KedaTriggerType[]).map(type => (
+              <MenuItem key={type} onClick={() => addTrigger(type)}>
+                {triggerLabels[type]}
+              </MenuItem>
+            ))}
+          </Menu>
+        </Box>
+
+        {config.triggers.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('Add a trigger to tell KEDA when to scale this deployment.')}
+          </Typography>
+        )}
+
+        {config.triggers.map((trigger, index) => (
+          <Card key={index} variant="outlined" sx={{ p: 2, mb: 2 }}>
+            <Box
+              sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}
+            >
+              <Typography variant="subtitle2">{triggerLabels[trigger.type]}</Typography>
+              <IconButton
+                size="small"
+                aria-label={t('Remove trigger')}
+                onClick={() => removeTrigger(index)}
+              >
+                <Icon icon="mdi:delete" />
+              </IconButton>
+            </Box>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+              <TriggerFields trigger={trigger} onChange={next => updateTrigger(index, next)} />
+            </Box>
+          </Card>
+        ))}
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={config.useWorkloadIdentity}
+              onChange={e => onConfigChange(c => ({ ...c, useWorkloadIdentity: e.target.checked }))}
+            />
+          }
+          label={t('Authenticate Azure triggers with workload identity')}
+        />
+        {config.useWorkloadIdentity && (
+          <TextField
+            label={t('Managed identity client ID (optional)')}
+            fullWidth
+            size="small"
+            value={config.identityClientId}
+            onChange={e => onConfigChange(c => ({ ...c, identityClientId: e.target.value }))}
+            helperText={
+              needsAuth
+                ? t(
+                    "Leave empty to use the identity of KEDA's keda-operator service account. The identity must be federated with that service account in KEDA's namespace."
+                  )
+                : t('No trigger currently needs Azure credentials.')
+            }
+            sx={{ mt: 1 }}
+          />
+        )}
+
+        {validationErrors.length > 0 && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {validationErrors.map(message => (
+              <div key={message}>{message}</div>
+            ))}
+          </Alert>
+        )}
+        {saveError && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {saveError}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {existing && (
+          <Button color="error" onClick={onRemove} disabled={saving} sx={{ mr: 'auto' }}>
+            {t('Remove KEDA')}
+          </Button>
+        )}
+        <Button onClick={onClose} disabled={saving}>
+          {t('Cancel')}
+        </Button>
+        <Button
+          onClick={onSave}
+          variant="contained"
+          disabled={saving || validationErrors.length > 0}
+          startIcon={saving ? undefined : <Icon icon="mdi:content-save" />}
+        >
+          {saving ? <CircularProgress size={20} /> : t('Save')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,45 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Typography } from '@mui/material';
+import React from 'react';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
+import { ScopeComparisonTable } from '../../shared/ScopeComparisonTable';
+import { useScalingComparison } from '../hooks/useScalingComparison';
+
+/**
+ * Side-by-side view of how each Deployment of a project scales in every
+ * cluster and namespace: ready replicas and the autoscaler bounds, or the
+ * fixed replica count. Renders nothing for projects with a single scope.
+ */
+export function ScalingComparison({ scopes }: { scopes: ProjectScope[] }) {
+  const { t } = useTranslation();
+  const { rows, loading, errors, refresh } = useScalingComparison(scopes);
+
+  return (
+    <ScopeComparisonTable
+      title={t('Scaling across clusters and namespaces')}
+      scopes={scopes}
+      rows={rows}
+      loading={loading}
+      errors={errors}
+      refresh={refresh}
+      renderSnapshot={snapshot => (
+        <>
+          <Typography variant="body2">
+            {snapshot.autoscaler
+              ? t('Autoscaled {{min}}–{{max}}', {
+                  min: snapshot.autoscaler.minReplicas,
+                  max: snapshot.autoscaler.maxReplicas,
+                })
+              : t('{{count}} replicas, manual', { count: snapshot.replicas })}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {t('{{count}} ready', { count: snapshot.readyReplicas })}
+          </Typography>
+        </>
+      )}
+    />
+  );
+}
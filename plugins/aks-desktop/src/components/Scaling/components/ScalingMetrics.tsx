@@ -7,6 +7,7 @@ import { Box, Typography } from '@mui/material';
 import React from 'react';
 import type { DeploymentInfo } from '../hooks/useDeployments';
 import type { HPAInfo } from '../hooks/useHPAInfo';
+import type { KedaInfo } from '../utils/keda';
 
 interface ScalingMetricsProps {
   /** Name of the currently selected deployment. */
@@ -15,6 +16,11 @@ interface ScalingMetricsProps {
   deployments: DeploymentInfo[];
   /** Current HPA state, or null if the deployment is not HPA-managed. */
   hpaInfo: HPAInfo | null;
+  /**
+   * KEDA ScaledObject targeting the deployment, if any. KEDA drives scaling through
+   * an HPA of its own, so `hpaInfo` then holds the KEDA-driven replica counts.
+   */
+  kedaInfo?: KedaInfo | null;
 }
 
 function MetricTile({ label, value }: { label: string; value: React.ReactNode }) {
@@ -33,26 +39,30 @@ function MetricTile({ label, value }: { label: string; value: React.ReactNode })
 /**
  * Displays scaling metrics overview (mode, replica count, bounds, CPU usage).
  *
- * Labels and values adapt based on whether an HPA is active:
- * - Scaling mode shows an icon (HPA autorenew vs manual account)
+ * Labels and values adapt based on whether KEDA or an HPA is active:
+ * - Scaling mode shows an icon (KEDA lightning, HPA autorenew, or manual account)
  * - Replica label switches between "Desired Replicas" and "Configured Replicas"
  * - Bounds label switches between "Replica Bounds" and "Available Replicas"
- * - CPU shows "current% / target%" for HPA, "N/A" for manual
+ * - CPU shows "current% / target%" for HPA, "N/A" for manual; KEDA shows its trigger count
  */
 export const ScalingMetrics: React.FC<ScalingMetricsProps> = ({
   selectedDeployment,
   deployments,
   hpaInfo,
+  kedaInfo,
 }) => {
   const { t } = useTranslation();
   const currentDeployment = deployments.find(d => d.name === selectedDeployment);
+  const autoscaled = !!(kedaInfo || hpaInfo);
 
   const cpuValue =
     hpaInfo?.currentCPUUtilization !== undefined && hpaInfo?.targetCPUUtilization !== undefined
       ? `${hpaInfo.currentCPUUtilization}% / ${hpaInfo.targetCPUUtilization}%`
       : 'N/A';
 
-  const boundsValue = hpaInfo
+  const boundsValue = kedaInfo
+    ? `${kedaInfo.config.minReplicas}-${kedaInfo.config.maxReplicas}`
+    : hpaInfo
     ? hpaInfo.minReplicas !== undefined && hpaInfo.maxReplicas !== undefined
       ? `${hpaInfo.minReplicas}-${hpaInfo.maxReplicas}`
       : 'N/A'
@@ -67,12 +77,16 @@ export const ScalingMetrics: React.FC<ScalingMetricsProps> = ({
         </Typography>
         <Box display="flex" alignItems="center" gap={0.5}>
           <Icon
-            icon={hpaInfo ? 'mdi:autorenew' : 'mdi:account'}
-            style={{ fontSize: 18, flexShrink: 0, color: hpaInfo ? '#66BB6A' : '#42A5F5' }}
+            icon={kedaInfo ? 'mdi:lightning-bolt' : hpaInfo ? 'mdi:autorenew' : 'mdi:account'}
+            style={{
+              fontSize: 18,
+              flexShrink: 0,
+              color: kedaInfo ? '#FFA726' : hpaInfo ? '#66BB6A' : '#42A5F5',
+            }}
             aria-hidden="true"
           />
           <Typography variant="body1" fontWeight="bold">
-            {hpaInfo ? 'HPA' : t('Manual')}
+            {kedaInfo ? 'KEDA' : hpaInfo ? 'HPA' : t('Manual')}
           </Typography>
         </Box>
       </Box>
@@ -82,14 +96,23 @@ export const ScalingMetrics: React.FC<ScalingMetricsProps> = ({
         value={hpaInfo?.currentReplicas ?? currentDeployment?.readyReplicas ?? 'N/A'}
       />
       <MetricTile
-        label={hpaInfo ? t('Desired Replicas') : t('Configured Replicas')}
+        label={autoscaled ? t('Desired Replicas') : t('Configured Replicas')}
         value={hpaInfo?.desiredReplicas ?? currentDeployment?.replicas ?? 'N/A'}
       />
       <MetricTile
-        label={hpaInfo ? t('Replica Bounds') : t('Available Replicas')}
+        label={autoscaled ? t('Replica Bounds') : t('Available Replicas')}
         value={boundsValue}
       />
-      <MetricTile label={hpaInfo ? t('CPU Usage / Target') : t('CPU Usage')} value={cpuValue} />
+      {kedaInfo ? (
+        <MetricTile
+          label={t('KEDA Triggers')}
+          value={`${kedaInfo.config.triggers.length} · ${
+            kedaInfo.active ? t('Active') : kedaInfo.ready ? t('Idle') : t('Not ready')
+          }`}
+        />
+      ) : (
+        <MetricTile label={hpaInfo ? t('CPU Usage / Target') : t('CPU Usage')} value={cpuValue} />
+      )}
     </Box>
   );
 };
@@ -77,9 +77,9 @@ export const useDeployments = (
 
         setDeployments(fetchedDeployments);
 
-        // Auto-select first deployment if none selected
+        // Auto-select first deployment if none (or one from another namespace) is selected
         setSelectedDeployment(current => {
-          if (!current && fetchedDeployments.length > 0) {
+          if (fetchedDeployments.length > 0 && !fetchedDeployments.some(d => d.name === current)) {
             return fetchedDeployments[0].name;
           }
           return current;
@@ -3,6 +3,7 @@
 
 import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
 import { useState } from 'react';
+import { trackActivity } from '../../../utils/shared/activityLog';
 import type { DeploymentInfo } from './useDeployments';
 import type { HPAInfo } from './useHPAInfo';
 
@@ -114,14 +115,22 @@ export const useEditDialog = (
           },
         };
 
-        await clusterRequest(
-          `/apis/autoscaling/v2/namespaces/${namespace}/horizontalpodautoscalers/${hpaInfo.name}`,
+        await trackActivity(
           {
-            method: 'PATCH',
-            body: JSON.stringify(hpaPatchData),
-            headers: MERGE_PATCH_HEADERS,
-            cluster,
-          }
+            channel: 'kubernetes',
+            operation: 'Update autoscaler',
+            target: { cluster, namespace, resource: `HorizontalPodAutoscaler/${hpaInfo.name}` },
+          },
+          () =>
+            clusterRequest(
+              `/apis/autoscaling/v2/namespaces/${namespace}/horizontalpodautoscalers/${hpaInfo.name}`,
+              {
+                method: 'PATCH',
+                body: JSON.stringify(hpaPatchData),
+                headers: MERGE_PATCH_HEADERS,
+                cluster,
+              }
+            )
         );
       } else {
         const deploymentPatchData = {
@@ -130,14 +139,22 @@ export const useEditDialog = (
           },
         };
 
-        await clusterRequest(
-          `/apis/apps/v1/namespaces/${namespace}/deployments/${selectedDeployment}`,
+        await trackActivity(
           {
-            method: 'PATCH',
-            body: JSON.stringify(deploymentPatchData),
-            headers: MERGE_PATCH_HEADERS,
-            cluster,
-          }
+            channel: 'kubernetes',
+            operation: 'Scale deployment',
+            target: { cluster, namespace, resource: `Deployment/${selectedDeployment}` },
+          },
+          () =>
+            clusterRequest(
+              `/apis/apps/v1/namespaces/${namespace}/deployments/${selectedDeployment}`,
+              {
+                method: 'PATCH',
+                body: JSON.stringify(deploymentPatchData),
+                headers: MERGE_PATCH_HEADERS,
+                cluster,
+              }
+            )
         );
       }
 
@@ -0,0 +1,235 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+
+const mockClusterRequest = vi.hoisted(() => vi.fn());
+
+vi.mock('@kinvolk/headlamp-plugin/lib/ApiProxy', () => ({
+  clusterRequest: mockClusterRequest,
+}));
+
+import type { KedaInfo, KedaScalingConfig } from '../utils/keda';
+import type { DeploymentInfo } from './useDeployments';
+import type { HPAInfo } from './useHPAInfo';
+import { useKedaEditDialog } from './useKedaEditDialog';
+
+const deployments: DeploymentInfo[] = [
+  {
+    name: 'my-deploy',
+    namespace: 'test-ns',
+    replicas: 3,
+    availableReplicas: 3,
+    readyReplicas: 3,
+  },
+];
+
+const standaloneHpa: HPAInfo = {
+  name: 'my-hpa',
+  namespace: 'test-ns',
+  minReplicas: 2,
+  maxReplicas: 8,
+  targetCPUUtilization: 70,
+  currentCPUUtilization: 45,
+  currentReplicas: 3,
+  desiredReplicas: 3,
+};
+
+const serviceBusConfig: KedaScalingConfig = {
+  minReplicas: 0,
+  maxReplicas: 10,
+  pollingInterval: 30,
+  cooldownPeriod: 300,
+  useWorkloadIdentity: true,
+  identityClientId: 'client-id',
+  triggers: [
+    { type: 'azure-servicebus', namespace: 'orders-sb', queueName: 'orders', messageCount: 5 },
+  ],
+};
+
+const cronConfig: KedaScalingConfig = {
+  ...serviceBusConfig,
+  triggers: [
+    { type: 'cron', timezone: 'UTC', start: '0 8 * * *', end: '0 18 * * *', desiredReplicas: 2 },
+  ],
+};
+
+const existingKeda: KedaInfo = {
+  name: 'my-deploy',
+  config: { ...serviceBusConfig, identityClientId: '' },
+  authenticationName: 'my-deploy-keda-auth',
+  ready: true,
+  active: false,
+};
+
+const kedaManagedHpa: HPAInfo = { ...standaloneHpa, name: 'keda-hpa-my-deploy' };
+
+describe('useKedaEditDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockClusterRequest.mockResolvedValue({});
+  });
+
+  test('handleOpen uses defaults based on the deployment replicas when KEDA is not configured', async () => {
+    const { result } = renderHook(() =>
+      useKedaEditDialog('my-deploy', deployments, null, null, 'test-ns', 'test-cluster', vi.fn())
+    );
+
+    await act(() => result.current.handleOpen());
+
+    expect(result.current.kedaDialogOpen).toBe(true);
+    expect(result.current.kedaConfig).toMatchObject({ minReplicas: 3, maxReplicas: 10 });
+    expect(result.current.replacesHpa).toBe(false);
+  });
+
+  test('handleOpen loads the identity client ID from the TriggerAuthentication', async () => {
+    mockClusterRequest.mockResolvedValue({
+      spec: { podIdentity: { provider: 'azure-workload', identityId: 'abc' } },
+    });
+    const { result } = renderHook(() =>
+      useKedaEditDialog(
+        'my-deploy',
+        deployments,
+        kedaManagedHpa,
+        existingKeda,
+        'test-ns',
+        'test-cluster',
+        vi.fn()
+      )
+    );
+
+    await act(() => result.current.handleOpen());
+
+    expect(mockClusterRequest).toHaveBeenCalledWith(
+      '/apis/keda.sh/v1alpha1/namespaces/test-ns/triggerauthentications/my-deploy-keda-auth',
+      { method: 'GET', cluster: 'test-cluster' }
+    );
+    expect(result.current.kedaConfig.identityClientId).toBe('abc');
+    expect(result.current.replacesHpa).toBe(false);
+  });
+
+  test('handleSave applies the TriggerAuthentication and ScaledObject and replaces a standalone HPA', async () => {
+    const onSaved = vi.fn();
+    const { result } = renderHook(() =>
+      useKedaEditDialog(
+        'my-deploy',
+        deployments,
+        standaloneHpa,
+        null,
+        'test-ns',
+        'test-cluster',
+        onSaved
+      )
+    );
+
+    expect(result.current.replacesHpa).toBe(true);
+    act(() => result.current.setKedaConfig(serviceBusConfig));
+    await act(() => result.current.handleSave());
+
+    const calls = mockClusterRequest.mock.calls;
+    expect(calls.map(([path, opts]) => [opts.method, path])).toEqual([
+      [
+        'PATCH',
+        '/apis/keda.sh/v1alpha1/namespaces/test-ns/triggerauthentications/my-deploy-keda-auth?fieldManager=aks-desktop&force=true',
+      ],
+      ['DELETE', '/apis/autoscaling/v2/namespaces/test-ns/horizontalpodautoscalers/my-hpa'],
+      [
+        'PATCH',
+        '/apis/keda.sh/v1alpha1/namespaces/test-ns/scaledobjects/my-deploy?fieldManager=aks-desktop&force=true',
+      ],
+    ]);
+    expect(calls[0][1].headers).toEqual({ 'Content-Type': 'application/apply-patch+json' });
+    expect(JSON.parse(calls[0][1].body).spec.podIdentity.identityId).toBe('client-id');
+    const scaledObject = JSON.parse(calls[2][1].body);
+    expect(scaledObject.spec.triggers[0].authenticationRef).toEqual({
+      name: 'my-deploy-keda-auth',
+    });
+    expect(onSaved).toHaveBeenCalled();
+    expect(result.current.kedaDialogOpen).toBe(false);
+  });
+
+  test('handleSave removes the TriggerAuthentication when it is no longer needed', async () => {
+    const { result } = renderHook(() =>
+      useKedaEditDialog(
+        'my-deploy',
+        deployments,
+        kedaManagedHpa,
+        existingKeda,
+        'test-ns',
+        'test-cluster',
+        vi.fn()
+      )
+    );
+
+    act(() => result.current.setKedaConfig(cronConfig));
+    await act(() => result.current.handleSave());
+
+    expect(mockClusterRequest.mock.calls.map(([path, opts]) => [opts.method, path])).toEqual([
+      [
+        'PATCH',
+        '/apis/keda.sh/v1alpha1/namespaces/test-ns/scaledobjects/my-deploy?fieldManager=aks-desktop&force=true',
+      ],
+      [
+        'DELETE',
+        '/apis/keda.sh/v1alpha1/namespaces/test-ns/triggerauthentications/my-deploy-keda-auth',
+      ],
+    ]);
+  });
+
+  test('handleSave does nothing while the form is invalid', async () => {
+    const { result } = renderHook(() =>
+      useKedaEditDialog('my-deploy', deployments, null, null, 'test-ns', 'test-cluster', vi.fn())
+    );
+
+    act(() => result.current.setKedaConfig({ ...cronConfig, triggers: [] }));
+    await act(() => result.current.handleSave());
+
+    expect(result.current.validationErrors).toContain('Add at least one trigger');
+    expect(mockClusterRequest).not.toHaveBeenCalled();
+  });
+
+  test('handleSave surfaces API errors', async () => {
+    mockClusterRequest.mockRejectedValue(new Error('forbidden'));
+    const onSaved = vi.fn();
+    const { result } = renderHook(() =>
+      useKedaEditDialog('my-deploy', deployments, null, null, 'test-ns', 'test-cluster', onSaved)
+    );
+
+    act(() => result.current.setKedaConfig(cronConfig));
+    await act(() => result.current.handleSave());
+
+    expect(result.current.saveError).toBe('Failed to save KEDA configuration: forbidden');
+    expect(result.current.saving).toBe(false);
+    expect(onSaved).not.toHaveBeenCalled();
+  });
+
+  test('handleRemove deletes the ScaledObject and its TriggerAuthentication, ignoring 404s', async () => {
+    mockClusterRequest.mockResolvedValueOnce({}).mockRejectedValueOnce({ status: 404 });
+    const onSaved = vi.fn();
+    const { result } = renderHook(() =>
+      useKedaEditDialog(
+        'my-deploy',
+        deployments,
+        kedaManagedHpa,
+        existingKeda,
+        'test-ns',
+        'test-cluster',
+        onSaved
+      )
+    );
+
+    await act(() => result.current.handleRemove());
+
+    expect(mockClusterRequest.mock.calls.map(([path, opts]) => [opts.method, path])).toEqual([
+      ['DELETE', '/apis/keda.sh/v1alpha1/namespaces/test-ns/scaledobjects/my-deploy'],
+      [
+        'DELETE',
+        '/apis/keda.sh/v1alpha1/namespaces/test-ns/triggerauthentications/my-deploy-keda-auth',
+      ],
+    ]);
+    expect(result.current.saveError).toBeNull();
+    expect(onSaved).toHaveBeenCalled();
+  });
+});
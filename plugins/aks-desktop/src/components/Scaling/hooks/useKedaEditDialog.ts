@@ -0,0 +1,264 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useState } from 'react';
+import { trackActivity } from '../../../utils/shared/activityLog';
+import {
+  buildScaledObject,
+  buildTriggerAuthentication,
+  createDefaultKedaConfig,
+  getScaledObjectName,
+  getTriggerAuthenticationName,
+  KEDA_API_VERSION,
+  type KedaInfo,
+  type KedaScalingConfig,
+  triggerUsesAzureAuth,
+  validateKedaConfig,
+} from '../utils/keda';
+import type { DeploymentInfo } from './useDeployments';
+import type { HPAInfo } from './useHPAInfo';
+
+// Server-side apply creates the resource or updates the fields AKS desktop owns.
+const APPLY_PATCH_HEADERS = { 'Content-Type': 'application/apply-patch+json' };
+const APPLY_QUERY = '?fieldManager=aks-desktop&force=true';
+
+/**
+ * Return type for the {@link useKedaEditDialog} hook.
+ */
+interface UseKedaEditDialogResult {
+  /** Whether the KEDA dialog is open. */
+  kedaDialogOpen: boolean;
+  /** Current form values. */
+  kedaConfig: KedaScalingConfig;
+  /** Validation errors for the current form values. */
+  validationErrors: string[];
+  /** Whether a save or remove request is in flight. */
+  saving: boolean;
+  /** Error message from the last failed save or remove, or null. */
+  saveError: string | null;
+  /** Whether saving will delete a standalone HPA that targets the deployment. */
+  replacesHpa: boolean;
+  /** Opens the dialog, pre-populating values from the existing ScaledObject if any. */
+  handleOpen: () => Promise<void>;
+  /** Closes the dialog without saving. */
+  handleClose: () => void;
+  /** Updates the form values. */
+  setKedaConfig: React.Dispatch<React.SetStateAction<KedaScalingConfig>>;
+  /** Creates or updates the ScaledObject (and TriggerAuthentication). */
+  handleSave: () => Promise<void>;
+  /** Deletes the ScaledObject and its TriggerAuthentication. */
+  handleRemove: () => Promise<void>;
+}
+
+/** Deletes a resource, treating "already gone" as success. */
+async function deleteIgnoringNotFound(path: string, cluster: string): Promise<void> {
+  try {
+    await trackActivity(
+      {
+        channel: 'kubernetes',
+        operation: 'Delete resource',
+        target: {
+          cluster,
+          namespace: path.match(/namespaces\/([^/]+)/)?.[1],
+          resource: path.split('/').slice(-2).join('/'),
+        },
+      },
+      () => clusterRequest(path, { method: 'DELETE', cluster })
+    );
+  } catch (err: any) {
+    const status = err?.status ?? err?.response?.status;
+    if (status !== 404) throw err;
+  }
+}
+
+/**
+ * Manages dialog state and save logic for editing a deployment's KEDA ScaledObject.
+ *
+ * Saving applies the ScaledObject with server-side apply. Azure-backed triggers
+ * (Service Bus, Prometheus, HTTP) reference a TriggerAuthentication using Azure
+ * workload identity when enabled. KEDA cannot share a deployment with another
+ * HPA, so a standalone HPA targeting the deployment is deleted on save.
+ *
+ * @param selectedDeployment - The currently selected deployment name.
+ * @param deployments - Full list of deployments (used for default replica bounds).
+ * @param hpaInfo - HPA targeting the deployment, which may be the one KEDA manages.
+ * @param kedaInfo - Existing ScaledObject state, or null if KEDA is not configured.
+ * @param namespace - The Kubernetes namespace.
+ * @param cluster - The cluster identifier.
+ * @param onSaved - Called after a successful save or removal.
+ */
+export const useKedaEditDialog = (
+  selectedDeployment: string,
+  deployments: DeploymentInfo[],
+  hpaInfo: HPAInfo | null,
+  kedaInfo: KedaInfo | null,
+  namespace: string | undefined,
+  cluster: string | undefined,
+  onSaved: () => void
+): UseKedaEditDialogResult => {
+  const [kedaDialogOpen, setKedaDialogOpen] = useState(false);
+  const [kedaConfig, setKedaConfig] = useState<KedaScalingConfig>(createDefaultKedaConfig());
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const kedaPrefix = `/apis/${KEDA_API_VERSION}/namespaces/${namespace}`;
+  const scaledObjectName = kedaInfo?.name ?? getScaledObjectName(selectedDeployment);
+  // KEDA names the HPA it manages keda-hpa-<ScaledObject name>.
+  const replacesHpa = !!hpaInfo && hpaInfo.name !== `keda-hpa-${scaledObjectName}`;
+
+  const handleOpen = async () => {
+    setSaveError(null);
+    if (!kedaInfo) {
+      const currentDeployment = deployments.find(d => d.name === selectedDeployment);
+      setKedaConfig(createDefaultKedaConfig(currentDeployment?.replicas));
+      setKedaDialogOpen(true);
+      return;
+    }
+
+    let config = kedaInfo.config;
+    if (kedaInfo.authenticationName && cluster) {
+      // The identity client ID lives on the TriggerAuthentication, not the ScaledObject.
+      try {
+        const auth = await clusterRequest(
+          `${kedaPrefix}/triggerauthentications/${kedaInfo.authenticationName}`,
+          { method: 'GET', cluster }
+        );
+        config = { ...config, identityClientId: auth?.spec?.podIdentity?.identityId ?? '' };
+      } catch (error) {
+        console.error('Error reading KEDA TriggerAuthentication:', error);
+      }
+    }
+    setKedaConfig(config);
+    setKedaDialogOpen(true);
+  };
+
+  const handleClose = () => {
+    setKedaDialogOpen(false);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (!namespace || !cluster || !selectedDeployment) {
+      setSaveError('Cannot save: missing namespace, cluster, or deployment');
+      return;
+    }
+    if (validateKedaConfig(kedaConfig).length > 0) return;
+
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      const authName = getTriggerAuthenticationName(selectedDeployment);
+      const needsAuth =
+        kedaConfig.useWorkloadIdentity && kedaConfig.triggers.some(triggerUsesAzureAuth);
+
+      if (needsAuth) {
+        await trackActivity(
+          {
+            channel: 'kubernetes',
+            operation: 'Apply TriggerAuthentication',
+            target: { cluster, namespace, resource: `TriggerAuthentication/${authName}` },
+          },
+          () =>
+            clusterRequest(`${kedaPrefix}/triggerauthentications/${authName}${APPLY_QUERY}`, {
+              method: 'PATCH',
+              body: JSON.stringify(
+                buildTriggerAuthentication(
+                  selectedDeployment,
+                  namespace,
+                  kedaConfig.identityClientId
+                )
+              ),
+              headers: APPLY_PATCH_HEADERS,
+              cluster,
+            })
+        );
+      }
+
+      if (replacesHpa && hpaInfo) {
+        await deleteIgnoringNotFound(
+          `/apis/autoscaling/v2/namespaces/${namespace}/horizontalpodautoscalers/${hpaInfo.name}`,
+          cluster
+        );
+      }
+
+      const scaledObject = buildScaledObject(kedaConfig, {
+        deployment: selectedDeployment,
+        namespace,
+        name: scaledObjectName,
+        authenticationName: needsAuth ? authName : undefined,
+      });
+      await trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: 'Apply ScaledObject',
+          target: { cluster, namespace, resource: `ScaledObject/${scaledObjectName}` },
+        },
+        () =>
+          clusterRequest(`${kedaPrefix}/scaledobjects/${scaledObjectName}${APPLY_QUERY}`, {
+            method: 'PATCH',
+            body: JSON.stringify(scaledObject),
+            headers: APPLY_PATCH_HEADERS,
+            cluster,
+          })
+      );
+
+      if (!needsAuth && kedaInfo?.authenticationName === authName) {
+        await deleteIgnoringNotFound(`${kedaPrefix}/triggerauthentications/${authName}`, cluster);
+      }
+
+      setKedaDialogOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving KEDA configuration:', error);
+      setSaveError(
+        `Failed to save KEDA configuration: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!namespace || !cluster || !kedaInfo) return;
+
+    setSaving(true);
+    setSaveError(null);
+
+    try {
+      await deleteIgnoringNotFound(`${kedaPrefix}/scaledobjects/${kedaInfo.name}`, cluster);
+      const authName = getTriggerAuthenticationName(selectedDeployment);
+      if (kedaInfo.authenticationName === authName) {
+        await deleteIgnoringNotFound(`${kedaPrefix}/triggerauthentications/${authName}`, cluster);
+      }
+      setKedaDialogOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error removing KEDA configuration:', error);
+      setSaveError(
+        `Failed to remove KEDA configuration: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return {
+    kedaDialogOpen,
+    kedaConfig,
+    validationErrors: validateKedaConfig(kedaConfig),
+    saving,
+    saveError,
+    replacesHpa,
+    handleOpen,
+    handleClose,
+    setKedaConfig,
+    handleSave,
+    handleRemove,
+  };
+};
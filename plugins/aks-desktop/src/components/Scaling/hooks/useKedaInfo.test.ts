@@ -0,0 +1,93 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+
+const mockClusterRequest = vi.hoisted(() => vi.fn());
+
+vi.mock('@kinvolk/headlamp-plugin/lib/ApiProxy', () => ({
+  clusterRequest: mockClusterRequest,
+}));
+
+import { useKedaInfo } from './useKedaInfo';
+
+function makeScaledObject(name: string, target: string, kind?: string) {
+  return {
+    metadata: { name },
+    spec: {
+      scaleTargetRef: { name: target, ...(kind ? { kind } : {}) },
+      minReplicaCount: 1,
+      maxReplicaCount: 5,
+      triggers: [
+        {
+          type: 'cron',
+          metadata: {
+            timezone: 'UTC',
+            start: '0 8 * * *',
+            end: '0 18 * * *',
+            desiredReplicas: '2',
+          },
+        },
+      ],
+    },
+    status: { conditions: [{ type: 'Ready', status: 'True' }] },
+  };
+}
+
+describe('useKedaInfo', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('skips fetch when deployment or namespace is undefined', () => {
+    const { result } = renderHook(() => useKedaInfo(undefined, 'test-ns', 'test-cluster'));
+
+    expect(result.current.kedaInfo).toBeNull();
+    expect(result.current.kedaAvailable).toBeNull();
+    expect(mockClusterRequest).not.toHaveBeenCalled();
+  });
+
+  test('finds the ScaledObject targeting the deployment', async () => {
+    mockClusterRequest.mockResolvedValue({
+      items: [
+        makeScaledObject('other', 'other-deploy'),
+        makeScaledObject('job-scaler', 'my-deploy', 'StatefulSet'),
+        makeScaledObject('my-scaler', 'my-deploy'),
+      ],
+    });
+
+    const { result } = renderHook(() => useKedaInfo('my-deploy', 'test-ns', 'test-cluster'));
+
+    await waitFor(() => expect(result.current.kedaInfo?.name).toBe('my-scaler'));
+    expect(result.current.kedaAvailable).toBe(true);
+    expect(result.current.kedaInfo?.config.maxReplicas).toBe(5);
+    expect(mockClusterRequest).toHaveBeenCalledWith(
+      '/apis/keda.sh/v1alpha1/namespaces/test-ns/scaledobjects',
+      { method: 'GET', cluster: 'test-cluster' }
+    );
+  });
+
+  test('returns null when no ScaledObject targets the deployment', async () => {
+    mockClusterRequest.mockResolvedValue({ items: [makeScaledObject('other', 'other-deploy')] });
+
+    const { result } = renderHook(() => useKedaInfo('my-deploy', 'test-ns', 'test-cluster'));
+
+    await waitFor(() => expect(result.current.kedaAvailable).toBe(true));
+    expect(result.current.kedaInfo).toBeNull();
+  });
+
+  test('reports KEDA as unavailable when the CRD is not installed', async () => {
+    mockClusterRequest.mockRejectedValue({ status: 404 });
+
+    const { result } = renderHook(() => useKedaInfo('my-deploy', 'test-ns', 'test-cluster'));
+
+    await waitFor(() => expect(result.current.kedaAvailable).toBe(false));
+    expect(result.current.kedaInfo).toBeNull();
+  });
+});
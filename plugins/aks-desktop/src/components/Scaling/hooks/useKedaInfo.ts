@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { KEDA_REFRESH_INTERVAL_MS } from '../../../utils/constants/timing';
+import { KEDA_API_VERSION, type KedaInfo, parseScaledObject } from '../utils/keda';
+
+/**
+ * Return type for the {@link useKedaInfo} hook.
+ */
+interface UseKedaInfoResult {
+  /** The ScaledObject targeting the deployment, or null if there is none. */
+  kedaInfo: KedaInfo | null;
+  /**
+   * Whether the KEDA CRDs are installed on the cluster. Null until the first
+   * request completes.
+   */
+  kedaAvailable: boolean | null;
+  /** Re-reads the ScaledObjects immediately, e.g. after saving. */
+  refresh: () => void;
+}
+
+/**
+ * Fetches the KEDA ScaledObject that targets a deployment and re-reads it
+ * periodically so replica bounds and readiness stay current.
+ *
+ * KEDA is detected by listing ScaledObjects: a 404 means the KEDA add-on
+ * (and its CRDs) is not installed on the cluster.
+ *
+ * @param deploymentName - The name of the deployment to find a ScaledObject for.
+ * @param namespace - The Kubernetes namespace to search in.
+ * @param cluster - The cluster identifier.
+ */
+export const useKedaInfo = (
+  deploymentName: string | undefined,
+  namespace: string | undefined,
+  cluster: string | undefined
+): UseKedaInfoResult => {
+  const [kedaInfo, setKedaInfo] = useState<KedaInfo | null>(null);
+  const [kedaAvailable, setKedaAvailable] = useState<boolean | null>(null);
+  const latestRequestIdRef = useRef(0);
+
+  const fetchScaledObjects = useCallback(async () => {
+    if (!deploymentName || !namespace) return;
+    const requestId = ++latestRequestIdRef.current;
+
+    try {
+      const list = await clusterRequest(
+        `/apis/${KEDA_API_VERSION}/namespaces/${namespace}/scaledobjects`,
+        { method: 'GET', cluster }
+      );
+      if (requestId !== latestRequestIdRef.current) return;
+
+      const scaledObject = (list?.items ?? []).find(
+        (so: any) =>
+          so.spec?.scaleTargetRef?.name === deploymentName &&
+          (so.spec?.scaleTargetRef?.kind ?? 'Deployment') === 'Deployment'
+      );
+      setKedaAvailable(true);
+      setKedaInfo(scaledObject ? parseScaledObject(scaledObject) : null);
+    } catch (err: any) {
+      if (requestId !== latestRequestIdRef.current) return;
+      const status = err?.status ?? err?.response?.status;
+      if (status === 404) {
+        setKedaAvailable(false);
+      } else {
+        console.error('Error fetching KEDA ScaledObjects:', err);
+      }
+      setKedaInfo(null);
+    }
+  }, [deploymentName, namespace, cluster]);
+
+  useEffect(() => {
+    setKedaInfo(null);
+    fetchScaledObjects();
+    const interval = setInterval(fetchScaledObjects, KEDA_REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      // Invalidate any in-flight request for the previous deployment.
+      latestRequestIdRef.current += 1;
+    };
+  }, [fetchScaledObjects]);
+
+  const refresh = useCallback(() => {
+    fetchScaledObjects();
+  }, [fetchScaledObjects]);
+
+  return { kedaInfo, kedaAvailable, refresh };
+};
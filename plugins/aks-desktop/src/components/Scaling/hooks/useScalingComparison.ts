@@ -0,0 +1,58 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import {
+  buildScalingComparison,
+  type ProjectScope,
+  type ScalingSnapshot,
+  type ScopeComparisonRow,
+  scopeKey,
+} from '../../../utils/shared/projectScopes';
+import { fetchScopeDeployments } from '../../shared/hooks/useDeploymentComparison';
+import { useScopeData } from '../../shared/hooks/useScopeData';
+
+/** Result returned by {@link useScalingComparison}. */
+export interface UseScalingComparisonResult {
+  rows: ScopeComparisonRow<ScalingSnapshot>[];
+  loading: boolean;
+  /** Scopes whose Deployments or autoscalers could not be read, with the reason. */
+  errors: Record<string, string>;
+  refresh: () => void;
+}
+
+async function fetchScopeScaling(scope: ProjectScope) {
+  const [deployments, autoscalers] = await Promise.all([
+    fetchScopeDeployments(scope),
+    clusterRequest(`/apis/autoscaling/v2/namespaces/${scope.namespace}/horizontalpodautoscalers`, {
+      method: 'GET',
+      cluster: scope.cluster,
+    }).then(list => (list?.items ?? []) as any[]),
+  ]);
+  return { deployments, autoscalers };
+}
+
+/**
+ * Reads the Deployments and HorizontalPodAutoscalers of every scope of a
+ * project and lines up how each Deployment scales. Nothing is fetched for
+ * fewer than two scopes.
+ *
+ * @param scopes - Scopes to compare.
+ */
+export function useScalingComparison(scopes: ProjectScope[]): UseScalingComparisonResult {
+  const { dataByScope, loading, errors, refresh } = useScopeData(scopes, fetchScopeScaling);
+  const deploymentsByScope: Record<string, any[]> = {};
+  const autoscalersByScope: Record<string, any[]> = {};
+  for (const scope of scopes) {
+    const data = dataByScope[scopeKey(scope)];
+    if (!data) continue;
+    deploymentsByScope[scopeKey(scope)] = data.deployments;
+    autoscalersByScope[scopeKey(scope)] = data.autoscalers;
+  }
+  return {
+    rows: buildScalingComparison(scopes, deploymentsByScope, autoscalersByScope),
+    loading,
+    errors,
+    refresh,
+  };
+}
@@ -0,0 +1,229 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, test } from 'vitest';
+import {
+  buildScaledObject,
+  buildTriggerAuthentication,
+  createDefaultKedaConfig,
+  createDefaultTrigger,
+  type CronTrigger,
+  type KedaScalingConfig,
+  parseScaledObject,
+  triggerUsesAzureAuth,
+  validateKedaConfig,
+} from './keda';
+
+const AMW = 'https://my-amw-abcd.eastus.prometheus.monitor.azure.com';
+
+const config: KedaScalingConfig = {
+  minReplicas: 0,
+  maxReplicas: 20,
+  pollingInterval: 15,
+  cooldownPeriod: 120,
+  useWorkloadIdentity: true,
+  identityClientId: '',
+  triggers: [
+    { type: 'azure-servicebus', namespace: 'orders-sb', queueName: 'orders', messageCount: 10 },
+    {
+      type: 'cron',
+      timezone: 'Europe/Amsterdam',
+      start: '0 8 * * 1-5',
+      end: '0 18 * * 1-5',
+      desiredReplicas: 3,
+    },
+    { type: 'prometheus', serverAddress: AMW, query: 'sum(queue_depth)', threshold: 100 },
+    { type: 'http', serverAddress: 'http://prometheus.monitoring:9090', requestsPerSecond: 25 },
+  ],
+};
+
+describe('buildScaledObject', () => {
+  test('builds a ScaledObject targeting the deployment', () => {
+    const so = buildScaledObject(config, {
+      deployment: 'web',
+      namespace: 'team-a',
+      authenticationName: 'web-keda-auth',
+    });
+
+    expect(so.apiVersion).toBe('keda.sh/v1alpha1');
+    expect(so.metadata).toMatchObject({ name: 'web', namespace: 'team-a' });
+    expect(so.spec).toMatchObject({
+      scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: 'web' },
+      minReplicaCount: 0,
+      maxReplicaCount: 20,
+      pollingInterval: 15,
+      cooldownPeriod: 120,
+    });
+    expect(so.spec.triggers).toEqual([
+      {
+        type: 'azure-servicebus',
+        metadata: { namespace: 'orders-sb', queueName: 'orders', messageCount: '10' },
+        authenticationRef: { name: 'web-keda-auth' },
+      },
+      {
+        type: 'cron',
+        metadata: {
+          timezone: 'Europe/Amsterdam',
+          start: '0 8 * * 1-5',
+          end: '0 18 * * 1-5',
+          desiredReplicas: '3',
+        },
+      },
+      {
+        type: 'prometheus',
+        metadata: { serverAddress: AMW, query: 'sum(queue_depth)', threshold: '100' },
+        authenticationRef: { name: 'web-keda-auth' },
+      },
+      {
+        type: 'prometheus',
+        name: 'http-requests',
+        metadata: {
+          serverAddress: 'http://prometheus.monitoring:9090',
+          query:
+            'sum(rate(http_requests_total{namespace="team-a", pod=~"web-[a-z0-9]+-[a-z0-9]+"}[2m]))',
+          threshold: '25',
+        },
+      },
+    ]);
+  });
+
+  test('keeps an existing ScaledObject name', () => {
+    const so = buildScaledObject(config, {
+      deployment: 'web',
+      namespace: 'team-a',
+      name: 'web-so',
+    });
+    expect(so.metadata.name).toBe('web-so');
+    expect(so.spec.triggers[0].authenticationRef).toBeUndefined();
+  });
+
+  test('passes unsupported triggers through unchanged', () => {
+    const raw = { type: 'kafka', metadata: { topic: 'orders' } };
+    const so = buildScaledObject(
+      { ...config, triggers: [{ type: 'unsupported', raw }] },
+      { deployment: 'web', namespace: 'team-a' }
+    );
+    expect(so.spec.triggers).toEqual([raw]);
+  });
+});
+
+describe('buildTriggerAuthentication', () => {
+  test('uses the azure-workload pod identity provider', () => {
+    expect(buildTriggerAuthentication('web', 'team-a', '').spec).toEqual({
+      podIdentity: { provider: 'azure-workload' },
+    });
+    expect(buildTriggerAuthentication('web', 'team-a', ' client-id ').spec).toEqual({
+      podIdentity: { provider: 'azure-workload', identityId: 'client-id' },
+    });
+    expect(buildTriggerAuthentication('web', 'team-a', '').metadata.name).toBe('web-keda-auth');
+  });
+});
+
+describe('triggerUsesAzureAuth', () => {
+  test('only Azure-backed triggers need credentials', () => {
+    expect(triggerUsesAzureAuth(config.triggers[0])).toBe(true);
+    expect(triggerUsesAzureAuth(config.triggers[1])).toBe(false);
+    expect(triggerUsesAzureAuth(config.triggers[2])).toBe(true);
+    expect(triggerUsesAzureAuth(config.triggers[3])).toBe(false);
+  });
+});
+
+describe('parseScaledObject', () => {
+  test('round-trips a ScaledObject built by the editor', () => {
+    const so = buildScaledObject(config, {
+      deployment: 'web',
+      namespace: 'team-a',
+      authenticationName: 'web-keda-auth',
+    });
+    so.status = {
+      conditions: [
+        { type: 'Ready', status: 'True' },
+        { type: 'Active', status: 'False' },
+      ],
+    };
+
+    const info = parseScaledObject(so);
+
+    expect(info).toMatchObject({
+      name: 'web',
+      authenticationName: 'web-keda-auth',
+      ready: true,
+      active: false,
+    });
+    expect(info.config).toEqual(config);
+  });
+
+  test('applies KEDA defaults for missing fields', () => {
+    const info = parseScaledObject({
+      metadata: { name: 'web' },
+      spec: { scaleTargetRef: { name: 'web' }, triggers: [] },
+    });
+
+    expect(info.config).toMatchObject({
+      minReplicas: 0,
+      maxReplicas: 100,
+      pollingInterval: 30,
+      cooldownPeriod: 300,
+      useWorkloadIdentity: false,
+    });
+    expect(info.ready).toBe(false);
+  });
+
+  test('marks triggers it cannot edit faithfully as unsupported', () => {
+    const topic = { type: 'azure-servicebus', metadata: { topicName: 't', subscriptionName: 's' } };
+    const fromEnv = { type: 'prometheus', metadata: { serverAddressFromEnv: 'PROM_URL' } };
+    const kafka = { type: 'kafka', metadata: {} };
+
+    const info = parseScaledObject({
+      metadata: { name: 'web' },
+      spec: { triggers: [topic, fromEnv, kafka] },
+    });
+
+    expect(info.config.triggers).toEqual([
+      { type: 'unsupported', raw: topic },
+      { type: 'unsupported', raw: fromEnv },
+      { type: 'unsupported', raw: kafka },
+    ]);
+  });
+});
+
+describe('validateKedaConfig', () => {
+  test('accepts a complete configuration', () => {
+    expect(validateKedaConfig(config)).toEqual([]);
+  });
+
+  test('requires at least one trigger and sane bounds', () => {
+    expect(validateKedaConfig({ ...createDefaultKedaConfig(), triggers: [] })).toContain(
+      'Add at least one trigger'
+    );
+    expect(validateKedaConfig({ ...config, minReplicas: 5, maxReplicas: 2 })).toContain(
+      'Maximum replicas must be greater than or equal to minimum replicas'
+    );
+  });
+
+  test('reports incomplete triggers by position', () => {
+    const errors = validateKedaConfig({
+      ...config,
+      triggers: [createDefaultTrigger('azure-servicebus'), createDefaultTrigger('prometheus')],
+    });
+
+    expect(errors).toContain('Trigger 1: Service Bus namespace is required');
+    expect(errors).toContain('Trigger 1: queue name is required');
+    expect(errors).toContain('Trigger 2: server address must be an http(s) URL');
+    expect(errors).toContain('Trigger 2: query is required');
+  });
+
+  test('requires workload identity for Service Bus', () => {
+    expect(validateKedaConfig({ ...config, useWorkloadIdentity: false })).toContain(
+      'Trigger 1: Service Bus triggers require workload identity'
+    );
+  });
+
+  test('rejects malformed cron expressions', () => {
+    const errors = validateKedaConfig({
+      ...config,
+      triggers: [{ ...(createDefaultTrigger('cron') as CronTrigger), start: '0 8 * *' }],
+    });
+    expect(errors).toEqual(['Trigger 1: start must be a 5-field cron expression']);
+  });
+});
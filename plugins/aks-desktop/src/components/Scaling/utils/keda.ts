@@ -0,0 +1,434 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/** API group/version of the KEDA custom resources. */
+export const KEDA_API_VERSION = 'keda.sh/v1alpha1';
+
+/**
+ * Trigger name used to mark the HTTP request-rate trigger. It is a Prometheus
+ * trigger underneath; the name lets the editor recognise it when reading back.
+ */
+const HTTP_TRIGGER_NAME = 'http-requests';
+
+export type KedaTriggerType = 'azure-servicebus' | 'cron' | 'prometheus' | 'http';
+
+/** Scale on the number of messages in an Azure Service Bus queue. */
+export interface ServiceBusTrigger {
+  type: 'azure-servicebus';
+  /** Service Bus namespace name (without `.servicebus.windows.net`). */
+  namespace: string;
+  queueName: string;
+  /** Target messages per replica. */
+  messageCount: number;
+}
+
+/** Hold a fixed replica count during a recurring time window. */
+export interface CronTrigger {
+  type: 'cron';
+  /** IANA time zone, e.g. `Europe/Amsterdam`. */
+  timezone: string;
+  /** Cron expression for the start of the window. */
+  start: string;
+  /** Cron expression for the end of the window. */
+  end: string;
+  desiredReplicas: number;
+}
+
+/** Scale on the value of a PromQL query. */
+export interface PrometheusTrigger {
+  type: 'prometheus';
+  serverAddress: string;
+  query: string;
+  /** Target query value per replica. */
+  threshold: number;
+}
+
+/**
+ * Scale on the HTTP request rate of the deployment, measured from
+ * `http_requests_total` in Prometheus.
+ */
+export interface HttpTrigger {
+  type: 'http';
+  serverAddress: string;
+  /** Target requests per second per replica. */
+  requestsPerSecond: number;
+}
+
+/** A trigger of a type the editor does not support; kept as-is when saving. */
+export interface UnsupportedTrigger {
+  type: 'unsupported';
+  raw: Record<string, any>;
+}
+
+export type KedaTrigger =
+  | ServiceBusTrigger
+  | CronTrigger
+  | PrometheusTrigger
+  | HttpTrigger
+  | UnsupportedTrigger;
+
+/** Editable KEDA scaling configuration for a Deployment. */
+export interface KedaScalingConfig {
+  minReplicas: number;
+  maxReplicas: number;
+  /** Seconds between trigger checks. */
+  pollingInterval: number;
+  /** Seconds to wait after the last active trigger before scaling to minReplicas. */
+  cooldownPeriod: number;
+  triggers: KedaTrigger[];
+  /** Authenticate Azure-backed triggers with Azure workload identity through the KEDA operator. */
+  useWorkloadIdentity: boolean;
+  /**
+   * Client ID of the managed identity to use; empty uses the identity of the
+   * `keda-operator` service account. Either way the identity must be federated
+   * with that service account in KEDA's namespace.
+   */
+  identityClientId: string;
+}
+
+/** State of an existing ScaledObject, as shown in the Scaling overview. */
+export interface KedaInfo {
+  /** Name of the ScaledObject. */
+  name: string;
+  config: KedaScalingConfig;
+  /** Name of the TriggerAuthentication referenced by the triggers, if any. */
+  authenticationName?: string;
+  /** Whether KEDA reports the ScaledObject as Ready. */
+  ready: boolean;
+  /** Whether any trigger is currently active. */
+  active: boolean;
+}
+
+/** Returns the ScaledObject name used for a deployment. */
+export function getScaledObjectName(deployment: string): string {
+  return deployment;
+}
+
+/** Returns the TriggerAuthentication name used for a deployment's ScaledObject. */
+export function getTriggerAuthenticationName(deployment: string): string {
+  return `${deployment}-keda-auth`;
+}
+
+/**
+ * Whether a trigger calls an Azure service and so authenticates through the
+ * TriggerAuthentication: Service Bus, and Prometheus queries against an Azure
+ * Monitor workspace. In-cluster Prometheus servers need no credentials.
+ */
+export function triggerUsesAzureAuth(trigger: KedaTrigger): boolean {
+  if (trigger.type === 'azure-servicebus') return true;
+  if (trigger.type === 'prometheus' || trigger.type === 'http') {
+    return /\.prometheus\.monitor\.azure\.com(:\d+)?(\/|$)/i.test(trigger.serverAddress);
+  }
+  return false;
+}
+
+/** Returns a new trigger of the given type with sensible defaults. */
+export function createDefaultTrigger(
+  type: KedaTriggerType
+): Exclude<KedaTrigger, UnsupportedTrigger> {
+  switch (type) {
+    case 'azure-servicebus':
+      return { type, namespace: '', queueName: '', messageCount: 5 };
+    case 'cron':
+      return {
+        type,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Etc/UTC',
+        start: '0 8 * * 1-5',
+        end: '0 18 * * 1-5',
+        desiredReplicas: 2,
+      };
+    case 'prometheus':
+      return { type, serverAddress: '', query: '', threshold: 10 };
+    case 'http':
+      return { type, serverAddress: '', requestsPerSecond: 50 };
+  }
+}
+
+/** Returns the configuration used when KEDA is first enabled for a deployment. */
+export function createDefaultKedaConfig(currentReplicas = 1): KedaScalingConfig {
+  return {
+    minReplicas: Math.max(1, currentReplicas),
+    maxReplicas: Math.max(10, currentReplicas),
+    pollingInterval: 30,
+    cooldownPeriod: 300,
+    triggers: [],
+    useWorkloadIdentity: true,
+    identityClientId: '',
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** PromQL query measuring the deployment's HTTP request rate. */
+export function buildHttpRequestRateQuery(deployment: string, namespace: string): string {
+  return `sum(rate(http_requests_total{namespace="${namespace}", pod=~"${escapeRegExp(
+    deployment
+  )}-[a-z0-9]+-[a-z0-9]+"}[2m]))`;
+}
+
+function toKedaTrigger(
+  trigger: KedaTrigger,
+  deployment: string,
+  namespace: string,
+  authenticationName: string | undefined
+): Record<string, any> {
+  if (trigger.type === 'unsupported') return trigger.raw;
+
+  const authenticationRef =
+    authenticationName && triggerUsesAzureAuth(trigger) ? { name: authenticationName } : undefined;
+  const withAuth = (t: Record<string, any>) =>
+    authenticationRef ? { ...t, authenticationRef } : t;
+
+  switch (trigger.type) {
+    case 'azure-servicebus':
+      return withAuth({
+        type: 'azure-servicebus',
+        metadata: {
+          namespace: trigger.namespace,
+          queueName: trigger.queueName,
+          messageCount: String(trigger.messageCount),
+        },
+      });
+    case 'cron':
+      return {
+        type: 'cron',
+        metadata: {
+          timezone: trigger.timezone,
+          start: trigger.start,
+          end: trigger.end,
+          desiredReplicas: String(trigger.desiredReplicas),
+        },
+      };
+    case 'prometheus':
+      return withAuth({
+        type: 'prometheus',
+        metadata: {
+          serverAddress: trigger.serverAddress,
+          query: trigger.query,
+          threshold: String(trigger.threshold),
+        },
+      });
+    case 'http':
+      return withAuth({
+        type: 'prometheus',
+        name: HTTP_TRIGGER_NAME,
+        metadata: {
+          serverAddress: trigger.serverAddress,
+          query: buildHttpRequestRateQuery(deployment, namespace),
+          threshold: String(trigger.requestsPerSecond),
+        },
+      });
+  }
+}
+
+/**
+ * Builds the ScaledObject manifest for a deployment.
+ *
+ * @param options.name - ScaledObject name; defaults to {@link getScaledObjectName}.
+ * @param options.authenticationName - TriggerAuthentication to reference from
+ * Azure-backed triggers, or undefined when workload identity is not used.
+ */
+export function buildScaledObject(
+  config: KedaScalingConfig,
+  options: { deployment: string; namespace: string; name?: string; authenticationName?: string }
+): Record<string, any> {
+  const {
+    deployment,
+    namespace,
+    name = getScaledObjectName(deployment),
+    authenticationName,
+  } = options;
+  return {
+    apiVersion: KEDA_API_VERSION,
+    kind: 'ScaledObject',
+    metadata: {
+      name,
+      namespace,
+      labels: { 'app.kubernetes.io/managed-by': 'aks-desktop' },
+    },
+    spec: {
+      scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: deployment },
+      minReplicaCount: config.minReplicas,
+      maxReplicaCount: config.maxReplicas,
+      pollingInterval: config.pollingInterval,
+      cooldownPeriod: config.cooldownPeriod,
+      triggers: config.triggers.map(t =>
+        toKedaTrigger(t, deployment, namespace, authenticationName)
+      ),
+    },
+  };
+}
+
+/**
+ * Builds a TriggerAuthentication that authenticates with Azure workload identity.
+ * KEDA's operator, not the deployment, requests the token, so the identity must
+ * be federated with the `keda-operator` service account in KEDA's namespace.
+ */
+export function buildTriggerAuthentication(
+  deployment: string,
+  namespace: string,
+  identityClientId: string
+): Record<string, any> {
+  const podIdentity: Record<string, string> = { provider: 'azure-workload' };
+  if (identityClientId.trim()) {
+    podIdentity.identityId = identityClientId.trim();
+  }
+  return {
+    apiVersion: KEDA_API_VERSION,
+    kind: 'TriggerAuthentication',
+    metadata: {
+      name: getTriggerAuthenticationName(deployment),
+      namespace,
+      labels: { 'app.kubernetes.io/managed-by': 'aks-desktop' },
+    },
+    spec: { podIdentity },
+  };
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function fromKedaTrigger(raw: Record<string, any>): KedaTrigger {
+  const metadata = raw.metadata ?? {};
+  // Triggers reading values from secrets or env vars cannot be edited faithfully.
+  const usesIndirection = Object.keys(metadata).some(k => k.endsWith('FromEnv'));
+  if (usesIndirection) return { type: 'unsupported', raw };
+
+  switch (raw.type) {
+    case 'azure-servicebus':
+      if (!metadata.queueName || metadata.topicName) return { type: 'unsupported', raw };
+      return {
+        type: 'azure-servicebus',
+        namespace: metadata.namespace ?? '',
+        queueName: metadata.queueName,
+        messageCount: toNumber(metadata.messageCount, 5),
+      };
+    case 'cron':
+      return {
+        type: 'cron',
+        timezone: metadata.timezone ?? '',
+        start: metadata.start ?? '',
+        end: metadata.end ?? '',
+        desiredReplicas: toNumber(metadata.desiredReplicas, 1),
+      };
+    case 'prometheus':
+      if (raw.name === HTTP_TRIGGER_NAME) {
+        return {
+          type: 'http',
+          serverAddress: metadata.serverAddress ?? '',
+          requestsPerSecond: toNumber(metadata.threshold, 50),
+        };
+      }
+      return {
+        type: 'prometheus',
+        serverAddress: metadata.serverAddress ?? '',
+        query: metadata.query ?? '',
+        threshold: toNumber(metadata.threshold, 10),
+      };
+    default:
+      return { type: 'unsupported', raw };
+  }
+}
+
+/**
+ * Reads an existing ScaledObject into an editable configuration.
+ *
+ * @param scaledObject - ScaledObject JSON from the API server.
+ * @param identityClientId - `identityId` of the referenced TriggerAuthentication, if known.
+ *   Empty means the `keda-operator` service account's identity.
+ */
+export function parseScaledObject(
+  scaledObject: Record<string, any>,
+  identityClientId = ''
+): KedaInfo {
+  const spec = scaledObject.spec ?? {};
+  const rawTriggers: Record<string, any>[] = spec.triggers ?? [];
+  const authenticationName = rawTriggers.find(t => t.authenticationRef?.name)?.authenticationRef
+    ?.name as string | undefined;
+  const conditions: { type: string; status: string }[] = scaledObject.status?.conditions ?? [];
+
+  return {
+    name: scaledObject.metadata?.name ?? '',
+    authenticationName,
+    ready: conditions.some(c => c.type === 'Ready' && c.status === 'True'),
+    active: conditions.some(c => c.type === 'Active' && c.status === 'True'),
+    config: {
+      // KEDA defaults: minReplicaCount 0, maxReplicaCount 100, pollingInterval 30, cooldownPeriod 300.
+      minReplicas: toNumber(spec.minReplicaCount, 0),
+      maxReplicas: toNumber(spec.maxReplicaCount, 100),
+      pollingInterval: toNumber(spec.pollingInterval, 30),
+      cooldownPeriod: toNumber(spec.cooldownPeriod, 300),
+      triggers: rawTriggers.map(fromKedaTrigger),
+      useWorkloadIdentity: !!authenticationName,
+      identityClientId,
+    },
+  };
+}
+
+/**
+ * Checks a KEDA configuration before it is saved.
+ * @returns A list of error messages; empty when the configuration is valid.
+ */
+export function validateKedaConfig(config: KedaScalingConfig): string[] {
+  const errors: string[] = [];
+  const isWhole = (n: number) => Number.isInteger(n) && n >= 0;
+
+  if (!isWhole(config.minReplicas)) errors.push('Minimum replicas must be a whole number');
+  if (!isWhole(config.maxReplicas) || config.maxReplicas < 1) {
+    errors.push('Maximum replicas must be at least 1');
+  } else if (config.maxReplicas < config.minReplicas) {
+    errors.push('Maximum replicas must be greater than or equal to minimum replicas');
+  }
+  if (!isWhole(config.pollingInterval) || config.pollingInterval < 1) {
+    errors.push('Polling interval must be at least 1 second');
+  }
+  if (!isWhole(config.cooldownPeriod)) errors.push('Cooldown period must be a whole number');
+  if (config.triggers.length === 0) errors.push('Add at least one trigger');
+
+  config.triggers.forEach((trigger, i) => {
+    const label = `Trigger ${i + 1}`;
+    switch (trigger.type) {
+      case 'azure-servicebus':
+        if (!trigger.namespace.trim()) errors.push(`${label}: Service Bus namespace is required`);
+        if (!trigger.queueName.trim()) errors.push(`${label}: queue name is required`);
+        if (!(trigger.messageCount > 0)) errors.push(`${label}: message count must be positive`);
+        if (!config.useWorkloadIdentity) {
+          errors.push(`${label}: Service Bus triggers require workload identity`);
+        }
+        break;
+      case 'cron':
+        if (!trigger.timezone.trim()) errors.push(`${label}: time zone is required`);
+        if (trigger.start.trim().split(/\s+/).length !== 5) {
+          errors.push(`${label}: start must be a 5-field cron expression`);
+        }
+        if (trigger.end.trim().split(/\s+/).length !== 5) {
+          errors.push(`${label}: end must be a 5-field cron expression`);
+        }
+        if (!isWhole(trigger.desiredReplicas) || trigger.desiredReplicas < 1) {
+          errors.push(`${label}: desired replicas must be at least 1`);
+        }
+        break;
+      case 'prometheus':
+        if (!/^https?:\/\//.test(trigger.serverAddress)) {
+          errors.push(`${label}: server address must be an http(s) URL`);
+        }
+        if (!trigger.query.trim()) errors.push(`${label}: query is required`);
+        if (!(trigger.threshold > 0)) errors.push(`${label}: threshold must be positive`);
+        break;
+      case 'http':
+        if (!/^https?:\/\//.test(trigger.serverAddress)) {
+          errors.push(`${label}: server address must be an http(s) URL`);
+        }
+        if (!(trigger.requestsPerSecond > 0)) {
+          errors.push(`${label}: requests per second must be positive`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
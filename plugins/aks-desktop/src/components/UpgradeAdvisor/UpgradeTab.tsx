@@ -0,0 +1,321 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Card,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import { useProjectScope } from '../shared/hooks/useProjectScope';
+import { ProjectScopeSelector } from '../shared/ProjectScopeSelector';
+import { useUpgradeReadiness } from './hooks/useUpgradeReadiness';
+import type { ReadinessCheckId, ReadinessStatus } from './utils';
+
+/** Props for the {@link UpgradeTab} component. */
+export interface UpgradeTabProps {
+  /** AKS Managed Project **/
+  project: {
+    /** List of clusters in the project **/
+    clusters: string[];
+    /** List of namespaces in the project **/
+    namespaces: string[];
+    /** ID/Name of project **/
+    id: string;
+  };
+}
+
+const STATUS_ICONS: Record<ReadinessStatus, { icon: string; color: string }> = {
+  pass: { icon: 'mdi:check-circle', color: 'success.main' },
+  warning: { icon: 'mdi:alert', color: 'warning.main' },
+  blocker: { icon: 'mdi:close-octagon', color: 'error.main' },
+  unknown: { icon: 'mdi:help-circle-outline', color: 'text.secondary' },
+};
+
+/**
+ * Top-level component for the upgrade tab.
+ *
+ * Lists the Kubernetes versions the project's cluster can be upgraded to and,
+ * for the chosen one, a readiness checklist that flags blockers before anyone
+ * starts the upgrade. Projects spanning several clusters check one cluster and
+ * namespace at a time.
+ */
+const UpgradeTab: React.FC<UpgradeTabProps> = ({ project }) => {
+  const { t } = useTranslation();
+  const { scopes, selected, selectScope } = useProjectScope(project);
+  const { namespace, cluster } = selected;
+  const {
+    currentVersion,
+    upgrades,
+    targetVersion,
+    setTargetVersion,
+    checklist,
+    apiFindings,
+    pdbBlockers,
+    skippedKinds,
+    loading,
+    error,
+    refresh,
+  } = useUpgradeReadiness(namespace, cluster);
+
+  const checkLabels: Record<
+    ReadinessCheckId,
+    { title: string; detail: (count: number) => string }
+  > = {
+    'removed-apis': {
+      title: t('No removed APIs in use'),
+      detail: count =>
+        count > 0
+          ? t('{{count}} objects use APIs the target version no longer serves', { count })
+          : t('No objects use APIs the target version removes'),
+    },
+    'deprecated-apis': {
+      title: t('No deprecated APIs in use'),
+      detail: count =>
+        count > 0
+          ? t('{{count}} objects use APIs deprecated in the target version', { count })
+          : t('No objects use APIs deprecated in the target version'),
+    },
+    'disruption-budgets': {
+      title: t('Nodes can be drained'),
+      detail: count =>
+        count > 0
+          ? t('{{count}} PodDisruptionBudgets allow no disruptions', { count })
+          : t('No PodDisruptionBudget blocks evictions'),
+    },
+  };
+
+  if (!namespace || !cluster) {
+    return (
+      <Box p={3}>
+        <Alert severity="warning">{t('This project has no namespace to check.')}</Alert>
+      </Box>
+    );
+  }
+
+  const blockers = checklist.filter(c => c.status === 'blocker').length;
+  const incomplete = checklist.some(c => c.status === 'unknown');
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box sx={{ mb: 3, display: 'flex', gap: 2, alignItems: 'center' }}>
+        <Typography variant="h5">{t('Upgrade Readiness')}</Typography>
+        <Box sx={{ flex: 1 }} />
+        <ProjectScopeSelector scopes={scopes} selected={selected} onChange={selectScope} />
+        <Button
+          variant="outlined"
+          startIcon={<Icon icon="mdi:refresh" />}
+          onClick={() => refresh()}
+          disabled={loading}
+        >
+          {t('Refresh')}
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <AlertTitle>{t('Upgrade readiness unavailable')}</AlertTitle>
+          <Typography variant="body2">{error}</Typography>
+        </Alert>
+      )}
+
+      {loading && !currentVersion ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+          <CircularProgress />
+        </Box>
+      ) : (
+        currentVersion && (
+          <>
+            <Box sx={{ mb: 2, display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+              <Typography>
+                {t('Current version')}: <strong>{currentVersion}</strong>
+              </Typography>
+              {upgrades.length > 0 && targetVersion && (
+                <TextField
+                  select
+                  size="small"
+                  label={t('Target version')}
+                  value={targetVersion}
+                  onChange={e => setTargetVersion(e.target.value)}
+                  sx={{ minWidth: 200 }}
+                >
+                  {upgrades.map(upgrade => (
+                    <MenuItem key={upgrade.version} value={upgrade.version}>
+                      {upgrade.version}
+                      {upgrade.isPreview && (
+                        <Chip size="small" label={t('Preview')} sx={{ ml: 1 }} />
+                      )}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Box>
+
+            {upgrades.length === 0 ? (
+              <Alert severity="success">
+                {t('The cluster runs the newest version available to it.')}
+              </Alert>
+            ) : (
+              <>
+                {blockers > 0 ? (
+                  <Alert severity="error" sx={{ mb: 2 }}>
+                    {t('Resolve {{count}} blockers before upgrading to {{version}}.', {
+                      count: blockers,
+                      version: targetVersion,
+                    })}
+                  </Alert>
+                ) : incomplete ? (
+                  <Alert severity="warning" sx={{ mb: 2 }}>
+                    {t('No blockers found, but some checks could not run.')}
+                  </Alert>
+                ) : (
+                  <Alert severity="success" sx={{ mb: 2 }}>
+                    {t('This project is ready for {{version}}.', { version: targetVersion })}
+                  </Alert>
+                )}
+
+                <Card sx={{ mb: 3 }}>
+                  <List aria-label={t('Readiness checklist')}>
+                    {checklist.map(check => (
+                      <ListItem key={check.id}>
+                        <ListItemIcon sx={{ color: STATUS_ICONS[check.status].color }}>
+                          <Icon icon={STATUS_ICONS[check.status].icon} width={24} />
+                        </ListItemIcon>
+                        <ListItemText
+                          primary={checkLabels[check.id].title}
+                          secondary={
+                            check.status === 'unknown'
+                              ? t('Could not be checked completely')
+                              : checkLabels[check.id].detail(check.count)
+                          }
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </Card>
+
+                {skippedKinds.length > 0 && (
+                  <Alert severity="info" sx={{ mb: 2 }}>
+                    {t('These kinds could not be listed and were not checked: {{kinds}}', {
+                      kinds: skippedKinds.join(', '),
+                    })}
+                  </Alert>
+                )}
+
+                {apiFindings.length > 0 && (
+                  <>
+                    <Typography variant="h6" sx={{ mb: 1 }}>
+                      {t('Deprecated and removed APIs')}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                      {t(
+                        'These objects were last written with an old API version. Update their manifests to the replacement and apply them again.'
+                      )}
+                    </Typography>
+                    <Card sx={{ mb: 3 }}>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>{t('Kind')}</TableCell>
+                            <TableCell>{t('Name')}</TableCell>
+                            <TableCell>{t('Scope')}</TableCell>
+                            <TableCell>{t('API version')}</TableCell>
+                            <TableCell>{t('Status')}</TableCell>
+                            <TableCell>{t('Replacement')}</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {apiFindings.map(finding => (
+                            <TableRow
+                              key={`${finding.kind}/${finding.namespace ?? ''}/${finding.name}/${
+                                finding.apiVersion
+                              }`}
+                            >
+                              <TableCell>{finding.kind}</TableCell>
+                              <TableCell>{finding.name}</TableCell>
+                              <TableCell>{finding.namespace ?? t('Cluster')}</TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>
+                                {finding.apiVersion}
+                              </TableCell>
+                              <TableCell>
+                                <Chip
+                                  size="small"
+                                  color={finding.removed ? 'error' : 'warning'}
+                                  label={
+                                    finding.removed
+                                      ? t('Removed in 1.{{minor}}', { minor: finding.removedIn })
+                                      : t('Deprecated in 1.{{minor}}', {
+                                          minor: finding.deprecatedIn,
+                                        })
+                                  }
+                                />
+                              </TableCell>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>
+                                {finding.replacement}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </Card>
+                  </>
+                )}
+
+                {pdbBlockers.length > 0 && (
+                  <>
+                    <Typography variant="h6" sx={{ mb: 1 }}>
+                      {t('Blocking PodDisruptionBudgets')}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                      {t(
+                        'Node drains wait for these budgets to allow an eviction. Add replicas or lower minAvailable so at least one pod may be disrupted.'
+                      )}
+                    </Typography>
+                    <Card>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>{t('Name')}</TableCell>
+                            <TableCell>{t('Pods covered')}</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {pdbBlockers.map(pdb => (
+                            <TableRow key={pdb.name}>
+                              <TableCell>{pdb.name}</TableCell>
+                              <TableCell>{pdb.expectedPods}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </Card>
+                  </>
+                )}
+              </>
+            )}
+          </>
+        )
+      )}
+    </Box>
+  );
+};
+
+export default UpgradeTab;
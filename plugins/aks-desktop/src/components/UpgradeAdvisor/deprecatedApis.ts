@@ -0,0 +1,112 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/** A Kubernetes API version of one kind that is deprecated and later removed. */
+export interface DeprecatedApi {
+  /** `group/version`, or `version` for the core group. */
+  apiVersion: string;
+  kind: string;
+  /** Minor version of Kubernetes 1.x that deprecated the API. */
+  deprecatedIn: number;
+  /** Minor version of Kubernetes 1.x that stopped serving the API. */
+  removedIn: number;
+  /** `group/version` to migrate to. */
+  replacement: string;
+}
+
+function apis(
+  apiVersion: string,
+  kinds: string[],
+  deprecatedIn: number,
+  removedIn: number,
+  replacement: string
+): DeprecatedApi[] {
+  return kinds.map(kind => ({ apiVersion, kind, deprecatedIn, removedIn, replacement }));
+}
+
+/**
+ * APIs removed from Kubernetes since 1.16, from the upstream deprecated API
+ * migration guide. Only kinds users create are listed.
+ */
+export const DEPRECATED_APIS: DeprecatedApi[] = [
+  ...apis('extensions/v1beta1', ['Deployment', 'DaemonSet', 'ReplicaSet'], 9, 16, 'apps/v1'),
+  ...apis('extensions/v1beta1', ['NetworkPolicy'], 9, 16, 'networking.k8s.io/v1'),
+  ...apis('apps/v1beta1', ['Deployment', 'StatefulSet'], 9, 16, 'apps/v1'),
+  ...apis(
+    'apps/v1beta2',
+    ['Deployment', 'StatefulSet', 'DaemonSet', 'ReplicaSet'],
+    9,
+    16,
+    'apps/v1'
+  ),
+  ...apis('extensions/v1beta1', ['Ingress'], 14, 22, 'networking.k8s.io/v1'),
+  ...apis('networking.k8s.io/v1beta1', ['Ingress', 'IngressClass'], 19, 22, 'networking.k8s.io/v1'),
+  ...apis(
+    'admissionregistration.k8s.io/v1beta1',
+    ['MutatingWebhookConfiguration', 'ValidatingWebhookConfiguration'],
+    16,
+    22,
+    'admissionregistration.k8s.io/v1'
+  ),
+  ...apis(
+    'apiextensions.k8s.io/v1beta1',
+    ['CustomResourceDefinition'],
+    16,
+    22,
+    'apiextensions.k8s.io/v1'
+  ),
+  ...apis('apiregistration.k8s.io/v1beta1', ['APIService'], 19, 22, 'apiregistration.k8s.io/v1'),
+  ...apis(
+    'certificates.k8s.io/v1beta1',
+    ['CertificateSigningRequest'],
+    19,
+    22,
+    'certificates.k8s.io/v1'
+  ),
+  ...apis('coordination.k8s.io/v1beta1', ['Lease'], 19, 22, 'coordination.k8s.io/v1'),
+  ...apis(
+    'rbac.authorization.k8s.io/v1beta1',
+    ['ClusterRole', 'ClusterRoleBinding', 'Role', 'RoleBinding'],
+    17,
+    22,
+    'rbac.authorization.k8s.io/v1'
+  ),
+  ...apis('scheduling.k8s.io/v1beta1', ['PriorityClass'], 14, 22, 'scheduling.k8s.io/v1'),
+  ...apis(
+    'storage.k8s.io/v1beta1',
+    ['CSIDriver', 'CSINode', 'StorageClass', 'VolumeAttachment'],
+    19,
+    22,
+    'storage.k8s.io/v1'
+  ),
+  ...apis('batch/v1beta1', ['CronJob'], 21, 25, 'batch/v1'),
+  ...apis('discovery.k8s.io/v1beta1', ['EndpointSlice'], 21, 25, 'discovery.k8s.io/v1'),
+  ...apis('events.k8s.io/v1beta1', ['Event'], 22, 25, 'events.k8s.io/v1'),
+  ...apis('autoscaling/v2beta1', ['HorizontalPodAutoscaler'], 22, 25, 'autoscaling/v2'),
+  ...apis('policy/v1beta1', ['PodDisruptionBudget'], 21, 25, 'policy/v1'),
+  ...apis('policy/v1beta1', ['PodSecurityPolicy'], 21, 25, 'Pod Security Admission'),
+  ...apis('node.k8s.io/v1beta1', ['RuntimeClass'], 20, 25, 'node.k8s.io/v1'),
+  ...apis(
+    'flowcontrol.apiserver.k8s.io/v1beta1',
+    ['FlowSchema', 'PriorityLevelConfiguration'],
+    23,
+    26,
+    'flowcontrol.apiserver.k8s.io/v1'
+  ),
+  ...apis('autoscaling/v2beta2', ['HorizontalPodAutoscaler'], 23, 26, 'autoscaling/v2'),
+  ...apis('storage.k8s.io/v1beta1', ['CSIStorageCapacity'], 24, 27, 'storage.k8s.io/v1'),
+  ...apis(
+    'flowcontrol.apiserver.k8s.io/v1beta2',
+    ['FlowSchema', 'PriorityLevelConfiguration'],
+    26,
+    29,
+    'flowcontrol.apiserver.k8s.io/v1'
+  ),
+  ...apis(
+    'flowcontrol.apiserver.k8s.io/v1beta3',
+    ['FlowSchema', 'PriorityLevelConfiguration'],
+    29,
+    32,
+    'flowcontrol.apiserver.k8s.io/v1'
+  ),
+];
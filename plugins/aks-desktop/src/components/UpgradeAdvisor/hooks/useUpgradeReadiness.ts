@@ -0,0 +1,213 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { getClusterResourceIdAndGroup } from '../../../utils/azure/az-clusters';
+import {
+  type ClusterUpgradeVersion,
+  getClusterUpgradeVersions,
+} from '../../../utils/azure/az-upgrades';
+import { useNamespaceLabels } from '../../Metrics/hooks/useNamespaceLabels';
+import {
+  type ApiUsageFinding,
+  buildReadinessChecklist,
+  findBlockingPdbs,
+  findDeprecatedApiUsage,
+  type PdbBlocker,
+  type ReadinessCheck,
+} from '../utils';
+
+/** A list the scan reads; `{namespace}` is replaced with the project namespace. */
+interface ScannedList {
+  kind: string;
+  path: string;
+}
+
+/** Workload kinds in the project namespace. */
+const PROJECT_LISTS: ScannedList[] = [
+  { kind: 'Deployment', path: '/apis/apps/v1/namespaces/{namespace}/deployments' },
+  { kind: 'StatefulSet', path: '/apis/apps/v1/namespaces/{namespace}/statefulsets' },
+  { kind: 'DaemonSet', path: '/apis/apps/v1/namespaces/{namespace}/daemonsets' },
+  { kind: 'CronJob', path: '/apis/batch/v1/namespaces/{namespace}/cronjobs' },
+  { kind: 'Ingress', path: '/apis/networking.k8s.io/v1/namespaces/{namespace}/ingresses' },
+  {
+    kind: 'NetworkPolicy',
+    path: '/apis/networking.k8s.io/v1/namespaces/{namespace}/networkpolicies',
+  },
+  {
+    kind: 'HorizontalPodAutoscaler',
+    path: '/apis/autoscaling/v2/namespaces/{namespace}/horizontalpodautoscalers',
+  },
+  {
+    kind: 'PodDisruptionBudget',
+    path: '/apis/policy/v1/namespaces/{namespace}/poddisruptionbudgets',
+  },
+  { kind: 'Role', path: '/apis/rbac.authorization.k8s.io/v1/namespaces/{namespace}/roles' },
+  {
+    kind: 'RoleBinding',
+    path: '/apis/rbac.authorization.k8s.io/v1/namespaces/{namespace}/rolebindings',
+  },
+];
+
+/** Cluster-scoped kinds that affect every project. Project members may not be allowed to list them. */
+const CLUSTER_LISTS: ScannedList[] = [
+  {
+    kind: 'CustomResourceDefinition',
+    path: '/apis/apiextensions.k8s.io/v1/customresourcedefinitions',
+  },
+  {
+    kind: 'MutatingWebhookConfiguration',
+    path: '/apis/admissionregistration.k8s.io/v1/mutatingwebhookconfigurations',
+  },
+  {
+    kind: 'ValidatingWebhookConfiguration',
+    path: '/apis/admissionregistration.k8s.io/v1/validatingwebhookconfigurations',
+  },
+  { kind: 'APIService', path: '/apis/apiregistration.k8s.io/v1/apiservices' },
+  { kind: 'ClusterRole', path: '/apis/rbac.authorization.k8s.io/v1/clusterroles' },
+  { kind: 'ClusterRoleBinding', path: '/apis/rbac.authorization.k8s.io/v1/clusterrolebindings' },
+  { kind: 'PriorityClass', path: '/apis/scheduling.k8s.io/v1/priorityclasses' },
+  { kind: 'StorageClass', path: '/apis/storage.k8s.io/v1/storageclasses' },
+];
+
+/** Result returned by {@link useUpgradeReadiness}. */
+export interface UseUpgradeReadinessResult {
+  currentVersion: string | null;
+  /** Versions the control plane can be upgraded to, lowest first. */
+  upgrades: ClusterUpgradeVersion[];
+  targetVersion: string | null;
+  setTargetVersion: (version: string) => void;
+  checklist: ReadinessCheck[];
+  apiFindings: ApiUsageFinding[];
+  pdbBlockers: PdbBlocker[];
+  /** Kinds that could not be listed, e.g. cluster-scoped ones the user may not read. */
+  skippedKinds: string[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Upgrade readiness of a project: the versions its cluster can move to, and
+ * for the chosen one the deprecated or removed APIs the project and cluster
+ * still write with, and the disruption budgets that would block node drains.
+ *
+ * @param namespace - Project namespace.
+ * @param cluster - Name of target cluster.
+ */
+export function useUpgradeReadiness(
+  namespace: string | undefined,
+  cluster: string | undefined
+): UseUpgradeReadinessResult {
+  const { subscription, resourceGroupLabel } = useNamespaceLabels(namespace, cluster);
+  const [currentVersion, setCurrentVersion] = useState<string | null>(null);
+  const [upgrades, setUpgrades] = useState<ClusterUpgradeVersion[]>([]);
+  const [targetVersion, setTargetVersion] = useState<string | null>(null);
+  const [scanned, setScanned] = useState<Array<{ kind: string; items: any[] }>>([]);
+  const [skippedKinds, setSkippedKinds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequestIdRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    if (!namespace || !cluster || !subscription) return;
+    const requestId = ++latestRequestIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    const lists = [
+      ...PROJECT_LISTS.map(list => ({
+        ...list,
+        path: list.path.replace('{namespace}', namespace),
+      })),
+      ...CLUSTER_LISTS,
+    ];
+    const scan = Promise.all(
+      lists.map(async ({ kind, path }) => {
+        try {
+          const response = await clusterRequest(path, { method: 'GET', cluster });
+          return { kind, items: (response?.items ?? []) as any[] };
+        } catch {
+          return { kind, items: null };
+        }
+      })
+    );
+
+    try {
+      const resourceGroup =
+        resourceGroupLabel ??
+        (await getClusterResourceIdAndGroup(cluster, subscription))?.resourceGroup;
+      if (!resourceGroup) throw new Error('Could not find resource group for cluster');
+      const [versions, results] = await Promise.all([
+        getClusterUpgradeVersions({
+          subscriptionId: subscription,
+          resourceGroup,
+          clusterName: cluster,
+        }),
+        scan,
+      ]);
+      if (requestId !== latestRequestIdRef.current) return;
+      if (!versions.success) throw new Error(versions.error ?? 'Failed to get cluster upgrades');
+
+      const available = versions.upgrades ?? [];
+      setCurrentVersion(versions.currentVersion ?? null);
+      setUpgrades(available);
+      // Default to the newest generally available version.
+      setTargetVersion(
+        prev =>
+          (prev && available.some(u => u.version === prev) ? prev : null) ??
+          [...available].reverse().find(u => !u.isPreview)?.version ??
+          available[available.length - 1]?.version ??
+          null
+      );
+      setScanned(results.filter(r => r.items !== null) as Array<{ kind: string; items: any[] }>);
+      setSkippedKinds(results.filter(r => r.items === null).map(r => r.kind));
+    } catch (err) {
+      if (requestId !== latestRequestIdRef.current) return;
+      console.error('Failed to check upgrade readiness:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (requestId === latestRequestIdRef.current) setLoading(false);
+    }
+  }, [namespace, cluster, subscription, resourceGroupLabel]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const apiFindings = useMemo(
+    () => (targetVersion ? findDeprecatedApiUsage(scanned, targetVersion, currentVersion) : []),
+    [scanned, targetVersion, currentVersion]
+  );
+  const pdbBlockers = useMemo(
+    () => findBlockingPdbs(scanned.find(s => s.kind === 'PodDisruptionBudget')?.items ?? []),
+    [scanned]
+  );
+  const checklist = useMemo(
+    () =>
+      targetVersion
+        ? buildReadinessChecklist({
+            apiFindings,
+            pdbBlockers,
+            apiScanComplete: skippedKinds.length === 0,
+            pdbScanComplete: !skippedKinds.includes('PodDisruptionBudget'),
+          })
+        : [],
+    [targetVersion, apiFindings, pdbBlockers, skippedKinds]
+  );
+
+  return {
+    currentVersion,
+    upgrades,
+    targetVersion,
+    setTargetVersion,
+    checklist,
+    apiFindings,
+    pdbBlockers,
+    skippedKinds,
+    loading,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,176 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildReadinessChecklist,
+  findBlockingPdbs,
+  findDeprecatedApiUsage,
+  getMinorVersion,
+  getWrittenApiVersions,
+} from './utils';
+
+describe('getMinorVersion', () => {
+  it('parses 1.x versions', () => {
+    expect(getMinorVersion('1.29.4')).toBe(29);
+    expect(getMinorVersion('v1.30')).toBe(30);
+    expect(getMinorVersion('latest')).toBeNull();
+    expect(getMinorVersion(undefined)).toBeNull();
+  });
+});
+
+describe('getWrittenApiVersions', () => {
+  it('collects field manager and last-applied API versions', () => {
+    expect(
+      getWrittenApiVersions({
+        metadata: {
+          managedFields: [{ apiVersion: 'autoscaling/v2' }, { apiVersion: 'autoscaling/v2beta2' }],
+          annotations: {
+            'kubectl.kubernetes.io/last-applied-configuration': JSON.stringify({
+              apiVersion: 'autoscaling/v2beta2',
+              kind: 'HorizontalPodAutoscaler',
+            }),
+          },
+        },
+      })
+    ).toEqual(['autoscaling/v2', 'autoscaling/v2beta2']);
+  });
+
+  it('ignores an unparseable last-applied annotation', () => {
+    expect(
+      getWrittenApiVersions({
+        metadata: { annotations: { 'kubectl.kubernetes.io/last-applied-configuration': '{' } },
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('findDeprecatedApiUsage', () => {
+  const objects = [
+    {
+      kind: 'HorizontalPodAutoscaler',
+      items: [
+        {
+          metadata: {
+            name: 'web',
+            namespace: 'shop',
+            managedFields: [{ apiVersion: 'autoscaling/v2beta2' }],
+          },
+        },
+      ],
+    },
+    {
+      kind: 'FlowSchema',
+      items: [
+        {
+          metadata: {
+            name: 'probes',
+            managedFields: [{ apiVersion: 'flowcontrol.apiserver.k8s.io/v1beta3' }],
+          },
+        },
+      ],
+    },
+    {
+      kind: 'Deployment',
+      items: [{ metadata: { name: 'api', managedFields: [{ apiVersion: 'apps/v1' }] } }],
+    },
+  ];
+
+  it('flags APIs removed at or before the target version', () => {
+    const findings = findDeprecatedApiUsage(objects, '1.32.0', '1.22.0');
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        kind: 'HorizontalPodAutoscaler',
+        name: 'web',
+        namespace: 'shop',
+        apiVersion: 'autoscaling/v2beta2',
+        replacement: 'autoscaling/v2',
+        removed: true,
+      }),
+      expect.objectContaining({ kind: 'FlowSchema', name: 'probes', removed: true }),
+    ]);
+    expect(findings[1]).not.toHaveProperty('namespace');
+  });
+
+  it('reports deprecated but still served APIs as not removed', () => {
+    const findings = findDeprecatedApiUsage(objects, '1.30.1', '1.22.0');
+
+    expect(findings.map(f => [f.kind, f.removed])).toEqual([
+      ['HorizontalPodAutoscaler', true],
+      ['FlowSchema', false],
+    ]);
+  });
+
+  it('skips APIs the current version already stopped serving', () => {
+    const findings = findDeprecatedApiUsage(objects, '1.30.0', '1.29.4');
+
+    expect(findings.map(f => [f.kind, f.removed])).toEqual([['FlowSchema', false]]);
+  });
+
+  it('checks every API when the current version is unknown', () => {
+    expect(findDeprecatedApiUsage(objects, '1.30.0', null)).toHaveLength(2);
+  });
+
+  it('ignores APIs deprecated after the target version', () => {
+    expect(findDeprecatedApiUsage(objects, '1.22.0', '1.21.0')).toEqual([]);
+  });
+});
+
+describe('findBlockingPdbs', () => {
+  it('returns budgets that cover pods but allow no disruptions', () => {
+    expect(
+      findBlockingPdbs([
+        {
+          metadata: { name: 'db', namespace: 'shop' },
+          status: { expectedPods: 1, disruptionsAllowed: 0 },
+        },
+        {
+          metadata: { name: 'web', namespace: 'shop' },
+          status: { expectedPods: 3, disruptionsAllowed: 1 },
+        },
+        {
+          metadata: { name: 'unused', namespace: 'shop' },
+          status: { expectedPods: 0, disruptionsAllowed: 0 },
+        },
+      ])
+    ).toEqual([{ name: 'db', namespace: 'shop', expectedPods: 1 }]);
+  });
+});
+
+describe('buildReadinessChecklist', () => {
+  it('marks blockers and warnings', () => {
+    const [removed, deprecated, pdbs] = buildReadinessChecklist({
+      apiFindings: findDeprecatedApiUsage(
+        [
+          {
+            kind: 'CronJob',
+            items: [
+              { metadata: { name: 'nightly', managedFields: [{ apiVersion: 'batch/v1beta1' }] } },
+            ],
+          },
+        ],
+        '1.30.0',
+        '1.24.0'
+      ),
+      pdbBlockers: [],
+      apiScanComplete: true,
+      pdbScanComplete: true,
+    });
+
+    expect(removed).toEqual({ id: 'removed-apis', status: 'blocker', count: 1 });
+    expect(deprecated).toEqual({ id: 'deprecated-apis', status: 'pass', count: 0 });
+    expect(pdbs).toEqual({ id: 'disruption-budgets', status: 'pass', count: 0 });
+  });
+
+  it('reports unknown instead of pass when lists were skipped', () => {
+    const checklist = buildReadinessChecklist({
+      apiFindings: [],
+      pdbBlockers: [{ name: 'db', namespace: 'shop', expectedPods: 1 }],
+      apiScanComplete: false,
+      pdbScanComplete: true,
+    });
+
+    expect(checklist.map(c => c.status)).toEqual(['unknown', 'unknown', 'blocker']);
+  });
+});
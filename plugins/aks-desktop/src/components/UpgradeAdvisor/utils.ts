@@ -0,0 +1,155 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { DEPRECATED_APIS, type DeprecatedApi } from './deprecatedApis';
+
+/** The parts of a listed object the scan reads. */
+export interface ScannedObject {
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    annotations?: Record<string, string>;
+    managedFields?: Array<{ apiVersion?: string }>;
+  };
+}
+
+/** An object last written through an API version that is deprecated or removed in the target. */
+export interface ApiUsageFinding extends DeprecatedApi {
+  name: string;
+  namespace?: string;
+  /** True when the target version no longer serves the API; false when it is only deprecated. */
+  removed: boolean;
+}
+
+/** A PodDisruptionBudget that currently allows no evictions. */
+export interface PdbBlocker {
+  name: string;
+  namespace: string;
+  expectedPods: number;
+}
+
+export type ReadinessStatus = 'pass' | 'warning' | 'blocker' | 'unknown';
+
+export type ReadinessCheckId = 'removed-apis' | 'deprecated-apis' | 'disruption-budgets';
+
+/** One line of the readiness checklist. */
+export interface ReadinessCheck {
+  id: ReadinessCheckId;
+  status: ReadinessStatus;
+  /** Number of findings behind the status. */
+  count: number;
+}
+
+const LAST_APPLIED_ANNOTATION = 'kubectl.kubernetes.io/last-applied-configuration';
+
+/** Minor version of a `1.x[.y]` Kubernetes version, or null when it cannot be parsed. */
+export function getMinorVersion(version: string | null | undefined): number | null {
+  const match = version?.trim().match(/^v?1\.(\d+)(?:\.|$)/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * API versions an object was written with: the ones recorded by its field
+ * managers and the one in its `kubectl apply` annotation. The API server
+ * converts stored objects, so these are the only traces of old manifests.
+ */
+export function getWrittenApiVersions(object: ScannedObject): string[] {
+  const versions = new Set<string>();
+  for (const field of object.metadata?.managedFields ?? []) {
+    if (field.apiVersion) versions.add(field.apiVersion);
+  }
+  const lastApplied = object.metadata?.annotations?.[LAST_APPLIED_ANNOTATION];
+  if (lastApplied) {
+    try {
+      const apiVersion = JSON.parse(lastApplied)?.apiVersion;
+      if (typeof apiVersion === 'string') versions.add(apiVersion);
+    } catch {
+      // A hand-edited annotation is not worth failing the scan over.
+    }
+  }
+  return [...versions];
+}
+
+/**
+ * Finds objects written through APIs that the target version deprecates or
+ * no longer serves. APIs the current version already stopped serving are
+ * skipped: field managers and the `kubectl apply` annotation keep the API
+ * version of old writes, but the upgrade does not change anything for them.
+ *
+ * @param objects - Listed objects grouped by kind.
+ * @param targetVersion - Kubernetes version to upgrade to, e.g. `1.30.2`.
+ * @param currentVersion - Version the control plane runs now, or null if unknown.
+ */
+export function findDeprecatedApiUsage(
+  objects: Array<{ kind: string; items: ScannedObject[] }>,
+  targetVersion: string,
+  currentVersion: string | null
+): ApiUsageFinding[] {
+  const targetMinor = getMinorVersion(targetVersion);
+  if (targetMinor === null) return [];
+  const currentMinor = getMinorVersion(currentVersion);
+
+  const findings: ApiUsageFinding[] = [];
+  for (const { kind, items } of objects) {
+    for (const item of items) {
+      for (const apiVersion of getWrittenApiVersions(item)) {
+        const api = DEPRECATED_APIS.find(a => a.kind === kind && a.apiVersion === apiVersion);
+        if (!api || api.deprecatedIn > targetMinor) continue;
+        if (currentMinor !== null && api.removedIn <= currentMinor) continue;
+        findings.push({
+          ...api,
+          name: item.metadata?.name ?? '',
+          ...(item.metadata?.namespace ? { namespace: item.metadata.namespace } : {}),
+          removed: api.removedIn <= targetMinor,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * PodDisruptionBudgets that would stop nodes from draining: they cover pods
+ * but allow no disruptions, so every eviction during the upgrade is refused.
+ */
+export function findBlockingPdbs(
+  pdbs: Array<ScannedObject & { status?: { expectedPods?: number; disruptionsAllowed?: number } }>
+): PdbBlocker[] {
+  return pdbs
+    .filter(pdb => (pdb.status?.expectedPods ?? 0) > 0 && pdb.status?.disruptionsAllowed === 0)
+    .map(pdb => ({
+      name: pdb.metadata?.name ?? '',
+      namespace: pdb.metadata?.namespace ?? '',
+      expectedPods: pdb.status?.expectedPods ?? 0,
+    }));
+}
+
+/**
+ * Builds the readiness checklist for one target version. A check that found
+ * nothing reports `unknown` rather than `pass` when some of its lists could
+ * not be read.
+ */
+export function buildReadinessChecklist({
+  apiFindings,
+  pdbBlockers,
+  apiScanComplete,
+  pdbScanComplete,
+}: {
+  apiFindings: ApiUsageFinding[];
+  pdbBlockers: PdbBlocker[];
+  apiScanComplete: boolean;
+  pdbScanComplete: boolean;
+}): ReadinessCheck[] {
+  const apiClean: ReadinessStatus = apiScanComplete ? 'pass' : 'unknown';
+  const removed = apiFindings.filter(f => f.removed).length;
+  const deprecated = apiFindings.length - removed;
+  return [
+    { id: 'removed-apis', status: removed > 0 ? 'blocker' : apiClean, count: removed },
+    { id: 'deprecated-apis', status: deprecated > 0 ? 'warning' : apiClean, count: deprecated },
+    {
+      id: 'disruption-budgets',
+      status: pdbBlockers.length > 0 ? 'blocker' : pdbScanComplete ? 'pass' : 'unknown',
+      count: pdbBlockers.length,
+    },
+  ];
+}
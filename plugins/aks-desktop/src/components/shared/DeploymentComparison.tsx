@@ -0,0 +1,57 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { Tooltip, Typography } from '@mui/material';
+import React from 'react';
+import type { ProjectScope } from '../../utils/shared/projectScopes';
+import { useDeploymentComparison } from './hooks/useDeploymentComparison';
+import { ScopeComparisonTable } from './ScopeComparisonTable';
+
+/** Shows the tag of an image reference, or the whole reference if it has none. */
+function shortImage(image: string): string {
+  const name = image.slice(image.lastIndexOf('/') + 1);
+  return name.includes(':') || name.includes('@') ? name : image;
+}
+
+/**
+ * Side-by-side view of the Deployments of a project across its clusters and
+ * namespaces: replicas and images per scope, with rows that differ marked.
+ * Renders nothing for projects with a single scope.
+ */
+export function DeploymentComparison({ scopes }: { scopes: ProjectScope[] }) {
+  const { t } = useTranslation();
+  const { rows, loading, errors, refresh } = useDeploymentComparison(scopes);
+
+  return (
+    <ScopeComparisonTable
+      title={t('Compare across clusters and namespaces')}
+      scopes={scopes}
+      rows={rows}
+      loading={loading}
+      errors={errors}
+      refresh={refresh}
+      renderSnapshot={snapshot => (
+        <>
+          <Typography variant="body2">
+            {t('{{ready}}/{{desired}} ready', {
+              ready: snapshot.readyReplicas,
+              desired: snapshot.replicas,
+            })}
+          </Typography>
+          {snapshot.images.map((image, index) => (
+            <Tooltip key={index} title={image}>
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: 'block', fontFamily: 'monospace' }}
+              >
+                {shortImage(image)}
+              </Typography>
+            </Tooltip>
+          ))}
+        </>
+      )}
+    />
+  );
+}
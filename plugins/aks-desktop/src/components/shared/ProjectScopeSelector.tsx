@@ -0,0 +1,43 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import { MenuItem, TextField } from '@mui/material';
+import React from 'react';
+import { type ProjectScope, scopeKey } from '../../utils/shared/projectScopes';
+
+interface ProjectScopeSelectorProps {
+  scopes: ProjectScope[];
+  selected: ProjectScope;
+  onChange: (scope: ProjectScope) => void;
+}
+
+/**
+ * Dropdown for picking which (cluster, namespace) pair of a project a tab
+ * shows. Renders nothing for projects with a single namespace on a single
+ * cluster.
+ */
+export function ProjectScopeSelector({ scopes, selected, onChange }: ProjectScopeSelectorProps) {
+  const { t } = useTranslation();
+  if (scopes.length <= 1) return null;
+
+  return (
+    <TextField
+      select
+      size="small"
+      label={t('Cluster / namespace')}
+      value={scopeKey(selected)}
+      onChange={e => {
+        const scope = scopes.find(s => scopeKey(s) === e.target.value);
+        if (scope) onChange(scope);
+      }}
+      sx={{ minWidth: 240 }}
+    >
+      {scopes.map(scope => (
+        <MenuItem key={scopeKey(scope)} value={scopeKey(scope)}>
+          {t('{{namespace}} on {{cluster}}', { ...scope })}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
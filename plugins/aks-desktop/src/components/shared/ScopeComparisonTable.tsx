@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { Icon } from '@iconify/react';
+import { useTranslation } from '@kinvolk/headlamp-plugin/lib';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import React from 'react';
+import {
+  type ProjectScope,
+  type ScopeComparisonRow,
+  scopeKey,
+} from '../../utils/shared/projectScopes';
+
+interface ScopeComparisonTableProps<T> {
+  title: string;
+  scopes: ProjectScope[];
+  rows: ScopeComparisonRow<T>[];
+  loading: boolean;
+  /** Scopes that could not be read, with the reason. */
+  errors: Record<string, string>;
+  refresh: () => void;
+  /** Renders the snapshot of a Deployment in one scope. */
+  renderSnapshot: (snapshot: T) => React.ReactNode;
+  /** Row appended below the Deployments, e.g. totals per scope. */
+  summaryRow?: { label: string; cells: Record<string, React.ReactNode> };
+  /** Shown above the table, e.g. a total across all scopes. */
+  caption?: React.ReactNode;
+  /** Header of the row label column; defaults to "Deployment". */
+  rowLabel?: string;
+  /** Shown when no scope has any rows; defaults to "No deployments found." */
+  emptyText?: string;
+  /** Shown in a scope a row is missing from; defaults to "Not deployed". */
+  missingText?: string;
+}
+
+/**
+ * Table with one row per Deployment (or other item, such as an access member)
+ * and one column per (cluster, namespace) pair of a project, with rows that
+ * differ marked. Renders nothing for projects with a single scope.
+ */
+export function ScopeComparisonTable<T>({
+  title,
+  scopes,
+  rows,
+  loading,
+  errors,
+  refresh,
+  renderSnapshot,
+  summaryRow,
+  caption,
+  rowLabel,
+  emptyText,
+  missingText,
+}: ScopeComparisonTableProps<T>) {
+  const { t } = useTranslation();
+
+  if (scopes.length < 2) return null;
+
+  return (
+    <Box sx={{ mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6" component="h2">
+          {title}
+        </Typography>
+        <Tooltip title={t('Refresh')}>
+          <IconButton size="small" onClick={refresh} disabled={loading} aria-label={t('Refresh')}>
+            <Icon icon="mdi:refresh" width={20} aria-hidden="true" />
+          </IconButton>
+        </Tooltip>
+        {loading && <CircularProgress size={16} />}
+      </Box>
+
+      {Object.entries(errors).map(([key, message]) => (
+        <Alert key={key} severity="warning" sx={{ mb: 1 }}>
+          {t('Could not read {{scope}}: {{message}}', { scope: key, message })}
+        </Alert>
+      ))}
+
+      {caption}
+
+      {!loading && rows.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {emptyText ?? t('No deployments found.')}
+        </Typography>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{rowLabel ?? t('Deployment')}</TableCell>
+                {scopes.map(scope => (
+                  <TableCell key={scopeKey(scope)}>
+                    {t('{{namespace}} on {{cluster}}', { ...scope })}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.id ?? row.name}>
+                  <TableCell>
+                    {row.name}
+                    {row.differs && (
+                      <Chip label={t('Differs')} size="small" color="warning" sx={{ ml: 1 }} />
+                    )}
+                  </TableCell>
+                  {scopes.map(scope => {
+                    const snapshot = row.snapshots[scopeKey(scope)];
+                    return (
+                      <TableCell key={scopeKey(scope)}>
+                        {snapshot ? (
+                          renderSnapshot(snapshot)
+                        ) : (
+                          <Typography variant="body2" color="text.secondary">
+                            {missingText ?? t('Not deployed')}
+                          </Typography>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              {summaryRow && (
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'bold' }}>{summaryRow.label}</TableCell>
+                  {scopes.map(scope => (
+                    <TableCell key={scopeKey(scope)} sx={{ fontWeight: 'bold' }}>
+                      {summaryRow.cells[scopeKey(scope)] ?? '—'}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,39 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import {
+  buildDeploymentComparison,
+  type DeploymentComparisonRow,
+  type ProjectScope,
+} from '../../../utils/shared/projectScopes';
+import { useScopeData } from './useScopeData';
+
+/** Result returned by {@link useDeploymentComparison}. */
+export interface UseDeploymentComparisonResult {
+  rows: DeploymentComparisonRow[];
+  loading: boolean;
+  /** Scopes whose Deployments could not be read, with the reason. */
+  errors: Record<string, string>;
+  refresh: () => void;
+}
+
+/** Lists the Deployments of one scope. */
+export async function fetchScopeDeployments(scope: ProjectScope): Promise<any[]> {
+  const list = await clusterRequest(`/apis/apps/v1/namespaces/${scope.namespace}/deployments`, {
+    method: 'GET',
+    cluster: scope.cluster,
+  });
+  return list?.items ?? [];
+}
+
+/**
+ * Reads the Deployments of every scope of a project and lines them up by
+ * name. Nothing is fetched for fewer than two scopes.
+ *
+ * @param scopes - Scopes to compare.
+ */
+export function useDeploymentComparison(scopes: ProjectScope[]): UseDeploymentComparisonResult {
+  const { dataByScope, loading, errors, refresh } = useScopeData(scopes, fetchScopeDeployments);
+  return { rows: buildDeploymentComparison(scopes, dataByScope), loading, errors, refresh };
+}
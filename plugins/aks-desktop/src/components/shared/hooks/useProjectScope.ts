@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { clusterRequest } from '@kinvolk/headlamp-plugin/lib/ApiProxy';
+import { useEffect, useMemo, useState } from 'react';
+import { getProjectScopes, type ProjectScope, scopeKey } from '../../../utils/shared/projectScopes';
+
+/** Result returned by {@link useProjectScope}. */
+export interface UseProjectScopeResult {
+  /** (cluster, namespace) pairs of the project whose namespace exists. */
+  scopes: ProjectScope[];
+  /** The scope the tab currently shows. */
+  selected: ProjectScope;
+  selectScope: (scope: ProjectScope) => void;
+}
+
+/**
+ * Lists the (cluster, namespace) pairs of a project and tracks which one a
+ * tab shows. Pairs whose namespace does not exist on the cluster are dropped
+ * once checked; the first pair is selected by default.
+ *
+ * @param project - The project to list scopes for.
+ */
+export function useProjectScope(project: {
+  clusters: string[];
+  namespaces: string[];
+}): UseProjectScopeResult {
+  const clustersKey = (project.clusters ?? []).join(',');
+  const namespacesKey = (project.namespaces ?? []).join(',');
+  // Keyed on the joined names so a new project object with the same members
+  // does not re-run the existence checks.
+  const allScopes = useMemo(
+    () => getProjectScopes(project),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [clustersKey, namespacesKey]
+  );
+  const [missing, setMissing] = useState<Set<string>>(new Set());
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMissing(new Set());
+    // A single-scope project is shown as is, like before scopes existed.
+    if (allScopes.length <= 1) return;
+    let cancelled = false;
+
+    Promise.all(
+      allScopes.map(scope =>
+        clusterRequest(`/api/v1/namespaces/${scope.namespace}`, {
+          method: 'GET',
+          cluster: scope.cluster,
+        })
+          .then(() => null)
+          .catch((err: any) => {
+            const status = err?.status ?? err?.response?.status;
+            // Other failures (e.g. an unreachable cluster) keep the scope visible.
+            return status === 404 ? scopeKey(scope) : null;
+          })
+      )
+    ).then(results => {
+      if (cancelled) return;
+      setMissing(new Set(results.filter((key): key is string => key !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [allScopes]);
+
+  const existing = allScopes.filter(scope => !missing.has(scopeKey(scope)));
+  const scopes = existing.length > 0 ? existing : allScopes;
+  const selected = scopes.find(scope => scopeKey(scope) === selectedKey) ??
+    scopes[0] ?? { cluster: project.clusters?.[0] ?? '', namespace: project.namespaces?.[0] ?? '' };
+
+  return {
+    scopes,
+    selected,
+    selectScope: scope => setSelectedKey(scopeKey(scope)),
+  };
+}
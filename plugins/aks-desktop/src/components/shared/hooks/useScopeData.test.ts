@@ -0,0 +1,60 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { renderHook, waitFor } from '@testing-library/react';
+import { describe, expect, test, vi } from 'vitest';
+import type { ProjectScope } from '../../../utils/shared/projectScopes';
+import { useScopeData } from './useScopeData';
+
+const dev: ProjectScope = { cluster: 'aks-dev', namespace: 'app' };
+const prod: ProjectScope = { cluster: 'aks-prod', namespace: 'app' };
+
+describe('useScopeData', () => {
+  test('reads every scope and reports the ones that fail', async () => {
+    const fetchScope = vi.fn(async (scope: ProjectScope) => {
+      if (scope.cluster === 'aks-prod') throw new Error('forbidden');
+      return scope.cluster;
+    });
+
+    const { result } = renderHook(() => useScopeData([dev, prod], fetchScope));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.dataByScope).toEqual({ 'aks-dev/app': 'aks-dev' });
+    expect(result.current.errors).toEqual({ 'aks-prod/app': 'forbidden' });
+  });
+
+  test('fetches nothing for a single scope', () => {
+    const fetchScope = vi.fn(async () => 'data');
+
+    const { result } = renderHook(() => useScopeData([dev], fetchScope));
+
+    expect(fetchScope).not.toHaveBeenCalled();
+    expect(result.current.loading).toBe(false);
+  });
+
+  test('clears earlier results when the scopes drop below two', async () => {
+    const fetchScope = vi.fn(async (scope: ProjectScope) => scope.cluster);
+    const { result, rerender } = renderHook(({ scopes }) => useScopeData(scopes, fetchScope), {
+      initialProps: { scopes: [dev, prod] },
+    });
+    await waitFor(() => expect(Object.keys(result.current.dataByScope)).toHaveLength(2));
+
+    rerender({ scopes: [dev] });
+
+    await waitFor(() => expect(result.current.dataByScope).toEqual({}));
+    expect(result.current.errors).toEqual({});
+    expect(result.current.loading).toBe(false);
+  });
+
+  test('stops loading when the scopes drop below two mid-fetch', async () => {
+    const fetchScope = vi.fn(() => new Promise<string>(() => {}));
+    const { result, rerender } = renderHook(({ scopes }) => useScopeData(scopes, fetchScope), {
+      initialProps: { scopes: [dev, prod] },
+    });
+    await waitFor(() => expect(result.current.loading).toBe(true));
+
+    rerender({ scopes: [dev] });
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+  });
+});
@@ -0,0 +1,76 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type ProjectScope, scopeKey } from '../../../utils/shared/projectScopes';
+
+/** Result returned by {@link useScopeData}. */
+export interface UseScopeDataResult<T> {
+  /** Data of each scope that could be read, keyed by {@link scopeKey}. */
+  dataByScope: Record<string, T>;
+  loading: boolean;
+  /** Scopes that could not be read, with the reason. */
+  errors: Record<string, string>;
+  refresh: () => void;
+}
+
+/**
+ * Reads the same data from every scope of a project, for views that compare
+ * or aggregate across scopes. Nothing is fetched for fewer than two scopes,
+ * and earlier results are cleared when the scopes drop below two.
+ *
+ * @param scopes - Scopes to read.
+ * @param fetchScope - Reads one scope; must keep its identity across renders.
+ */
+export function useScopeData<T>(
+  scopes: ProjectScope[],
+  fetchScope: (scope: ProjectScope) => Promise<T>
+): UseScopeDataResult<T> {
+  const [dataByScope, setDataByScope] = useState<Record<string, T>>({});
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const latestRequestIdRef = useRef(0);
+  const scopesKey = scopes.map(scopeKey).join(',');
+
+  const fetchAll = useCallback(async () => {
+    if (scopes.length < 2) {
+      // Drop what was read for the earlier scopes; an in-flight read was
+      // already discarded by the effect cleanup and would leave `loading` set.
+      setDataByScope({});
+      setErrors({});
+      setLoading(false);
+      return;
+    }
+    const requestId = ++latestRequestIdRef.current;
+    setLoading(true);
+
+    const nextData: Record<string, T> = {};
+    const nextErrors: Record<string, string> = {};
+    await Promise.all(
+      scopes.map(async scope => {
+        const key = scopeKey(scope);
+        try {
+          nextData[key] = await fetchScope(scope);
+        } catch (err) {
+          nextErrors[key] = err instanceof Error ? err.message : 'Unknown error';
+        }
+      })
+    );
+
+    if (requestId !== latestRequestIdRef.current) return;
+    setDataByScope(nextData);
+    setErrors(nextErrors);
+    setLoading(false);
+    // scopesKey stands in for scopes, which callers rebuild on every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scopesKey, fetchScope]);
+
+  useEffect(() => {
+    fetchAll();
+    return () => {
+      latestRequestIdRef.current += 1;
+    };
+  }, [fetchAll]);
+
+  return { dataByScope, loading, errors, refresh: fetchAll };
+}
@@ -20,11 +20,14 @@ import {
 import React from 'react';
 import { Redirect } from 'react-router-dom';
 import AccessTab from './components/AccessTab/AccessTab';
+import ActivityLog from './components/ActivityLog/ActivityLog';
 import RegisterAKSClusterPage from './components/AKS/RegisterAKSClusterPage';
+import AlertsTab from './components/Alerts/AlertsTab';
 import AzureLoginPage from './components/AzureAuth/AzureLoginPage';
 import AzureProfilePage from './components/AzureAuth/AzureProfilePage';
 import ClusterCapabilityCard from './components/ClusterCapabilityCard/ClusterCapabilityCard';
 import ConfigurePipelineButton from './components/ConfigurePipeline/ConfigurePipelineButton';
+import CostCard from './components/Cost/CostCard';
 import CreateAKSProject from './components/CreateAKSProject/CreateAKSProject';
 import CreateNamespace from './components/CreateNamespace/CreateNamespace';
 import AKSProjectDeleteButton from './components/DeleteAKSProject/AKSProjectDeleteButton';
@@ -39,6 +42,8 @@ import AzureLogo from './components/Logo/Logo';
 import LogsTab from './components/LogsTab/LogsTab';
 import MetricsCard from './components/Metrics/MetricsCard';
 import MetricsTab from './components/Metrics/MetricsTab';
+import PipelinesPage from './components/Pipelines/PipelinesPage';
+import CommandTransportSettings from './components/PluginSettings/CommandTransportSettings';
 import PreviewFeaturesSettings from './components/PluginSettings/PreviewFeaturesSettings';
 import { previewFeaturesStore } from './components/PluginSettings/previewFeaturesStore';
 import TelemetrySettings from './components/PluginSettings/TelemetrySettings';
@@ -47,6 +52,7 @@ import ScalingCard from './components/Scaling/ScalingCard';
 import ScalingTab from './components/Scaling/ScalingTab';
 import TelemetryBoot from './components/TelemetryBoot';
 import { TelemetryErrorBoundary } from './components/TelemetryErrorBoundary';
+import UpgradeTab from './components/UpgradeAdvisor/UpgradeTab';
 import { setTelemetryEnabled } from './telemetry';
 import { registerReduxCallback } from './telemetry/setup';
 import type { ProjectDefinition } from './types/project';
@@ -127,6 +133,29 @@ if (Headlamp.isRunningAsApp()) {
     sidebar: 'HOME',
   });
 
+  registerSidebarEntry({
+    name: 'aks-activity-log',
+    url: '/activity-log',
+    icon: 'mdi:history',
+    parent: null,
+    label: 'Activity',
+    useClusterURL: false,
+    sidebar: 'HOME',
+  });
+
+  // Pipelines is a preview feature; toggling it takes effect on the next load.
+  if (previewFeaturesStore.get()?.githubPipelines) {
+    registerSidebarEntry({
+      name: 'aks-pipelines',
+      url: '/pipelines',
+      icon: 'mdi:pipe',
+      parent: null,
+      label: 'Pipelines',
+      useClusterURL: false,
+      sidebar: 'HOME',
+    });
+  }
+
   // Update Azure Account label based on login status
   let currentUsername: string | null = null;
 
@@ -326,6 +355,44 @@ if (Headlamp.isRunningAsApp()) {
     url: '/add-cluster-aks',
   });
 
+  registerRoute({
+    path: '/activity-log',
+    component: () => (
+      <TelemetryErrorBoundary>
+        <ActivityLog />
+      </TelemetryErrorBoundary>
+    ),
+    name: 'Activity',
+    sidebar: {
+      sidebar: 'HOME',
+      item: 'aks-activity-log',
+    },
+    exact: true,
+    noAuthRequired: true,
+    useClusterURL: false,
+  });
+
+  if (previewFeaturesStore.get()?.githubPipelines) {
+    registerRoute({
+      path: '/pipelines',
+      component: () => (
+        <TelemetryErrorBoundary>
+          <GitHubAuthProvider>
+            <PipelinesPage />
+          </GitHubAuthProvider>
+        </TelemetryErrorBoundary>
+      ),
+      name: 'Pipelines',
+      sidebar: {
+        sidebar: 'HOME',
+        item: 'aks-pipelines',
+      },
+      exact: true,
+      noAuthRequired: true,
+      useClusterURL: false,
+    });
+  }
+
   // Register route for the AKS cluster registration dialog
   registerRoute({
     path: '/add-cluster-aks',
@@ -378,9 +445,9 @@ if (Headlamp.isRunningAsApp()) {
     label: 'Logs',
     icon: 'mdi:text-box-multiple-outline',
     isEnabled: isAksProject,
-    component: ({ projectResources }) => (
+    component: ({ project, projectResources }) => (
       <TelemetryErrorBoundary>
-        <LogsTab projectResources={projectResources} />
+        <LogsTab project={project} projectResources={projectResources} />
       </TelemetryErrorBoundary>
     ),
   });
@@ -397,6 +464,18 @@ if (Headlamp.isRunningAsApp()) {
     ),
   });
 
+  registerProjectDetailsTab({
+    id: 'alerts',
+    label: 'Alerts',
+    icon: 'mdi:bell-alert',
+    isEnabled: isAksProject,
+    component: ({ project }) => (
+      <TelemetryErrorBoundary>
+        <AlertsTab project={project} />
+      </TelemetryErrorBoundary>
+    ),
+  });
+
   registerProjectDetailsTab({
     id: 'scaling',
     label: 'Scaling',
@@ -409,6 +488,30 @@ if (Headlamp.isRunningAsApp()) {
     ),
   });
 
+  registerProjectDetailsTab({
+    id: 'upgrade',
+    label: 'Upgrade',
+    icon: 'mdi:arrow-up-bold-circle-outline',
+    isEnabled: isAksProject,
+    component: ({ project }) => (
+      <TelemetryErrorBoundary>
+        <UpgradeTab project={project} />
+      </TelemetryErrorBoundary>
+    ),
+  });
+
+  registerProjectDetailsTab({
+    id: 'activity',
+    label: 'Activity',
+    icon: 'mdi:history',
+    isEnabled: isAksProject,
+    component: ({ project }) => (
+      <TelemetryErrorBoundary>
+        <ActivityLog project={project} />
+      </TelemetryErrorBoundary>
+    ),
+  });
+
   // Override built-in Access tab with Azure role assignments for ARM-managed projects
   registerProjectDetailsTab({
     id: 'headlamp-projects.tabs.access',
@@ -429,6 +532,7 @@ registerPluginSettings(
     <>
       <PreviewFeaturesSettings />
       <TelemetrySettings />
+      <CommandTransportSettings />
     </>
   ),
   false
@@ -455,6 +559,13 @@ registerProjectOverviewSection({
   component: ({ project }) => <MetricsCard project={project} />,
 });
 
+registerProjectOverviewSection({
+  id: 'cost-overview',
+  // @ts-ignore todo: there is an isEnabled prop in registerProjectOverviewSection it's just not present in the types yet. We need to push our changes to headlamp
+  isEnabled: isAksProject,
+  component: ({ project }) => <CostCard project={project} />,
+});
+
 registerProjectOverviewSection({
   id: 'pipeline-overview',
   // @ts-expect-error isEnabled exists at runtime but is missing from ProjectOverviewSection types
@@ -20,6 +20,8 @@ export interface ClusterCapabilities {
   kedaEnabled: boolean | null;
   /** Whether VPA addon is enabled */
   vpaEnabled: boolean | null;
+  /** Whether the Azure Key Vault Secrets Store CSI driver add-on is enabled */
+  keyVaultSecretsProviderEnabled?: boolean | null;
   /** Azure region (e.g. "eastus") */
   location?: string | null;
   /** AKS cluster tier (e.g. "Free", "Standard", "Premium") */
@@ -124,6 +124,51 @@ export async function getContainerRegistries(subscriptionId: string): Promise<Ac
   return result.data!;
 }
 
+/**
+ * Exchanges the Azure CLI login for a short-lived ACR access token, used to
+ * log Helm in to the registry (`az acr login --expose-token`).
+ */
+export async function getAcrAccessToken(options: {
+  registryName: string;
+  subscriptionId: string;
+}): Promise<{ success: boolean; loginServer?: string; accessToken?: string; error?: string }> {
+  const { registryName, subscriptionId } = options;
+  if (!isValidGuid(subscriptionId)) {
+    return { success: false, error: 'Invalid subscription ID format' };
+  }
+  if (!ACR_NAME_PATTERN.test(registryName)) {
+    return { success: false, error: `Invalid registry name: ${ACR_NAME_ERROR}` };
+  }
+
+  const result = await runAzCommand(
+    [
+      'acr',
+      'login',
+      '--name',
+      registryName,
+      '--subscription',
+      subscriptionId,
+      '--expose-token',
+      '--output',
+      'json',
+    ],
+    'Getting registry access token:',
+    'get registry access token',
+    (stdout: string) => {
+      const parsed = JSON.parse(stdout);
+      return {
+        loginServer: parsed.loginServer as string,
+        accessToken: parsed.accessToken as string,
+      };
+    }
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+  return { success: true, ...result.data };
+}
+
 export async function getContainerImages(
   subscriptionId: string,
   registryName?: string
@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import { describeAzActivity } from './az-activity';
+
+const SUB = '00000000-0000-0000-0000-000000000000';
+const NS_SCOPE = `/subscriptions/${SUB}/resourceGroups/rg/providers/Microsoft.ContainerService/managedClusters/aks-1/managedNamespaces/web`;
+
+describe('describeAzActivity', () => {
+  it('skips reads and session commands', () => {
+    expect(describeAzActivity(['aks', 'namespace', 'list', '--cluster-name', 'c'])).toBeNull();
+    expect(describeAzActivity(['login', '--use-device-code'])).toBeNull();
+    expect(describeAzActivity(['account', 'set', '--subscription', SUB])).toBeNull();
+  });
+
+  it('describes a managed namespace and offers its deletion as undo', () => {
+    const activity = describeAzActivity([
+      'aks',
+      'namespace',
+      'add',
+      '--cluster-name',
+      'aks-1',
+      '--resource-group',
+      'rg',
+      '--name',
+      'web',
+      '--subscription',
+      SUB,
+      '--cpu-request',
+      '500m',
+    ]);
+
+    expect(activity).toEqual({
+      operation: 'az aks namespace add',
+      target: { subscription: SUB, resourceGroup: 'rg', cluster: 'aks-1', namespace: 'web' },
+      undo: {
+        kind: 'az',
+        args: [
+          'aks',
+          'namespace',
+          'delete',
+          '--cluster-name',
+          'aks-1',
+          '--resource-group',
+          'rg',
+          '--name',
+          'web',
+          '--subscription',
+          SUB,
+          '--output',
+          'json',
+        ],
+      },
+    });
+  });
+
+  it('reads the project from a role assignment scope', () => {
+    const activity = describeAzActivity([
+      'role',
+      'assignment',
+      'create',
+      '--assignee-object-id',
+      'oid',
+      '--assignee-principal-type',
+      'User',
+      '--role',
+      'Azure Kubernetes Service RBAC Writer',
+      '--scope',
+      NS_SCOPE,
+    ]);
+
+    expect(activity?.target).toEqual({
+      subscription: SUB,
+      resourceGroup: 'rg',
+      cluster: 'aks-1',
+      namespace: 'web',
+      resource: 'Azure Kubernetes Service RBAC Writer',
+    });
+    expect(activity?.undo?.kind === 'az' && activity.undo.args).toEqual([
+      'role',
+      'assignment',
+      'delete',
+      '--assignee',
+      'oid',
+      '--role',
+      'Azure Kubernetes Service RBAC Writer',
+      '--scope',
+      NS_SCOPE,
+    ]);
+  });
+
+  it('reads the namespace from a federated credential subject', () => {
+    const activity = describeAzActivity([
+      'identity',
+      'federated-credential',
+      'create',
+      '--identity-name',
+      'id-web',
+      '--resource-group',
+      'rg',
+      '--name',
+      'fc',
+      '--subject',
+      'system:serviceaccount:web:web-sa',
+    ]);
+
+    expect(activity?.target.namespace).toBe('web');
+    expect(activity?.undo?.kind === 'az' && activity.undo.args).toContain('--yes');
+  });
+
+  it('logs operations without a known inverse without an undo', () => {
+    const activity = describeAzActivity(['aks', 'update', '--name', 'aks-1', '-g', 'rg']);
+    expect(activity).toEqual({
+      operation: 'az aks update',
+      target: { resourceGroup: 'rg', cluster: 'aks-1' },
+    });
+  });
+});
@@ -0,0 +1,146 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// Describes mutating az commands for the activity log.
+
+import type { ActivityTarget, ActivityUndo } from '../shared/activityLog';
+import { isMutatingCommand } from '../shared/commandTransport';
+
+/** Session and local CLI state; changing it touches no Azure resource. */
+const UNLOGGED_GROUPS = new Set(['login', 'logout', 'account', 'config', 'version']);
+
+function flagValue(args: string[], ...flags: string[]): string | undefined {
+  const i = args.findIndex(a => flags.includes(a));
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+/** `flag value` pairs of `args` for the given flags, in that order, skipping absent ones. */
+function copyFlags(args: string[], flags: string[]): string[] {
+  return flags.flatMap(flag => {
+    const value = flagValue(args, flag);
+    return value === undefined ? [] : [flag, value];
+  });
+}
+
+function positionals(args: string[]): string[] {
+  const end = args.findIndex(a => a.startsWith('-'));
+  return end < 0 ? args : args.slice(0, end);
+}
+
+function parseTarget(args: string[], command: string): ActivityTarget {
+  const scope = flagValue(args, '--scope') ?? '';
+  const subject = flagValue(args, '--subject') ?? '';
+  const name = flagValue(args, '--name', '-n');
+  // `--name` is the namespace for `aks namespace …`, the cluster for `aks <verb>`
+  // and the resource itself for everything else.
+  const namesNamespace = command.startsWith('aks namespace ');
+  const namesCluster = /^aks [\w-]+$/.test(command);
+
+  const target: ActivityTarget = {
+    subscription: flagValue(args, '--subscription') ?? scope.match(/subscriptions\/([^/]+)/i)?.[1],
+    resourceGroup:
+      flagValue(args, '--resource-group', '-g') ?? scope.match(/resourceGroups\/([^/]+)/i)?.[1],
+    cluster:
+      flagValue(args, '--cluster-name') ??
+      (namesCluster ? name : undefined) ??
+      scope.match(/managedClusters\/([^/]+)/i)?.[1],
+    namespace:
+      (namesNamespace ? name : undefined) ??
+      scope.match(/managedNamespaces\/([^/]+)/i)?.[1] ??
+      subject.match(/^system:serviceaccount:([^:]+):/)?.[1],
+    resource: namesNamespace || namesCluster ? undefined : name ?? flagValue(args, '--role'),
+  };
+  return Object.fromEntries(
+    Object.entries(target).filter(([, value]) => value !== undefined)
+  ) as ActivityTarget;
+}
+
+/** The command reverting `args`, for operations with a known inverse. */
+function inverseOf(command: string, args: string[]): ActivityUndo | undefined {
+  const subscription = copyFlags(args, ['--subscription']);
+  switch (command) {
+    case 'aks namespace add':
+      return {
+        kind: 'az',
+        args: [
+          'aks',
+          'namespace',
+          'delete',
+          ...copyFlags(args, ['--cluster-name', '--resource-group', '--name']),
+          ...subscription,
+          '--output',
+          'json',
+        ],
+      };
+    case 'aks nodepool add':
+      return {
+        kind: 'az',
+        args: [
+          'aks',
+          'nodepool',
+          'delete',
+          ...copyFlags(args, ['--cluster-name', '--resource-group', '--name']),
+          ...subscription,
+          '--no-wait',
+        ],
+      };
+    case 'identity create':
+      return {
+        kind: 'az',
+        args: [
+          'identity',
+          'delete',
+          ...copyFlags(args, ['--name', '--resource-group']),
+          ...subscription,
+        ],
+      };
+    case 'identity federated-credential create':
+      return {
+        kind: 'az',
+        args: [
+          'identity',
+          'federated-credential',
+          'delete',
+          ...copyFlags(args, ['--identity-name', '--resource-group', '--name']),
+          ...subscription,
+          '--yes',
+        ],
+      };
+    case 'role assignment create': {
+      const assignee = flagValue(args, '--assignee-object-id', '--assignee');
+      if (!assignee) return undefined;
+      return {
+        kind: 'az',
+        args: [
+          'role',
+          'assignment',
+          'delete',
+          '--assignee',
+          assignee,
+          ...copyFlags(args, ['--role', '--scope']),
+          ...subscription,
+        ],
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describes an `az` invocation for the activity log, or returns null for
+ * reads and session commands, which are not logged.
+ */
+export function describeAzActivity(
+  args: string[]
+): { operation: string; target: ActivityTarget; undo?: ActivityUndo } | null {
+  const command = positionals(args).join(' ');
+  if (!isMutatingCommand('az', args) || UNLOGGED_GROUPS.has(positionals(args)[0] ?? '')) {
+    return null;
+  }
+  const undo = inverseOf(command, args);
+  return {
+    operation: `az ${command}`,
+    target: parseTarget(args, command),
+    ...(undo ? { undo } : {}),
+  };
+}
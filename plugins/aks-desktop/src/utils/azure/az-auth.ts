@@ -1,6 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the Apache 2.0.
 import { LOGIN_POLL_INTERVAL_MS, LOGIN_TIMEOUT_MS } from '../constants/timing';
+import { setActivityActor } from '../shared/activityLog';
 import {
   debugLog,
   getErrorMessage,
@@ -41,6 +42,7 @@ export async function getLoginStatus(): Promise<{
 
     try {
       const account = JSON.parse(stdout);
+      setActivityActor('azure', account.user?.name);
       return {
         isLoggedIn: true,
         username: account.user?.name,
@@ -1,6 +1,9 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the Apache 2.0.
+import { recordActivity } from '../shared/activityLog';
+import { redactArgs, runWithTransport } from '../shared/commandTransport';
 import { runCommandAsync as execCommand } from '../shared/runCommandAsync';
+import { describeAzActivity } from './az-activity';
 import { getAzCommand } from './az-cli-path';
 
 // Debug flag - set to true for development/debugging, false for production
@@ -36,13 +39,38 @@ export function runCommandAsync(
   command: string,
   args: string[]
 ): Promise<{ stdout: string; stderr: string }> {
-  let actualCommand = command;
-  if (command === 'az') {
-    actualCommand = getAzCommand();
-    debugLog('[AZ-CLI] Command resolution:', command, '→', actualCommand);
-  }
-  debugLog('[AZ-CLI] Executing command:', actualCommand, 'with args:', args);
-  return execCommand(actualCommand, args);
+  return runWithTransport(command, args, async () => {
+    let actualCommand = command;
+    if (command === 'az') {
+      actualCommand = getAzCommand();
+      debugLog('[AZ-CLI] Command resolution:', command, '→', actualCommand);
+    }
+    debugLog('[AZ-CLI] Executing command:', actualCommand, 'with args:', redactArgs(args));
+    const activity = command === 'az' ? describeAzActivity(args) : null;
+    const startedAt = new Date();
+    const output = await execCommand(actualCommand, args);
+    if (activity) {
+      const { undo, ...described } = activity;
+      const failed = isAzError(output.stderr) || isExecutionFailure(output.stderr);
+      recordActivity({
+        channel: 'azure',
+        ...described,
+        args: redactArgs(args),
+        at: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime(),
+        outcome: failed ? 'failure' : 'success',
+        ...(failed ? { error: output.stderr.trim() } : undo ? { undo } : {}),
+      });
+    }
+    return output;
+  });
+}
+
+// Errors reported by the command bridge itself rather than by az.
+function isExecutionFailure(stderr: string): boolean {
+  return /^(Command exited with code|Command execution error|Failed to execute command|pluginRunCommand is not available)/.test(
+    stderr
+  );
 }
 
 export async function isAzCliInstalled(): Promise<boolean> {
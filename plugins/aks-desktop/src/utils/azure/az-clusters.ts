@@ -1,7 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the Apache 2.0.
 import type { ClusterCapabilities } from '../../types/ClusterCapabilities';
-import { debugLog, isAzError, needsRelogin, runCommandAsync } from './az-cli-core';
+import { debugLog, isAzError, needsRelogin, runAzCommand, runCommandAsync } from './az-cli-core';
 import { getClusterResourceGroupViaGraph, getClustersViaGraph } from './az-resource-graph';
 import { getSubscriptions } from './az-subscriptions';
 
@@ -185,7 +185,7 @@ export async function getClusterCapabilities(options: {
     '--name',
     clusterName,
     '--query',
-    '{sku:sku.name,tier:sku.tier,location:location,kubernetesVersion:kubernetesVersion,aadProfile:aadProfile,azureRbacEnabled:aadProfile.enableAzureRbac,networkPolicy:networkProfile.networkPolicy,networkPlugin:networkProfile.networkPlugin,prometheusEnabled:azureMonitorProfile.metrics.enabled,containerInsightsEnabled:addonProfiles.omsagent.enabled,kedaEnabled:workloadAutoScalerProfile.keda.enabled,vpaEnabled:workloadAutoScalerProfile.verticalPodAutoscaler.enabled}',
+    '{sku:sku.name,tier:sku.tier,location:location,kubernetesVersion:kubernetesVersion,aadProfile:aadProfile,azureRbacEnabled:aadProfile.enableAzureRbac,networkPolicy:networkProfile.networkPolicy,networkPlugin:networkProfile.networkPlugin,prometheusEnabled:azureMonitorProfile.metrics.enabled,containerInsightsEnabled:addonProfiles.omsagent.enabled,kedaEnabled:workloadAutoScalerProfile.keda.enabled,vpaEnabled:workloadAutoScalerProfile.verticalPodAutoscaler.enabled,keyVaultSecretsProviderEnabled:addonProfiles.azureKeyvaultSecretsProvider.enabled}',
     '--output',
     'json',
   ];
@@ -213,6 +213,7 @@ export async function getClusterCapabilities(options: {
       containerInsightsEnabled: result.containerInsightsEnabled ?? null,
       kedaEnabled: result.kedaEnabled ?? null,
       vpaEnabled: result.vpaEnabled ?? null,
+      keyVaultSecretsProviderEnabled: result.keyVaultSecretsProviderEnabled ?? null,
       location: typeof result.location === 'string' ? result.location : null,
       tier: typeof result.tier === 'string' ? result.tier : null,
       kubernetesVersion:
@@ -224,6 +225,59 @@ export async function getClusterCapabilities(options: {
   }
 }
 
+/** A node pool of an AKS cluster, reduced to what cost estimation needs. */
+export interface ClusterNodePool {
+  name: string;
+  vmSize: string;
+  count: number;
+  /** `System` or `User`. */
+  mode: string;
+}
+
+/**
+ * Lists the node pools of a cluster together with the cluster's Azure region.
+ */
+export async function getClusterNodePools(options: {
+  subscriptionId: string;
+  resourceGroup: string;
+  clusterName: string;
+}): Promise<{ success: boolean; location?: string; pools?: ClusterNodePool[]; error?: string }> {
+  const { subscriptionId, resourceGroup, clusterName } = options;
+
+  const result = await runAzCommand(
+    [
+      'aks',
+      'show',
+      '--subscription',
+      subscriptionId,
+      '--resource-group',
+      resourceGroup,
+      '--name',
+      clusterName,
+      '--query',
+      '{location:location,pools:agentPoolProfiles[].{name:name,vmSize:vmSize,count:count,mode:mode}}',
+      '--output',
+      'json',
+    ],
+    'Getting cluster node pools:',
+    'get cluster node pools',
+    (stdout: string) => JSON.parse(stdout)
+  );
+
+  if (!result.success) return { success: false, error: result.error };
+  const data = result.data as { location?: string; pools?: any[] } | undefined;
+  return {
+    success: true,
+    location: data?.location,
+    pools: (data?.pools ?? []).map(pool => ({
+      name: pool.name ?? '',
+      vmSize: pool.vmSize ?? '',
+      count: pool.count ?? 0,
+      mode: pool.mode ?? 'User',
+    })),
+  };
+}
+
 export type AddonKey = 'azure-monitor-metrics' | 'keda' | 'vpa';
 
 // Enable one or more cluster addons in a single az aks update command
@@ -101,6 +101,52 @@ export async function createFederatedCredential(options: {
   });
 }
 
+/**
+ * Creates a federated credential for GitHub Actions jobs that run in a GitHub
+ * environment. Such jobs present an `environment:<name>` OIDC subject instead of
+ * the branch subject trusted by {@link createFederatedCredential}.
+ */
+export async function createEnvironmentFederatedCredential(options: {
+  identityName: string;
+  resourceGroup: string;
+  subscriptionId: string;
+  repoOwner: string;
+  repoName: string;
+  environment: string;
+}): Promise<{ success: boolean; error?: string }> {
+  const { identityName, resourceGroup, subscriptionId, repoOwner, repoName, environment } = options;
+
+  if (!isValidGuid(subscriptionId)) {
+    return { success: false, error: 'Invalid subscription ID format' };
+  }
+  if (!isValidAzResourceName(identityName) || !isValidAzResourceName(resourceGroup)) {
+    return { success: false, error: 'Invalid identity name or resource group format' };
+  }
+  if (
+    !isValidGitHubName(repoOwner) ||
+    !isValidGitHubName(repoName) ||
+    !isValidGitHubName(environment)
+  ) {
+    return { success: false, error: 'Invalid GitHub owner, repo name, or environment format' };
+  }
+
+  const subject = `repo:${repoOwner}/${repoName}:environment:${environment}`;
+  const credentialName = `GitHubActions-${repoName}-${environment}`.replace(/\./g, '-');
+  if (!isValidAzResourceName(credentialName)) {
+    return { success: false, error: 'Invalid federated credential name format' };
+  }
+
+  return runFederatedCredentialCreate({
+    identityName,
+    resourceGroup,
+    subscriptionId,
+    credentialName,
+    issuer: 'https://token.actions.githubusercontent.com',
+    subject,
+    logPrefix: 'Creating environment federated credential:',
+  });
+}
+
 export async function getAksOidcIssuerUrl(options: {
   clusterName: string;
   resourceGroup: string;
@@ -0,0 +1,121 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// Azure Key Vault CLI functions.
+
+import { isValidGuid, runAzCommand } from './az-cli-core';
+
+/** Key Vault names: 3-24 alphanumerics and hyphens, starting with a letter. */
+export const KEY_VAULT_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9-]{1,22}[a-zA-Z0-9]$/;
+
+/** A Key Vault the signed-in user can see. */
+export interface KeyVaultInfo {
+  id: string;
+  name: string;
+  resourceGroup: string;
+  tenantId: string;
+  vaultUri: string;
+  /**
+   * Whether the vault authorizes data access with Azure RBAC. Vaults using
+   * access policies need a policy for the workload identity instead of a role.
+   */
+  rbacAuthorization: boolean;
+}
+
+/** A secret of a Key Vault; values are never read. */
+export interface KeyVaultSecretInfo {
+  name: string;
+  enabled: boolean;
+  contentType?: string;
+}
+
+/**
+ * Lists the Key Vaults of a subscription.
+ */
+export async function listKeyVaults(
+  subscriptionId: string
+): Promise<{ success: boolean; vaults?: KeyVaultInfo[]; error?: string }> {
+  if (!isValidGuid(subscriptionId)) {
+    return { success: false, error: 'Invalid subscription ID format' };
+  }
+
+  const result = await runAzCommand<KeyVaultInfo[]>(
+    [
+      'keyvault',
+      'list',
+      '--subscription',
+      subscriptionId,
+      '--resource-type',
+      'vault',
+      '--query',
+      '[].{id:id,name:name,resourceGroup:resourceGroup,tenantId:properties.tenantId,vaultUri:properties.vaultUri,rbacAuthorization:properties.enableRbacAuthorization}',
+      '--output',
+      'json',
+    ],
+    'Listing key vaults:',
+    'list key vaults',
+    stdout =>
+      (JSON.parse(stdout || '[]') as any[]).map(
+        (v): KeyVaultInfo => ({
+          id: v.id,
+          name: v.name,
+          resourceGroup: v.resourceGroup,
+          tenantId: v.tenantId ?? '',
+          vaultUri: v.vaultUri ?? '',
+          rbacAuthorization: v.rbacAuthorization === true,
+        })
+      )
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+  return { success: true, vaults: result.data };
+}
+
+/**
+ * Lists the secrets of a Key Vault. Needs the "Key Vault Secrets User" role
+ * (or a list access policy) on the vault; values are not returned.
+ */
+export async function listKeyVaultSecrets(options: {
+  vaultName: string;
+  subscriptionId: string;
+}): Promise<{ success: boolean; secrets?: KeyVaultSecretInfo[]; error?: string }> {
+  const { vaultName, subscriptionId } = options;
+  if (!isValidGuid(subscriptionId)) {
+    return { success: false, error: 'Invalid subscription ID format' };
+  }
+  if (!KEY_VAULT_NAME_PATTERN.test(vaultName)) {
+    return { success: false, error: 'Invalid key vault name' };
+  }
+
+  const result = await runAzCommand<KeyVaultSecretInfo[]>(
+    [
+      'keyvault',
+      'secret',
+      'list',
+      '--vault-name',
+      vaultName,
+      '--subscription',
+      subscriptionId,
+      '--query',
+      '[].{name:name,enabled:attributes.enabled,contentType:contentType}',
+      '--output',
+      'json',
+    ],
+    'Listing key vault secrets:',
+    `list secrets of key vault ${vaultName}`,
+    stdout =>
+      (JSON.parse(stdout || '[]') as any[]).map(
+        (s): KeyVaultSecretInfo => ({
+          name: s.name,
+          enabled: s.enabled !== false,
+          contentType: s.contentType ?? undefined,
+        })
+      )
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+  return { success: true, secrets: result.data };
+}
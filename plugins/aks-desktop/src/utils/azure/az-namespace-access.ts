@@ -30,9 +30,18 @@ export async function createNamespaceRoleAssignment(options: {
   assigneeObjectId: string;
   role: string;
   subscriptionId?: string;
+  /** Kind of principal being assigned. Defaults to `User`. */
+  principalType?: 'User' | 'Group';
 }): Promise<{ success: boolean; stdout: string; stderr: string; error?: string }> {
-  const { clusterName, resourceGroup, namespaceName, assigneeObjectId, role, subscriptionId } =
-    options;
+  const {
+    clusterName,
+    resourceGroup,
+    namespaceName,
+    assigneeObjectId,
+    role,
+    subscriptionId,
+    principalType = 'User',
+  } = options;
 
   // Strip quotes from role if present (they may have been added for Windows)
   let cleanRole = role.trim();
@@ -111,7 +120,7 @@ export async function createNamespaceRoleAssignment(options: {
       '--assignee-object-id',
       assigneeObjectId,
       '--assignee-principal-type',
-      'User',
+      principalType,
       '--role',
       finalRole,
       '--scope',
@@ -163,6 +172,122 @@ export async function createNamespaceRoleAssignment(options: {
   }
 }
 
+/**
+ * Removes role assignments of a principal on a managed namespace. Only the
+ * given role is removed when `role` is set; otherwise every role the
+ * principal holds at the namespace scope is removed.
+ */
+export async function deleteNamespaceRoleAssignments(options: {
+  clusterName: string;
+  resourceGroup: string;
+  namespaceName: string;
+  assigneeObjectId: string;
+  role?: string;
+  subscriptionId?: string;
+}): Promise<{ success: boolean; stdout: string; stderr: string; error?: string }> {
+  const { clusterName, resourceGroup, namespaceName, assigneeObjectId, role, subscriptionId } =
+    options;
+
+  try {
+    const namespaceArgs = [
+      'aks',
+      'namespace',
+      'show',
+      '--cluster-name',
+      clusterName,
+      '--resource-group',
+      resourceGroup,
+      '--name',
+      namespaceName,
+      '--query',
+      'id',
+      '--output',
+      'tsv',
+    ];
+
+    if (subscriptionId) {
+      namespaceArgs.push('--subscription', subscriptionId);
+    }
+
+    debugLog('Getting namespace resource ID for role removal:', 'az', namespaceArgs.join(' '));
+
+    const { stdout: namespaceStdout, stderr: namespaceStderr } = await runCommandAsync(
+      'az',
+      namespaceArgs
+    );
+
+    if (namespaceStderr && needsRelogin(namespaceStderr)) {
+      return {
+        success: false,
+        stdout: namespaceStdout,
+        stderr: namespaceStderr,
+        error: 'Azure login required',
+      };
+    }
+
+    const namespaceResourceId = namespaceStdout.trim();
+    if ((namespaceStderr && isAzError(namespaceStderr)) || !namespaceResourceId) {
+      return {
+        success: false,
+        stdout: namespaceStdout,
+        stderr: namespaceStderr,
+        error: 'Failed to resolve namespace',
+      };
+    }
+
+    const roleArgs = [
+      'role',
+      'assignment',
+      'delete',
+      '--assignee',
+      assigneeObjectId,
+      '--scope',
+      namespaceResourceId,
+    ];
+
+    if (role) {
+      roleArgs.push('--role', quoteForPlatform(role.trim()));
+    }
+
+    if (subscriptionId) {
+      roleArgs.push('--subscription', subscriptionId);
+    }
+
+    debugLog('Deleting role assignments:', 'az', roleArgs.join(' '));
+
+    const { stdout: roleStdout, stderr: roleStderr } = await runCommandAsync('az', roleArgs);
+
+    if (roleStderr && needsRelogin(roleStderr)) {
+      return {
+        success: false,
+        stdout: roleStdout,
+        stderr: roleStderr,
+        error: 'Azure login required',
+      };
+    }
+
+    if (roleStderr && isAzError(roleStderr)) {
+      debugLog('Failed to delete role assignments:', roleStderr);
+      return {
+        success: false,
+        stdout: roleStdout,
+        stderr: roleStderr,
+        error: 'Failed to delete role assignment',
+      };
+    }
+
+    return { success: true, stdout: roleStdout, stderr: roleStderr };
+  } catch (error) {
+    debugLog('Failed to delete role assignments:', error);
+    return {
+      success: false,
+      stdout: '',
+      stderr: '',
+      error: 'Failed to delete role assignment',
+    };
+  }
+}
+
 export async function verifyNamespaceAccess(options: {
   clusterName: string;
   resourceGroup: string;
@@ -322,6 +447,7 @@ export async function verifyNamespaceAccess(options: {
 
 /** Interface for a single Azure role assignment on a managed namespace. */
 export interface NamespaceRoleAssignment {
+  principalId: string | null;
   principalName: string | null;
   principalType: string | null;
   roleDefinitionName: string;
@@ -397,7 +523,7 @@ export async function listNamespaceRoleAssignments(options: {
       '--scope',
       namespaceResourceId,
       '--query',
-      '[].{principalName:principalName,principalType:principalType,roleDefinitionName:roleDefinitionName,scope:scope}',
+      '[].{principalId:principalId,principalName:principalName,principalType:principalType,roleDefinitionName:roleDefinitionName,scope:scope}',
       '--output',
       'json',
     ];
@@ -0,0 +1,239 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRunAzCommand = vi.fn();
+vi.mock('./az-cli-core', () => ({
+  runAzCommand: (...args: unknown[]) => mockRunAzCommand(...args),
+  debugLog: vi.fn(),
+  isValidGuid: (s: string) => /^[0-9a-f-]{36}$/.test(s),
+}));
+
+import {
+  canManageNodePools,
+  listNodePoolDetails,
+  parseNodePoolTaint,
+  scaleNodePool,
+  updateNodePoolAutoscaler,
+} from './az-nodepools';
+
+const CLUSTER = {
+  subscriptionId: '11111111-2222-3333-4444-555555555555',
+  resourceGroup: 'my-rg',
+  clusterName: 'my-aks',
+};
+
+describe('parseNodePoolTaint', () => {
+  it('should parse taints with and without a value', () => {
+    expect(parseNodePoolTaint('sku=gpu:NoSchedule')).toEqual({
+      key: 'sku',
+      value: 'gpu',
+      effect: 'NoSchedule',
+    });
+    expect(parseNodePoolTaint('CriticalAddonsOnly:NoSchedule')).toEqual({
+      key: 'CriticalAddonsOnly',
+      effect: 'NoSchedule',
+    });
+    expect(parseNodePoolTaint('not a taint')).toBeNull();
+  });
+});
+
+describe('listNodePoolDetails', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should parse pools from the CLI output', async () => {
+    mockRunAzCommand.mockImplementation(async (_args, _label, _ctx, parse) => ({
+      success: true,
+      data: parse(
+        JSON.stringify([
+          {
+            name: 'gpu',
+            mode: 'User',
+            vmSize: 'Standard_NC6s_v3',
+            count: 2,
+            osType: 'Linux',
+            enableAutoScaling: true,
+            minCount: 1,
+            maxCount: 4,
+            nodeTaints: ['sku=gpu:NoSchedule'],
+            nodeLabels: { workload: 'ml' },
+            availabilityZones: ['1', '2'],
+            provisioningState: 'Succeeded',
+            powerState: { code: 'Running' },
+          },
+        ])
+      ),
+    }));
+
+    const result = await listNodePoolDetails(CLUSTER);
+
+    expect(result.pools).toEqual([
+      {
+        name: 'gpu',
+        mode: 'User',
+        vmSize: 'Standard_NC6s_v3',
+        count: 2,
+        osType: 'Linux',
+        autoscaling: true,
+        minCount: 1,
+        maxCount: 4,
+        taints: [{ key: 'sku', value: 'gpu', effect: 'NoSchedule' }],
+        labels: { workload: 'ml' },
+        zones: ['1', '2'],
+        provisioningState: 'Succeeded',
+        powerState: 'Running',
+      },
+    ]);
+    expect(mockRunAzCommand.mock.calls[0][0]).toEqual([
+      'aks',
+      'nodepool',
+      'list',
+      '--cluster-name',
+      'my-aks',
+      '--resource-group',
+      'my-rg',
+      '--subscription',
+      CLUSTER.subscriptionId,
+      '--output',
+      'json',
+    ]);
+  });
+
+  it('should reject an invalid subscription ID without running az', async () => {
+    const result = await listNodePoolDetails({ ...CLUSTER, subscriptionId: 'nope' });
+
+    expect(result).toEqual({ success: false, error: 'Invalid subscription ID format' });
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('scaleNodePool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRunAzCommand.mockResolvedValue({ success: true });
+  });
+
+  it('should scale the pool without waiting', async () => {
+    const result = await scaleNodePool({ ...CLUSTER, poolName: 'gpu', nodeCount: 3 });
+
+    expect(result).toEqual({ success: true });
+    const args = mockRunAzCommand.mock.calls[0][0];
+    expect(args.slice(0, 5)).toEqual(['aks', 'nodepool', 'scale', '--name', 'gpu']);
+    expect(args).toEqual(expect.arrayContaining(['--node-count', '3', '--no-wait']));
+  });
+
+  it('should reject invalid pool names and counts', async () => {
+    expect(await scaleNodePool({ ...CLUSTER, poolName: 'GPU pool', nodeCount: 3 })).toEqual({
+      success: false,
+      error: 'Invalid node pool name',
+    });
+    expect((await scaleNodePool({ ...CLUSTER, poolName: 'gpu', nodeCount: 1.5 })).success).toBe(
+      false
+    );
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('updateNodePoolAutoscaler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRunAzCommand.mockResolvedValue({ success: true });
+  });
+
+  it('should enable the autoscaler when it was off', async () => {
+    await updateNodePoolAutoscaler({
+      ...CLUSTER,
+      poolName: 'gpu',
+      wasEnabled: false,
+      enabled: true,
+      minCount: 1,
+      maxCount: 5,
+    });
+
+    expect(mockRunAzCommand.mock.calls[0][0]).toEqual(
+      expect.arrayContaining([
+        '--enable-cluster-autoscaler',
+        '--min-count',
+        '1',
+        '--max-count',
+        '5',
+      ])
+    );
+  });
+
+  it('should update the bounds when the autoscaler was on', async () => {
+    await updateNodePoolAutoscaler({
+      ...CLUSTER,
+      poolName: 'gpu',
+      wasEnabled: true,
+      enabled: true,
+      minCount: 2,
+      maxCount: 6,
+    });
+
+    expect(mockRunAzCommand.mock.calls[0][0]).toContain('--update-cluster-autoscaler');
+  });
+
+  it('should disable the autoscaler', async () => {
+    await updateNodePoolAutoscaler({
+      ...CLUSTER,
+      poolName: 'gpu',
+      wasEnabled: true,
+      enabled: false,
+    });
+
+    expect(mockRunAzCommand.mock.calls[0][0]).toContain('--disable-cluster-autoscaler');
+  });
+
+  it('should reject a minimum above the maximum', async () => {
+    const result = await updateNodePoolAutoscaler({
+      ...CLUSTER,
+      poolName: 'gpu',
+      wasEnabled: false,
+      enabled: true,
+      minCount: 5,
+      maxCount: 2,
+    });
+
+    expect(result.success).toBe(false);
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('canManageNodePools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const withPermissions = (permissions: unknown) =>
+    mockRunAzCommand.mockImplementation(async (_args, _label, _ctx, parse) => ({
+      success: true,
+      data: parse(JSON.stringify(permissions)),
+    }));
+
+  it('should allow wildcard actions', async () => {
+    withPermissions([{ actions: ['Microsoft.ContainerService/*'], notActions: [] }]);
+
+    expect(await canManageNodePools(CLUSTER)).toEqual({ success: true, allowed: true });
+  });
+
+  it('should deny actions excluded by notActions', async () => {
+    withPermissions([
+      {
+        actions: ['*'],
+        notActions: ['Microsoft.ContainerService/managedClusters/agentPools/*'],
+      },
+    ]);
+
+    expect(await canManageNodePools(CLUSTER)).toEqual({ success: true, allowed: false });
+  });
+
+  it('should deny read-only roles', async () => {
+    withPermissions([{ actions: ['*/read'], notActions: [] }]);
+
+    expect(await canManageNodePools(CLUSTER)).toEqual({ success: true, allowed: false });
+  });
+});
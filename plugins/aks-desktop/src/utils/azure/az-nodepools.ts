@@ -0,0 +1,250 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// AKS node pool CLI functions: details, scaling and autoscaler bounds.
+
+import { isValidGuid, runAzCommand } from './az-cli-core';
+
+/** Node pool names: lowercase alphanumerics, starting with a letter, at most 12 characters. */
+export const NODE_POOL_NAME_PATTERN = /^[a-z][a-z0-9]{0,11}$/;
+
+/** Largest node count AKS accepts for a single pool. */
+export const MAX_NODE_POOL_COUNT = 1000;
+
+/** Label AKS puts on every node with the name of its pool. */
+export const AGENT_POOL_LABEL = 'kubernetes.azure.com/agentpool';
+
+/** ARM action needed to scale a pool or change its autoscaler. */
+const AGENT_POOL_WRITE_ACTION = 'Microsoft.ContainerService/managedClusters/agentPools/write';
+
+/** A Kubernetes taint as AKS reports it, e.g. `sku=gpu:NoSchedule`. */
+export interface NodePoolTaint {
+  key: string;
+  value?: string;
+  effect: string;
+}
+
+/** A node pool of an AKS cluster with its scheduling-relevant settings. */
+export interface NodePoolDetails {
+  name: string;
+  /** `System` or `User`. */
+  mode: string;
+  vmSize: string;
+  count: number;
+  osType: string;
+  autoscaling: boolean;
+  minCount?: number;
+  maxCount?: number;
+  taints: NodePoolTaint[];
+  /** Labels AKS applies to every node of the pool, besides its own `kubernetes.azure.com/*` ones. */
+  labels: Record<string, string>;
+  zones: string[];
+  provisioningState: string;
+  powerState: string;
+}
+
+type ClusterRef = { subscriptionId: string; resourceGroup: string; clusterName: string };
+
+/** Parses a taint in `key=value:Effect` or `key:Effect` form. */
+export function parseNodePoolTaint(taint: string): NodePoolTaint | null {
+  const match = taint.match(/^([^=:]+)(?:=([^:]*))?:(\w+)$/);
+  if (!match) return null;
+  return {
+    key: match[1],
+    ...(match[2] !== undefined ? { value: match[2] } : {}),
+    effect: match[3],
+  };
+}
+
+function validateClusterRef(options: ClusterRef): string | null {
+  if (!isValidGuid(options.subscriptionId)) return 'Invalid subscription ID format';
+  if (!options.resourceGroup || !options.clusterName) return 'Cluster not specified';
+  return null;
+}
+
+function clusterArgs(options: ClusterRef): string[] {
+  return [
+    '--cluster-name',
+    options.clusterName,
+    '--resource-group',
+    options.resourceGroup,
+    '--subscription',
+    options.subscriptionId,
+  ];
+}
+
+/**
+ * Lists the node pools of a cluster with their VM size, counts, autoscaler
+ * bounds, taints, labels and zones.
+ */
+export async function listNodePoolDetails(
+  options: ClusterRef
+): Promise<{ success: boolean; pools?: NodePoolDetails[]; error?: string }> {
+  const invalid = validateClusterRef(options);
+  if (invalid) return { success: false, error: invalid };
+
+  const result = await runAzCommand<NodePoolDetails[]>(
+    ['aks', 'nodepool', 'list', ...clusterArgs(options), '--output', 'json'],
+    'Listing node pools:',
+    'list node pools',
+    stdout =>
+      (JSON.parse(stdout || '[]') as any[]).map(
+        (pool): NodePoolDetails => ({
+          name: pool.name ?? '',
+          mode: pool.mode ?? 'User',
+          vmSize: pool.vmSize ?? '',
+          count: pool.count ?? 0,
+          osType: pool.osType ?? 'Linux',
+          autoscaling: pool.enableAutoScaling === true,
+          ...(typeof pool.minCount === 'number' ? { minCount: pool.minCount } : {}),
+          ...(typeof pool.maxCount === 'number' ? { maxCount: pool.maxCount } : {}),
+          taints: ((pool.nodeTaints ?? []) as string[])
+            .map(parseNodePoolTaint)
+            .filter((taint): taint is NodePoolTaint => taint !== null),
+          labels: pool.nodeLabels ?? {},
+          zones: pool.availabilityZones ?? [],
+          provisioningState: pool.provisioningState ?? 'Unknown',
+          powerState: pool.powerState?.code ?? 'Unknown',
+        })
+      )
+  );
+
+  if (!result.success) return { success: false, error: result.error };
+  return { success: true, pools: result.data };
+}
+
+function isValidCount(count: number): boolean {
+  return Number.isInteger(count) && count >= 0 && count <= MAX_NODE_POOL_COUNT;
+}
+
+/**
+ * Sets the node count of a pool without the cluster autoscaler. Returns once
+ * the operation is accepted; the pool shows `Scaling` until it completes.
+ */
+export async function scaleNodePool(
+  options: ClusterRef & { poolName: string; nodeCount: number }
+): Promise<{ success: boolean; error?: string }> {
+  const invalid = validateClusterRef(options);
+  if (invalid) return { success: false, error: invalid };
+  if (!NODE_POOL_NAME_PATTERN.test(options.poolName)) {
+    return { success: false, error: 'Invalid node pool name' };
+  }
+  if (!isValidCount(options.nodeCount)) {
+    return { success: false, error: `Node count must be between 0 and ${MAX_NODE_POOL_COUNT}` };
+  }
+
+  const result = await runAzCommand(
+    [
+      'aks',
+      'nodepool',
+      'scale',
+      '--name',
+      options.poolName,
+      ...clusterArgs(options),
+      '--node-count',
+      String(options.nodeCount),
+      '--no-wait',
+    ],
+    'Scaling node pool:',
+    'scale node pool'
+  );
+  return result.success ? { success: true } : { success: false, error: result.error };
+}
+
+/**
+ * Turns the cluster autoscaler of a pool on or off, or changes its bounds.
+ *
+ * @param options.wasEnabled - Whether the autoscaler is currently on; decides
+ *   between `--enable-cluster-autoscaler` and `--update-cluster-autoscaler`.
+ */
+export async function updateNodePoolAutoscaler(
+  options: ClusterRef & {
+    poolName: string;
+    wasEnabled: boolean;
+    enabled: boolean;
+    minCount?: number;
+    maxCount?: number;
+  }
+): Promise<{ success: boolean; error?: string }> {
+  const invalid = validateClusterRef(options);
+  if (invalid) return { success: false, error: invalid };
+  if (!NODE_POOL_NAME_PATTERN.test(options.poolName)) {
+    return { success: false, error: 'Invalid node pool name' };
+  }
+
+  const args = ['aks', 'nodepool', 'update', '--name', options.poolName, ...clusterArgs(options)];
+  if (options.enabled) {
+    const { minCount, maxCount } = options;
+    if (minCount === undefined || maxCount === undefined) {
+      return { success: false, error: 'Minimum and maximum node counts are required' };
+    }
+    if (!isValidCount(minCount) || !isValidCount(maxCount)) {
+      return { success: false, error: `Node counts must be between 0 and ${MAX_NODE_POOL_COUNT}` };
+    }
+    if (minCount > maxCount) {
+      return { success: false, error: 'Minimum node count must not exceed the maximum' };
+    }
+    args.push(
+      options.wasEnabled ? '--update-cluster-autoscaler' : '--enable-cluster-autoscaler',
+      '--min-count',
+      String(minCount),
+      '--max-count',
+      String(maxCount)
+    );
+  } else {
+    args.push('--disable-cluster-autoscaler');
+  }
+  args.push('--no-wait');
+
+  const result = await runAzCommand(args, 'Updating node pool autoscaler:', 'update node pool');
+  return result.success ? { success: true } : { success: false, error: result.error };
+}
+
+/** Whether an ARM permission pattern such as `Microsoft.ContainerService/*` covers an action. */
+function matchesAction(pattern: string, action: string): boolean {
+  const regex = new RegExp(
+    `^${pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+      .join('.*')}$`,
+    'i'
+  );
+  return regex.test(action);
+}
+
+/**
+ * Whether the signed-in user may write node pools of the cluster, from the
+ * effective permissions ARM reports for the cluster.
+ */
+export async function canManageNodePools(
+  options: ClusterRef
+): Promise<{ success: boolean; allowed?: boolean; error?: string }> {
+  const invalid = validateClusterRef(options);
+  if (invalid) return { success: false, error: invalid };
+
+  const clusterId = `/subscriptions/${options.subscriptionId}/resourceGroups/${options.resourceGroup}/providers/Microsoft.ContainerService/managedClusters/${options.clusterName}`;
+  const result = await runAzCommand<Array<{ actions?: string[]; notActions?: string[] }>>(
+    [
+      'rest',
+      '--method',
+      'get',
+      '--url',
+      `https://management.azure.com${clusterId}/providers/Microsoft.Authorization/permissions?api-version=2022-04-01`,
+      '--query',
+      'value',
+      '--output',
+      'json',
+    ],
+    'Checking node pool permissions:',
+    'check node pool permissions',
+    stdout => JSON.parse(stdout || '[]')
+  );
+
+  if (!result.success) return { success: false, error: result.error };
+  // Each entry comes from one role; the action must be allowed by a role that does not exclude it.
+  const allowed = (result.data ?? []).some(
+    permission =>
+      (permission.actions ?? []).some(a => matchesAction(a, AGENT_POOL_WRITE_ACTION)) &&
+      !(permission.notActions ?? []).some(a => matchesAction(a, AGENT_POOL_WRITE_ACTION))
+  );
+  return { success: true, allowed };
+}
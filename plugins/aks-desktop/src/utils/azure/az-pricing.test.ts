@@ -0,0 +1,70 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRunAzCommand = vi.fn();
+vi.mock('./az-cli-core', () => ({
+  runAzCommand: (...args: unknown[]) => mockRunAzCommand(...args),
+}));
+
+import { getVmRetailPrices } from './az-pricing';
+
+const linuxPrice = (armSkuName: string, retailPrice: number) => ({
+  armSkuName,
+  retailPrice,
+  type: 'Consumption',
+  unitOfMeasure: '1 Hour',
+  productName: 'Virtual Machines Dv5 Series',
+  skuName: armSkuName.replace('Standard_', ''),
+});
+
+describe('getVmRetailPrices', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('follows NextPageLink until the last page', async () => {
+    const nextPage = 'https://prices.azure.com/api/retail/prices?$skip=100';
+    mockRunAzCommand
+      .mockResolvedValueOnce({
+        success: true,
+        data: {
+          Items: [
+            linuxPrice('Standard_D2s_v5', 0.096),
+            { ...linuxPrice('Standard_D2s_v5', 0.188), productName: 'Virtual Machines Windows' },
+          ],
+          NextPageLink: nextPage,
+        },
+      })
+      .mockResolvedValueOnce({
+        success: true,
+        data: { Items: [linuxPrice('Standard_D4s_v5', 0.192)], NextPageLink: null },
+      });
+
+    const result = await getVmRetailPrices({
+      region: 'eastus',
+      vmSizes: ['Standard_D2s_v5', 'Standard_D4s_v5'],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      prices: { Standard_D2s_v5: 0.096, Standard_D4s_v5: 0.192 },
+    });
+    expect(mockRunAzCommand).toHaveBeenCalledTimes(2);
+    expect(mockRunAzCommand.mock.calls[1][0]).toContain(nextPage);
+  });
+
+  it('fails when a later page cannot be read', async () => {
+    mockRunAzCommand
+      .mockResolvedValueOnce({
+        success: true,
+        data: { Items: [], NextPageLink: 'https://prices.azure.com/api/retail/prices?$skip=100' },
+      })
+      .mockResolvedValueOnce({ success: false, error: 'Failed to get VM retail prices: 429' });
+
+    const result = await getVmRetailPrices({ region: 'eastus', vmSizes: ['Standard_D2s_v5'] });
+
+    expect(result).toEqual({ success: false, error: 'Failed to get VM retail prices: 429' });
+  });
+});
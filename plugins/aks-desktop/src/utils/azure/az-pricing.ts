@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// Azure Retail Prices API lookups for VM sizes.
+
+import { runAzCommand } from './az-cli-core';
+
+const RETAIL_PRICES_URL = 'https://prices.azure.com/api/retail/prices';
+
+const REGION_PATTERN = /^[a-z0-9]+$/;
+const VM_SIZE_PATTERN = /^Standard_[A-Za-z0-9_]+$/;
+
+/**
+ * Returns whether a retail price item is the Linux pay-as-you-go hourly price
+ * of a VM, as opposed to Windows, Spot, Low Priority or reservation prices.
+ */
+function isLinuxOnDemandPrice(item: any): boolean {
+  return (
+    item?.type === 'Consumption' &&
+    item?.unitOfMeasure === '1 Hour' &&
+    typeof item?.retailPrice === 'number' &&
+    !/Windows/i.test(item?.productName ?? '') &&
+    !/Spot|Low Priority/i.test(item?.skuName ?? '')
+  );
+}
+
+/**
+ * Looks up the Linux pay-as-you-go hourly prices of VM sizes in a region from
+ * the public Azure Retail Prices API. The API needs no Azure credentials;
+ * `az rest` is used so requests go through the same proxy settings as every
+ * other Azure call.
+ *
+ * @param options.region - ARM region name, e.g. `eastus`.
+ * @param options.vmSizes - ARM SKU names, e.g. `Standard_D4s_v5`.
+ * @returns Hourly prices in USD keyed by VM size. Sizes without a price are omitted.
+ */
+export async function getVmRetailPrices(options: {
+  region: string;
+  vmSizes: string[];
+}): Promise<{ success: boolean; prices?: Record<string, number>; error?: string }> {
+  const { region, vmSizes } = options;
+  if (!REGION_PATTERN.test(region)) return { success: false, error: 'Invalid region name' };
+  if (vmSizes.length === 0) return { success: true, prices: {} };
+  if (!vmSizes.every(size => VM_SIZE_PATTERN.test(size))) {
+    return { success: false, error: 'Invalid VM size name' };
+  }
+
+  const skuFilter = vmSizes.map(size => `armSkuName eq '${size}'`).join(' or ');
+  const filter =
+    `serviceName eq 'Virtual Machines' and priceType eq 'Consumption' ` +
+    `and armRegionName eq '${region}' and (${skuFilter})`;
+
+  // The API returns 100 items a page, and each size has several meters
+  // (Linux, Windows, Spot, Low Priority…), so every page must be read.
+  const items: any[] = [];
+  let url: string | null = `${RETAIL_PRICES_URL}?$filter=${encodeURIComponent(filter)}`;
+  while (url) {
+    const result = await runAzCommand(
+      ['rest', '--method', 'get', '--skip-authorization-header', '--url', url, '--output', 'json'],
+      'Getting VM retail prices:',
+      'get VM retail prices',
+      (stdout: string) => JSON.parse(stdout)
+    );
+    if (!result.success) return { success: false, error: result.error };
+    const page = result.data as any;
+    items.push(...(page?.Items ?? []));
+    url = typeof page?.NextPageLink === 'string' && page.NextPageLink ? page.NextPageLink : null;
+  }
+
+  const prices: Record<string, number> = {};
+  for (const item of items) {
+    if (!isLinuxOnDemandPrice(item)) continue;
+    // Several meters can match one size; keep the lowest on-demand price.
+    const current = prices[item.armSkuName];
+    if (current === undefined || item.retailPrice < current) {
+      prices[item.armSkuName] = item.retailPrice;
+    }
+  }
+  return { success: true, prices };
+}
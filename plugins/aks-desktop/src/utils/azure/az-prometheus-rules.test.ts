@@ -0,0 +1,196 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRunAzCommand = vi.fn();
+vi.mock('./az-cli-core', () => ({
+  runAzCommand: (...args: unknown[]) => mockRunAzCommand(...args),
+  debugLog: vi.fn(),
+  isValidGuid: (s: string) => /^[0-9a-f-]{36}$/.test(s),
+}));
+
+import {
+  createPrometheusRuleGroup,
+  deletePrometheusRuleGroup,
+  getClusterPrometheusWorkspace,
+  listPrometheusRuleGroups,
+} from './az-prometheus-rules';
+
+const SUBSCRIPTION = '11111111-2222-3333-4444-555555555555';
+const WORKSPACE =
+  '/subscriptions/11111111-2222-3333-4444-555555555555/resourceGroups/my-rg/providers/microsoft.monitor/accounts/my-amw';
+
+describe('listPrometheusRuleGroups', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should parse rule groups from the CLI output', async () => {
+    mockRunAzCommand.mockImplementation(async (_args, _label, _ctx, parse) => ({
+      success: true,
+      data: parse(
+        JSON.stringify([
+          {
+            id: '/x/NodeRecordingRulesRuleGroup-my-aks',
+            name: 'NodeRecordingRulesRuleGroup-my-aks',
+            location: 'eastus',
+            clusterName: 'my-aks',
+            scopes: [WORKSPACE],
+            rules: [{ record: 'instance:node_cpu:rate', expression: 'x' }],
+          },
+        ])
+      ),
+    }));
+
+    const result = await listPrometheusRuleGroups({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'my-rg',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.groups).toHaveLength(1);
+    expect(result.groups![0].scopes).toEqual([WORKSPACE]);
+    expect(mockRunAzCommand.mock.calls[0][0]).toEqual([
+      'alerts-management',
+      'prometheus-rule-group',
+      'list',
+      '--resource-group',
+      'my-rg',
+      '--subscription',
+      SUBSCRIPTION,
+      '--output',
+      'json',
+    ]);
+  });
+
+  it('should reject an invalid subscription ID without running the CLI', async () => {
+    const result = await listPrometheusRuleGroups({
+      subscriptionId: 'not-a-guid',
+      resourceGroup: 'my-rg',
+    });
+
+    expect(result).toEqual({ success: false, error: 'Invalid subscription ID format' });
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('getClusterPrometheusWorkspace', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return the workspace of the cluster's existing rule group", async () => {
+    mockRunAzCommand.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          name: 'other',
+          clusterName: 'other-aks',
+          location: 'westus',
+          scopes: ['/other'],
+          rules: [],
+        },
+        { name: 'mine', clusterName: 'my-aks', location: 'eastus', scopes: [WORKSPACE], rules: [] },
+      ],
+    });
+
+    const result = await getClusterPrometheusWorkspace({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'my-rg',
+      clusterName: 'my-aks',
+    });
+
+    expect(result).toEqual({ success: true, scope: WORKSPACE, location: 'eastus' });
+  });
+
+  it('should explain that Managed Prometheus is not enabled when no group matches', async () => {
+    mockRunAzCommand.mockResolvedValue({ success: true, data: [] });
+
+    const result = await getClusterPrometheusWorkspace({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'my-rg',
+      clusterName: 'my-aks',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Managed Prometheus');
+  });
+});
+
+describe('createPrometheusRuleGroup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRunAzCommand.mockResolvedValue({ success: true });
+  });
+
+  const baseOptions = {
+    subscriptionId: SUBSCRIPTION,
+    resourceGroup: 'my-rg',
+    name: 'high-error-rate',
+    location: 'eastus',
+    clusterName: 'my-aks',
+    scope: WORKSPACE,
+    namespace: 'team-a',
+    rules: [{ alert: 'high-error-rate', expression: 'up == 0', for: 'PT5M', severity: 2 }],
+  };
+
+  it('should pass the rules as JSON and tag the group with the namespace', async () => {
+    const result = await createPrometheusRuleGroup(baseOptions);
+
+    expect(result).toEqual({ success: true, error: undefined });
+    const args: string[] = mockRunAzCommand.mock.calls[0][0];
+    expect(args.slice(0, 3)).toEqual(['alerts-management', 'prometheus-rule-group', 'create']);
+    expect(args[args.indexOf('--scopes') + 1]).toBe(WORKSPACE);
+    expect(args[args.indexOf('--cluster-name') + 1]).toBe('my-aks');
+    expect(args[args.indexOf('--interval') + 1]).toBe('PT1M');
+    expect(args[args.indexOf('--tags') + 1]).toBe('aks-desktop-namespace=team-a');
+    expect(JSON.parse(args[args.indexOf('--rules') + 1])).toEqual(baseOptions.rules);
+    expect(args).not.toContain('--description');
+  });
+
+  it('should reject an invalid namespace', async () => {
+    const result = await createPrometheusRuleGroup({ ...baseOptions, namespace: 'Team_A' });
+
+    expect(result).toEqual({ success: false, error: 'Invalid Kubernetes namespace format' });
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+
+  it('should reject an empty rule list', async () => {
+    const result = await createPrometheusRuleGroup({ ...baseOptions, rules: [] });
+
+    expect(result.success).toBe(false);
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('deletePrometheusRuleGroup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should delete without prompting', async () => {
+    mockRunAzCommand.mockResolvedValue({ success: true });
+
+    const result = await deletePrometheusRuleGroup({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'my-rg',
+      name: 'high-error-rate',
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockRunAzCommand.mock.calls[0][0]).toContain('--yes');
+  });
+
+  it('should surface CLI errors', async () => {
+    mockRunAzCommand.mockResolvedValue({ success: false, error: 'AuthorizationFailed' });
+
+    const result = await deletePrometheusRuleGroup({
+      subscriptionId: SUBSCRIPTION,
+      resourceGroup: 'my-rg',
+      name: 'high-error-rate',
+    });
+
+    expect(result).toEqual({ success: false, error: 'AuthorizationFailed' });
+  });
+});
@@ -0,0 +1,239 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// Azure Managed Prometheus rule group CLI functions.
+
+import { K8S_DNS_LABEL_PATTERN } from '../kubernetes/k8sNames';
+import { isValidGuid, runAzCommand } from './az-cli-core';
+import { isValidAzResourceName } from './az-validation';
+
+/**
+ * ARM tag recording which project namespace a rule group belongs to. Rule groups
+ * are cluster-wide resources, so the tag is what scopes them to a project.
+ */
+export const PROMETHEUS_RULE_NAMESPACE_TAG = 'aks-desktop-namespace';
+
+/** A Prometheus alerting rule as stored in a `Microsoft.AlertsManagement/prometheusRuleGroups` resource. */
+export interface PrometheusAlertRule {
+  alert: string;
+  expression: string;
+  /** ISO 8601 duration the expression must hold before firing, e.g. `PT5M`. */
+  for?: string;
+  /** Azure Monitor alert severity, 0 (critical) to 4 (verbose). */
+  severity?: number;
+  enabled?: boolean;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+}
+
+/** A Prometheus rule group resource. Recording rules are listed but not edited by AKS desktop. */
+export interface PrometheusRuleGroup {
+  id: string;
+  name: string;
+  location: string;
+  clusterName?: string;
+  description?: string;
+  enabled?: boolean;
+  /** Evaluation interval as an ISO 8601 duration. */
+  interval?: string;
+  /** Azure Monitor workspace resource IDs the group evaluates against. */
+  scopes: string[];
+  rules: (PrometheusAlertRule & { record?: string })[];
+  tags?: Record<string, string>;
+}
+
+function validateScope(subscriptionId: string, resourceGroup: string): string | null {
+  if (!isValidGuid(subscriptionId)) return 'Invalid subscription ID format';
+  if (!isValidAzResourceName(resourceGroup)) return 'Invalid resource group name format';
+  return null;
+}
+
+/**
+ * Lists the Prometheus rule groups in a resource group.
+ */
+export async function listPrometheusRuleGroups(options: {
+  subscriptionId: string;
+  resourceGroup: string;
+}): Promise<{ success: boolean; groups?: PrometheusRuleGroup[]; error?: string }> {
+  const { subscriptionId, resourceGroup } = options;
+  const validationError = validateScope(subscriptionId, resourceGroup);
+  if (validationError) return { success: false, error: validationError };
+
+  const result = await runAzCommand(
+    [
+      'alerts-management',
+      'prometheus-rule-group',
+      'list',
+      '--resource-group',
+      resourceGroup,
+      '--subscription',
+      subscriptionId,
+      '--output',
+      'json',
+    ],
+    'Listing Prometheus rule groups:',
+    'list Prometheus rule groups',
+    (stdout: string) => {
+      if (!stdout.trim()) return [];
+      const parsed = JSON.parse(stdout);
+      return (Array.isArray(parsed) ? parsed : []).map(
+        (g: any): PrometheusRuleGroup => ({
+          id: g.id,
+          name: g.name,
+          location: g.location,
+          clusterName: g.clusterName,
+          description: g.description,
+          enabled: g.enabled,
+          interval: g.interval,
+          scopes: g.scopes ?? [],
+          rules: g.rules ?? [],
+          tags: g.tags ?? undefined,
+        })
+      );
+    }
+  );
+
+  if (!result.success) return { success: false, error: result.error };
+  return { success: true, groups: result.data ?? [] };
+}
+
+/**
+ * Finds the Azure Monitor workspace a cluster sends metrics to, using the
+ * recording rule groups AKS creates when Managed Prometheus is enabled.
+ * New alert rule groups must target the same workspace and location.
+ */
+export async function getClusterPrometheusWorkspace(options: {
+  subscriptionId: string;
+  resourceGroup: string;
+  clusterName: string;
+}): Promise<{ success: boolean; scope?: string; location?: string; error?: string }> {
+  const list = await listPrometheusRuleGroups(options);
+  if (!list.success) return { success: false, error: list.error };
+
+  const group = list.groups?.find(g => g.clusterName === options.clusterName && g.scopes[0]);
+  if (!group) {
+    return {
+      success: false,
+      error:
+        `No Azure Monitor workspace found for cluster '${options.clusterName}'. ` +
+        'Ensure Azure Monitor Metrics (Managed Prometheus) is enabled for the cluster.',
+    };
+  }
+  return { success: true, scope: group.scopes[0], location: group.location };
+}
+
+/**
+ * Creates or replaces a Prometheus rule group holding alert rules for a project namespace.
+ * The group is tagged with the namespace so it can be listed per project.
+ */
+export async function createPrometheusRuleGroup(options: {
+  subscriptionId: string;
+  resourceGroup: string;
+  name: string;
+  location: string;
+  clusterName: string;
+  /** Azure Monitor workspace resource ID. */
+  scope: string;
+  namespace: string;
+  rules: PrometheusAlertRule[];
+  description?: string;
+  /** Evaluation interval as an ISO 8601 duration. Defaults to one minute. */
+  interval?: string;
+}): Promise<{ success: boolean; error?: string }> {
+  const {
+    subscriptionId,
+    resourceGroup,
+    name,
+    location,
+    clusterName,
+    scope,
+    namespace,
+    rules,
+    description,
+    interval = 'PT1M',
+  } = options;
+
+  const validationError = validateScope(subscriptionId, resourceGroup);
+  if (validationError) return { success: false, error: validationError };
+  if (!isValidAzResourceName(name)) {
+    return { success: false, error: 'Invalid rule group name format' };
+  }
+  if (!isValidAzResourceName(clusterName)) {
+    return { success: false, error: 'Invalid cluster name format' };
+  }
+  if (!K8S_DNS_LABEL_PATTERN.test(namespace)) {
+    return { success: false, error: 'Invalid Kubernetes namespace format' };
+  }
+  if (rules.length === 0) {
+    return { success: false, error: 'A rule group needs at least one rule' };
+  }
+
+  const args = [
+    'alerts-management',
+    'prometheus-rule-group',
+    'create',
+    '--name',
+    name,
+    '--resource-group',
+    resourceGroup,
+    '--subscription',
+    subscriptionId,
+    '--location',
+    location,
+    '--cluster-name',
+    clusterName,
+    '--scopes',
+    scope,
+    '--interval',
+    interval,
+    '--rules',
+    JSON.stringify(rules),
+    '--tags',
+    `${PROMETHEUS_RULE_NAMESPACE_TAG}=${namespace}`,
+    '--output',
+    'json',
+  ];
+  if (description) {
+    args.push('--description', description);
+  }
+
+  const result = await runAzCommand(
+    args,
+    'Creating Prometheus rule group:',
+    `create Prometheus rule group (${name})`
+  );
+  return { success: result.success, error: result.error };
+}
+
+/**
+ * Deletes a Prometheus rule group.
+ */
+export async function deletePrometheusRuleGroup(options: {
+  subscriptionId: string;
+  resourceGroup: string;
+  name: string;
+}): Promise<{ success: boolean; error?: string }> {
+  const { subscriptionId, resourceGroup, name } = options;
+  const validationError = validateScope(subscriptionId, resourceGroup);
+  if (validationError) return { success: false, error: validationError };
+  if (!isValidAzResourceName(name)) {
+    return { success: false, error: 'Invalid rule group name format' };
+  }
+
+  const result = await runAzCommand(
+    [
+      'alerts-management',
+      'prometheus-rule-group',
+      'delete',
+      '--name',
+      name,
+      '--resource-group',
+      resourceGroup,
+      '--subscription',
+      subscriptionId,
+      '--yes',
+    ],
+    'Deleting Prometheus rule group:',
+    `delete Prometheus rule group (${name})`
+  );
+  return { success: result.success, error: result.error };
+}
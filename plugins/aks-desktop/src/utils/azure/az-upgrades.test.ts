@@ -0,0 +1,104 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockRunAzCommand = vi.fn();
+vi.mock('./az-cli-core', () => ({
+  runAzCommand: (...args: unknown[]) => mockRunAzCommand(...args),
+  debugLog: vi.fn(),
+  isValidGuid: (s: string) => /^[0-9a-f-]{36}$/.test(s),
+}));
+
+import { compareVersions, getClusterUpgradeVersions } from './az-upgrades';
+
+const CLUSTER = {
+  subscriptionId: '11111111-2222-3333-4444-555555555555',
+  resourceGroup: 'my-rg',
+  clusterName: 'my-aks',
+};
+
+describe('getClusterUpgradeVersions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should parse and sort the control plane upgrades', async () => {
+    mockRunAzCommand.mockImplementation(async (_args, _label, _ctx, parse) => ({
+      success: true,
+      data: parse(
+        JSON.stringify({
+          controlPlaneProfile: {
+            kubernetesVersion: '1.29.4',
+            upgrades: [
+              { kubernetesVersion: '1.30.10', isPreview: null },
+              { kubernetesVersion: '1.30.2' },
+              { kubernetesVersion: '1.29.9', isPreview: true },
+            ],
+          },
+        })
+      ),
+    }));
+
+    const result = await getClusterUpgradeVersions(CLUSTER);
+
+    expect(result).toEqual({
+      success: true,
+      currentVersion: '1.29.4',
+      upgrades: [
+        { version: '1.29.9', isPreview: true },
+        { version: '1.30.2', isPreview: false },
+        { version: '1.30.10', isPreview: false },
+      ],
+    });
+    expect(mockRunAzCommand.mock.calls[0][0]).toEqual([
+      'aks',
+      'get-upgrades',
+      '--name',
+      'my-aks',
+      '--resource-group',
+      'my-rg',
+      '--subscription',
+      CLUSTER.subscriptionId,
+      '--output',
+      'json',
+    ]);
+  });
+
+  it('should return an empty list when no upgrades are available', async () => {
+    mockRunAzCommand.mockImplementation(async (_args, _label, _ctx, parse) => ({
+      success: true,
+      data: parse(
+        JSON.stringify({ controlPlaneProfile: { kubernetesVersion: '1.31.1', upgrades: null } })
+      ),
+    }));
+
+    const result = await getClusterUpgradeVersions(CLUSTER);
+
+    expect(result.upgrades).toEqual([]);
+  });
+
+  it('should pass CLI errors through', async () => {
+    mockRunAzCommand.mockResolvedValue({ success: false, error: 'Cluster not found' });
+
+    expect(await getClusterUpgradeVersions(CLUSTER)).toEqual({
+      success: false,
+      error: 'Cluster not found',
+    });
+  });
+
+  it('should reject an invalid subscription ID without running az', async () => {
+    const result = await getClusterUpgradeVersions({ ...CLUSTER, subscriptionId: 'nope' });
+
+    expect(result.success).toBe(false);
+    expect(mockRunAzCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should compare numerically part by part', () => {
+    expect(compareVersions('1.30.10', '1.30.2')).toBeGreaterThan(0);
+    expect(compareVersions('1.29', '1.29.0')).toBe(0);
+    expect(compareVersions('1.28.15', '1.29.0')).toBeLessThan(0);
+  });
+});
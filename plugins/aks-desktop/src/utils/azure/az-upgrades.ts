@@ -0,0 +1,72 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// AKS upgrade CLI functions: available control plane versions.
+
+import { isValidGuid, runAzCommand } from './az-cli-core';
+
+/** A Kubernetes version the cluster's control plane can be upgraded to. */
+export interface ClusterUpgradeVersion {
+  version: string;
+  isPreview: boolean;
+}
+
+/**
+ * Lists the versions the cluster's control plane can be upgraded to, lowest
+ * first, along with the version it runs now.
+ */
+export async function getClusterUpgradeVersions(options: {
+  subscriptionId: string;
+  resourceGroup: string;
+  clusterName: string;
+}): Promise<{
+  success: boolean;
+  currentVersion?: string;
+  upgrades?: ClusterUpgradeVersion[];
+  error?: string;
+}> {
+  if (!isValidGuid(options.subscriptionId)) {
+    return { success: false, error: 'Invalid subscription ID format' };
+  }
+  if (!options.resourceGroup || !options.clusterName) {
+    return { success: false, error: 'Cluster not specified' };
+  }
+
+  const result = await runAzCommand<{ currentVersion: string; upgrades: ClusterUpgradeVersion[] }>(
+    [
+      'aks',
+      'get-upgrades',
+      '--name',
+      options.clusterName,
+      '--resource-group',
+      options.resourceGroup,
+      '--subscription',
+      options.subscriptionId,
+      '--output',
+      'json',
+    ],
+    'Getting cluster upgrades:',
+    'get cluster upgrades',
+    stdout => {
+      const profile = JSON.parse(stdout || '{}').controlPlaneProfile ?? {};
+      const upgrades = ((profile.upgrades ?? []) as any[])
+        .filter(u => typeof u?.kubernetesVersion === 'string')
+        .map(u => ({ version: u.kubernetesVersion as string, isPreview: u.isPreview === true }))
+        .sort((a, b) => compareVersions(a.version, b.version));
+      return { currentVersion: profile.kubernetesVersion ?? '', upgrades };
+    }
+  );
+
+  if (!result.success || !result.data) return { success: false, error: result.error };
+  return { success: true, ...result.data };
+}
+
+/** Compares dotted numeric versions such as `1.29.4`; missing parts count as 0. */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
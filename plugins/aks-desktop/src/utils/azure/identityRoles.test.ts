@@ -45,6 +45,20 @@ describe('computeRequiredRoles', () => {
       ]);
     });
 
+    it('grants Key Vault Secrets User on each referenced Key Vault', () => {
+      const keyVaultResourceId =
+        '/subscriptions/12345678-1234-1234-1234-123456789abc/resourceGroups/my-rg/providers/Microsoft.KeyVault/vaults/kv-app';
+      const roles = computeRequiredRoles({
+        ...baseContext,
+        keyVaultResourceIds: [keyVaultResourceId],
+      });
+
+      expect(roles).toEqual([
+        { role: 'Azure Kubernetes Service Cluster User Role', scope: clusterScope },
+        { role: 'Key Vault Secrets User', scope: keyVaultResourceId },
+      ]);
+    });
+
     it('includes AKS RBAC Writer when azureRbacEnabled is true', () => {
       const roles = computeRequiredRoles({ ...baseContext, azureRbacEnabled: true });
 
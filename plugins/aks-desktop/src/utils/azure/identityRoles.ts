@@ -9,12 +9,15 @@ const ACR_TASKS_CONTRIBUTOR = 'Container Registry Tasks Contributor';
 const AKS_CLUSTER_USER = 'Azure Kubernetes Service Cluster User Role';
 const AKS_RBAC_WRITER = 'Azure Kubernetes Service RBAC Writer';
 const AKS_NAMESPACE_USER = 'Azure Kubernetes Service Namespace User';
+const KEY_VAULT_SECRETS_USER = 'Key Vault Secrets User';
 
 interface IdentityRoleContextBase {
   subscriptionId: string;
   resourceGroup: string;
   clusterName: string;
   acrResourceId?: string;
+  /** Key Vaults whose secrets the workload reads through the Secrets Store CSI driver. */
+  keyVaultResourceIds?: string[];
 }
 
 interface NormalNamespaceRoleContext extends IdentityRoleContextBase {
@@ -53,6 +56,9 @@ export type IdentityRoleContext = NormalNamespaceRoleContext | ManagedNamespaceR
  *   - Container Registry Tasks Contributor → ACR scope (if ACR provided)
  *   - AKS RBAC Writer → managed namespace scope
  *   - AKS Namespace User → managed namespace scope
+ *
+ * Both:
+ *   - Key Vault Secrets User → each Key Vault scope (if Key Vaults provided)
  */
 export function computeRequiredRoles(ctx: IdentityRoleContext): RoleAssignment[] {
   const roles: RoleAssignment[] = [];
@@ -85,5 +91,9 @@ export function computeRequiredRoles(ctx: IdentityRoleContext): RoleAssignment[]
     }
   }
 
+  for (const keyVaultResourceId of ctx.keyVaultResourceIds ?? []) {
+    roles.push({ role: KEY_VAULT_SECRETS_USER, scope: keyVaultResourceId });
+  }
+
   return roles;
 }
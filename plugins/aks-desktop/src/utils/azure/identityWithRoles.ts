@@ -28,6 +28,8 @@ export interface EnsureIdentityWithRolesConfig {
   clusterName: string;
   /** Full Azure resource ID of the ACR. Omit to skip ACR roles. */
   acrResourceId?: string;
+  /** Key Vaults the identity reads secrets from. */
+  keyVaultResourceIds?: string[];
   /** Whether the target namespace is a managed namespace. Must be resolved before calling. */
   isManagedNamespace: boolean;
   /** Name of the managed namespace (required if isManagedNamespace is true). */
@@ -64,6 +66,7 @@ export async function ensureIdentityWithRoles(
     identityName,
     clusterName,
     acrResourceId,
+    keyVaultResourceIds,
     isManagedNamespace,
     namespaceName,
     azureRbacEnabled,
@@ -107,6 +110,7 @@ export async function ensureIdentityWithRoles(
         resourceGroup,
         clusterName,
         acrResourceId,
+        keyVaultResourceIds,
         isManagedNamespace: true,
         managedNamespaceResourceId: nsResult.resourceId,
       });
@@ -116,6 +120,7 @@ export async function ensureIdentityWithRoles(
       resourceGroup,
       clusterName,
       acrResourceId,
+      keyVaultResourceIds,
       isManagedNamespace: false,
       azureRbacEnabled,
     });
@@ -88,6 +88,7 @@ export async function assignRolesToNamespace(
           assigneeObjectId,
           role,
           subscriptionId,
+          principalType: assignment.principalType,
         });
 
         if (!roleResult.success) {
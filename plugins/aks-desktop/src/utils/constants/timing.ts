@@ -10,9 +10,6 @@ export const METRICS_REFRESH_INTERVAL_MS = 30_000;
 /** Default Prometheus query range for overview cards (seconds — 5 min). */
 export const PROMETHEUS_QUERY_RANGE_SECONDS = 300;
 
-/** Extended Prometheus query range for detailed chart views (seconds — 2 hours). */
-export const PROMETHEUS_CHART_RANGE_SECONDS = 7_200;
-
 /** Default Prometheus query step (seconds). */
 export const PROMETHEUS_STEP_SECONDS = 60;
 
@@ -30,3 +27,12 @@ export const PROFILE_REDIRECT_DELAY_MS = 500;
 
 /** Default timeout for Azure CLI login flow (ms). */
 export const LOGIN_TIMEOUT_MS = 300_000;
+
+/** How often the log explorer re-reads container logs while following (ms). */
+export const LOG_EXPLORER_REFRESH_INTERVAL_MS = 5_000;
+
+/** How often the Scaling views re-read KEDA ScaledObjects (ms). */
+export const KEDA_REFRESH_INTERVAL_MS = 15_000;
+
+/** How often the right-sizing view re-reads VPA recommendations (ms). */
+export const VPA_REFRESH_INTERVAL_MS = 30_000;
@@ -28,12 +28,15 @@ vi.mock('libsodium-wrappers', () => {
 });
 
 const mockOctokit = {
-  users: { getAuthenticated: vi.fn() },
+  users: { getAuthenticated: vi.fn(), getByUsername: vi.fn() },
   repos: {
     get: vi.fn(),
     getContent: vi.fn(),
     createOrUpdateFileContents: vi.fn(),
     listForAuthenticatedUser: vi.fn(),
+    createOrUpdateEnvironment: vi.fn(),
+    listDeployments: vi.fn(),
+    listDeploymentStatuses: vi.fn(),
   },
   git: {
     getRef: vi.fn(),
@@ -58,6 +61,9 @@ const mockOctokit = {
     createWorkflowDispatch: vi.fn(),
     getRepoPublicKey: vi.fn(),
     createOrUpdateRepoSecret: vi.fn(),
+    downloadJobLogsForWorkflowRun: vi.fn(),
+    reRunWorkflow: vi.fn(),
+    reRunWorkflowFailedJobs: vi.fn(),
   },
   checks: {
     listForRef: vi.fn(),
@@ -77,16 +83,21 @@ import {
   createBranch,
   createIssue,
   createOctokitClient,
+  createOrUpdateEnvironment,
   createOrUpdateFile,
   createOrUpdateRepoSecret,
   createPullRequest,
   deleteBranch,
   dispatchWorkflow,
+  downloadWorkflowJobLogs,
   findDockerfiles,
   findLinkedPullRequest,
   getCurrentUser,
   getDefaultBranchSha,
+  getFileContent,
+  getFileWithSha,
   getIssue,
+  getLiveEnvironmentDeployment,
   getPullRequest,
   getRepo,
   getRepoPublicKey,
@@ -94,9 +105,11 @@ import {
   getWorkflowRun,
   listIssueComments,
   listPullRequests,
+  listRepoFiles,
   listUserRepos,
   listWorkflowRunJobs,
   listWorkflowRuns,
+  rerunWorkflowRun,
   setRepoSecrets,
 } from './github-api';
 
@@ -1075,6 +1088,7 @@ describe('github-api', () => {
               conclusion: 'success',
               number: 1,
               started_at: null,
+              completed_at: null,
             },
             {
               name: 'Build',
@@ -1082,6 +1096,7 @@ describe('github-api', () => {
               conclusion: 'success',
               number: 2,
               started_at: null,
+              completed_at: null,
             },
           ],
         },
@@ -1355,4 +1370,220 @@ describe('github-api', () => {
       expect(result).toEqual({ paths: ['Dockerfile'], truncated: true });
     });
   });
+
+  describe('listRepoFiles', () => {
+    it('should list files under the directory only', async () => {
+      mockOctokit.git.getTree.mockResolvedValue({
+        data: {
+          tree: [
+            { path: 'deploy/overlays/prod/kustomization.yaml', type: 'blob' },
+            { path: 'deploy/base/deployment.yaml', type: 'blob' },
+            { path: 'deploy/base', type: 'tree' },
+            { path: 'deployment.yaml', type: 'blob' },
+          ],
+          truncated: false,
+        },
+      });
+
+      const result = await listRepoFiles(mockOctokit as never, 'owner', 'repo', 'main', '/deploy/');
+      expect(result).toEqual({
+        paths: ['deploy/base/deployment.yaml', 'deploy/overlays/prod/kustomization.yaml'],
+        truncated: false,
+      });
+    });
+
+    it('should propagate errors', async () => {
+      mockOctokit.git.getTree.mockRejectedValue(new Error('Server Error'));
+
+      await expect(
+        listRepoFiles(mockOctokit as never, 'owner', 'repo', 'main', 'deploy')
+      ).rejects.toThrow('Failed to list files under deploy in owner/repo');
+    });
+  });
+
+  describe('getFileContent', () => {
+    it('should decode base64 file content', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: { type: 'file', content: 'bmFtZTogY2Fmw6kK' },
+      });
+
+      const result = await getFileContent(mockOctokit as never, 'owner', 'repo', 'a.yaml', 'main');
+      expect(result).toBe('name: café\n');
+      expect(mockOctokit.repos.getContent).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        path: 'a.yaml',
+        ref: 'main',
+      });
+    });
+
+    it('should reject directories', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({ data: [] });
+
+      await expect(
+        getFileContent(mockOctokit as never, 'owner', 'repo', 'deploy', 'main')
+      ).rejects.toThrow('Failed to read deploy in owner/repo');
+    });
+  });
+
+  describe('getFileWithSha', () => {
+    it('should return the decoded content and blob sha', async () => {
+      mockOctokit.repos.getContent.mockResolvedValue({
+        data: { type: 'file', content: 'bmFtZTogY2Fmw6kK', sha: 'blob1' },
+      });
+
+      await expect(
+        getFileWithSha(mockOctokit as never, 'owner', 'repo', 'a.yaml', 'main')
+      ).resolves.toEqual({ content: 'name: café\n', sha: 'blob1' });
+    });
+
+    it('should return null for a missing file', async () => {
+      const notFoundError = new Error('Not Found');
+      Object.assign(notFoundError, { status: 404 });
+      mockOctokit.repos.getContent.mockRejectedValue(notFoundError);
+
+      await expect(
+        getFileWithSha(mockOctokit as never, 'owner', 'repo', 'a.yaml', 'main')
+      ).resolves.toBeNull();
+    });
+
+    it('should wrap other errors', async () => {
+      mockOctokit.repos.getContent.mockRejectedValue(new Error('Forbidden'));
+
+      await expect(
+        getFileWithSha(mockOctokit as never, 'owner', 'repo', 'a.yaml', 'main')
+      ).rejects.toThrow('Failed to read a.yaml in owner/repo: Forbidden');
+    });
+  });
+
+  describe('createOrUpdateEnvironment', () => {
+    it('should resolve reviewer logins to user ids', async () => {
+      mockOctokit.users.getByUsername.mockImplementation(({ username }) =>
+        Promise.resolve({ data: { id: username === 'alice' ? 1 : 2 } })
+      );
+      mockOctokit.repos.createOrUpdateEnvironment.mockResolvedValue({});
+
+      await createOrUpdateEnvironment(mockOctokit as never, 'owner', 'repo', 'prod', [
+        'alice',
+        'bob',
+      ]);
+
+      expect(mockOctokit.repos.createOrUpdateEnvironment).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        environment_name: 'prod',
+        reviewers: [
+          { type: 'User', id: 1 },
+          { type: 'User', id: 2 },
+        ],
+      });
+    });
+
+    it('should wrap errors with the environment name', async () => {
+      mockOctokit.users.getByUsername.mockRejectedValue(new Error('Not Found'));
+
+      await expect(
+        createOrUpdateEnvironment(mockOctokit as never, 'owner', 'repo', 'prod', ['ghost'])
+      ).rejects.toThrow('Failed to configure environment prod in owner/repo');
+      expect(mockOctokit.repos.createOrUpdateEnvironment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLiveEnvironmentDeployment', () => {
+    it('should return the newest deployment whose latest status is success', async () => {
+      mockOctokit.repos.listDeployments.mockResolvedValue({
+        data: [
+          { id: 3, sha: 'waiting', created_at: '2026-01-03T00:00:00Z' },
+          { id: 2, sha: 'live', created_at: '2026-01-02T00:00:00Z' },
+          { id: 1, sha: 'old', created_at: '2026-01-01T00:00:00Z' },
+        ],
+      });
+      mockOctokit.repos.listDeploymentStatuses.mockImplementation(({ deployment_id }) =>
+        Promise.resolve({
+          data: deployment_id === 3 ? [{ state: 'waiting' }] : [{ state: 'success' }],
+        })
+      );
+
+      const result = await getLiveEnvironmentDeployment(mockOctokit as never, 'o', 'r', 'prod');
+
+      expect(result).toEqual({ sha: 'live', createdAt: '2026-01-02T00:00:00Z' });
+      expect(mockOctokit.repos.listDeployments).toHaveBeenCalledWith({
+        owner: 'o',
+        repo: 'r',
+        environment: 'prod',
+        per_page: 10,
+      });
+      expect(mockOctokit.repos.listDeploymentStatuses).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return null when nothing has deployed', async () => {
+      mockOctokit.repos.listDeployments.mockResolvedValue({ data: [] });
+
+      await expect(
+        getLiveEnvironmentDeployment(mockOctokit as never, 'o', 'r', 'prod')
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('downloadWorkflowJobLogs', () => {
+    it('should return the log text', async () => {
+      mockOctokit.actions.downloadJobLogsForWorkflowRun.mockResolvedValue({
+        data: '2026-01-01T00:00:00Z hello\n',
+      });
+
+      const result = await downloadWorkflowJobLogs(mockOctokit as never, 'owner', 'repo', 42);
+      expect(result).toBe('2026-01-01T00:00:00Z hello\n');
+      expect(mockOctokit.actions.downloadJobLogsForWorkflowRun).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        job_id: 42,
+      });
+    });
+
+    it('should throw on failure', async () => {
+      mockOctokit.actions.downloadJobLogsForWorkflowRun.mockRejectedValue(new Error('Not Found'));
+      await expect(
+        downloadWorkflowJobLogs(mockOctokit as never, 'owner', 'repo', 42)
+      ).rejects.toThrow('Failed to download logs for job 42 in owner/repo');
+    });
+  });
+
+  describe('rerunWorkflowRun', () => {
+    it('should re-run only failed jobs with debug logging', async () => {
+      mockOctokit.actions.reRunWorkflowFailedJobs.mockResolvedValue({});
+
+      await rerunWorkflowRun(mockOctokit as never, 'owner', 'repo', 7, {
+        failedJobsOnly: true,
+        enableDebugLogging: true,
+      });
+
+      expect(mockOctokit.actions.reRunWorkflowFailedJobs).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        run_id: 7,
+        enable_debug_logging: true,
+      });
+      expect(mockOctokit.actions.reRunWorkflow).not.toHaveBeenCalled();
+    });
+
+    it('should re-run the whole run by default', async () => {
+      mockOctokit.actions.reRunWorkflow.mockResolvedValue({});
+
+      await rerunWorkflowRun(mockOctokit as never, 'owner', 'repo', 7);
+
+      expect(mockOctokit.actions.reRunWorkflow).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        run_id: 7,
+        enable_debug_logging: false,
+      });
+    });
+
+    it('should throw on failure', async () => {
+      mockOctokit.actions.reRunWorkflow.mockRejectedValue(new Error('Forbidden'));
+      await expect(rerunWorkflowRun(mockOctokit as never, 'owner', 'repo', 7)).rejects.toThrow(
+        'Failed to re-run workflow run 7 in owner/repo'
+      );
+    });
+  });
 });
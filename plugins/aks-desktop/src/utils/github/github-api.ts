@@ -14,6 +14,7 @@ import type {
   WorkflowRunConclusion,
   WorkflowRunStatus,
 } from '../../types/github';
+import { setActivityActor, trackActivity } from '../shared/activityLog';
 import { GITHUB_APP_INSTALL_URL } from './github-auth';
 
 type ErrorWithCause = Error & { cause?: unknown };
@@ -38,6 +39,11 @@ function unicodeToBase64(str: string): string {
   return btoa(binary);
 }
 
+function base64ToUnicode(base64: string): string {
+  const binary = atob(base64.replace(/\s/g, ''));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
 function isHttpError(error: unknown, status: number): boolean {
   return (
     error instanceof Error && 'status' in error && (error as { status: number }).status === status
@@ -55,6 +61,7 @@ export async function getCurrentUser(
 ): Promise<{ login: string; avatarUrl: string }> {
   try {
     const { data } = await octokit.users.getAuthenticated();
+    setActivityActor('github', data.login);
     return { login: data.login, avatarUrl: data.avatar_url };
   } catch (error) {
     throw apiError('Failed to get current user', error);
@@ -273,6 +280,93 @@ export async function findDockerfiles(
   }
 }
 
+/**
+ * Result of listing the files under a repo directory.
+ */
+export interface ListRepoFilesResult {
+  /** Sorted repo-relative paths to all files under the directory. */
+  paths: string[];
+  /** `true` when the GitHub Git Trees API truncated the response; `paths` is partial. */
+  truncated: boolean;
+}
+
+/**
+ * Lists the files under `dir` (recursively) at the given ref.
+ * An empty `dir` lists the whole repo.
+ */
+export async function listRepoFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  dir: string
+): Promise<ListRepoFilesResult> {
+  const prefix = dir.replace(/^\/+|\/+$/g, '');
+  try {
+    const { data } = await octokit.git.getTree({
+      owner,
+      repo,
+      tree_sha: ref,
+      recursive: '1',
+    });
+    const paths = data.tree
+      .filter(
+        entry =>
+          entry.type === 'blob' &&
+          entry.path !== undefined &&
+          (!prefix || entry.path.startsWith(`${prefix}/`))
+      )
+      .map(entry => entry.path as string)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return { paths, truncated: data.truncated ?? false };
+  } catch (err) {
+    throw apiError(`Failed to list files under ${prefix || '/'} in ${owner}/${repo}`, err);
+  }
+}
+
+/** Returns the text of a file at the given ref. */
+export async function getFileContent(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<string> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      throw new Error(`${path} is not a file`);
+    }
+    return base64ToUnicode(data.content);
+  } catch (error) {
+    throw apiError(`Failed to read ${path} in ${owner}/${repo}`, error);
+  }
+}
+
+/**
+ * Returns the text and blob SHA of a file at the given ref, or null if the
+ * file does not exist. The SHA is what {@link createOrUpdateFile} needs to
+ * replace the file.
+ */
+export async function getFileWithSha(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<{ content: string; sha: string } | null> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+      throw new Error(`${path} is not a file`);
+    }
+    return { content: base64ToUnicode(data.content), sha: data.sha };
+  } catch (error) {
+    if (isHttpError(error, 404)) return null;
+    throw apiError(`Failed to read ${path} in ${owner}/${repo}`, error);
+  }
+}
+
 /** Returns the SHA of the tip commit on the given branch. */
 export async function getDefaultBranchSha(
   octokit: Octokit,
@@ -300,16 +394,26 @@ export async function createBranch(
   branchName: string,
   sha: string
 ): Promise<void> {
-  try {
-    await octokit.git.createRef({
-      owner,
-      repo,
-      ref: `refs/heads/${branchName}`,
-      sha,
-    });
-  } catch (error) {
-    throw apiError(`Failed to create branch ${branchName} in ${owner}/${repo}`, error);
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Create branch',
+      target: { resource: `${owner}/${repo}` },
+      args: [branchName],
+    },
+    async () => {
+      try {
+        await octokit.git.createRef({
+          owner,
+          repo,
+          ref: `refs/heads/${branchName}`,
+          sha,
+        });
+      } catch (error) {
+        throw apiError(`Failed to create branch ${branchName} in ${owner}/${repo}`, error);
+      }
+    }
+  );
 }
 
 /** Deletes a branch from the repository. */
@@ -319,15 +423,25 @@ export async function deleteBranch(
   repo: string,
   branchName: string
 ): Promise<void> {
-  try {
-    await octokit.request('DELETE /repos/{owner}/{repo}/git/refs/{ref}', {
-      owner,
-      repo,
-      ref: `heads/${branchName}`,
-    });
-  } catch (error) {
-    throw apiError(`Failed to delete branch ${branchName} in ${owner}/${repo}`, error);
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Delete branch',
+      target: { resource: `${owner}/${repo}` },
+      args: [branchName],
+    },
+    async () => {
+      try {
+        await octokit.request('DELETE /repos/{owner}/{repo}/git/refs/{ref}', {
+          owner,
+          repo,
+          ref: `heads/${branchName}`,
+        });
+      } catch (error) {
+        throw apiError(`Failed to delete branch ${branchName} in ${owner}/${repo}`, error);
+      }
+    }
+  );
 }
 
 /**
@@ -344,20 +458,30 @@ export async function createOrUpdateFile(
   branch: string,
   sha?: string
 ): Promise<void> {
-  try {
-    await octokit.repos.createOrUpdateFileContents({
-      owner,
-      repo,
-      path,
-      message,
-      // GitHub's Contents API requires base64-encoded content.
-      content: unicodeToBase64(content),
-      branch,
-      ...(sha ? { sha } : {}),
-    });
-  } catch (error) {
-    throw apiError(`Failed to create/update file ${path} in ${owner}/${repo}`, error);
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Commit file',
+      target: { resource: `${owner}/${repo}` },
+      args: [path, branch],
+    },
+    async () => {
+      try {
+        await octokit.repos.createOrUpdateFileContents({
+          owner,
+          repo,
+          path,
+          message,
+          // GitHub's Contents API requires base64-encoded content.
+          content: unicodeToBase64(content),
+          branch,
+          ...(sha ? { sha } : {}),
+        });
+      } catch (error) {
+        throw apiError(`Failed to create/update file ${path} in ${owner}/${repo}`, error);
+      }
+    }
+  );
 }
 
 /** Creates a pull request and returns its number and URL. */
@@ -370,19 +494,29 @@ export async function createPullRequest(
   head: string,
   base: string
 ): Promise<{ number: number; url: string }> {
-  try {
-    const { data } = await octokit.pulls.create({
-      owner,
-      repo,
-      title,
-      body,
-      head,
-      base,
-    });
-    return { number: data.number, url: data.html_url };
-  } catch (error) {
-    throw apiError(`Failed to create PR in ${owner}/${repo}`, error);
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Open pull request',
+      target: { resource: `${owner}/${repo}` },
+      args: [title, `${head} → ${base}`],
+    },
+    async () => {
+      try {
+        const { data } = await octokit.pulls.create({
+          owner,
+          repo,
+          title,
+          body,
+          head,
+          base,
+        });
+        return { number: data.number, url: data.html_url };
+      } catch (error) {
+        throw apiError(`Failed to create PR in ${owner}/${repo}`, error);
+      }
+    }
+  );
 }
 
 /** Fetches a pull request's merge status, state, URL, mergeability, and head SHA. */
@@ -471,28 +605,38 @@ export async function createOrUpdateRepoSecret(
   plaintext: string,
   publicKey: { key: string; keyId: string }
 ): Promise<void> {
-  try {
-    // Dynamic import to avoid loading libsodium until needed.
-    // The default export holds the actual API; the namespace object does not.
-    const sodiumModule = await import('libsodium-wrappers');
-    const sodium = sodiumModule.default ?? sodiumModule;
-    await sodium.ready;
-
-    const keyBytes = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL);
-    const messageBytes = sodium.from_string(plaintext);
-    const encrypted = sodium.crypto_box_seal(messageBytes, keyBytes);
-    const encryptedBase64 = sodium.to_base64(encrypted, sodium.base64_variants.ORIGINAL);
-
-    await octokit.actions.createOrUpdateRepoSecret({
-      owner,
-      repo,
-      secret_name: secretName,
-      encrypted_value: encryptedBase64,
-      key_id: publicKey.keyId,
-    });
-  } catch (error) {
-    throw apiError(`Failed to create/update secret ${secretName} in ${owner}/${repo}`, error);
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Set Actions secret',
+      target: { resource: `${owner}/${repo}` },
+      args: [secretName],
+    },
+    async () => {
+      try {
+        // Dynamic import to avoid loading libsodium until needed.
+        // The default export holds the actual API; the namespace object does not.
+        const sodiumModule = await import('libsodium-wrappers');
+        const sodium = sodiumModule.default ?? sodiumModule;
+        await sodium.ready;
+
+        const keyBytes = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL);
+        const messageBytes = sodium.from_string(plaintext);
+        const encrypted = sodium.crypto_box_seal(messageBytes, keyBytes);
+        const encryptedBase64 = sodium.to_base64(encrypted, sodium.base64_variants.ORIGINAL);
+
+        await octokit.actions.createOrUpdateRepoSecret({
+          owner,
+          repo,
+          secret_name: secretName,
+          encrypted_value: encryptedBase64,
+          key_id: publicKey.keyId,
+        });
+      } catch (error) {
+        throw apiError(`Failed to create/update secret ${secretName} in ${owner}/${repo}`, error);
+      }
+    }
+  );
 }
 
 /**
@@ -525,18 +669,28 @@ export async function createIssue(
   body: string,
   assignees: string[]
 ): Promise<{ number: number; url: string }> {
-  try {
-    const { data } = await octokit.issues.create({
-      owner,
-      repo,
-      title,
-      body,
-      assignees,
-    });
-    return { number: data.number, url: data.html_url };
-  } catch (error) {
-    throw apiError(`Failed to create issue in ${owner}/${repo}`, error);
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Create issue',
+      target: { resource: `${owner}/${repo}` },
+      args: [title],
+    },
+    async () => {
+      try {
+        const { data } = await octokit.issues.create({
+          owner,
+          repo,
+          title,
+          body,
+          assignees,
+        });
+        return { number: data.number, url: data.html_url };
+      } catch (error) {
+        throw apiError(`Failed to create issue in ${owner}/${repo}`, error);
+      }
+    }
+  );
 }
 
 /**
@@ -553,23 +707,33 @@ export async function assignIssueToCopilot(
   issueNumber: number,
   baseBranch: string
 ): Promise<void> {
-  try {
-    await octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/assignees', {
-      owner,
-      repo,
-      issue_number: issueNumber,
-      assignees: ['copilot-swe-agent[bot]'],
-      agent_assignment: {
-        target_repo: `${owner}/${repo}`,
-        base_branch: baseBranch,
-      },
-    });
-  } catch (error) {
-    throw apiError(
-      `Failed to assign Copilot agent to issue #${issueNumber} in ${owner}/${repo}`,
-      error
-    );
-  }
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Assign issue to Copilot',
+      target: { resource: `${owner}/${repo}` },
+      args: [`#${issueNumber}`],
+    },
+    async () => {
+      try {
+        await octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/assignees', {
+          owner,
+          repo,
+          issue_number: issueNumber,
+          assignees: ['copilot-swe-agent[bot]'],
+          agent_assignment: {
+            target_repo: `${owner}/${repo}`,
+            base_branch: baseBranch,
+          },
+        });
+      } catch (error) {
+        throw apiError(
+          `Failed to assign Copilot agent to issue #${issueNumber} in ${owner}/${repo}`,
+          error
+        );
+      }
+    }
+  );
 }
 
 /**
@@ -864,10 +1028,12 @@ export interface WorkflowJobStep {
   conclusion: string | null;
   number: number;
   started_at: string | null;
+  completed_at: string | null;
 }
 
 /** Job-level status for a workflow run. */
 export interface WorkflowJob {
+  id: number;
   name: string;
   status: 'queued' | 'in_progress' | 'completed';
   conclusion: string | null;
@@ -888,6 +1054,7 @@ export async function listWorkflowRunJobs(
       run_id: runId,
     });
     return data.jobs.map(job => ({
+      id: job.id,
       name: job.name,
       status: job.status as WorkflowJob['status'],
       conclusion: job.conclusion ?? null,
@@ -897,6 +1064,7 @@ export async function listWorkflowRunJobs(
         conclusion: step.conclusion ?? null,
         number: step.number,
         started_at: step.started_at ?? null,
+        completed_at: step.completed_at ?? null,
       })),
     }));
   } catch (error) {
@@ -904,6 +1072,67 @@ export async function listWorkflowRunJobs(
   }
 }
 
+/**
+ * Downloads the plain-text log of a workflow job. Each line is prefixed with an
+ * ISO timestamp. GitHub may not serve the log of a job that is still running.
+ */
+export async function downloadWorkflowJobLogs(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  jobId: number
+): Promise<string> {
+  try {
+    const { data } = await octokit.actions.downloadJobLogsForWorkflowRun({
+      owner,
+      repo,
+      job_id: jobId,
+    });
+    return typeof data === 'string' ? data : String(data ?? '');
+  } catch (error) {
+    throw apiError(`Failed to download logs for job ${jobId} in ${owner}/${repo}`, error);
+  }
+}
+
+/**
+ * Re-runs a completed workflow run, either in full or only its failed jobs
+ * (and the jobs that depend on them). `enableDebugLogging` turns on runner and
+ * step debug logs for the new attempt.
+ */
+export async function rerunWorkflowRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number,
+  options: { failedJobsOnly?: boolean; enableDebugLogging?: boolean } = {}
+): Promise<void> {
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: options.failedJobsOnly ? 'Re-run failed jobs' : 'Re-run workflow',
+      target: { resource: `${owner}/${repo}` },
+      args: [String(runId), ...(options.enableDebugLogging ? ['debug'] : [])],
+    },
+    async () => {
+      const params = {
+        owner,
+        repo,
+        run_id: runId,
+        enable_debug_logging: options.enableDebugLogging ?? false,
+      };
+      try {
+        if (options.failedJobsOnly) {
+          await octokit.actions.reRunWorkflowFailedJobs(params);
+        } else {
+          await octokit.actions.reRunWorkflow(params);
+        }
+      } catch (error) {
+        throw apiError(`Failed to re-run workflow run ${runId} in ${owner}/${repo}`, error);
+      }
+    }
+  );
+}
+
 /**
  * Dispatches a workflow run via the workflow_dispatch event.
  * Optionally passes input parameters to parameterized workflows.
@@ -916,16 +1145,116 @@ export async function dispatchWorkflow(
   ref: string,
   inputs?: Record<string, string>
 ): Promise<void> {
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Run workflow',
+      target: { resource: `${owner}/${repo}` },
+      args: [workflowId, ref],
+    },
+    async () => {
+      try {
+        await octokit.actions.createWorkflowDispatch({
+          owner,
+          repo,
+          workflow_id: workflowId,
+          ref,
+          ...(inputs ? { inputs } : {}),
+        });
+      } catch (error) {
+        throw apiError(`Failed to dispatch workflow ${workflowId} in ${owner}/${repo}`, error);
+      }
+    }
+  );
+}
+
+/**
+ * Creates or updates a GitHub environment, requiring approval from `reviewers`
+ * (GitHub logins) before a job that targets it can run. An empty list removes
+ * the approval requirement.
+ * @see https://docs.github.com/en/rest/deployments/environments#create-or-update-an-environment
+ */
+export async function createOrUpdateEnvironment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  environmentName: string,
+  reviewers: string[]
+): Promise<void> {
+  return trackActivity(
+    {
+      channel: 'github',
+      operation: 'Configure environment',
+      target: { resource: `${owner}/${repo}` },
+      args: [environmentName, ...reviewers],
+    },
+    async () => {
+      try {
+        // The environments API takes numeric user ids, not logins.
+        const reviewerIds = await Promise.all(
+          reviewers.map(async username => {
+            const { data } = await octokit.users.getByUsername({ username });
+            return data.id;
+          })
+        );
+        await octokit.repos.createOrUpdateEnvironment({
+          owner,
+          repo,
+          environment_name: environmentName,
+          reviewers: reviewerIds.map(id => ({ type: 'User' as const, id })),
+        });
+      } catch (error) {
+        throw apiError(
+          `Failed to configure environment ${environmentName} in ${owner}/${repo}`,
+          error
+        );
+      }
+    }
+  );
+}
+
+/** The most recent successful deployment to a GitHub environment. */
+export interface EnvironmentDeployment {
+  /** Commit SHA that was deployed. */
+  sha: string;
+  /** ISO timestamp of the deployment. */
+  createdAt: string;
+}
+
+/**
+ * Returns the commit currently live in a GitHub environment: the newest
+ * deployment whose latest status is `success`. Deployments still waiting for
+ * approval, in progress or failed are skipped. Returns null when none of the
+ * `perPage` most recent deployments succeeded.
+ */
+export async function getLiveEnvironmentDeployment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  environment: string,
+  perPage = 10
+): Promise<EnvironmentDeployment | null> {
   try {
-    await octokit.actions.createWorkflowDispatch({
+    const { data: deployments } = await octokit.repos.listDeployments({
       owner,
       repo,
-      workflow_id: workflowId,
-      ref,
-      ...(inputs ? { inputs } : {}),
+      environment,
+      per_page: perPage,
     });
+    for (const deployment of deployments) {
+      const { data: statuses } = await octokit.repos.listDeploymentStatuses({
+        owner,
+        repo,
+        deployment_id: deployment.id,
+        per_page: 1,
+      });
+      if (statuses[0]?.state === 'success') {
+        return { sha: deployment.sha, createdAt: deployment.created_at };
+      }
+    }
+    return null;
   } catch (error) {
-    throw apiError(`Failed to dispatch workflow ${workflowId} in ${owner}/${repo}`, error);
+    throw apiError(`Failed to list deployments to ${environment} in ${owner}/${repo}`, error);
   }
 }
 
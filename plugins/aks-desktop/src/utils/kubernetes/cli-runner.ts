@@ -2,6 +2,7 @@
 // Licensed under the Apache 2.0.
 
 import { runCommand } from '@kinvolk/headlamp-plugin/lib';
+import { runWithTransport } from '../shared/commandTransport';
 
 declare const pluginRunCommand: typeof runCommand;
 
@@ -37,5 +38,5 @@ export async function runCommandWithOutput(
   command: 'az',
   args: string[]
 ): Promise<{ stdout: string; stderr: string }> {
-  return await runCommandAsync(command, args);
+  return await runWithTransport(command, args, () => runCommandAsync(command, args));
 }
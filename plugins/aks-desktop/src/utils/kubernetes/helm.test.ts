@@ -0,0 +1,259 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gzipSync } from 'zlib';
+
+const mockRunCommandAsync = vi.fn();
+vi.mock('../azure/az-cli-core', () => ({
+  runCommandAsync: (...args: unknown[]) => mockRunCommandAsync(...args),
+  debugLog: vi.fn(),
+  getErrorMessage: (e: unknown) => (e instanceof Error ? e.message : String(e)),
+}));
+
+import {
+  clearHelmInstalledCache,
+  helmRegistryLogin,
+  isHelmInstalled,
+  readChartValuesSchema,
+  readHelmValuesSchema,
+  readTarEntry,
+  showHelmChart,
+  templateHelmChart,
+} from './helm';
+
+/** Builds a minimal ustar archive holding the given files. */
+function makeTar(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const data = encoder.encode(content);
+    const header = new Uint8Array(512);
+    header.set(encoder.encode(name), 0);
+    header.set(encoder.encode(data.length.toString(8).padStart(11, '0')), 124);
+    header[156] = '0'.charCodeAt(0);
+    const body = new Uint8Array(Math.ceil(data.length / 512) * 512);
+    body.set(data);
+    blocks.push(header, body);
+  }
+  blocks.push(new Uint8Array(1024));
+  const tar = new Uint8Array(blocks.reduce((n, b) => n + b.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    tar.set(block, offset);
+    offset += block.length;
+  }
+  return tar;
+}
+
+describe('readTarEntry', () => {
+  it('returns the first matching file', () => {
+    const tar = makeTar({
+      'app/Chart.yaml': 'name: app',
+      'app/values.schema.json': '{"type":"object"}',
+      'app/charts/dep/values.schema.json': '{}',
+    });
+
+    expect(readTarEntry(tar, p => /^[^/]+\/values\.schema\.json$/.test(p))).toBe(
+      '{"type":"object"}'
+    );
+    expect(readTarEntry(tar, p => p.endsWith('README.md'))).toBeNull();
+  });
+});
+
+describe('readHelmValuesSchema', () => {
+  it('reads the schema from a gzipped chart archive', async () => {
+    const archive = gzipSync(makeTar({ 'app/values.schema.json': '{"type":"object"}' }));
+
+    await expect(readHelmValuesSchema(archive)).resolves.toEqual({
+      success: true,
+      data: { type: 'object' },
+    });
+  });
+
+  it('returns null for charts without a schema and fails on other bytes', async () => {
+    const archive = gzipSync(makeTar({ 'app/Chart.yaml': 'name: app' }));
+
+    await expect(readHelmValuesSchema(archive)).resolves.toEqual({ success: true, data: null });
+    expect((await readHelmValuesSchema(new TextEncoder().encode('nope'))).success).toBe(false);
+  });
+});
+
+describe('helm commands', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('templates an OCI chart with version, namespace and a temporary values file', async () => {
+    let valuesFile = '';
+    let valuesText = '';
+    mockRunCommandAsync.mockImplementation(async (_command: string, args: string[]) => {
+      valuesFile = args[args.length - 1];
+      valuesText = readFileSync(valuesFile, 'utf8');
+      return { stdout: 'kind: Service\n', stderr: '' };
+    });
+
+    const result = await templateHelmChart({
+      chartRef: 'oci://example.azurecr.io/helm/app',
+      version: '1.2.3',
+      releaseName: 'web',
+      namespace: 'shop',
+      values: { replicaCount: 2, db: { password: 's3cret' } },
+    });
+
+    expect(result).toEqual({ success: true, data: 'kind: Service\n' });
+    expect(mockRunCommandAsync).toHaveBeenCalledWith('helm', [
+      'template',
+      'web',
+      'oci://example.azurecr.io/helm/app',
+      '--version',
+      '1.2.3',
+      '--namespace',
+      'shop',
+      '--values',
+      valuesFile,
+    ]);
+    expect(valuesText).toBe('{"replicaCount":2,"db":{"password":"s3cret"}}');
+    expect(existsSync(valuesFile)).toBe(false);
+  });
+
+  it('ignores the version for local archives and tolerates progress on stderr', async () => {
+    mockRunCommandAsync.mockResolvedValue({
+      stdout: 'name: app\nversion: 0.1.0\nappVersion: 1.16\n',
+      stderr: 'WARNING: Kubernetes configuration file is group-readable.\n',
+    });
+
+    const result = await showHelmChart({ chartRef: '/charts/app-0.1.0.tgz', version: '9.9.9' });
+
+    expect(mockRunCommandAsync).toHaveBeenCalledWith('helm', [
+      'show',
+      'chart',
+      '/charts/app-0.1.0.tgz',
+    ]);
+    expect(result.data).toEqual({
+      name: 'app',
+      version: '0.1.0',
+      appVersion: '1.16',
+      description: undefined,
+    });
+  });
+
+  it('detects the Helm CLI from its version, once per page load', async () => {
+    clearHelmInstalledCache();
+    mockRunCommandAsync.mockResolvedValueOnce({ stdout: 'v3.15.2+g1a500d5\n', stderr: '' });
+    await expect(isHelmInstalled()).resolves.toBe(true);
+    await expect(isHelmInstalled()).resolves.toBe(true);
+    expect(mockRunCommandAsync).toHaveBeenCalledTimes(1);
+    expect(mockRunCommandAsync).toHaveBeenCalledWith('helm', ['version', '--short']);
+
+    clearHelmInstalledCache();
+    mockRunCommandAsync.mockResolvedValueOnce({
+      stdout: '',
+      stderr: 'Command execution error: spawn helm ENOENT',
+    });
+    await expect(isHelmInstalled()).resolves.toBe(false);
+  });
+
+  it('reports Helm errors', async () => {
+    mockRunCommandAsync.mockResolvedValue({
+      stdout: '',
+      stderr: 'Error: chart "nope" not found\n',
+    });
+
+    const result = await showHelmChart({ chartRef: 'oci://example.azurecr.io/nope' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('chart "nope" not found');
+  });
+
+  it('logs in to a registry with --password', async () => {
+    mockRunCommandAsync.mockResolvedValue({ stdout: 'Login Succeeded\n', stderr: '' });
+
+    const result = await helmRegistryLogin({
+      server: 'example.azurecr.io',
+      username: '00000000-0000-0000-0000-000000000000',
+      password: 'acr-token',
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockRunCommandAsync).toHaveBeenCalledWith('helm', [
+      'registry',
+      'login',
+      'example.azurecr.io',
+      '--username',
+      '00000000-0000-0000-0000-000000000000',
+      '--password',
+      'acr-token',
+    ]);
+  });
+});
+
+describe('readChartValuesSchema', () => {
+  const schema = { type: 'object', properties: { replicaCount: { type: 'integer' } } };
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), 'helm-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pulls OCI charts to a temporary directory and removes it afterwards', async () => {
+    let destination = '';
+    mockRunCommandAsync.mockImplementation(async (_command: string, args: string[]) => {
+      destination = args[args.indexOf('--destination') + 1];
+      writeFileSync(
+        join(destination, 'app-1.2.3.tgz'),
+        gzipSync(makeTar({ 'app/values.schema.json': JSON.stringify(schema) }))
+      );
+      return { stdout: '', stderr: 'Pulled: example.azurecr.io/helm/app:1.2.3\n' };
+    });
+
+    const result = await readChartValuesSchema({
+      chartRef: 'oci://example.azurecr.io/helm/app',
+      version: '1.2.3',
+    });
+
+    expect(result).toEqual({ success: true, data: schema });
+    expect(mockRunCommandAsync).toHaveBeenCalledWith('helm', [
+      'pull',
+      'oci://example.azurecr.io/helm/app',
+      '--version',
+      '1.2.3',
+      '--destination',
+      destination,
+    ]);
+    expect(() => readdirSync(destination)).toThrow();
+  });
+
+  it('reports failed pulls', async () => {
+    mockRunCommandAsync.mockResolvedValue({ stdout: '', stderr: 'Error: not found\n' });
+
+    const result = await readChartValuesSchema({ chartRef: 'bitnami/nginx' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+
+  it('reads local archives and chart directories in place', async () => {
+    const archive = join(dir, 'app-0.1.0.tgz');
+    writeFileSync(archive, gzipSync(makeTar({ 'app/values.schema.json': JSON.stringify(schema) })));
+    writeFileSync(join(dir, 'values.schema.json'), JSON.stringify(schema));
+
+    await expect(readChartValuesSchema({ chartRef: archive })).resolves.toEqual({
+      success: true,
+      data: schema,
+    });
+    await expect(readChartValuesSchema({ chartRef: dir })).resolves.toEqual({
+      success: true,
+      data: schema,
+    });
+    expect(mockRunCommandAsync).not.toHaveBeenCalled();
+  });
+});
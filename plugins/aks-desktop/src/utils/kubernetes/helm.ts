@@ -0,0 +1,302 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+// Helm CLI functions for rendering charts client-side.
+
+import YAML from 'yaml';
+import { debugLog, getErrorMessage, runCommandAsync } from '../azure/az-cli-core';
+import { redactArgs } from '../shared/commandTransport';
+
+/** Chart.yaml fields shown in the Deploy Wizard. */
+export interface HelmChartMetadata {
+  name: string;
+  version: string;
+  appVersion?: string;
+  description?: string;
+}
+
+/** Where a chart comes from: an `oci://` reference or a local `.tgz` path. */
+export interface HelmChartSource {
+  chartRef: string;
+  /** Chart version; only meaningful for OCI references. */
+  version?: string;
+}
+
+/** Where to get the Helm CLI when it is not installed. */
+export const HELM_INSTALL_URL = 'https://helm.sh/docs/intro/install/';
+
+/** Returns true for `oci://` chart references. */
+export function isOciChartRef(chartRef: string): boolean {
+  return chartRef.trim().startsWith('oci://');
+}
+
+function versionArgs({ chartRef, version }: HelmChartSource): string[] {
+  return isOciChartRef(chartRef) && version?.trim() ? ['--version', version.trim()] : [];
+}
+
+/**
+ * Helm reports progress ("Pulled: …", "WARNING: …") on stderr, so only
+ * stderr containing an `Error:` line is treated as a failure.
+ */
+function isHelmError(stderr: string): boolean {
+  return /^Error:/m.test(stderr) || stderr.includes('Command execution error');
+}
+
+async function runHelmCommand<T>(
+  args: string[],
+  errorContext: string,
+  parseOutput: (stdout: string) => T
+): Promise<{ success: boolean; data?: T; error?: string }> {
+  try {
+    debugLog('[HELM] Executing:', 'helm', redactArgs(args).join(' '));
+    const { stdout, stderr } = await runCommandAsync('helm', args);
+    if (stderr && isHelmError(stderr)) {
+      return { success: false, error: `Failed to ${errorContext}: ${stderr.trim()}` };
+    }
+    return { success: true, data: parseOutput(stdout) };
+  } catch (error) {
+    return { success: false, error: `Failed to ${errorContext}: ${getErrorMessage(error)}` };
+  }
+}
+
+// Caching the Promise (not the resolved value) lets concurrent callers share one
+// `helm version` run. The cache has no TTL — if Helm is installed while the app is
+// open, a page reload is needed to pick it up.
+let helmInstalledCheck: Promise<boolean> | null = null;
+
+export function clearHelmInstalledCache(): void {
+  helmInstalledCheck = null;
+}
+
+/**
+ * Returns whether the Helm CLI can be run. Helm is not bundled with the app,
+ * so charts can only be used where it is installed and on the PATH. Checked
+ * once per page load.
+ */
+export function isHelmInstalled(): Promise<boolean> {
+  helmInstalledCheck ??= runHelmCommand<string>(['version', '--short'], 'run helm', stdout =>
+    stdout.trim()
+  ).then(result => result.success && /^v\d/.test(result.data ?? ''));
+  return helmInstalledCheck;
+}
+
+/** Reads Chart.yaml of a chart with `helm show chart`. */
+export function showHelmChart(source: HelmChartSource) {
+  return runHelmCommand<HelmChartMetadata>(
+    ['show', 'chart', source.chartRef.trim(), ...versionArgs(source)],
+    'read chart metadata',
+    stdout => {
+      const chart = YAML.parse(stdout) ?? {};
+      return {
+        name: String(chart.name ?? ''),
+        version: String(chart.version ?? ''),
+        appVersion: chart.appVersion !== undefined ? String(chart.appVersion) : undefined,
+        description: chart.description,
+      };
+    }
+  );
+}
+
+/** Reads the default values.yaml of a chart with `helm show values`. */
+export function showHelmValues(source: HelmChartSource) {
+  return runHelmCommand<string>(
+    ['show', 'values', source.chartRef.trim(), ...versionArgs(source)],
+    'read chart values',
+    stdout => stdout
+  );
+}
+
+/**
+ * Logs Helm in to an OCI registry, e.g. with an ACR access token. The app's
+ * command bridge cannot write to standard input, so the password is passed
+ * with `--password`, which logs and recorded commands redact.
+ */
+export function helmRegistryLogin(options: { server: string; username: string; password: string }) {
+  return runHelmCommand<void>(
+    [
+      'registry',
+      'login',
+      options.server,
+      '--username',
+      options.username,
+      '--password',
+      options.password,
+    ],
+    `log in to ${options.server}`,
+    () => undefined
+  );
+}
+
+/**
+ * Renders a chart into Kubernetes manifests with `helm template`. Nothing is
+ * installed; the manifests are applied like any other YAML. User values are
+ * written to a values file in a private temporary directory that is removed
+ * afterwards, so secrets in them never show in the process list or in
+ * recorded commands.
+ */
+export async function templateHelmChart(
+  options: HelmChartSource & {
+    releaseName: string;
+    namespace?: string;
+    values: Record<string, unknown>;
+  }
+): Promise<{ success: boolean; data?: string; error?: string }> {
+  const node = getNodeModules();
+  if (!node) {
+    return {
+      success: false,
+      error: 'Failed to render chart: charts render only in the desktop app',
+    };
+  }
+  const { fs, os, path } = node;
+
+  let dir: string;
+  try {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aks-desktop-values-'));
+  } catch (error) {
+    return { success: false, error: `Failed to render chart: ${getErrorMessage(error)}` };
+  }
+  try {
+    const valuesPath = path.join(dir, 'values.json');
+    // JSON is valid YAML, and keeps every value's type exactly as entered.
+    fs.writeFileSync(valuesPath, JSON.stringify(options.values), { mode: 0o600 });
+    return await runHelmCommand<string>(
+      [
+        'template',
+        options.releaseName,
+        options.chartRef.trim(),
+        ...versionArgs(options),
+        ...(options.namespace ? ['--namespace', options.namespace] : []),
+        '--values',
+        valuesPath,
+      ],
+      'render chart',
+      stdout => stdout
+    );
+  } catch (error) {
+    return { success: false, error: `Failed to render chart: ${getErrorMessage(error)}` };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function readTarString(block: Uint8Array, start: number, length: number): string {
+  const bytes = block.subarray(start, start + length);
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+/**
+ * Returns the contents of the first file in an uncompressed tar archive whose
+ * path matches `predicate`, or null when there is none.
+ */
+export function readTarEntry(tar: Uint8Array, predicate: (path: string) => boolean): string | null {
+  let offset = 0;
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    const name = readTarString(header, 0, 100);
+    if (!name) break;
+    const prefix = readTarString(header, 345, 155);
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const path = prefix ? `${prefix}/${name}` : name;
+    const dataStart = offset + 512;
+    if ((type === '0' || type === '\0') && predicate(path)) {
+      return new TextDecoder().decode(tar.subarray(dataStart, dataStart + size));
+    }
+    offset = dataStart + Math.ceil(size / 512) * 512;
+  }
+  return null;
+}
+
+/** Decompresses gzip data with the platform's DecompressionStream. */
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    },
+  }).pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads values.schema.json from the bytes of a `.tgz` chart archive.
+ * Returns null when the chart has no schema.
+ */
+export async function readHelmValuesSchema(
+  archive: Uint8Array
+): Promise<{ success: boolean; data?: Record<string, unknown> | null; error?: string }> {
+  try {
+    const tar = await gunzip(archive);
+    const schema = readTarEntry(tar, p => /^[^/]+\/values\.schema\.json$/.test(p));
+    return { success: true, data: schema ? JSON.parse(schema) : null };
+  } catch (error) {
+    return { success: false, error: `Failed to read values schema: ${getErrorMessage(error)}` };
+  }
+}
+
+/** Node's file system modules, which only the desktop app's renderer has. */
+function getNodeModules(): {
+  fs: typeof import('fs');
+  os: typeof import('os');
+  path: typeof import('path');
+} | null {
+  try {
+    if (typeof require === 'undefined') return null;
+    return { fs: require('fs'), os: require('os'), path: require('path') };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads values.schema.json of any chart: a local archive or chart directory
+ * is read in place, and repo and OCI charts are downloaded with `helm pull`
+ * to a temporary directory that is removed afterwards. Returns null when the
+ * chart has no schema or its files cannot be read outside the desktop app.
+ */
+export async function readChartValuesSchema(
+  source: HelmChartSource
+): Promise<{ success: boolean; data?: Record<string, unknown> | null; error?: string }> {
+  const node = getNodeModules();
+  if (!node) return { success: true, data: null };
+  const { fs, os, path } = node;
+  const chartRef = source.chartRef.trim();
+
+  if (!isOciChartRef(chartRef) && fs.existsSync(chartRef)) {
+    try {
+      if (fs.statSync(chartRef).isDirectory()) {
+        const schemaPath = path.join(chartRef, 'values.schema.json');
+        return {
+          success: true,
+          data: fs.existsSync(schemaPath) ? JSON.parse(fs.readFileSync(schemaPath, 'utf8')) : null,
+        };
+      }
+      return readHelmValuesSchema(new Uint8Array(fs.readFileSync(chartRef)));
+    } catch (error) {
+      return { success: false, error: `Failed to read values schema: ${getErrorMessage(error)}` };
+    }
+  }
+
+  let dir: string;
+  try {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aks-desktop-chart-'));
+  } catch (error) {
+    return { success: false, error: `Failed to read values schema: ${getErrorMessage(error)}` };
+  }
+  try {
+    const pulled = await runHelmCommand<void>(
+      ['pull', chartRef, ...versionArgs(source), '--destination', dir],
+      'download chart',
+      () => undefined
+    );
+    if (!pulled.success) return { success: false, error: pulled.error };
+    const archive = fs.readdirSync(dir).find(name => name.endsWith('.tgz'));
+    if (!archive) return { success: true, data: null };
+    return await readHelmValuesSchema(new Uint8Array(fs.readFileSync(path.join(dir, archive))));
+  } catch (error) {
+    return { success: false, error: `Failed to read values schema: ${getErrorMessage(error)}` };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
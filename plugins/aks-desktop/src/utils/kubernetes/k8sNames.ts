@@ -4,6 +4,15 @@
 /** DNS-1123 label pattern: lowercase alphanumeric and hyphens, 1-63 chars. */
 export const K8S_DNS_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
 
+/** DNS-1123 subdomain pattern: dot-separated lowercase alphanumeric and hyphen parts. */
+const K8S_DNS_SUBDOMAIN_PATTERN =
+  /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+/** Whether `name` is a DNS-1123 subdomain (max 253 chars), the format of most object names. */
+export function isK8sDnsSubdomain(name: string): boolean {
+  return name.length <= 253 && K8S_DNS_SUBDOMAIN_PATTERN.test(name);
+}
+
 /**
  * Sanitize a string for use as a Kubernetes label *value*.
  * Allows alphanumeric, `.`, `_`, `-` (unlike normalizeK8sName which targets DNS-1123 names).
@@ -12,6 +12,7 @@ import {
   RESOURCE_GROUP_LABEL,
   SUBSCRIPTION_LABEL,
 } from '../constants/projectLabels';
+import { trackActivity } from '../shared/activityLog';
 
 /**
  * Fetches a namespace object via the Headlamp K8s API.
@@ -53,10 +54,23 @@ export async function createNamespaceAsProject(
     },
   };
 
-  await (K8s.ResourceClasses.Namespace.apiEndpoint as ApiClient<KubeNamespace>).post(
-    nsBody,
-    {},
-    clusterName
+  await trackActivity(
+    {
+      channel: 'kubernetes',
+      operation: 'Create namespace',
+      target: { cluster: clusterName, namespace: namespaceName },
+      undo: {
+        kind: 'kubernetes',
+        cluster: clusterName,
+        path: `/api/v1/namespaces/${namespaceName}`,
+      },
+    },
+    () =>
+      (K8s.ResourceClasses.Namespace.apiEndpoint as ApiClient<KubeNamespace>).post(
+        nsBody,
+        {},
+        clusterName
+      )
   );
 }
 
@@ -117,6 +131,13 @@ export async function applyProjectLabels(options: {
       [PROJECT_MANAGED_BY_LABEL]: PROJECT_MANAGED_BY_VALUE,
     };
 
-    await K8s.ResourceClasses.Namespace.apiEndpoint.put(updatedData, {}, clusterName);
+    await trackActivity(
+      {
+        channel: 'kubernetes',
+        operation: 'Label namespace as project',
+        target: { cluster: clusterName, namespace: namespaceName },
+      },
+      () => K8s.ResourceClasses.Namespace.apiEndpoint.put(updatedData, {}, clusterName)
+    );
   }
 }
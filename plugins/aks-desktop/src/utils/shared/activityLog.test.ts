@@ -0,0 +1,124 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  ACTIVITY_LOG_STORAGE_KEY,
+  getActivityLog,
+  isProjectActivity,
+  markActivityUndone,
+  MAX_ACTIVITY_ENTRIES,
+  recordActivity,
+  setActivityActor,
+  trackActivity,
+} from './activityLog';
+
+const ENTRY = {
+  channel: 'azure' as const,
+  operation: 'az identity create',
+  target: { resourceGroup: 'rg', resource: 'id-web' },
+  args: ['identity', 'create'],
+  at: '2026-01-01T00:00:00.000Z',
+  durationMs: 10,
+  outcome: 'success' as const,
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  setActivityActor('azure', undefined);
+  setActivityActor('github', undefined);
+});
+
+describe('recordActivity', () => {
+  it('persists entries newest first with the current actor', () => {
+    setActivityActor('azure', 'dev@contoso.com');
+    recordActivity(ENTRY);
+    recordActivity({ ...ENTRY, channel: 'kubernetes', operation: 'Create namespace' });
+
+    const log = getActivityLog();
+    expect(log.map(e => e.operation)).toEqual(['Create namespace', 'az identity create']);
+    // Kubernetes calls run with the Azure account's cluster credentials.
+    expect(log.every(e => e.actor === 'dev@contoso.com')).toBe(true);
+  });
+
+  it('keeps only the newest entries', () => {
+    localStorage.setItem(
+      ACTIVITY_LOG_STORAGE_KEY,
+      JSON.stringify(
+        Array.from({ length: MAX_ACTIVITY_ENTRIES }, (_, i) => ({ ...ENTRY, id: `old-${i}` }))
+      )
+    );
+    const added = recordActivity(ENTRY);
+
+    const log = getActivityLog();
+    expect(log).toHaveLength(MAX_ACTIVITY_ENTRIES);
+    expect(log[0].id).toBe(added.id);
+  });
+
+  it('ignores corrupt storage', () => {
+    localStorage.setItem(ACTIVITY_LOG_STORAGE_KEY, '{not json');
+    expect(getActivityLog()).toEqual([]);
+  });
+
+  it('marks entries as undone', () => {
+    const entry = recordActivity(ENTRY);
+    markActivityUndone(entry.id);
+    expect(getActivityLog()[0].undoneAt).toBeDefined();
+  });
+});
+
+describe('trackActivity', () => {
+  it('logs success with the undo and passes the result through', async () => {
+    setActivityActor('github', 'octocat');
+    const result = await trackActivity(
+      {
+        channel: 'github',
+        operation: 'Create branch',
+        target: { resource: 'o/r' },
+        undo: { kind: 'kubernetes', cluster: 'c', path: '/x' },
+      },
+      async () => 42
+    );
+
+    expect(result).toBe(42);
+    expect(getActivityLog()[0]).toMatchObject({
+      outcome: 'success',
+      actor: 'octocat',
+      undo: { kind: 'kubernetes', cluster: 'c', path: '/x' },
+    });
+  });
+
+  it('logs failures without an undo and rethrows', async () => {
+    await expect(
+      trackActivity(
+        {
+          channel: 'kubernetes',
+          operation: 'Create namespace',
+          target: {},
+          undo: { kind: 'kubernetes', cluster: 'c', path: '/x' },
+        },
+        async () => {
+          throw new Error('forbidden');
+        }
+      )
+    ).rejects.toThrow('forbidden');
+
+    const [entry] = getActivityLog();
+    expect(entry).toMatchObject({ outcome: 'failure', error: 'forbidden' });
+    expect(entry.undo).toBeUndefined();
+  });
+});
+
+describe('isProjectActivity', () => {
+  const project = { cluster: 'aks-1', namespace: 'web' };
+
+  it('matches the namespace on the project cluster, or without a cluster', () => {
+    const entry = recordActivity({ ...ENTRY, target: { cluster: 'aks-1', namespace: 'web' } });
+    expect(isProjectActivity(entry, project)).toBe(true);
+    expect(isProjectActivity({ ...entry, target: { namespace: 'web' } }, project)).toBe(true);
+    expect(
+      isProjectActivity({ ...entry, target: { cluster: 'aks-2', namespace: 'web' } }, project)
+    ).toBe(false);
+    expect(isProjectActivity({ ...entry, target: { cluster: 'aks-1' } }, project)).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/**
+ * Local, persistent log of the changes the app makes to Azure, Kubernetes
+ * and GitHub. Mutating `az` commands are logged by `runCommandAsync` in
+ * `utils/azure/az-cli-core`; Kubernetes and GitHub writes are logged at
+ * their call sites through
+ * {@link trackActivity}.
+ */
+
+export const ACTIVITY_LOG_STORAGE_KEY = 'aks-desktop:activity-log';
+
+/** Oldest entries are dropped past this many. */
+export const MAX_ACTIVITY_ENTRIES = 1000;
+
+export type ActivityChannel = 'azure' | 'kubernetes' | 'github';
+
+/** What an operation acted on; fields that do not apply are left out. */
+export interface ActivityTarget {
+  subscription?: string;
+  resourceGroup?: string;
+  cluster?: string;
+  namespace?: string;
+  /** The resource itself, e.g. `Deployment/web`, an identity name or `owner/repo`. */
+  resource?: string;
+}
+
+/** How to revert an operation. */
+export type ActivityUndo =
+  | { kind: 'az'; args: string[] }
+  | { kind: 'kubernetes'; cluster: string; path: string };
+
+export interface ActivityEntry {
+  id: string;
+  /** ISO timestamp of when the operation started. */
+  at: string;
+  /** Signed-in account the operation ran as, when known. */
+  actor?: string;
+  channel: ActivityChannel;
+  /** Short description, e.g. `az identity create` or `Apply Deployment`. */
+  operation: string;
+  target: ActivityTarget;
+  /** Arguments with credentials redacted. */
+  args: string[];
+  outcome: 'success' | 'failure';
+  error?: string;
+  durationMs: number;
+  undo?: ActivityUndo;
+  /** Set once the undo has been run. */
+  undoneAt?: string;
+}
+
+const actors: Partial<Record<ActivityChannel, string>> = {};
+const listeners = new Set<() => void>();
+
+/**
+ * Remembers the account operations on a channel run as. Kubernetes calls go
+ * through the Azure credentials of the cluster, so they use the Azure account.
+ */
+export function setActivityActor(channel: 'azure' | 'github', actor: string | undefined): void {
+  actors[channel] = actor;
+}
+
+function actorFor(channel: ActivityChannel): string | undefined {
+  return channel === 'github' ? actors.github : actors.azure;
+}
+
+function isActivityEntry(value: unknown): value is ActivityEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const obj = value as Record<string, unknown>;
+  return (
+    typeof obj.id === 'string' &&
+    typeof obj.at === 'string' &&
+    typeof obj.operation === 'string' &&
+    Array.isArray(obj.args)
+  );
+}
+
+/** All logged operations, newest first. */
+export function getActivityLog(): ActivityEntry[] {
+  try {
+    const raw = localStorage.getItem(ACTIVITY_LOG_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isActivityEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveActivityLog(entries: ActivityEntry[]): void {
+  try {
+    localStorage.setItem(
+      ACTIVITY_LOG_STORAGE_KEY,
+      JSON.stringify(entries.slice(0, MAX_ACTIVITY_ENTRIES))
+    );
+  } catch (err) {
+    console.warn('Failed to save activity log:', err);
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function clearActivityLog(): void {
+  saveActivityLog([]);
+}
+
+/** Subscribes to log changes. Returns the unsubscribe function. */
+export function subscribeActivityLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Adds an entry; the id and actor are filled in. */
+export function recordActivity(entry: Omit<ActivityEntry, 'id' | 'actor'>): ActivityEntry {
+  const full: ActivityEntry = {
+    ...entry,
+    id: `${Date.parse(entry.at) || Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    actor: actorFor(entry.channel),
+  };
+  saveActivityLog([full, ...getActivityLog()]);
+  return full;
+}
+
+/** Marks an entry as reverted so its undo is not offered again. */
+export function markActivityUndone(id: string): void {
+  saveActivityLog(
+    getActivityLog().map(e => (e.id === id ? { ...e, undoneAt: new Date().toISOString() } : e))
+  );
+}
+
+/**
+ * Runs a Kubernetes or GitHub write and logs it, whether it succeeds or
+ * throws. The result or error is passed through unchanged.
+ */
+export async function trackActivity<T>(
+  activity: {
+    channel: 'kubernetes' | 'github';
+    operation: string;
+    target: ActivityTarget;
+    args?: string[];
+    undo?: ActivityUndo;
+  },
+  run: () => Promise<T>
+): Promise<T> {
+  const startedAt = new Date();
+  const log = (outcome: 'success' | 'failure', error?: string) =>
+    recordActivity({
+      channel: activity.channel,
+      operation: activity.operation,
+      target: activity.target,
+      args: activity.args ?? [],
+      at: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome,
+      ...(error ? { error } : {}),
+      ...(outcome === 'success' && activity.undo ? { undo: activity.undo } : {}),
+    });
+  try {
+    const result = await run();
+    log('success');
+    return result;
+  } catch (error) {
+    log('failure', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+/**
+ * Whether an entry concerns the given project, i.e. namespace on a cluster.
+ * Entries without a cluster (federated credentials, for instance) match on
+ * the namespace alone.
+ */
+export function isProjectActivity(
+  entry: ActivityEntry,
+  project: { cluster: string; namespace: string }
+): boolean {
+  return (
+    entry.target.namespace === project.namespace &&
+    (!entry.target.cluster || entry.target.cluster === project.cluster)
+  );
+}
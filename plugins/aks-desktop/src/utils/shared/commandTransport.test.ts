@@ -0,0 +1,217 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { listKeyVaults } from '../azure/az-keyvault';
+import {
+  type CommandFixture,
+  getDryRunLog,
+  getRecordedFixture,
+  isMutatingCommand,
+  parseCommandFixture,
+  redactArgs,
+  redactText,
+  runWithTransport,
+  setCommandTransportMode,
+} from './commandTransport';
+
+const SUBSCRIPTION = '00000000-0000-0000-0000-000000000000';
+
+afterEach(() => {
+  setCommandTransportMode('live');
+});
+
+describe('redaction', () => {
+  it('redacts credential flags in both forms', () => {
+    expect(redactArgs(['login', '--password', 'hunter2', '--client-secret=abc'])).toEqual([
+      'login',
+      '--password',
+      '[REDACTED]',
+      '--client-secret=[REDACTED]',
+    ]);
+  });
+
+  it('redacts tokens in output', () => {
+    const jwt = 'eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl';
+    expect(redactText(`{"accessToken": "abc", "name": "x"}`)).toBe(
+      '{"accessToken": "[REDACTED]", "name": "x"}'
+    );
+    expect(redactText(`Authorization: Bearer abc.def`)).toBe('Authorization: Bearer [REDACTED]');
+    expect(redactText(`token ${jwt}`)).toBe('token [REDACTED]');
+  });
+});
+
+describe('isMutatingCommand', () => {
+  it('treats list/show/get verbs as reads', () => {
+    expect(isMutatingCommand('az', ['aks', 'show', '--name', 'c'])).toBe(false);
+    expect(isMutatingCommand('az', ['account', 'get-access-token'])).toBe(false);
+    expect(isMutatingCommand('az', ['rest', '--url', 'https://x'])).toBe(false);
+  });
+
+  it('treats helm read verbs as reads', () => {
+    expect(isMutatingCommand('helm', ['version', '--short'])).toBe(false);
+    expect(isMutatingCommand('helm', ['show', 'values', 'oci://example.azurecr.io/web'])).toBe(
+      false
+    );
+    expect(isMutatingCommand('helm', ['template', 'web', './chart', '--namespace', 'n'])).toBe(
+      false
+    );
+    expect(isMutatingCommand('helm', ['search', 'repo', 'nginx'])).toBe(false);
+    expect(isMutatingCommand('helm', ['list', '--namespace', 'n'])).toBe(false);
+    expect(isMutatingCommand('helm', ['status', 'web'])).toBe(false);
+    expect(isMutatingCommand('helm', ['get', 'values', 'web'])).toBe(false);
+    expect(
+      isMutatingCommand('helm', ['pull', 'oci://example.azurecr.io/web', '--destination', '/tmp/x'])
+    ).toBe(false);
+  });
+
+  it('treats helm installs and logins as mutating', () => {
+    expect(isMutatingCommand('helm', ['upgrade', '--install', 'web', './chart'])).toBe(true);
+    expect(isMutatingCommand('helm', ['registry', 'login', 'example.azurecr.io'])).toBe(true);
+    expect(isMutatingCommand('helm', [])).toBe(true);
+  });
+
+  it('treats everything else as mutating', () => {
+    expect(isMutatingCommand('az', ['aks', 'nodepool', 'add', '--name', 'np'])).toBe(true);
+    expect(isMutatingCommand('az', ['aks', 'get-credentials', '--name', 'c'])).toBe(true);
+    expect(isMutatingCommand('az', ['rest', '--method', 'PUT', '--url', 'https://x'])).toBe(true);
+    expect(isMutatingCommand('kubectl', ['get', 'pods'])).toBe(true);
+  });
+});
+
+describe('runWithTransport', () => {
+  it('records redacted invocations with timing', async () => {
+    setCommandTransportMode('record');
+    await runWithTransport('az', ['login', '--password', 'hunter2'], async () => ({
+      stdout: '{"accessToken": "secret"}',
+      stderr: '',
+    }));
+
+    const fixture = getRecordedFixture();
+    expect(fixture.version).toBe(1);
+    expect(fixture.commands).toHaveLength(1);
+    expect(fixture.commands[0]).toMatchObject({
+      command: 'az',
+      args: ['login', '--password', '[REDACTED]'],
+      stdout: '{"accessToken": "[REDACTED]"}',
+    });
+    expect(fixture.commands[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('replays recorded responses in order without running commands', async () => {
+    const fixture: CommandFixture = {
+      version: 1,
+      recordedAt: '2026-01-01T00:00:00.000Z',
+      commands: [
+        {
+          command: 'az',
+          args: ['aks', 'show'],
+          stdout: 'Creating',
+          stderr: '',
+          startedAtMs: 0,
+          durationMs: 1,
+        },
+        {
+          command: 'az',
+          args: ['aks', 'show'],
+          stdout: 'Succeeded',
+          stderr: '',
+          startedAtMs: 5,
+          durationMs: 1,
+        },
+      ],
+    };
+    setCommandTransportMode('replay', fixture);
+    const execute = vi.fn();
+
+    const outputs = [];
+    for (let i = 0; i < 3; i++) {
+      outputs.push((await runWithTransport('az', ['aks', 'show'], execute)).stdout);
+    }
+    expect(outputs).toEqual(['Creating', 'Succeeded', 'Succeeded']);
+    expect(execute).not.toHaveBeenCalled();
+
+    const missing = await runWithTransport('az', ['group', 'list'], execute);
+    expect(missing.stderr).toContain('ERROR: No recorded response for: az group list');
+  });
+
+  it('serves az helpers from a fixture', async () => {
+    setCommandTransportMode(
+      'replay',
+      parseCommandFixture(
+        JSON.stringify({
+          version: 1,
+          recordedAt: '2026-01-01T00:00:00.000Z',
+          commands: [
+            {
+              command: 'az',
+              args: [
+                'keyvault',
+                'list',
+                '--subscription',
+                SUBSCRIPTION,
+                '--resource-type',
+                'vault',
+                '--query',
+                '[].{id:id,name:name,resourceGroup:resourceGroup,tenantId:properties.tenantId,vaultUri:properties.vaultUri,rbacAuthorization:properties.enableRbacAuthorization}',
+                '--output',
+                'json',
+              ],
+              stdout: '[{"id":"/v/kv","name":"kv","resourceGroup":"rg","rbacAuthorization":true}]',
+              stderr: '',
+              startedAtMs: 0,
+              durationMs: 100,
+            },
+          ],
+        })
+      )
+    );
+
+    const result = await listKeyVaults(SUBSCRIPTION);
+    expect(result.success).toBe(true);
+    expect(result.vaults?.[0]).toMatchObject({ name: 'kv', rbacAuthorization: true });
+  });
+
+  it('logs mutating commands in dry mode and runs reads', async () => {
+    setCommandTransportMode('dry');
+    const execute = vi.fn().mockResolvedValue({ stdout: '[]', stderr: '' });
+
+    const created = await runWithTransport('az', ['group', 'create', '-n', 'rg'], execute);
+    expect(created).toEqual({ stdout: '{}', stderr: '' });
+    const deleted = await runWithTransport(
+      'az',
+      ['group', 'delete', '-n', 'rg', '-o', 'none'],
+      execute
+    );
+    expect(deleted).toEqual({ stdout: '', stderr: '' });
+    expect(execute).not.toHaveBeenCalled();
+
+    await runWithTransport('az', ['group', 'list'], execute);
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(getDryRunLog().map(e => e.args.slice(0, 2))).toEqual([
+      ['group', 'create'],
+      ['group', 'delete'],
+    ]);
+  });
+
+  it('runs helm reads in dry mode so charts can still be previewed', async () => {
+    setCommandTransportMode('dry');
+    const execute = vi.fn().mockResolvedValue({ stdout: 'kind: Deployment', stderr: '' });
+
+    const rendered = await runWithTransport('helm', ['template', 'web', './chart'], execute);
+
+    expect(rendered.stdout).toBe('kind: Deployment');
+    expect(getDryRunLog()).toEqual([]);
+  });
+});
+
+describe('parseCommandFixture', () => {
+  it('rejects files that are not recordings', () => {
+    expect(() => parseCommandFixture('{"version": 2, "commands": []}')).toThrow(
+      'Not a command recording'
+    );
+    expect(() => parseCommandFixture('{"version": 1, "commands": [{"args": []}]}')).toThrow(
+      'Not a command recording'
+    );
+  });
+});
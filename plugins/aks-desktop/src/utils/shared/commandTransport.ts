@@ -0,0 +1,287 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/**
+ * Pluggable transport for CLI commands. Every `az` invocation made through
+ * `utils/azure/az-cli-core` or `utils/kubernetes/cli-runner` passes through
+ * the active transport, which decides whether to run it:
+ *
+ * - `live`: runs commands (the default).
+ * - `record`: runs commands and captures them, with secrets redacted, into a
+ *   fixture that can be downloaded.
+ * - `replay`: answers commands from a fixture without running anything.
+ * - `dry`: runs read-only commands and logs the mutating ones instead of
+ *   running them.
+ */
+
+/** Output of a command, as resolved by `runCommandAsync`. */
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/** One captured command invocation. */
+export interface RecordedCommand {
+  /** Logical command name, e.g. `az`, before path resolution. */
+  command: string;
+  args: string[];
+  stdout: string;
+  stderr: string;
+  /** Milliseconds since the recording started. */
+  startedAtMs: number;
+  durationMs: number;
+}
+
+/** Serialized recording that replay mode serves responses from. */
+export interface CommandFixture {
+  version: 1;
+  recordedAt: string;
+  commands: RecordedCommand[];
+}
+
+export type CommandTransportMode = 'live' | 'record' | 'replay' | 'dry';
+
+/** A command that dry mode skipped. */
+export interface DryRunEntry {
+  command: string;
+  args: string[];
+  /** ISO timestamp of when the command would have run. */
+  at: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+/** Flags whose value is a credential. */
+const SECRET_FLAGS = new Set([
+  '--password',
+  '-p',
+  '--client-secret',
+  '--secret',
+  '--token',
+  '--sas-token',
+  '--account-key',
+  '--connection-string',
+  '--federated-token',
+]);
+
+const SECRET_JSON_KEYS =
+  /("(?:accessToken|access_token|refreshToken|refresh_token|idToken|password|clientSecret|secretText|primaryKey|secondaryKey|connectionString|token)"\s*:\s*)"(?:[^"\\]|\\.)*"/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const BEARER_PATTERN = /(Bearer\s+)[\w\-.~+/]+=*/gi;
+
+/** Replaces credentials in command output with a placeholder. */
+export function redactText(text: string): string {
+  return text
+    .replace(SECRET_JSON_KEYS, `$1"${REDACTED}"`)
+    .replace(BEARER_PATTERN, `$1${REDACTED}`)
+    .replace(JWT_PATTERN, REDACTED);
+}
+
+/** Replaces the values of credential flags, in both `--flag value` and `--flag=value` form. */
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, i) => {
+    const eq = arg.indexOf('=');
+    if (eq > 0 && SECRET_FLAGS.has(arg.slice(0, eq))) return `${arg.slice(0, eq)}=${REDACTED}`;
+    if (i > 0 && SECRET_FLAGS.has(args[i - 1])) return REDACTED;
+    return redactText(arg);
+  });
+}
+
+/** Verbs that only read state; anything else is treated as mutating. */
+const READ_VERBS = new Set(['list', 'show', 'version', 'query', 'wait', 'check-name']);
+
+/**
+ * Helm commands that only read charts, repositories or releases. `template`
+ * renders locally without touching the cluster, and `pull` only downloads a
+ * chart to the local disk.
+ */
+const HELM_READ_VERBS = new Set([
+  'version',
+  'show',
+  'template',
+  'search',
+  'list',
+  'status',
+  'get',
+  'pull',
+]);
+
+/**
+ * Whether running the command may change something. Unknown commands count
+ * as mutating so dry mode errs on the side of not running them.
+ */
+export function isMutatingCommand(command: string, args: string[]): boolean {
+  if (command === 'helm') return !HELM_READ_VERBS.has(args[0] ?? '');
+  if (command !== 'az') return true;
+  const positional: string[] = [];
+  for (const arg of args) {
+    if (arg.startsWith('-')) break;
+    positional.push(arg);
+  }
+  const verb = positional[positional.length - 1] ?? '';
+  if (positional[0] === 'rest') {
+    const i = args.findIndex(a => a === '--method' || a === '-m');
+    return i >= 0 && (args[i + 1] ?? '').toLowerCase() !== 'get';
+  }
+  if (verb === 'get-credentials') return true;
+  return !(
+    READ_VERBS.has(verb) ||
+    verb.startsWith('get-') ||
+    verb.startsWith('list-') ||
+    verb.startsWith('show-')
+  );
+}
+
+/** Stand-in output for a skipped command: empty for tsv/none output, an empty JSON object otherwise. */
+function dryRunOutput(args: string[]): CommandOutput {
+  const i = args.findIndex(a => a === '--output' || a === '-o');
+  const format = i >= 0 ? args[i + 1] : 'json';
+  return { stdout: format === 'json' || format === 'jsonc' ? '{}' : '', stderr: '' };
+}
+
+function commandKey(command: string, args: string[]): string {
+  return JSON.stringify([command, ...redactArgs(args)]);
+}
+
+/** Parses and validates a fixture file's content. Throws when it is not a fixture. */
+export function parseCommandFixture(text: string): CommandFixture {
+  const data = JSON.parse(text);
+  if (!data || data.version !== 1 || !Array.isArray(data.commands)) {
+    throw new Error('Not a command recording: expected version 1 with a commands array');
+  }
+  for (const entry of data.commands) {
+    if (typeof entry?.command !== 'string' || !Array.isArray(entry.args)) {
+      throw new Error('Not a command recording: every command needs a command and args');
+    }
+  }
+  return data as CommandFixture;
+}
+
+/**
+ * Serves fixture responses. Identical invocations get their recorded
+ * responses in order, and the last one once those run out, so replay is
+ * deterministic for flows that poll.
+ */
+function createReplayer(fixture: CommandFixture) {
+  const queues = new Map<string, RecordedCommand[]>();
+  for (const entry of fixture.commands) {
+    const key = commandKey(entry.command, entry.args);
+    queues.set(key, [...(queues.get(key) ?? []), entry]);
+  }
+  return (command: string, args: string[]): CommandOutput => {
+    const queue = queues.get(commandKey(command, args));
+    if (!queue || queue.length === 0) {
+      return {
+        stdout: '',
+        stderr: `ERROR: No recorded response for: ${command} ${redactArgs(args).join(' ')}`,
+      };
+    }
+    const entry = queue.length > 1 ? queue.shift()! : queue[0];
+    return { stdout: entry.stdout, stderr: entry.stderr };
+  };
+}
+
+let mode: CommandTransportMode = 'live';
+let recording: RecordedCommand[] = [];
+let recordingStartedAt = 0;
+let replay: ((command: string, args: string[]) => CommandOutput) | null = null;
+let dryRunLog: DryRunEntry[] = [];
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+export function getCommandTransportMode(): CommandTransportMode {
+  return mode;
+}
+
+/**
+ * Switches the transport. Starting `record` or `dry` clears what the previous
+ * session captured; `replay` needs the fixture to answer from.
+ */
+export function setCommandTransportMode(next: 'live' | 'record' | 'dry'): void;
+export function setCommandTransportMode(next: 'replay', fixture: CommandFixture): void;
+export function setCommandTransportMode(
+  next: CommandTransportMode,
+  fixture?: CommandFixture
+): void {
+  if (next === 'replay') {
+    if (!fixture) throw new Error('Replay mode needs a fixture');
+    replay = createReplayer(fixture);
+  } else {
+    replay = null;
+  }
+  if (next === 'record') {
+    recording = [];
+    recordingStartedAt = Date.now();
+  }
+  if (next === 'dry') dryRunLog = [];
+  mode = next;
+  notify();
+}
+
+/** The commands captured since recording started, as a fixture. */
+export function getRecordedFixture(): CommandFixture {
+  return {
+    version: 1,
+    recordedAt: new Date(recordingStartedAt || Date.now()).toISOString(),
+    commands: [...recording],
+  };
+}
+
+/** Mutating commands skipped since dry mode started, oldest first. */
+export function getDryRunLog(): DryRunEntry[] {
+  return [...dryRunLog];
+}
+
+/** Subscribes to mode changes and newly captured commands. Returns the unsubscribe function. */
+export function subscribeCommandTransport(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Runs a command through the active transport.
+ *
+ * @param command - Logical command name, recorded and matched as given.
+ * @param args - Command-line arguments.
+ * @param execute - Runs the command for real; not called in replay mode, nor
+ *                  for mutating commands in dry mode.
+ */
+export async function runWithTransport(
+  command: string,
+  args: string[],
+  execute: () => Promise<CommandOutput>
+): Promise<CommandOutput> {
+  switch (mode) {
+    case 'replay':
+      return replay!(command, args);
+    case 'dry':
+      if (!isMutatingCommand(command, args)) return execute();
+      dryRunLog.push({ command, args: redactArgs(args), at: new Date().toISOString() });
+      notify();
+      return dryRunOutput(args);
+    case 'record': {
+      const started = Date.now();
+      const output = await execute();
+      // Drop results of a recording that was stopped or restarted mid-command.
+      if (mode === 'record' && started >= recordingStartedAt) {
+        recording.push({
+          command,
+          args: redactArgs(args),
+          stdout: redactText(output.stdout),
+          stderr: redactText(output.stderr),
+          startedAtMs: started - recordingStartedAt,
+          durationMs: Date.now() - started,
+        });
+        notify();
+      }
+      return output;
+    }
+    default:
+      return execute();
+  }
+}
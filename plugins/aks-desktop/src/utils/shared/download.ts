@@ -0,0 +1,18 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/**
+ * Saves `text` to a file through the browser download flow.
+ *
+ * @param fileName - Name offered in the save dialog.
+ * @param text - File contents.
+ * @param type - MIME type of the file. Defaults to JSON.
+ */
+export function downloadFile(fileName: string, text: string, type = 'application/json') {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,16 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+/**
+ * Returns the path on disk of a file the user picked, through Electron's
+ * `webUtils.getPathForFile`. Returns null outside the desktop app, where
+ * picked files have no path.
+ */
+export function getLocalFilePath(file: File): string | null {
+  try {
+    const electron = typeof require !== 'undefined' ? require('electron') : null;
+    return electron?.webUtils?.getPathForFile?.(file) || null;
+  } catch {
+    return null;
+  }
+}
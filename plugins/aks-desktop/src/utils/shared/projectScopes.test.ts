@@ -0,0 +1,184 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildDeploymentComparison,
+  buildScalingComparison,
+  buildUsageComparison,
+  getProjectScopes,
+  scopeKey,
+} from './projectScopes';
+
+function deployment(name: string, replicas: number, image: string, readyReplicas = replicas) {
+  return {
+    metadata: { name },
+    spec: { replicas, template: { spec: { containers: [{ name: 'app', image }] } } },
+    status: { readyReplicas },
+  };
+}
+
+describe('getProjectScopes', () => {
+  it('returns every cluster and namespace pair', () => {
+    expect(getProjectScopes({ clusters: ['a', 'b'], namespaces: ['x', 'y'] })).toEqual([
+      { cluster: 'a', namespace: 'x' },
+      { cluster: 'a', namespace: 'y' },
+      { cluster: 'b', namespace: 'x' },
+      { cluster: 'b', namespace: 'y' },
+    ]);
+  });
+
+  it('returns no scopes when the project has no clusters', () => {
+    expect(getProjectScopes({ clusters: [], namespaces: ['x'] })).toEqual([]);
+  });
+});
+
+describe('buildDeploymentComparison', () => {
+  const east = { cluster: 'east', namespace: 'shop' };
+  const west = { cluster: 'west', namespace: 'shop' };
+
+  it('does not flag deployments that match in every scope', () => {
+    const rows = buildDeploymentComparison([east, west], {
+      [scopeKey(east)]: [deployment('web', 3, 'shop/web:1.2', 2)],
+      [scopeKey(west)]: [deployment('web', 3, 'shop/web:1.2')],
+    });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].differs).toBe(false);
+    expect(rows[0].snapshots[scopeKey(east)]).toEqual({
+      replicas: 3,
+      readyReplicas: 2,
+      images: ['shop/web:1.2'],
+    });
+  });
+
+  it('flags deployments whose replicas or images differ', () => {
+    const rows = buildDeploymentComparison([east, west], {
+      [scopeKey(east)]: [deployment('api', 2, 'shop/api:1'), deployment('web', 3, 'shop/web:1')],
+      [scopeKey(west)]: [deployment('api', 4, 'shop/api:1'), deployment('web', 3, 'shop/web:2')],
+    });
+
+    expect(rows.map(row => [row.name, row.differs])).toEqual([
+      ['api', true],
+      ['web', true],
+    ]);
+  });
+
+  it('marks deployments missing from a scope', () => {
+    const rows = buildDeploymentComparison([east, west], {
+      [scopeKey(east)]: [deployment('worker', 1, 'shop/worker:1')],
+      [scopeKey(west)]: [],
+    });
+
+    expect(rows[0].snapshots[scopeKey(west)]).toBeNull();
+    expect(rows[0].differs).toBe(true);
+  });
+});
+
+describe('buildScalingComparison', () => {
+  const east = { cluster: 'east', namespace: 'shop' };
+  const west = { cluster: 'west', namespace: 'shop' };
+  const hpa = (target: string, minReplicas: number, maxReplicas: number) => ({
+    spec: { scaleTargetRef: { kind: 'Deployment', name: target }, minReplicas, maxReplicas },
+  });
+
+  it('reports autoscaler bounds and flags scopes that scale differently', () => {
+    const rows = buildScalingComparison(
+      [east, west],
+      {
+        [scopeKey(east)]: [deployment('web', 3, 'shop/web:1.2'), deployment('api', 2, 'a')],
+        [scopeKey(west)]: [deployment('web', 5, 'shop/web:1.2'), deployment('api', 2, 'a')],
+      },
+      {
+        [scopeKey(east)]: [hpa('web', 2, 10)],
+        [scopeKey(west)]: [hpa('web', 2, 10), hpa('api', 1, 4)],
+      }
+    );
+
+    const web = rows.find(r => r.name === 'web')!;
+    expect(web.snapshots[scopeKey(east)]).toEqual({
+      replicas: 3,
+      readyReplicas: 3,
+      autoscaler: { minReplicas: 2, maxReplicas: 10 },
+    });
+    // Same bounds, so the replica count the autoscaler chose does not count.
+    expect(web.differs).toBe(false);
+
+    const api = rows.find(r => r.name === 'api')!;
+    expect(api.snapshots[scopeKey(east)]?.autoscaler).toBeNull();
+    expect(api.differs).toBe(true);
+  });
+});
+
+describe('buildUsageComparison', () => {
+  const east = { cluster: 'east', namespace: 'shop' };
+  const west = { cluster: 'west', namespace: 'shop' };
+  const selected = (name: string, app: string) => ({
+    ...deployment(name, 1, 'img'),
+    spec: {
+      ...deployment(name, 1, 'img').spec,
+      selector: { matchLabels: { app } },
+    },
+  });
+  const pod = (name: string, app: string) => ({ metadata: { name, labels: { app } } });
+  const usage = (name: string, cpu: string, memory: string) => ({
+    metadata: { name },
+    containers: [{ name: 'app', usage: { cpu, memory } }],
+  });
+
+  it('sums usage per deployment, per scope and overall', () => {
+    const result = buildUsageComparison(
+      [east, west],
+      {
+        [scopeKey(east)]: [selected('web', 'web')],
+        [scopeKey(west)]: [selected('web', 'web')],
+      },
+      {
+        [scopeKey(east)]: [pod('web-1', 'web'), pod('web-2', 'web'), pod('job-1', 'job')],
+        [scopeKey(west)]: [pod('web-1', 'web')],
+      },
+      {
+        [scopeKey(east)]: [
+          usage('web-1', '100m', '64Mi'),
+          usage('web-2', '150m', '64Mi'),
+          usage('job-1', '1', '1Gi'),
+        ],
+        [scopeKey(west)]: [usage('web-1', '50m', '32Mi')],
+      }
+    );
+
+    expect(result.rows).toEqual([
+      {
+        name: 'web',
+        snapshots: {
+          [scopeKey(east)]: { pods: 2, cpuMillicores: 250, memoryBytes: 128 * 1024 * 1024 },
+          [scopeKey(west)]: { pods: 1, cpuMillicores: 50, memoryBytes: 32 * 1024 * 1024 },
+        },
+        differs: false,
+      },
+    ]);
+    expect(result.totals[scopeKey(east)]).toEqual({
+      pods: 3,
+      cpuMillicores: 1250,
+      memoryBytes: 1152 * 1024 * 1024,
+    });
+    expect(result.total).toEqual({
+      pods: 4,
+      cpuMillicores: 1300,
+      memoryBytes: 1184 * 1024 * 1024,
+    });
+  });
+
+  it('flags deployments missing from a scope and counts scopes without metrics as empty', () => {
+    const result = buildUsageComparison(
+      [east, west],
+      { [scopeKey(east)]: [selected('web', 'web')] },
+      {},
+      {}
+    );
+
+    expect(result.rows[0].differs).toBe(true);
+    expect(result.rows[0].snapshots[scopeKey(west)]).toBeNull();
+    expect(result.total).toEqual({ pods: 0, cpuMillicores: 0, memoryBytes: 0 });
+  });
+});
@@ -0,0 +1,236 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the Apache 2.0.
+
+import { parseCpuToMillicores, parseMemoryToBytes } from './resourceUnits';
+
+/** One namespace of a project on one of its clusters. */
+export interface ProjectScope {
+  cluster: string;
+  namespace: string;
+}
+
+/** Replicas and images of a Deployment in one scope. */
+export interface DeploymentSnapshot {
+  replicas: number;
+  readyReplicas: number;
+  images: string[];
+}
+
+/** Replicas and autoscaling bounds of a Deployment in one scope. */
+export interface ScalingSnapshot {
+  replicas: number;
+  readyReplicas: number;
+  /** Bounds of the HorizontalPodAutoscaler scaling the Deployment; null when scaled by hand. */
+  autoscaler: { minReplicas: number; maxReplicas: number } | null;
+}
+
+/** Resource usage of the pods of a Deployment, or of a whole scope. */
+export interface UsageSnapshot {
+  pods: number;
+  cpuMillicores: number;
+  memoryBytes: number;
+}
+
+/** A Deployment, or another named item, compared across the scopes of a project. */
+export interface ScopeComparisonRow<T> {
+  name: string;
+  /** Key of the row when `name` may repeat across rows; defaults to `name`. */
+  id?: string;
+  /** Snapshot keyed by {@link scopeKey}; null where the Deployment does not exist. */
+  snapshots: Record<string, T | null>;
+  /** Whether the snapshots differ, or the Deployment is missing somewhere. */
+  differs: boolean;
+}
+
+/** Replicas and images of a Deployment compared across scopes. */
+export type DeploymentComparisonRow = ScopeComparisonRow<DeploymentSnapshot>;
+
+/** Returns a stable string key for a scope. */
+export function scopeKey(scope: ProjectScope): string {
+  return `${scope.cluster}/${scope.namespace}`;
+}
+
+/**
+ * Returns every (cluster, namespace) pair of a project. Headlamp projects
+ * list the namespaces they include and the clusters they span; a namespace
+ * may exist on any of the clusters.
+ */
+export function getProjectScopes(project: {
+  clusters: string[];
+  namespaces: string[];
+}): ProjectScope[] {
+  return (project.clusters ?? []).flatMap(cluster =>
+    (project.namespaces ?? []).map(namespace => ({ cluster, namespace }))
+  );
+}
+
+function toSnapshot(deployment: any): DeploymentSnapshot {
+  return {
+    replicas: deployment?.spec?.replicas ?? 1,
+    readyReplicas: deployment?.status?.readyReplicas ?? 0,
+    images: (deployment?.spec?.template?.spec?.containers ?? []).map((c: any) => c.image ?? ''),
+  };
+}
+
+/**
+ * Lines up Deployments with the same name across scopes. A row differs when
+ * the `signature` of its snapshots differs between scopes.
+ */
+function compareDeployments<T>(
+  scopes: ProjectScope[],
+  deploymentsByScope: Record<string, any[]>,
+  toScopeSnapshot: (deployment: any, key: string) => T,
+  signature: (snapshot: T) => string
+): ScopeComparisonRow<T>[] {
+  const names = new Set<string>();
+  for (const deployments of Object.values(deploymentsByScope)) {
+    for (const deployment of deployments) {
+      if (deployment?.metadata?.name) names.add(deployment.metadata.name);
+    }
+  }
+
+  return [...names].sort().map(name => {
+    const snapshots: Record<string, T | null> = {};
+    for (const scope of scopes) {
+      const key = scopeKey(scope);
+      const deployment = (deploymentsByScope[key] ?? []).find(d => d?.metadata?.name === name);
+      snapshots[key] = deployment ? toScopeSnapshot(deployment, key) : null;
+    }
+
+    const signatures = new Set(Object.values(snapshots).map(s => (s ? signature(s) : 'missing')));
+    return { name, snapshots, differs: signatures.size > 1 };
+  });
+}
+
+/**
+ * Lines up Deployments with the same name across scopes.
+ *
+ * @param scopes - Scopes to compare, in column order.
+ * @param deploymentsByScope - Deployment objects keyed by {@link scopeKey}.
+ */
+export function buildDeploymentComparison(
+  scopes: ProjectScope[],
+  deploymentsByScope: Record<string, any[]>
+): DeploymentComparisonRow[] {
+  return compareDeployments(
+    scopes,
+    deploymentsByScope,
+    toSnapshot,
+    s => `${s.replicas}|${s.images.join(',')}`
+  );
+}
+
+/**
+ * Lines up the scaling of Deployments with the same name across scopes: the
+ * autoscaler bounds where a HorizontalPodAutoscaler (including one KEDA
+ * manages) targets the Deployment, the fixed replica count otherwise.
+ *
+ * @param scopes - Scopes to compare, in column order.
+ * @param deploymentsByScope - Deployment objects keyed by {@link scopeKey}.
+ * @param autoscalersByScope - HorizontalPodAutoscaler objects keyed by {@link scopeKey}.
+ */
+export function buildScalingComparison(
+  scopes: ProjectScope[],
+  deploymentsByScope: Record<string, any[]>,
+  autoscalersByScope: Record<string, any[]>
+): ScopeComparisonRow<ScalingSnapshot>[] {
+  return compareDeployments(
+    scopes,
+    deploymentsByScope,
+    (deployment, key) => {
+      const autoscaler = (autoscalersByScope[key] ?? []).find(
+        hpa =>
+          hpa?.spec?.scaleTargetRef?.kind === 'Deployment' &&
+          hpa.spec.scaleTargetRef.name === deployment.metadata.name
+      );
+      return {
+        replicas: deployment?.spec?.replicas ?? 1,
+        readyReplicas: deployment?.status?.readyReplicas ?? 0,
+        autoscaler: autoscaler
+          ? {
+              minReplicas: autoscaler.spec.minReplicas ?? 1,
+              maxReplicas: autoscaler.spec.maxReplicas ?? 1,
+            }
+          : null,
+      };
+    },
+    s =>
+      s.autoscaler
+        ? `auto|${s.autoscaler.minReplicas}|${s.autoscaler.maxReplicas}`
+        : `${s.replicas}`
+  );
+}
+
+/** Sums the container usage of pod metrics from `metrics.k8s.io`. */
+function sumUsage(podMetrics: any[]): UsageSnapshot {
+  const usage: UsageSnapshot = { pods: podMetrics.length, cpuMillicores: 0, memoryBytes: 0 };
+  for (const pod of podMetrics) {
+    for (const container of pod?.containers ?? []) {
+      usage.cpuMillicores += parseCpuToMillicores(container?.usage?.cpu ?? '');
+      usage.memoryBytes += parseMemoryToBytes(container?.usage?.memory ?? '');
+    }
+  }
+  return usage;
+}
+
+/** Whether a pod's labels satisfy a Deployment's `matchLabels` selector. */
+function selectsPod(deployment: any, pod: any): boolean {
+  const matchLabels: Record<string, string> = deployment?.spec?.selector?.matchLabels ?? {};
+  const labels: Record<string, string> = pod?.metadata?.labels ?? {};
+  const entries = Object.entries(matchLabels);
+  return entries.length > 0 && entries.every(([key, value]) => labels[key] === value);
+}
+
+/** Usage of Deployments compared across scopes, with the totals of each scope. */
+export interface UsageComparison {
+  rows: ScopeComparisonRow<UsageSnapshot>[];
+  /** Usage of every pod in a scope, keyed by {@link scopeKey}. */
+  totals: Record<string, UsageSnapshot>;
+  /** Usage of every pod across all scopes. */
+  total: UsageSnapshot;
+}
+
+/**
+ * Sums the current CPU and memory usage of each Deployment's pods in every
+ * scope, and of all pods per scope and overall. A row differs only when the
+ * Deployment is missing from some scope, since usage always varies.
+ *
+ * @param scopes - Scopes to compare, in column order.
+ * @param deploymentsByScope - Deployment objects keyed by {@link scopeKey}.
+ * @param podsByScope - Pod objects keyed by {@link scopeKey}, to match pods to Deployments.
+ * @param podMetricsByScope - `PodMetrics` objects keyed by {@link scopeKey}.
+ */
+export function buildUsageComparison(
+  scopes: ProjectScope[],
+  deploymentsByScope: Record<string, any[]>,
+  podsByScope: Record<string, any[]>,
+  podMetricsByScope: Record<string, any[]>
+): UsageComparison {
+  const rows = compareDeployments(
+    scopes,
+    deploymentsByScope,
+    (deployment, key) => {
+      const podNames = new Set(
+        (podsByScope[key] ?? [])
+          .filter(pod => selectsPod(deployment, pod))
+          .map(pod => pod.metadata.name)
+      );
+      return sumUsage((podMetricsByScope[key] ?? []).filter(m => podNames.has(m?.metadata?.name)));
+    },
+    () => ''
+  );
+
+  const totals: Record<string, UsageSnapshot> = {};
+  for (const scope of scopes) {
+    totals[scopeKey(scope)] = sumUsage(podMetricsByScope[scopeKey(scope)] ?? []);
+  }
+  const total = Object.values(totals).reduce(
+    (sum, usage) => ({
+      pods: sum.pods + usage.pods,
+      cpuMillicores: sum.cpuMillicores + usage.cpuMillicores,
+      memoryBytes: sum.memoryBytes + usage.memoryBytes,
+    }),
+    { pods: 0, cpuMillicores: 0, memoryBytes: 0 }
+  );
+  return { rows, totals, total };
+}
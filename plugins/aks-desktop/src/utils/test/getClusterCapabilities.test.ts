@@ -82,6 +82,7 @@ describe('getClusterCapabilities', () => {
       containerInsightsEnabled: true,
       kedaEnabled: true,
       vpaEnabled: true,
+      keyVaultSecretsProviderEnabled: true,
     });
 
     const mockProcess = createMockChildProcess(fullResponse);
@@ -99,6 +100,7 @@ describe('getClusterCapabilities', () => {
       containerInsightsEnabled: true,
       kedaEnabled: true,
       vpaEnabled: true,
+      keyVaultSecretsProviderEnabled: true,
       location: null,
       tier: null,
       kubernetesVersion: null,
@@ -187,6 +189,7 @@ describe('getClusterCapabilities', () => {
     expect(result.containerInsightsEnabled).toBeNull();
     expect(result.kedaEnabled).toBeNull();
     expect(result.vpaEnabled).toBeNull();
+    expect(result.keyVaultSecretsProviderEnabled).toBeNull();
   });
 
   test('returns null for sku when missing', async () => {
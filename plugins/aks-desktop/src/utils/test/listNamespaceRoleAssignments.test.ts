@@ -82,7 +82,7 @@ describe('listNamespaceRoleAssignments', () => {
       '--scope',
       '/subscriptions/test-sub/resourceGroups/test-rg/providers/Microsoft.ContainerService/managedClusters/test-cluster/providers/Microsoft.KubernetesConfiguration/namespaces/test-namespace',
       '--query',
-      '[].{principalName:principalName,principalType:principalType,roleDefinitionName:roleDefinitionName,scope:scope}',
+      '[].{principalId:principalId,principalName:principalName,principalType:principalType,roleDefinitionName:roleDefinitionName,scope:scope}',
       '--output',
       'json',
       '--subscription',